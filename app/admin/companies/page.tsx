@@ -1,9 +1,10 @@
 // -----------------------------------------------------------------------------
 // @file: app/admin/companies/page.tsx
-// @purpose: Admin-facing companies overview (tokens, plan & basic counts)
-// @version: v1.0.0
+// @purpose: Admin-facing companies overview (tokens, plan & basic counts,
+//           auto-assign and creative-claims toggles)
+// @version: v1.1.0
 // @status: active
-// @lastUpdate: 2025-11-15
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 "use client";
@@ -17,6 +18,10 @@ import { InlineAlert } from "@/components/ui/inline-alert";
 import { LoadingState } from "@/components/ui/loading-state";
 import { Modal, ModalFooter, ModalHeader } from "@/components/ui/modal";
 import { MfaChallengeModal, type MfaChallengeInfo } from "@/components/admin/mfa-challenge-modal";
+import {
+  CycleTimeSummary,
+  type CycleTimeAnalyticsData,
+} from "@/components/admin/cycle-time-summary";
 
 type CompanyPlan = {
   id: string;
@@ -40,6 +45,8 @@ type AdminCompany = {
   /** Company-wide auto-assign default. Projects in INHERIT mode (the
    *  default) resolve against this when a new ticket picks a creative. */
   autoAssignDefaultEnabled: boolean;
+  /** Creatives may claim this company's unassigned tickets from /creative. */
+  creativeClaimsEnabled: boolean;
   createdAt: string;
   updatedAt: string;
   plan: CompanyPlan | null;
@@ -182,6 +189,50 @@ export default function AdminCompaniesPage() {
     }
   };
 
+  // Creative-claims toggle. A plain flip — nothing is assigned when it
+  // changes, so there is no preview / confirm step.
+  const [claimsBusyId, setClaimsBusyId] = useState<string | null>(null);
+
+  const toggleCreativeClaims = async (c: AdminCompany) => {
+    setClaimsBusyId(c.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/companies/${c.id}/creative-claims`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !c.creativeClaimsEnabled }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || `Request failed with status ${res.status}`);
+      await load();
+    } catch (err: any) {
+      console.error("Creative claims toggle error:", err);
+      setError(err?.message || "Failed to update creative claim setting.");
+    } finally {
+      setClaimsBusyId(null);
+    }
+  };
+
+  // Per-company turnaround analytics (lead / cycle time) modal.
+  const [cycleTarget, setCycleTarget] = useState<AdminCompany | null>(null);
+  const [cycleData, setCycleData] = useState<CycleTimeAnalyticsData | null>(null);
+  const [cycleError, setCycleError] = useState<string | null>(null);
+
+  const openCycleTime = async (c: AdminCompany) => {
+    setCycleTarget(c);
+    setCycleData(null);
+    setCycleError(null);
+    try {
+      const res = await fetch(`/api/admin/companies/${c.id}/cycle-time`, { cache: "no-store" });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || `Request failed with status ${res.status}`);
+      setCycleData(json as CycleTimeAnalyticsData);
+    } catch (err: any) {
+      console.error("Cycle-time load error:", err);
+      setCycleError(err?.message || "Failed to load turnaround analytics.");
+    }
+  };
+
   const openAdjust = (c: AdminCompany) => {
     setAdjustTarget(c);
     setAdjustDirection("CREDIT");
@@ -400,6 +451,7 @@ export default function AdminCompaniesPage() {
               <TH align="right">Projects</TH>
               <TH align="right">Tickets</TH>
               <TH>Auto-assign</TH>
+              <TH>Claims</TH>
               <TH align="right">Created</TH>
               <TH align="right">Actions</TH>
             </THead>
@@ -450,18 +502,46 @@ export default function AdminCompaniesPage() {
                       {autoAssignBusyId === c.id ? "…" : c.autoAssignDefaultEnabled ? "On" : "Off"}
                     </button>
                   </TD>
-                  <TD align="right" className="text-[var(--bb-text-tertiary)]">
-                    {formatDate(c.createdAt)}
-                  </TD>
-                  <TD align="right">
+                  <TD>
                     <button
                       type="button"
-                      onClick={() => openAdjust(c)}
-                      className="rounded-full border border-[var(--bb-border)] bg-white px-2 py-0.5 text-[11px] font-medium text-[var(--bb-primary)] hover:border-[var(--bb-primary)]"
+                      onClick={() => toggleCreativeClaims(c)}
+                      disabled={claimsBusyId === c.id}
+                      title={
+                        c.creativeClaimsEnabled
+                          ? "Creatives can claim unassigned tickets from their available-work queue. Click to turn off."
+                          : "Unassigned tickets wait for auto-assign or an admin. Click to let creatives claim them."
+                      }
+                      className={`rounded-full border px-2 py-0.5 text-[11px] font-medium transition-colors disabled:opacity-50 ${
+                        c.creativeClaimsEnabled
+                          ? "border-emerald-300 bg-emerald-50 text-emerald-800 hover:border-emerald-500"
+                          : "border-[var(--bb-border)] bg-white text-[var(--bb-text-secondary)] hover:border-[var(--bb-primary)]"
+                      }`}
                     >
-                      Adjust tokens
+                      {claimsBusyId === c.id ? "…" : c.creativeClaimsEnabled ? "On" : "Off"}
                     </button>
                   </TD>
+                  <TD align="right" className="text-[var(--bb-text-tertiary)]">
+                    {formatDate(c.createdAt)}
+                  </TD>
+                  <TD align="right">
+                    <div className="flex justify-end gap-1.5">
+                      <button
+                        type="button"
+                        onClick={() => openCycleTime(c)}
+                        className="rounded-full border border-[var(--bb-border)] bg-white px-2 py-0.5 text-[11px] font-medium text-[var(--bb-text-secondary)] hover:border-[var(--bb-primary)]"
+                      >
+                        Turnaround
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => openAdjust(c)}
+                        className="rounded-full border border-[var(--bb-border)] bg-white px-2 py-0.5 text-[11px] font-medium text-[var(--bb-primary)] hover:border-[var(--bb-primary)]"
+                      >
+                        Adjust tokens
+                      </button>
+                    </div>
+                  </TD>
                 </tr>
               ))}
             </tbody>
@@ -586,6 +666,24 @@ export default function AdminCompaniesPage() {
         </form>
       </Modal>
 
+      {/* Per-company turnaround analytics */}
+      <Modal open={cycleTarget !== null} onClose={() => setCycleTarget(null)} size="lg">
+        <ModalHeader
+          eyebrow="Turnaround · last 90 days"
+          title={cycleTarget?.name ?? "Turnaround"}
+          onClose={() => setCycleTarget(null)}
+        />
+        {cycleError ? (
+          <InlineAlert variant="error" size="sm">
+            {cycleError}
+          </InlineAlert>
+        ) : cycleData ? (
+          <CycleTimeSummary data={cycleData} />
+        ) : (
+          <LoadingState message="Loading turnaround…" />
+        )}
+      </Modal>
+
       {/* Confirm sweeping the existing backlog when enabling auto-assign. */}
       <Modal open={autoAssignConfirm !== null} onClose={() => setAutoAssignConfirm(null)} size="md">
         <ModalHeader
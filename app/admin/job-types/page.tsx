@@ -1,9 +1,10 @@
 // -----------------------------------------------------------------------------
 // @file: app/admin/job-types/page.tsx
 // @purpose: Admin-facing management of job types (estimated hours -> auto pricing)
-// @version: v3.0.0
+//           and per-priority SLA targets
+// @version: v3.1.0
 // @status: active
-// @lastUpdate: 2026-02-20
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 "use client";
@@ -26,6 +27,26 @@ type CategoryRef = {
   icon: string | null;
 };
 
+type SlaKey = "default" | "LOW" | "MEDIUM" | "HIGH" | "URGENT";
+
+type SlaTargets = Record<SlaKey, number | null>;
+
+const SLA_FIELDS: { key: SlaKey; label: string }[] = [
+  { key: "default", label: "Default" },
+  { key: "LOW", label: "Low" },
+  { key: "MEDIUM", label: "Medium" },
+  { key: "HIGH", label: "High" },
+  { key: "URGENT", label: "Urgent" },
+];
+
+const EMPTY_SLA_FORM: Record<SlaKey, string> = {
+  default: "",
+  LOW: "",
+  MEDIUM: "",
+  HIGH: "",
+  URGENT: "",
+};
+
 type JobType = {
   id: string;
   name: string;
@@ -40,6 +61,7 @@ type JobType = {
   quantityLabel: string | null;
   defaultQuantity: number;
   aiPromptTemplate: string | null;
+  slaTargets?: SlaTargets;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -81,6 +103,7 @@ export default function AdminJobTypesPage() {
   const [formQuantityLabel, setFormQuantityLabel] = useState("");
   const [formDefaultQuantity, setFormDefaultQuantity] = useState("1");
   const [formAiPromptTemplate, setFormAiPromptTemplate] = useState("");
+  const [formSlaTargets, setFormSlaTargets] = useState<Record<SlaKey, string>>(EMPTY_SLA_FORM);
   const [formIsActive, setFormIsActive] = useState(true);
 
   const [saving, setSaving] = useState(false);
@@ -164,6 +187,7 @@ export default function AdminJobTypesPage() {
     setFormQuantityLabel("");
     setFormDefaultQuantity("1");
     setFormAiPromptTemplate("");
+    setFormSlaTargets(EMPTY_SLA_FORM);
     setFormIsActive(true);
     setSaveError(null);
     setSaveSuccess(null);
@@ -181,6 +205,13 @@ export default function AdminJobTypesPage() {
     setFormQuantityLabel(jt.quantityLabel ?? "");
     setFormDefaultQuantity(String(jt.defaultQuantity));
     setFormAiPromptTemplate(jt.aiPromptTemplate ?? "");
+    setFormSlaTargets({
+      default: String(jt.slaTargets?.default ?? ""),
+      LOW: String(jt.slaTargets?.LOW ?? ""),
+      MEDIUM: String(jt.slaTargets?.MEDIUM ?? ""),
+      HIGH: String(jt.slaTargets?.HIGH ?? ""),
+      URGENT: String(jt.slaTargets?.URGENT ?? ""),
+    });
     setFormIsActive(jt.isActive);
     setSaveError(null);
     setSaveSuccess(null);
@@ -252,6 +283,14 @@ export default function AdminJobTypesPage() {
     try {
       const estimatedHours = parseInt(formEstimatedHours, 10);
 
+      // Blank SLA fields clear the target for that priority.
+      const slaTargets = Object.fromEntries(
+        SLA_FIELDS.map(({ key }) => {
+          const hours = parseInt(formSlaTargets[key], 10);
+          return [key, Number.isFinite(hours) && hours > 0 ? hours : null];
+        }),
+      ) as SlaTargets;
+
       const payload = {
         name: formName.trim(),
         categoryId: formCategoryId || null,
@@ -265,6 +304,7 @@ export default function AdminJobTypesPage() {
         quantityLabel: formHasQuantity ? formQuantityLabel.trim() || null : null,
         defaultQuantity: formHasQuantity ? Math.max(1, parseInt(formDefaultQuantity, 10) || 1) : 1,
         aiPromptTemplate: formAiPromptTemplate.trim() || null,
+        slaTargets,
         isActive: formIsActive,
       };
 
@@ -700,6 +740,41 @@ export default function AdminJobTypesPage() {
               </div>
             )}
 
+            {/* SLA targets — business hours (Mon–Fri 09:00–17:00 UTC) per
+                priority; "Default" covers priorities left blank. */}
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-[var(--bb-secondary)]">
+                SLA targets <span className="text-[var(--bb-text-muted)]">(business hours)</span>
+              </p>
+              <div className="grid grid-cols-5 gap-2">
+                {SLA_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="flex flex-col gap-1">
+                    <label
+                      htmlFor={`job-sla-${key}`}
+                      className="text-[11px] text-[var(--bb-text-secondary)]"
+                    >
+                      {label}
+                    </label>
+                    <FormInput
+                      id={`job-sla-${key}`}
+                      type="number"
+                      min={1}
+                      max={2000}
+                      value={formSlaTargets[key]}
+                      onChange={(e) =>
+                        setFormSlaTargets((prev) => ({ ...prev, [key]: e.target.value }))
+                      }
+                      placeholder="—"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-[11px] text-[var(--bb-text-muted)]">
+                Counted Mon–Fri 09:00–17:00 UTC while a ticket is To do or In progress; paused while
+                it waits in review. Leave blank for no SLA. Changes apply to new tickets.
+              </p>
+            </div>
+
             {/* AI prompt template — tuned guidance appended to every
                 image generation for tickets of this job type. */}
             <div className="space-y-1">
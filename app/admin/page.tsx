@@ -12,6 +12,14 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { InlineAlert } from "@/components/ui/inline-alert";
 import { LoadingState } from "@/components/ui/loading-state";
+import {
+  CycleTimeSummary,
+  type CycleTimeAnalyticsData,
+} from "@/components/admin/cycle-time-summary";
+import {
+  SlaAttainmentSummary,
+  type SlaAttainmentAnalyticsData,
+} from "@/components/admin/sla-attainment-summary";
 import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis, Cell } from "recharts";
 
 type TicketStatus = "TODO" | "IN_PROGRESS" | "IN_REVIEW" | "DONE";
@@ -45,6 +53,8 @@ type AdminDashboardResponse = {
     overdueTickets: number;
     staleTickets: number;
   };
+  cycleTime: CycleTimeAnalyticsData;
+  sla: SlaAttainmentAnalyticsData;
 };
 
 type DashboardState =
@@ -137,6 +147,8 @@ export default function AdminDashboardPage() {
   const tokens = data?.tokens ?? null;
   const withdrawals = data?.withdrawals ?? null;
   const health = data?.health ?? null;
+  const cycleTime = data?.cycleTime ?? null;
+  const sla = data?.sla ?? null;
 
   /* Chart data */
   const statusChartData = platform
@@ -428,6 +440,32 @@ export default function AdminDashboardPage() {
             </section>
           </div>
 
+          {/* Turnaround: lead / cycle / time-in-status from the status history */}
+          {cycleTime && (
+            <section className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-5 py-5 shadow-sm">
+              <h2 className="text-sm font-semibold tracking-tight text-[var(--bb-secondary)]">
+                Turnaround
+              </h2>
+              <p className="mt-0.5 mb-4 text-[11px] text-[var(--bb-text-tertiary)]">
+                Tickets completed in the last 30 days
+              </p>
+              <CycleTimeSummary data={cycleTime} />
+            </section>
+          )}
+
+          {/* SLA attainment: per-job-type targets met vs. breached */}
+          {sla && (
+            <section className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-5 py-5 shadow-sm">
+              <h2 className="text-sm font-semibold tracking-tight text-[var(--bb-secondary)]">
+                SLA attainment
+              </h2>
+              <p className="mt-0.5 mb-4 text-[11px] text-[var(--bb-text-tertiary)]">
+                SLA-tracked tickets completed in the last 30 days
+              </p>
+              <SlaAttainmentSummary data={sla} />
+            </section>
+          )}
+
           {/* Row 4: Additional metrics + Quick links */}
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
             {/* Avg revisions */}
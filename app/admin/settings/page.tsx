@@ -25,7 +25,7 @@ import { useToast } from "@/components/ui/toast-provider";
 
 type SettingsMap = Record<string, string | null>;
 
-type SectionKey = "finance" | "talent" | "notifications" | "features";
+type SectionKey = "finance" | "tickets" | "talent" | "notifications" | "features";
 
 type SettingMeta = {
   label: string;
@@ -63,6 +63,20 @@ const SETTING_META: Record<string, SettingMeta> = {
     type: "number",
     section: "finance",
   },
+  TICKET_REOPEN_WINDOW_HOURS: {
+    label: "Correction reopen window (hours)",
+    description:
+      "How long after completion a company owner or PM can reopen a DONE ticket for a free correction. The ticket goes back to In progress, the creative is notified and is not paid a second time when it's completed again. One reopen per ticket. Default 48; set 0 to turn reopening off.",
+    type: "number",
+    section: "tickets",
+  },
+  TICKET_ARCHIVE_AFTER_DAYS: {
+    label: "Archive completed tickets after (days)",
+    description:
+      "Completed tickets older than this show in the customer Archive tab alongside cancelled ones, with their refunds and files. Nothing is deleted or hidden elsewhere. Default 90.",
+    type: "number",
+    section: "tickets",
+  },
   TALENT_APPLICATIONS_OPEN: {
     label: "Talent applications open",
     description:
@@ -104,6 +118,10 @@ const SECTION_TITLES: Record<SectionKey, { title: string; description: string }>
     title: "Finance",
     description: "Withdrawal floors and the weekly auto-payout cron.",
   },
+  tickets: {
+    title: "Tickets",
+    description: "Rules for tickets after they've been completed.",
+  },
   talent: {
     title: "Talent funnel",
     description:
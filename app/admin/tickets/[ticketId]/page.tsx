@@ -1,7 +1,8 @@
 // -----------------------------------------------------------------------------
 // @file: app/admin/tickets/[ticketId]/page.tsx
-// @purpose: Per-ticket admin drill-down. Read-only — every mutation still
-//           flows through the customer / creative routes so the existing
+// @purpose: Per-ticket admin drill-down. Read-only apart from internal
+//           notes — every other mutation still flows through the
+//           customer / creative routes so the existing
 //           permission posture (only the assigned creative can submit a
 //           revision, only the ticket owner can approve, etc.) stays the
 //           single source of truth. This page is investigative context.
@@ -12,6 +13,7 @@
 //             - Brief description + brief attachments
 //             - Revision timeline with assets and feedback
 //             - Comments timeline
+//             - Internal notes thread (admins + creative only)
 //             - Token cost + payout summary
 //             - Assignment history (auto-assign + manual decisions)
 //             - Admin actions performed on this ticket
@@ -28,6 +30,8 @@ import { Button } from "@/components/ui/button";
 import { EmptyState } from "@/components/ui/empty-state";
 import { InlineAlert } from "@/components/ui/inline-alert";
 import { LoadingState } from "@/components/ui/loading-state";
+import { InternalNotesPanel } from "@/components/tickets/internal-notes-panel";
+import type { MentionCandidate, MentionTarget } from "@/lib/tickets/comment-mentions";
 
 // ---------------------------------------------------------------------------
 // Types — narrow mirrors of the API shape, kept colocated so the page
@@ -68,7 +72,9 @@ type CommentRow = {
   id: string;
   body: string;
   createdAt: string;
+  isInternal: boolean;
   author: UserRef;
+  mentions: MentionTarget[];
 };
 
 type AssignmentLogRow = {
@@ -122,6 +128,7 @@ type DetailResponse = {
   briefAssets: AssetRow[];
   revisions: RevisionRow[];
   comments: CommentRow[];
+  internalMentionCandidates: MentionCandidate[];
   assignmentLogs: AssignmentLogRow[];
   auditLogs: AuditLogRow[];
 };
@@ -233,7 +240,9 @@ export default function AdminTicketDetailPage() {
   if (!data)
     return <EmptyState title="Ticket not found" description="No record matched that id." />;
 
-  const { ticket, briefAssets, revisions, comments, assignmentLogs, auditLogs } = data;
+  const { ticket, briefAssets, revisions, assignmentLogs, auditLogs } = data;
+  const comments = data.comments.filter((c) => !c.isInternal);
+  const internalNotes = data.comments.filter((c) => c.isInternal);
 
   return (
     <div className="mx-auto max-w-5xl space-y-6">
@@ -519,6 +528,18 @@ export default function AdminTicketDetailPage() {
         )}
       </section>
 
+      {/* Internal notes */}
+      <InternalNotesPanel
+        notes={internalNotes}
+        candidates={data.internalMentionCandidates}
+        postUrl={`/api/admin/tickets/${ticket.id}`}
+        onAdded={(note) =>
+          setData((prev) =>
+            prev ? { ...prev, comments: [...prev.comments, note as CommentRow] } : prev,
+          )
+        }
+      />
+
       {/* Assignment history */}
       {assignmentLogs.length > 0 && (
         <section className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-card)] p-6">
@@ -0,0 +1,80 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/admin/companies/[companyId]/creative-claims/route.ts
+// @purpose: Toggle whether creatives may claim a company's unassigned TODO
+//           tickets from the available-work queue (/creative).
+//
+//           `creativeClaimsEnabled` gates lib/tickets/claim-ticket.ts. Same
+//           SITE_ADMIN+ gate and audit trail as the sibling auto-assign
+//           toggle; nothing is assigned when the flag flips.
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { extractAuditContext, logAdminAction } from "@/lib/admin-audit";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isSiteAdminRole } from "@/lib/roles";
+import { parseBody } from "@/lib/schemas/helpers";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const toggleSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ companyId: string }> },
+) {
+  const { companyId } = await params;
+
+  let user;
+  try {
+    user = await getCurrentUserOrThrow();
+  } catch {
+    return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+  }
+  if (!isSiteAdminRole(user.role)) {
+    return NextResponse.json(
+      { error: "Only site admins can change creative claim settings" },
+      { status: 403 },
+    );
+  }
+
+  const parsed = await parseBody(req, toggleSchema);
+  if (!parsed.success) return parsed.response;
+  const { enabled } = parsed.data;
+
+  const company = await prisma.company.findUnique({
+    where: { id: companyId },
+    select: { id: true, name: true, creativeClaimsEnabled: true },
+  });
+  if (!company) {
+    return NextResponse.json({ error: "Company not found" }, { status: 404 });
+  }
+
+  if (company.creativeClaimsEnabled !== enabled) {
+    await prisma.company.update({
+      where: { id: company.id },
+      data: { creativeClaimsEnabled: enabled },
+    });
+
+    await logAdminAction({
+      actor: { id: user.id, email: user.email, role: user.role },
+      action: "COMPANY_CREATIVE_CLAIMS_EDIT",
+      outcome: "SUCCESS",
+      targetType: "Company",
+      targetId: company.id,
+      metadata: {
+        companyName: company.name,
+        from: company.creativeClaimsEnabled,
+        to: enabled,
+      },
+      context: extractAuditContext(req),
+    });
+  }
+
+  return NextResponse.json({ ok: true, creativeClaimsEnabled: enabled });
+}
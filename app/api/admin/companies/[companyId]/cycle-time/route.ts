@@ -0,0 +1,55 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/admin/companies/[companyId]/cycle-time/route.ts
+// @purpose: Per-company turnaround analytics for /admin/companies — lead time,
+//           cycle time, time-in-status and review round-trips over tickets
+//           completed in the last N days (default 90), overall and per job
+//           type. Backed by the TicketStatusEvent history
+//           (lib/tickets/status-history.ts).
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isSiteAdminRole } from "@/lib/roles";
+import { getCycleTimeAnalytics } from "@/lib/tickets/status-history";
+
+const DEFAULT_DAYS = 90;
+const MAX_DAYS = 365;
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ companyId: string }> },
+) {
+  const { companyId } = await params;
+
+  let user;
+  try {
+    user = await getCurrentUserOrThrow();
+  } catch {
+    return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+  }
+  if (!isSiteAdminRole(user.role)) {
+    return NextResponse.json({ error: "Admin only" }, { status: 403 });
+  }
+
+  const company = await prisma.company.findUnique({
+    where: { id: companyId },
+    select: { id: true, name: true },
+  });
+  if (!company) {
+    return NextResponse.json({ error: "Company not found" }, { status: 404 });
+  }
+
+  const rawDays = parseInt(req.nextUrl.searchParams.get("days") ?? "", 10);
+  const days = Number.isFinite(rawDays) && rawDays > 0 ? Math.min(rawDays, MAX_DAYS) : DEFAULT_DAYS;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  try {
+    const analytics = await getCycleTimeAnalytics({ since, companyId: company.id });
+    return NextResponse.json({ company, days, ...analytics });
+  } catch (error) {
+    console.error("[admin.companies.cycle-time] GET error", error);
+    return NextResponse.json({ error: "Failed to load cycle-time analytics" }, { status: 500 });
+  }
+}
@@ -1,9 +1,9 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/admin/companies/route.ts
 // @purpose: Admin API for companies overview (tokens, plan, counts)
-// @version: v1.0.0
+// @version: v1.1.0
 // @status: active
-// @lastUpdate: 2025-11-15
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
@@ -47,6 +47,7 @@ export async function GET(_req: NextRequest) {
       slug: c.slug,
       tokenBalance: c.tokenBalance,
       autoAssignDefaultEnabled: c.autoAssignDefaultEnabled,
+      creativeClaimsEnabled: c.creativeClaimsEnabled,
       createdAt: c.createdAt.toISOString(),
       updatedAt: c.updatedAt.toISOString(),
       plan: c.plan
@@ -9,6 +9,8 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
+import { getCycleTimeAnalytics } from "@/lib/tickets/status-history";
+import { getSlaAttainmentAnalytics } from "@/lib/tickets/sla";
 
 function requireAdmin(userRole: string) {
   if (userRole !== "SITE_OWNER" && userRole !== "SITE_ADMIN") {
@@ -48,6 +50,8 @@ export async function GET() {
       companiesLowBalance,
       overdueTickets,
       staleTickets,
+      cycleTime,
+      sla,
     ] = await Promise.all([
       // Total companies
       prisma.company.count(),
@@ -144,6 +148,12 @@ export async function GET() {
           updatedAt: { lt: sevenDaysAgo },
         },
       }),
+
+      // Lead / cycle / time-in-status for tickets completed in last 30 days
+      getCycleTimeAnalytics({ since: thirtyDaysAgo }),
+
+      // SLA attainment per creative / company over the same window
+      getSlaAttainmentAnalytics({ since: thirtyDaysAgo }),
     ]);
 
     // Process token stats
@@ -202,6 +212,8 @@ export async function GET() {
         overdueTickets,
         staleTickets,
       },
+      cycleTime,
+      sla,
     });
   } catch (err: any) {
     console.error("[AdminDashboard] GET error:", err);
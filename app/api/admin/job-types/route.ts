@@ -1,9 +1,10 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/admin/job-types/route.ts
 // @purpose: Admin API for managing job types (estimated hours → auto token pricing)
-// @version: v2.0.0
+//           and their SLA targets (business hours per priority)
+// @version: v2.1.0
 // @status: active
-// @lastUpdate: 2025-12-27
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
@@ -13,6 +14,7 @@ import { isSiteAdminRole } from "@/lib/roles";
 import { BASE_PAYOUT_PERCENT } from "@/lib/token-engine";
 import { parseBody } from "@/lib/schemas/helpers";
 import { createJobTypeSchema, updateJobTypeSchema } from "@/lib/schemas/job-type.schemas";
+import { getSlaTargets, saveSlaTargets } from "@/lib/tickets/sla";
 
 // -----------------------------------------------------------------------------
 // GET: list all job types
@@ -34,6 +36,7 @@ export async function GET(_req: NextRequest) {
         },
       },
     });
+    const slaTargets = await getSlaTargets(jobTypes.map((jt) => jt.id));
 
     const items = jobTypes.map((jt) => ({
       id: jt.id,
@@ -56,6 +59,7 @@ export async function GET(_req: NextRequest) {
       quantityLabel: jt.quantityLabel,
       defaultQuantity: jt.defaultQuantity,
       aiPromptTemplate: jt.aiPromptTemplate,
+      slaTargets: slaTargets.get(jt.id),
       isActive: jt.isActive,
       createdAt: jt.createdAt.toISOString(),
       updatedAt: jt.updatedAt.toISOString(),
@@ -97,28 +101,34 @@ export async function POST(req: NextRequest) {
       quantityLabel,
       defaultQuantity,
       aiPromptTemplate,
+      slaTargets,
     } = parsed.data;
 
     // Derive token values from estimated hours
     const tokenCost = estimatedHours;
     const creativePayoutTokens = Math.round(estimatedHours * (BASE_PAYOUT_PERCENT / 100));
 
-    const created = await prisma.jobType.create({
-      data: {
-        name,
-        category,
-        categoryId,
-        description: description || null,
-        estimatedHours,
-        tokenCost,
-        creativePayoutTokens,
-        hasQuantity,
-        quantityLabel,
-        defaultQuantity,
-        aiPromptTemplate,
-        isActive,
-      },
+    const created = await prisma.$transaction(async (tx) => {
+      const jobType = await tx.jobType.create({
+        data: {
+          name,
+          category,
+          categoryId,
+          description: description || null,
+          estimatedHours,
+          tokenCost,
+          creativePayoutTokens,
+          hasQuantity,
+          quantityLabel,
+          defaultQuantity,
+          aiPromptTemplate,
+          isActive,
+        },
+      });
+      if (slaTargets) await saveSlaTargets(tx, jobType.id, slaTargets);
+      return jobType;
     });
+    const createdSlaTargets = await getSlaTargets([created.id]);
 
     // Fetch with category relation for response
     const withCategory = await prisma.jobType.findUnique({
@@ -146,6 +156,7 @@ export async function POST(req: NextRequest) {
           quantityLabel: created.quantityLabel,
           defaultQuantity: created.defaultQuantity,
           aiPromptTemplate: created.aiPromptTemplate,
+          slaTargets: createdSlaTargets.get(created.id),
           isActive: created.isActive,
           createdAt: created.createdAt.toISOString(),
           updatedAt: created.updatedAt.toISOString(),
@@ -197,19 +208,23 @@ export async function PATCH(req: NextRequest) {
       data.creativePayoutTokens = Math.round(fields.estimatedHours * (BASE_PAYOUT_PERCENT / 100));
     }
 
-    if (Object.keys(data).length === 0) {
+    if (Object.keys(data).length === 0 && !fields.slaTargets) {
       return NextResponse.json({ error: "No fields to update" }, { status: 400 });
     }
 
-    const updated = await prisma.jobType.update({
-      where: { id },
-      data,
-      include: {
-        categoryRef: {
-          select: { id: true, name: true, slug: true, icon: true },
+    const updated = await prisma.$transaction(async (tx) => {
+      if (fields.slaTargets) await saveSlaTargets(tx, id, fields.slaTargets);
+      return tx.jobType.update({
+        where: { id },
+        data,
+        include: {
+          categoryRef: {
+            select: { id: true, name: true, slug: true, icon: true },
+          },
         },
-      },
+      });
     });
+    const updatedSlaTargets = await getSlaTargets([updated.id]);
 
     return NextResponse.json({
       jobType: {
@@ -226,6 +241,7 @@ export async function PATCH(req: NextRequest) {
         quantityLabel: updated.quantityLabel,
         defaultQuantity: updated.defaultQuantity,
         aiPromptTemplate: updated.aiPromptTemplate,
+        slaTargets: updatedSlaTargets.get(updated.id),
         isActive: updated.isActive,
         createdAt: updated.createdAt.toISOString(),
         updatedAt: updated.updatedAt.toISOString(),
@@ -7,11 +7,13 @@
 //           + audit log entries — in a single response so the page renders
 //           without a half-dozen sub-fetches.
 //
-//           Read-only. Edits still flow through the customer / creative
-//           routes so the existing permission posture (only the assigned
-//           creative can submit a revision, only the ticket owner can
-//           approve, etc.) stays the single source of truth. This page is
-//           investigative context, not an action surface.
+//           Read-only apart from internal notes (POST): edits still flow
+//           through the customer / creative routes so the existing
+//           permission posture (only the assigned creative can submit a
+//           revision, only the ticket owner can approve, etc.) stays the
+//           single source of truth. This page is investigative context,
+//           not an action surface — internal notes are the staff channel
+//           with the creative and never reach the customer.
 //
 //           Auth: SITE_ADMIN+ to match every other admin list endpoint.
 // -----------------------------------------------------------------------------
@@ -24,6 +26,11 @@ import { resolveAssetUrl } from "@/lib/r2";
 import { isSiteAdminRole } from "@/lib/roles";
 import { buildTicketCode } from "@/lib/ticket-code";
 import { isTagsEnabled } from "@/lib/feature-flags";
+import { parseBody } from "@/lib/schemas/helpers";
+import { createCommentSchema } from "@/lib/schemas/comment.schemas";
+import { staffMentionCandidates } from "@/lib/tickets/comment-mentions";
+import { listTicketComments, postTicketComment } from "@/lib/tickets/comments";
+import { getMentionCandidates } from "@/lib/tickets/mentions";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -63,88 +70,82 @@ export async function GET(
     }
 
     // ---- parallel reads for the meatier collections -----------------
-    const [revisions, comments, briefAssets, assignmentLogs, auditLogs] = await Promise.all([
-      prisma.ticketRevision.findMany({
-        where: { ticketId },
-        orderBy: { version: "asc" },
-        include: {
-          submittedByCreative: { select: { id: true, email: true, name: true } },
-          feedbackByCustomer: { select: { id: true, email: true, name: true } },
-          assets: {
-            orderBy: { createdAt: "asc" },
-            select: {
-              id: true,
-              kind: true,
-              storageKey: true,
-              url: true,
-              mimeType: true,
-              bytes: true,
-              width: true,
-              height: true,
-              originalName: true,
-              createdAt: true,
+    const [revisions, comments, mentionCandidates, briefAssets, assignmentLogs, auditLogs] =
+      await Promise.all([
+        prisma.ticketRevision.findMany({
+          where: { ticketId },
+          orderBy: { version: "asc" },
+          include: {
+            submittedByCreative: { select: { id: true, email: true, name: true } },
+            feedbackByCustomer: { select: { id: true, email: true, name: true } },
+            assets: {
+              orderBy: { createdAt: "asc" },
+              select: {
+                id: true,
+                kind: true,
+                storageKey: true,
+                url: true,
+                mimeType: true,
+                bytes: true,
+                width: true,
+                height: true,
+                originalName: true,
+                createdAt: true,
+              },
             },
           },
-        },
-      }),
-      prisma.ticketComment.findMany({
-        where: { ticketId },
-        orderBy: { createdAt: "asc" },
-        select: {
-          id: true,
-          body: true,
-          createdAt: true,
-          author: { select: { id: true, email: true, name: true, role: true } },
-        },
-      }),
-      prisma.asset.findMany({
-        where: { ticketId, kind: "BRIEF_INPUT" },
-        orderBy: { createdAt: "asc" },
-        select: {
-          id: true,
-          storageKey: true,
-          url: true,
-          mimeType: true,
-          bytes: true,
-          width: true,
-          height: true,
-          originalName: true,
-          createdAt: true,
-        },
-      }),
-      prisma.ticketAssignmentLog.findMany({
-        where: { ticketId },
-        orderBy: { createdAt: "desc" },
-        take: 20,
-        select: {
-          id: true,
-          creativeId: true,
-          creative: { select: { email: true, name: true } },
-          reason: true,
-          notes: true,
-          metadata: true,
-          createdAt: true,
-        },
-      }),
-      // Admin actions whose target is this ticket — e.g. financial
-      // override, manual reassign. Kept small (10) since the page is
-      // investigative and the full audit log has its own filter.
-      prisma.adminActionLog.findMany({
-        where: { targetType: "Ticket", targetId: ticketId },
-        orderBy: { createdAt: "desc" },
-        take: 10,
-        select: {
-          id: true,
-          action: true,
-          outcome: true,
-          actorEmail: true,
-          actorRole: true,
-          metadata: true,
-          errorMessage: true,
-          createdAt: true,
-        },
-      }),
-    ]);
+        }),
+        // Customer-visible comments and internal notes alike
+        listTicketComments(ticketId, { includeInternal: true }),
+        getMentionCandidates(ticketId, caller.id),
+        prisma.asset.findMany({
+          where: { ticketId, kind: "BRIEF_INPUT" },
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            storageKey: true,
+            url: true,
+            mimeType: true,
+            bytes: true,
+            width: true,
+            height: true,
+            originalName: true,
+            createdAt: true,
+          },
+        }),
+        prisma.ticketAssignmentLog.findMany({
+          where: { ticketId },
+          orderBy: { createdAt: "desc" },
+          take: 20,
+          select: {
+            id: true,
+            creativeId: true,
+            creative: { select: { email: true, name: true } },
+            reason: true,
+            notes: true,
+            metadata: true,
+            createdAt: true,
+          },
+        }),
+        // Admin actions whose target is this ticket — e.g. financial
+        // override, manual reassign. Kept small (10) since the page is
+        // investigative and the full audit log has its own filter.
+        prisma.adminActionLog.findMany({
+          where: { targetType: "Ticket", targetId: ticketId },
+          orderBy: { createdAt: "desc" },
+          take: 10,
+          select: {
+            id: true,
+            action: true,
+            outcome: true,
+            actorEmail: true,
+            actorRole: true,
+            metadata: true,
+            errorMessage: true,
+            createdAt: true,
+          },
+        }),
+      ]);
 
     // ---- resolve displayable URLs for every asset -------------------
     // We never persist presigned URLs — they expire. Resolve on demand
@@ -229,10 +230,9 @@ export async function GET(
       },
       briefAssets: briefAssetsWithUrls,
       revisions: revisionsWithUrls,
-      comments: comments.map((c) => ({
-        ...c,
-        createdAt: c.createdAt.toISOString(),
-      })),
+      comments,
+      // Autocomplete source for the internal note composer
+      internalMentionCandidates: staffMentionCandidates(mentionCandidates),
       assignmentLogs: assignmentLogs.map((l) => ({
         ...l,
         createdAt: l.createdAt.toISOString(),
@@ -250,3 +250,47 @@ export async function GET(
     return NextResponse.json({ error: "Failed to load ticket" }, { status: 500 });
   }
 }
+
+// -----------------------------------------------------------------------------
+// POST /api/admin/tickets/[ticketId]
+// Body: { body: string } — adds an internal note (never shown to the customer)
+// -----------------------------------------------------------------------------
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ ticketId: string }> },
+) {
+  try {
+    const caller = await getCurrentUserOrThrow();
+    if (!isSiteAdminRole(caller.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { ticketId } = await params;
+    const parsed = await parseBody(req, createCommentSchema);
+    if (!parsed.success) return parsed.response;
+
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      select: { id: true, title: true },
+    });
+    if (!ticket) {
+      return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
+    }
+
+    const comment = await postTicketComment({
+      ticket,
+      authorId: caller.id,
+      body: parsed.data.body,
+      isInternal: true,
+    });
+
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (err: unknown) {
+    if ((err as { code?: string })?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[POST /api/admin/tickets/[ticketId]] error", err);
+    return NextResponse.json({ error: "Failed to add internal note" }, { status: 500 });
+  }
+}
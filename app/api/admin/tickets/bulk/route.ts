@@ -2,7 +2,8 @@
 // @file: app/api/admin/tickets/bulk/route.ts
 // @purpose: SITE_OWNER / SITE_ADMIN — multi-ticket operations:
 //             - reassign a creative across many tickets
-//             - force a status change across many tickets
+//             - force a status change across many tickets (DONE still
+//               waits for the ticket's approval chain, if any)
 //             - change priority across many tickets
 //           Per-ticket errors are collected and returned so the UI can show
 //           a "N succeeded, M failed" summary instead of aborting on the
@@ -18,6 +19,10 @@ import { prisma } from "@/lib/prisma";
 import { parseBody } from "@/lib/schemas/helpers";
 import { bulkTicketsSchema, type BulkTicketsInput } from "@/lib/schemas/bulk-tickets.schemas";
 import { completeTicketAndApplyTokens } from "@/lib/token-engine";
+import { recordStatusEvent } from "@/lib/tickets/status-history";
+import { notifyUnblockedDependents } from "@/lib/tickets/dependencies";
+import { applySlaPolicy } from "@/lib/tickets/sla";
+import { checkApprovalGate } from "@/lib/tickets/approvals";
 
 type BulkResult = {
   succeeded: string[];
@@ -61,7 +66,14 @@ export async function POST(req: NextRequest) {
       try {
         const existing = await prisma.ticket.findUnique({
           where: { id },
-          select: { id: true, status: true, completedAt: true, jobTypeId: true },
+          select: {
+            id: true,
+            status: true,
+            completedAt: true,
+            jobTypeId: true,
+            companyId: true,
+            projectId: true,
+          },
         });
         if (!existing) {
           result.failed.push({ id, error: "Ticket not found" });
@@ -82,15 +94,37 @@ export async function POST(req: NextRequest) {
           // without paying the creative or stamping completedAt. Route DONE
           // through the same completion engine the per-ticket path uses so
           // the payout still happens. Idempotent: a ticket already DONE (or
-          // already paid) is a no-op inside the engine.
+          // already paid) is a no-op inside the engine. The company's
+          // approval chain still applies — an admin can't sign off on the
+          // customer's behalf, so a pending chain fails that row.
           if (data.status === TicketStatus.DONE) {
             if (existing.status !== TicketStatus.DONE) {
+              const gate = await checkApprovalGate(existing);
+              if (!gate.ok) {
+                result.failed.push({ id, error: gate.message });
+                continue;
+              }
               if (existing.jobTypeId) {
-                await completeTicketAndApplyTokens(id);
+                await completeTicketAndApplyTokens(id, {
+                  actorId: user.id,
+                  source: "ADMIN_BULK",
+                });
               } else {
-                await prisma.ticket.update({
-                  where: { id },
-                  data: { status: TicketStatus.DONE },
+                await prisma.$transaction(async (tx) => {
+                  await tx.ticket.update({
+                    where: { id },
+                    data: { status: TicketStatus.DONE },
+                  });
+                  await recordStatusEvent(
+                    {
+                      ticketId: id,
+                      fromStatus: existing.status,
+                      toStatus: TicketStatus.DONE,
+                      actorId: user.id,
+                      source: "ADMIN_BULK",
+                    },
+                    tx,
+                  );
                 });
               }
               if (!existing.completedAt) {
@@ -99,17 +133,36 @@ export async function POST(req: NextRequest) {
                   data: { completedAt: new Date(), completedById: user.id },
                 });
               }
+              void notifyUnblockedDependents(id, user.id);
             }
           } else {
-            await prisma.ticket.update({
-              where: { id },
-              data: { status: data.status },
+            await prisma.$transaction(async (tx) => {
+              await tx.ticket.update({
+                where: { id },
+                data: { status: data.status },
+              });
+              await recordStatusEvent(
+                {
+                  ticketId: id,
+                  fromStatus: existing.status,
+                  toStatus: data.status,
+                  actorId: user.id,
+                  source: "ADMIN_BULK",
+                },
+                tx,
+              );
             });
+            if (data.status === TicketStatus.CANCELED) {
+              void notifyUnblockedDependents(id, user.id);
+            }
           }
         } else if (data.op === "priority") {
-          await prisma.ticket.update({
-            where: { id },
-            data: { priority: data.priority },
+          await prisma.$transaction(async (tx) => {
+            await tx.ticket.update({
+              where: { id },
+              data: { priority: data.priority },
+            });
+            await applySlaPolicy(tx, id);
           });
         }
 
@@ -1,9 +1,9 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/admin/tickets/route.ts
 // @purpose: Admin ticket list + manual creative assignment API
-// @version: v0.1.0
+// @version: v0.2.0
 // @status: experimental
-// @lastUpdate: 2025-11-21
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
@@ -14,6 +14,8 @@ import { extractAuditContext, logAdminAction } from "@/lib/admin-audit";
 import { canOverrideTicketFinancials } from "@/lib/roles";
 import { applyCompanyLedgerEntry, getEffectiveTokenValues } from "@/lib/token-engine";
 import { isTagsEnabled } from "@/lib/feature-flags";
+import { searchTicketIds } from "@/lib/search/full-text";
+import { parseSearchTerms } from "@/lib/search/query";
 
 type PatchPayload = {
   ticketId?: string;
@@ -73,9 +75,11 @@ export async function GET(req: NextRequest) {
     }
 
     if (search) {
+      const fullTextIds = await searchTicketIds({ kind: "ADMIN" }, parseSearchTerms(search));
       where.OR = [
         { title: { contains: search, mode: "insensitive" } },
         { company: { name: { contains: search, mode: "insensitive" } } },
+        ...(fullTextIds.length > 0 ? [{ id: { in: fullTextIds } }] : []),
       ];
     }
 
@@ -0,0 +1,119 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/assets/[assetId]/pins/carry-over/route.ts
+// @purpose: Customer check on a pin carried forward from the previous
+//           revision — confirm it as fixed (resolves it) or still open
+// @version: v1.0.2
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { notifyTicketWatchers } from "@/lib/notifications";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canMoveTicketsInProject, canViewProject } from "@/lib/permissions/projectRoles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { confirmCarriedPinSchema } from "@/lib/schemas/asset-pin.schemas";
+import { confirmCarriedPin } from "@/lib/tickets/pin-carry-over";
+
+// ---------------------------------------------------------------------------
+// PATCH /api/assets/[assetId]/pins/carry-over — Confirm a carried pin
+// ---------------------------------------------------------------------------
+
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ assetId: string }> }) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can confirm carried-over pins." },
+        { status: 403 },
+      );
+    }
+
+    const { assetId } = await ctx.params;
+
+    const asset = await prisma.asset.findUnique({
+      where: { id: assetId },
+      select: {
+        deletedAt: true,
+        ticket: { select: { id: true, companyId: true, creativeId: true, projectId: true } },
+      },
+    });
+    if (!asset || asset.deletedAt) {
+      return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
+    }
+
+    const membership = await prisma.companyMember.findUnique({
+      where: { companyId_userId: { companyId: asset.ticket.companyId, userId: user.id } },
+      select: { roleInCompany: true },
+    });
+    if (!membership) {
+      return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+    }
+    // Same project gate as leaving pin feedback.
+    const projectRole = await getProjectRole(
+      {
+        id: user.id,
+        activeCompanyId: asset.ticket.companyId,
+        companyRole: membership.roleInCompany,
+      },
+      asset.ticket.projectId,
+    );
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
+    }
+    if (!canMoveTicketsInProject(projectRole)) {
+      return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+    }
+
+    const parsed = await parseBody(req, confirmCarriedPinSchema);
+    if (!parsed.success) return parsed.response;
+
+    const result = await confirmCarriedPin({
+      assetId,
+      pinId: parsed.data.pinId,
+      customerUserId: user.id,
+      outcome: parsed.data.outcome,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: result.code === "NOT_FOUND" ? 404 : 400 },
+      );
+    }
+
+    // The creative only needs to hear about notes that are still open.
+    if (parsed.data.outcome === "STILL_OPEN") {
+      void notifyTicketWatchers({
+        recipientIds: [asset.ticket.creativeId],
+        type: "FEEDBACK_SUBMITTED",
+        title: "Revision note still open",
+        message: "The customer checked a carried-over note and it still needs work",
+        ticketId: asset.ticket.id,
+        actorId: user.id,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      pin: {
+        id: result.pin.id,
+        status: result.pin.status,
+        carryOverReview: result.pin.carryOverReview,
+        carryOverReviewedAt: result.pin.carryOverReviewedAt?.toISOString() ?? null,
+      },
+    });
+  } catch (err: any) {
+    if (err?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "UNAUTHENTICATED" }, { status: 401 });
+    }
+    console.error("[PATCH /api/assets/:assetId/pins/carry-over] error:", err);
+    return NextResponse.json({ error: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
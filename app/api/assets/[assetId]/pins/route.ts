@@ -1,24 +1,39 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/assets/[assetId]/pins/route.ts
 // @purpose: GET + POST + PATCH asset pin annotations (customer review feedback + creative resolution)
-// @version: v1.1.0
+//           Point pins plus rectangle / ellipse / arrow / freehand regions
+//           Customers need view access to the ticket's project to read pins
+//           and move access to leave feedback.
+// @version: v1.5.0
 // @status: active
-// @lastUpdate: 2025-12-28
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
-import { TicketStatus } from "@prisma/client";
+import { AssetPinShape, TicketStatus } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
-import { createNotification } from "@/lib/notifications";
+import { notifyTicketWatchers } from "@/lib/notifications";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canMoveTicketsInProject, canViewProject } from "@/lib/permissions/projectRoles";
+import { recordStatusEvent } from "@/lib/tickets/status-history";
+import { PIN_SHAPES, type PinGeometry, parsePinGeometry, pinAnchor } from "@/lib/pin-geometry";
 
 // ---------------------------------------------------------------------------
 // Shared: load asset + authorize
 // ---------------------------------------------------------------------------
 
-async function loadAssetAndAuthorize(assetId: string, user: { id: string; role: string }) {
+/**
+ * `access: "move"` is for customer writes (feedback can send the ticket back
+ * to IN_PROGRESS), so project VIEWERs are refused there.
+ */
+async function loadAssetAndAuthorize(
+  assetId: string,
+  user: { id: string; role: string },
+  access: "view" | "move" = "view",
+) {
   const asset = await prisma.asset.findUnique({
     where: { id: assetId },
     select: {
@@ -31,6 +46,7 @@ async function loadAssetAndAuthorize(assetId: string, user: { id: string; role:
           companyId: true,
           createdById: true,
           creativeId: true,
+          projectId: true,
           status: true,
         },
       },
@@ -46,11 +62,23 @@ async function loadAssetAndAuthorize(assetId: string, user: { id: string; role:
   if (user.role === "CUSTOMER") {
     const membership = await prisma.companyMember.findUnique({
       where: { companyId_userId: { companyId, userId: user.id } },
-      select: { id: true },
+      select: { roleInCompany: true },
     });
     if (!membership) {
       return { error: "FORBIDDEN" as const, status: 403, asset: null };
     }
+    // The asset's company, not necessarily the active one — resolve the
+    // project role against the membership we just loaded.
+    const projectRole = await getProjectRole(
+      { id: user.id, activeCompanyId: companyId, companyRole: membership.roleInCompany },
+      asset.ticket.projectId,
+    );
+    if (!canViewProject(projectRole)) {
+      return { error: "NOT_FOUND" as const, status: 404, asset: null };
+    }
+    if (access === "move" && !canMoveTicketsInProject(projectRole)) {
+      return { error: "FORBIDDEN" as const, status: 403, asset: null };
+    }
   } else if (user.role === "DESIGNER") {
     if (!asset.ticket.creativeId || asset.ticket.creativeId !== user.id) {
       return { error: "FORBIDDEN" as const, status: 403, asset: null };
@@ -86,12 +114,16 @@ export async function GET(_req: Request, ctx: { params: Promise<{ assetId: strin
         x: true,
         y: true,
         page: true,
+        shape: true,
+        geometry: true,
         order: true,
         label: true,
         status: true,
         createdById: true,
         createdAt: true,
         resolvedAt: true,
+        carriedFromPinId: true,
+        carryOverReview: true,
       },
     });
 
@@ -102,12 +134,16 @@ export async function GET(_req: Request, ctx: { params: Promise<{ assetId: strin
         x: p.x,
         y: p.y,
         page: p.page,
+        shape: p.shape,
+        geometry: p.geometry,
         order: p.order,
         label: p.label,
         status: p.status,
         createdById: p.createdById,
         createdAt: p.createdAt.toISOString(),
         resolvedAt: p.resolvedAt ? p.resolvedAt.toISOString() : null,
+        carriedOver: p.carriedFromPinId !== null,
+        carryOverReview: p.carryOverReview,
       })),
     });
   } catch (err: any) {
@@ -127,6 +163,9 @@ type PinInput = {
   x: number;
   y: number;
   page?: number;
+  /** Defaults to POINT. Region shapes send `geometry`; x/y are then derived. */
+  shape?: AssetPinShape;
+  geometry?: unknown;
   order: number;
   label: string;
 };
@@ -141,7 +180,7 @@ export async function POST(req: Request, ctx: { params: Promise<{ assetId: strin
 
     const { assetId } = await ctx.params;
 
-    const auth = await loadAssetAndAuthorize(assetId, user);
+    const auth = await loadAssetAndAuthorize(assetId, user, "move");
     if (auth.error) {
       return NextResponse.json({ error: auth.error }, { status: auth.status });
     }
@@ -159,15 +198,22 @@ export async function POST(req: Request, ctx: { params: Promise<{ assetId: strin
       return NextResponse.json({ error: "At least one pin is required." }, { status: 400 });
     }
 
+    const shaped: (PinInput & { shape: AssetPinShape; geometry: PinGeometry | null })[] = [];
+
     for (const pin of pins) {
-      if (
-        typeof pin.x !== "number" ||
-        typeof pin.y !== "number" ||
-        pin.x < 0 ||
-        pin.x > 1 ||
-        pin.y < 0 ||
-        pin.y > 1
-      ) {
+      const shape = pin.shape ?? AssetPinShape.POINT;
+      if (!PIN_SHAPES.includes(shape)) {
+        return NextResponse.json({ error: "Unknown annotation shape." }, { status: 400 });
+      }
+      const parsedGeometry = parsePinGeometry(shape, pin.geometry);
+      if (!parsedGeometry.ok) {
+        return NextResponse.json({ error: parsedGeometry.error }, { status: 400 });
+      }
+      // Regions anchor their number badge on the geometry itself, so the
+      // stored x/y can never drift away from the outline.
+      const { x, y } = pinAnchor(shape, parsedGeometry.geometry) ?? pin;
+
+      if (typeof x !== "number" || typeof y !== "number" || x < 0 || x > 1 || y < 0 || y > 1) {
         return NextResponse.json(
           { error: "Pin coordinates must be between 0 and 1." },
           { status: 400 },
@@ -193,6 +239,8 @@ export async function POST(req: Request, ctx: { params: Promise<{ assetId: strin
           { status: 400 },
         );
       }
+
+      shaped.push({ ...pin, x, y, shape, geometry: parsedGeometry.geometry });
     }
 
     // If submitting revision, validate ticket
@@ -249,12 +297,14 @@ export async function POST(req: Request, ctx: { params: Promise<{ assetId: strin
     const result = await prisma.$transaction(async (tx) => {
       // 1) Create all pins
       await tx.assetPin.createMany({
-        data: pins.map((pin) => ({
+        data: shaped.map((pin) => ({
           assetId,
           createdById: user.id,
           x: pin.x,
           y: pin.y,
           page: pin.page ?? 1,
+          shape: pin.shape,
+          geometry: pin.geometry ?? undefined,
           order: pin.order,
           label: pin.label.trim(),
         })),
@@ -286,15 +336,27 @@ export async function POST(req: Request, ctx: { params: Promise<{ assetId: strin
           where: { id: ticketId },
           data: { status: TicketStatus.IN_PROGRESS },
         });
+
+        await recordStatusEvent(
+          {
+            ticketId,
+            fromStatus: asset.ticket.status,
+            toStatus: TicketStatus.IN_PROGRESS,
+            actorId: user.id,
+            source: "CUSTOMER_FEEDBACK",
+            metadata: { pinCount: pins.length },
+          },
+          tx,
+        );
       }
 
       return { pinCount: pins.length };
     });
 
-    // Fire notification to creative when customer submits feedback
-    if (submitRevision && asset.ticket.creativeId) {
-      createNotification({
-        userId: asset.ticket.creativeId,
+    // Fire notification to the creative + watchers when customer submits feedback
+    if (submitRevision) {
+      void notifyTicketWatchers({
+        recipientIds: [asset.ticket.creativeId],
         type: "FEEDBACK_SUBMITTED",
         title: "Customer feedback received",
         message: `Customer submitted ${result.pinCount} revision note${result.pinCount > 1 ? "s" : ""}`,
@@ -327,7 +389,7 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ assetId: stri
 
     const { assetId } = await ctx.params;
 
-    const auth = await loadAssetAndAuthorize(assetId, user);
+    const auth = await loadAssetAndAuthorize(assetId, user, "move");
     if (auth.error) {
       return NextResponse.json({ error: auth.error }, { status: auth.status });
     }
@@ -383,17 +445,15 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ assetId: stri
       },
     });
 
-    // Notify the customer who created the pin
-    if (pin.createdById !== user.id) {
-      createNotification({
-        userId: pin.createdById,
-        type: "PIN_RESOLVED",
-        title: "Feedback note resolved",
-        message: `Pin #${pin.order}${pin.label ? ` "${pin.label.slice(0, 60)}"` : ""} was marked as resolved`,
-        ticketId: auth.asset!.ticket.id,
-        actorId: user.id,
-      });
-    }
+    // Notify the customer who created the pin, plus the ticket's watchers
+    void notifyTicketWatchers({
+      recipientIds: [pin.createdById],
+      type: "PIN_RESOLVED",
+      title: "Feedback note resolved",
+      message: `Pin #${pin.order}${pin.label ? ` "${pin.label.slice(0, 60)}"` : ""} was marked as resolved`,
+      ticketId: auth.asset!.ticket.id,
+      actorId: user.id,
+    });
 
     return NextResponse.json({
       success: true,
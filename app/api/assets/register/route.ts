@@ -1,9 +1,9 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/assets/register/route.ts
 // @purpose: Register an uploaded asset in DB after successful R2 upload
-// @version: v0.1.1
+// @version: v0.2.0
 // @status: active
-// @lastUpdate: 2025-12-27
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 export const runtime = "nodejs";
@@ -13,6 +13,7 @@ import { AssetKind } from "@prisma/client";
 
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
+import { carryOverOpenPins } from "@/lib/tickets/pin-carry-over";
 import { getR2PublicBaseUrl } from "@/lib/r2";
 import { isCompanyAdminRole } from "@/lib/permissions/companyRoles";
 
@@ -159,6 +160,16 @@ export async function POST(req: Request) {
       },
     });
 
+    // Carry the previous revision's OPEN pins onto this file if it matches
+    // one of the old ones. Best effort — the upload itself already succeeded.
+    if (kind === "OUTPUT_IMAGE" && revisionId) {
+      try {
+        await carryOverOpenPins(prisma, { ticketId, revisionId });
+      } catch (err) {
+        console.error("[assets/register] pin carry-over failed:", err);
+      }
+    }
+
     return NextResponse.json({ asset });
   } catch (err: any) {
     const code = err?.code ?? "UNKNOWN";
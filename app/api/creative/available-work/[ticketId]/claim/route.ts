@@ -0,0 +1,64 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/creative/available-work/[ticketId]/claim/route.ts
+// @purpose: Creative claims an unassigned ticket from the available-work
+//           queue; pause, task-cap and plan-concurrency gates live in
+//           lib/tickets/claim-ticket.ts
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { claimTicket } from "@/lib/tickets/claim-ticket";
+
+type RouteContext = { params: Promise<{ ticketId: string }> };
+
+export async function POST(_req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "DESIGNER") {
+      return NextResponse.json({ error: "Only creatives can claim tickets." }, { status: 403 });
+    }
+
+    const { ticketId } = await ctx.params;
+    if (!ticketId) {
+      return NextResponse.json({ error: "Missing ticketId in route params" }, { status: 400 });
+    }
+
+    const result = await claimTicket({ ticketId, creativeId: user.id });
+
+    if (!result.success) {
+      switch (result.code) {
+        case "CREATIVE_NOT_FOUND":
+        case "NOT_AVAILABLE":
+          return NextResponse.json({ error: result.message }, { status: 404 });
+        case "AT_CAP":
+          return NextResponse.json(
+            {
+              error: result.message,
+              openTicketCount: result.openTicketCount,
+              tasksPerWeekCap: result.tasksPerWeekCap,
+            },
+            { status: 409 },
+          );
+        case "COMPANY_AT_CAPACITY":
+          return NextResponse.json(
+            { error: result.message, details: result.details },
+            { status: 409 },
+          );
+        default:
+          return NextResponse.json({ error: result.message }, { status: 409 });
+      }
+    }
+
+    return NextResponse.json({ success: true, ticketId: result.ticketId }, { status: 200 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[creative.available-work.claim] POST error", error);
+    return NextResponse.json({ error: "Failed to claim ticket." }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/creative/available-work/route.ts
+// @purpose: Unassigned TODO tickets the current creative may claim, plus
+//           their pause / task-cap state (see lib/tickets/claim-ticket.ts)
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextResponse } from "next/server";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { listAvailableTickets } from "@/lib/tickets/claim-ticket";
+
+export async function GET() {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "DESIGNER") {
+      return NextResponse.json(
+        { error: "Only creatives can access available work" },
+        { status: 403 },
+      );
+    }
+
+    const result = await listAvailableTickets(user.id);
+    if (!result) {
+      return NextResponse.json({ error: "Creative not found." }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      eligibility: result.eligibility,
+      tickets: result.tickets.map((t) => ({
+        ...t,
+        dueDate: t.dueDate ? t.dueDate.toISOString() : null,
+        createdAt: t.createdAt.toISOString(),
+      })),
+    });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[creative.available-work] GET error", error);
+    return NextResponse.json({ error: "Failed to load available work." }, { status: 500 });
+  }
+}
@@ -1,16 +1,20 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/creative/tickets/[ticketId]/comments/route.ts
-// @purpose: List and create comments for a creative ticket
-// @version: v1.0.0
+// @purpose: List and create comments + internal notes for a creative ticket
+//           (with @mentions + watcher fan-out)
+// @version: v1.3.0
 // @status: active
-// @lastUpdate: 2025-11-18
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
 import { parseBody } from "@/lib/schemas/helpers";
-import { createCommentSchema } from "@/lib/schemas/comment.schemas";
+import { createStaffCommentSchema } from "@/lib/schemas/comment.schemas";
+import { staffMentionCandidates } from "@/lib/tickets/comment-mentions";
+import { listTicketComments, postTicketComment } from "@/lib/tickets/comments";
+import { getMentionCandidates } from "@/lib/tickets/mentions";
 
 type RouteContext = {
   params: Promise<{
@@ -18,11 +22,9 @@ type RouteContext = {
   }>;
 };
 
-// Prisma client type hack (TicketComment delegate is missing from the VSCode types)
-const prismaAny = prisma as any;
-
 // -----------------------------------------------------------------------------
 // GET /api/creative/tickets/[ticketId]/comments
+// Returns customer-visible comments and internal notes (isInternal: true).
 // -----------------------------------------------------------------------------
 
 export async function GET(_req: NextRequest, { params }: RouteContext) {
@@ -61,34 +63,14 @@ export async function GET(_req: NextRequest, { params }: RouteContext) {
       );
     }
 
-    const comments = await prismaAny.ticketComment.findMany({
-      where: { ticketId },
-      orderBy: { createdAt: "asc" },
-      include: {
-        author: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-          },
-        },
-      },
-    });
+    const mentionCandidates = await getMentionCandidates(ticketId, user.id);
 
     return NextResponse.json(
       {
-        comments: (comments as any[]).map((c: any) => ({
-          id: c.id,
-          body: c.body,
-          createdAt: c.createdAt.toISOString(),
-          author: {
-            id: c.author.id,
-            name: c.author.name,
-            email: c.author.email,
-            role: c.author.role,
-          },
-        })),
+        comments: await listTicketComments(ticketId, { includeInternal: true }),
+        // Autocomplete sources for the two composers
+        mentionCandidates,
+        internalMentionCandidates: staffMentionCandidates(mentionCandidates),
       },
       { status: 200 },
     );
@@ -104,7 +86,8 @@ export async function GET(_req: NextRequest, { params }: RouteContext) {
 
 // -----------------------------------------------------------------------------
 // POST /api/creative/tickets/[ticketId]/comments
-// Body: { body: string }
+// Body: { body: string, isInternal?: boolean } — "@Name" mentions are
+// resolved server-side; isInternal hides the note from the customer.
 // -----------------------------------------------------------------------------
 
 export async function POST(req: NextRequest, { params }: RouteContext) {
@@ -124,9 +107,8 @@ export async function POST(req: NextRequest, { params }: RouteContext) {
       return NextResponse.json({ error: "Missing ticketId in route params" }, { status: 400 });
     }
 
-    const parsed = await parseBody(req, createCommentSchema);
+    const parsed = await parseBody(req, createStaffCommentSchema);
     if (!parsed.success) return parsed.response;
-    const rawBody = parsed.data.body;
 
     // Does this ticket actually belong to this creative?
     const ticket = await prisma.ticket.findFirst({
@@ -134,7 +116,7 @@ export async function POST(req: NextRequest, { params }: RouteContext) {
         id: ticketId,
         creativeId: user.id,
       },
-      select: { id: true },
+      select: { id: true, title: true },
     });
 
     if (!ticket) {
@@ -147,42 +129,14 @@ export async function POST(req: NextRequest, { params }: RouteContext) {
       );
     }
 
-    const created = await prismaAny.ticketComment.create({
-      data: {
-        ticketId,
-        authorId: user.id,
-        body: rawBody,
-      },
-      include: {
-        author: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-          },
-        },
-      },
+    const comment = await postTicketComment({
+      ticket,
+      authorId: user.id,
+      body: parsed.data.body,
+      isInternal: parsed.data.isInternal,
     });
 
-    const c = created as any;
-
-    return NextResponse.json(
-      {
-        comment: {
-          id: c.id,
-          body: c.body,
-          createdAt: c.createdAt.toISOString(),
-          author: {
-            id: c.author.id,
-            name: c.author.name,
-            email: c.author.email,
-            role: c.author.role,
-          },
-        },
-      },
-      { status: 201 },
-    );
+    return NextResponse.json({ comment }, { status: 201 });
   } catch (error: any) {
     if ((error as any)?.code === "UNAUTHENTICATED") {
       return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
@@ -0,0 +1,70 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/creative/tickets/[ticketId]/decline/route.ts
+// @purpose: Creative declines a TODO ticket assigned to them, with a reason;
+//           auto-assign then re-routes it (see lib/tickets/decline-ticket.ts)
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { parseBody } from "@/lib/schemas/helpers";
+import { declineTicketSchema } from "@/lib/schemas";
+import { declineTicketAssignment } from "@/lib/tickets/decline-ticket";
+
+type RouteContext = { params: Promise<{ ticketId: string }> };
+
+export async function POST(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "DESIGNER") {
+      return NextResponse.json(
+        { error: "Only creatives can decline their assigned tickets." },
+        { status: 403 },
+      );
+    }
+
+    const { ticketId } = await ctx.params;
+    if (!ticketId) {
+      return NextResponse.json({ error: "Missing ticketId in route params" }, { status: 400 });
+    }
+
+    const parsed = await parseBody(req, declineTicketSchema);
+    if (!parsed.success) return parsed.response;
+
+    const result = await declineTicketAssignment({
+      ticketId,
+      creative: { id: user.id, email: user.email },
+      reason: parsed.data.reason,
+    });
+
+    if (!result.success) {
+      switch (result.code) {
+        case "NOT_FOUND":
+          return NextResponse.json({ error: result.message }, { status: 404 });
+        case "NOT_TODO":
+          return NextResponse.json(
+            { error: result.message, status: result.status },
+            { status: 409 },
+          );
+        default:
+          return NextResponse.json({ error: result.message }, { status: 409 });
+      }
+    }
+
+    // The reassigned creative's identity stays server-side; the decliner only
+    // needs to know whether the ticket found a new home.
+    return NextResponse.json(
+      { success: true, ticketId: result.ticketId, reassigned: result.reassignedTo !== null },
+      { status: 200 },
+    );
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[creative.tickets.decline] POST error", error);
+    return NextResponse.json({ error: "Failed to decline ticket." }, { status: 500 });
+  }
+}
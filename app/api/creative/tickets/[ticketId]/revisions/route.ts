@@ -1,15 +1,16 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/creative/tickets/[ticketId]/revisions/route.ts
 // @purpose: Creative-facing revision history API (includes creativeMessage)
-// @version: v1.2.0
+// @version: v1.3.0
 // @status: active
-// @lastUpdate: 2025-12-25
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
 import { resolveAssetUrl } from "@/lib/r2";
+import { REVISION_PIN_SUMMARY_SELECT, summarizeRevisionPins } from "@/lib/tickets/pin-carry-over";
 
 type RouteParams = {
   ticketId: string;
@@ -97,7 +98,7 @@ export async function GET(_req: NextRequest, context: RouteContext) {
             width: true,
             height: true,
             originalName: true,
-            pins: { select: { status: true } },
+            pins: { select: REVISION_PIN_SUMMARY_SELECT },
           },
         },
       },
@@ -110,6 +111,7 @@ export async function GET(_req: NextRequest, context: RouteContext) {
         submittedAt: r.submittedAt ? r.submittedAt.toISOString() : null,
         feedbackAt: r.feedbackAt ? r.feedbackAt.toISOString() : null,
         feedbackMessage: r.feedbackMessage ?? null,
+        pinSummary: summarizeRevisionPins(r.assets.flatMap((a) => a.pins)),
         creativeMessage: r.creativeMessage ?? null,
         assets: await Promise.all(
           ((r as any).assets ?? []).map(async (a: any) => ({
@@ -1,14 +1,15 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/creative/tickets/[ticketId]/route.ts
 // @purpose: Get a single ticket assigned to the current creative
-// @version: v1.0.0
+// @version: v1.1.0
 // @status: active
-// @lastUpdate: 2025-11-18
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
+import { getTicketCustomFields } from "@/lib/tickets/custom-fields";
 
 type RouteContext = {
   params: Promise<{
@@ -106,6 +107,11 @@ export async function GET(_req: NextRequest, { params }: RouteContext) {
       ? (ticket.creativePayoutOverride ?? ticket.jobType.creativePayoutTokens * qty)
       : null;
 
+    // Company custom fields the customer filled in (read-only here).
+    const customFields = (await getTicketCustomFields(ticket.id, ticket.companyId)).filter(
+      (f) => f.value !== null || f.values.length > 0,
+    );
+
     return NextResponse.json(
       {
         company: ticket.company,
@@ -127,6 +133,7 @@ export async function GET(_req: NextRequest, { params }: RouteContext) {
           createdBy: ticket.createdBy,
           completedAt: ticket.completedAt?.toISOString() ?? null,
           completedBy: ticket.completedBy ?? null,
+          customFields,
         },
       },
       { status: 200 },
@@ -0,0 +1,61 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/creative/tickets/[ticketId]/watch/route.ts
+// @purpose: Watch / unwatch a ticket assigned to the current creative.
+//           Watchers get the ticket's status changes, revisions, comments
+//           and pin resolutions.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getTicketWatchState, unwatchTicket, watchTicket } from "@/lib/tickets/watchers";
+
+type RouteContext = { params: Promise<{ ticketId: string }> };
+
+async function handle(ctx: RouteContext, action: "get" | "watch" | "unwatch") {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "DESIGNER") {
+      return NextResponse.json({ error: "Only creatives can use this endpoint" }, { status: 403 });
+    }
+
+    const { ticketId } = await ctx.params;
+    const ticket = await prisma.ticket.findFirst({
+      where: { id: ticketId, creativeId: user.id },
+      select: { id: true },
+    });
+    if (!ticket) {
+      return NextResponse.json({ error: "Ticket not found for this creative." }, { status: 404 });
+    }
+
+    if (action === "watch") await watchTicket(prisma, ticket.id, [user.id]);
+    if (action === "unwatch") await unwatchTicket(ticket.id, user.id);
+
+    return NextResponse.json(await getTicketWatchState(ticket.id, user.id));
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error(`[creative/tickets/[ticketId]/watch] ${action} error`, error);
+    return NextResponse.json({ error: "Failed to update watch status" }, { status: 500 });
+  }
+}
+
+// GET — { watching, watcherCount } for the current user
+export async function GET(_req: NextRequest, ctx: RouteContext) {
+  return handle(ctx, "get");
+}
+
+// POST — start watching
+export async function POST(_req: NextRequest, ctx: RouteContext) {
+  return handle(ctx, "watch");
+}
+
+// DELETE — stop watching
+export async function DELETE(_req: NextRequest, ctx: RouteContext) {
+  return handle(ctx, "unwatch");
+}
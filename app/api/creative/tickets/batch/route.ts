@@ -1,16 +1,19 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/creative/tickets/batch/route.ts
 // @purpose: Batch status update for creative tickets (bulk actions)
-// @version: v0.1.0
+// @version: v0.2.0
 // @status: active
-// @lastUpdate: 2025-12-27
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
 import { TicketStatus } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
-import { createNotification } from "@/lib/notifications";
+import { notifyTicketWatchers } from "@/lib/notifications";
+import { recordStatusEvent } from "@/lib/tickets/status-history";
+import { describeOpenBlockers, getOpenBlockers } from "@/lib/tickets/dependencies";
+import { compareBacklog } from "@/lib/board";
 
 type TicketStatusString = "TODO" | "IN_PROGRESS" | "IN_REVIEW" | "DONE";
 
@@ -92,11 +95,27 @@ export async function PATCH(req: NextRequest) {
         status: true,
         companyId: true,
         createdById: true,
+        priority: true,
+        createdAt: true,
+        backlogRank: true,
       },
     });
 
     const ticketMap = new Map(tickets.map((t) => [t.id, t]));
 
+    // When starting work, walk the batch in backlog order so a company's
+    // remaining IN_PROGRESS slots go to the tickets it ranked first.
+    // Results are reported in request order regardless.
+    const processingOrder =
+      nextStatus === TicketStatus.IN_PROGRESS
+        ? [...ticketIds].sort((a, b) => {
+            const ta = ticketMap.get(a);
+            const tb = ticketMap.get(b);
+            if (!ta || !tb) return ta ? -1 : tb ? 1 : 0;
+            return compareBacklog(ta, tb);
+          })
+        : ticketIds;
+
     // Pre-compute concurrency limits if moving to IN_PROGRESS
     // Group by companyId to check limits per company
     let concurrencyByCompany: Map<
@@ -152,7 +171,7 @@ export async function PATCH(req: NextRequest) {
     // Process each ticket
     const results: BatchResult[] = [];
 
-    for (const ticketId of ticketIds) {
+    for (const ticketId of processingOrder) {
       const ticket = ticketMap.get(ticketId);
 
       // Ticket not found or not assigned to creative
@@ -184,6 +203,15 @@ export async function PATCH(req: NextRequest) {
         continue;
       }
 
+      // A blocked ticket can't start until its blockers are done
+      if (nextStatus === TicketStatus.IN_PROGRESS && ticket.status === TicketStatus.TODO) {
+        const blockers = await getOpenBlockers(ticket.id);
+        if (blockers.length > 0) {
+          results.push({ ticketId, success: false, error: describeOpenBlockers(blockers) });
+          continue;
+        }
+      }
+
       // Concurrency check for IN_PROGRESS
       if (
         nextStatus === TicketStatus.IN_PROGRESS &&
@@ -208,16 +236,28 @@ export async function PATCH(req: NextRequest) {
 
       // Execute update
       try {
-        await prisma.ticket.update({
-          where: { id: ticket.id },
-          data: { status: nextStatus },
+        await prisma.$transaction(async (tx) => {
+          await tx.ticket.update({
+            where: { id: ticket.id },
+            data: { status: nextStatus },
+          });
+          await recordStatusEvent(
+            {
+              ticketId: ticket.id,
+              fromStatus: ticket.status,
+              toStatus: nextStatus,
+              actorId: user.id,
+              source: "CREATIVE_BATCH",
+            },
+            tx,
+          );
         });
 
         results.push({ ticketId, success: true });
 
-        // Fire notification (fire-and-forget)
-        createNotification({
-          userId: ticket.createdById,
+        // Fire notification to the requester + watchers (fire-and-forget)
+        void notifyTicketWatchers({
+          recipientIds: [ticket.createdById],
           type: "TICKET_STATUS_CHANGED",
           title: "Ticket status updated",
           message: `"${ticket.title}" was moved to ${nextStatus.replace("_", " ").toLowerCase()}`,
@@ -234,6 +274,8 @@ export async function PATCH(req: NextRequest) {
       }
     }
 
+    results.sort((a, b) => ticketIds.indexOf(a.ticketId) - ticketIds.indexOf(b.ticketId));
+
     const successCount = results.filter((r) => r.success).length;
     const failCount = results.filter((r) => !r.success).length;
 
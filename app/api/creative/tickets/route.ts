@@ -1,17 +1,20 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/creative/tickets/route.ts
 // @purpose: Creative API for listing and updating assigned tickets (status, revisions, notes; no DONE)
-// @version: v1.6.1
+// @version: v1.9.0
 // @status: active
-// @lastUpdate: 2025-12-25
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
 import { TicketStatus, TicketPriority } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
-import { createNotification } from "@/lib/notifications";
+import { notifyTicketWatchers } from "@/lib/notifications";
+import { searchTicketIds } from "@/lib/search/full-text";
+import { parseSearchTerms } from "@/lib/search/query";
 import { transitionCreativeTicketStatus } from "@/lib/tickets/transition-status";
+import { notifyAwaitingApprovers } from "@/lib/tickets/approvals";
 
 type TicketStatusString = "TODO" | "IN_PROGRESS" | "IN_REVIEW" | "DONE";
 
@@ -23,6 +26,7 @@ type CreativeTicket = {
   priority: TicketPriority;
   dueDate: string | null;
   companyTicketNumber: number | null;
+  backlogRank: number | null;
   createdAt: string;
   updatedAt: string;
   company: {
@@ -156,10 +160,15 @@ export async function GET(req: NextRequest) {
     }
 
     if (search) {
+      const fullTextIds = await searchTicketIds(
+        { kind: "CREATIVE", creativeId: user.id },
+        parseSearchTerms(search),
+      );
       where.OR = [
         { title: { contains: search, mode: "insensitive" } },
         { company: { name: { contains: search, mode: "insensitive" } } },
         { project: { name: { contains: search, mode: "insensitive" } } },
+        ...(fullTextIds.length > 0 ? [{ id: { in: fullTextIds } }] : []),
       ];
     }
 
@@ -189,6 +198,7 @@ export async function GET(req: NextRequest) {
           priority: true,
           dueDate: true,
           companyTicketNumber: true,
+          backlogRank: true,
           createdAt: true,
           updatedAt: true,
           company: {
@@ -261,6 +271,7 @@ export async function GET(req: NextRequest) {
           priority: t.priority,
           dueDate: t.dueDate ? t.dueDate.toISOString() : null,
           companyTicketNumber: t.companyTicketNumber ?? null,
+          backlogRank: t.backlogRank,
           createdAt: t.createdAt.toISOString(),
           updatedAt: t.updatedAt.toISOString(),
           company: t.company
@@ -372,6 +383,15 @@ export async function PATCH(req: NextRequest) {
       if (outcome.code === "NOT_FOUND") {
         return NextResponse.json({ error: outcome.message }, { status: 404 });
       }
+      if (outcome.code === "BLOCKED") {
+        return NextResponse.json(
+          { error: outcome.message, blockers: outcome.blockers },
+          { status: 409 },
+        );
+      }
+      if (outcome.code === "RANKED_AHEAD") {
+        return NextResponse.json({ error: outcome.message, ahead: outcome.ahead }, { status: 409 });
+      }
       // CONCURRENCY_LIMIT
       return NextResponse.json(
         { error: outcome.message, details: outcome.details },
@@ -379,10 +399,11 @@ export async function PATCH(req: NextRequest) {
       );
     }
 
-    // Fire-and-forget notification. Kept in the route so the service
-    // stays free of I/O side-effects beyond the DB transaction.
-    createNotification({
-      userId: outcome.notify.recipientUserId,
+    // Fire-and-forget notification to the requester and the ticket's
+    // watchers. Kept in the route so the service stays free of I/O
+    // side-effects beyond the DB transaction.
+    void notifyTicketWatchers({
+      recipientIds: [outcome.notify.recipientUserId],
       type: outcome.notify.notificationType,
       title: outcome.notify.title,
       message: outcome.notify.message,
@@ -390,6 +411,11 @@ export async function PATCH(req: NextRequest) {
       actorId: outcome.notify.actorId,
     });
 
+    // A new revision restarts the approval chain — ask its first approver(s).
+    if (outcome.result.revisionId) {
+      void notifyAwaitingApprovers(outcome.result.ticketId, user.id);
+    }
+
     return NextResponse.json(
       {
         ticketId: outcome.result.ticketId,
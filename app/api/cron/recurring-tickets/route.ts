@@ -0,0 +1,61 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/cron/recurring-tickets/route.ts
+// @purpose: Scheduled job — create tickets for every recurring schedule whose
+//           nextRunAt has passed (lib/tickets/recurring-schedules.ts). Runs
+//           that can't create their ticket (e.g. insufficient tokens) are
+//           recorded on the schedule and reported to the company OWNERs.
+//           Safe to re-run: each occurrence is claimed before it's created.
+//
+//           Runs hourly via Vercel Cron (see vercel.json), so a schedule
+//           fires within the hour after its cron rule matches.
+//           Authenticated via Authorization: Bearer <CRON_SECRET>, same as
+//           /api/cron/process-payouts.
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { runDueRecurringSchedules } from "@/lib/tickets/recurring-schedules";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Verify the incoming request is actually from Vercel Cron (or a manual
+ *  admin trigger with the same secret). Returns true when authorized. */
+function isAuthorized(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    // No secret configured — refuse by default. Set CRON_SECRET in Vercel
+    // Project Settings → Environment Variables (Production).
+    return false;
+  }
+  const header = req.headers.get("authorization");
+  if (!header) return false;
+  if (header === `Bearer ${secret}`) return true;
+  // Vercel's cron sometimes forwards as the raw value too; accept either.
+  return header === secret;
+}
+
+export async function GET(req: NextRequest) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await runDueRecurringSchedules();
+
+    console.log("[cron/recurring-tickets] run complete", {
+      due: summary.due,
+      created: summary.created.length,
+      skipped: summary.skipped.length,
+      raced: summary.raced.length,
+    });
+
+    return NextResponse.json(summary);
+  } catch (error: unknown) {
+    console.error("[cron/recurring-tickets] fatal error", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Fatal error" },
+      { status: 500 },
+    );
+  }
+}
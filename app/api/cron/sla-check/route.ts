@@ -0,0 +1,55 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/cron/sla-check/route.ts
+// @purpose: Scheduled job — sweep tickets with a running SLA clock and notify
+//           the assigned creative and site admins when one is at risk (a
+//           quarter of its target left) or breached (lib/tickets/sla.ts).
+//           Safe to re-run: each alert is claimed on the ticket before it's
+//           sent, so a ticket is alerted at most once per state.
+//
+//           Runs hourly via Vercel Cron (see vercel.json), offset from
+//           /api/cron/recurring-tickets. Authenticated via Authorization:
+//           Bearer <CRON_SECRET>, same as /api/cron/process-payouts.
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { runSlaChecks } from "@/lib/tickets/sla";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Verify the incoming request is actually from Vercel Cron (or a manual
+ *  admin trigger with the same secret). Returns true when authorized. */
+function isAuthorized(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    // No secret configured — refuse by default. Set CRON_SECRET in Vercel
+    // Project Settings → Environment Variables (Production).
+    return false;
+  }
+  const header = req.headers.get("authorization");
+  if (!header) return false;
+  if (header === `Bearer ${secret}`) return true;
+  // Vercel's cron sometimes forwards as the raw value too; accept either.
+  return header === secret;
+}
+
+export async function GET(req: NextRequest) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await runSlaChecks();
+
+    console.log("[cron/sla-check] run complete", summary);
+
+    return NextResponse.json(summary);
+  } catch (error: unknown) {
+    console.error("[cron/sla-check] fatal error", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Fatal error" },
+      { status: 500 },
+    );
+  }
+}
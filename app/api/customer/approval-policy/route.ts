@@ -0,0 +1,184 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/approval-policy/route.ts
+// @purpose: Company approval chain and per-project overrides for
+//           /customer/settings. Reading is open to every company member;
+//           changes are OWNER/PM only.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { normalizeCompanyRole, isCompanyAdminRole } from "@/lib/permissions/companyRoles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { updateApprovalPolicySchema } from "@/lib/schemas/settings.schemas";
+import { APPROVAL_POLICY_SELECT, toApprovalPolicy } from "@/lib/tickets/approvals";
+
+async function loadSettings(companyId: string) {
+  const [policies, members, projects] = await Promise.all([
+    prisma.ticketApprovalPolicy.findMany({
+      where: { companyId },
+      select: APPROVAL_POLICY_SELECT,
+    }),
+    prisma.companyMember.findMany({
+      where: { companyId, user: { role: UserRole.CUSTOMER, deletedAt: null } },
+      orderBy: { createdAt: "asc" },
+      select: {
+        roleInCompany: true,
+        user: { select: { id: true, name: true, email: true } },
+      },
+    }),
+    prisma.project.findMany({
+      where: { companyId },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true, code: true },
+    }),
+  ]);
+
+  return {
+    policies: policies.map(toApprovalPolicy),
+    members: members.map((m) => ({
+      id: m.user.id,
+      name: m.user.name,
+      email: m.user.email,
+      roleInCompany: m.roleInCompany,
+    })),
+    projects,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// GET — Company policy, project overrides and the members who can approve
+// ---------------------------------------------------------------------------
+
+export async function GET(_req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can access approval settings." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    return NextResponse.json(await loadSettings(user.activeCompanyId), { status: 200 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.approval-policy] GET error", error);
+    return NextResponse.json({ error: "Failed to load approval settings." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PUT — Replace the company policy or one project's override
+// ---------------------------------------------------------------------------
+
+export async function PUT(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can change approval settings." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    if (!isCompanyAdminRole(normalizeCompanyRole(user.companyRole))) {
+      return NextResponse.json(
+        { error: "Only company owners or project managers can change approval settings." },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(req, updateApprovalPolicySchema);
+    if (!parsed.success) return parsed.response;
+    const { projectId, mode, minApprovals, approvers } = parsed.data;
+    const companyId = user.activeCompanyId;
+
+    if (projectId) {
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, companyId },
+        select: { id: true },
+      });
+      if (!project) {
+        return NextResponse.json({ error: "Project not found." }, { status: 404 });
+      }
+    }
+
+    if (approvers.length > 0) {
+      const memberCount = await prisma.companyMember.count({
+        where: {
+          companyId,
+          userId: { in: approvers.map((a) => a.userId) },
+          user: { role: UserRole.CUSTOMER, deletedAt: null },
+        },
+      });
+      if (memberCount !== approvers.length) {
+        return NextResponse.json(
+          { error: "Approvers must be members of your company." },
+          { status: 400 },
+        );
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // The company default is the row without a project; there is no
+      // unique key for it, so look it up rather than upsert.
+      const existing = await tx.ticketApprovalPolicy.findFirst({
+        where: { companyId, projectId },
+        select: { id: true },
+      });
+
+      if (approvers.length === 0) {
+        if (existing) await tx.ticketApprovalPolicy.delete({ where: { id: existing.id } });
+        return;
+      }
+
+      const policy = existing
+        ? await tx.ticketApprovalPolicy.update({
+            where: { id: existing.id },
+            data: { mode, minApprovals },
+            select: { id: true },
+          })
+        : await tx.ticketApprovalPolicy.create({
+            data: { companyId, projectId, mode, minApprovals },
+            select: { id: true },
+          });
+
+      await tx.ticketApprovalPolicyApprover.deleteMany({ where: { policyId: policy.id } });
+      await tx.ticketApprovalPolicyApprover.createMany({
+        data: approvers.map((a, position) => ({
+          policyId: policy.id,
+          userId: a.userId,
+          position,
+          label: a.label,
+        })),
+      });
+    });
+
+    return NextResponse.json(await loadSettings(companyId), { status: 200 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.approval-policy] PUT error", error);
+    return NextResponse.json({ error: "Failed to update approval settings." }, { status: 500 });
+  }
+}
@@ -0,0 +1,204 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/auto-assign/route.ts
+// @purpose: Company auto-assign strategy, preferred creatives and per-project
+//           strategy overrides for /customer/settings. Reading is open to
+//           every company member; changes are OWNER/PM only.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { normalizeCompanyRole, isCompanyAdminRole } from "@/lib/permissions/companyRoles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { updateAutoAssignSettingsSchema } from "@/lib/schemas/settings.schemas";
+import { ASSIGN_STRATEGIES } from "@/lib/tickets/assign-strategies";
+
+/**
+ * Creatives the company may nominate: anyone who has worked on one of its
+ * tickets, most tickets first. Keeps the creative roster itself private.
+ */
+async function listNominableCreatives(companyId: string) {
+  const counts = await prisma.ticket.groupBy({
+    by: ["creativeId"],
+    where: { companyId, creativeId: { not: null } },
+    _count: { _all: true },
+  });
+  const ticketCountById = new Map(
+    counts.filter((c) => c.creativeId).map((c) => [c.creativeId as string, c._count._all]),
+  );
+
+  const creatives = await prisma.userAccount.findMany({
+    where: { id: { in: [...ticketCountById.keys()] }, role: UserRole.DESIGNER, deletedAt: null },
+    select: { id: true, name: true },
+  });
+
+  return creatives
+    .map((c) => ({ ...c, ticketCount: ticketCountById.get(c.id) ?? 0 }))
+    .sort((a, b) => b.ticketCount - a.ticketCount);
+}
+
+async function loadSettings(companyId: string) {
+  const [company, creatives] = await Promise.all([
+    prisma.company.findUnique({
+      where: { id: companyId },
+      select: {
+        autoAssignDefaultEnabled: true,
+        autoAssignStrategy: true,
+        preferredCreatives: { select: { creativeId: true } },
+        projects: {
+          orderBy: { name: "asc" },
+          select: { id: true, name: true, code: true, autoAssignStrategy: true },
+        },
+      },
+    }),
+    listNominableCreatives(companyId),
+  ]);
+  if (!company) return null;
+
+  return {
+    autoAssignEnabled: company.autoAssignDefaultEnabled,
+    strategy: company.autoAssignStrategy,
+    strategies: Object.values(ASSIGN_STRATEGIES).map(({ key, label, description }) => ({
+      key,
+      label,
+      description,
+    })),
+    preferredCreativeIds: company.preferredCreatives.map((p) => p.creativeId),
+    creatives,
+    projects: company.projects.map((p) => ({
+      id: p.id,
+      name: p.name,
+      code: p.code,
+      strategy: p.autoAssignStrategy,
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// GET — Current strategy, nominable creatives and project overrides
+// ---------------------------------------------------------------------------
+
+export async function GET(_req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can access auto-assign settings." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const settings = await loadSettings(user.activeCompanyId);
+    if (!settings) {
+      return NextResponse.json({ error: "Company not found." }, { status: 404 });
+    }
+
+    return NextResponse.json(settings, { status: 200 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.auto-assign] GET error", error);
+    return NextResponse.json({ error: "Failed to load auto-assign settings." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PATCH — Update strategy, preferred creatives and/or project overrides
+// ---------------------------------------------------------------------------
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can change auto-assign settings." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    if (!isCompanyAdminRole(normalizeCompanyRole(user.companyRole))) {
+      return NextResponse.json(
+        { error: "Only company owners or project managers can change auto-assign settings." },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(req, updateAutoAssignSettingsSchema);
+    if (!parsed.success) return parsed.response;
+    const { strategy, preferredCreativeIds, projects } = parsed.data;
+    const companyId = user.activeCompanyId;
+
+    let preferredIds: string[] | undefined;
+    if (preferredCreativeIds) {
+      preferredIds = [...new Set(preferredCreativeIds)];
+      const nominable = new Set((await listNominableCreatives(companyId)).map((c) => c.id));
+      if (preferredIds.some((id) => !nominable.has(id))) {
+        return NextResponse.json(
+          { error: "Preferred creatives must have worked on your company's tickets." },
+          { status: 400 },
+        );
+      }
+    }
+
+    if (projects && projects.length > 0) {
+      const owned = await prisma.project.count({
+        where: { companyId, id: { in: projects.map((p) => p.projectId) } },
+      });
+      if (owned !== new Set(projects.map((p) => p.projectId)).size) {
+        return NextResponse.json({ error: "Project not found." }, { status: 404 });
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (strategy) {
+        await tx.company.update({
+          where: { id: companyId },
+          data: { autoAssignStrategy: strategy },
+        });
+      }
+
+      if (preferredIds) {
+        await tx.companyPreferredCreative.deleteMany({
+          where: { companyId, creativeId: { notIn: preferredIds } },
+        });
+        await tx.companyPreferredCreative.createMany({
+          data: preferredIds.map((creativeId) => ({ companyId, creativeId })),
+          skipDuplicates: true,
+        });
+      }
+
+      for (const p of projects ?? []) {
+        await tx.project.update({
+          where: { id: p.projectId },
+          data: { autoAssignStrategy: p.strategy },
+        });
+      }
+    });
+
+    const settings = await loadSettings(companyId);
+    return NextResponse.json(settings, { status: 200 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.auto-assign] PATCH error", error);
+    return NextResponse.json({ error: "Failed to update auto-assign settings." }, { status: 500 });
+  }
+}
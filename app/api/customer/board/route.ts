@@ -9,6 +9,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
+import { getProjectAccess } from "@/lib/permissions/projectAccess";
+import { OPEN_BLOCKER_WHERE } from "@/lib/tickets/dependencies";
 
 type TicketStatusString = "TODO" | "IN_PROGRESS" | "IN_REVIEW" | "DONE";
 
@@ -29,9 +31,13 @@ export async function GET(_req: NextRequest) {
       return NextResponse.json({ error: "No active company set for this user" }, { status: 400 });
     }
 
+    const access = await getProjectAccess(user);
+
     const tickets = await prisma.ticket.findMany({
       where: {
         companyId: user.activeCompanyId,
+        // Hide restricted projects the user isn't a member of.
+        ...access.projectScopeWhere(),
         // Exclude soft-cancelled rows from the kanban board. They stay
         // in the DB so the REFUND ledger entry remains linked, but
         // don't belong in the active-work view.
@@ -56,6 +62,7 @@ export async function GET(_req: NextRequest) {
             creativePayoutTokens: true,
           },
         },
+        _count: { select: { blockedBy: { where: OPEN_BLOCKER_WHERE } } },
       },
     });
 
@@ -91,6 +98,11 @@ export async function GET(_req: NextRequest) {
           }
         : null,
       isAssigned: t.creativeId != null,
+      // Effective ProjectRole for this ticket — the board uses it to decide
+      // which cards are draggable / editable.
+      viewerProjectRole: access.roleFor(t.projectId),
+      // Unresolved "blocked by" links — the card shows a Blocked badge.
+      openBlockerCount: t._count.blockedBy,
       jobType: t.jobType
         ? {
             id: t.jobType.id,
@@ -0,0 +1,176 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/custom-fields/[fieldId]/route.ts
+// @purpose: Update and delete a company-defined ticket custom field
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { normalizeCompanyRole, canManageCustomFields } from "@/lib/permissions/companyRoles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { updateCustomFieldSchema } from "@/lib/schemas/custom-field.schemas";
+import { CUSTOM_FIELD_SELECT } from "@/lib/tickets/custom-fields";
+
+type RouteContext = { params: Promise<{ fieldId: string }> };
+
+// ---------------------------------------------------------------------------
+// PATCH — Rename, change options / required, or reorder a field
+// ---------------------------------------------------------------------------
+
+export async function PATCH(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can update custom fields." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const companyRole = normalizeCompanyRole(user.companyRole);
+    if (!canManageCustomFields(companyRole)) {
+      return NextResponse.json(
+        { error: "Only company owners or project managers can edit custom fields." },
+        { status: 403 },
+      );
+    }
+
+    const { fieldId } = await ctx.params;
+
+    const existing = await prisma.customFieldDefinition.findFirst({
+      where: { id: fieldId, companyId: user.activeCompanyId },
+      select: { id: true, type: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Custom field not found." }, { status: 404 });
+    }
+
+    const parsed = await parseBody(req, updateCustomFieldSchema);
+    if (!parsed.success) return parsed.response;
+    const { label, options, required, position } = parsed.data;
+
+    const isSelect = existing.type === "SELECT" || existing.type === "MULTI_SELECT";
+    if (options !== undefined && !isSelect) {
+      return NextResponse.json({ error: "Only select fields have options." }, { status: 400 });
+    }
+    if (options !== undefined && options.length === 0) {
+      return NextResponse.json(
+        { error: "Select fields need at least one option." },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const field = await prisma.$transaction(async (tx) => {
+        const updated = await tx.customFieldDefinition.update({
+          where: { id: fieldId },
+          data: { label, options, required, position },
+          select: CUSTOM_FIELD_SELECT,
+        });
+
+        // Removing an option clears it from tickets that used it, so no
+        // ticket is left holding a value the field no longer offers.
+        if (options !== undefined) {
+          if (existing.type === "SELECT") {
+            await tx.ticketCustomFieldValue.deleteMany({
+              where: { fieldId, value: { notIn: options } },
+            });
+          } else {
+            const stale = await tx.ticketCustomFieldValue.findMany({
+              where: { fieldId, NOT: { values: { isEmpty: true } } },
+              select: { id: true, values: true },
+            });
+            for (const row of stale) {
+              const kept = row.values.filter((v) => options.includes(v));
+              if (kept.length === row.values.length) continue;
+              if (kept.length === 0) {
+                await tx.ticketCustomFieldValue.delete({ where: { id: row.id } });
+              } else {
+                await tx.ticketCustomFieldValue.update({
+                  where: { id: row.id },
+                  data: { values: kept },
+                });
+              }
+            }
+          }
+        }
+
+        return updated;
+      });
+
+      return NextResponse.json({ field }, { status: 200 });
+    } catch (err: any) {
+      if (err?.code === "P2002") {
+        return NextResponse.json(
+          { error: "A custom field with that name already exists in your company." },
+          { status: 409 },
+        );
+      }
+      throw err;
+    }
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.custom-fields.fieldId] PATCH error", error);
+    return NextResponse.json({ error: "Failed to update custom field." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — Delete a field; its ticket values go with it (cascade)
+// ---------------------------------------------------------------------------
+
+export async function DELETE(_req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can delete custom fields." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const companyRole = normalizeCompanyRole(user.companyRole);
+    if (!canManageCustomFields(companyRole)) {
+      return NextResponse.json(
+        { error: "Only company owners or project managers can delete custom fields." },
+        { status: 403 },
+      );
+    }
+
+    const { fieldId } = await ctx.params;
+
+    const deleted = await prisma.customFieldDefinition.deleteMany({
+      where: { id: fieldId, companyId: user.activeCompanyId },
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: "Custom field not found." }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.custom-fields.fieldId] DELETE error", error);
+    return NextResponse.json({ error: "Failed to delete custom field." }, { status: 500 });
+  }
+}
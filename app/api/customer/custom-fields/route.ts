@@ -0,0 +1,126 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/custom-fields/route.ts
+// @purpose: List and create company-defined ticket custom fields
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { normalizeCompanyRole, canManageCustomFields } from "@/lib/permissions/companyRoles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { createCustomFieldSchema } from "@/lib/schemas/custom-field.schemas";
+import { CUSTOM_FIELD_SELECT, listCustomFields } from "@/lib/tickets/custom-fields";
+
+/** Keeps the new-ticket form manageable. */
+const MAX_FIELDS_PER_COMPANY = 30;
+
+// ---------------------------------------------------------------------------
+// GET — List the company's custom fields in form order
+// ---------------------------------------------------------------------------
+
+export async function GET(_req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can access custom fields." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const fields = await listCustomFields(user.activeCompanyId);
+
+    return NextResponse.json({ fields }, { status: 200 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.custom-fields] GET error", error);
+    return NextResponse.json({ error: "Failed to load custom fields." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — Create a custom field (appended after the existing ones)
+// ---------------------------------------------------------------------------
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can create custom fields." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const companyRole = normalizeCompanyRole(user.companyRole);
+    if (!canManageCustomFields(companyRole)) {
+      return NextResponse.json(
+        { error: "Only company owners or project managers can create custom fields." },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(req, createCustomFieldSchema);
+    if (!parsed.success) return parsed.response;
+    const { label, type, options, required } = parsed.data;
+
+    const existing = await prisma.customFieldDefinition.aggregate({
+      where: { companyId: user.activeCompanyId },
+      _count: { _all: true },
+      _max: { position: true },
+    });
+    if (existing._count._all >= MAX_FIELDS_PER_COMPANY) {
+      return NextResponse.json(
+        { error: `A company can have at most ${MAX_FIELDS_PER_COMPANY} custom fields.` },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const field = await prisma.customFieldDefinition.create({
+        data: {
+          companyId: user.activeCompanyId,
+          label,
+          type,
+          options,
+          required,
+          position: (existing._max.position ?? -1) + 1,
+        },
+        select: CUSTOM_FIELD_SELECT,
+      });
+
+      return NextResponse.json({ field }, { status: 201 });
+    } catch (err: any) {
+      if (err?.code === "P2002") {
+        return NextResponse.json(
+          { error: `A custom field named "${label}" already exists in your company.` },
+          { status: 409 },
+        );
+      }
+      throw err;
+    }
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.custom-fields] POST error", error);
+    return NextResponse.json({ error: "Failed to create custom field." }, { status: 500 });
+  }
+}
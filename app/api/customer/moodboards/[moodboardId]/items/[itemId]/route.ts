@@ -10,6 +10,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
 import { canManageMoodboards } from "@/lib/permissions/companyRoles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canManageMoodboardsInProject, canViewProject } from "@/lib/permissions/projectRoles";
 import { deleteR2Objects } from "@/lib/r2";
 
 /** Pull the R2 storage key out of an IMAGE/FILE item's data blob, if any. */
@@ -55,7 +57,7 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       where: { id: itemId },
       include: {
         moodboard: {
-          select: { id: true, companyId: true },
+          select: { id: true, companyId: true, projectId: true },
         },
       },
     });
@@ -72,6 +74,18 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Item not found" }, { status: 404 });
     }
 
+    // Project-level role: hidden projects 404, VIEWERs are read-only.
+    const projectRole = await getProjectRole(user, item.moodboard.projectId);
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+    if (!canManageMoodboardsInProject(projectRole)) {
+      return NextResponse.json(
+        { error: "You have read-only access to this project's moodboards" },
+        { status: 403 },
+      );
+    }
+
     const body = await req.json().catch(() => null);
     if (!body || typeof body !== "object") {
       return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
@@ -185,7 +199,7 @@ export async function DELETE(_req: NextRequest, { params }: RouteParams) {
       where: { id: itemId },
       include: {
         moodboard: {
-          select: { id: true, companyId: true },
+          select: { id: true, companyId: true, projectId: true },
         },
       },
     });
@@ -202,6 +216,18 @@ export async function DELETE(_req: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Item not found" }, { status: 404 });
     }
 
+    // Project-level role: hidden projects 404, VIEWERs are read-only.
+    const projectRole = await getProjectRole(user, item.moodboard.projectId);
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+    if (!canManageMoodboardsInProject(projectRole)) {
+      return NextResponse.json(
+        { error: "You have read-only access to this project's moodboards" },
+        { status: 403 },
+      );
+    }
+
     await prisma.moodboardItem.delete({
       where: { id: itemId },
     });
@@ -11,6 +11,8 @@ import { MoodboardItemType } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
 import { canManageMoodboards } from "@/lib/permissions/companyRoles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canManageMoodboardsInProject, canViewProject } from "@/lib/permissions/projectRoles";
 
 type RouteParams = { params: Promise<{ moodboardId: string }> };
 
@@ -42,7 +44,7 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
     // Verify moodboard belongs to user's company
     const moodboard = await prisma.moodboard.findUnique({
       where: { id: moodboardId },
-      select: { id: true, companyId: true },
+      select: { id: true, companyId: true, projectId: true },
     });
 
     if (!moodboard) {
@@ -53,6 +55,18 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Moodboard not found" }, { status: 404 });
     }
 
+    // Project-level role: hidden projects 404, VIEWERs are read-only.
+    const projectRole = await getProjectRole(user, moodboard.projectId);
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "Moodboard not found" }, { status: 404 });
+    }
+    if (!canManageMoodboardsInProject(projectRole)) {
+      return NextResponse.json(
+        { error: "You have read-only access to this project's moodboards" },
+        { status: 403 },
+      );
+    }
+
     const body = await req.json().catch(() => null);
     if (!body || typeof body !== "object") {
       return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
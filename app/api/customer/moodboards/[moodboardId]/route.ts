@@ -10,6 +10,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
 import { canManageMoodboards, isCompanyAdminRole } from "@/lib/permissions/companyRoles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canManageMoodboardsInProject, canViewProject } from "@/lib/permissions/projectRoles";
 import { resolveAssetUrl, deleteR2Objects } from "@/lib/r2";
 import type { MoodboardItemType } from "@prisma/client";
 
@@ -77,6 +79,12 @@ export async function GET(_req: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Moodboard not found" }, { status: 404 });
     }
 
+    // Moodboards in restricted projects the user isn't on are hidden.
+    const projectRole = await getProjectRole(user, moodboard.projectId);
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "Moodboard not found" }, { status: 404 });
+    }
+
     // Refresh presigned URLs for IMAGE/FILE items in parallel
     const items = await Promise.all(
       moodboard.items.map(async (item) => ({
@@ -106,6 +114,7 @@ export async function GET(_req: NextRequest, { params }: RouteParams) {
         ticketId: moodboard.ticket?.id ?? null,
         ticketTitle: moodboard.ticket?.title ?? null,
         createdById: moodboard.createdById,
+        canEdit: canManageMoodboardsInProject(projectRole),
         items,
         connections: (moodboard.connections as unknown[]) ?? [],
         createdAt: moodboard.createdAt.toISOString(),
@@ -146,7 +155,7 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
 
     const moodboard = await prisma.moodboard.findUnique({
       where: { id: moodboardId },
-      select: { id: true, companyId: true },
+      select: { id: true, companyId: true, projectId: true },
     });
 
     if (!moodboard) {
@@ -157,6 +166,18 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Moodboard not found" }, { status: 404 });
     }
 
+    // Project-level role: hidden projects 404, VIEWERs are read-only.
+    const projectRole = await getProjectRole(user, moodboard.projectId);
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "Moodboard not found" }, { status: 404 });
+    }
+    if (!canManageMoodboardsInProject(projectRole)) {
+      return NextResponse.json(
+        { error: "You have read-only access to this project's moodboards" },
+        { status: 403 },
+      );
+    }
+
     const body = await req.json().catch(() => null);
     if (!body || typeof body !== "object") {
       return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
@@ -235,7 +256,7 @@ export async function DELETE(_req: NextRequest, { params }: RouteParams) {
 
     const moodboard = await prisma.moodboard.findUnique({
       where: { id: moodboardId },
-      select: { id: true, companyId: true, createdById: true },
+      select: { id: true, companyId: true, projectId: true, createdById: true },
     });
 
     if (!moodboard) {
@@ -246,6 +267,18 @@ export async function DELETE(_req: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Moodboard not found" }, { status: 404 });
     }
 
+    // Project-level role: hidden projects 404, VIEWERs are read-only.
+    const projectRole = await getProjectRole(user, moodboard.projectId);
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "Moodboard not found" }, { status: 404 });
+    }
+    if (!canManageMoodboardsInProject(projectRole)) {
+      return NextResponse.json(
+        { error: "You have read-only access to this project's moodboards" },
+        { status: 403 },
+      );
+    }
+
     // Only the creator or a company admin can delete
     const isCreator = moodboard.createdById === user.id;
     const isAdmin = isCompanyAdminRole(user.companyRole ?? null);
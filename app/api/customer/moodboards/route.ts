@@ -10,6 +10,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
 import { canManageMoodboards } from "@/lib/permissions/companyRoles";
+import { getProjectAccess, getProjectRole } from "@/lib/permissions/projectAccess";
+import { canManageMoodboardsInProject } from "@/lib/permissions/projectRoles";
 
 // -----------------------------------------------------------------------------
 // GET: list moodboards for the current customer's active company
@@ -29,8 +31,11 @@ export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const projectId = searchParams.get("projectId") ?? undefined;
 
+    // Restricted projects the user isn't a member of are hidden.
+    const access = await getProjectAccess(user);
     const where: Record<string, unknown> = {
       companyId: user.activeCompanyId,
+      AND: [access.projectScopeWhere()],
     };
     if (projectId) {
       where.projectId = projectId;
@@ -132,6 +137,12 @@ export async function POST(req: NextRequest) {
       if (!project) {
         return NextResponse.json({ error: "Project not found for this company" }, { status: 400 });
       }
+      if (!canManageMoodboardsInProject(await getProjectRole(user, project.id))) {
+        return NextResponse.json(
+          { error: "You don't have permission to manage moodboards in this project" },
+          { status: 403 },
+        );
+      }
     }
 
     // Verify ticket belongs to the same company
@@ -0,0 +1,176 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/projects/[projectId]/members/route.ts
+// @purpose: List, add/update and remove ProjectMember rows for a project.
+//           A project with no members is open to the whole company; adding
+//           the first member restricts it to its member list (company OWNER
+//           and PM always keep access).
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canManageProjectMembers, canViewProject } from "@/lib/permissions/projectRoles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { upsertProjectMemberSchema } from "@/lib/schemas/project.schemas";
+
+type RouteContext = { params: Promise<{ projectId: string }> };
+
+async function loadProject(projectId: string, companyId: string) {
+  return prisma.project.findFirst({
+    where: { id: projectId, companyId },
+    select: { id: true },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// GET — Current member list (anyone who can see the project)
+// ---------------------------------------------------------------------------
+
+export async function GET(_req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { projectId } = await ctx.params;
+    const project = await loadProject(projectId, user.activeCompanyId);
+    const viewerRole = project ? await getProjectRole(user, project.id) : null;
+    if (!project || !canViewProject(viewerRole)) {
+      return NextResponse.json({ error: "Project not found." }, { status: 404 });
+    }
+
+    const members = await prisma.projectMember.findMany({
+      where: { projectId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        role: true,
+        createdAt: true,
+        user: { select: { id: true, name: true, email: true } },
+      },
+    });
+
+    return NextResponse.json({
+      restricted: members.length > 0,
+      viewerRole,
+      members: members.map((m) => ({
+        userId: m.user.id,
+        name: m.user.name,
+        email: m.user.email,
+        role: m.role,
+        createdAt: m.createdAt.toISOString(),
+      })),
+    });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.projects.members] GET error", error);
+    return NextResponse.json({ error: "Failed to load project members." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PUT — Add a company member to the project, or change their project role
+// ---------------------------------------------------------------------------
+
+export async function PUT(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { projectId } = await ctx.params;
+    const project = await loadProject(projectId, user.activeCompanyId);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found." }, { status: 404 });
+    }
+
+    if (!canManageProjectMembers(await getProjectRole(user, project.id))) {
+      return NextResponse.json(
+        { error: "Only project owners or project managers can manage project members." },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(req, upsertProjectMemberSchema);
+    if (!parsed.success) return parsed.response;
+    const { userId, role } = parsed.data;
+
+    // Project members must already belong to the company.
+    const companyMember = await prisma.companyMember.findFirst({
+      where: { companyId: user.activeCompanyId, userId },
+      select: { id: true },
+    });
+    if (!companyMember) {
+      return NextResponse.json({ error: "User is not a member of this company." }, { status: 400 });
+    }
+
+    const member = await prisma.projectMember.upsert({
+      where: { projectId_userId: { projectId, userId } },
+      create: { projectId, userId, role },
+      update: { role },
+      select: { userId: true, role: true },
+    });
+
+    return NextResponse.json({ member });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.projects.members] PUT error", error);
+    return NextResponse.json({ error: "Failed to update project member." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — Remove a member (?userId=...). Removing the last member re-opens
+//          the project to the whole company.
+// ---------------------------------------------------------------------------
+
+export async function DELETE(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { projectId } = await ctx.params;
+    const project = await loadProject(projectId, user.activeCompanyId);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found." }, { status: 404 });
+    }
+
+    if (!canManageProjectMembers(await getProjectRole(user, project.id))) {
+      return NextResponse.json(
+        { error: "Only project owners or project managers can manage project members." },
+        { status: 403 },
+      );
+    }
+
+    const userId = new URL(req.url).searchParams.get("userId");
+    if (!userId) {
+      return NextResponse.json({ error: "userId is required." }, { status: 400 });
+    }
+
+    const { count } = await prisma.projectMember.deleteMany({
+      where: { projectId, userId },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Project member not found." }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.projects.members] DELETE error", error);
+    return NextResponse.json({ error: "Failed to remove project member." }, { status: 500 });
+  }
+}
@@ -12,10 +12,12 @@ import { getCurrentUserOrThrow } from "@/lib/auth";
 import { parseBody } from "@/lib/schemas/helpers";
 import { createProjectSchema } from "@/lib/schemas/project.schemas";
 import { generateUniqueProjectCode } from "@/lib/abbreviation";
+import { getProjectAccess } from "@/lib/permissions/projectAccess";
 import crypto from "crypto";
 
 // ---------------------------------------------------------------------------
-// GET — List all projects for the current customer's company
+// GET — List the projects the current user can see in their company
+//       (restricted projects they aren't a member of are omitted)
 // ---------------------------------------------------------------------------
 
 export async function GET(_req: NextRequest) {
@@ -30,8 +32,13 @@ export async function GET(_req: NextRequest) {
       return NextResponse.json({ error: "No active company found." }, { status: 400 });
     }
 
+    const access = await getProjectAccess(user);
+
     const projects = await prisma.project.findMany({
-      where: { companyId: user.activeCompanyId },
+      where: {
+        companyId: user.activeCompanyId,
+        ...(access.seesAllProjects ? {} : { id: { in: [...access.rolesByProject.keys()] } }),
+      },
       select: {
         id: true,
         name: true,
@@ -47,6 +54,7 @@ export async function GET(_req: NextRequest) {
         name: p.name,
         code: p.code,
         ticketCount: p._count.tickets,
+        role: access.roleFor(p.id),
       })),
     });
   } catch (err: any) {
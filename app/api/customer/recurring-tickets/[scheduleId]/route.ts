@@ -0,0 +1,172 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/recurring-tickets/[scheduleId]/route.ts
+// @purpose: Update (incl. pause / resume) or delete a recurring ticket
+//           schedule. nextRunAt is recomputed whenever the rule changes or
+//           the schedule is resumed.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { canCreateTickets } from "@/lib/permissions/companyRoles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canCreateTicketsInProject, canViewProject } from "@/lib/permissions/projectRoles";
+import { prisma } from "@/lib/prisma";
+import type { SessionUser } from "@/lib/roles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { updateRecurringScheduleSchema } from "@/lib/schemas/recurring-ticket.schemas";
+import {
+  computeNextRunAt,
+  SCHEDULE_SELECT,
+  toScheduleDto,
+} from "@/lib/tickets/recurring-schedules";
+
+type RouteContext = { params: Promise<{ scheduleId: string }> };
+
+/**
+ * Load the schedule and check the caller may manage it: ticket-creating
+ * company role plus create access to the schedule's project. Hidden
+ * projects 404.
+ */
+async function loadManageableSchedule(user: SessionUser, scheduleId: string) {
+  if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+    return { response: NextResponse.json({ error: "Unauthorized" }, { status: 403 }) };
+  }
+
+  const schedule = await prisma.recurringTicketSchedule.findFirst({
+    where: { id: scheduleId, companyId: user.activeCompanyId },
+    select: { id: true, projectId: true, cronRule: true, isActive: true },
+  });
+  const role = schedule ? await getProjectRole(user, schedule.projectId) : null;
+  if (!schedule || !canViewProject(role)) {
+    return {
+      response: NextResponse.json({ error: "Recurring ticket not found." }, { status: 404 }),
+    };
+  }
+  if (!canCreateTickets(user.companyRole ?? null) || !canCreateTicketsInProject(role)) {
+    return {
+      response: NextResponse.json(
+        { error: "You don't have permission to manage this recurring ticket." },
+        { status: 403 },
+      ),
+    };
+  }
+  return { schedule };
+}
+
+// ---------------------------------------------------------------------------
+// PATCH — Edit fields, pause or resume
+// ---------------------------------------------------------------------------
+
+export async function PATCH(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    const { scheduleId } = await ctx.params;
+
+    const loaded = await loadManageableSchedule(user, scheduleId);
+    if (loaded.response) return loaded.response;
+    const { schedule } = loaded;
+
+    const parsed = await parseBody(req, updateRecurringScheduleSchema);
+    if (!parsed.success) return parsed.response;
+    const data = parsed.data;
+
+    // Moving the schedule to another project needs create access there too.
+    if (data.projectId !== undefined && data.projectId !== schedule.projectId) {
+      if (data.projectId) {
+        const project = await prisma.project.findFirst({
+          where: { id: data.projectId, companyId: user.activeCompanyId! },
+          select: { id: true },
+        });
+        if (!project) {
+          return NextResponse.json(
+            { error: "Project not found for this company." },
+            { status: 400 },
+          );
+        }
+      }
+      if (!canCreateTicketsInProject(await getProjectRole(user, data.projectId))) {
+        return NextResponse.json(
+          { error: "You don't have permission to create tickets in this project." },
+          { status: 403 },
+        );
+      }
+    }
+
+    if (data.jobTypeId) {
+      const jobType = await prisma.jobType.findFirst({
+        where: { id: data.jobTypeId, isActive: true },
+        select: { id: true },
+      });
+      if (!jobType) {
+        return NextResponse.json({ error: "Job type not found." }, { status: 400 });
+      }
+    }
+
+    const cronRule = data.cronRule ?? schedule.cronRule;
+    const isActive = data.isActive ?? schedule.isActive;
+    const scheduleChanged =
+      (data.cronRule !== undefined && data.cronRule !== schedule.cronRule) ||
+      isActive !== schedule.isActive;
+
+    const update: Prisma.RecurringTicketScheduleUncheckedUpdateInput = {
+      name: data.name,
+      cronRule: data.cronRule,
+      title: data.title,
+      description: data.description,
+      projectId: data.projectId,
+      jobTypeId: data.jobTypeId,
+      quantity: data.quantity,
+      priority: data.priority,
+      dueInDays: data.dueInDays,
+      tagIds: data.tagIds,
+      outputSpecs: data.outputSpecs,
+      isActive: data.isActive,
+    };
+    if (scheduleChanged) {
+      update.nextRunAt = isActive ? computeNextRunAt(cronRule) : null;
+    }
+
+    const updated = await prisma.recurringTicketSchedule.update({
+      where: { id: schedule.id },
+      data: update,
+      select: SCHEDULE_SELECT,
+    });
+
+    return NextResponse.json({ schedule: toScheduleDto(updated) });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.recurring-tickets] PATCH error", error);
+    return NextResponse.json({ error: "Failed to update recurring ticket." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — Remove the schedule. Tickets it already created are untouched.
+// ---------------------------------------------------------------------------
+
+export async function DELETE(_req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    const { scheduleId } = await ctx.params;
+
+    const loaded = await loadManageableSchedule(user, scheduleId);
+    if (loaded.response) return loaded.response;
+
+    await prisma.recurringTicketSchedule.delete({ where: { id: loaded.schedule.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.recurring-tickets] DELETE error", error);
+    return NextResponse.json({ error: "Failed to delete recurring ticket." }, { status: 500 });
+  }
+}
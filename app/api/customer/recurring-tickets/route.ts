@@ -0,0 +1,130 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/recurring-tickets/route.ts
+// @purpose: List and create recurring ticket schedules for the active
+//           company. Tickets are created by /api/cron/recurring-tickets.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { canCreateTickets } from "@/lib/permissions/companyRoles";
+import { getProjectAccess, getProjectRole } from "@/lib/permissions/projectAccess";
+import { canCreateTicketsInProject } from "@/lib/permissions/projectRoles";
+import { prisma } from "@/lib/prisma";
+import { parseBody } from "@/lib/schemas/helpers";
+import { createRecurringScheduleSchema } from "@/lib/schemas/recurring-ticket.schemas";
+import {
+  computeNextRunAt,
+  SCHEDULE_SELECT,
+  toScheduleDto,
+} from "@/lib/tickets/recurring-schedules";
+
+// ---------------------------------------------------------------------------
+// GET — Schedules in projects the user can see
+// ---------------------------------------------------------------------------
+
+export async function GET() {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const access = await getProjectAccess(user);
+    const schedules = await prisma.recurringTicketSchedule.findMany({
+      where: { companyId: user.activeCompanyId, ...access.projectScopeWhere() },
+      orderBy: { createdAt: "asc" },
+      select: SCHEDULE_SELECT,
+    });
+
+    return NextResponse.json({
+      schedules: schedules.map(toScheduleDto),
+      canManage: canCreateTickets(user.companyRole ?? null),
+    });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.recurring-tickets] GET error", error);
+    return NextResponse.json({ error: "Failed to load recurring tickets." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — Create a schedule
+// ---------------------------------------------------------------------------
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+    if (!canCreateTickets(user.companyRole ?? null)) {
+      return NextResponse.json(
+        { error: "You don't have permission to create tickets for this company." },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(req, createRecurringScheduleSchema);
+    if (!parsed.success) return parsed.response;
+    const data = parsed.data;
+
+    if (data.projectId) {
+      const project = await prisma.project.findFirst({
+        where: { id: data.projectId, companyId: user.activeCompanyId },
+        select: { id: true },
+      });
+      if (!project) {
+        return NextResponse.json({ error: "Project not found for this company." }, { status: 400 });
+      }
+    }
+    if (!canCreateTicketsInProject(await getProjectRole(user, data.projectId))) {
+      return NextResponse.json(
+        { error: "You don't have permission to create tickets in this project." },
+        { status: 403 },
+      );
+    }
+
+    const jobType = await prisma.jobType.findFirst({
+      where: { id: data.jobTypeId, isActive: true },
+      select: { id: true },
+    });
+    if (!jobType) {
+      return NextResponse.json({ error: "Job type not found." }, { status: 400 });
+    }
+
+    const created = await prisma.recurringTicketSchedule.create({
+      data: {
+        companyId: user.activeCompanyId,
+        createdById: user.id,
+        projectId: data.projectId,
+        jobTypeId: data.jobTypeId,
+        name: data.name,
+        cronRule: data.cronRule,
+        title: data.title,
+        description: data.description,
+        priority: data.priority,
+        quantity: data.quantity,
+        dueInDays: data.dueInDays,
+        tagIds: data.tagIds,
+        outputSpecs: data.outputSpecs,
+        isActive: data.isActive,
+        nextRunAt: data.isActive ? computeNextRunAt(data.cronRule) : null,
+      },
+      select: SCHEDULE_SELECT,
+    });
+
+    return NextResponse.json({ schedule: toScheduleDto(created) }, { status: 201 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.recurring-tickets] POST error", error);
+    return NextResponse.json({ error: "Failed to create recurring ticket." }, { status: 500 });
+  }
+}
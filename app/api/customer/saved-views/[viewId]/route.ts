@@ -0,0 +1,154 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/saved-views/[viewId]/route.ts
+// @purpose: Update (rename, share / unshare, overwrite config) and delete a
+//           saved ticket view
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { parseBody } from "@/lib/schemas/helpers";
+import { updateSavedViewSchema } from "@/lib/schemas/saved-view.schemas";
+import { normalizeViewConfig } from "@/lib/tickets/saved-view-config";
+import {
+  SAVED_VIEW_SELECT,
+  canManageSavedView,
+  clearForeignDefaults,
+  toSavedViewDto,
+  visibleSavedViewsWhere,
+} from "@/lib/tickets/saved-views";
+
+type RouteContext = { params: Promise<{ viewId: string }> };
+
+// ---------------------------------------------------------------------------
+// PATCH — Rename, share / unshare or overwrite the view's config
+// ---------------------------------------------------------------------------
+
+export async function PATCH(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can update saved views." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const { viewId } = await ctx.params;
+
+    const existing = await prisma.savedTicketView.findFirst({
+      where: { id: viewId, ...visibleSavedViewsWhere(user.activeCompanyId, user.id) },
+      select: { id: true, ownerId: true, shared: true, page: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Saved view not found." }, { status: 404 });
+    }
+
+    if (!canManageSavedView(existing, user)) {
+      return NextResponse.json(
+        { error: "Only the view's owner or a company owner / PM can change it." },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(req, updateSavedViewSchema);
+    if (!parsed.success) return parsed.response;
+    const { name, shared, config } = parsed.data;
+
+    try {
+      const row = await prisma.$transaction(async (tx) => {
+        const updated = await tx.savedTicketView.update({
+          where: { id: viewId },
+          data: {
+            name,
+            shared,
+            config: config ? normalizeViewConfig(config, existing.page) : undefined,
+          },
+          select: SAVED_VIEW_SELECT,
+        });
+
+        if (existing.shared && shared === false) {
+          await clearForeignDefaults(tx, viewId, existing.ownerId);
+        }
+
+        return updated;
+      });
+
+      return NextResponse.json({ view: toSavedViewDto(row, user) }, { status: 200 });
+    } catch (err: any) {
+      if (err?.code === "P2002") {
+        return NextResponse.json(
+          { error: "The owner already has a view with that name." },
+          { status: 409 },
+        );
+      }
+      throw err;
+    }
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.saved-views.viewId] PATCH error", error);
+    return NextResponse.json({ error: "Failed to update saved view." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — Delete the view; defaults pointing at it go with it (cascade)
+// ---------------------------------------------------------------------------
+
+export async function DELETE(_req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can delete saved views." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const { viewId } = await ctx.params;
+
+    const existing = await prisma.savedTicketView.findFirst({
+      where: { id: viewId, ...visibleSavedViewsWhere(user.activeCompanyId, user.id) },
+      select: { id: true, ownerId: true, shared: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Saved view not found." }, { status: 404 });
+    }
+
+    if (!canManageSavedView(existing, user)) {
+      return NextResponse.json(
+        { error: "Only the view's owner or a company owner / PM can delete it." },
+        { status: 403 },
+      );
+    }
+
+    await prisma.savedTicketView.delete({ where: { id: viewId } });
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.saved-views.viewId] DELETE error", error);
+    return NextResponse.json({ error: "Failed to delete saved view." }, { status: 500 });
+  }
+}
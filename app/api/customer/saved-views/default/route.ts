@@ -0,0 +1,72 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/saved-views/default/route.ts
+// @purpose: Set or clear the user's default saved view for a page — the view
+//           /customer/tickets or /customer/board opens with when the URL
+//           carries no filters
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { parseBody } from "@/lib/schemas/helpers";
+import { setDefaultSavedViewSchema } from "@/lib/schemas/saved-view.schemas";
+import { visibleSavedViewsWhere } from "@/lib/tickets/saved-views";
+
+// ---------------------------------------------------------------------------
+// PUT — { page, viewId } sets the default; viewId null clears it
+// ---------------------------------------------------------------------------
+
+export async function PUT(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can set a default view." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const parsed = await parseBody(req, setDefaultSavedViewSchema);
+    if (!parsed.success) return parsed.response;
+    const { page, viewId } = parsed.data;
+
+    const key = { userId: user.id, companyId: user.activeCompanyId, page };
+
+    if (viewId === null) {
+      await prisma.savedTicketViewDefault.deleteMany({ where: key });
+      return NextResponse.json({ defaultViewId: null }, { status: 200 });
+    }
+
+    const view = await prisma.savedTicketView.findFirst({
+      where: { id: viewId, ...visibleSavedViewsWhere(user.activeCompanyId, user.id, page) },
+      select: { id: true },
+    });
+
+    if (!view) {
+      return NextResponse.json({ error: "Saved view not found." }, { status: 404 });
+    }
+
+    await prisma.savedTicketViewDefault.upsert({
+      where: { userId_companyId_page: key },
+      create: { ...key, viewId },
+      update: { viewId },
+    });
+
+    return NextResponse.json({ defaultViewId: viewId }, { status: 200 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.saved-views.default] PUT error", error);
+    return NextResponse.json({ error: "Failed to set default view." }, { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/saved-views/route.ts
+// @purpose: List and create saved ticket views for /customer/tickets and
+//           /customer/board (personal or shared with the company)
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { SavedViewPage } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { parseBody } from "@/lib/schemas/helpers";
+import { createSavedViewSchema } from "@/lib/schemas/saved-view.schemas";
+import { normalizeViewConfig } from "@/lib/tickets/saved-view-config";
+import {
+  MAX_SAVED_VIEWS_PER_USER,
+  SAVED_VIEW_SELECT,
+  listSavedViews,
+  toSavedViewDto,
+} from "@/lib/tickets/saved-views";
+
+// ---------------------------------------------------------------------------
+// GET — Views the user can pick on one page (?page=TICKET_LIST|BOARD) plus
+// their default view
+// ---------------------------------------------------------------------------
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can access saved views." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const page = req.nextUrl.searchParams.get("page");
+    if (page !== SavedViewPage.TICKET_LIST && page !== SavedViewPage.BOARD) {
+      return NextResponse.json({ error: "page must be TICKET_LIST or BOARD." }, { status: 400 });
+    }
+
+    const { views, defaultViewId } = await listSavedViews(user.activeCompanyId, user, page);
+
+    return NextResponse.json({ views, defaultViewId }, { status: 200 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.saved-views] GET error", error);
+    return NextResponse.json({ error: "Failed to load saved views." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — Save the current filters as a new view
+// ---------------------------------------------------------------------------
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can create saved views." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const parsed = await parseBody(req, createSavedViewSchema);
+    if (!parsed.success) return parsed.response;
+    const { name, page, shared, config } = parsed.data;
+
+    const ownCount = await prisma.savedTicketView.count({
+      where: { companyId: user.activeCompanyId, ownerId: user.id, page },
+    });
+    if (ownCount >= MAX_SAVED_VIEWS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can save at most ${MAX_SAVED_VIEWS_PER_USER} views per page.` },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const row = await prisma.savedTicketView.create({
+        data: {
+          companyId: user.activeCompanyId,
+          ownerId: user.id,
+          page,
+          name,
+          shared,
+          config: normalizeViewConfig(config, page),
+        },
+        select: SAVED_VIEW_SELECT,
+      });
+
+      return NextResponse.json({ view: toSavedViewDto(row, user) }, { status: 201 });
+    } catch (err: any) {
+      if (err?.code === "P2002") {
+        return NextResponse.json(
+          { error: `You already have a view named "${name}".` },
+          { status: 409 },
+        );
+      }
+      throw err;
+    }
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.saved-views] POST error", error);
+    return NextResponse.json({ error: "Failed to save view." }, { status: 500 });
+  }
+}
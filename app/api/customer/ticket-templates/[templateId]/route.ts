@@ -0,0 +1,172 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/ticket-templates/[templateId]/route.ts
+// @purpose: Read, update or delete a single company ticket template.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { canCreateTickets } from "@/lib/permissions/companyRoles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canViewProject } from "@/lib/permissions/projectRoles";
+import { prisma } from "@/lib/prisma";
+import type { SessionUser } from "@/lib/roles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { updateTicketTemplateSchema } from "@/lib/schemas/ticket-template.schemas";
+import {
+  checkTemplateReferences,
+  TEMPLATE_SELECT,
+  toTemplateDtos,
+} from "@/lib/tickets/ticket-templates";
+
+type RouteContext = { params: Promise<{ templateId: string }> };
+
+/** The template if it belongs to the user's company and its project is visible. */
+async function loadVisibleTemplate(user: SessionUser, templateId: string) {
+  const template = await prisma.ticketTemplate.findFirst({
+    where: { id: templateId, companyId: user.activeCompanyId ?? "" },
+    select: TEMPLATE_SELECT,
+  });
+  if (!template) return null;
+  const role = await getProjectRole(user, template.project?.id ?? null);
+  return canViewProject(role) ? template : null;
+}
+
+/**
+ * Shared guard for PATCH / DELETE: customer with a ticket-creating company
+ * role and a visible template. Returns the template or an error response.
+ */
+async function loadManageableTemplate(user: SessionUser, templateId: string) {
+  if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+    return { response: NextResponse.json({ error: "Unauthorized" }, { status: 403 }) };
+  }
+  if (!canCreateTickets(user.companyRole ?? null)) {
+    return {
+      response: NextResponse.json(
+        { error: "You don't have permission to manage ticket templates." },
+        { status: 403 },
+      ),
+    };
+  }
+  const template = await loadVisibleTemplate(user, templateId);
+  if (!template) {
+    return { response: NextResponse.json({ error: "Template not found." }, { status: 404 }) };
+  }
+  return { template };
+}
+
+// ---------------------------------------------------------------------------
+// GET — One template
+// ---------------------------------------------------------------------------
+
+export async function GET(_req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { templateId } = await ctx.params;
+    const template = await loadVisibleTemplate(user, templateId);
+    if (!template) {
+      return NextResponse.json({ error: "Template not found." }, { status: 404 });
+    }
+
+    const [dto] = await toTemplateDtos(user.activeCompanyId, [template]);
+    return NextResponse.json({ template: dto });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.ticket-templates] GET one error", error);
+    return NextResponse.json({ error: "Failed to load ticket template." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PATCH — Edit fields
+// ---------------------------------------------------------------------------
+
+export async function PATCH(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    const { templateId } = await ctx.params;
+
+    const loaded = await loadManageableTemplate(user, templateId);
+    if (loaded.response) return loaded.response;
+
+    const parsed = await parseBody(req, updateTicketTemplateSchema);
+    if (!parsed.success) return parsed.response;
+    const data = parsed.data;
+
+    const refs = await checkTemplateReferences(user, data);
+    if (!refs.ok) {
+      return NextResponse.json(
+        { error: refs.message },
+        { status: refs.code === "PROJECT_FORBIDDEN" ? 403 : 400 },
+      );
+    }
+
+    try {
+      const updated = await prisma.ticketTemplate.update({
+        where: { id: loaded.template.id },
+        data: {
+          name: data.name,
+          titlePattern: data.titlePattern,
+          description: data.description,
+          projectId: data.projectId,
+          jobTypeId: data.jobTypeId,
+          quantity: data.quantity,
+          priority: data.priority,
+          tagIds: refs.tagIds,
+          outputSpecs: data.outputSpecs,
+        },
+        select: TEMPLATE_SELECT,
+      });
+
+      const [template] = await toTemplateDtos(user.activeCompanyId!, [updated]);
+      return NextResponse.json({ template });
+    } catch (err: any) {
+      if (err?.code === "P2002") {
+        return NextResponse.json(
+          { error: `A template named "${data.name}" already exists in your company.` },
+          { status: 409 },
+        );
+      }
+      throw err;
+    }
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.ticket-templates] PATCH error", error);
+    return NextResponse.json({ error: "Failed to update ticket template." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — Remove a template. Tickets created from it are untouched.
+// ---------------------------------------------------------------------------
+
+export async function DELETE(_req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    const { templateId } = await ctx.params;
+
+    const loaded = await loadManageableTemplate(user, templateId);
+    if (loaded.response) return loaded.response;
+
+    await prisma.ticketTemplate.delete({ where: { id: loaded.template.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.ticket-templates] DELETE error", error);
+    return NextResponse.json({ error: "Failed to delete ticket template." }, { status: 500 });
+  }
+}
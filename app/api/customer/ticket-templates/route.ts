@@ -0,0 +1,120 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/ticket-templates/route.ts
+// @purpose: List and create ticket templates for the active company. Used by
+//           the "Start from template" picker in the new-ticket form.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { canCreateTickets } from "@/lib/permissions/companyRoles";
+import { getProjectAccess } from "@/lib/permissions/projectAccess";
+import { prisma } from "@/lib/prisma";
+import { parseBody } from "@/lib/schemas/helpers";
+import { createTicketTemplateSchema } from "@/lib/schemas/ticket-template.schemas";
+import {
+  checkTemplateReferences,
+  TEMPLATE_SELECT,
+  toTemplateDtos,
+} from "@/lib/tickets/ticket-templates";
+
+// ---------------------------------------------------------------------------
+// GET — Templates in projects the user can see (plus project-less ones)
+// ---------------------------------------------------------------------------
+
+export async function GET() {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const access = await getProjectAccess(user);
+    const templates = await prisma.ticketTemplate.findMany({
+      where: { companyId: user.activeCompanyId, ...access.projectScopeWhere() },
+      orderBy: { name: "asc" },
+      select: TEMPLATE_SELECT,
+    });
+
+    return NextResponse.json({
+      templates: await toTemplateDtos(user.activeCompanyId, templates),
+      canManage: canCreateTickets(user.companyRole ?? null),
+    });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.ticket-templates] GET error", error);
+    return NextResponse.json({ error: "Failed to load ticket templates." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — Create a template
+// ---------------------------------------------------------------------------
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+    if (!canCreateTickets(user.companyRole ?? null)) {
+      return NextResponse.json(
+        { error: "You don't have permission to create tickets for this company." },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(req, createTicketTemplateSchema);
+    if (!parsed.success) return parsed.response;
+    const data = parsed.data;
+
+    const refs = await checkTemplateReferences(user, data);
+    if (!refs.ok) {
+      return NextResponse.json(
+        { error: refs.message },
+        { status: refs.code === "PROJECT_FORBIDDEN" ? 403 : 400 },
+      );
+    }
+
+    try {
+      const created = await prisma.ticketTemplate.create({
+        data: {
+          companyId: user.activeCompanyId,
+          createdById: user.id,
+          name: data.name,
+          titlePattern: data.titlePattern,
+          description: data.description,
+          projectId: data.projectId,
+          jobTypeId: data.jobTypeId,
+          quantity: data.quantity,
+          priority: data.priority,
+          tagIds: refs.tagIds ?? [],
+          outputSpecs: data.outputSpecs,
+        },
+        select: TEMPLATE_SELECT,
+      });
+
+      const [template] = await toTemplateDtos(user.activeCompanyId, [created]);
+      return NextResponse.json({ template }, { status: 201 });
+    } catch (err: any) {
+      if (err?.code === "P2002") {
+        return NextResponse.json(
+          { error: `A template named "${data.name}" already exists in your company.` },
+          { status: 409 },
+        );
+      }
+      throw err;
+    }
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.ticket-templates] POST error", error);
+    return NextResponse.json({ error: "Failed to create ticket template." }, { status: 500 });
+  }
+}
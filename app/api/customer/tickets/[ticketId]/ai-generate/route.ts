@@ -16,7 +16,10 @@ import { saveAiImageToR2 } from "@/lib/ai/asset-pipeline";
 import { readIdempotencyKey } from "@/lib/ai/idempotency";
 import { getAiTicketsMode, isAiTicketsAllowed } from "@/lib/feature-flags";
 import { isSiteAdminRole } from "@/lib/roles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canMoveTicketsInProject, canViewProject } from "@/lib/permissions/projectRoles";
 import { Prisma } from "@prisma/client";
+import { recordStatusEvent } from "@/lib/tickets/status-history";
 
 export async function POST(
   req: NextRequest,
@@ -99,6 +102,19 @@ export async function POST(
       return NextResponse.json({ error: "AI ticket not found" }, { status: 404 });
     }
 
+    // Generating writes a revision and moves the ticket, so project VIEWERs
+    // are read-only here.
+    const projectRole = await getProjectRole(user, ticket.projectId);
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "AI ticket not found" }, { status: 404 });
+    }
+    if (!canMoveTicketsInProject(projectRole)) {
+      return NextResponse.json(
+        { error: "You have read-only access to this project." },
+        { status: 403 },
+      );
+    }
+
     const body = await req.json();
     const { style, size } = body as {
       style?: string;
@@ -221,9 +237,22 @@ export async function POST(
       });
 
       // Update ticket status to IN_REVIEW so customer can review the result
-      await prisma.ticket.update({
-        where: { id: ticketId },
-        data: { status: "IN_REVIEW" },
+      await prisma.$transaction(async (tx) => {
+        await tx.ticket.update({
+          where: { id: ticketId },
+          data: { status: "IN_REVIEW" },
+        });
+        await recordStatusEvent(
+          {
+            ticketId,
+            fromStatus: ticket.status,
+            toStatus: "IN_REVIEW",
+            actorId: user.id,
+            source: "AI_GENERATION",
+            metadata: { aiGenerationId: generation.id },
+          },
+          tx,
+        );
       });
 
       return NextResponse.json(
@@ -19,6 +19,8 @@ import { readIdempotencyKey } from "@/lib/ai/idempotency";
 import { insufficientTokensResponse } from "@/lib/errors/insufficient-tokens";
 import { getAiTicketsMode, isAiTicketsAllowed } from "@/lib/feature-flags";
 import { isSiteAdminRole } from "@/lib/roles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canMoveTicketsInProject, canViewProject } from "@/lib/permissions/projectRoles";
 
 export async function POST(
   req: NextRequest,
@@ -59,6 +61,19 @@ export async function POST(
       return NextResponse.json({ error: "AI ticket not found" }, { status: 404 });
     }
 
+    // Regenerating writes a new revision, so project VIEWERs
+    // are read-only here.
+    const projectRole = await getProjectRole(user, ticket.projectId);
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "AI ticket not found" }, { status: 404 });
+    }
+    if (!canMoveTicketsInProject(projectRole)) {
+      return NextResponse.json(
+        { error: "You have read-only access to this project." },
+        { status: 403 },
+      );
+    }
+
     const body = await req.json();
     const { feedback, style, size } = body as {
       feedback?: string;
@@ -0,0 +1,168 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/tickets/[ticketId]/approvals/route.ts
+// @purpose: The ticket's approval chain — where the latest revision stands,
+//           and approve / request changes for the approvers being asked
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { notifyTicketWatchers } from "@/lib/notifications";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canViewProject } from "@/lib/permissions/projectRoles";
+import { prisma } from "@/lib/prisma";
+import { parseBody } from "@/lib/schemas/helpers";
+import { approvalDecisionSchema } from "@/lib/schemas/ticket.schemas";
+import {
+  type TicketApprovals,
+  decideRevisionApproval,
+  getTicketApprovals,
+  requestApprovals,
+} from "@/lib/tickets/approvals";
+
+type RouteContext = { params: Promise<{ ticketId: string }> };
+
+type CustomerUser = Awaited<ReturnType<typeof getCurrentUserOrThrow>>;
+
+/** The ticket if the customer can see it (same rules as the detail page). */
+async function findVisibleTicket(user: CustomerUser, ticketId: string) {
+  const ticket = await prisma.ticket.findFirst({
+    where: { id: ticketId, companyId: user.activeCompanyId ?? undefined },
+    select: { id: true, companyId: true, projectId: true, status: true },
+  });
+  if (!ticket || !canViewProject(await getProjectRole(user, ticket.projectId))) return null;
+  return ticket;
+}
+
+function serialize(approvals: TicketApprovals | null, userId: string, inReview: boolean) {
+  if (!approvals) return { policy: null, revision: null, state: null, canDecide: false };
+  return {
+    policy: {
+      mode: approvals.policy.mode,
+      minApprovals: approvals.policy.minApprovals,
+      isProjectPolicy: approvals.policy.projectId !== null,
+    },
+    revision: approvals.revision,
+    state: {
+      ...approvals.state,
+      steps: approvals.state.steps.map((s) => ({
+        ...s,
+        decidedAt: s.decidedAt?.toISOString() ?? null,
+      })),
+    },
+    canDecide: inReview && approvals.state.awaitingUserIds.includes(userId),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// GET — policy, latest revision and per-approver status
+// ---------------------------------------------------------------------------
+
+export async function GET(_req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { ticketId } = await ctx.params;
+    const ticket = await findVisibleTicket(user, ticketId);
+    if (!ticket) {
+      return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
+    }
+
+    const approvals = await getTicketApprovals(ticket);
+    return NextResponse.json(serialize(approvals, user.id, ticket.status === "IN_REVIEW"));
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer/tickets/[ticketId]/approvals] GET error", error);
+    return NextResponse.json({ error: "Failed to load approvals" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — approve or request changes on the latest revision
+// ---------------------------------------------------------------------------
+
+export async function POST(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { ticketId } = await ctx.params;
+    const ticket = await findVisibleTicket(user, ticketId);
+    if (!ticket) {
+      return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
+    }
+
+    const parsed = await parseBody(req, approvalDecisionSchema);
+    if (!parsed.success) return parsed.response;
+
+    const result = await decideRevisionApproval({
+      ticketId: ticket.id,
+      companyId: ticket.companyId,
+      approverUserId: user.id,
+      decision: parsed.data.decision,
+      message: parsed.data.message,
+    });
+
+    if (!result.success) {
+      const status =
+        result.code === "NOT_FOUND"
+          ? 404
+          : result.code === "NOT_APPROVER"
+            ? 403
+            : result.code === "CONCURRENCY_LIMIT" || result.code === "NO_POLICY"
+              ? 400
+              : 409;
+      return NextResponse.json({ error: result.message, code: result.code }, { status });
+    }
+
+    const { ticket: decided, revisionVersion, state } = result;
+
+    // Sequential chains move on to the next approver.
+    requestApprovals({
+      ticketId: decided.id,
+      title: decided.title,
+      revisionVersion,
+      userIds: result.nextApproverIds,
+      actorId: user.id,
+    });
+
+    if (result.sentBack) {
+      void notifyTicketWatchers({
+        recipientIds: [decided.creativeId],
+        type: "FEEDBACK_SUBMITTED",
+        title: "Changes requested",
+        message: `An approver requested changes on "${decided.title}" v${revisionVersion}`,
+        ticketId: decided.id,
+        actorId: user.id,
+      });
+    } else if (state.satisfied) {
+      void notifyTicketWatchers({
+        recipientIds: [decided.createdById],
+        type: "TICKET_STATUS_CHANGED",
+        title: "Approvals complete",
+        message: `"${decided.title}" has every sign-off it needs and can be marked done`,
+        ticketId: decided.id,
+        actorId: user.id,
+      });
+    }
+
+    const approvals = await getTicketApprovals(ticket);
+    return NextResponse.json(serialize(approvals, user.id, !result.sentBack));
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer/tickets/[ticketId]/approvals] POST error", error);
+    return NextResponse.json({ error: "Failed to record approval" }, { status: 500 });
+  }
+}
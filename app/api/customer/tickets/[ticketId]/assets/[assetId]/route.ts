@@ -9,6 +9,8 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
 import { isCompanyAdminRole } from "@/lib/permissions/companyRoles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canEditTicketsInProject, canViewProject } from "@/lib/permissions/projectRoles";
 
 export async function DELETE(
   _req: Request,
@@ -24,7 +26,7 @@ export async function DELETE(
 
     const ticket = await prisma.ticket.findUnique({
       where: { id: ticketId },
-      select: { id: true, companyId: true, createdById: true, status: true },
+      select: { id: true, companyId: true, createdById: true, status: true, projectId: true },
     });
 
     if (!ticket) {
@@ -45,6 +47,17 @@ export async function DELETE(
       return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
     }
 
+    const projectRole = await getProjectRole(
+      { id: user.id, activeCompanyId: ticket.companyId, companyRole: membership.roleInCompany },
+      ticket.projectId,
+    );
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
+    }
+    if (!canEditTicketsInProject(projectRole)) {
+      return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+    }
+
     // Same gate as uploading briefs: the ticket creator or a company admin.
     if (ticket.createdById !== user.id && !isCompanyAdminRole(membership.roleInCompany)) {
       return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
@@ -1,9 +1,9 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/customer/tickets/[ticketId]/assets/route.ts
 // @purpose: List ticket assets for customer (filtered by kind)
-// @version: v0.1.0
+// @version: v0.2.0
 // @status: active
-// @lastUpdate: 2025-12-27
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextResponse } from "next/server";
@@ -11,6 +11,8 @@ import { AssetKind } from "@prisma/client";
 
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canViewProject } from "@/lib/permissions/projectRoles";
 import { resolveAssetUrl } from "@/lib/r2";
 
 export async function GET(_req: Request, ctx: { params: Promise<{ ticketId: string }> }) {
@@ -32,7 +34,7 @@ export async function GET(_req: Request, ctx: { params: Promise<{ ticketId: stri
 
     const ticket = await prisma.ticket.findUnique({
       where: { id: ticketId },
-      select: { id: true, companyId: true, createdById: true },
+      select: { id: true, companyId: true, createdById: true, projectId: true },
     });
 
     if (!ticket) {
@@ -47,13 +49,22 @@ export async function GET(_req: Request, ctx: { params: Promise<{ ticketId: stri
           userId: user.id,
         },
       },
-      select: { id: true },
+      select: { roleInCompany: true },
     });
 
     if (!membership) {
       return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
     }
 
+    // Restricted projects stay hidden from company members outside them.
+    const projectRole = await getProjectRole(
+      { id: user.id, activeCompanyId: ticket.companyId, companyRole: membership.roleInCompany },
+      ticket.projectId,
+    );
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
+    }
+
     const assets = await prisma.asset.findMany({
       where: {
         ticketId,
@@ -1,9 +1,10 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/customer/tickets/[ticketId]/comments/route.ts
-// @purpose: List and create comments for a customer ticket
-// @version: v1.0.1
+// @purpose: List and create comments for a customer ticket (with @mentions +
+//           watcher fan-out). Internal notes are never listed here.
+// @version: v1.3.0
 // @status: active
-// @lastUpdate: 2025-11-18
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
@@ -11,6 +12,10 @@ import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
 import { parseBody } from "@/lib/schemas/helpers";
 import { createCommentSchema } from "@/lib/schemas/comment.schemas";
+import { listTicketComments, postTicketComment } from "@/lib/tickets/comments";
+import { getMentionCandidates } from "@/lib/tickets/mentions";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canCommentInProject, canViewProject } from "@/lib/permissions/projectRoles";
 
 type RouteContext = {
   params: Promise<{
@@ -18,9 +23,6 @@ type RouteContext = {
   }>;
 };
 
-// Prisma client type hack (in case the TicketComment delegate is missing from generated types)
-const prismaAny = prisma as any;
-
 // -----------------------------------------------------------------------------
 // GET /api/customer/tickets/[ticketId]/comments
 // -----------------------------------------------------------------------------
@@ -52,41 +54,20 @@ export async function GET(_req: NextRequest, { params }: RouteContext) {
         id: ticketId,
         companyId: user.activeCompanyId,
       },
-      select: { id: true },
+      select: { id: true, projectId: true },
     });
 
-    if (!ticket) {
+    // Tickets in projects the user isn't on are hidden, not forbidden.
+    if (!ticket || !canViewProject(await getProjectRole(user, ticket.projectId))) {
       return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
     }
 
-    const comments = await prismaAny.ticketComment.findMany({
-      where: { ticketId },
-      orderBy: { createdAt: "asc" },
-      include: {
-        author: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-          },
-        },
-      },
-    });
-
     return NextResponse.json(
       {
-        comments: (comments as any[]).map((c: any) => ({
-          id: c.id,
-          body: c.body,
-          createdAt: c.createdAt.toISOString(),
-          author: {
-            id: c.author.id,
-            name: c.author.name,
-            email: c.author.email,
-            role: c.author.role,
-          },
-        })),
+        // Internal notes (creative ↔ Brandbite) never reach the customer.
+        comments: await listTicketComments(ticketId, { includeInternal: false }),
+        // Autocomplete source for the composer
+        mentionCandidates: await getMentionCandidates(ticketId, user.id),
       },
       { status: 200 },
     );
@@ -102,7 +83,7 @@ export async function GET(_req: NextRequest, { params }: RouteContext) {
 
 // -----------------------------------------------------------------------------
 // POST /api/customer/tickets/[ticketId]/comments
-// Body: { body: string }
+// Body: { body: string } — "@Name" mentions are resolved server-side
 // -----------------------------------------------------------------------------
 
 export async function POST(req: NextRequest, { params }: RouteContext) {
@@ -136,49 +117,27 @@ export async function POST(req: NextRequest, { params }: RouteContext) {
         id: ticketId,
         companyId: user.activeCompanyId,
       },
-      select: { id: true },
+      select: { id: true, title: true, projectId: true },
     });
 
     if (!ticket) {
       return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
     }
 
-    const created = await prismaAny.ticketComment.create({
-      data: {
-        ticketId,
-        authorId: user.id,
-        body: rawBody,
-      },
-      include: {
-        author: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-          },
-        },
-      },
-    });
+    const projectRole = await getProjectRole(user, ticket.projectId);
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
+    }
+    if (!canCommentInProject(projectRole)) {
+      return NextResponse.json(
+        { error: "You have read-only access to this project and can't comment." },
+        { status: 403 },
+      );
+    }
 
-    const c = created as any;
+    const comment = await postTicketComment({ ticket, authorId: user.id, body: rawBody });
 
-    return NextResponse.json(
-      {
-        comment: {
-          id: c.id,
-          body: c.body,
-          createdAt: c.createdAt.toISOString(),
-          author: {
-            id: c.author.id,
-            name: c.author.name,
-            email: c.author.email,
-            role: c.author.role,
-          },
-        },
-      },
-      { status: 201 },
-    );
+    return NextResponse.json({ comment }, { status: 201 });
   } catch (error: any) {
     if ((error as any)?.code === "UNAUTHENTICATED") {
       return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
@@ -0,0 +1,104 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/tickets/[ticketId]/custom-fields/route.ts
+// @purpose: Set a ticket's company custom field values from the detail page
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { TicketStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { canEditTickets, normalizeCompanyRole } from "@/lib/permissions/companyRoles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canEditTicketsInProject, canViewProject } from "@/lib/permissions/projectRoles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { ticketCustomFieldsUpdateSchema } from "@/lib/schemas/custom-field.schemas";
+import { validateCustomFieldValues } from "@/lib/tickets/custom-field-values";
+import {
+  getTicketCustomFields,
+  listCustomFields,
+  saveTicketCustomFieldValues,
+} from "@/lib/tickets/custom-fields";
+
+type RouteContext = { params: Promise<{ ticketId: string }> };
+
+// -----------------------------------------------------------------------------
+// PUT /api/customer/tickets/[ticketId]/custom-fields
+// Body: { values: { [fieldId]: string | string[] | null } } — only the fields
+// present are changed; null clears one.
+//
+// Unlike the brief fields (TODO only), custom fields are bookkeeping
+// metadata — a cost center or launch date can be corrected while the
+// creative works — so any ticket that isn't cancelled can be updated.
+// -----------------------------------------------------------------------------
+
+export async function PUT(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json({ error: "Only customers can update tickets" }, { status: 403 });
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "User has no active company" }, { status: 400 });
+    }
+
+    if (!canEditTickets(normalizeCompanyRole(user.companyRole))) {
+      return NextResponse.json(
+        { error: "Only company owners, project managers or members can update tickets" },
+        { status: 403 },
+      );
+    }
+
+    const { ticketId } = await ctx.params;
+    if (!ticketId) {
+      return NextResponse.json({ error: "Missing ticketId in route params" }, { status: 400 });
+    }
+
+    const parsed = await parseBody(req, ticketCustomFieldsUpdateSchema);
+    if (!parsed.success) return parsed.response;
+
+    const ticket = await prisma.ticket.findFirst({
+      where: { id: ticketId, companyId: user.activeCompanyId },
+      select: { id: true, status: true, projectId: true },
+    });
+    const projectRole = ticket ? await getProjectRole(user, ticket.projectId) : null;
+    if (!ticket || !canViewProject(projectRole)) {
+      return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
+    }
+    if (!canEditTicketsInProject(projectRole)) {
+      return NextResponse.json(
+        { error: "You have read-only access to this project." },
+        { status: 403 },
+      );
+    }
+    if (ticket.status === TicketStatus.CANCELED) {
+      return NextResponse.json({ error: "Cancelled tickets can't be edited." }, { status: 409 });
+    }
+
+    const defs = await listCustomFields(user.activeCompanyId);
+    const checked = validateCustomFieldValues(defs, parsed.data.values, { partial: true });
+    if (!checked.ok) {
+      return NextResponse.json(
+        { error: checked.message, fieldId: checked.fieldId },
+        { status: 400 },
+      );
+    }
+
+    await prisma.$transaction((tx) => saveTicketCustomFieldValues(tx, ticket.id, checked.entries));
+
+    return NextResponse.json(
+      { customFields: await getTicketCustomFields(ticket.id, user.activeCompanyId) },
+      { status: 200 },
+    );
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.tickets.custom-fields] PUT error", error);
+    return NextResponse.json({ error: "Failed to update custom fields." }, { status: 500 });
+  }
+}
@@ -0,0 +1,205 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/tickets/[ticketId]/dependencies/route.ts
+// @purpose: List, add and remove "blocks / blocked by" links for a customer
+//           ticket. Linking requires edit access to this ticket's project and
+//           view access to the other ticket; linked tickets in projects the
+//           user can't see are returned as counts only.
+// @version: v1.1.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { CompanyRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import type { SessionUser } from "@/lib/roles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { ticketDependencySchema } from "@/lib/schemas/ticket.schemas";
+import { getProjectAccess, getProjectRole } from "@/lib/permissions/projectAccess";
+import { canEditTicketsInProject, canViewProject } from "@/lib/permissions/projectRoles";
+import {
+  addTicketDependency,
+  getTicketDependencies,
+  removeTicketDependency,
+} from "@/lib/tickets/dependencies";
+
+type RouteContext = { params: Promise<{ ticketId: string }> };
+
+// Same company roles that may edit ticket fields (BILLING is finance-only).
+const ALLOWED_UPDATE_ROLES: CompanyRole[] = ["OWNER", "PM", "MEMBER"];
+
+/** The ticket if it exists in the user's company and they can see it. */
+async function loadVisibleTicket(user: SessionUser, ticketId: string) {
+  const ticket = await prisma.ticket.findFirst({
+    where: { id: ticketId, companyId: user.activeCompanyId ?? "" },
+    select: { id: true, projectId: true },
+  });
+  if (!ticket) return null;
+  const role = await getProjectRole(user, ticket.projectId);
+  return canViewProject(role) ? { ...ticket, role } : null;
+}
+
+/** Dependencies of `ticketId`, with links into hidden projects reduced to counts. */
+async function loadDependencies(user: SessionUser, ticketId: string) {
+  const access = await getProjectAccess(user);
+  return getTicketDependencies(ticketId, (projectId) => canViewProject(access.roleFor(projectId)));
+}
+
+/**
+ * Shared guard for POST / DELETE: customer with an editing company role and
+ * edit access to this ticket's project. Returns the ticket or an error
+ * response.
+ */
+async function authorizeEdit(user: SessionUser, ticketId: string) {
+  if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+    return { response: NextResponse.json({ error: "Unauthorized" }, { status: 403 }) };
+  }
+  if (!user.companyRole || !ALLOWED_UPDATE_ROLES.includes(user.companyRole as CompanyRole)) {
+    return {
+      response: NextResponse.json(
+        { error: "Only company owners, project managers or members can link tickets." },
+        { status: 403 },
+      ),
+    };
+  }
+
+  const ticket = await loadVisibleTicket(user, ticketId);
+  if (!ticket) {
+    return {
+      response: NextResponse.json(
+        { error: "Ticket not found for current company" },
+        { status: 404 },
+      ),
+    };
+  }
+  if (!canEditTicketsInProject(ticket.role)) {
+    return {
+      response: NextResponse.json(
+        { error: "You have read-only access to this project." },
+        { status: 403 },
+      ),
+    };
+  }
+  return { ticket };
+}
+
+// ---------------------------------------------------------------------------
+// GET — What this ticket waits on and what waits on it
+// ---------------------------------------------------------------------------
+
+export async function GET(_req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { ticketId } = await ctx.params;
+    const ticket = await loadVisibleTicket(user, ticketId);
+    if (!ticket) {
+      return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
+    }
+
+    return NextResponse.json(await loadDependencies(user, ticket.id));
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.tickets.dependencies] GET error", error);
+    return NextResponse.json({ error: "Failed to load dependencies." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — Link another ticket. Body: { ticketId, direction }
+// ---------------------------------------------------------------------------
+
+export async function POST(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    const { ticketId } = await ctx.params;
+
+    const auth = await authorizeEdit(user, ticketId);
+    if (auth.response) return auth.response;
+
+    const parsed = await parseBody(req, ticketDependencySchema);
+    if (!parsed.success) return parsed.response;
+    const { ticketId: otherId, direction } = parsed.data;
+
+    // The other ticket must be visible too — no linking to tickets in
+    // projects the user can't see.
+    if (!(await loadVisibleTicket(user, otherId))) {
+      return NextResponse.json({ error: "Linked ticket not found." }, { status: 404 });
+    }
+
+    const result = await addTicketDependency({
+      companyId: user.activeCompanyId!,
+      blockerId: direction === "BLOCKED_BY" ? otherId : ticketId,
+      blockedId: direction === "BLOCKED_BY" ? ticketId : otherId,
+      actorId: user.id,
+    });
+
+    if (!result.success) {
+      const status =
+        result.code === "TICKET_NOT_FOUND"
+          ? 404
+          : result.code === "ALREADY_LINKED" || result.code === "CYCLE"
+            ? 409
+            : 400;
+      return NextResponse.json({ error: result.message, code: result.code }, { status });
+    }
+
+    return NextResponse.json(await loadDependencies(user, ticketId), { status: 201 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.tickets.dependencies] POST error", error);
+    return NextResponse.json({ error: "Failed to link tickets." }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — Unlink (?ticketId=...&direction=BLOCKED_BY|BLOCKS)
+// ---------------------------------------------------------------------------
+
+export async function DELETE(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    const { ticketId } = await ctx.params;
+
+    const auth = await authorizeEdit(user, ticketId);
+    if (auth.response) return auth.response;
+
+    const searchParams = new URL(req.url).searchParams;
+    const parsed = ticketDependencySchema.safeParse({
+      ticketId: searchParams.get("ticketId"),
+      direction: searchParams.get("direction"),
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? "Invalid request" },
+        { status: 400 },
+      );
+    }
+    const { ticketId: otherId, direction } = parsed.data;
+
+    const result = await removeTicketDependency({
+      companyId: user.activeCompanyId!,
+      blockerId: direction === "BLOCKED_BY" ? otherId : ticketId,
+      blockedId: direction === "BLOCKED_BY" ? ticketId : otherId,
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.message }, { status: 404 });
+    }
+
+    return NextResponse.json(await loadDependencies(user, ticketId));
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.tickets.dependencies] DELETE error", error);
+    return NextResponse.json({ error: "Failed to unlink tickets." }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/tickets/[ticketId]/guest-reviews/[linkId]/route.ts
+// @purpose: Revoke a guest review link. The guest page stops working at
+//           once; feedback already left stays for the company to review.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { canEditTickets, normalizeCompanyRole } from "@/lib/permissions/companyRoles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canEditTicketsInProject } from "@/lib/permissions/projectRoles";
+import { getTicketGuestReviews, logGuestReviewEvent } from "@/lib/tickets/guest-review";
+
+type RouteContext = { params: Promise<{ ticketId: string; linkId: string }> };
+
+export async function DELETE(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { ticketId, linkId } = await ctx.params;
+    const link = await prisma.guestReviewLink.findFirst({
+      where: { id: linkId, ticketId, ticket: { companyId: user.activeCompanyId } },
+      select: { id: true, revokedAt: true, ticket: { select: { projectId: true } } },
+    });
+    if (!link) {
+      return NextResponse.json({ error: "Guest link not found" }, { status: 404 });
+    }
+
+    const projectRole = await getProjectRole(user, link.ticket.projectId);
+    if (
+      !canEditTickets(normalizeCompanyRole(user.companyRole)) ||
+      !canEditTicketsInProject(projectRole)
+    ) {
+      return NextResponse.json(
+        { error: "You don't have permission to manage this ticket's guest links." },
+        { status: 403 },
+      );
+    }
+
+    // Idempotent: revoking twice keeps the first revocation.
+    if (!link.revokedAt) {
+      await prisma.guestReviewLink.update({
+        where: { id: link.id },
+        data: { revokedAt: new Date(), revokedById: user.id },
+      });
+      await logGuestReviewEvent({ linkId: link.id, action: "LINK_REVOKED", actorId: user.id, req });
+    }
+
+    const reviews = await getTicketGuestReviews(ticketId, { includeUrls: true });
+    return NextResponse.json({ ...reviews, canManage: true });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer/tickets/[ticketId]/guest-reviews/[linkId]] DELETE error", error);
+    return NextResponse.json({ error: "Failed to revoke guest link" }, { status: 500 });
+  }
+}
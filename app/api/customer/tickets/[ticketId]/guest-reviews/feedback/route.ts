@@ -0,0 +1,74 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/tickets/[ticketId]/guest-reviews/feedback/route.ts
+// @purpose: Accept or dismiss a piece of guest feedback. Accepting copies it
+//           onto the ticket — a pin at the guest's spot, or a comment — where
+//           the creative sees it; dismissing only records the decision.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { canEditTickets, normalizeCompanyRole } from "@/lib/permissions/companyRoles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canEditTicketsInProject, canViewProject } from "@/lib/permissions/projectRoles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { reviewGuestFeedbackSchema } from "@/lib/schemas/guest-review.schemas";
+import { getTicketGuestReviews, reviewGuestFeedback } from "@/lib/tickets/guest-review";
+
+type RouteContext = { params: Promise<{ ticketId: string }> };
+
+export async function PATCH(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { ticketId } = await ctx.params;
+    const ticket = await prisma.ticket.findFirst({
+      where: { id: ticketId, companyId: user.activeCompanyId },
+      select: { id: true, title: true, projectId: true },
+    });
+    const projectRole = ticket ? await getProjectRole(user, ticket.projectId) : null;
+    if (!ticket || !canViewProject(projectRole)) {
+      return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
+    }
+    if (
+      !canEditTickets(normalizeCompanyRole(user.companyRole)) ||
+      !canEditTicketsInProject(projectRole)
+    ) {
+      return NextResponse.json(
+        { error: "You don't have permission to review guest feedback on this ticket." },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(req, reviewGuestFeedbackSchema);
+    if (!parsed.success) return parsed.response;
+
+    const result = await reviewGuestFeedback({
+      feedbackId: parsed.data.feedbackId,
+      ticket: { id: ticket.id, title: ticket.title },
+      actorId: user.id,
+      accept: parsed.data.action === "ACCEPT",
+    });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message, code: result.code },
+        { status: result.code === "NOT_FOUND" ? 404 : 409 },
+      );
+    }
+
+    const reviews = await getTicketGuestReviews(ticket.id, { includeUrls: true });
+    return NextResponse.json({ ...reviews, canManage: true });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer/tickets/[ticketId]/guest-reviews/feedback] PATCH error", error);
+    return NextResponse.json({ error: "Failed to review guest feedback" }, { status: 500 });
+  }
+}
@@ -0,0 +1,140 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/tickets/[ticketId]/guest-reviews/route.ts
+// @purpose: Guest review links for a customer ticket — list the links, their
+//           audit log and the feedback guests left (GET), or share a revision
+//           with a new link (POST). Sharing needs the same access as editing
+//           the ticket; anyone who can see the ticket can read, but only
+//           sharers get the link URLs.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import type { SessionUser } from "@/lib/roles";
+import { canEditTickets, normalizeCompanyRole } from "@/lib/permissions/companyRoles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canEditTicketsInProject, canViewProject } from "@/lib/permissions/projectRoles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { createGuestReviewLinkSchema } from "@/lib/schemas/guest-review.schemas";
+import {
+  generateGuestReviewToken,
+  getTicketGuestReviews,
+  guestReviewExpiresAt,
+  hashGuestPassword,
+  logGuestReviewEvent,
+} from "@/lib/tickets/guest-review";
+
+type RouteContext = { params: Promise<{ ticketId: string }> };
+
+/** The ticket if the customer can see it, and whether they may share it. */
+async function loadTicket(user: SessionUser, ticketId: string) {
+  const ticket = await prisma.ticket.findFirst({
+    where: { id: ticketId, companyId: user.activeCompanyId ?? "" },
+    select: { id: true, projectId: true },
+  });
+  if (!ticket) return null;
+  const role = await getProjectRole(user, ticket.projectId);
+  if (!canViewProject(role)) return null;
+  const canManage =
+    canEditTickets(normalizeCompanyRole(user.companyRole)) && canEditTicketsInProject(role);
+  return { ...ticket, canManage };
+}
+
+// ---------------------------------------------------------------------------
+// GET — links, audit log and guest feedback
+// ---------------------------------------------------------------------------
+
+export async function GET(_req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { ticketId } = await ctx.params;
+    const ticket = await loadTicket(user, ticketId);
+    if (!ticket) {
+      return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
+    }
+
+    const reviews = await getTicketGuestReviews(ticket.id, { includeUrls: ticket.canManage });
+    return NextResponse.json({ ...reviews, canManage: ticket.canManage });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer/tickets/[ticketId]/guest-reviews] GET error", error);
+    return NextResponse.json({ error: "Failed to load guest reviews" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — share a revision with a new guest link
+// ---------------------------------------------------------------------------
+
+export async function POST(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+
+    const { ticketId } = await ctx.params;
+    const ticket = await loadTicket(user, ticketId);
+    if (!ticket) {
+      return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
+    }
+    if (!ticket.canManage) {
+      return NextResponse.json(
+        { error: "You don't have permission to share this ticket." },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(req, createGuestReviewLinkSchema);
+    if (!parsed.success) return parsed.response;
+    const { revisionVersion, label, expiresInDays, password } = parsed.data;
+
+    const revision = await prisma.ticketRevision.findFirst({
+      where: { ticketId: ticket.id, ...(revisionVersion ? { version: revisionVersion } : {}) },
+      orderBy: { version: "desc" },
+      select: { id: true },
+    });
+    if (!revision) {
+      return NextResponse.json(
+        { error: revisionVersion ? "Revision not found." : "There's no revision to share yet." },
+        { status: 400 },
+      );
+    }
+
+    const link = await prisma.guestReviewLink.create({
+      data: {
+        token: generateGuestReviewToken(),
+        ticketId: ticket.id,
+        revisionId: revision.id,
+        label,
+        passwordHash: password ? await hashGuestPassword(password) : null,
+        expiresAt: guestReviewExpiresAt(expiresInDays),
+        createdById: user.id,
+      },
+      select: { id: true },
+    });
+
+    await logGuestReviewEvent({ linkId: link.id, action: "LINK_CREATED", actorId: user.id, req });
+
+    const reviews = await getTicketGuestReviews(ticket.id, { includeUrls: true });
+    return NextResponse.json(
+      { ...reviews, canManage: true, createdLinkId: link.id },
+      { status: 201 },
+    );
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer/tickets/[ticketId]/guest-reviews] POST error", error);
+    return NextResponse.json({ error: "Failed to create guest link" }, { status: 500 });
+  }
+}
@@ -9,6 +9,8 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { getCurrentUserOrThrow } from "@/lib/auth";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canCommentInProject, canViewProject } from "@/lib/permissions/projectRoles";
 import { prisma } from "@/lib/prisma";
 import { parseBody } from "@/lib/schemas/helpers";
 import { submitRatingSchema } from "@/lib/schemas/rating.schemas";
@@ -39,12 +41,21 @@ export async function POST(
         status: true,
         creativeId: true,
         companyId: true,
+        projectId: true,
       },
     });
 
-    if (!ticket) {
+    const projectRole = ticket ? await getProjectRole(user, ticket.projectId) : null;
+    if (!ticket || !canViewProject(projectRole)) {
       return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
     }
+    // Project VIEWERs are read-only — rating is feedback like a comment.
+    if (!canCommentInProject(projectRole)) {
+      return NextResponse.json(
+        { error: "You have read-only access to this project." },
+        { status: 403 },
+      );
+    }
     if (ticket.status !== "DONE") {
       return NextResponse.json(
         { error: "Ticket must be marked DONE before it can be rated" },
@@ -0,0 +1,109 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/tickets/[ticketId]/reopen/route.ts
+// @purpose: Customer-initiated correction reopen of a DONE ticket (OWNER/PM,
+//           within the TICKET_REOPEN_WINDOW_HOURS window, free of charge)
+// @version: v1.0.1
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { normalizeCompanyRole, isCompanyAdminRole } from "@/lib/permissions/companyRoles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canViewProject } from "@/lib/permissions/projectRoles";
+import { parseBody } from "@/lib/schemas/helpers";
+import { reopenTicketSchema } from "@/lib/schemas/ticket-update.schemas";
+import { reopenTicket } from "@/lib/tickets/reopen";
+
+type RouteContext = { params: Promise<{ ticketId: string }> };
+
+// -----------------------------------------------------------------------------
+// POST /api/customer/tickets/[ticketId]/reopen
+// Body: { message: string } — what needs correcting. Moves the ticket back to
+// IN_PROGRESS; the creative isn't paid again when it's completed.
+// -----------------------------------------------------------------------------
+
+export async function POST(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json({ error: "Only customers can reopen tickets." }, { status: 403 });
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    // OWNER + PM only — same gate as cancel: a reopen asks the creative for
+    // unpaid work, so it's a company-level decision rather than a MEMBER one.
+    const companyRole = normalizeCompanyRole(user.companyRole);
+    if (!isCompanyAdminRole(companyRole)) {
+      return NextResponse.json(
+        { error: "Only company owners or project managers can reopen tickets." },
+        { status: 403 },
+      );
+    }
+
+    const { ticketId } = await ctx.params;
+    if (!ticketId) {
+      return NextResponse.json({ error: "Missing ticketId in route params" }, { status: 400 });
+    }
+
+    const parsed = await parseBody(req, reopenTicketSchema);
+    if (!parsed.success) return parsed.response;
+
+    // Tickets in restricted projects the user isn't on are hidden entirely.
+    const scoped = await prisma.ticket.findFirst({
+      where: { id: ticketId, companyId: user.activeCompanyId },
+      select: { projectId: true },
+    });
+    if (!scoped || !canViewProject(await getProjectRole(user, scoped.projectId))) {
+      return NextResponse.json({ error: "Ticket not found." }, { status: 404 });
+    }
+
+    const result = await reopenTicket({
+      ticketId,
+      companyId: user.activeCompanyId,
+      actorId: user.id,
+      message: parsed.data.message,
+    });
+
+    if (!result.success) {
+      if (result.code === "NOT_FOUND") {
+        return NextResponse.json({ error: result.message }, { status: 404 });
+      }
+      return NextResponse.json(
+        {
+          error: result.message,
+          code: result.code,
+          ...("deadline" in result && result.deadline
+            ? { reopenableUntil: result.deadline.toISOString() }
+            : {}),
+          ...("details" in result ? { details: result.details } : {}),
+        },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        ticket: {
+          id: result.ticket.id,
+          status: result.ticket.status,
+          reopenCount: result.ticket.reopenCount,
+          updatedAt: result.ticket.updatedAt.toISOString(),
+        },
+      },
+      { status: 200 },
+    );
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.tickets.reopen] POST error", error);
+    return NextResponse.json({ error: "Failed to reopen ticket." }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/tickets/[ticketId]/restore/route.ts
+// @purpose: Restore a cancelled ticket from the archive back to TODO,
+//           re-debiting the refunded tokens when the balance allows
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+//
+// OWNER + PM only, mirroring /cancel: the refund and its reversal are the
+// same ledger action in opposite directions. The debit itself lives in
+// lib/tickets/restore-ticket.ts.
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { insufficientTokensResponse } from "@/lib/errors/insufficient-tokens";
+import { normalizeCompanyRole, isCompanyAdminRole } from "@/lib/permissions/companyRoles";
+import { restoreCanceledTicket } from "@/lib/tickets/restore-ticket";
+
+type RouteContext = { params: Promise<{ ticketId: string }> };
+
+export async function POST(_req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can restore their own tickets." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const companyRole = normalizeCompanyRole(user.companyRole);
+    if (!isCompanyAdminRole(companyRole)) {
+      return NextResponse.json(
+        { error: "Only company owners or project managers can restore tickets." },
+        { status: 403 },
+      );
+    }
+
+    const { ticketId } = await ctx.params;
+    if (!ticketId) {
+      return NextResponse.json({ error: "Missing ticketId in route params" }, { status: 400 });
+    }
+
+    const result = await restoreCanceledTicket({
+      ticketId,
+      companyId: user.activeCompanyId,
+      actor: { id: user.id, email: user.email },
+    });
+
+    if (!result.success) {
+      switch (result.code) {
+        case "NOT_FOUND":
+          return NextResponse.json({ error: result.message }, { status: 404 });
+        case "INSUFFICIENT_TOKENS":
+          return insufficientTokensResponse({
+            required: result.required,
+            balance: result.balance,
+            action: "ticket restore",
+          });
+        case "NOT_CANCELED":
+          return NextResponse.json(
+            { error: result.message, status: result.status },
+            { status: 409 },
+          );
+        default:
+          return NextResponse.json({ error: result.message }, { status: 409 });
+      }
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        ticketId: result.ticketId,
+        debitedTokens: result.debitedTokens,
+        balanceAfter: result.balanceAfter,
+      },
+      { status: 200 },
+    );
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.tickets.restore] POST error", error);
+    return NextResponse.json({ error: "Failed to restore ticket." }, { status: 500 });
+  }
+}
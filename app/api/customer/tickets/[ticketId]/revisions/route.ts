@@ -1,15 +1,18 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/customer/tickets/[ticketId]/revisions/route.ts
 // @purpose: Fetch revision history for a single ticket from the customer side
-// @version: v1.0.1
+// @version: v1.2.0
 // @status: active
-// @lastUpdate: 2025-11-26
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canViewProject } from "@/lib/permissions/projectRoles";
 import { resolveAssetUrl } from "@/lib/r2";
+import { REVISION_PIN_SUMMARY_SELECT, summarizeRevisionPins } from "@/lib/tickets/pin-carry-over";
 
 export async function GET(
   _req: NextRequest,
@@ -47,10 +50,10 @@ export async function GET(
       id: ticketId,
       companyId: activeCompanyId,
     },
-    select: { id: true },
+    select: { id: true, projectId: true },
   });
 
-  if (!ticket) {
+  if (!ticket || !canViewProject(await getProjectRole(user, ticket.projectId))) {
     return NextResponse.json({ error: "Ticket not found for your company." }, { status: 404 });
   }
 
@@ -78,7 +81,7 @@ export async function GET(
           width: true,
           height: true,
           originalName: true,
-          pins: { select: { status: true } },
+          pins: { select: REVISION_PIN_SUMMARY_SELECT },
         },
       },
     },
@@ -91,6 +94,7 @@ export async function GET(
       submittedAt: rev.submittedAt ? rev.submittedAt.toISOString() : null,
       feedbackAt: rev.feedbackAt ? rev.feedbackAt.toISOString() : null,
       feedbackMessage: rev.feedbackMessage ?? null,
+      pinSummary: summarizeRevisionPins(rev.assets.flatMap((a) => a.pins)),
       assets: await Promise.all(
         ((rev as any).assets ?? []).map(async (a: any) => ({
           id: a.id,
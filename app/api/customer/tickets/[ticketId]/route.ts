@@ -1,9 +1,9 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/customer/tickets/[ticketId]/route.ts
 // @purpose: Get or update a single customer ticket (detail + status changes)
-// @version: v1.1.1
+// @version: v1.3.0
 // @status: active
-// @lastUpdate: 2025-11-18
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
@@ -17,6 +17,18 @@ import {
   updateTicketFieldsSchema,
 } from "@/lib/schemas/ticket-update.schemas";
 import { isTagsEnabled } from "@/lib/feature-flags";
+import { recordStatusEvent } from "@/lib/tickets/status-history";
+import { applySlaPolicy } from "@/lib/tickets/sla";
+import { getReopenableUntil } from "@/lib/tickets/reopen";
+import { getTicketCustomFields } from "@/lib/tickets/custom-fields";
+import { describeOpenBlockers, getOpenBlockers } from "@/lib/tickets/dependencies";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import {
+  canCreateTicketsInProject,
+  canEditTicketsInProject,
+  canMoveTicketsInProject,
+  canViewProject,
+} from "@/lib/permissions/projectRoles";
 
 type RouteContext = {
   params: Promise<{
@@ -114,6 +126,12 @@ export async function GET(_req: NextRequest, { params }: RouteContext) {
       return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
     }
 
+    // Tickets in restricted projects the user isn't on are hidden entirely.
+    const viewerProjectRole = await getProjectRole(user, ticket.projectId);
+    if (!canViewProject(viewerProjectRole)) {
+      return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
+    }
+
     const code = buildTicketCode({
       projectCode: ticket.project?.code,
       companyTicketNumber: ticket.companyTicketNumber,
@@ -174,6 +192,9 @@ export async function GET(_req: NextRequest, { params }: RouteContext) {
                 color: ta.tag.color,
               }))
             : [],
+          // Every company custom field with this ticket's value (unset ones
+          // included, so the detail page can edit them).
+          customFields: await getTicketCustomFields(ticket.id, ticket.companyId),
           createdBy: ticket.createdBy
             ? {
                 id: ticket.createdBy.id,
@@ -189,11 +210,18 @@ export async function GET(_req: NextRequest, { params }: RouteContext) {
                 email: ticket.completedBy.email,
               }
             : null,
+          // Correction reopen: deadline while OWNER/PM can still reopen this
+          // DONE ticket for free, null otherwise.
+          reopenCount: ticket.reopenCount,
+          reopenableUntil: (await getReopenableUntil(ticket))?.toISOString() ?? null,
           moodboards: (ticket.moodboards ?? []).map((mb: any) => ({
             id: mb.id,
             title: mb.title,
             itemCount: mb._count?.items ?? 0,
           })),
+          // The caller's effective ProjectRole — drives the edit / comment
+          // affordances on the detail page.
+          viewerProjectRole,
         },
       },
       { status: 200 },
@@ -275,6 +303,7 @@ export async function PATCH(req: NextRequest, { params }: RouteContext) {
         id: true,
         status: true,
         companyId: true,
+        projectId: true,
         quantity: true,
         tokenCostOverride: true,
         jobTypeId: true,
@@ -286,6 +315,22 @@ export async function PATCH(req: NextRequest, { params }: RouteContext) {
       return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
     }
 
+    // Project-level permission on top of the company role check above:
+    // VIEWERs can read but neither move nor edit.
+    const projectRole = await getProjectRole(user, existing.projectId);
+    if (!canViewProject(projectRole)) {
+      return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
+    }
+    const allowedByProject = hasEditFields
+      ? canEditTicketsInProject(projectRole)
+      : canMoveTicketsInProject(projectRole);
+    if (!allowedByProject) {
+      return NextResponse.json(
+        { error: "You have read-only access to this project." },
+        { status: 403 },
+      );
+    }
+
     // -----------------------------------------------------------------------
     // Branch A: Status change (existing behavior — drag-and-drop on board)
     // -----------------------------------------------------------------------
@@ -324,16 +369,41 @@ export async function PATCH(req: NextRequest, { params }: RouteContext) {
         );
       }
 
-      const updated = await prisma.ticket.update({
-        where: { id: ticketId },
-        data: {
-          status: targetStatus,
-        },
-        select: {
-          id: true,
-          status: true,
-          updatedAt: true,
-        },
+      // Blocked tickets can't start until every blocker is resolved — same
+      // gate the creative transition applies.
+      if (existing.status === TicketStatus.TODO && targetStatus === TicketStatus.IN_PROGRESS) {
+        const blockers = await getOpenBlockers(ticketId);
+        if (blockers.length > 0) {
+          return NextResponse.json(
+            { error: describeOpenBlockers(blockers), blockers },
+            { status: 409 },
+          );
+        }
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const row = await tx.ticket.update({
+          where: { id: ticketId },
+          data: {
+            status: targetStatus,
+          },
+          select: {
+            id: true,
+            status: true,
+            updatedAt: true,
+          },
+        });
+        await recordStatusEvent(
+          {
+            ticketId,
+            fromStatus: existing.status,
+            toStatus: targetStatus,
+            actorId: user.id,
+            source: "CUSTOMER_BOARD",
+          },
+          tx,
+        );
+        return row;
       });
 
       return NextResponse.json(
@@ -397,6 +467,12 @@ export async function PATCH(req: NextRequest, { params }: RouteContext) {
               { status: 400 },
             );
           }
+          if (!canCreateTicketsInProject(await getProjectRole(user, project.id))) {
+            return NextResponse.json(
+              { error: "You can't move tickets into a project you don't contribute to." },
+              { status: 403 },
+            );
+          }
           updateData.projectId = project.id;
         }
       }
@@ -556,6 +632,11 @@ export async function PATCH(req: NextRequest, { params }: RouteContext) {
           }
         }
 
+        // Priority / job type pick the SLA policy — re-target the clock.
+        if ("priority" in updateData || "jobTypeId" in updateData) {
+          await applySlaPolicy(tx, ticketId);
+        }
+
         // Re-fetch with all includes for the response
         return tx.ticket.findUniqueOrThrow({
           where: { id: ticketId },
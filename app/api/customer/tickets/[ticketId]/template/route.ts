@@ -0,0 +1,100 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/tickets/[ticketId]/template/route.ts
+// @purpose: "Save as template" — copy an existing ticket's brief, job type,
+//           quantity, output specs, project, priority and tags into a new
+//           company ticket template.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { canCreateTickets } from "@/lib/permissions/companyRoles";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canViewProject } from "@/lib/permissions/projectRoles";
+import { prisma } from "@/lib/prisma";
+import { parseBody } from "@/lib/schemas/helpers";
+import { saveTicketAsTemplateSchema } from "@/lib/schemas/ticket-template.schemas";
+import {
+  checkTemplateReferences,
+  templateDataFromTicket,
+  TEMPLATE_SELECT,
+  toTemplateDtos,
+} from "@/lib/tickets/ticket-templates";
+
+type RouteContext = { params: Promise<{ ticketId: string }> };
+
+export async function POST(req: NextRequest, ctx: RouteContext) {
+  try {
+    const user = await getCurrentUserOrThrow();
+    if (user.role !== "CUSTOMER" || !user.activeCompanyId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+    }
+    if (!canCreateTickets(user.companyRole ?? null)) {
+      return NextResponse.json(
+        { error: "You don't have permission to manage ticket templates." },
+        { status: 403 },
+      );
+    }
+
+    const { ticketId } = await ctx.params;
+    const ticket = await prisma.ticket.findFirst({
+      where: { id: ticketId, companyId: user.activeCompanyId },
+      select: { id: true, projectId: true },
+    });
+    if (!ticket || !canViewProject(await getProjectRole(user, ticket.projectId))) {
+      return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
+    }
+
+    const parsed = await parseBody(req, saveTicketAsTemplateSchema);
+    if (!parsed.success) return parsed.response;
+
+    const data = await templateDataFromTicket(ticket.id);
+    if (!data) {
+      return NextResponse.json({ error: "Ticket not found for current company" }, { status: 404 });
+    }
+
+    const refs = await checkTemplateReferences(user, {
+      projectId: data.projectId,
+      tagIds: data.tagIds,
+    });
+    if (!refs.ok) {
+      return NextResponse.json(
+        { error: refs.message },
+        { status: refs.code === "PROJECT_FORBIDDEN" ? 403 : 400 },
+      );
+    }
+
+    try {
+      const created = await prisma.ticketTemplate.create({
+        data: {
+          ...data,
+          tagIds: refs.tagIds ?? [],
+          companyId: user.activeCompanyId,
+          createdById: user.id,
+          name: parsed.data.name,
+        },
+        select: TEMPLATE_SELECT,
+      });
+
+      const [template] = await toTemplateDtos(user.activeCompanyId, [created]);
+      return NextResponse.json({ template }, { status: 201 });
+    } catch (err: any) {
+      if (err?.code === "P2002") {
+        return NextResponse.json(
+          { error: `A template named "${parsed.data.name}" already exists in your company.` },
+          { status: 409 },
+        );
+      }
+      throw err;
+    }
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.tickets.template] POST error", error);
+    return NextResponse.json({ error: "Failed to save ticket as template." }, { status: 500 });
+  }
+}
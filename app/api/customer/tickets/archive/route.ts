@@ -0,0 +1,82 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/tickets/archive/route.ts
+// @purpose: Customer ticket archive — cancelled tickets and tickets completed
+//           more than TICKET_ARCHIVE_AFTER_DAYS ago, with refund ledger rows
+//           and remaining assets
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { isCompanyAdminRole, normalizeCompanyRole } from "@/lib/permissions/companyRoles";
+import { getProjectAccess } from "@/lib/permissions/projectAccess";
+import { prisma } from "@/lib/prisma";
+import { ARCHIVE_FILTERS, type ArchiveFilter, listArchivedTickets } from "@/lib/tickets/archive";
+
+// ---------------------------------------------------------------------------
+// GET — ?search=&filter=all|canceled|completed&limit=&offset=
+// ---------------------------------------------------------------------------
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can access the ticket archive." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const params = req.nextUrl.searchParams;
+    const filterParam = params.get("filter") ?? "all";
+    const filter: ArchiveFilter = (ARCHIVE_FILTERS as readonly string[]).includes(filterParam)
+      ? (filterParam as ArchiveFilter)
+      : "all";
+    const limit = Math.min(Math.max(parseInt(params.get("limit") || "25", 10) || 25, 1), 100);
+    const offset = Math.max(parseInt(params.get("offset") || "0", 10) || 0, 0);
+
+    // Restricted projects the user isn't a member of stay hidden here too.
+    const access = await getProjectAccess(user);
+
+    const [{ tickets, total, archiveAfterDays }, company] = await Promise.all([
+      listArchivedTickets({
+        companyId: user.activeCompanyId,
+        scopeWhere: access.projectScopeWhere(),
+        search: params.get("search") ?? "",
+        filter,
+        limit,
+        offset,
+      }),
+      prisma.company.findUnique({
+        where: { id: user.activeCompanyId },
+        select: { tokenBalance: true },
+      }),
+    ]);
+
+    return NextResponse.json(
+      {
+        tickets,
+        total,
+        archiveAfterDays,
+        tokenBalance: company?.tokenBalance ?? 0,
+        // Same gate as cancel — restoring spends tokens again.
+        canRestore: isCompanyAdminRole(normalizeCompanyRole(user.companyRole)),
+      },
+      { status: 200 },
+    );
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[customer.tickets.archive] GET error", error);
+    return NextResponse.json({ error: "Failed to load archived tickets." }, { status: 500 });
+  }
+}
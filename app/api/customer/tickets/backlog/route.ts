@@ -0,0 +1,83 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/tickets/backlog/route.ts
+// @purpose: Reorder the company's ranked To do backlog from the customer board
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+//
+// OWNER + PM only. Both tickets must be visible to the caller; the rank
+// rewrite itself lives in lib/tickets/backlog.ts.
+
+import { NextRequest, NextResponse } from "next/server";
+import { TicketStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { normalizeCompanyRole, isCompanyAdminRole } from "@/lib/permissions/companyRoles";
+import { getProjectAccess } from "@/lib/permissions/projectAccess";
+import { parseBody } from "@/lib/schemas/helpers";
+import { reorderBacklogSchema } from "@/lib/schemas";
+import { moveBacklogTicket } from "@/lib/tickets/backlog";
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json(
+        { error: "Only customers can reorder their backlog." },
+        { status: 403 },
+      );
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "No active company selected." }, { status: 400 });
+    }
+
+    const companyRole = normalizeCompanyRole(user.companyRole);
+    if (!isCompanyAdminRole(companyRole)) {
+      return NextResponse.json(
+        { error: "Only company owners or project managers can reorder the backlog." },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(req, reorderBacklogSchema);
+    if (!parsed.success) return parsed.response;
+    const { ticketId, afterTicketId } = parsed.data;
+
+    const access = await getProjectAccess(user);
+    const ids = afterTicketId ? [ticketId, afterTicketId] : [ticketId];
+    const visible = await prisma.ticket.findMany({
+      where: {
+        AND: [{ id: { in: ids }, companyId: user.activeCompanyId }, access.projectScopeWhere()],
+      },
+      select: { id: true, status: true },
+    });
+
+    if (visible.length !== new Set(ids).size) {
+      return NextResponse.json({ error: "Ticket not found." }, { status: 404 });
+    }
+    if (visible.some((t) => t.status !== TicketStatus.TODO)) {
+      return NextResponse.json({ error: "Only To do tickets can be reordered." }, { status: 409 });
+    }
+
+    const result = await moveBacklogTicket({
+      companyId: user.activeCompanyId,
+      ticketId,
+      afterTicketId,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.message }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, order: result.order }, { status: 200 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer.tickets.backlog] PATCH error", error);
+    return NextResponse.json({ error: "Failed to reorder the backlog." }, { status: 500 });
+  }
+}
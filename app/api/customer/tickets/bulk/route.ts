@@ -0,0 +1,226 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/customer/tickets/bulk/route.ts
+// @purpose: Customer multi-ticket operations for the active company:
+//             - move tickets to another project (or out of any project)
+//             - change priority
+//             - add / remove tags
+//             - set or clear the due date
+//             - cancel TODO tickets with a full refund (OWNER / PM only)
+//           Same rules as the single-ticket endpoints: field edits need
+//           canEditTickets + edit access on the ticket's project and only
+//           apply to TODO tickets; cancel goes through the shared refund
+//           service. Per-ticket errors are collected and returned so the UI
+//           can show a "N succeeded, M failed" summary.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { TicketStatus } from "@prisma/client";
+
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { isTagsEnabled } from "@/lib/feature-flags";
+import {
+  canEditTickets,
+  canMoveTicketsOnBoard,
+  isCompanyAdminRole,
+  normalizeCompanyRole,
+} from "@/lib/permissions/companyRoles";
+import { getProjectAccess } from "@/lib/permissions/projectAccess";
+import {
+  canCreateTicketsInProject,
+  canEditTicketsInProject,
+  canViewProject,
+} from "@/lib/permissions/projectRoles";
+import { prisma } from "@/lib/prisma";
+import { parseBody } from "@/lib/schemas/helpers";
+import { customerBulkTicketsSchema } from "@/lib/schemas/bulk-tickets.schemas";
+import { cancelCustomerTicket } from "@/lib/tickets/cancel-ticket";
+import { applySlaPolicy } from "@/lib/tickets/sla";
+
+/** Same cap the ticket forms apply to tagIds. */
+const MAX_TAGS_PER_TICKET = 5;
+
+type BulkResult = {
+  succeeded: string[];
+  failed: { id: string; error: string }[];
+  /** Total tokens returned to the company (cancel op only). */
+  refundedTokens?: number;
+};
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "CUSTOMER") {
+      return NextResponse.json({ error: "Only customers can update tickets" }, { status: 403 });
+    }
+
+    if (!user.activeCompanyId) {
+      return NextResponse.json({ error: "User has no active company" }, { status: 400 });
+    }
+    const companyId = user.activeCompanyId;
+
+    const parsed = await parseBody(req, customerBulkTicketsSchema);
+    if (!parsed.success) return parsed.response;
+    const data = parsed.data;
+
+    // Cancel spends a refund against the company ledger, so it keeps the
+    // single-ticket cancel gate (OWNER + PM). Everything else is a field
+    // edit and follows canEditTickets.
+    const companyRole = normalizeCompanyRole(user.companyRole);
+    if (data.op === "cancel") {
+      if (!canMoveTicketsOnBoard(companyRole) || !isCompanyAdminRole(companyRole)) {
+        return NextResponse.json(
+          { error: "Only company owners or project managers can cancel tickets." },
+          { status: 403 },
+        );
+      }
+    } else if (!canEditTickets(companyRole)) {
+      return NextResponse.json(
+        { error: "Only company owners, project managers or members can update tickets" },
+        { status: 403 },
+      );
+    }
+
+    const access = await getProjectAccess(user);
+
+    // Upfront validation of the op's target — one lookup instead of N in
+    // the loop below.
+    if (data.op === "project" && data.projectId !== null) {
+      const project = await prisma.project.findFirst({
+        where: { id: data.projectId, companyId },
+        select: { id: true },
+      });
+      if (!project) {
+        return NextResponse.json({ error: "Project not found for this company" }, { status: 400 });
+      }
+      if (!canCreateTicketsInProject(access.roleFor(project.id))) {
+        return NextResponse.json(
+          { error: "You can't move tickets into a project you don't contribute to." },
+          { status: 403 },
+        );
+      }
+    }
+
+    let tagIds: string[] = [];
+    if (data.op === "addTags" || data.op === "removeTags") {
+      if (!(await isTagsEnabled())) {
+        return NextResponse.json({ error: "Ticket tags are turned off." }, { status: 400 });
+      }
+      const validTags = await prisma.ticketTag.findMany({
+        where: { id: { in: data.tagIds }, companyId },
+        select: { id: true },
+      });
+      tagIds = validTags.map((t) => t.id);
+      if (tagIds.length === 0) {
+        return NextResponse.json({ error: "Tags not found for this company" }, { status: 400 });
+      }
+    }
+
+    const result: BulkResult = { succeeded: [], failed: [] };
+    if (data.op === "cancel") result.refundedTokens = 0;
+
+    // Sequential, like the admin bulk route: per-row errors stay
+    // attributable to one ticket and refunds never race each other.
+    for (const id of data.ticketIds) {
+      try {
+        const existing = await prisma.ticket.findFirst({
+          where: { id, companyId },
+          select: { id: true, status: true, projectId: true },
+        });
+        const projectRole = existing ? access.roleFor(existing.projectId) : null;
+        if (!existing || !canViewProject(projectRole)) {
+          result.failed.push({ id, error: "Ticket not found" });
+          continue;
+        }
+
+        if (data.op === "cancel") {
+          const cancelled = await cancelCustomerTicket({
+            ticketId: id,
+            companyId,
+            actor: { id: user.id, email: user.email },
+          });
+          if (!cancelled.success) {
+            result.failed.push({ id, error: cancelled.message });
+            continue;
+          }
+          result.refundedTokens = (result.refundedTokens ?? 0) + cancelled.refundedTokens;
+          result.succeeded.push(id);
+          continue;
+        }
+
+        if (!canEditTicketsInProject(projectRole)) {
+          result.failed.push({ id, error: "You have read-only access to this project." });
+          continue;
+        }
+        // Same lock as the single-ticket edit: once a creative starts
+        // working, the ticket's fields are frozen.
+        if (existing.status !== TicketStatus.TODO) {
+          result.failed.push({
+            id,
+            error: "Ticket can only be edited while in To do status.",
+          });
+          continue;
+        }
+
+        if (data.op === "project") {
+          await prisma.ticket.update({
+            where: { id },
+            data: { projectId: data.projectId },
+          });
+        } else if (data.op === "priority") {
+          await prisma.$transaction(async (tx) => {
+            await tx.ticket.update({
+              where: { id },
+              data: { priority: data.priority },
+            });
+            await applySlaPolicy(tx, id);
+          });
+        } else if (data.op === "dueDate") {
+          await prisma.ticket.update({
+            where: { id },
+            data: { dueDate: data.dueDate },
+          });
+        } else if (data.op === "addTags") {
+          const current = await prisma.ticketTagAssignment.findMany({
+            where: { ticketId: id },
+            select: { tagId: true },
+          });
+          const merged = new Set([...current.map((a) => a.tagId), ...tagIds]);
+          if (merged.size > MAX_TAGS_PER_TICKET) {
+            result.failed.push({
+              id,
+              error: `A ticket can carry at most ${MAX_TAGS_PER_TICKET} tags.`,
+            });
+            continue;
+          }
+          await prisma.ticketTagAssignment.createMany({
+            data: tagIds.map((tagId) => ({ ticketId: id, tagId })),
+            skipDuplicates: true,
+          });
+        } else if (data.op === "removeTags") {
+          await prisma.ticketTagAssignment.deleteMany({
+            where: { ticketId: id, tagId: { in: tagIds } },
+          });
+        }
+
+        result.succeeded.push(id);
+      } catch (err) {
+        result.failed.push({
+          id,
+          error: err instanceof Error ? err.message : "Unexpected error",
+        });
+      }
+    }
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if ((error as { code?: string })?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    console.error("[customer/tickets/bulk] POST error", error);
+    return NextResponse.json({ error: "Bulk op failed" }, { status: 500 });
+  }
+}
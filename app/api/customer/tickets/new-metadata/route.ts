@@ -10,6 +10,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
 import { isTagsEnabled } from "@/lib/feature-flags";
+import { getProjectAccess } from "@/lib/permissions/projectAccess";
+import { canCreateTicketsInProject } from "@/lib/permissions/projectRoles";
 
 export async function GET(_req: NextRequest) {
   try {
@@ -37,8 +39,9 @@ export async function GET(_req: NextRequest) {
     }
 
     const tagsEnabled = await isTagsEnabled();
+    const access = await getProjectAccess(user);
 
-    const [projects, jobTypes, tags] = await Promise.all([
+    const [allProjects, jobTypes, tags] = await Promise.all([
       prisma.project.findMany({
         where: { companyId: company.id },
         select: {
@@ -60,6 +63,13 @@ export async function GET(_req: NextRequest) {
           hasQuantity: true,
           quantityLabel: true,
           defaultQuantity: true,
+          // Global presets plus this company's overrides — used by the
+          // recurring ticket form's output specs.
+          outputSizePresets: {
+            where: { isActive: true, OR: [{ companyId: null }, { companyId: company.id }] },
+            select: { id: true, label: true, width: true, height: true, unit: true },
+            orderBy: { sortOrder: "asc" },
+          },
         },
         orderBy: {
           name: "asc",
@@ -82,6 +92,9 @@ export async function GET(_req: NextRequest) {
         : Promise.resolve([]),
     ]);
 
+    // Only offer projects the user may file tickets in (not VIEWER, not hidden).
+    const projects = allProjects.filter((p) => canCreateTicketsInProject(access.roleFor(p.id)));
+
     return NextResponse.json(
       {
         companySlug: company.slug,
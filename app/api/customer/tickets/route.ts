@@ -2,9 +2,9 @@
 // @file: app/api/customer/tickets/route.ts
 // @purpose: Customer-facing ticket list & creation API (session-based company,
 //           with company/project-based auto-assign configuration)
-// @version: v1.8.0
+// @version: v1.11.0
 // @status: active
-// @lastUpdate: 2025-11-20
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
@@ -13,13 +13,23 @@ import { notifySiteOwnersOfEvent } from "@/lib/admin-event-email";
 import { getCurrentUserOrThrow } from "@/lib/auth";
 import { insufficientTokensResponse } from "@/lib/errors/insufficient-tokens";
 import { canCreateTickets } from "@/lib/permissions/companyRoles";
+import { getProjectAccess, getProjectRole } from "@/lib/permissions/projectAccess";
+import { canCreateTicketsInProject } from "@/lib/permissions/projectRoles";
 import { createNotification } from "@/lib/notifications";
 import { prisma } from "@/lib/prisma";
 import { resolveAssetUrl } from "@/lib/r2";
 import { parseBody } from "@/lib/schemas/helpers";
 import { createTicketSchema } from "@/lib/schemas/ticket.schemas";
+import { searchTicketIds } from "@/lib/search/full-text";
+import { parseSearchTerms } from "@/lib/search/query";
 import { buildTicketCode } from "@/lib/ticket-code";
 import { createCustomerTicket } from "@/lib/tickets/create-ticket";
+import {
+  CUSTOM_FIELD_FILTER_PREFIX,
+  customFieldFilterWhere,
+  listCustomFields,
+} from "@/lib/tickets/custom-fields";
+import { OPEN_BLOCKER_WHERE } from "@/lib/tickets/dependencies";
 import { getAiTicketsMode, isAiTicketsAllowed, isTagsEnabled } from "@/lib/feature-flags";
 import { isSiteAdminRole } from "@/lib/roles";
 
@@ -69,7 +79,9 @@ export async function GET(req: NextRequest) {
     const tagsEnabled = await isTagsEnabled();
 
     // ── Build where clause ──────────────────────────────────────────────
-    const where: any = { companyId: company.id };
+    // Restricted projects the user isn't a member of are hidden entirely.
+    const access = await getProjectAccess(user);
+    const where: any = { companyId: company.id, AND: [access.projectScopeWhere()] };
 
     if (status && ["TODO", "IN_PROGRESS", "IN_REVIEW", "DONE"].includes(status)) {
       where.status = status;
@@ -94,11 +106,25 @@ export async function GET(req: NextRequest) {
       where.tagAssignments = { some: { tagId } };
     }
 
+    // Custom field filters: ?cf_<fieldId>=value (see customFieldFilterWhere).
+    if ([...url.searchParams.keys()].some((k) => k.startsWith(CUSTOM_FIELD_FILTER_PREFIX))) {
+      where.AND.push(
+        ...customFieldFilterWhere(await listCustomFields(company.id), url.searchParams),
+      );
+    }
+
     if (search) {
+      // Substring match on names, plus full-text hits in the description.
+      // The where clause above already applies project scoping.
+      const fullTextIds = await searchTicketIds(
+        { kind: "CUSTOMER", companyId: company.id, projectIds: null },
+        parseSearchTerms(search),
+      );
       where.OR = [
         { title: { contains: search, mode: "insensitive" } },
         { project: { name: { contains: search, mode: "insensitive" } } },
         { jobType: { name: { contains: search, mode: "insensitive" } } },
+        ...(fullTextIds.length > 0 ? [{ id: { in: fullTextIds } }] : []),
       ];
     }
 
@@ -149,6 +175,7 @@ export async function GET(req: NextRequest) {
               },
             },
           },
+          _count: { select: { blockedBy: { where: OPEN_BLOCKER_WHERE } } },
         },
         orderBy,
         take: limit,
@@ -179,6 +206,9 @@ export async function GET(req: NextRequest) {
           projectName: t.project?.name ?? null,
           projectCode: t.project?.code ?? null,
           isAssigned: t.creativeId != null,
+          viewerProjectRole: access.roleFor(t.projectId),
+          openBlockerCount: t._count.blockedBy,
+          backlogRank: t.backlogRank,
           jobTypeId: t.jobType?.id ?? null,
           jobTypeName: t.jobType?.name ?? null,
           createdAt: t.createdAt.toISOString(),
@@ -247,6 +277,18 @@ export async function POST(req: NextRequest) {
     const parsed = await parseBody(req, createTicketSchema);
     if (!parsed.success) return parsed.response;
 
+    // CONTRIBUTORs can only file tickets in projects they belong to;
+    // VIEWERs can't file anywhere in the project.
+    if (parsed.data.projectId) {
+      const projectRole = await getProjectRole(user, parsed.data.projectId);
+      if (!canCreateTicketsInProject(projectRole)) {
+        return NextResponse.json(
+          { error: "You don't have permission to create tickets in this project." },
+          { status: 403 },
+        );
+      }
+    }
+
     // Guard "Work with AI" against the feature flag. Even if the form is
     // bypassed, a customer can't force AI mode while it's off (or test-only,
     // which is restricted to site admins).
@@ -280,6 +322,9 @@ export async function POST(req: NextRequest) {
         tagIds: tagsEnabledForCreate ? parsed.data.tagIds : [],
         creativeMode: parsed.data.creativeMode,
         moodboardId: parsed.data.moodboardId,
+        blockedByTicketIds: parsed.data.blockedByTicketIds,
+        outputSpecs: parsed.data.outputSpecs,
+        customFields: parsed.data.customFields,
       },
     });
 
@@ -294,7 +339,17 @@ export async function POST(req: NextRequest) {
           action: "this job",
         });
       }
-      // NO_REQUESTER, PROJECT_NOT_FOUND, JOB_TYPE_NOT_FOUND all map to 400.
+      if (outcome.code === "BLOCKED") {
+        return NextResponse.json({ error: outcome.message }, { status: 409 });
+      }
+      if (outcome.code === "INVALID_CUSTOM_FIELDS") {
+        return NextResponse.json(
+          { error: outcome.message, fieldId: outcome.fieldId },
+          { status: 400 },
+        );
+      }
+      // NO_REQUESTER, PROJECT_NOT_FOUND, JOB_TYPE_NOT_FOUND, BLOCKER_NOT_FOUND
+      // all map to 400.
       return NextResponse.json({ error: outcome.message }, { status: 400 });
     }
 
@@ -1,9 +1,9 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/customer/tickets/status/route.ts
 // @purpose: Update ticket status for customer board (kanban)
-// @version: v1.7.0
+// @version: v1.9.0
 // @status: active
-// @lastUpdate: 2025-11-24
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
@@ -16,7 +16,12 @@ import {
   normalizeCompanyRole,
 } from "@/lib/permissions/companyRoles";
 import { completeTicketAndApplyTokens } from "@/lib/token-engine";
-import { createNotification } from "@/lib/notifications";
+import { notifyTicketWatchers } from "@/lib/notifications";
+import { recordStatusEvent } from "@/lib/tickets/status-history";
+import { notifyUnblockedDependents } from "@/lib/tickets/dependencies";
+import { checkApprovalGate } from "@/lib/tickets/approvals";
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canMoveTicketsInProject, canViewProject } from "@/lib/permissions/projectRoles";
 
 type PatchPayload = {
   ticketId?: string;
@@ -91,6 +96,7 @@ export async function PATCH(req: NextRequest) {
         title: true,
         status: true,
         companyId: true,
+        projectId: true,
         creativeId: true,
         // jobType presence decides whether there's a payout to apply; the
         // completion engine loads its own copy for the actual math.
@@ -132,6 +138,18 @@ export async function PATCH(req: NextRequest) {
           { status: 403 },
         );
       }
+
+      // Project-level role: hidden projects 404, VIEWERs are read-only.
+      const projectRole = await getProjectRole(user, ticket.projectId);
+      if (!canViewProject(projectRole)) {
+        return NextResponse.json({ error: "Ticket not found." }, { status: 404 });
+      }
+      if (!canMoveTicketsInProject(projectRole)) {
+        return NextResponse.json(
+          { error: "You have read-only access to this project's tickets." },
+          { status: 403 },
+        );
+      }
     }
 
     // -------------------------------------------------------------------------
@@ -210,6 +228,16 @@ export async function PATCH(req: NextRequest) {
           { status: 403 },
         );
       }
+
+      // A company / project approval chain must be complete first — one
+      // eligible user can no longer close the ticket on everyone's behalf.
+      const gate = await checkApprovalGate(ticket);
+      if (!gate.ok) {
+        return NextResponse.json(
+          { error: gate.message, approvals: gate.approvals.state },
+          { status: 409 },
+        );
+      }
     }
 
     // -------------------------------------------------------------------------
@@ -270,11 +298,26 @@ export async function PATCH(req: NextRequest) {
       // AI / no-jobType tickets carry no token cost or payout — just flip the
       // status (the engine throws on a missing jobType).
       if (ticket.jobType) {
-        await completeTicketAndApplyTokens(ticket.id);
+        await completeTicketAndApplyTokens(ticket.id, {
+          actorId: user.id,
+          source: "CUSTOMER_BOARD",
+        });
       } else {
-        await prisma.ticket.update({
-          where: { id: ticket.id },
-          data: { status: TicketStatus.DONE },
+        await prisma.$transaction(async (tx) => {
+          await tx.ticket.update({
+            where: { id: ticket.id },
+            data: { status: TicketStatus.DONE },
+          });
+          await recordStatusEvent(
+            {
+              ticketId: ticket.id,
+              fromStatus: currentStatus,
+              toStatus: TicketStatus.DONE,
+              actorId: user.id,
+              source: "CUSTOMER_BOARD",
+            },
+            tx,
+          );
         });
       }
 
@@ -288,15 +331,18 @@ export async function PATCH(req: NextRequest) {
       // email, honoring their preferences). Fire-and-forget so the response
       // isn't blocked on the email pipeline. Previously the board-approve path
       // sent nothing, so creatives never heard their ticket was accepted.
-      if (ticket.creativeId) {
-        void createNotification({
-          userId: ticket.creativeId,
-          type: "TICKET_COMPLETED",
-          title: "Ticket approved",
-          message: `"${ticket.title}" was approved and marked done.`,
-          ticketId: ticket.id,
-        });
-      }
+      // Watchers hear about it too.
+      void notifyTicketWatchers({
+        recipientIds: [ticket.creativeId],
+        type: "TICKET_COMPLETED",
+        title: "Ticket approved",
+        message: `"${ticket.title}" was approved and marked done.`,
+        ticketId: ticket.id,
+        actorId: user.id,
+      });
+
+      // Tickets that were waiting on this one may be free to start now.
+      void notifyUnblockedDependents(ticket.id, user.id);
 
       return NextResponse.json(done, { status: 200 });
     }
@@ -334,9 +380,29 @@ export async function PATCH(req: NextRequest) {
         select: { id: true, status: true, updatedAt: true },
       });
 
+      await recordStatusEvent(
+        {
+          ticketId: ticket.id,
+          fromStatus: currentStatus,
+          toStatus: nextStatus,
+          actorId: user.id,
+          source: "CUSTOMER_BOARD",
+        },
+        tx,
+      );
+
       return updatedTicket;
     });
 
+    // Let the ticket's watchers know about the board move (fire-and-forget).
+    void notifyTicketWatchers({
+      type: "TICKET_STATUS_CHANGED",
+      title: "Ticket status updated",
+      message: `"${ticket.title}" was moved to ${nextStatus.replace("_", " ").toLowerCase()}`,
+      ticketId: ticket.id,
+      actorId: user.id,
+    });
+
     return NextResponse.json(updated, { status: 200 });
   } catch (error: any) {
     if ((error as any)?.code === "UNAUTHENTICATED") {
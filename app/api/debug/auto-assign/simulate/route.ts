@@ -0,0 +1,143 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/debug/auto-assign/simulate/route.ts
+// @purpose: SiteOwner / SiteAdmin dry run of auto-assign — "who would get
+//           this ticket right now, and why". Runs the same candidate funnel
+//           as ticket create (lib/tickets/assign-pipeline.ts) and returns
+//           every creative it considered without writing anything.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { TicketPriority } from "@prisma/client";
+import { z } from "zod";
+
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parseBody } from "@/lib/schemas/helpers";
+import { runAssignPipeline, ticketLoad } from "@/lib/tickets/assign-pipeline";
+import { resolveAssignStrategy } from "@/lib/tickets/assign-strategies";
+import { isAutoAssignEnabled } from "@/lib/tickets/auto-assign";
+
+const simulateSchema = z.object({
+  companyId: z.string().trim().min(1, "companyId is required."),
+  projectId: z.string().trim().min(1).nullable().optional(),
+  jobTypeId: z.string().trim().min(1).nullable().optional(),
+  quantity: z.number().int().min(1).max(100).optional().default(1),
+  priority: z.nativeEnum(TicketPriority).optional().default(TicketPriority.MEDIUM),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    if (user.role !== "SITE_OWNER" && user.role !== "SITE_ADMIN") {
+      return NextResponse.json(
+        { error: "Only site owners and admins can access this endpoint." },
+        { status: 403 },
+      );
+    }
+
+    const parsed = await parseBody(req, simulateSchema);
+    if (!parsed.success) return parsed.response;
+    const { companyId, projectId, jobTypeId, quantity, priority } = parsed.data;
+
+    const company = await prisma.company.findUnique({
+      where: { id: companyId },
+      select: { id: true, name: true, autoAssignDefaultEnabled: true, autoAssignStrategy: true },
+    });
+    if (!company) {
+      return NextResponse.json({ error: "Company not found" }, { status: 404 });
+    }
+
+    const project = projectId
+      ? await prisma.project.findFirst({
+          where: { id: projectId, companyId },
+          select: { id: true, name: true, autoAssignMode: true, autoAssignStrategy: true },
+        })
+      : null;
+    if (projectId && !project) {
+      return NextResponse.json({ error: "Project not found for this company" }, { status: 404 });
+    }
+
+    const jobType = jobTypeId
+      ? await prisma.jobType.findUnique({
+          where: { id: jobTypeId },
+          select: { id: true, name: true, tokenCost: true },
+        })
+      : null;
+    if (jobTypeId && !jobType) {
+      return NextResponse.json({ error: "Job type not found" }, { status: 404 });
+    }
+
+    const autoAssignEffective = isAutoAssignEnabled(
+      company.autoAssignDefaultEnabled,
+      project?.autoAssignMode ?? null,
+    );
+    const strategy = resolveAssignStrategy(company.autoAssignStrategy, project?.autoAssignStrategy);
+
+    const funnel = await runAssignPipeline(prisma, {
+      jobTypeId: jobType?.id ?? null,
+      companyId: company.id,
+      projectId: project?.id ?? null,
+      strategy,
+    });
+
+    const creatives = await prisma.userAccount.findMany({
+      where: { id: { in: funnel.candidates.map((c) => c.creativeId) } },
+      select: { id: true, name: true, email: true },
+    });
+    const creativeById = new Map(creatives.map((c) => [c.id, c]));
+
+    // What the new ticket itself would add to the picked creative's load.
+    const newTicketLoad = ticketLoad({ priority, tokenCost: jobType?.tokenCost, quantity });
+
+    const candidates = funnel.candidates
+      .map((c) => ({
+        ...c,
+        name: creativeById.get(c.creativeId)?.name ?? null,
+        email: creativeById.get(c.creativeId)?.email ?? null,
+        picked: c.creativeId === funnel.creativeId,
+        loadAfter: c.creativeId === funnel.creativeId ? c.load + newTicketLoad : null,
+      }))
+      // Eligible first (picked on top), excluded after, otherwise funnel order.
+      .sort(
+        (a, b) =>
+          Number(a.excludedBy !== null) - Number(b.excludedBy !== null) ||
+          Number(b.picked) - Number(a.picked),
+      );
+
+    const picked = candidates.find((c) => c.picked) ?? null;
+
+    return NextResponse.json(
+      {
+        company: { id: company.id, name: company.name },
+        project: project ? { id: project.id, name: project.name } : null,
+        jobType,
+        quantity,
+        priority,
+        autoAssignEffective,
+        strategy,
+        newTicketLoad,
+        skillFiltered: funnel.skillFiltered,
+        counts: funnel.counts,
+        fallbackMode: autoAssignEffective ? funnel.fallbackMode : "settings_disabled",
+        strategyFellBack: funnel.pick?.fellBack ?? false,
+        candidates,
+        pick: picked ? { creativeId: picked.creativeId, name: picked.name } : null,
+        // The funnel runs even with auto-assign off so admins can see who
+        // would get the ticket once it's switched on.
+        wouldAssign: autoAssignEffective && picked !== null,
+      },
+      { status: 200 },
+    );
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[debug.autoAssign.simulate] POST error", error);
+    return NextResponse.json({ error: "Failed to simulate auto-assign" }, { status: 500 });
+  }
+}
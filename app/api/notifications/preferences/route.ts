@@ -17,6 +17,13 @@ const VALID_TYPES: NotificationType[] = [
   "TICKET_ASSIGNED",
   "TICKET_STATUS_CHANGED",
   "PIN_RESOLVED",
+  "TICKET_UNBLOCKED",
+  "RECURRING_TICKET_SKIPPED",
+  "SLA_AT_RISK",
+  "SLA_BREACHED",
+  "MENTIONED",
+  "TICKET_COMMENTED",
+  "APPROVAL_REQUESTED",
 ];
 
 // ---------------------------------------------------------------------------
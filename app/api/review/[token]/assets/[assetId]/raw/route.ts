@@ -0,0 +1,69 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/review/[token]/assets/[assetId]/raw/route.ts
+// @purpose: Stream one of a guest review link's assets from R2. The guest
+//           counterpart of /api/assets/[assetId]/raw: access comes from the
+//           link (active, unlocked) and only the shared revision's assets
+//           are served.
+// -----------------------------------------------------------------------------
+
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+
+import { prisma } from "@/lib/prisma";
+import { createR2Client, getR2BucketName } from "@/lib/r2";
+import { GUEST_LINK_HTTP_STATUS, loadGuestLink } from "@/lib/tickets/guest-review";
+
+export async function GET(
+  req: NextRequest,
+  ctx: { params: Promise<{ token: string; assetId: string }> },
+) {
+  try {
+    const { token, assetId } = await ctx.params;
+
+    const lookup = await loadGuestLink(req, token);
+    if (!lookup.ok) {
+      return NextResponse.json(
+        { error: lookup.state },
+        { status: GUEST_LINK_HTTP_STATUS[lookup.state] },
+      );
+    }
+    if (!lookup.unlocked) {
+      return NextResponse.json({ error: "LOCKED" }, { status: GUEST_LINK_HTTP_STATUS.LOCKED });
+    }
+
+    const asset = await prisma.asset.findFirst({
+      where: { id: assetId, revisionId: lookup.link.revisionId, deletedAt: null },
+      select: { storageKey: true, mimeType: true },
+    });
+    if (!asset) {
+      return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
+    }
+
+    const r2 = createR2Client();
+    const obj = await r2.send(
+      new GetObjectCommand({ Bucket: getR2BucketName(), Key: asset.storageKey }),
+    );
+    if (!obj.Body) {
+      return NextResponse.json({ error: "EMPTY_OBJECT" }, { status: 502 });
+    }
+
+    const webStream = (obj.Body as any).transformToWebStream() as ReadableStream;
+
+    const headers: Record<string, string> = {
+      "Content-Type": asset.mimeType || obj.ContentType || "application/octet-stream",
+      "Content-Disposition": "inline",
+      // Private and short: revoking the link should cut access quickly.
+      "Cache-Control": "private, max-age=60",
+    };
+    if (typeof obj.ContentLength === "number") {
+      headers["Content-Length"] = String(obj.ContentLength);
+    }
+
+    return new Response(webStream, { status: 200, headers });
+  } catch (err) {
+    console.error("[review/:token/assets/:assetId/raw] error:", err);
+    return NextResponse.json({ error: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
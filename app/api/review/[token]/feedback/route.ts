@@ -0,0 +1,123 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/review/[token]/feedback/route.ts
+// @purpose: A guest leaves a pin (on one of the shared revision's assets) or
+//           a general comment. Stored as PENDING guest feedback for the
+//           company to accept or dismiss; the sharer and the ticket's
+//           creator are notified. Rate-limited and audit-logged.
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { createNotification } from "@/lib/notifications";
+import { prisma } from "@/lib/prisma";
+import { getClientIp, rateLimit } from "@/lib/rate-limit";
+import { parseBody } from "@/lib/schemas/helpers";
+import { createGuestFeedbackSchema } from "@/lib/schemas/guest-review.schemas";
+import {
+  GUEST_LINK_HTTP_STATUS,
+  loadGuestLink,
+  logGuestReviewEvent,
+} from "@/lib/tickets/guest-review";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+    const ip = getClientIp(req.headers);
+
+    const ipBucket = await rateLimit(`guest-review-feedback:ip:${ip}`, {
+      limit: 30,
+      windowSeconds: 60,
+    });
+    const tokenBucket = await rateLimit(`guest-review-feedback:token:${token}`, {
+      limit: 100,
+      windowSeconds: 60 * 60,
+    });
+    if (!ipBucket.allowed || !tokenBucket.allowed) {
+      return NextResponse.json(
+        { error: "Too much feedback at once. Please wait a minute." },
+        { status: 429 },
+      );
+    }
+
+    const lookup = await loadGuestLink(req, token);
+    if (!lookup.ok) {
+      return NextResponse.json(
+        { state: lookup.state },
+        { status: GUEST_LINK_HTTP_STATUS[lookup.state] },
+      );
+    }
+    if (!lookup.unlocked) {
+      return NextResponse.json({ state: "LOCKED" }, { status: GUEST_LINK_HTTP_STATUS.LOCKED });
+    }
+    const { link } = lookup;
+
+    const parsed = await parseBody(req, createGuestFeedbackSchema);
+    if (!parsed.success) return parsed.response;
+    const { guestName, message, assetId, x, y, page } = parsed.data;
+
+    if (assetId) {
+      const asset = await prisma.asset.findFirst({
+        where: { id: assetId, revisionId: link.revisionId, deletedAt: null },
+        select: { id: true },
+      });
+      if (!asset) {
+        return NextResponse.json(
+          { error: "That file isn't part of this review." },
+          { status: 400 },
+        );
+      }
+    }
+
+    const created = await prisma.guestReviewFeedback.create({
+      data: {
+        linkId: link.id,
+        guestName,
+        message,
+        assetId: assetId ?? null,
+        x: assetId ? x : null,
+        y: assetId ? y : null,
+        page: assetId ? page : 1,
+      },
+      select: {
+        id: true,
+        guestName: true,
+        message: true,
+        assetId: true,
+        x: true,
+        y: true,
+        page: true,
+        status: true,
+        createdAt: true,
+      },
+    });
+
+    await logGuestReviewEvent({
+      linkId: link.id,
+      action: "FEEDBACK_ADDED",
+      guestName,
+      feedbackId: created.id,
+      req,
+    });
+
+    for (const userId of new Set([link.createdById, link.ticket.createdById])) {
+      void createNotification({
+        userId,
+        type: "TICKET_COMMENTED",
+        title: "Guest feedback to review",
+        message: `${guestName} left ${assetId ? "a pin" : "a comment"} on "${link.ticket.title}"`,
+        ticketId: link.ticketId,
+      });
+    }
+
+    return NextResponse.json(
+      { feedback: { ...created, createdAt: created.createdAt.toISOString() } },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("[review/:token/feedback] POST error", error);
+    return NextResponse.json({ error: "Failed to send your feedback." }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/review/[token]/route.ts
+// @purpose: Public read of a guest review link — the shared revision, its
+//           assets and the feedback already left through this link.
+//
+//           Anonymous endpoint. Knowledge of the token is the auth, plus the
+//           unlock cookie when the link has a password (see
+//           lib/tickets/guest-review.ts). Unusable links answer with a
+//           `state` the page renders: INVALID / EXPIRED / REVOKED / LOCKED.
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import {
+  GUEST_LINK_HTTP_STATUS,
+  loadGuestLink,
+  logGuestReviewEvent,
+} from "@/lib/tickets/guest-review";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Repeat page loads within this window count as one VIEWED event. */
+const VIEW_LOG_INTERVAL_MS = 30 * 60 * 1000;
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+    const lookup = await loadGuestLink(req, token);
+    if (!lookup.ok) {
+      return NextResponse.json(
+        { state: lookup.state },
+        { status: GUEST_LINK_HTTP_STATUS[lookup.state] },
+      );
+    }
+    if (!lookup.unlocked) {
+      return NextResponse.json({ state: "LOCKED" }, { status: GUEST_LINK_HTTP_STATUS.LOCKED });
+    }
+
+    const { link } = lookup;
+    const [revision, feedback, meta] = await Promise.all([
+      prisma.ticketRevision.findUnique({
+        where: { id: link.revisionId },
+        select: {
+          version: true,
+          submittedAt: true,
+          creativeMessage: true,
+          assets: {
+            where: { deletedAt: null },
+            orderBy: { createdAt: "asc" },
+            select: { id: true, mimeType: true, width: true, height: true, originalName: true },
+          },
+        },
+      }),
+      prisma.guestReviewFeedback.findMany({
+        where: { linkId: link.id },
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          guestName: true,
+          message: true,
+          assetId: true,
+          x: true,
+          y: true,
+          page: true,
+          status: true,
+          createdAt: true,
+        },
+      }),
+      prisma.guestReviewLink.findUnique({
+        where: { id: link.id },
+        select: {
+          label: true,
+          lastViewedAt: true,
+          ticket: { select: { company: { select: { name: true } } } },
+        },
+      }),
+    ]);
+
+    if (!revision) {
+      return NextResponse.json({ state: "INVALID" }, { status: GUEST_LINK_HTTP_STATUS.INVALID });
+    }
+
+    const now = new Date();
+    if (!meta?.lastViewedAt || now.getTime() - meta.lastViewedAt.getTime() > VIEW_LOG_INTERVAL_MS) {
+      await prisma.guestReviewLink.update({
+        where: { id: link.id },
+        data: { lastViewedAt: now },
+      });
+      await logGuestReviewEvent({ linkId: link.id, action: "VIEWED", req });
+    }
+
+    return NextResponse.json({
+      state: "OPEN",
+      companyName: meta?.ticket.company?.name ?? null,
+      ticketTitle: link.ticket.title,
+      label: meta?.label ?? null,
+      expiresAt: link.expiresAt.toISOString(),
+      revision: {
+        version: revision.version,
+        submittedAt: revision.submittedAt.toISOString(),
+        creativeMessage: revision.creativeMessage,
+      },
+      assets: revision.assets,
+      feedback: feedback.map((f) => ({ ...f, createdAt: f.createdAt.toISOString() })),
+    });
+  } catch (error) {
+    console.error("[review/:token] GET error", error);
+    return NextResponse.json({ error: "Failed to load this review." }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/review/[token]/unlock/route.ts
+// @purpose: Password check for a protected guest review link. A correct
+//           password sets the link's httpOnly unlock cookie until the link
+//           expires; every attempt, right or wrong, is audit-logged.
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getClientIp, rateLimit } from "@/lib/rate-limit";
+import { parseBody } from "@/lib/schemas/helpers";
+import { unlockGuestReviewSchema } from "@/lib/schemas/guest-review.schemas";
+import {
+  GUEST_LINK_HTTP_STATUS,
+  guestAccessCookieName,
+  guestAccessKey,
+  loadGuestLink,
+  logGuestReviewEvent,
+  verifyGuestPassword,
+} from "@/lib/tickets/guest-review";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+    const ip = getClientIp(req.headers);
+
+    // Per-IP and per-link, so guessing can't be spread across either.
+    const ipBucket = await rateLimit(`guest-review-unlock:ip:${ip}`, {
+      limit: 10,
+      windowSeconds: 60,
+    });
+    const tokenBucket = await rateLimit(`guest-review-unlock:token:${token}`, {
+      limit: 20,
+      windowSeconds: 15 * 60,
+    });
+    if (!ipBucket.allowed || !tokenBucket.allowed) {
+      return NextResponse.json(
+        { error: "Too many attempts. Please wait a few minutes." },
+        { status: 429 },
+      );
+    }
+
+    const lookup = await loadGuestLink(req, token);
+    if (!lookup.ok) {
+      return NextResponse.json(
+        { state: lookup.state },
+        { status: GUEST_LINK_HTTP_STATUS[lookup.state] },
+      );
+    }
+    const { link } = lookup;
+    if (!link.passwordHash) {
+      return NextResponse.json({ ok: true });
+    }
+
+    const parsed = await parseBody(req, unlockGuestReviewSchema);
+    if (!parsed.success) return parsed.response;
+
+    const valid = await verifyGuestPassword(parsed.data.password, link.passwordHash);
+    await logGuestReviewEvent({
+      linkId: link.id,
+      action: valid ? "UNLOCKED" : "PASSWORD_FAILED",
+      req,
+    });
+    if (!valid) {
+      return NextResponse.json({ error: "That password isn't right." }, { status: 401 });
+    }
+
+    const res = NextResponse.json({ ok: true });
+    res.cookies.set(guestAccessCookieName(link.id), guestAccessKey(link), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      expires: link.expiresAt,
+    });
+    return res;
+  } catch (error) {
+    console.error("[review/:token/unlock] POST error", error);
+    return NextResponse.json({ error: "Failed to unlock this review." }, { status: 500 });
+  }
+}
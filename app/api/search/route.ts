@@ -0,0 +1,66 @@
+// -----------------------------------------------------------------------------
+// @file: app/api/search/route.ts
+// @purpose: Global full-text search across tickets, comments, revision
+//           messages, pin comments and file names. Customers search their
+//           active company, creatives their assigned tickets, site admins
+//           everything.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserOrThrow } from "@/lib/auth";
+import { parseSearchKinds, parseSearchTerms } from "@/lib/search/query";
+import { resolveSearchScope, searchAll } from "@/lib/search/full-text";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// ---------------------------------------------------------------------------
+// GET — Ranked hits for ?q=, optionally narrowed with
+// ?types=ticket,comment,revision,pin_comment,asset and paged with
+// ?limit= / ?offset=
+// ---------------------------------------------------------------------------
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUserOrThrow();
+
+    const scope = await resolveSearchScope(user);
+    if (!scope) {
+      return NextResponse.json(
+        { error: "Search is not available for this account." },
+        { status: 403 },
+      );
+    }
+
+    const params = req.nextUrl.searchParams;
+    const terms = parseSearchTerms(params.get("q") ?? "");
+    if (terms.length === 0) {
+      return NextResponse.json({ results: [], hasMore: false }, { status: 200 });
+    }
+
+    const rawLimit = parseInt(params.get("limit") ?? "", 10);
+    const limit = Number.isFinite(rawLimit)
+      ? Math.min(Math.max(rawLimit, 1), MAX_LIMIT)
+      : DEFAULT_LIMIT;
+    const rawOffset = parseInt(params.get("offset") ?? "", 10);
+    const offset = Number.isFinite(rawOffset) && rawOffset > 0 ? rawOffset : 0;
+
+    const { results, hasMore } = await searchAll(scope, terms, {
+      kinds: parseSearchKinds(params.get("types")),
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({ results, hasMore }, { status: 200 });
+  } catch (error: any) {
+    if (error?.code === "UNAUTHENTICATED") {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+
+    console.error("[search] GET error", error);
+    return NextResponse.json({ error: "Search failed." }, { status: 500 });
+  }
+}
@@ -1,14 +1,16 @@
 // -----------------------------------------------------------------------------
 // @file: app/api/tickets/[id]/complete/route.ts
 // @purpose: Completes a ticket and applies token movements (company debit + creative credit)
-// @version: v1.0.0
-// @lastUpdate: 2025-11-13
+// @version: v1.1.0
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextResponse } from "next/server";
 import { completeTicketAndApplyTokens } from "@/lib/token-engine";
 import { prisma } from "@/lib/prisma";
-import { createNotification } from "@/lib/notifications";
+import { notifyTicketWatchers } from "@/lib/notifications";
+import { notifyUnblockedDependents } from "@/lib/tickets/dependencies";
+import { checkApprovalGate } from "@/lib/tickets/approvals";
 import { getCurrentUserOrThrow } from "@/lib/auth";
 import { isSiteAdminRole } from "@/lib/roles";
 
@@ -20,6 +22,8 @@ import { isSiteAdminRole } from "@/lib/roles";
  * endpoint mints a creative payout, so it must never be reachable
  * unauthenticated. (Customer-side completion goes through
  * /api/customer/tickets/status, which enforces the board state machine.)
+ * Both paths refuse with 409 until the ticket's approval chain, if any, is
+ * satisfied.
  */
 export async function POST(_request: Request, context: { params: Promise<{ id: string }> }) {
   const { id: ticketId } = await context.params;
@@ -33,7 +37,7 @@ export async function POST(_request: Request, context: { params: Promise<{ id: s
 
     const authTicket = await prisma.ticket.findUnique({
       where: { id: ticketId },
-      select: { creativeId: true },
+      select: { id: true, companyId: true, projectId: true, creativeId: true },
     });
     if (!authTicket) {
       return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
@@ -45,7 +49,18 @@ export async function POST(_request: Request, context: { params: Promise<{ id: s
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    const result = await completeTicketAndApplyTokens(ticketId);
+    const gate = await checkApprovalGate(authTicket);
+    if (!gate.ok) {
+      return NextResponse.json(
+        { error: gate.message, approvals: gate.approvals.state },
+        { status: 409 },
+      );
+    }
+
+    const result = await completeTicketAndApplyTokens(ticketId, {
+      actorId: user.id,
+      source: "COMPLETE_ENDPOINT",
+    });
 
     if (result.alreadyCompleted) {
       return NextResponse.json(
@@ -64,23 +79,15 @@ export async function POST(_request: Request, context: { params: Promise<{ id: s
       select: { title: true, createdById: true, creativeId: true },
     });
     if (ticketMeta) {
-      if (ticketMeta.creativeId) {
-        createNotification({
-          userId: ticketMeta.creativeId,
-          type: "TICKET_COMPLETED",
-          title: "Ticket completed",
-          message: `"${ticketMeta.title}" has been marked as done`,
-          ticketId,
-        });
-      }
-      createNotification({
-        userId: ticketMeta.createdById,
+      void notifyTicketWatchers({
+        recipientIds: [ticketMeta.creativeId, ticketMeta.createdById],
         type: "TICKET_COMPLETED",
         title: "Ticket completed",
         message: `"${ticketMeta.title}" has been marked as done`,
         ticketId,
       });
     }
+    void notifyUnblockedDependents(ticketId, user.id);
 
     return NextResponse.json(
       {
@@ -3,9 +3,9 @@
 // @purpose: Server-side file upload proxy — receives file via FormData,
 //           uploads to R2, registers asset in DB, returns asset record.
 //           Bypasses browser CORS issues with direct R2 presigned PUT.
-// @version: v1.0.0
+// @version: v1.1.0
 // @status: active
-// @lastUpdate: 2026-02-22
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 export const runtime = "nodejs";
@@ -16,6 +16,7 @@ import { AssetKind } from "@prisma/client";
 
 import { prisma } from "@/lib/prisma";
 import { getCurrentUserOrThrow } from "@/lib/auth";
+import { carryOverOpenPins } from "@/lib/tickets/pin-carry-over";
 import { createR2Client, getR2BucketName, getR2PublicBaseUrl } from "@/lib/r2";
 import { resolveAssetUrl } from "@/lib/r2";
 import { isCompanyAdminRole } from "@/lib/permissions/companyRoles";
@@ -238,6 +239,16 @@ export async function POST(req: Request) {
       },
     });
 
+    // Carry the previous revision's OPEN pins onto this file if it matches
+    // one of the old ones. Best effort — the upload itself already succeeded.
+    if (kind === "OUTPUT_IMAGE" && revisionId) {
+      try {
+        await carryOverOpenPins(prisma, { ticketId, revisionId });
+      } catch (err) {
+        console.error("[r2/upload] pin carry-over failed:", err);
+      }
+    }
+
     // Ensure the returned URL is always displayable
     const resolvedUrl = asset.url ?? (await resolveAssetUrl(storageKey, null));
 
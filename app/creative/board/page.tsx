@@ -1,10 +1,12 @@
 // -----------------------------------------------------------------------------
 // @file: app/creative/board/page.tsx
 // @purpose: Creative-facing kanban board for assigned tickets with revision
-//           indicators, filters, notes, toasts, and Figma redesign
-// @version: v2.0.0
+//           indicators, filters, notes, toasts, and Figma redesign; To do
+//           column follows the client's ranked backlog; decline a To do
+//           assignment with a reason
+// @version: v2.2.0
 // @status: active
-// @lastUpdate: 2025-12-27
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 "use client";
@@ -48,6 +50,7 @@ import {
   isDueDateOverdue,
   formatDueDateCountdown,
   BOARD_COLUMN_HEADER,
+  compareBacklog,
 } from "@/lib/board";
 import type { TicketStatus, TicketPriority } from "@/lib/board";
 
@@ -59,6 +62,7 @@ type CreativeTicket = {
   priority: TicketPriority;
   dueDate: string | null;
   companyTicketNumber: number | null;
+  backlogRank: number | null;
   createdAt: string;
   updatedAt: string;
   company: {
@@ -166,6 +170,11 @@ export default function CreativeBoardPage() {
   const [reviewUploading, setReviewUploading] = useState(false);
   const [reviewUploadProgress, setReviewUploadProgress] = useState<string | null>(null);
   const reviewFileInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Decline modal state (hand a TODO assignment back to auto-assign)
+  const [declineTicket, setDeclineTicket] = useState<CreativeTicket | null>(null);
+  const [declineReason, setDeclineReason] = useState<string>("");
+  const [declining, setDeclining] = useState(false);
   const searchRef = useRef<HTMLInputElement>(null);
   const MAX_REVIEW_FILES = 10;
 
@@ -591,6 +600,9 @@ export default function CreativeBoardPage() {
       map[t.status].push(t);
     });
 
+    // Work the To do column in the order the client ranked it.
+    map.TODO.sort(compareBacklog);
+
     return map;
   }, [filteredTickets]);
 
@@ -916,6 +928,51 @@ export default function CreativeBoardPage() {
     setDetailBriefAssetsLoading(false);
   };
 
+  const closeDeclineModal = () => {
+    if (declining) return;
+    setDeclineTicket(null);
+    setDeclineReason("");
+  };
+
+  const handleConfirmDecline = async () => {
+    if (!declineTicket || !declineReason.trim()) return;
+    setDeclining(true);
+    try {
+      const res = await fetch(`/api/creative/tickets/${declineTicket.id}/decline`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: declineReason.trim() }),
+      });
+      const json = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        throw new Error(json?.error || `Request failed with status ${res.status}`);
+      }
+
+      const declinedId = declineTicket.id;
+      setData((prev) =>
+        prev ? { ...prev, tickets: prev.tickets.filter((t) => t.id !== declinedId) } : prev,
+      );
+      setDeclineTicket(null);
+      setDeclineReason("");
+      showToast({
+        type: "success",
+        title: "Ticket declined",
+        description: json?.reassigned
+          ? "It has been handed to another creative."
+          : "Our team will find another creative for it.",
+      });
+    } catch (err: unknown) {
+      showToast({
+        type: "error",
+        title: "Could not decline ticket",
+        description: err instanceof Error ? err.message : "Please try again.",
+      });
+    } finally {
+      setDeclining(false);
+    }
+  };
+
   const closeReviewModal = () => {
     if (reviewUploading) return; // prevent close during upload
     setReviewModal(null);
@@ -1995,6 +2052,20 @@ export default function CreativeBoardPage() {
             </div>
 
             {/* Quick actions footer */}
+            {detailTicket.status === "TODO" && (
+              <ModalFooter className="shrink-0 border-t border-[var(--bb-border-subtle)] pt-3">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => {
+                    closeTicketDetails();
+                    setDeclineTicket(detailTicket);
+                  }}
+                >
+                  Decline ticket
+                </Button>
+              </ModalFooter>
+            )}
             {detailTicket.status === "IN_PROGRESS" && (
               <ModalFooter className="shrink-0 border-t border-[var(--bb-border-subtle)] pt-3">
                 <Button
@@ -2026,6 +2097,41 @@ export default function CreativeBoardPage() {
         )}
       </Modal>
 
+      {/* Decline modal (reason is shared with the admins) */}
+      <Modal open={!!declineTicket} onClose={closeDeclineModal} size="md">
+        <ModalHeader
+          eyebrow="Decline ticket"
+          title={declineTicket?.title ?? ""}
+          subtitle="The ticket goes back to auto-assign and won't be routed to you again."
+        />
+
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-[var(--bb-secondary)]">Reason</label>
+          <textarea
+            value={declineReason}
+            onChange={(e) => setDeclineReason(e.target.value)}
+            rows={3}
+            maxLength={1000}
+            disabled={declining}
+            placeholder="e.g. Outside my skill set, or no capacity before the due date."
+            className="w-full rounded-xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-3 py-2.5 text-xs text-[var(--bb-secondary)] outline-none placeholder:text-[var(--bb-text-muted)] focus:border-[var(--bb-primary)] focus:ring-1 focus:ring-[var(--bb-primary)] disabled:opacity-50"
+          />
+        </div>
+
+        <ModalFooter>
+          <Button variant="secondary" size="sm" onClick={closeDeclineModal} disabled={declining}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleConfirmDecline}
+            disabled={declining || !declineReason.trim()}
+          >
+            {declining ? "Declining..." : "Decline ticket"}
+          </Button>
+        </ModalFooter>
+      </Modal>
+
       {/* Upload work modal (file upload + creative note) */}
       <Modal open={!!reviewModal} onClose={closeReviewModal} size="xl" scrollable>
         <ModalHeader
@@ -1,9 +1,10 @@
 // -----------------------------------------------------------------------------
 // @file: app/creative/page.tsx
-// @purpose: Creative-facing overview dashboard (tokens + tickets + withdrawals)
-// @version: v2.0.0
+// @purpose: Creative-facing overview dashboard (tokens + tickets + withdrawals
+//           + available-work queue)
+// @version: v2.1.0
 // @status: active
-// @lastUpdate: 2025-11-25
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 "use client";
@@ -15,6 +16,7 @@ import { isDueDateOverdue, isDueDateSoon, formatDueDateCountdown } from "@/lib/b
 import { InlineAlert } from "@/components/ui/inline-alert";
 import { LoadingState } from "@/components/ui/loading-state";
 import { PauseBanner } from "@/components/creative/pause-banner";
+import { AvailableWorkPanel } from "@/components/creative/available-work-panel";
 import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis, Cell } from "recharts";
 
 type TicketStatus = "TODO" | "IN_PROGRESS" | "IN_REVIEW" | "DONE";
@@ -188,6 +190,8 @@ const PRIORITY_ORDER: TicketPriority[] = ["URGENT", "HIGH", "MEDIUM", "LOW"];
 
 export default function CreativeDashboardPage() {
   const [state, setState] = useState<DashboardState>({ status: "loading" });
+  // Bumped after a claim so the stats and deadlines pick up the new ticket.
+  const [reloadKey, setReloadKey] = useState(0);
 
   useEffect(() => {
     let cancelled = false;
@@ -265,7 +269,7 @@ export default function CreativeDashboardPage() {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [reloadKey]);
 
   const isLoading = state.status === "loading";
   const isError = state.status === "error";
@@ -688,6 +692,9 @@ export default function CreativeDashboardPage() {
             </div>
           )}
 
+          {/* Row 2.4: Claimable unassigned tickets */}
+          <AvailableWorkPanel onClaimed={() => setReloadKey((k) => k + 1)} />
+
           {/* Row 2.5: Upcoming deadlines */}
           {creativeTickets.length > 0 && (
             <section className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-5 py-5 shadow-sm">
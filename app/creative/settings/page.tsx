@@ -50,11 +50,36 @@ const CREATIVE_PREFS: {
     label: "Customer submitted feedback",
     description: "Get notified when a customer submits revision notes on your work",
   },
+  {
+    type: "MENTIONED",
+    label: "Mentioned in a comment",
+    description: "Get notified when someone @mentions you in a ticket comment",
+  },
+  {
+    type: "TICKET_COMMENTED",
+    label: "New comment on a watched ticket",
+    description: "Get notified when someone comments on a ticket you're watching",
+  },
   {
     type: "TICKET_ASSIGNED",
     label: "New ticket assigned",
     description: "Get notified when a new ticket is assigned to you",
   },
+  {
+    type: "TICKET_UNBLOCKED",
+    label: "Ticket unblocked",
+    description: "Get notified when a blocked ticket assigned to you can be started",
+  },
+  {
+    type: "SLA_AT_RISK",
+    label: "SLA at risk",
+    description: "Get notified when one of your tickets has a quarter of its SLA target left",
+  },
+  {
+    type: "SLA_BREACHED",
+    label: "SLA breached",
+    description: "Get notified when one of your tickets passes its SLA target",
+  },
   {
     type: "TICKET_STATUS_CHANGED",
     label: "Ticket status changed",
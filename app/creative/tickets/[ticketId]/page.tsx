@@ -1,9 +1,10 @@
 // -----------------------------------------------------------------------------
 // @file: app/creative/tickets/[ticketId]/page.tsx
-// @purpose: Creative-facing ticket detail with comments + revision history
-// @version: v1.1.0
+// @purpose: Creative-facing ticket detail with comments, internal notes,
+//           company custom fields + revision history
+// @version: v1.5.0
 // @status: active
-// @lastUpdate: 2025-12-26
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 "use client";
@@ -13,7 +14,6 @@ import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { buildTicketCode } from "@/lib/ticket-code";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { FormTextarea } from "@/components/ui/form-field";
 import { SafeHtml } from "@/components/ui/safe-html";
 import { InlineAlert } from "@/components/ui/inline-alert";
 import { EmptyState } from "@/components/ui/empty-state";
@@ -35,6 +35,14 @@ import {
 import { formatBytes } from "@/lib/upload-helpers";
 import { RevisionCompare } from "@/components/ui/revision-compare";
 import { TimeTrackingPanel } from "@/components/creative/time-tracking-panel";
+import { CommentBody, MentionTextarea } from "@/components/tickets/mention-textarea";
+import { WatchToggle } from "@/components/tickets/watch-toggle";
+import { InternalNotesPanel } from "@/components/tickets/internal-notes-panel";
+import {
+  CustomFieldList,
+  type TicketCustomFieldEntry,
+} from "@/components/tickets/custom-field-inputs";
+import type { MentionCandidate, MentionTarget } from "@/lib/tickets/comment-mentions";
 
 type TicketStatus = "TODO" | "IN_PROGRESS" | "IN_REVIEW" | "DONE";
 type TicketPriority = "LOW" | "MEDIUM" | "HIGH" | "URGENT";
@@ -89,6 +97,8 @@ type TicketDetailResponse = {
       name: string | null;
       email: string;
     } | null;
+    /** Company custom fields the customer filled in. */
+    customFields: TicketCustomFieldEntry[];
   };
 };
 
@@ -107,6 +117,8 @@ type TicketComment = {
     email: string;
     role: string;
   };
+  mentions?: MentionTarget[];
+  isInternal?: boolean;
 };
 
 type RevisionAsset = {
@@ -145,6 +157,10 @@ export default function CreativeTicketDetailPage() {
   const [commentsLoading, setCommentsLoading] = useState(false);
   const [commentsError, setCommentsError] = useState<string | null>(null);
   const [newComment, setNewComment] = useState("");
+  const [mentionCandidates, setMentionCandidates] = useState<MentionCandidate[]>([]);
+  const [internalMentionCandidates, setInternalMentionCandidates] = useState<MentionCandidate[]>(
+    [],
+  );
   const [submittingComment, setSubmittingComment] = useState(false);
 
   const [revisions, setRevisions] = useState<TicketRevisionItem[] | null>(null);
@@ -241,6 +257,10 @@ export default function CreativeTicketDetailPage() {
 
         if (!cancelled) {
           setComments((json?.comments as TicketComment[]) ?? []);
+          setMentionCandidates((json?.mentionCandidates as MentionCandidate[]) ?? []);
+          setInternalMentionCandidates(
+            (json?.internalMentionCandidates as MentionCandidate[]) ?? [],
+          );
         }
       } catch (err) {
         console.error("Creative ticket comments fetch error:", err);
@@ -366,6 +386,10 @@ export default function CreativeTicketDetailPage() {
     });
   }, [ticket]);
 
+  // One fetch feeds both threads; internal notes render in their own panel.
+  const customerComments = useMemo(() => (comments ?? []).filter((c) => !c.isInternal), [comments]);
+  const internalNotes = useMemo(() => (comments ?? []).filter((c) => c.isInternal), [comments]);
+
   const handleSubmitComment = async () => {
     if (!ticketIdFromData) return;
     const trimmed = newComment.trim();
@@ -446,6 +470,7 @@ export default function CreativeTicketDetailPage() {
             <Badge variant={priorityBadgeVariant(ticket.priority)}>
               {formatPriorityLabel(ticket.priority)}
             </Badge>
+            <WatchToggle apiBase={`/api/creative/tickets/${ticket.id}`} />
           </div>
         )}
       </div>
@@ -633,6 +658,17 @@ export default function CreativeTicketDetailPage() {
                   </p>
                 </div>
               </div>
+
+              {ticket.customFields?.length > 0 && (
+                <div className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-4 py-3 shadow-sm">
+                  <h3 className="text-xs font-semibold tracking-[0.18em] text-[var(--bb-text-muted)] uppercase">
+                    Details
+                  </h3>
+                  <div className="mt-2">
+                    <CustomFieldList fields={ticket.customFields} />
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Brief attachments */}
@@ -831,7 +867,7 @@ export default function CreativeTicketDetailPage() {
                 {commentsLoading && (
                   <p className="text-xs text-[var(--bb-text-tertiary)]">Loading comments…</p>
                 )}
-                {!commentsLoading && !commentsError && (comments?.length ?? 0) === 0 && (
+                {!commentsLoading && !commentsError && customerComments.length === 0 && (
                   <EmptyState
                     title="No comments yet."
                     description="Use the form below to coordinate with the customer or Brandbite team."
@@ -839,8 +875,8 @@ export default function CreativeTicketDetailPage() {
                 )}
                 {!commentsLoading &&
                   !commentsError &&
-                  (comments?.length ?? 0) > 0 &&
-                  comments!.map((c) => (
+                  customerComments.length > 0 &&
+                  customerComments.map((c) => (
                     <div key={c.id} className="rounded-lg bg-[var(--bb-bg-card)] px-3 py-2 text-xs">
                       <div className="mb-1 flex items-center justify-between">
                         <span className="font-semibold text-[var(--bb-secondary)]">
@@ -850,7 +886,11 @@ export default function CreativeTicketDetailPage() {
                           {formatDateTime(c.createdAt)}
                         </span>
                       </div>
-                      <p className="whitespace-pre-wrap text-[var(--bb-secondary)]">{c.body}</p>
+                      <CommentBody
+                        body={c.body}
+                        mentions={c.mentions ?? []}
+                        className="text-[var(--bb-secondary)]"
+                      />
                     </div>
                   ))}
               </div>
@@ -859,11 +899,13 @@ export default function CreativeTicketDetailPage() {
                 <label className="mb-1 block text-xs font-medium text-[var(--bb-secondary)]">
                   Add a comment
                 </label>
-                <FormTextarea
+                <MentionTextarea
                   value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
+                  onChange={setNewComment}
+                  candidates={mentionCandidates}
                   rows={3}
-                  placeholder="Share updates, questions, or next steps with the customer."
+                  placeholder="Share updates, questions, or next steps. Type @ to mention someone."
+                  className="w-full rounded-md border border-[var(--bb-border-input)] bg-[var(--bb-bg-page)] px-3 py-2 text-sm text-[var(--bb-secondary)] outline-none focus:border-[var(--bb-primary)] focus:ring-1 focus:ring-[var(--bb-primary)]"
                 />
                 <div className="mt-2 flex items-center justify-between">
                   <p className="text-xs text-[var(--bb-text-tertiary)]">
@@ -882,6 +924,20 @@ export default function CreativeTicketDetailPage() {
               </div>
             </div>
 
+            {comments && ticketIdFromData && (
+              <InternalNotesPanel
+                notes={internalNotes}
+                candidates={internalMentionCandidates}
+                postUrl={`/api/creative/tickets/${ticketIdFromData}/comments`}
+                onAdded={(note) =>
+                  setComments((prev) => [
+                    ...(prev ?? []),
+                    { ...note, isInternal: true } as TicketComment,
+                  ])
+                }
+              />
+            )}
+
             <div className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-4 py-3 shadow-sm">
               <h3 className="text-xs font-semibold tracking-[0.18em] text-[var(--bb-text-muted)] uppercase">
                 People
@@ -0,0 +1,412 @@
+// -----------------------------------------------------------------------------
+// @file: app/customer/archive/page.tsx
+// @purpose: Customer ticket archive — cancelled tickets and long-completed
+//           ones, searchable, with their refund ledger rows and files.
+//           Owners / PMs can restore a cancelled ticket to To do, which
+//           debits its tokens again when the balance covers them.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { BoardViewToggle } from "@/components/board/board-view-toggle";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { EmptyState } from "@/components/ui/empty-state";
+import { FormInput, FormSelect } from "@/components/ui/form-field";
+import { InlineAlert } from "@/components/ui/inline-alert";
+import { LoadingState } from "@/components/ui/loading-state";
+import { useToast } from "@/components/ui/toast-provider";
+import { formatDateTime, statusBadgeVariant, STATUS_LABELS } from "@/lib/board";
+import type { TicketStatus } from "@/lib/board";
+import { isInsufficientTokensBody } from "@/lib/errors/insufficient-tokens";
+import { formatBytes } from "@/lib/upload-helpers";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type ArchiveFilter = "all" | "canceled" | "completed";
+
+type ArchivedTicket = {
+  id: string;
+  code: string;
+  title: string;
+  status: TicketStatus;
+  projectName: string | null;
+  jobTypeName: string | null;
+  createdAt: string;
+  archivedAt: string;
+  restoreCost: number;
+  ledgerEntries: {
+    id: string;
+    reason: string | null;
+    direction: "CREDIT" | "DEBIT";
+    amount: number;
+    notes: string | null;
+    createdAt: string;
+  }[];
+  assets: {
+    id: string;
+    kind: "BRIEF_INPUT" | "OUTPUT_IMAGE";
+    originalName: string | null;
+    mimeType: string;
+    bytes: number;
+    url: string | null;
+  }[];
+};
+
+type ArchiveResponse = {
+  tickets: ArchivedTicket[];
+  total: number;
+  archiveAfterDays: number;
+  tokenBalance: number;
+  canRestore: boolean;
+};
+
+const PAGE_SIZE = 25;
+
+const LEDGER_LABELS: Record<string, string> = {
+  REFUND: "Refund",
+  TICKET_RESTORED: "Restored",
+};
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function CustomerArchivePage() {
+  const { showToast } = useToast();
+
+  const [data, setData] = useState<ArchiveResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [filter, setFilter] = useState<ArchiveFilter>("all");
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const [restoreTarget, setRestoreTarget] = useState<ArchivedTicket | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const fetchIdRef = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const load = useCallback(async () => {
+    const id = ++fetchIdRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (debouncedSearch) params.set("search", debouncedSearch);
+      params.set("filter", filter);
+      params.set("limit", String(PAGE_SIZE));
+      params.set("offset", String(page * PAGE_SIZE));
+
+      const res = await fetch(`/api/customer/tickets/archive?${params.toString()}`, {
+        cache: "no-store",
+      });
+      const json = await res.json().catch(() => null);
+      if (id !== fetchIdRef.current) return;
+      if (!res.ok) throw new Error(json?.error || `Request failed with status ${res.status}`);
+      setData(json as ArchiveResponse);
+    } catch (err: any) {
+      if (id !== fetchIdRef.current) return;
+      console.error("[CustomerArchivePage] load error", err);
+      setError(err?.message || "Failed to load archived tickets.");
+    } finally {
+      if (id === fetchIdRef.current) setLoading(false);
+    }
+  }, [debouncedSearch, filter, page]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const restore = async () => {
+    if (!restoreTarget) return;
+    setRestoring(true);
+    try {
+      const res = await fetch(`/api/customer/tickets/${restoreTarget.id}/restore`, {
+        method: "POST",
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        showToast({
+          type: "error",
+          title: isInsufficientTokensBody(json)
+            ? `Not enough tokens — restoring needs ${json.required}, you have ${json.balance}.`
+            : json?.error || "Failed to restore ticket.",
+        });
+        return;
+      }
+      showToast({
+        type: "success",
+        title: `${restoreTarget.code} is back in To do`,
+        description:
+          json.debitedTokens > 0 ? `${json.debitedTokens} tokens were debited.` : undefined,
+      });
+      setRestoreTarget(null);
+      void load();
+    } catch (err) {
+      console.error("[CustomerArchivePage] restore error", err);
+      showToast({ type: "error", title: "Failed to restore ticket." });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const tickets = data?.tickets ?? [];
+  const total = data?.total ?? 0;
+
+  return (
+    <>
+      <div className="mt-2 mb-4">
+        <BoardViewToggle rolePath="/customer" showArchive />
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Archive</h1>
+          <p className="mt-1 text-sm text-[var(--bb-text-secondary)]">
+            Cancelled tickets
+            {data ? ` and tickets completed more than ${data.archiveAfterDays} days ago` : ""}, with
+            their refunds and files.
+          </p>
+        </div>
+        {data && (
+          <div className="rounded-full bg-[var(--bb-bg-card)] px-3 py-1 text-xs text-[var(--bb-text-secondary)]">
+            Balance: <span className="font-semibold">{data.tokenBalance}</span> tokens
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <InlineAlert variant="error" title="Error" className="mb-4">
+          {error}
+        </InlineAlert>
+      )}
+
+      <section className="mb-4 flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+        <div className="flex-1">
+          <label className="block text-xs font-medium text-[var(--bb-secondary)]">Search</label>
+          <FormInput
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search archived tickets..."
+            size="sm"
+            className="mt-1"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs font-medium text-[var(--bb-secondary)]">Show</label>
+          <FormSelect
+            value={filter}
+            onChange={(e) => {
+              setFilter(e.target.value as ArchiveFilter);
+              setPage(0);
+            }}
+            size="sm"
+            className="w-auto"
+          >
+            <option value="all">All archived</option>
+            <option value="canceled">Cancelled</option>
+            <option value="completed">Completed</option>
+          </FormSelect>
+        </div>
+      </section>
+
+      {loading && !data ? (
+        <LoadingState message="Loading archive..." />
+      ) : tickets.length === 0 ? (
+        <EmptyState
+          title={
+            debouncedSearch ? "No archived tickets match your search." : "Nothing archived yet."
+          }
+          description="Cancelled tickets and long-completed ones will show up here."
+        />
+      ) : (
+        <section className="space-y-2">
+          {tickets.map((t) => {
+            const expanded = expandedId === t.id;
+            const canRestoreThis = data?.canRestore && t.status === "CANCELED";
+            return (
+              <div
+                key={t.id}
+                className="rounded-xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-4 py-3"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <button
+                    type="button"
+                    className="min-w-0 flex-1 text-left"
+                    onClick={() => setExpandedId(expanded ? null : t.id)}
+                    aria-expanded={expanded}
+                  >
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-xs font-semibold text-[var(--bb-secondary)]">
+                        {t.code}
+                      </span>
+                      <Badge variant={statusBadgeVariant(t.status)}>
+                        {STATUS_LABELS[t.status]}
+                      </Badge>
+                      {t.projectName && (
+                        <span className="text-[11px] text-[var(--bb-text-tertiary)]">
+                          {t.projectName}
+                        </span>
+                      )}
+                    </div>
+                    <p className="mt-0.5 truncate text-sm text-[var(--bb-secondary)]">{t.title}</p>
+                    <p className="mt-0.5 text-[11px] text-[var(--bb-text-tertiary)]">
+                      {t.status === "CANCELED" ? "Cancelled" : "Completed"}{" "}
+                      {formatDateTime(t.archivedAt)}
+                      {t.jobTypeName ? ` · ${t.jobTypeName}` : ""}
+                      {` · ${t.assets.length} file${t.assets.length === 1 ? "" : "s"}`}
+                    </p>
+                  </button>
+                  <div className="flex items-center gap-2">
+                    <a
+                      href={`/customer/tickets/${t.id}`}
+                      className="text-[11px] font-medium text-[var(--bb-primary)] hover:underline"
+                    >
+                      Open
+                    </a>
+                    {canRestoreThis && (
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => setRestoreTarget(t)}
+                        disabled={restoring}
+                      >
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {expanded && (
+                  <div className="mt-3 grid gap-4 border-t border-[var(--bb-border-subtle)] pt-3 md:grid-cols-2">
+                    <div>
+                      <p className="text-[11px] font-semibold text-[var(--bb-secondary)]">
+                        Token history
+                      </p>
+                      {t.ledgerEntries.length === 0 ? (
+                        <p className="mt-1 text-[11px] text-[var(--bb-text-tertiary)]">
+                          No refunds recorded for this ticket.
+                        </p>
+                      ) : (
+                        <ul className="mt-1 space-y-1">
+                          {t.ledgerEntries.map((e) => (
+                            <li key={e.id} className="text-[11px] text-[var(--bb-text-secondary)]">
+                              <span
+                                className={
+                                  e.direction === "CREDIT"
+                                    ? "font-semibold text-[var(--bb-success-text)]"
+                                    : "font-semibold text-[var(--bb-danger-text)]"
+                                }
+                              >
+                                {e.direction === "CREDIT" ? "+" : "−"}
+                                {e.amount}
+                              </span>{" "}
+                              {LEDGER_LABELS[e.reason ?? ""] ?? e.reason ?? "Adjustment"} ·{" "}
+                              {formatDateTime(e.createdAt)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                    <div>
+                      <p className="text-[11px] font-semibold text-[var(--bb-secondary)]">Files</p>
+                      {t.assets.length === 0 ? (
+                        <p className="mt-1 text-[11px] text-[var(--bb-text-tertiary)]">
+                          No files attached.
+                        </p>
+                      ) : (
+                        <ul className="mt-1 space-y-1">
+                          {t.assets.map((a) => (
+                            <li key={a.id} className="text-[11px] text-[var(--bb-text-secondary)]">
+                              {a.url ? (
+                                <a
+                                  href={a.url}
+                                  target="_blank"
+                                  rel="noreferrer"
+                                  className="text-[var(--bb-primary)] hover:underline"
+                                >
+                                  {a.originalName || "Untitled file"}
+                                </a>
+                              ) : (
+                                (a.originalName ?? "Untitled file")
+                              )}{" "}
+                              <span className="text-[var(--bb-text-tertiary)]">
+                                · {a.kind === "BRIEF_INPUT" ? "Brief" : "Output"} ·{" "}
+                                {formatBytes(a.bytes)}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {total > PAGE_SIZE && (
+            <div className="mt-4 flex items-center justify-between border-t border-[var(--bb-border-subtle)] pt-3">
+              <p className="text-xs text-[var(--bb-text-tertiary)]">
+                Page {page + 1} of {Math.ceil(total / PAGE_SIZE)}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={page === 0}
+                  onClick={() => setPage((p) => Math.max(0, p - 1))}
+                >
+                  ← Previous
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={(page + 1) * PAGE_SIZE >= total}
+                  onClick={() => setPage((p) => p + 1)}
+                >
+                  Next →
+                </Button>
+              </div>
+            </div>
+          )}
+        </section>
+      )}
+
+      <ConfirmDialog
+        open={!!restoreTarget}
+        onClose={() => setRestoreTarget(null)}
+        onConfirm={restore}
+        title={`Restore ${restoreTarget?.code ?? ""}?`}
+        description={
+          restoreTarget && restoreTarget.restoreCost > 0
+            ? `The ticket goes back to To do and ${restoreTarget.restoreCost} tokens are debited from your balance (${data?.tokenBalance ?? 0} available).`
+            : "The ticket goes back to To do. It has no token cost."
+        }
+        confirmLabel="Restore ticket"
+        variant="warning"
+        loading={restoring}
+      />
+    </>
+  );
+}
@@ -1,10 +1,13 @@
 // -----------------------------------------------------------------------------
 // @file: app/customer/board/page.tsx
 // @purpose: Customer-facing board view of company tickets (kanban + drag & drop
-//           + detail & revision modals + inline new ticket modal + toasts)
-// @version: v2.3.0
+//           + detail & revision modals + inline new ticket modal + toasts
+//           + multi-select bulk actions + saved views with grouping, lane
+//           visibility and a shareable URL + OWNER/PM drag-ranking of the
+//           To do backlog)
+// @version: v2.6.0
 // @status: active
-// @lastUpdate: 2025-12-12
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 "use client";
@@ -20,6 +23,11 @@ import {
   canManageProjects,
   isCompanyAdminRole,
 } from "@/lib/permissions/companyRoles";
+import {
+  type ProjectRole,
+  canEditTicketsInProject,
+  canMoveTicketsInProject,
+} from "@/lib/permissions/projectRoles";
 import { TicketStatus, TicketPriority } from "@prisma/client";
 import { useToast } from "@/components/ui/toast-provider";
 import { InlineAlert } from "@/components/ui/inline-alert";
@@ -43,6 +51,7 @@ import {
   isDueDateOverdue,
   formatDueDateCountdown,
   getInitials,
+  compareBacklog,
 } from "@/lib/board";
 import { Badge } from "@/components/ui/badge";
 import { TagBadge } from "@/components/ui/tag-badge";
@@ -66,6 +75,16 @@ import { downloadSingleAsset, downloadAssetsAsZip } from "@/lib/download-helpers
 
 import NewTicketForm from "@/app/customer/tickets/new/NewTicketForm";
 import { RateCreativeModal } from "@/components/ratings/rate-creative-modal";
+import { CustomerBulkBar } from "@/components/tickets/customer-bulk-bar";
+import { SavedViewsBar } from "@/components/tickets/saved-views-bar";
+import { CUSTOM_FIELD_FILTER_PREFIX } from "@/lib/tickets/custom-field-values";
+import {
+  type SavedViewConfig,
+  type ViewGroupBy,
+  DEFAULT_VIEW_CONFIG,
+  VIEW_GROUP_BY,
+  VIEW_GROUP_BY_LABELS,
+} from "@/lib/tickets/saved-view-config";
 
 type CustomerBoardTicket = {
   id: string;
@@ -86,6 +105,12 @@ type CustomerBoardTicket = {
   thumbnailUrl?: string | null;
   thumbnailAssetId?: string | null;
   tags?: { id: string; name: string; color: string }[];
+  /** Caller's effective role on the ticket's project (VIEWER = read-only). */
+  viewerProjectRole?: ProjectRole | null;
+  /** Unresolved "blocked by" links; > 0 means the ticket can't start yet. */
+  openBlockerCount?: number;
+  /** Position in the company's ranked To do backlog; null until ranked. */
+  backlogRank?: number | null;
 };
 
 type BoardStats = {
@@ -321,6 +346,18 @@ export default function CustomerBoardPage() {
   const [search, setSearch] = useState<string>("");
   const [filterOpen, setFilterOpen] = useState<boolean>(false);
 
+  // Saved view state. The project filter above is a project *name*; a view
+  // stores the id, so an applied view parks it here until the name is known.
+  const [pendingProjectId, setPendingProjectId] = useState<string | null>(null);
+  const [priorityFilter, setPriorityFilter] = useState<"ALL" | TicketPriority>("ALL");
+  const [tagFilter, setTagFilter] = useState<string>("ALL");
+  const [customFieldFilters, setCustomFieldFilters] = useState<Record<string, string>>({});
+  const [groupBy, setGroupBy] = useState<ViewGroupBy>("none");
+  const [hiddenLanes, setHiddenLanes] = useState<string[]>([]);
+  // Custom field filters run server-side (board tickets don't carry values).
+  // load() is called from many closures, so it reads the query from a ref.
+  const customFieldQueryRef = useRef<string>("");
+
   // Thumbnail presigned URL cache: assetId → downloadUrl
   const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
   const thumbnailFetchingRef = useRef<Set<string>>(new Set());
@@ -328,7 +365,13 @@ export default function CustomerBoardPage() {
 
   const [draggingTicketId, setDraggingTicketId] = useState<string | null>(null);
   const [dragOverStatus, setDragOverStatus] = useState<TicketStatus | null>(null);
+  const [backlogDropTargetId, setBacklogDropTargetId] = useState<string | null>(null);
   const [mutationError, setMutationError] = useState<string | null>(null);
+
+  // Multi-select mode: card clicks toggle selection for the bulk bar
+  // instead of opening the detail modal.
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [updatingTicketId, setUpdatingTicketId] = useState<string | null>(null);
 
   const [detailTicketId, setDetailTicketId] = useState<string | null>(null);
@@ -448,7 +491,8 @@ export default function CustomerBoardPage() {
     setLoading(true);
     setLoadError(null);
     try {
-      const res = await fetch("/api/customer/tickets", {
+      const query = customFieldQueryRef.current;
+      const res = await fetch(`/api/customer/tickets${query ? `?${query}` : ""}`, {
         cache: "no-store",
       });
 
@@ -1128,6 +1172,14 @@ export default function CustomerBoardPage() {
         return false;
       }
 
+      if (priorityFilter !== "ALL" && t.priority !== priorityFilter) {
+        return false;
+      }
+
+      if (tagFilter !== "ALL" && !t.tags?.some((tag) => tag.id === tagFilter)) {
+        return false;
+      }
+
       const q = search.trim().toLowerCase();
       if (q) {
         const code = (t.code ?? "").toLowerCase();
@@ -1141,7 +1193,120 @@ export default function CustomerBoardPage() {
 
       return true;
     });
-  }, [tickets, projectFilter, search]);
+  }, [tickets, projectFilter, priorityFilter, tagFilter, search]);
+
+  // ---------------------------------------------------------------------------
+  // Saved views
+  // ---------------------------------------------------------------------------
+
+  const tagOptions = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const t of tickets) for (const tag of t.tags ?? []) map.set(tag.id, tag.name);
+    return Array.from(map, ([id, name]) => ({ id, name })).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }, [tickets]);
+
+  const projectIdForName = useCallback(
+    (name: string) =>
+      sidebarProjects.find((p) => p.name === name)?.id ??
+      tickets.find((t) => t.projectName === name)?.projectId ??
+      null,
+    [sidebarProjects, tickets],
+  );
+
+  // Resolve a view's project id to the name the filter uses once projects load.
+  useEffect(() => {
+    if (!pendingProjectId) return;
+    const name =
+      sidebarProjects.find((p) => p.id === pendingProjectId)?.name ??
+      tickets.find((t) => t.projectId === pendingProjectId)?.projectName;
+    if (name) {
+      setProjectFilter(name);
+      setPendingProjectId(null);
+    }
+  }, [pendingProjectId, sidebarProjects, tickets]);
+
+  // Reload when the custom field filters change (not on mount — the initial
+  // load already ran with the same empty query).
+  useEffect(() => {
+    const params = new URLSearchParams();
+    for (const [fieldId, value] of Object.entries(customFieldFilters)) {
+      params.set(`${CUSTOM_FIELD_FILTER_PREFIX}${fieldId}`, value);
+    }
+    const query = params.toString();
+    if (query === customFieldQueryRef.current) return;
+    customFieldQueryRef.current = query;
+    void load();
+    // load() is re-created every render; the query is the real dependency.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [customFieldFilters]);
+
+  const viewConfig = useMemo<SavedViewConfig>(
+    () => ({
+      ...DEFAULT_VIEW_CONFIG,
+      search: search.trim(),
+      projectId: projectFilter === "ALL" ? pendingProjectId : projectIdForName(projectFilter),
+      priority: priorityFilter === "ALL" ? null : priorityFilter,
+      tagId: tagFilter === "ALL" ? null : tagFilter,
+      customFields: customFieldFilters,
+      groupBy,
+      hiddenColumns: hiddenLanes,
+    }),
+    [
+      search,
+      pendingProjectId,
+      projectFilter,
+      projectIdForName,
+      priorityFilter,
+      tagFilter,
+      customFieldFilters,
+      groupBy,
+      hiddenLanes,
+    ],
+  );
+
+  const applyViewConfig = (config: SavedViewConfig) => {
+    setSearch(config.search);
+    setProjectFilter("ALL");
+    setPendingProjectId(config.projectId);
+    setPriorityFilter(config.priority ?? "ALL");
+    setTagFilter(config.tagId ?? "ALL");
+    setCustomFieldFilters(config.customFields);
+    setGroupBy(config.groupBy);
+    setHiddenLanes(config.hiddenColumns);
+  };
+
+  const visibleStatuses = useMemo(
+    () => STATUS_ORDER.filter((status) => !hiddenLanes.includes(status)),
+    [hiddenLanes],
+  );
+
+  const toggleLane = (status: TicketStatus) =>
+    setHiddenLanes((prev) =>
+      prev.includes(status) ? prev.filter((s) => s !== status) : [...prev, status],
+    );
+
+  /** Split one column's (already sorted) cards into project / priority groups. */
+  const groupColumnTickets = (columnTickets: CustomerBoardTicket[]) => {
+    if (groupBy === "priority") {
+      return PRIORITY_ORDER.map((priority) => ({
+        key: priority,
+        label: formatPriorityLabel(priority),
+        tickets: columnTickets.filter((t) => t.priority === priority),
+      })).filter((g) => g.tickets.length > 0);
+    }
+    const groups = new Map<string, CustomerBoardTicket[]>();
+    for (const t of columnTickets) {
+      const key = t.projectName ?? "";
+      groups.set(key, [...(groups.get(key) ?? []), t]);
+    }
+    return Array.from(groups, ([key, groupTickets]) => ({
+      key,
+      label: key || "No project",
+      tickets: groupTickets,
+    })).sort((a, b) => (!a.key || !b.key ? (a.key ? -1 : 1) : a.key.localeCompare(b.key)));
+  };
 
   const ticketsByStatus = useMemo(() => {
     const map: Record<TicketStatus, CustomerBoardTicket[]> = {
@@ -1159,6 +1324,8 @@ export default function CustomerBoardPage() {
     for (const status of STATUS_ORDER) {
       map[status] = sortTicketsForColumn(map[status]);
     }
+    // To do follows the backlog order OWNER/PMs set by dragging.
+    map.TODO.sort(compareBacklog);
     return map;
   }, [filteredTickets]);
 
@@ -1167,6 +1334,19 @@ export default function CustomerBoardPage() {
     return canMoveTicketsOnBoard(companyRole);
   }, [companyRole]);
 
+  // Company role gates the whole board; the project role narrows it per
+  // card (VIEWERs on a project can see its tickets but not move them).
+  const canMoveTicket = useCallback(
+    (ticket: CustomerBoardTicket) =>
+      canDragTicket &&
+      (ticket.viewerProjectRole === undefined || canMoveTicketsInProject(ticket.viewerProjectRole)),
+    [canDragTicket],
+  );
+
+  // Ranking the backlog is a company-wide call, so it follows the company
+  // role only.
+  const canRankBacklog = isCompanyAdminRole(companyRole);
+
   const detailTicket = useMemo(() => {
     if (!detailTicketId) return null;
     return tickets.find((t) => t.id === detailTicketId) ?? null;
@@ -1351,7 +1531,16 @@ export default function CustomerBoardPage() {
     const timeThreshold = 250;
 
     if (dx < movementThreshold && dy < movementThreshold && dt < timeThreshold) {
-      setDetailTicketId(ticketId);
+      if (selectMode) {
+        setSelectedIds((prev) => {
+          const next = new Set(prev);
+          if (next.has(ticketId)) next.delete(ticketId);
+          else next.add(ticketId);
+          return next;
+        });
+      } else {
+        setDetailTicketId(ticketId);
+      }
     }
 
     setMouseDownInfo(null);
@@ -1362,13 +1551,15 @@ export default function CustomerBoardPage() {
     ticketId: string,
     ticketStatus: TicketStatus,
   ) => {
-    if (!canDragTicket) {
+    const ticket = tickets.find((t) => t.id === ticketId);
+    const isBacklogDrag = ticketStatus === "TODO" && canRankBacklog;
+    if (!ticket || (!isBacklogDrag && !canMoveTicket(ticket))) {
       event.preventDefault();
       return;
     }
 
-    // Customers can only drag IN_REVIEW cards
-    if (ticketStatus !== "IN_REVIEW") {
+    // Customers can only drag IN_REVIEW cards (OWNER/PM also rank To do)
+    if (ticketStatus !== "IN_REVIEW" && !isBacklogDrag) {
       event.preventDefault();
       return;
     }
@@ -1390,6 +1581,83 @@ export default function CustomerBoardPage() {
   const handleDragEnd = () => {
     setDraggingTicketId(null);
     setDragOverStatus(null);
+    setBacklogDropTargetId(null);
+  };
+
+  const isBacklogDragOver = (target: CustomerBoardTicket) => {
+    if (!canRankBacklog || !draggingTicketId || draggingTicketId === target.id) return false;
+    if (target.status !== "TODO") return false;
+    return tickets.find((t) => t.id === draggingTicketId)?.status === "TODO";
+  };
+
+  const handleBacklogDragOver = (
+    event: React.DragEvent<HTMLDivElement>,
+    target: CustomerBoardTicket,
+  ) => {
+    if (!isBacklogDragOver(target)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    if (backlogDropTargetId !== target.id) setBacklogDropTargetId(target.id);
+  };
+
+  /**
+   * Dropping a To do card on another one takes that card's place: moving
+   * down lands after it, moving up lands before it.
+   */
+  const handleBacklogDrop = async (
+    event: React.DragEvent<HTMLDivElement>,
+    target: CustomerBoardTicket,
+  ) => {
+    if (!isBacklogDragOver(target)) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const ticketId = draggingTicketId!;
+    setDraggingTicketId(null);
+    setDragOverStatus(null);
+    setBacklogDropTargetId(null);
+
+    const backlog = tickets.filter((t) => t.status === "TODO").sort(compareBacklog);
+    const from = backlog.findIndex((t) => t.id === ticketId);
+    const to = backlog.findIndex((t) => t.id === target.id);
+    const afterTicketId = from < to ? target.id : (backlog[to - 1]?.id ?? null);
+
+    setMutationError(null);
+    setUpdatingTicketId(ticketId);
+    try {
+      const res = await fetch("/api/customer/tickets/backlog", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ticketId, afterTicketId }),
+      });
+      const json = await res.json().catch(() => null);
+
+      if (!res.ok || !Array.isArray(json?.order)) {
+        throw new Error(json?.error || "We couldn't reorder the backlog. Please try again.");
+      }
+
+      const rankById = new Map<string, number>(
+        (json.order as string[]).map((id, index) => [id, index + 1]),
+      );
+      setData((prev) =>
+        prev
+          ? {
+              ...prev,
+              tickets: prev.tickets.map((t) =>
+                rankById.has(t.id) ? { ...t, backlogRank: rankById.get(t.id) } : t,
+              ),
+            }
+          : prev,
+      );
+    } catch (err: unknown) {
+      const message =
+        err instanceof Error ? err.message : "We couldn't reorder the backlog. Please try again.";
+      setMutationError(message);
+      showToast({ type: "error", title: "Backlog not reordered", description: message });
+      await load();
+    } finally {
+      setUpdatingTicketId(null);
+    }
   };
 
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>, status: TicketStatus) => {
@@ -1436,6 +1704,15 @@ export default function CustomerBoardPage() {
 
     if (!ticket) return;
 
+    if (!canMoveTicket(ticket)) {
+      showToast({
+        type: "warning",
+        title: "You can't move requests",
+        description: "You have read-only access to this project.",
+      });
+      return;
+    }
+
     const decision = canDropTicketToStatus(ticket, targetStatus);
 
     if (!decision.allowed) {
@@ -1495,7 +1772,11 @@ export default function CustomerBoardPage() {
   // Inline edit — permission + handlers
   // ---------------------------------------------------------------------------
 
-  const canEditDetail = detailTicket?.status === "TODO" && canEditTickets(companyRole);
+  const canEditDetail =
+    detailTicket?.status === "TODO" &&
+    canEditTickets(companyRole) &&
+    (detailTicket.viewerProjectRole === undefined ||
+      canEditTicketsInProject(detailTicket.viewerProjectRole));
 
   // Cancel-with-refund visibility. OWNER + PM only (matches the
   // server-side gate), and only while the ticket is still TODO and
@@ -1702,6 +1983,7 @@ export default function CustomerBoardPage() {
   };
 
   const handleProjectFilterChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setPendingProjectId(null);
     setProjectFilter(event.target.value);
   };
 
@@ -1715,7 +1997,9 @@ export default function CustomerBoardPage() {
 
   const renderTicketCard = (ticket: CustomerBoardTicket) => {
     const isDragging = draggingTicketId === ticket.id;
+    const isBacklogDropTarget = backlogDropTargetId === ticket.id;
     const isUpdating = updatingTicketId === ticket.id;
+    const isSelected = selectMode && selectedIds.has(ticket.id);
     const dueDateLabel = formatDueDateShort(ticket.dueDate);
     const overdue = isDueDateOverdue(ticket.dueDate);
     const thumbSrc =
@@ -1730,17 +2014,37 @@ export default function CustomerBoardPage() {
           isDragging
             ? "scale-[1.02] opacity-50 shadow-lg"
             : "hover:-translate-y-0.5 hover:border-[var(--bb-primary-border)] hover:shadow-md"
+        } ${isSelected ? "!border-[var(--bb-primary)] ring-2 ring-[var(--bb-primary)]/40" : ""} ${
+          isBacklogDropTarget ? "!border-[var(--bb-primary)]" : ""
         }`}
-        draggable={canDragTicket && ticket.status === "IN_REVIEW"}
+        draggable={
+          !selectMode &&
+          ((canMoveTicket(ticket) && ticket.status === "IN_REVIEW") ||
+            (canRankBacklog && ticket.status === "TODO"))
+        }
         onDragStart={(event) => handleDragStart(event, ticket.id, ticket.status)}
         onDragEnd={handleDragEnd}
+        onDragOver={(event) => handleBacklogDragOver(event, ticket)}
+        onDragLeave={() => isBacklogDropTarget && setBacklogDropTargetId(null)}
+        onDrop={(event) => void handleBacklogDrop(event, ticket)}
         onMouseDown={(event) => handleMouseDown(event, ticket.id)}
         onMouseUp={(event) => handleMouseUp(event, ticket.id)}
       >
-        {/* Title */}
-        <p className="text-sm leading-snug font-semibold text-[var(--bb-secondary)]">
-          {ticket.title}
-        </p>
+        {/* Title (+ selection checkbox in select mode) */}
+        <div className="flex items-start gap-2">
+          {selectMode && (
+            <input
+              type="checkbox"
+              readOnly
+              checked={isSelected}
+              aria-label={`Select ticket ${ticket.title}`}
+              className="pointer-events-none mt-0.5 h-3 w-3 rounded border-[var(--bb-border-input)] text-[var(--bb-primary)]"
+            />
+          )}
+          <p className="text-sm leading-snug font-semibold text-[var(--bb-secondary)]">
+            {ticket.title}
+          </p>
+        </div>
 
         {/* Description */}
         {ticket.description && (
@@ -1772,6 +2076,21 @@ export default function CustomerBoardPage() {
           </div>
         )}
 
+        {/* Blocked pill */}
+        {!!ticket.openBlockerCount && ticket.status === "TODO" && (
+          <div className="mt-2">
+            <span
+              className="inline-flex items-center gap-1 rounded-full bg-[var(--bb-warning-bg)] px-2 py-0.5 text-[10px] font-semibold text-[var(--bb-warning-text)]"
+              title={`Waiting on ${ticket.openBlockerCount} ticket${
+                ticket.openBlockerCount === 1 ? "" : "s"
+              }`}
+            >
+              <span className="text-[9px]">⛔</span>
+              Blocked
+            </span>
+          </div>
+        )}
+
         {/* Tags */}
         {ticket.tags && ticket.tags.length > 0 && (
           <div className="mt-2 flex flex-wrap gap-1">
@@ -2026,7 +2345,7 @@ export default function CustomerBoardPage() {
         <main className="flex min-w-0 flex-col">
           {/* View switcher — Kanban (this page) ↔ Table */}
           <div className="mb-3">
-            <BoardViewToggle rolePath="/customer" />
+            <BoardViewToggle rolePath="/customer" showArchive />
           </div>
 
           {/* Header — project-aware */}
@@ -2100,6 +2419,13 @@ export default function CustomerBoardPage() {
             </InlineAlert>
           )}
 
+          <SavedViewsBar
+            page="BOARD"
+            config={viewConfig}
+            onApply={applyViewConfig}
+            showCopyLink={false}
+          />
+
           {/* Toolbar: search + avatars + share + filter */}
           <div className="mb-3 flex items-center gap-3">
             {/* Search */}
@@ -2125,7 +2451,7 @@ export default function CustomerBoardPage() {
               </span>
             )}
 
-            {/* Share button — copies board URL to clipboard */}
+            {/* Share button — copies board URL (incl. current view) to clipboard */}
             <button
               type="button"
               onClick={() => {
@@ -2138,6 +2464,24 @@ export default function CustomerBoardPage() {
               ↗ Share
             </button>
 
+            {/* Select mode — multi-select cards for bulk actions */}
+            {(canEditTickets(companyRole) || isCompanyAdminRole(companyRole)) && (
+              <button
+                type="button"
+                onClick={() => {
+                  setSelectMode((on) => !on);
+                  setSelectedIds(new Set());
+                }}
+                className={`inline-flex items-center gap-1 rounded-lg border px-3 py-2 text-[11px] font-medium transition-colors ${
+                  selectMode
+                    ? "border-[var(--bb-primary)] bg-[var(--bb-primary-light)] text-[var(--bb-primary)]"
+                    : "border-[var(--bb-border)] bg-[var(--bb-bg-page)] text-[var(--bb-text-secondary)] hover:border-[var(--bb-secondary)] hover:text-[var(--bb-secondary)]"
+                }`}
+              >
+                ☑ {selectMode ? "Done selecting" : "Select"}
+              </button>
+            )}
+
             {/* Filter button */}
             <button
               type="button"
@@ -2154,32 +2498,110 @@ export default function CustomerBoardPage() {
 
           {/* Collapsible filter dropdown */}
           {filterOpen && (
-            <div className="mb-3 flex items-center gap-2 rounded-lg border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-3 py-2 text-[11px] text-[var(--bb-text-secondary)]">
-              <span className="font-medium">Project:</span>
-              <select
-                className="rounded-md border border-[var(--bb-border)] bg-[var(--bb-bg-warm)] px-2 py-1 text-[11px] outline-none"
-                value={projectFilter}
-                onChange={handleProjectFilterChange}
-              >
-                <option value="ALL">All projects</option>
-                {projects.map((projectName) => (
-                  <option key={projectName} value={projectName}>
-                    {projectName}
-                  </option>
-                ))}
-              </select>
-              {projectFilter !== "ALL" && (
-                <button
-                  type="button"
-                  onClick={() => setProjectFilter("ALL")}
-                  className="ml-1 text-[10px] text-[var(--bb-primary)] hover:underline"
+            <div className="mb-3 flex flex-wrap items-center gap-x-4 gap-y-2 rounded-lg border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-3 py-2 text-[11px] text-[var(--bb-text-secondary)]">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Project:</span>
+                <select
+                  className="rounded-md border border-[var(--bb-border)] bg-[var(--bb-bg-warm)] px-2 py-1 text-[11px] outline-none"
+                  value={projectFilter}
+                  onChange={handleProjectFilterChange}
                 >
-                  Clear
-                </button>
+                  <option value="ALL">All projects</option>
+                  {projects.map((projectName) => (
+                    <option key={projectName} value={projectName}>
+                      {projectName}
+                    </option>
+                  ))}
+                </select>
+                {projectFilter !== "ALL" && (
+                  <button
+                    type="button"
+                    onClick={() => setProjectFilter("ALL")}
+                    className="ml-1 text-[10px] text-[var(--bb-primary)] hover:underline"
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Priority:</span>
+                <select
+                  className="rounded-md border border-[var(--bb-border)] bg-[var(--bb-bg-warm)] px-2 py-1 text-[11px] outline-none"
+                  value={priorityFilter}
+                  onChange={(e) => setPriorityFilter(e.target.value as "ALL" | TicketPriority)}
+                >
+                  <option value="ALL">All</option>
+                  {PRIORITY_ORDER.map((priority) => (
+                    <option key={priority} value={priority}>
+                      {formatPriorityLabel(priority)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {tagOptions.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">Tag:</span>
+                  <select
+                    className="rounded-md border border-[var(--bb-border)] bg-[var(--bb-bg-warm)] px-2 py-1 text-[11px] outline-none"
+                    value={tagFilter}
+                    onChange={(e) => setTagFilter(e.target.value)}
+                  >
+                    <option value="ALL">All tags</option>
+                    {tagOptions.map((tag) => (
+                      <option key={tag.id} value={tag.id}>
+                        {tag.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               )}
+
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Group by:</span>
+                <select
+                  className="rounded-md border border-[var(--bb-border)] bg-[var(--bb-bg-warm)] px-2 py-1 text-[11px] outline-none"
+                  value={groupBy}
+                  onChange={(e) => setGroupBy(e.target.value as ViewGroupBy)}
+                >
+                  {VIEW_GROUP_BY.BOARD.map((g) => (
+                    <option key={g} value={g}>
+                      {VIEW_GROUP_BY_LABELS[g]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Columns:</span>
+                {STATUS_ORDER.map((status) => (
+                  <label key={status} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={!hiddenLanes.includes(status)}
+                      onChange={() => toggleLane(status)}
+                      className="h-3 w-3 rounded border-[var(--bb-border-input)] text-[var(--bb-primary)] focus:ring-[var(--bb-primary)]"
+                    />
+                    {STATUS_LABELS[status]}
+                  </label>
+                ))}
+              </div>
             </div>
           )}
 
+          {selectMode && (
+            <CustomerBulkBar
+              selectedIds={Array.from(selectedIds)}
+              companyRole={companyRole}
+              onClear={() => setSelectedIds(new Set())}
+              onApplied={async () => {
+                setSelectedIds(new Set());
+                await Promise.all([load(), loadSidebarProjects()]);
+              }}
+            />
+          )}
+
           {/* Columns */}
           {loading ? (
             <div className="py-6 text-center text-sm text-[var(--bb-text-secondary)]">
@@ -2187,7 +2609,7 @@ export default function CustomerBoardPage() {
             </div>
           ) : (
             <div className="flex snap-x snap-mandatory gap-4 overflow-x-auto pb-2 md:snap-none">
-              {STATUS_ORDER.map((status) => {
+              {visibleStatuses.map((status) => {
                 const columnTickets = ticketsByStatus[status] ?? [];
                 const columnTitle = STATUS_LABELS[status];
                 const isDropTargetActive = dragOverStatus === status;
@@ -2230,8 +2652,18 @@ export default function CustomerBoardPage() {
                               : "No tickets here yet."
                           }
                         />
-                      ) : (
+                      ) : groupBy === "none" ? (
                         columnTickets.map((ticket) => renderTicketCard(ticket))
+                      ) : (
+                        groupColumnTickets(columnTickets).map((group) => (
+                          <div key={group.key} className="space-y-2">
+                            <div className="flex items-center justify-between px-1 pt-1 text-[10px] font-semibold tracking-wide text-[var(--bb-text-tertiary)] uppercase">
+                              <span className="truncate">{group.label}</span>
+                              <span>{group.tickets.length}</span>
+                            </div>
+                            {group.tickets.map((ticket) => renderTicketCard(ticket))}
+                          </div>
+                        ))
                       )}
                       {/* Drop placeholder */}
                       {isDropTargetActive && (
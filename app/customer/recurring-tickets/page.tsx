@@ -0,0 +1,646 @@
+// -----------------------------------------------------------------------------
+// @file: app/customer/recurring-tickets/page.tsx
+// @purpose: Customer view of recurring ticket schedules — list, create, edit,
+//           pause / resume and delete. Tickets are created hourly by the
+//           recurring-tickets cron when a schedule's rule comes due.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { EmptyState } from "@/components/ui/empty-state";
+import { FormInput, FormSelect, FormTextarea } from "@/components/ui/form-field";
+import { InlineAlert } from "@/components/ui/inline-alert";
+import { LoadingState } from "@/components/ui/loading-state";
+import { Modal, ModalFooter, ModalHeader } from "@/components/ui/modal";
+import { formatDateTime, formatPriorityLabel, PRIORITY_ORDER } from "@/lib/board";
+import type { TicketPriority } from "@/lib/board";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type OutputSpec = { presetId: string; quantity: number };
+
+type Schedule = {
+  id: string;
+  name: string;
+  cronRule: string;
+  title: string;
+  description: string | null;
+  priority: TicketPriority;
+  quantity: number;
+  dueInDays: number | null;
+  tagIds: string[];
+  outputSpecs: OutputSpec[];
+  isActive: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastRunStatus: "CREATED" | "INSUFFICIENT_TOKENS" | "FAILED" | null;
+  lastRunError: string | null;
+  lastTicketId: string | null;
+  project: { id: string; name: string; code: string | null } | null;
+  jobType: { id: string; name: string; tokenCost: number };
+  tokenCostPerRun: number;
+};
+
+type Metadata = {
+  tokenBalance: number;
+  projects: { id: string; name: string; code: string | null }[];
+  jobTypes: {
+    id: string;
+    name: string;
+    tokenCost: number;
+    outputSizePresets: { id: string; label: string; width: number; height: number; unit: string }[];
+  }[];
+  tags: { id: string; name: string }[];
+  tagsEnabled: boolean;
+};
+
+type FormState = {
+  name: string;
+  cronRule: string;
+  title: string;
+  description: string;
+  projectId: string;
+  jobTypeId: string;
+  quantity: number;
+  priority: TicketPriority;
+  dueInDays: string;
+  tagIds: string[];
+  outputSpecs: Record<string, number>;
+};
+
+// Common cadences offered in the form. Rules are evaluated in UTC.
+const CRON_PRESETS: { label: string; rule: string }[] = [
+  { label: "Every Monday, 09:00 UTC", rule: "0 9 * * 1" },
+  { label: "Every weekday, 09:00 UTC", rule: "0 9 * * 1-5" },
+  { label: "1st of every month, 09:00 UTC", rule: "0 9 1 * *" },
+  { label: "Every other week (1st & 15th), 09:00 UTC", rule: "0 9 1,15 * *" },
+];
+
+const EMPTY_FORM: FormState = {
+  name: "",
+  cronRule: CRON_PRESETS[0].rule,
+  title: "",
+  description: "",
+  projectId: "",
+  jobTypeId: "",
+  quantity: 1,
+  priority: "MEDIUM",
+  dueInDays: "",
+  tagIds: [],
+  outputSpecs: {},
+};
+
+function scheduleToForm(s: Schedule): FormState {
+  return {
+    name: s.name,
+    cronRule: s.cronRule,
+    title: s.title,
+    description: s.description ?? "",
+    projectId: s.project?.id ?? "",
+    jobTypeId: s.jobType.id,
+    quantity: s.quantity,
+    priority: s.priority,
+    dueInDays: s.dueInDays ? String(s.dueInDays) : "",
+    tagIds: s.tagIds,
+    outputSpecs: Object.fromEntries(s.outputSpecs.map((o) => [o.presetId, o.quantity])),
+  };
+}
+
+const LAST_RUN_LABELS: Record<NonNullable<Schedule["lastRunStatus"]>, string> = {
+  CREATED: "Ticket created",
+  INSUFFICIENT_TOKENS: "Skipped — not enough tokens",
+  FAILED: "Skipped — error",
+};
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function CustomerRecurringTicketsPage() {
+  const [schedules, setSchedules] = useState<Schedule[] | null>(null);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const [meta, setMeta] = useState<Metadata | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [deleteTarget, setDeleteTarget] = useState<Schedule | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await fetch("/api/customer/recurring-tickets", { cache: "no-store" });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(json?.error ?? `Request failed with status ${res.status}`);
+        return;
+      }
+      setSchedules(json.schedules as Schedule[]);
+      setCanManage(Boolean(json.canManage));
+    } catch (err) {
+      console.error("Recurring tickets fetch error:", err);
+      setError("Unexpected error while loading recurring tickets.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Form metadata (projects / job types / tags) is only needed once the
+  // form opens.
+  useEffect(() => {
+    if (!formOpen || meta) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/customer/tickets/new-metadata", { cache: "no-store" });
+        const json = await res.json().catch(() => null);
+        if (!res.ok) {
+          if (!cancelled) setFormError(json?.error ?? "Failed to load form options.");
+          return;
+        }
+        if (!cancelled) setMeta(json as Metadata);
+      } catch {
+        if (!cancelled) setFormError("Failed to load form options.");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [formOpen, meta]);
+
+  const selectedJobType = useMemo(
+    () => meta?.jobTypes.find((j) => j.id === form.jobTypeId) ?? null,
+    [meta, form.jobTypeId],
+  );
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (s: Schedule) => {
+    setEditingId(s.id);
+    setForm(scheduleToForm(s));
+    setFormError(null);
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setFormError(null);
+    try {
+      const presetIds = new Set(selectedJobType?.outputSizePresets.map((p) => p.id) ?? []);
+      const payload = {
+        name: form.name,
+        cronRule: form.cronRule,
+        title: form.title,
+        description: form.description,
+        projectId: form.projectId || null,
+        jobTypeId: form.jobTypeId,
+        quantity: form.quantity,
+        priority: form.priority,
+        dueInDays: form.dueInDays ? Number(form.dueInDays) : null,
+        tagIds: form.tagIds,
+        outputSpecs: Object.entries(form.outputSpecs)
+          .filter(([presetId, quantity]) => presetIds.has(presetId) && quantity > 0)
+          .map(([presetId, quantity]) => ({ presetId, quantity })),
+      };
+      const res = await fetch(
+        editingId
+          ? `/api/customer/recurring-tickets/${editingId}`
+          : "/api/customer/recurring-tickets",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        },
+      );
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setFormError(json?.error ?? `Request failed with status ${res.status}`);
+        return;
+      }
+      setFormOpen(false);
+      await load();
+    } catch (err) {
+      console.error("Save recurring ticket error:", err);
+      setFormError("Failed to save. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (s: Schedule) => {
+    setTogglingId(s.id);
+    setActionError(null);
+    try {
+      const res = await fetch(`/api/customer/recurring-tickets/${s.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !s.isActive }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setActionError(json?.error ?? "Failed to update schedule.");
+        return;
+      }
+      await load();
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    setDeleting(true);
+    setActionError(null);
+    try {
+      const res = await fetch(`/api/customer/recurring-tickets/${deleteTarget.id}`, {
+        method: "DELETE",
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setActionError(json?.error ?? "Failed to delete schedule.");
+        return;
+      }
+      setDeleteTarget(null);
+      await load();
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const isPresetRule = CRON_PRESETS.some((p) => p.rule === form.cronRule);
+
+  return (
+    <>
+      {/* Page header */}
+      <div className="mt-2 mb-4 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Recurring tickets</h1>
+          <p className="mt-1 text-sm text-[var(--bb-text-secondary)]">
+            Tickets your team files on a fixed cadence. Each run debits tokens like a normal
+            request; if the balance is too low the run is skipped and company owners are notified.
+          </p>
+        </div>
+        {canManage && <Button onClick={openCreate}>New schedule</Button>}
+      </div>
+
+      {error && (
+        <InlineAlert variant="error" className="mb-4">
+          {error}
+        </InlineAlert>
+      )}
+      {actionError && (
+        <InlineAlert variant="error" className="mb-4">
+          {actionError}
+        </InlineAlert>
+      )}
+
+      {loading ? (
+        <LoadingState message="Loading recurring tickets…" />
+      ) : schedules && schedules.length === 0 ? (
+        <EmptyState
+          title="No recurring tickets yet."
+          description="Set up a schedule for work you request every week or month."
+        />
+      ) : (
+        <div className="space-y-3">
+          {(schedules ?? []).map((s) => (
+            <div
+              key={s.id}
+              className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-4 py-4 shadow-sm"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-semibold text-[var(--bb-secondary)]">{s.name}</p>
+                    <Badge variant={s.isActive ? "success" : "neutral"}>
+                      {s.isActive ? "Active" : "Paused"}
+                    </Badge>
+                  </div>
+                  <p className="mt-0.5 text-xs text-[var(--bb-text-secondary)]">
+                    “{s.title}” · {s.jobType.name}
+                    {s.quantity > 1 ? ` ×${s.quantity}` : ""} · {s.tokenCostPerRun} tokens / run
+                    {s.project ? ` · ${s.project.name}` : ""}
+                  </p>
+                  <p className="mt-1 text-[11px] text-[var(--bb-text-tertiary)]">
+                    <code>{s.cronRule}</code> (UTC) · Next run:{" "}
+                    {s.isActive && s.nextRunAt ? formatDateTime(s.nextRunAt) : "—"}
+                  </p>
+                  {s.lastRunStatus && (
+                    <p
+                      className={`mt-1 text-[11px] ${
+                        s.lastRunStatus === "CREATED"
+                          ? "text-[var(--bb-text-tertiary)]"
+                          : "text-[var(--bb-danger-text)]"
+                      }`}
+                    >
+                      Last run {s.lastRunAt ? formatDateTime(s.lastRunAt) : ""}:{" "}
+                      {LAST_RUN_LABELS[s.lastRunStatus]}
+                      {s.lastRunStatus === "CREATED" && s.lastTicketId && (
+                        <>
+                          {" "}
+                          ·{" "}
+                          <a
+                            href={`/customer/tickets/${s.lastTicketId}`}
+                            className="text-[var(--bb-primary)] hover:underline"
+                          >
+                            View ticket
+                          </a>
+                        </>
+                      )}
+                      {s.lastRunStatus !== "CREATED" && s.lastRunError
+                        ? ` (${s.lastRunError})`
+                        : ""}
+                    </p>
+                  )}
+                </div>
+                {canManage && (
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      loading={togglingId === s.id}
+                      loadingText="Saving…"
+                      onClick={() => handleToggleActive(s)}
+                    >
+                      {s.isActive ? "Pause" : "Resume"}
+                    </Button>
+                    <Button variant="secondary" size="sm" onClick={() => openEdit(s)}>
+                      Edit
+                    </Button>
+                    <Button variant="danger" size="sm" onClick={() => setDeleteTarget(s)}>
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create / edit modal */}
+      <Modal open={formOpen} onClose={() => setFormOpen(false)} size="lg" scrollable>
+        <ModalHeader
+          title={editingId ? "Edit recurring ticket" : "New recurring ticket"}
+          onClose={() => setFormOpen(false)}
+        />
+        {formError && (
+          <InlineAlert variant="error" size="sm" className="mb-3">
+            {formError}
+          </InlineAlert>
+        )}
+        {!meta ? (
+          <LoadingState message="Loading options…" />
+        ) : (
+          <div className="space-y-3 text-xs">
+            <label className="block">
+              <span className="text-[var(--bb-text-secondary)]">Schedule name</span>
+              <FormInput
+                value={form.name}
+                onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+                placeholder="Weekly social pack"
+              />
+            </label>
+
+            <label className="block">
+              <span className="text-[var(--bb-text-secondary)]">Repeats</span>
+              <FormSelect
+                value={isPresetRule ? form.cronRule : "CUSTOM"}
+                onChange={(e) =>
+                  setForm((f) => ({
+                    ...f,
+                    cronRule: e.target.value === "CUSTOM" ? "" : e.target.value,
+                  }))
+                }
+              >
+                {CRON_PRESETS.map((p) => (
+                  <option key={p.rule} value={p.rule}>
+                    {p.label}
+                  </option>
+                ))}
+                <option value="CUSTOM">Custom (cron rule)</option>
+              </FormSelect>
+              {!isPresetRule && (
+                <FormInput
+                  className="mt-2 font-mono"
+                  value={form.cronRule}
+                  onChange={(e) => setForm((f) => ({ ...f, cronRule: e.target.value }))}
+                  placeholder="minute hour day-of-month month day-of-week, e.g. 0 9 * * 1"
+                />
+              )}
+            </label>
+
+            <label className="block">
+              <span className="text-[var(--bb-text-secondary)]">Ticket title</span>
+              <FormInput
+                value={form.title}
+                onChange={(e) => setForm((f) => ({ ...f, title: e.target.value }))}
+                placeholder="Monthly newsletter header"
+              />
+            </label>
+
+            <label className="block">
+              <span className="text-[var(--bb-text-secondary)]">Brief</span>
+              <FormTextarea
+                rows={4}
+                value={form.description}
+                onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+              />
+            </label>
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-[var(--bb-text-secondary)]">Project</span>
+                <FormSelect
+                  value={form.projectId}
+                  onChange={(e) => setForm((f) => ({ ...f, projectId: e.target.value }))}
+                >
+                  <option value="">No project</option>
+                  {meta.projects.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </FormSelect>
+              </label>
+              <label className="block">
+                <span className="text-[var(--bb-text-secondary)]">Job type</span>
+                <FormSelect
+                  value={form.jobTypeId}
+                  onChange={(e) =>
+                    setForm((f) => ({ ...f, jobTypeId: e.target.value, outputSpecs: {} }))
+                  }
+                >
+                  <option value="">Select a job type</option>
+                  {meta.jobTypes.map((j) => (
+                    <option key={j.id} value={j.id}>
+                      {j.name} ({j.tokenCost} tokens)
+                    </option>
+                  ))}
+                </FormSelect>
+              </label>
+              <label className="block">
+                <span className="text-[var(--bb-text-secondary)]">Quantity</span>
+                <FormInput
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={form.quantity}
+                  onChange={(e) =>
+                    setForm((f) => ({ ...f, quantity: Math.max(1, Number(e.target.value) || 1) }))
+                  }
+                />
+              </label>
+              <label className="block">
+                <span className="text-[var(--bb-text-secondary)]">Priority</span>
+                <FormSelect
+                  value={form.priority}
+                  onChange={(e) =>
+                    setForm((f) => ({ ...f, priority: e.target.value as TicketPriority }))
+                  }
+                >
+                  {PRIORITY_ORDER.map((p) => (
+                    <option key={p} value={p}>
+                      {formatPriorityLabel(p)}
+                    </option>
+                  ))}
+                </FormSelect>
+              </label>
+              <label className="block">
+                <span className="text-[var(--bb-text-secondary)]">Due after (days)</span>
+                <FormInput
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={form.dueInDays}
+                  onChange={(e) => setForm((f) => ({ ...f, dueInDays: e.target.value }))}
+                  placeholder="No due date"
+                />
+              </label>
+            </div>
+
+            {selectedJobType && selectedJobType.outputSizePresets.length > 0 && (
+              <div>
+                <p className="text-[var(--bb-text-secondary)]">Output sizes</p>
+                <div className="mt-1 grid grid-cols-2 gap-2">
+                  {selectedJobType.outputSizePresets.map((preset) => (
+                    <label key={preset.id} className="flex items-center justify-between gap-2">
+                      <span className="truncate">
+                        {preset.label}{" "}
+                        <span className="text-[var(--bb-text-tertiary)]">
+                          {preset.width}×{preset.height}
+                          {preset.unit}
+                        </span>
+                      </span>
+                      <FormInput
+                        size="sm"
+                        type="number"
+                        min={0}
+                        max={50}
+                        className="w-16"
+                        value={form.outputSpecs[preset.id] ?? 0}
+                        onChange={(e) =>
+                          setForm((f) => ({
+                            ...f,
+                            outputSpecs: {
+                              ...f.outputSpecs,
+                              [preset.id]: Math.max(0, Number(e.target.value) || 0),
+                            },
+                          }))
+                        }
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {meta.tagsEnabled && meta.tags.length > 0 && (
+              <div>
+                <p className="text-[var(--bb-text-secondary)]">Tags</p>
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {meta.tags.map((tag) => {
+                    const checked = form.tagIds.includes(tag.id);
+                    return (
+                      <label key={tag.id} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={checked}
+                          disabled={!checked && form.tagIds.length >= 5}
+                          onChange={() =>
+                            setForm((f) => ({
+                              ...f,
+                              tagIds: checked
+                                ? f.tagIds.filter((id) => id !== tag.id)
+                                : [...f.tagIds, tag.id],
+                            }))
+                          }
+                        />
+                        {tag.name}
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {selectedJobType && (
+              <p className="text-[11px] text-[var(--bb-text-tertiary)]">
+                Each run costs {selectedJobType.tokenCost * form.quantity} tokens. Current balance:{" "}
+                {meta.tokenBalance} tokens.
+              </p>
+            )}
+          </div>
+        )}
+        <ModalFooter>
+          <Button variant="ghost" onClick={() => setFormOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={saving} disabled={!meta}>
+            {editingId ? "Save changes" : "Create schedule"}
+          </Button>
+        </ModalFooter>
+      </Modal>
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        loading={deleting}
+        title="Delete recurring ticket?"
+        description={
+          deleteTarget
+            ? `"${deleteTarget.name}" will stop creating tickets. Tickets it already created are kept.`
+            : undefined
+        }
+        confirmLabel="Delete"
+      />
+    </>
+  );
+}
@@ -1,9 +1,10 @@
 // -----------------------------------------------------------------------------
 // @file: app/customer/settings/page.tsx
-// @purpose: Customer-facing settings page (account + company + plan overview)
-// @version: v1.4.0
+// @purpose: Customer-facing settings page (account + company + plan overview,
+//           tags, ticket custom fields, auto-assign strategy and approval chains)
+// @version: v1.7.0
 // @status: active
-// @lastUpdate: 2025-12-18
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 "use client";
@@ -16,6 +17,9 @@ import { useToast } from "@/components/ui/toast-provider";
 import { FormInput } from "@/components/ui/form-field";
 import { Button } from "@/components/ui/button";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { CustomFieldsSettings } from "@/components/tickets/custom-fields-settings";
+import { AutoAssignSettings } from "@/components/tickets/auto-assign-settings";
+import { ApprovalPolicySettings } from "@/components/tickets/approval-policy-settings";
 import { Modal, ModalHeader, ModalFooter } from "@/components/ui/modal";
 import { TagBadge } from "@/components/ui/tag-badge";
 import { TAG_COLORS, TAG_COLOR_KEYS, type TagColorKey } from "@/lib/tag-colors";
@@ -113,11 +117,36 @@ const CUSTOMER_PREFS: { type: string; label: string; description: string }[] = [
     label: "Creative submitted a new revision",
     description: "Get notified when your creative uploads new work for review",
   },
+  {
+    type: "APPROVAL_REQUESTED",
+    label: "Approval requested",
+    description: "Get notified when it's your turn to sign off a revision",
+  },
+  {
+    type: "MENTIONED",
+    label: "Mentioned in a comment",
+    description: "Get notified when someone @mentions you in a ticket comment",
+  },
+  {
+    type: "TICKET_COMMENTED",
+    label: "New comment on a watched ticket",
+    description: "Get notified when someone comments on a ticket you're watching",
+  },
   {
     type: "TICKET_STATUS_CHANGED",
     label: "Ticket status changed",
     description: "Get notified when a ticket's status is updated",
   },
+  {
+    type: "TICKET_UNBLOCKED",
+    label: "Ticket unblocked",
+    description: "Get notified when every ticket blocking one of yours is done",
+  },
+  {
+    type: "RECURRING_TICKET_SKIPPED",
+    label: "Scheduled ticket skipped",
+    description: "Get notified when a recurring schedule can't create its ticket",
+  },
   {
     type: "PIN_RESOLVED",
     label: "Feedback note resolved",
@@ -1347,6 +1376,13 @@ export default function CustomerSettingsPage() {
         </div>
       )}
 
+      {/* Custom fields — OWNER + PM only */}
+      {!loading && data && canEditCompany && <CustomFieldsSettings />}
+
+      {/* Auto-assign strategy — OWNER + PM only */}
+      {!loading && data && canEditCompany && <AutoAssignSettings />}
+      {!loading && data && canEditCompany && <ApprovalPolicySettings />}
+
       {/* Tag management — OWNER + PM only, and only when the global
           TAGS_ENABLED feature flag is on. When off, the whole card is
           hidden so the company doesn't see a manage-UI for a feature
@@ -1,10 +1,11 @@
 // -----------------------------------------------------------------------------
 // @file: app/customer/tickets/[ticketId]/page.tsx
 // @purpose: Customer-facing ticket detail page — full 2-column layout with
-//           revisions, inline editing, status actions, tags, and comments.
-// @version: v2.0.0
+//           revisions, inline editing, status actions, approval chain, tags,
+//           custom fields, guest review links and comments.
+// @version: v2.6.0
 // @status: active
-// @lastUpdate: 2025-12-28
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 "use client";
@@ -50,14 +51,32 @@ import type { TicketStatus, TicketPriority } from "@/lib/board";
 import {
   CompanyRole,
   normalizeCompanyRole,
+  canCreateTickets,
   canEditTickets,
   canManageTags,
   isCompanyAdminRole,
   canMarkTicketsDoneForCompany,
 } from "@/lib/permissions/companyRoles";
+import {
+  type ProjectRole,
+  canCommentInProject,
+  canEditTicketsInProject,
+} from "@/lib/permissions/projectRoles";
 import { downloadSingleAsset, downloadAssetsAsZip } from "@/lib/download-helpers";
 import { RevisionCompare } from "@/components/ui/revision-compare";
 import { AiTicketControls } from "@/components/ui/ai-ticket-controls";
+import { TicketDependenciesPanel } from "@/components/tickets/ticket-dependencies-panel";
+import { GuestReviewPanel } from "@/components/tickets/guest-review-panel";
+import { TicketCustomFieldsPanel } from "@/components/tickets/ticket-custom-fields-panel";
+import type { TicketCustomFieldEntry } from "@/components/tickets/custom-field-inputs";
+import { CommentBody, MentionTextarea } from "@/components/tickets/mention-textarea";
+import { WatchToggle } from "@/components/tickets/watch-toggle";
+import {
+  TicketApprovalsPanel,
+  type TicketApprovalsView,
+} from "@/components/tickets/ticket-approvals-panel";
+import type { MentionCandidate, MentionTarget } from "@/lib/tickets/comment-mentions";
+import type { RevisionPinSummary } from "@/lib/tickets/pin-carry-over";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -98,8 +117,14 @@ type TicketDetailResponse = {
     createdBy: { id: string; name: string | null; email: string } | null;
     completedAt: string | null;
     completedBy: { id: string; name: string | null; email: string } | null;
+    reopenCount: number;
+    /** Set while OWNER/PM can still reopen this DONE ticket for a free correction. */
+    reopenableUntil: string | null;
     tags: { id: string; name: string; color: string }[];
+    /** Every company custom field with this ticket's value. */
+    customFields: TicketCustomFieldEntry[];
     moodboards?: TicketMoodboard[];
+    viewerProjectRole?: ProjectRole | null;
   };
 };
 
@@ -122,6 +147,7 @@ type TicketRevisionEntry = {
   feedbackAt: string | null;
   feedbackMessage: string | null;
   assets: TicketRevisionAsset[];
+  pinSummary?: RevisionPinSummary;
 };
 
 type NewTicketMetadata = {
@@ -144,6 +170,7 @@ type TicketComment = {
     email: string;
     role: string;
   };
+  mentions?: MentionTarget[];
 };
 
 type TicketAsset = {
@@ -224,6 +251,7 @@ export default function CustomerTicketDetailPage() {
   const [commentsLoading, setCommentsLoading] = useState(false);
   const [commentsError, setCommentsError] = useState<string | null>(null);
   const [newComment, setNewComment] = useState("");
+  const [mentionCandidates, setMentionCandidates] = useState<MentionCandidate[]>([]);
   const [submittingComment, setSubmittingComment] = useState(false);
 
   // Brief assets
@@ -247,6 +275,9 @@ export default function CustomerTicketDetailPage() {
   const [showRatingModal, setShowRatingModal] = useState(false);
   const [statusSaving, setStatusSaving] = useState(false);
   const [statusError, setStatusError] = useState<string | null>(null);
+  const [approvals, setApprovals] = useState<TicketApprovalsView | null>(null);
+  // The server enforces the chain too; this only explains the disabled button.
+  const approvalsPending = !!approvals?.revision && !approvals.state.satisfied;
 
   // Inline editing
   const [editing, setEditing] = useState(false);
@@ -276,9 +307,14 @@ export default function CustomerTicketDetailPage() {
     () => (companyRole ? normalizeCompanyRole(companyRole) : null),
     [companyRole],
   );
+  // Project VIEWERs can read the ticket but not edit, review, or comment.
+  const projectAllowsEdit =
+    ticket?.viewerProjectRole === undefined || canEditTicketsInProject(ticket.viewerProjectRole);
+  const projectAllowsComment =
+    ticket?.viewerProjectRole === undefined || canCommentInProject(ticket.viewerProjectRole);
   const userCanEdit = useMemo(
-    () => ticket?.status === "TODO" && canEditTickets(normalizedRole),
-    [ticket?.status, normalizedRole],
+    () => ticket?.status === "TODO" && canEditTickets(normalizedRole) && projectAllowsEdit,
+    [ticket?.status, normalizedRole, projectAllowsEdit],
   );
   const userCanMarkDone = useMemo(
     () => canMarkTicketsDoneForCompany("CUSTOMER", normalizedRole),
@@ -299,6 +335,51 @@ export default function CustomerTicketDetailPage() {
   const [cancelling, setCancelling] = useState(false);
   const [cancelError, setCancelError] = useState<string | null>(null);
 
+  // Correction reopen. OWNER + PM only, while the server reports the ticket
+  // is still inside the reopen window (reopenableUntil).
+  const userCanReopen = useMemo(
+    () =>
+      ticket?.status === "DONE" && !!ticket?.reopenableUntil && isCompanyAdminRole(normalizedRole),
+    [ticket?.status, ticket?.reopenableUntil, normalizedRole],
+  );
+  const [reopenOpen, setReopenOpen] = useState(false);
+  const [reopenMessage, setReopenMessage] = useState("");
+  const [reopening, setReopening] = useState(false);
+  const [reopenError, setReopenError] = useState<string | null>(null);
+
+  // "Save as template" — any ticket-creating role can turn this brief into
+  // a company template for the new-ticket form.
+  const userCanSaveTemplate = useMemo(() => canCreateTickets(normalizedRole), [normalizedRole]);
+  const [templateOpen, setTemplateOpen] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const [templateSaving, setTemplateSaving] = useState(false);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [savedTemplateId, setSavedTemplateId] = useState<string | null>(null);
+
+  const handleSaveTemplate = useCallback(async () => {
+    if (!ticket?.id) return;
+    setTemplateSaving(true);
+    setTemplateError(null);
+    try {
+      const res = await fetch(`/api/customer/tickets/${ticket.id}/template`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: templateName }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        setTemplateError(body?.error || "Failed to save template");
+        return;
+      }
+      setSavedTemplateId(body?.template?.id ?? null);
+      setTemplateOpen(false);
+    } catch {
+      setTemplateError("Failed to save template");
+    } finally {
+      setTemplateSaving(false);
+    }
+  }, [ticket?.id, templateName]);
+
   const handleCancel = useCallback(async () => {
     if (!ticket?.id) return;
     setCancelling(true);
@@ -324,6 +405,35 @@ export default function CustomerTicketDetailPage() {
     }
   }, [ticket?.id, router, fromBoard]);
 
+  const handleReopen = useCallback(async () => {
+    if (!ticket?.id) return;
+    if (!reopenMessage.trim()) {
+      setReopenError("Please describe what needs correcting.");
+      return;
+    }
+    setReopening(true);
+    setReopenError(null);
+    try {
+      const res = await fetch(`/api/customer/tickets/${ticket.id}/reopen`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: reopenMessage.trim() }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        setReopenError(body?.error || "Failed to reopen ticket");
+        return;
+      }
+      setReopenOpen(false);
+      setReopenMessage("");
+      setRefreshCounter((c) => c + 1);
+    } catch {
+      setReopenError("Failed to reopen ticket");
+    } finally {
+      setReopening(false);
+    }
+  }, [ticket?.id, reopenMessage]);
+
   // Brief assets converted to AssetEntry for shared components
   const briefAssetEntries: AssetEntry[] = useMemo(
     () =>
@@ -425,7 +535,10 @@ export default function CustomerTicketDetailPage() {
             setCommentsError(json?.error || `Request failed with status ${res.status}`);
           return;
         }
-        if (!cancelled) setComments((json?.comments as TicketComment[]) ?? []);
+        if (!cancelled) {
+          setComments((json?.comments as TicketComment[]) ?? []);
+          setMentionCandidates((json?.mentionCandidates as MentionCandidate[]) ?? []);
+        }
       } catch (err) {
         console.error("Ticket comments fetch error:", err);
         if (!cancelled) setCommentsError("Unexpected error while loading comments.");
@@ -789,11 +902,26 @@ export default function CustomerTicketDetailPage() {
             </div>
           )}
 
+          {ticket && !editing && <WatchToggle apiBase={`/api/customer/tickets/${ticket.id}`} />}
+
           {/* Edit / Save / Cancel buttons. Cancel-with-refund is a
               separate action from "Cancel editing"; it sits next to
               "Edit" for OWNER/PM when the ticket is still cancellable. */}
-          {!editing && (userCanEdit || userCanCancel) && (
+          {!editing && (userCanEdit || userCanCancel || userCanReopen || userCanSaveTemplate) && (
             <div className="flex items-center gap-2">
+              {userCanSaveTemplate && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setTemplateName(ticket?.title ?? "");
+                    setTemplateError(null);
+                    setTemplateOpen(true);
+                  }}
+                >
+                  Save as template
+                </Button>
+              )}
               {userCanEdit && (
                 <Button variant="secondary" size="sm" onClick={startEditing}>
                   Edit
@@ -809,6 +937,18 @@ export default function CustomerTicketDetailPage() {
                   Cancel & refund
                 </Button>
               )}
+              {userCanReopen && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => {
+                    setReopenError(null);
+                    setReopenOpen(true);
+                  }}
+                >
+                  Reopen for correction
+                </Button>
+              )}
             </div>
           )}
           {editing && (
@@ -852,11 +992,13 @@ export default function CustomerTicketDetailPage() {
                     This request is ready for your review
                   </p>
                   <p className="mt-0.5 text-xs text-[var(--bb-text-secondary)]">
-                    Review the creative&apos;s work below, then approve it or request changes.
+                    {approvalsPending
+                      ? `Waiting on sign-off — ${approvals?.state.approved}/${approvals?.state.required} approvals so far.`
+                      : "Review the creative's work below, then approve it or request changes."}
                   </p>
                 </div>
                 <div className="flex items-center gap-2">
-                  {canEditTickets(normalizedRole) && (
+                  {canEditTickets(normalizedRole) && projectAllowsEdit && (
                     <Button
                       variant="secondary"
                       size="sm"
@@ -871,7 +1013,10 @@ export default function CustomerTicketDetailPage() {
                       size="sm"
                       className="bg-[#32b37b] hover:bg-[#2ba06a]"
                       onClick={() => setShowDoneModal(true)}
-                      disabled={statusSaving}
+                      disabled={statusSaving || approvalsPending}
+                      title={
+                        approvalsPending ? "Every required approver must sign off first" : undefined
+                      }
                     >
                       Mark as done
                     </Button>
@@ -880,6 +1025,14 @@ export default function CustomerTicketDetailPage() {
               </div>
             )}
 
+            {/* Approval chain card — hidden when the ticket has no policy */}
+            <TicketApprovalsPanel
+              ticketId={ticket.id}
+              refreshKey={refreshCounter}
+              onLoaded={setApprovals}
+              onDecided={() => setRefreshCounter((c) => c + 1)}
+            />
+
             {/* Approval banner — DONE */}
             {ticket.status === "DONE" && ticket.completedAt && (
               <div className="flex items-center gap-3 rounded-xl border border-[var(--bb-success-border)] bg-[var(--bb-success-bg)] px-4 py-3">
@@ -1116,6 +1269,25 @@ export default function CustomerTicketDetailPage() {
                                   )}
                                 </span>
                               )}
+                              {rev.pinSummary && rev.pinSummary.carriedIn > 0 && (
+                                <span
+                                  className="font-normal tracking-normal text-[var(--bb-text-tertiary)] normal-case"
+                                  title={`${rev.pinSummary.confirmedFixed} confirmed fixed, ${rev.pinSummary.confirmedStillOpen} still open`}
+                                >
+                                  &middot; ↪ {rev.pinSummary.carriedIn} carried over
+                                  {rev.pinSummary.awaitingConfirmation > 0 && (
+                                    <span className="ml-1 font-semibold text-[var(--bb-primary)]">
+                                      ({rev.pinSummary.awaitingConfirmation} to check)
+                                    </span>
+                                  )}
+                                </span>
+                              )}
+                              {rev.pinSummary && rev.pinSummary.carriedForward > 0 && (
+                                <span className="font-normal tracking-normal text-[var(--bb-text-tertiary)] normal-case">
+                                  &middot; {rev.pinSummary.carriedForward} moved to v
+                                  {rev.version + 1}
+                                </span>
+                              )}
                             </p>
                             {revAssets.length > 0 && (
                               <DownloadAllButton
@@ -1500,6 +1672,29 @@ export default function CustomerTicketDetailPage() {
               </div>
             </div>
 
+            {/* Custom fields card — editable in any status but cancelled */}
+            <TicketCustomFieldsPanel
+              ticketId={ticket.id}
+              fields={ticket.customFields ?? []}
+              canEdit={
+                ticket.status !== "CANCELED" && canEditTickets(normalizedRole) && projectAllowsEdit
+              }
+              onSaved={() => setRefreshCounter((c) => c + 1)}
+            />
+
+            {/* Dependencies card */}
+            <TicketDependenciesPanel
+              ticketId={ticket.id}
+              canEdit={canEditTickets(normalizedRole) && projectAllowsEdit}
+            />
+
+            {/* Guest reviews card */}
+            <GuestReviewPanel
+              ticketId={ticket.id}
+              revisionVersions={[...(revisions ?? [])].reverse().map((r) => r.version)}
+              onFeedbackAccepted={() => setRefreshCounter((c) => c + 1)}
+            />
+
             {/* Comments card */}
             <div className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-4 py-4 shadow-sm">
               <h3 className="mb-3 text-xs font-semibold tracking-[0.18em] text-[var(--bb-text-muted)] uppercase">
@@ -1538,46 +1733,71 @@ export default function CustomerTicketDetailPage() {
                           {formatDateTime(c.createdAt)}
                         </span>
                       </div>
-                      <p className="whitespace-pre-wrap text-[var(--bb-secondary)]">{c.body}</p>
+                      <CommentBody
+                        body={c.body}
+                        mentions={c.mentions ?? []}
+                        className="text-[var(--bb-secondary)]"
+                      />
                     </div>
                   ))}
               </div>
 
               {/* Add comment form */}
-              <div className="mt-3 border-t border-[var(--bb-border-subtle)] pt-3">
-                <label className="mb-1 block text-[11px] font-medium text-[var(--bb-secondary)]">
-                  Add a comment
-                </label>
-                <textarea
-                  value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
-                  rows={3}
-                  placeholder="Share feedback, clarifications, or next steps for this ticket."
-                  className="w-full rounded-md border border-[var(--bb-border-input)] bg-[var(--bb-bg-page)] px-3 py-2 text-[11px] text-[var(--bb-secondary)] outline-none focus:border-[var(--bb-primary)] focus:ring-1 focus:ring-[var(--bb-primary)]"
-                />
-                <div className="mt-2 flex items-center justify-between">
-                  <p className="text-[10px] text-[var(--bb-text-tertiary)]">
-                    Comments are visible to your team and Brandbite creatives.
-                  </p>
-                  <button
-                    type="button"
-                    disabled={submittingComment || !newComment.trim() || !ticketId}
-                    onClick={handleSubmitComment}
-                    className={`inline-flex items-center rounded-full px-3 py-1 text-[11px] font-medium ${
-                      submittingComment || !newComment.trim()
-                        ? "cursor-not-allowed bg-[var(--bb-border)] text-[var(--bb-text-tertiary)]"
-                        : "bg-[var(--bb-primary)] text-white hover:bg-[var(--bb-primary-hover)]"
-                    }`}
-                  >
-                    {submittingComment ? "Sending…" : "Add comment"}
-                  </button>
+              {projectAllowsComment ? (
+                <div className="mt-3 border-t border-[var(--bb-border-subtle)] pt-3">
+                  <label className="mb-1 block text-[11px] font-medium text-[var(--bb-secondary)]">
+                    Add a comment
+                  </label>
+                  <MentionTextarea
+                    value={newComment}
+                    onChange={setNewComment}
+                    candidates={mentionCandidates}
+                    rows={3}
+                    placeholder="Share feedback, clarifications, or next steps. Type @ to mention someone."
+                    className="w-full rounded-md border border-[var(--bb-border-input)] bg-[var(--bb-bg-page)] px-3 py-2 text-[11px] text-[var(--bb-secondary)] outline-none focus:border-[var(--bb-primary)] focus:ring-1 focus:ring-[var(--bb-primary)]"
+                  />
+                  <div className="mt-2 flex items-center justify-between">
+                    <p className="text-[10px] text-[var(--bb-text-tertiary)]">
+                      Comments are visible to your team and Brandbite creatives. Mentioned people
+                      are notified.
+                    </p>
+                    <button
+                      type="button"
+                      disabled={submittingComment || !newComment.trim() || !ticketId}
+                      onClick={handleSubmitComment}
+                      className={`inline-flex items-center rounded-full px-3 py-1 text-[11px] font-medium ${
+                        submittingComment || !newComment.trim()
+                          ? "cursor-not-allowed bg-[var(--bb-border)] text-[var(--bb-text-tertiary)]"
+                          : "bg-[var(--bb-primary)] text-white hover:bg-[var(--bb-primary-hover)]"
+                      }`}
+                    >
+                      {submittingComment ? "Sending…" : "Add comment"}
+                    </button>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <p className="mt-3 border-t border-[var(--bb-border-subtle)] pt-3 text-[10px] text-[var(--bb-text-tertiary)]">
+                  You have view-only access to this project.
+                </p>
+              )}
             </div>
           </aside>
         </div>
       )}
 
+      {savedTemplateId && (
+        <InlineAlert variant="success" className="mb-4">
+          Template saved.{" "}
+          <a
+            href={`/customer/tickets/new?templateId=${savedTemplateId}`}
+            className="font-semibold underline underline-offset-2 hover:no-underline"
+          >
+            Start a new request from it
+          </a>
+          .
+        </InlineAlert>
+      )}
+
       {!error && !ticket && (
         <div className="mt-6 rounded-xl border border-amber-200 bg-[var(--bb-warning-bg)] px-4 py-3 text-sm text-amber-800">
           Ticket could not be loaded.
@@ -1728,6 +1948,98 @@ export default function CustomerTicketDetailPage() {
         loading={cancelling}
       />
 
+      {/* Correction reopen. Server enforces OWNER/PM, the reopen window and
+          one reopen per ticket; the note lands on the latest revision. */}
+      <Modal open={reopenOpen} onClose={() => !reopening && setReopenOpen(false)} size="md">
+        <ModalHeader
+          title="Reopen for a correction?"
+          subtitle={`The ticket moves back to In progress and your creative fixes it at no extra token cost. One correction per ticket${
+            ticket?.reopenableUntil
+              ? `, available until ${formatDateTime(ticket.reopenableUntil)}`
+              : ""
+          }.`}
+        />
+        <label className="block text-xs font-medium text-[var(--bb-secondary)]">
+          What needs correcting?
+        </label>
+        <textarea
+          value={reopenMessage}
+          onChange={(e) => {
+            setReopenMessage(e.target.value);
+            if (reopenError) setReopenError(null);
+          }}
+          maxLength={2000}
+          placeholder="For example: The phone number in the footer has a typo — it should end in 42."
+          className="mt-1.5 h-28 w-full rounded-xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-3 py-2.5 text-xs text-[var(--bb-secondary)] outline-none placeholder:text-[var(--bb-text-muted)] focus:border-[var(--bb-primary)] focus:ring-1 focus:ring-[var(--bb-primary)]"
+        />
+        {reopenError && (
+          <p className="mt-1 text-[11px] text-[var(--bb-danger-text)]">{reopenError}</p>
+        )}
+        <ModalFooter>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setReopenOpen(false)}
+            disabled={reopening}
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleReopen}
+            loading={reopening}
+            loadingText="Reopening…"
+            disabled={reopenMessage.trim().length === 0}
+          >
+            Reopen ticket
+          </Button>
+        </ModalFooter>
+      </Modal>
+
+      {/* Save as template */}
+      <Modal
+        open={templateOpen}
+        onClose={() => !templateSaving && setTemplateOpen(false)}
+        size="sm"
+      >
+        <ModalHeader
+          title="Save as template"
+          subtitle="Copies the title, brief, project, job type, quantity, output sizes, priority and tags. Due date and attachments aren't included."
+        />
+        <label className="block text-xs font-medium text-[var(--bb-secondary)]">
+          Template name
+        </label>
+        <FormInput
+          className="mt-1.5"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          maxLength={80}
+          placeholder="e.g. Weekly social post"
+        />
+        {templateError && (
+          <p className="mt-1 text-[11px] text-[var(--bb-danger-text)]">{templateError}</p>
+        )}
+        <ModalFooter>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setTemplateOpen(false)}
+            disabled={templateSaving}
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleSaveTemplate}
+            loading={templateSaving}
+            loadingText="Saving…"
+            disabled={templateName.trim().length === 0}
+          >
+            Save template
+          </Button>
+        </ModalFooter>
+      </Modal>
+
       {/* Revision comparison overlay */}
       {showCompare && revisions && revisions.length >= 2 && (
         <RevisionCompare
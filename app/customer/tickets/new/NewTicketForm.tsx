@@ -1,9 +1,9 @@
 // -----------------------------------------------------------------------------
 // @file: app/customer/tickets/new/NewTicketForm.tsx
 // @purpose: Client-side form for creating a new design ticket (role-aware)
-// @version: v1.6.0
+// @version: v1.8.0
 // @status: active
-// @lastUpdate: 2025-12-27
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 "use client";
@@ -18,6 +18,7 @@ import {
   isBillingReadOnly,
 } from "@/lib/permissions/companyRoles";
 import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { FormInput, FormSelect } from "@/components/ui/form-field";
 import { RichTextEditor } from "@/components/ui/rich-text-editor";
 import { TagMultiSelect, type TagOption } from "@/components/ui/tag-multi-select";
@@ -28,6 +29,13 @@ import {
 } from "@/components/tokens/insufficient-tokens-modal";
 import { isInsufficientTokensBody } from "@/lib/errors/insufficient-tokens";
 import type { TagColorKey } from "@/lib/tag-colors";
+import { renderTitlePattern } from "@/lib/tickets/template-title";
+import { validateCustomFieldValues } from "@/lib/tickets/custom-field-values";
+import {
+  CustomFieldInputs,
+  type CustomFieldDefinitionOption,
+  type CustomFieldFormValues,
+} from "@/components/tickets/custom-field-inputs";
 import { canManageTags as canManageTagsCheck } from "@/lib/permissions/companyRoles";
 import {
   BRIEF_ACCEPT_ATTR,
@@ -56,6 +64,25 @@ type JobTypeOption = {
   defaultQuantity?: number;
 };
 
+type OutputSpecSelection = {
+  presetId: string;
+  quantity: number;
+  preset: { label: string; width: number; height: number; unit: string };
+};
+
+type TemplateOption = {
+  id: string;
+  name: string;
+  titlePattern: string;
+  description: string | null;
+  priority: TicketPriorityValue;
+  quantity: number;
+  tagIds: string[];
+  outputSpecs: OutputSpecSelection[];
+  project: { id: string } | null;
+  jobType: { id: string } | null;
+};
+
 type MoodboardOption = {
   id: string;
   title: string;
@@ -74,6 +101,8 @@ type Props = {
   onCreated?: (ticket: { id: string; code?: string | null }) => void;
   onCancel?: () => void;
   initialJobTypeId?: string;
+  /** Pre-apply this ticket template once templates have loaded. */
+  initialTemplateId?: string;
   /** Whether "Work with AI" mode is available (AI_TICKETS_MODE flag). When
    *  false, the mode selector is hidden and tickets are always DESIGNER. */
   aiEnabled?: boolean;
@@ -167,6 +196,7 @@ export default function NewTicketForm({
   onCreated,
   onCancel,
   initialJobTypeId,
+  initialTemplateId,
   aiEnabled = false,
 }: Props) {
   const router = useRouter();
@@ -182,6 +212,16 @@ export default function NewTicketForm({
   const [localTags, setLocalTags] = useState<TagOption[]>(tagsProp ?? []);
   const [moodboardId, setMoodboardId] = useState<string>("");
   const [moodboards, setMoodboards] = useState<MoodboardOption[]>([]);
+  const [outputSpecs, setOutputSpecs] = useState<OutputSpecSelection[]>([]);
+
+  // Ticket templates ("Start from template")
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [canManageTemplates, setCanManageTemplates] = useState(false);
+  const [templateId, setTemplateId] = useState<string>("");
+  const [templateToDelete, setTemplateToDelete] = useState<TemplateOption | null>(null);
+  const [deletingTemplate, setDeletingTemplate] = useState(false);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinitionOption[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldFormValues>({});
 
   // Sync when tags prop changes (e.g. after parent re-fetches)
   useEffect(() => {
@@ -214,6 +254,47 @@ export default function NewTicketForm({
     };
   }, []);
 
+  // Load company ticket templates for the "Start from template" picker
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/customer/ticket-templates", { cache: "no-store" });
+        if (!res.ok) return;
+        const json = await res.json();
+        if (!cancelled && Array.isArray(json.templates)) {
+          setTemplates(json.templates as TemplateOption[]);
+          setCanManageTemplates(Boolean(json.canManage));
+        }
+      } catch {
+        // Templates are optional — silently ignore
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Load the company's custom fields (campaign code, cost center, ...)
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/customer/custom-fields", { cache: "no-store" });
+        if (!res.ok) return;
+        const json = await res.json();
+        if (!cancelled && Array.isArray(json.fields)) {
+          setCustomFields(json.fields as CustomFieldDefinitionOption[]);
+        }
+      } catch {
+        // Custom fields are optional — silently ignore
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   // Quantity multiplier (1–10), reset when job type changes
   const initialQty = initialJobTypeId
     ? (jobTypes.find((j) => j.id === initialJobTypeId)?.defaultQuantity ?? 1)
@@ -224,6 +305,56 @@ export default function NewTicketForm({
     setJobTypeId(id);
     const jt = jobTypes.find((j) => j.id === id);
     setQuantity(jt?.defaultQuantity ?? 1);
+    // Output size presets belong to a job type
+    if (id !== jobTypeId) setOutputSpecs([]);
+  };
+
+  // Fill every field from a template. Anything the template points at that
+  // this user can't pick here (hidden project, retired job type, deleted tag)
+  // is left empty rather than failing the whole apply.
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    const t = templates.find((x) => x.id === id);
+    if (!t) return;
+
+    setTitle(renderTitlePattern(t.titlePattern));
+    setDescription(t.description ?? "");
+    setProjectId(t.project && projects.some((p) => p.id === t.project?.id) ? t.project.id : "");
+    const jt = t.jobType ? jobTypes.find((j) => j.id === t.jobType?.id) : undefined;
+    setJobTypeId(jt?.id ?? "");
+    setQuantity(jt ? t.quantity : 1);
+    setOutputSpecs(jt ? t.outputSpecs : []);
+    setPriority(t.priority);
+    setSelectedTagIds(t.tagIds.filter((tagId) => localTags.some((tag) => tag.id === tagId)));
+  };
+
+  // Apply ?templateId= once the templates have loaded
+  const [initialTemplateApplied, setInitialTemplateApplied] = useState(false);
+  useEffect(() => {
+    if (initialTemplateApplied || !initialTemplateId || templates.length === 0) return;
+    setInitialTemplateApplied(true);
+    if (templates.some((t) => t.id === initialTemplateId)) applyTemplate(initialTemplateId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [templates, initialTemplateId, initialTemplateApplied]);
+
+  const handleDeleteTemplate = async () => {
+    if (!templateToDelete) return;
+    setDeletingTemplate(true);
+    try {
+      const res = await fetch(`/api/customer/ticket-templates/${templateToDelete.id}`, {
+        method: "DELETE",
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(json?.error || "Failed to delete template.");
+        return;
+      }
+      setTemplates((prev) => prev.filter((t) => t.id !== templateToDelete.id));
+      if (templateId === templateToDelete.id) setTemplateId("");
+      setTemplateToDelete(null);
+    } finally {
+      setDeletingTemplate(false);
+    }
   };
 
   // Derive selected job type for token cost display
@@ -553,6 +684,13 @@ export default function NewTicketForm({
       return;
     }
 
+    // Same per-type + required checks the API runs on custom fields
+    const customFieldCheck = validateCustomFieldValues(customFields, customFieldValues);
+    if (!customFieldCheck.ok) {
+      setError(customFieldCheck.message);
+      return;
+    }
+
     // Permission & balance guards (depend on client state, not payload)
     if (companyRoleLoading) {
       setError("We are still loading your permissions. Please wait a moment.");
@@ -595,6 +733,11 @@ export default function NewTicketForm({
             tagIds: selectedTagIds.length > 0 ? selectedTagIds : undefined,
             creativeMode,
             moodboardId: moodboardId || undefined,
+            outputSpecs:
+              outputSpecs.length > 0
+                ? outputSpecs.map((o) => ({ presetId: o.presetId, quantity: o.quantity }))
+                : undefined,
+            customFields: customFieldValues,
           }),
         },
       );
@@ -701,6 +844,44 @@ export default function NewTicketForm({
         </div>
       )}
 
+      {/* Start from template */}
+      {templates.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <label className="text-xs font-medium text-[var(--bb-secondary)]">
+              Start from template
+            </label>
+            {canManageTemplates && templateId && (
+              <button
+                type="button"
+                onClick={() =>
+                  setTemplateToDelete(templates.find((t) => t.id === templateId) ?? null)
+                }
+                disabled={isBusy}
+                className="text-[11px] font-medium text-[var(--bb-text-muted)] hover:text-[var(--bb-danger-text)] hover:underline disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Delete template
+              </button>
+            )}
+          </div>
+          <FormSelect
+            value={templateId}
+            onChange={(e) => applyTemplate(e.target.value)}
+            disabled={isBusy}
+          >
+            <option value="">Blank request</option>
+            {templates.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </FormSelect>
+          <p className="text-[11px] text-[var(--bb-text-tertiary)]">
+            Pre-fills the fields below from a saved brief. You can edit anything before submitting.
+          </p>
+        </div>
+      )}
+
       {/* Creative Mode Selector — only when "Work with AI" is enabled
           (AI_TICKETS_MODE). Otherwise every ticket is a Designer ticket and
           the choice is hidden. */}
@@ -1093,6 +1274,33 @@ export default function NewTicketForm({
           </p>
         )}
 
+        {/* Output sizes — carried over from a template */}
+        {outputSpecs.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 pt-1">
+            <span className="text-[11px] text-[var(--bb-text-tertiary)]">Output sizes:</span>
+            {outputSpecs.map((o) => (
+              <span
+                key={o.presetId}
+                className="inline-flex items-center gap-1 rounded-full border border-[var(--bb-border)] bg-[var(--bb-bg-warm)] px-2 py-0.5 text-[11px] text-[var(--bb-secondary)]"
+              >
+                {o.preset.label} ({o.preset.width}×{o.preset.height}
+                {o.preset.unit}){o.quantity > 1 ? ` ×${o.quantity}` : ""}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setOutputSpecs((prev) => prev.filter((x) => x.presetId !== o.presetId))
+                  }
+                  disabled={isBusy}
+                  className="text-[var(--bb-text-muted)] hover:text-[var(--bb-secondary)]"
+                  aria-label={`Remove ${o.preset.label}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
         {insufficientTokens && (
           <div className="mt-1.5 rounded-md border border-red-200 bg-[var(--bb-danger-bg)] px-2.5 py-1.5 text-[11px] text-red-700">
             Not enough tokens to create this ticket. Choose a different job type or{" "}
@@ -1149,6 +1357,16 @@ export default function NewTicketForm({
         </div>
       ) : null}
 
+      {/* Company custom fields */}
+      {customFields.length > 0 && (
+        <CustomFieldInputs
+          fields={customFields}
+          values={customFieldValues}
+          onChange={setCustomFieldValues}
+          disabled={isBusy}
+        />
+      )}
+
       {/* Attach moodboard */}
       {moodboards.length > 0 && (
         <div className="space-y-1">
@@ -1206,6 +1424,20 @@ export default function NewTicketForm({
       </div>
 
       <InsufficientTokensModal info={tokenError} onClose={() => setTokenError(null)} />
+
+      <ConfirmDialog
+        open={!!templateToDelete}
+        onClose={() => setTemplateToDelete(null)}
+        onConfirm={handleDeleteTemplate}
+        loading={deletingTemplate}
+        title="Delete template?"
+        description={
+          templateToDelete
+            ? `"${templateToDelete.name}" will be removed for everyone in your company. Tickets created from it are kept.`
+            : undefined
+        }
+        confirmLabel="Delete"
+      />
     </form>
   );
 }
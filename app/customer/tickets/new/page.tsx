@@ -17,7 +17,7 @@ import { isSiteAdminRole } from "@/lib/roles";
 export default async function CustomerNewTicketPage({
   searchParams,
 }: {
-  searchParams: Promise<{ jobTypeId?: string }>;
+  searchParams: Promise<{ jobTypeId?: string; templateId?: string }>;
 }) {
   const user = await getCurrentUserOrThrow();
 
@@ -27,6 +27,7 @@ export default async function CustomerNewTicketPage({
 
   const params = await searchParams;
   const initialJobTypeId = params.jobTypeId ?? undefined;
+  const initialTemplateId = params.templateId ?? undefined;
   const company = await prisma.company.findUnique({
     where: { id: user.activeCompanyId },
     select: {
@@ -128,6 +129,7 @@ export default async function CustomerNewTicketPage({
           tokenBalance={company.tokenBalance}
           tags={tags as unknown as TagOption[]}
           initialJobTypeId={initialJobTypeId}
+          initialTemplateId={initialTemplateId}
           aiEnabled={aiEnabled}
           // When the global flag is off, force-hide tag UI for everyone —
           // including OWNER/PM who would otherwise see the create-tag chip
@@ -1,19 +1,26 @@
 // -----------------------------------------------------------------------------
 // @file: app/customer/tickets/page.tsx
 // @purpose: Customer-facing tickets list with server-driven search, filtering,
-//           sorting and pagination
-// @version: v2.0.0
+//           sorting, pagination, multi-select bulk actions and saved views
+//           (grouping, column visibility, shareable URL)
+// @version: v2.2.1
 // @status: active
-// @lastUpdate: 2026-02-21
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { BoardViewToggle } from "@/components/board/board-view-toggle";
 import { DataTable, THead, TH, TD } from "@/components/ui/data-table";
 import type { CompanyRole as CompanyRoleString } from "@/lib/permissions/companyRoles";
-import { canCreateTickets } from "@/lib/permissions/companyRoles";
+import {
+  canCreateTickets,
+  canEditTickets,
+  isCompanyAdminRole,
+} from "@/lib/permissions/companyRoles";
+import { CustomerBulkBar } from "@/components/tickets/customer-bulk-bar";
+import { SavedViewsBar } from "@/components/tickets/saved-views-bar";
 import { EmptyState } from "@/components/ui/empty-state";
 import { InlineAlert } from "@/components/ui/inline-alert";
 import { LoadingState } from "@/components/ui/loading-state";
@@ -24,7 +31,17 @@ import {
   statusBadgeVariant,
   isDueDateOverdue,
   isDueDateSoon,
+  PRIORITY_LABELS,
+  PRIORITY_ORDER,
 } from "@/lib/board";
+import { CUSTOM_FIELD_FILTER_PREFIX } from "@/lib/tickets/custom-field-values";
+import {
+  type SavedViewConfig,
+  type ViewGroupBy,
+  VIEW_COLUMNS,
+  VIEW_GROUP_BY,
+  VIEW_GROUP_BY_LABELS,
+} from "@/lib/tickets/saved-view-config";
 
 type TicketStatus = "TODO" | "IN_PROGRESS" | "IN_REVIEW" | "DONE";
 type TicketPriority = "LOW" | "MEDIUM" | "HIGH" | "URGENT";
@@ -71,6 +88,16 @@ const STATUS_LABELS: Record<TicketStatus, string> = {
   DONE: "Done",
 };
 
+const COLUMN_LABELS: Record<string, string> = {
+  project: "Project",
+  status: "Status",
+  priority: "Priority",
+  assigned: "Assigned",
+  jobType: "Job type",
+  created: "Created",
+  due: "Due",
+};
+
 const PAGE_SIZE = 50;
 
 export default function CustomerTicketsPage() {
@@ -87,6 +114,8 @@ export default function CustomerTicketsPage() {
   const [projectFilter, setProjectFilter] = useState<string>("ALL");
   const [priorityFilter, setPriorityFilter] = useState<"ALL" | TicketPriority>("ALL");
   const [tagFilter, setTagFilter] = useState<string>("ALL");
+  // `cf_<fieldId>` filters — only set from a saved view or a shared URL.
+  const [customFieldFilters, setCustomFieldFilters] = useState<Record<string, string>>({});
 
   // Sorting
   type SortField = "status" | "priority" | "createdAt" | "dueDate" | "title";
@@ -96,6 +125,11 @@ export default function CustomerTicketsPage() {
   // Pagination
   const [page, setPage] = useState(0);
 
+  // Layout (saved with views)
+  const [groupBy, setGroupBy] = useState<ViewGroupBy>("none");
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
+  const [columnsOpen, setColumnsOpen] = useState(false);
+
   // Tags for filter dropdown
   const [availableTags, setAvailableTags] = useState<TagOption[]>([]);
 
@@ -106,6 +140,9 @@ export default function CustomerTicketsPage() {
   const [companyRole, setCompanyRole] = useState<CompanyRoleString | null>(null);
   const [companyRoleLoading, setCompanyRoleLoading] = useState<boolean>(true);
 
+  // Bulk selection (ids on the current page)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
   // Ref for cancellation
   const fetchIdRef = useRef(0);
 
@@ -121,7 +158,7 @@ export default function CustomerTicketsPage() {
   // Reset page when filters change
   useEffect(() => {
     setPage(0);
-  }, [statusFilter, projectFilter, priorityFilter, tagFilter]);
+  }, [statusFilter, projectFilter, priorityFilter, tagFilter, customFieldFilters]);
 
   // ---- Fetch tickets ----
   const fetchTickets = useCallback(async () => {
@@ -136,6 +173,9 @@ export default function CustomerTicketsPage() {
       if (projectFilter !== "ALL") params.set("project", projectFilter);
       if (priorityFilter !== "ALL") params.set("priority", priorityFilter);
       if (tagFilter !== "ALL") params.set("tag", tagFilter);
+      for (const [fieldId, value] of Object.entries(customFieldFilters)) {
+        params.set(`${CUSTOM_FIELD_FILTER_PREFIX}${fieldId}`, value);
+      }
       params.set("sortBy", sortField);
       params.set("sortDir", sortDir);
       params.set("limit", String(PAGE_SIZE));
@@ -153,6 +193,8 @@ export default function CustomerTicketsPage() {
       const data = json as CustomerTicketsResponse;
       setCompany(data.company);
       setTickets(data.tickets);
+      // Selection is per page — drop it whenever the visible rows change.
+      setSelectedIds(new Set());
       setPagination(data.pagination);
     } catch (err: any) {
       if (id !== fetchIdRef.current) return;
@@ -169,6 +211,7 @@ export default function CustomerTicketsPage() {
     projectFilter,
     priorityFilter,
     tagFilter,
+    customFieldFilters,
     sortField,
     sortDir,
     page,
@@ -246,6 +289,86 @@ export default function CustomerTicketsPage() {
     };
   }, []);
 
+  // ---- Saved views ----
+  const viewConfig = useMemo<SavedViewConfig>(
+    () => ({
+      search: debouncedSearch.trim(),
+      status: statusFilter === "ALL" ? null : statusFilter,
+      projectId: projectFilter === "ALL" ? null : projectFilter,
+      priority: priorityFilter === "ALL" ? null : priorityFilter,
+      tagId: tagFilter === "ALL" ? null : tagFilter,
+      customFields: customFieldFilters,
+      sortBy: sortField,
+      sortDir,
+      groupBy,
+      hiddenColumns,
+    }),
+    [
+      debouncedSearch,
+      statusFilter,
+      projectFilter,
+      priorityFilter,
+      tagFilter,
+      customFieldFilters,
+      sortField,
+      sortDir,
+      groupBy,
+      hiddenColumns,
+    ],
+  );
+
+  const applyViewConfig = (config: SavedViewConfig) => {
+    setSearch(config.search);
+    setDebouncedSearch(config.search);
+    setStatusFilter(config.status ?? "ALL");
+    setProjectFilter(config.projectId ?? "ALL");
+    setPriorityFilter(config.priority ?? "ALL");
+    setTagFilter(config.tagId ?? "ALL");
+    setCustomFieldFilters(config.customFields);
+    setSortField(config.sortBy);
+    setSortDir(config.sortDir);
+    setGroupBy(config.groupBy);
+    setHiddenColumns(config.hiddenColumns);
+    setPage(0);
+  };
+
+  const isColumnVisible = (column: string) => !hiddenColumns.includes(column);
+  const toggleColumn = (column: string) =>
+    setHiddenColumns((prev) =>
+      prev.includes(column) ? prev.filter((c) => c !== column) : [...prev, column],
+    );
+
+  // Grouping works on the loaded page — sort order is kept inside each group.
+  const ticketGroups = useMemo(() => {
+    if (groupBy === "none") return [{ key: "all", label: "", tickets }];
+
+    const keyOf = (t: CustomerTicket) =>
+      groupBy === "status" ? t.status : groupBy === "priority" ? t.priority : (t.projectId ?? "");
+    const order =
+      groupBy === "status"
+        ? (Object.keys(STATUS_LABELS) as string[])
+        : groupBy === "priority"
+          ? (PRIORITY_ORDER as string[])
+          : Array.from(new Set(tickets.map(keyOf))).sort((a, b) => {
+              if (!a || !b) return a ? -1 : 1; // "No project" last
+              const name = (id: string) => tickets.find((t) => t.projectId === id)?.projectName;
+              return (name(a) ?? "").localeCompare(name(b) ?? "");
+            });
+
+    return order
+      .map((key) => {
+        const groupTickets = tickets.filter((t) => keyOf(t) === key);
+        const label =
+          groupBy === "status"
+            ? STATUS_LABELS[key as TicketStatus]
+            : groupBy === "priority"
+              ? PRIORITY_LABELS[key as TicketPriority]
+              : (groupTickets[0]?.projectName ?? "No project");
+        return { key, label, tickets: groupTickets };
+      })
+      .filter((g) => g.tickets.length > 0);
+  }, [tickets, groupBy]);
+
   // ---- Sorting handler ----
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -258,6 +381,18 @@ export default function CustomerTicketsPage() {
   };
 
   const canCreateNewTicket = companyRoleLoading ? false : canCreateTickets(companyRole);
+  const canBulkEdit =
+    !companyRoleLoading && (canEditTickets(companyRole) || isCompanyAdminRole(companyRole));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+  const clearSelection = () => setSelectedIds(new Set());
 
   const formatDate = (iso: string | null) => {
     if (!iso) return "-";
@@ -287,7 +422,7 @@ export default function CustomerTicketsPage() {
     <>
       {/* View switcher — Board (kanban) ↔ Table (this page) */}
       <div className="mt-2 mb-4">
-        <BoardViewToggle rolePath="/customer" />
+        <BoardViewToggle rolePath="/customer" showArchive />
       </div>
 
       {/* Page header */}
@@ -351,6 +486,8 @@ export default function CustomerTicketsPage() {
         </InlineAlert>
       )}
 
+      <SavedViewsBar page="TICKET_LIST" config={viewConfig} onApply={applyViewConfig} />
+
       {/* Filters */}
       <section className="mb-4 flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
         <div className="flex-1">
@@ -432,9 +569,63 @@ export default function CustomerTicketsPage() {
               </FormSelect>
             </div>
           )}
+
+          <div className="flex items-center gap-2">
+            <label className="text-xs font-medium text-[var(--bb-secondary)]">Group by</label>
+            <FormSelect
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as ViewGroupBy)}
+              size="sm"
+              className="w-auto"
+            >
+              {VIEW_GROUP_BY.TICKET_LIST.map((g) => (
+                <option key={g} value={g}>
+                  {VIEW_GROUP_BY_LABELS[g]}
+                </option>
+              ))}
+            </FormSelect>
+          </div>
+
+          <button
+            type="button"
+            onClick={() => setColumnsOpen((open) => !open)}
+            className={`self-center rounded-full border px-3 py-1 text-[11px] font-medium transition-colors ${
+              columnsOpen || hiddenColumns.length > 0
+                ? "border-[var(--bb-primary)] bg-[var(--bb-primary-light)] text-[var(--bb-primary)]"
+                : "border-[var(--bb-border)] text-[var(--bb-secondary)] hover:bg-[var(--bb-bg-card)]"
+            }`}
+          >
+            Columns{hiddenColumns.length > 0 ? ` (${hiddenColumns.length} hidden)` : ""}
+          </button>
         </div>
       </section>
 
+      {columnsOpen && (
+        <div className="mb-4 flex flex-wrap items-center gap-3 rounded-lg border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-3 py-2 text-[11px] text-[var(--bb-text-secondary)]">
+          <span className="font-medium">Show:</span>
+          {VIEW_COLUMNS.TICKET_LIST.map((column) => (
+            <label key={column} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={isColumnVisible(column)}
+                onChange={() => toggleColumn(column)}
+                className="h-3 w-3 rounded border-[var(--bb-border-input)] text-[var(--bb-primary)] focus:ring-[var(--bb-primary)]"
+              />
+              {COLUMN_LABELS[column]}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {canBulkEdit && (
+        <CustomerBulkBar
+          selectedIds={Array.from(selectedIds)}
+          companyRole={companyRole}
+          onClear={clearSelection}
+          onApplied={fetchTickets}
+        />
+      )}
+
       {/* Tickets table */}
       {!loading && tickets.length === 0 && !error && (
         <EmptyState title="No tickets found for this filter." />
@@ -453,102 +644,173 @@ export default function CustomerTicketsPage() {
 
           <DataTable>
             <THead>
+              {canBulkEdit && (
+                <TH className="w-8">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all tickets on this page"
+                    checked={tickets.length > 0 && tickets.every((t) => selectedIds.has(t.id))}
+                    onChange={(e) =>
+                      setSelectedIds(
+                        e.target.checked ? new Set(tickets.map((t) => t.id)) : new Set(),
+                      )
+                    }
+                    className="h-3 w-3 rounded border-[var(--bb-border-input)] text-[var(--bb-primary)] focus:ring-[var(--bb-primary)]"
+                  />
+                </TH>
+              )}
               <TH>Ticket</TH>
-              <TH>Project</TH>
-              <TH
-                sortable
-                sortDirection={sortField === "status" ? sortDir : null}
-                onSort={() => handleSort("status")}
-              >
-                Status
-              </TH>
-              <TH
-                sortable
-                sortDirection={sortField === "priority" ? sortDir : null}
-                onSort={() => handleSort("priority")}
-              >
-                Priority
-              </TH>
-              <TH className="hidden md:table-cell">Assigned</TH>
-              <TH className="hidden md:table-cell">Job type</TH>
-              <TH
-                className="hidden md:table-cell"
-                sortable
-                sortDirection={sortField === "createdAt" ? sortDir : null}
-                onSort={() => handleSort("createdAt")}
-              >
-                Created
-              </TH>
-              <TH
-                sortable
-                sortDirection={sortField === "dueDate" ? sortDir : null}
-                onSort={() => handleSort("dueDate")}
-              >
-                Due
-              </TH>
+              {isColumnVisible("project") && <TH>Project</TH>}
+              {isColumnVisible("status") && (
+                <TH
+                  sortable
+                  sortDirection={sortField === "status" ? sortDir : null}
+                  onSort={() => handleSort("status")}
+                >
+                  Status
+                </TH>
+              )}
+              {isColumnVisible("priority") && (
+                <TH
+                  sortable
+                  sortDirection={sortField === "priority" ? sortDir : null}
+                  onSort={() => handleSort("priority")}
+                >
+                  Priority
+                </TH>
+              )}
+              {isColumnVisible("assigned") && <TH className="hidden md:table-cell">Assigned</TH>}
+              {isColumnVisible("jobType") && <TH className="hidden md:table-cell">Job type</TH>}
+              {isColumnVisible("created") && (
+                <TH
+                  className="hidden md:table-cell"
+                  sortable
+                  sortDirection={sortField === "createdAt" ? sortDir : null}
+                  onSort={() => handleSort("createdAt")}
+                >
+                  Created
+                </TH>
+              )}
+              {isColumnVisible("due") && (
+                <TH
+                  sortable
+                  sortDirection={sortField === "dueDate" ? sortDir : null}
+                  onSort={() => handleSort("dueDate")}
+                >
+                  Due
+                </TH>
+              )}
             </THead>
             <tbody>
-              {tickets.map((t) => (
-                <tr
-                  key={t.id}
-                  className="cursor-pointer border-b border-[var(--bb-border-subtle)] transition-colors last:border-b-0 hover:bg-[var(--bb-bg-warm)]"
-                  onClick={() => (window.location.href = `/customer/tickets/${t.id}`)}
-                >
-                  <TD>
-                    <div className="font-medium text-[var(--bb-secondary)]">{t.code}</div>
-                    <div className="text-[11px] text-[var(--bb-text-secondary)]">{t.title}</div>
-                  </TD>
-                  <TD>
-                    <div className="text-[11px] font-medium text-[var(--bb-secondary)]">
-                      {t.projectName ?? "-"}
-                    </div>
-                    {t.projectCode && (
-                      <div className="text-[11px] text-[var(--bb-text-tertiary)]">
-                        {t.projectCode}
-                      </div>
-                    )}
-                  </TD>
-                  <TD>
-                    <Badge variant={statusBadgeVariant(t.status)}>
-                      {formatStatusLabel(t.status)}
-                    </Badge>
-                  </TD>
-                  <TD>
-                    <Badge variant={priorityBadgeVariant(t.priority)}>
-                      {formatPriorityLabel(t.priority)}
-                    </Badge>
-                  </TD>
-                  <TD className="hidden md:table-cell">
-                    <div className="text-[11px] text-[var(--bb-secondary)]">
-                      {t.isAssigned ? "Yes" : "-"}
-                    </div>
-                  </TD>
-                  <TD className="hidden md:table-cell">
-                    <div className="text-[11px] text-[var(--bb-secondary)]">
-                      {t.jobTypeName ?? "-"}
-                    </div>
-                  </TD>
-                  <TD className="hidden text-[var(--bb-text-secondary)] md:table-cell">
-                    {formatDate(t.createdAt)}
-                  </TD>
-                  <TD>
-                    {t.dueDate ? (
-                      <span
-                        className={
-                          isDueDateOverdue(t.dueDate)
-                            ? "font-semibold text-[var(--bb-danger-text)]"
-                            : isDueDateSoon(t.dueDate)
-                              ? "font-semibold text-[var(--bb-warning-text)]"
-                              : "text-[var(--bb-text-secondary)]"
+              {ticketGroups.map((group) => (
+                <Fragment key={group.key}>
+                  {groupBy !== "none" && (
+                    <tr className="border-b border-[var(--bb-border-subtle)] bg-[var(--bb-bg-card)]">
+                      <td
+                        colSpan={
+                          1 +
+                          (canBulkEdit ? 1 : 0) +
+                          VIEW_COLUMNS.TICKET_LIST.filter(isColumnVisible).length
                         }
+                        className="px-3 py-1.5 text-[11px] font-semibold text-[var(--bb-secondary)]"
                       >
-                        {formatDate(t.dueDate)}
-                      </span>
-                    ) : (
-                      <span className="text-[var(--bb-text-secondary)]">-</span>
-                    )}
-                  </TD>
-                </tr>
+                        {group.label}
+                        <span className="ml-1.5 font-normal text-[var(--bb-text-tertiary)]">
+                          {group.tickets.length}
+                        </span>
+                      </td>
+                    </tr>
+                  )}
+                  {group.tickets.map((t) => (
+                    <tr
+                      key={t.id}
+                      className={`cursor-pointer border-b border-[var(--bb-border-subtle)] transition-colors last:border-b-0 hover:bg-[var(--bb-bg-warm)] ${
+                        selectedIds.has(t.id) ? "bg-[var(--bb-primary-light)]" : ""
+                      }`}
+                      onClick={() => (window.location.href = `/customer/tickets/${t.id}`)}
+                    >
+                      {canBulkEdit && (
+                        <TD onClick={(e) => e.stopPropagation()}>
+                          <input
+                            type="checkbox"
+                            aria-label={`Select ticket ${t.code}`}
+                            checked={selectedIds.has(t.id)}
+                            onChange={() => toggleSelected(t.id)}
+                            className="h-3 w-3 rounded border-[var(--bb-border-input)] text-[var(--bb-primary)] focus:ring-[var(--bb-primary)]"
+                          />
+                        </TD>
+                      )}
+                      <TD>
+                        <div className="font-medium text-[var(--bb-secondary)]">{t.code}</div>
+                        <div className="text-[11px] text-[var(--bb-text-secondary)]">{t.title}</div>
+                      </TD>
+                      {isColumnVisible("project") && (
+                        <TD>
+                          <div className="text-[11px] font-medium text-[var(--bb-secondary)]">
+                            {t.projectName ?? "-"}
+                          </div>
+                          {t.projectCode && (
+                            <div className="text-[11px] text-[var(--bb-text-tertiary)]">
+                              {t.projectCode}
+                            </div>
+                          )}
+                        </TD>
+                      )}
+                      {isColumnVisible("status") && (
+                        <TD>
+                          <Badge variant={statusBadgeVariant(t.status)}>
+                            {formatStatusLabel(t.status)}
+                          </Badge>
+                        </TD>
+                      )}
+                      {isColumnVisible("priority") && (
+                        <TD>
+                          <Badge variant={priorityBadgeVariant(t.priority)}>
+                            {formatPriorityLabel(t.priority)}
+                          </Badge>
+                        </TD>
+                      )}
+                      {isColumnVisible("assigned") && (
+                        <TD className="hidden md:table-cell">
+                          <div className="text-[11px] text-[var(--bb-secondary)]">
+                            {t.isAssigned ? "Yes" : "-"}
+                          </div>
+                        </TD>
+                      )}
+                      {isColumnVisible("jobType") && (
+                        <TD className="hidden md:table-cell">
+                          <div className="text-[11px] text-[var(--bb-secondary)]">
+                            {t.jobTypeName ?? "-"}
+                          </div>
+                        </TD>
+                      )}
+                      {isColumnVisible("created") && (
+                        <TD className="hidden text-[var(--bb-text-secondary)] md:table-cell">
+                          {formatDate(t.createdAt)}
+                        </TD>
+                      )}
+                      {isColumnVisible("due") && (
+                        <TD>
+                          {t.dueDate ? (
+                            <span
+                              className={
+                                isDueDateOverdue(t.dueDate)
+                                  ? "font-semibold text-[var(--bb-danger-text)]"
+                                  : isDueDateSoon(t.dueDate)
+                                    ? "font-semibold text-[var(--bb-warning-text)]"
+                                    : "text-[var(--bb-text-secondary)]"
+                              }
+                            >
+                              {formatDate(t.dueDate)}
+                            </span>
+                          ) : (
+                            <span className="text-[var(--bb-text-secondary)]">-</span>
+                          )}
+                        </TD>
+                      )}
+                    </tr>
+                  ))}
+                </Fragment>
               ))}
             </tbody>
           </DataTable>
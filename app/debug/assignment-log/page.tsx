@@ -1,9 +1,9 @@
 // -----------------------------------------------------------------------------
 // @file: app/debug/assignment-log/page.tsx
 // @purpose: Internal debug view for ticket assignment logs (auto-assign, fallback, etc.)
-// @version: v1.0.0
+// @version: v1.1.0
 // @status: active
-// @lastUpdate: 2025-11-20
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { prisma } from "@/lib/prisma";
@@ -70,6 +70,8 @@ function reasonBadgeVariant(reason: string): BadgeVariant {
       return "warning";
     case "REBALANCE":
       return "primary";
+    case "DECLINED":
+      return "danger";
     default:
       return "neutral";
   }
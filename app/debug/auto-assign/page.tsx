@@ -1,9 +1,10 @@
 // -----------------------------------------------------------------------------
 // @file: app/debug/auto-assign/page.tsx
-// @purpose: Debug/admin UI for managing auto-assign settings
-// @version: v1.0.0
+// @purpose: Debug/admin UI for managing auto-assign settings and dry-running
+//           the assignment funnel for a hypothetical ticket
+// @version: v1.1.0
 // @status: active
-// @lastUpdate: 2025-11-20
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 "use client";
@@ -12,7 +13,8 @@ import { useEffect, useState } from "react";
 import { EmptyState } from "@/components/ui/empty-state";
 import { InlineAlert } from "@/components/ui/inline-alert";
 import { LoadingState } from "@/components/ui/loading-state";
-import { FormSelect } from "@/components/ui/form-field";
+import { FormInput, FormSelect } from "@/components/ui/form-field";
+import { Button } from "@/components/ui/button";
 
 type ProjectAutoAssignMode = "INHERIT" | "ON" | "OFF";
 
@@ -93,6 +95,288 @@ async function updateProjectAutoAssignMode(projectId: string, mode: ProjectAutoA
   return json as { id: string; autoAssignMode: ProjectAutoAssignMode };
 }
 
+type TicketPriority = "LOW" | "MEDIUM" | "HIGH" | "URGENT";
+
+type SimulationCandidate = {
+  creativeId: string;
+  name: string | null;
+  email: string | null;
+  excludedBy: "DECLINED" | "DELETED" | "PAUSED" | "CAPPED" | null;
+  openTicketCount: number;
+  tasksPerWeekCap: number | null;
+  load: number;
+  loadAfter: number | null;
+  rating: number | null;
+  score: number | null;
+  picked: boolean;
+};
+
+type SimulationResult = {
+  autoAssignEffective: boolean;
+  strategy: string;
+  newTicketLoad: number;
+  skillFiltered: boolean;
+  counts: {
+    skilled: number;
+    declined: number;
+    deleted: number;
+    paused: number;
+    capped: number;
+    eligible: number;
+  };
+  fallbackMode: string | null;
+  strategyFellBack: boolean;
+  candidates: SimulationCandidate[];
+  pick: { creativeId: string; name: string | null } | null;
+  wouldAssign: boolean;
+};
+
+async function fetchJobTypes(): Promise<{ id: string; name: string }[]> {
+  const res = await fetch("/api/admin/job-types", { method: "GET" });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) return [];
+  return ((json as any)?.jobTypes ?? []) as { id: string; name: string }[];
+}
+
+async function simulateAutoAssign(body: {
+  companyId: string;
+  projectId: string | null;
+  jobTypeId: string | null;
+  quantity: number;
+  priority: TicketPriority;
+}): Promise<SimulationResult> {
+  const res = await fetch("/api/debug/auto-assign/simulate", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  const json = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    const message = (json as any)?.error ?? `Failed to run simulation (status ${res.status})`;
+    throw new Error(message);
+  }
+
+  return json as SimulationResult;
+}
+
+function exclusionLabel(excludedBy: SimulationCandidate["excludedBy"]): string {
+  switch (excludedBy) {
+    case "DECLINED":
+      return "Declined this ticket";
+    case "DELETED":
+      return "Account deleted";
+    case "PAUSED":
+      return "Paused";
+    case "CAPPED":
+      return "At task cap";
+    case null:
+      return "Eligible";
+  }
+}
+
+function SimulatorPanel({ companies }: { companies: AutoAssignOverviewCompany[] }) {
+  const [companyId, setCompanyId] = useState(companies[0]?.id ?? "");
+  const [projectId, setProjectId] = useState("");
+  const [jobTypeId, setJobTypeId] = useState("");
+  const [quantity, setQuantity] = useState("1");
+  const [priority, setPriority] = useState<TicketPriority>("MEDIUM");
+  const [jobTypes, setJobTypes] = useState<{ id: string; name: string }[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+
+  useEffect(() => {
+    fetchJobTypes().then(setJobTypes);
+  }, []);
+
+  const company = companies.find((c) => c.id === companyId);
+
+  const handleRun = async () => {
+    if (!companyId) return;
+    setRunning(true);
+    setError(null);
+    try {
+      setResult(
+        await simulateAutoAssign({
+          companyId,
+          projectId: projectId || null,
+          jobTypeId: jobTypeId || null,
+          quantity: Math.max(1, Number.parseInt(quantity, 10) || 1),
+          priority,
+        }),
+      );
+    } catch (err: any) {
+      setResult(null);
+      setError(err?.message ?? "Failed to run simulation.");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <section className="mb-6 rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-5 py-4 shadow-sm">
+      <h2 className="text-sm font-semibold tracking-tight text-[var(--bb-secondary)]">
+        Simulate a ticket
+      </h2>
+      <p className="mt-0.5 text-[11px] text-[var(--bb-text-tertiary)]">
+        Dry run: who would get this ticket right now, and why. Nothing is created or assigned.
+      </p>
+
+      <div className="mt-3 flex flex-wrap items-end gap-2">
+        <FormSelect
+          size="sm"
+          className="w-auto"
+          aria-label="Company"
+          value={companyId}
+          onChange={(e) => {
+            setCompanyId(e.target.value);
+            setProjectId("");
+          }}
+        >
+          {companies.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </FormSelect>
+        <FormSelect
+          size="sm"
+          className="w-auto"
+          aria-label="Project"
+          value={projectId}
+          onChange={(e) => setProjectId(e.target.value)}
+        >
+          <option value="">No project</option>
+          {company?.projects.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </FormSelect>
+        <FormSelect
+          size="sm"
+          className="w-auto"
+          aria-label="Job type"
+          value={jobTypeId}
+          onChange={(e) => setJobTypeId(e.target.value)}
+        >
+          <option value="">No job type</option>
+          {jobTypes.map((jt) => (
+            <option key={jt.id} value={jt.id}>
+              {jt.name}
+            </option>
+          ))}
+        </FormSelect>
+        <FormInput
+          size="sm"
+          type="number"
+          min={1}
+          max={100}
+          className="!w-20"
+          aria-label="Quantity"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+        />
+        <FormSelect
+          size="sm"
+          className="w-auto"
+          aria-label="Priority"
+          value={priority}
+          onChange={(e) => setPriority(e.target.value as TicketPriority)}
+        >
+          <option value="LOW">Low</option>
+          <option value="MEDIUM">Medium</option>
+          <option value="HIGH">High</option>
+          <option value="URGENT">Urgent</option>
+        </FormSelect>
+        <Button
+          size="sm"
+          onClick={handleRun}
+          loading={running}
+          loadingText="Simulating…"
+          disabled={!companyId}
+        >
+          Simulate
+        </Button>
+      </div>
+
+      {error && (
+        <InlineAlert variant="error" size="sm" className="mt-3">
+          {error}
+        </InlineAlert>
+      )}
+
+      {result && (
+        <div className="mt-4 border-t border-[var(--bb-border-subtle)] pt-3 text-xs">
+          <p className="font-medium text-[var(--bb-secondary)]">
+            {result.pick
+              ? `${result.wouldAssign ? "Would assign to" : "Would pick"} ${
+                  result.pick.name ?? result.pick.creativeId
+                }`
+              : "Would stay unassigned"}
+            {!result.autoAssignEffective && " (auto-assign is off for this ticket)"}
+          </p>
+          <p className="mt-1 text-[11px] text-[var(--bb-text-tertiary)]">
+            Strategy <span className="font-mono">{result.strategy}</span>
+            {result.strategyFellBack && " (no signal — fell back to load/rating)"} ·{" "}
+            {result.skillFiltered ? `${result.counts.skilled} skilled` : "no skill filter"} ·{" "}
+            {result.counts.deleted} deleted · {result.counts.paused} paused · {result.counts.capped}{" "}
+            capped · {result.counts.eligible} eligible · new ticket load {result.newTicketLoad}
+            {result.fallbackMode && (
+              <>
+                {" "}
+                · fallback <span className="font-mono">{result.fallbackMode}</span>
+              </>
+            )}
+          </p>
+
+          {result.candidates.length > 0 && (
+            <table className="mt-3 w-full text-left text-[11px]">
+              <thead className="text-[var(--bb-text-muted)]">
+                <tr>
+                  <th className="py-1 font-medium">Creative</th>
+                  <th className="py-1 font-medium">Funnel</th>
+                  <th className="py-1 font-medium">Open / cap</th>
+                  <th className="py-1 font-medium">Load</th>
+                  <th className="py-1 font-medium">Rating</th>
+                  <th className="py-1 font-medium">Score</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--bb-border-subtle)]">
+                {result.candidates.map((c) => (
+                  <tr
+                    key={c.creativeId}
+                    className={c.picked ? "font-semibold text-[var(--bb-secondary)]" : ""}
+                  >
+                    <td className="py-1">
+                      {c.name ?? c.email ?? c.creativeId}
+                      {c.picked && " ← pick"}
+                    </td>
+                    <td className="py-1">{exclusionLabel(c.excludedBy)}</td>
+                    <td className="py-1">
+                      {c.openTicketCount} / {c.tasksPerWeekCap ?? "∞"}
+                    </td>
+                    <td className="py-1">
+                      {c.load}
+                      {c.loadAfter !== null && ` → ${c.loadAfter}`}
+                    </td>
+                    <td className="py-1">{c.rating?.toFixed(2) ?? "—"}</td>
+                    <td className="py-1">{c.score ?? "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
 function modeLabel(mode: ProjectAutoAssignMode): string {
   switch (mode) {
     case "INHERIT":
@@ -234,6 +518,9 @@ export default function AutoAssignDebugPage() {
           />
         )}
 
+        {/* Dry-run simulator */}
+        {!isError && companies.length > 0 && <SimulatorPanel companies={companies} />}
+
         {/* Companies list */}
         {!isError && companies.length > 0 && (
           <div className="space-y-4">
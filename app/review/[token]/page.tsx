@@ -0,0 +1,529 @@
+// -----------------------------------------------------------------------------
+// @file: app/review/[token]/page.tsx
+// @purpose: Public guest review page, reached through a share link from a
+//           ticket (lib/tickets/guest-review.ts). Guests without an account
+//           view the shared revision's assets, click to drop a pin or leave
+//           a general comment; everything they send waits for the company
+//           to accept. Renders one state per read-API response:
+//
+//             - OPEN     asset viewer + feedback
+//             - LOCKED   password form (protected links)
+//             - EXPIRED / REVOKED / INVALID   explanation only
+//
+//           Same slim brand bar as /talent/schedule — no app navigation.
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { FormInput, FormTextarea } from "@/components/ui/form-field";
+import { InlineAlert } from "@/components/ui/inline-alert";
+import { LoadingState } from "@/components/ui/loading-state";
+import { PasswordInput } from "@/components/ui/password-input";
+import { PdfCanvas } from "@/components/ui/pdf-canvas";
+
+type GuestFeedback = {
+  id: string;
+  guestName: string;
+  message: string;
+  assetId: string | null;
+  x: number | null;
+  y: number | null;
+  page: number;
+  status: "PENDING" | "ACCEPTED" | "DISMISSED";
+  createdAt: string;
+};
+
+type ReviewAsset = {
+  id: string;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  originalName: string | null;
+};
+
+type OpenReview = {
+  state: "OPEN";
+  companyName: string | null;
+  ticketTitle: string;
+  label: string | null;
+  expiresAt: string;
+  revision: { version: number; submittedAt: string; creativeMessage: string | null };
+  assets: ReviewAsset[];
+  feedback: GuestFeedback[];
+};
+
+type ApiResponse =
+  | OpenReview
+  | { state: "LOCKED" }
+  | { state: "EXPIRED" }
+  | { state: "REVOKED" }
+  | { state: "INVALID" };
+
+type DraftPin = { x: number; y: number; page: number };
+
+/** Remembered across visits so a guest types their name once. */
+const GUEST_NAME_KEY = "bb-guest-review-name";
+
+const STATUS_TEXT: Record<GuestFeedback["status"], string> = {
+  PENDING: "Sent to the team",
+  ACCEPTED: "Accepted",
+  DISMISSED: "Not taken forward",
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+export default function GuestReviewPage({ params }: { params: Promise<{ token: string }> }) {
+  const [token, setToken] = useState<string | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    params.then((p) => {
+      if (!cancelled) setToken(p.token);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [params]);
+
+  const [data, setData] = useState<ApiResponse | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // -------- Fetch --------
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    fetch(`/api/review/${token}`, { cache: "no-store" })
+      .then(async (res) => {
+        const body = (await res.json().catch(() => null)) as ApiResponse | null;
+        if (cancelled) return;
+        if (!body?.state) {
+          setLoadError("Couldn't load this review. Please refresh.");
+          return;
+        }
+        setData(body);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("[guest-review] read failed", err);
+        setLoadError("Couldn't load this review. Please refresh.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((k) => k + 1), []);
+
+  return (
+    <div className="min-h-screen bg-[var(--bb-bg-page)]">
+      {/* Slim brand bar — same posture as /login */}
+      <header className="border-b border-[var(--bb-border-subtle)] bg-white">
+        <div className="mx-auto flex max-w-5xl items-center px-4 py-4">
+          <Link href="/" className="text-xl font-bold text-[var(--bb-primary)]">
+            brandbite
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-5xl px-4 py-10">
+        {!data && !loadError && <LoadingState message="Loading the review…" />}
+
+        {loadError && (
+          <InlineAlert variant="error" title="Something went wrong">
+            {loadError}
+          </InlineAlert>
+        )}
+
+        {data?.state === "INVALID" && (
+          <InlineAlert variant="error" title="Review link not found">
+            This link doesn&apos;t match a shared review. Make sure you copied the full URL.
+          </InlineAlert>
+        )}
+
+        {data?.state === "EXPIRED" && (
+          <InlineAlert variant="warning" title="This review link has expired">
+            Ask the person who shared it with you for a fresh link.
+          </InlineAlert>
+        )}
+
+        {data?.state === "REVOKED" && (
+          <InlineAlert variant="warning" title="This review link is no longer active">
+            The team has closed this review. Ask them for a new link if you still need access.
+          </InlineAlert>
+        )}
+
+        {data?.state === "LOCKED" && token && <UnlockForm token={token} onUnlocked={reload} />}
+
+        {data?.state === "OPEN" && token && (
+          <ReviewView
+            token={token}
+            review={data}
+            onFeedback={(f) => setData({ ...data, feedback: [...data.feedback, f] })}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Password form
+// ---------------------------------------------------------------------------
+
+function UnlockForm({ token, onUnlocked }: { token: string; onUnlocked: () => void }) {
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/review/${token}/unlock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(body?.error ?? "Couldn't unlock this review.");
+        return;
+      }
+      onUnlocked();
+    } catch {
+      setError("Couldn't unlock this review. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mx-auto max-w-sm space-y-4">
+      <header>
+        <h1 className="text-2xl font-bold text-[var(--bb-secondary)]">
+          This review is password protected
+        </h1>
+        <p className="mt-2 text-sm text-[var(--bb-text-secondary)]">
+          Enter the password you were given along with the link.
+        </p>
+      </header>
+      {error && <InlineAlert variant="error">{error}</InlineAlert>}
+      <PasswordInput
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        aria-label="Password"
+        autoFocus
+      />
+      <Button type="submit" className="w-full" loading={submitting} disabled={!password}>
+        Open review
+      </Button>
+    </form>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Review
+// ---------------------------------------------------------------------------
+
+function ReviewView({
+  token,
+  review,
+  onFeedback,
+}: {
+  token: string;
+  review: OpenReview;
+  onFeedback: (feedback: GuestFeedback) => void;
+}) {
+  const [assetId, setAssetId] = useState(review.assets[0]?.id ?? null);
+  const [page, setPage] = useState(1);
+  const [numPages, setNumPages] = useState(1);
+  const [draft, setDraft] = useState<DraftPin | null>(null);
+  const [pinMessage, setPinMessage] = useState("");
+  const [comment, setComment] = useState("");
+  const [guestName, setGuestName] = useState("");
+  const [sending, setSending] = useState<"pin" | "comment" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setGuestName(window.localStorage.getItem(GUEST_NAME_KEY) ?? "");
+  }, []);
+
+  const asset = review.assets.find((a) => a.id === assetId) ?? null;
+  const isPdf = asset?.mimeType === "application/pdf";
+  const rawUrl = asset ? `/api/review/${token}/assets/${asset.id}/raw` : null;
+
+  const pins = review.feedback.filter((f) => f.assetId !== null);
+  const pinNumber = new Map(pins.map((f, i) => [f.id, i + 1]));
+  const visiblePins = pins.filter((f) => f.assetId === assetId && f.page === page);
+
+  const selectAsset = (id: string) => {
+    setAssetId(id);
+    setPage(1);
+    setNumPages(1);
+    setDraft(null);
+  };
+
+  const placePin = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    setDraft({ x, y, page });
+  };
+
+  async function send(kind: "pin" | "comment") {
+    const name = guestName.trim();
+    if (!name) {
+      setError("Please add your name so the team knows who the feedback is from.");
+      return;
+    }
+    setSending(kind);
+    setError(null);
+    try {
+      const payload =
+        kind === "pin" && draft && asset
+          ? { guestName: name, message: pinMessage.trim(), assetId: asset.id, ...draft }
+          : { guestName: name, message: comment.trim() };
+      const res = await fetch(`/api/review/${token}/feedback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(body?.error ?? "Couldn't send your feedback.");
+        return;
+      }
+      window.localStorage.setItem(GUEST_NAME_KEY, name);
+      onFeedback(body.feedback as GuestFeedback);
+      if (kind === "pin") {
+        setDraft(null);
+        setPinMessage("");
+      } else {
+        setComment("");
+      }
+    } catch {
+      setError("Couldn't send your feedback. Please try again.");
+    } finally {
+      setSending(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <header>
+        <p className="text-xs font-semibold tracking-wider text-[var(--bb-text-muted)] uppercase">
+          {review.companyName ? `${review.companyName} · ` : ""}Revision v{review.revision.version}
+        </p>
+        <h1 className="mt-1 text-2xl font-bold text-[var(--bb-secondary)]">{review.ticketTitle}</h1>
+        <p className="mt-2 text-sm text-[var(--bb-text-secondary)]">
+          Click anywhere on a file to pin a note, or leave a general comment below. The team reviews
+          every note before passing it on. This link works until {formatDate(review.expiresAt)}.
+        </p>
+      </header>
+
+      {review.revision.creativeMessage && (
+        <div className="rounded-xl border border-[var(--bb-border-subtle)] bg-white p-4 text-sm text-[var(--bb-text-secondary)] italic">
+          &ldquo;{review.revision.creativeMessage}&rdquo;
+        </div>
+      )}
+
+      <div className="max-w-xs">
+        <label htmlFor="guest-name" className="text-xs font-medium text-[var(--bb-text-secondary)]">
+          Your name
+        </label>
+        <FormInput
+          id="guest-name"
+          className="mt-1"
+          value={guestName}
+          maxLength={80}
+          placeholder="e.g. Alex from Acme"
+          onChange={(e) => setGuestName(e.target.value)}
+        />
+      </div>
+
+      {error && <InlineAlert variant="error">{error}</InlineAlert>}
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <section className="space-y-3 md:col-span-2">
+          {review.assets.length === 0 && (
+            <p className="text-sm text-[var(--bb-text-tertiary)]">
+              This revision has no files to review.
+            </p>
+          )}
+          {review.assets.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {review.assets.map((a, i) => (
+                <button
+                  key={a.id}
+                  type="button"
+                  onClick={() => selectAsset(a.id)}
+                  className={`rounded-full border px-3 py-1 text-xs ${
+                    a.id === assetId
+                      ? "border-[var(--bb-primary)] bg-[var(--bb-primary-light)] text-[var(--bb-primary)]"
+                      : "border-[var(--bb-border)] bg-white text-[var(--bb-text-secondary)]"
+                  }`}
+                >
+                  {a.originalName || `File ${i + 1}`}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {asset && rawUrl && (
+            <div className="rounded-xl border border-[var(--bb-border)] bg-white p-3">
+              <div className="relative cursor-crosshair" onClick={placePin} role="presentation">
+                {isPdf ? (
+                  <PdfCanvas
+                    key={asset.id}
+                    assetId={asset.id}
+                    src={rawUrl}
+                    page={page}
+                    onNumPages={setNumPages}
+                    className="block w-full"
+                  />
+                ) : (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={rawUrl}
+                    alt={asset.originalName ?? "Shared file"}
+                    className="block h-auto w-full select-none"
+                    draggable={false}
+                  />
+                )}
+                {visiblePins.map((f) => (
+                  <span
+                    key={f.id}
+                    title={`${f.guestName}: ${f.message}`}
+                    className="pointer-events-auto absolute flex h-6 w-6 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-[var(--bb-primary)] text-[11px] font-semibold text-white shadow"
+                    style={{ left: `${(f.x ?? 0) * 100}%`, top: `${(f.y ?? 0) * 100}%` }}
+                  >
+                    {pinNumber.get(f.id)}
+                  </span>
+                ))}
+                {draft && draft.page === page && (
+                  <span
+                    className="absolute h-6 w-6 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-[var(--bb-secondary)] shadow"
+                    style={{ left: `${draft.x * 100}%`, top: `${draft.y * 100}%` }}
+                  />
+                )}
+              </div>
+
+              {isPdf && numPages > 1 && (
+                <div className="mt-2 flex items-center justify-center gap-3 text-xs text-[var(--bb-text-secondary)]">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={page <= 1}
+                    onClick={() => setPage((p) => p - 1)}
+                  >
+                    Previous
+                  </Button>
+                  Page {page} of {numPages}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={page >= numPages}
+                    onClick={() => setPage((p) => p + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {draft && (
+            <div className="space-y-2 rounded-xl border border-[var(--bb-border)] bg-white p-4">
+              <FormTextarea
+                rows={3}
+                autoFocus
+                value={pinMessage}
+                maxLength={2000}
+                placeholder="What should change here?"
+                aria-label="Note for this pin"
+                onChange={(e) => setPinMessage(e.target.value)}
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  loading={sending === "pin"}
+                  disabled={!pinMessage.trim()}
+                  onClick={() => send("pin")}
+                >
+                  Add pin
+                </Button>
+              </div>
+            </div>
+          )}
+        </section>
+
+        <aside className="space-y-4">
+          <div className="space-y-2 rounded-xl border border-[var(--bb-border)] bg-white p-4">
+            <h2 className="text-sm font-semibold text-[var(--bb-secondary)]">General comment</h2>
+            <FormTextarea
+              rows={3}
+              value={comment}
+              maxLength={2000}
+              placeholder="Overall thoughts on this revision"
+              aria-label="General comment"
+              onChange={(e) => setComment(e.target.value)}
+            />
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                loading={sending === "comment"}
+                disabled={!comment.trim()}
+                onClick={() => send("comment")}
+              >
+                Send comment
+              </Button>
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-[var(--bb-border)] bg-white p-4">
+            <h2 className="text-sm font-semibold text-[var(--bb-secondary)]">Feedback so far</h2>
+            {review.feedback.length === 0 ? (
+              <p className="mt-2 text-xs text-[var(--bb-text-tertiary)]">Nothing yet.</p>
+            ) : (
+              <ul className="mt-2 space-y-2">
+                {review.feedback.map((f) => (
+                  <li key={f.id} className="text-xs">
+                    <div className="flex items-center gap-2">
+                      {f.assetId && (
+                        <span className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-[var(--bb-primary)] text-[10px] font-semibold text-white">
+                          {pinNumber.get(f.id)}
+                        </span>
+                      )}
+                      <span className="font-medium text-[var(--bb-secondary)]">{f.guestName}</span>
+                      <span className="ml-auto text-[10px] text-[var(--bb-text-tertiary)]">
+                        {STATUS_TEXT[f.status]}
+                      </span>
+                    </div>
+                    <p className="mt-0.5 whitespace-pre-wrap text-[var(--bb-text-secondary)]">
+                      {f.message}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
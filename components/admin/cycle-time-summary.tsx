@@ -0,0 +1,187 @@
+// -----------------------------------------------------------------------------
+// @file: components/admin/cycle-time-summary.tsx
+// @purpose: Turnaround analytics block (lead time, cycle time, time in each
+//           column, review round-trips, per-job-type breakdown). Shared by the
+//           admin dashboard and the per-company view on /admin/companies so
+//           both read the same numbers the same way.
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { DataTable, TD, TH, THead } from "@/components/ui/data-table";
+
+type TrackedStatus = "TODO" | "IN_PROGRESS" | "IN_REVIEW";
+
+type DurationStats = {
+  avgHours: number;
+  medianHours: number;
+  p90Hours: number;
+};
+
+export type CycleTimeSummaryData = {
+  sampleSize: number;
+  withHistory: number;
+  leadTime: DurationStats | null;
+  cycleTime: DurationStats | null;
+  avgTimeInStatusHours: Record<TrackedStatus, number>;
+  avgReviewRoundTrips: number;
+};
+
+export type CycleTimeAnalyticsData = {
+  since: string;
+  overall: CycleTimeSummaryData;
+  byJobType: (CycleTimeSummaryData & { jobTypeId: string | null; jobTypeName: string })[];
+};
+
+const STATUS_LABELS: Record<TrackedStatus, string> = {
+  TODO: "Backlog",
+  IN_PROGRESS: "In progress",
+  IN_REVIEW: "In review",
+};
+
+const STATUS_COLORS: Record<TrackedStatus, string> = {
+  TODO: "#9CA3AF",
+  IN_PROGRESS: "#3B82F6",
+  IN_REVIEW: "#F15B2B",
+};
+
+/** "5.5h" under two days, "3.2d" above. */
+export function formatHours(hours: number | null | undefined): string {
+  if (hours === null || hours === undefined) return "—";
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
+type Props = {
+  data: CycleTimeAnalyticsData;
+  /** Hide the per-job-type table (e.g. in tight layouts). */
+  compact?: boolean;
+};
+
+export function CycleTimeSummary({ data, compact = false }: Props) {
+  const { overall } = data;
+
+  if (overall.sampleSize === 0) {
+    return (
+      <p className="text-xs text-[var(--bb-text-tertiary)]">
+        No tickets completed in this window yet.
+      </p>
+    );
+  }
+
+  const totalInStatus =
+    overall.avgTimeInStatusHours.TODO +
+    overall.avgTimeInStatusHours.IN_PROGRESS +
+    overall.avgTimeInStatusHours.IN_REVIEW;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <p className="text-[11px] font-semibold tracking-[0.15em] text-[var(--bb-text-muted)] uppercase">
+            Lead time
+          </p>
+          <p className="mt-1 text-2xl font-bold text-[var(--bb-secondary)]">
+            {formatHours(overall.leadTime?.medianHours)}
+          </p>
+          <p className="text-[11px] text-[var(--bb-text-tertiary)]">
+            median created &rarr; done &middot; p90 {formatHours(overall.leadTime?.p90Hours)}
+          </p>
+        </div>
+        <div>
+          <p className="text-[11px] font-semibold tracking-[0.15em] text-[var(--bb-text-muted)] uppercase">
+            Cycle time
+          </p>
+          <p className="mt-1 text-2xl font-bold text-[var(--bb-secondary)]">
+            {formatHours(overall.cycleTime?.medianHours)}
+          </p>
+          <p className="text-[11px] text-[var(--bb-text-tertiary)]">
+            median started &rarr; done &middot; p90 {formatHours(overall.cycleTime?.p90Hours)}
+          </p>
+        </div>
+        <div>
+          <p className="text-[11px] font-semibold tracking-[0.15em] text-[var(--bb-text-muted)] uppercase">
+            Review round-trips
+          </p>
+          <p className="mt-1 text-2xl font-bold text-[var(--bb-secondary)]">
+            {overall.avgReviewRoundTrips}
+          </p>
+          <p className="text-[11px] text-[var(--bb-text-tertiary)]">
+            avg. change requests per ticket
+          </p>
+        </div>
+      </div>
+
+      {overall.withHistory > 0 && (
+        <div>
+          <p className="mb-1.5 text-[11px] text-[var(--bb-text-tertiary)]">
+            Average time per column
+          </p>
+          <div className="flex h-2.5 w-full overflow-hidden rounded-full bg-[var(--bb-bg-warm)]">
+            {(Object.keys(STATUS_LABELS) as TrackedStatus[]).map((s) =>
+              totalInStatus > 0 ? (
+                <div
+                  key={s}
+                  style={{
+                    width: `${(overall.avgTimeInStatusHours[s] / totalInStatus) * 100}%`,
+                    backgroundColor: STATUS_COLORS[s],
+                  }}
+                />
+              ) : null,
+            )}
+          </div>
+          <div className="mt-2 flex flex-wrap gap-4 text-[11px] text-[var(--bb-text-tertiary)]">
+            {(Object.keys(STATUS_LABELS) as TrackedStatus[]).map((s) => (
+              <span key={s} className="inline-flex items-center gap-1.5">
+                <span
+                  className="inline-block h-2 w-2 rounded-full"
+                  style={{ backgroundColor: STATUS_COLORS[s] }}
+                />
+                {STATUS_LABELS[s]}{" "}
+                <span className="font-semibold text-[var(--bb-secondary)]">
+                  {formatHours(overall.avgTimeInStatusHours[s])}
+                </span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-[11px] text-[var(--bb-text-tertiary)]">
+        Based on {overall.sampleSize} completed ticket{overall.sampleSize === 1 ? "" : "s"}
+        {overall.withHistory < overall.sampleSize
+          ? ` (${overall.withHistory} with full status history)`
+          : ""}
+        .
+      </p>
+
+      {!compact && data.byJobType.length > 0 && (
+        <DataTable maxHeight="280px">
+          <THead>
+            <TH>Job type</TH>
+            <TH align="right">Tickets</TH>
+            <TH align="right">Lead (median)</TH>
+            <TH align="right">Cycle (median)</TH>
+            <TH align="right">In review</TH>
+            <TH align="right">Round-trips</TH>
+          </THead>
+          <tbody>
+            {data.byJobType.map((row) => (
+              <tr
+                key={row.jobTypeId ?? "none"}
+                className="border-b border-[var(--bb-border-subtle)] last:border-b-0"
+              >
+                <TD>{row.jobTypeName}</TD>
+                <TD align="right">{row.sampleSize}</TD>
+                <TD align="right">{formatHours(row.leadTime?.medianHours)}</TD>
+                <TD align="right">{formatHours(row.cycleTime?.medianHours)}</TD>
+                <TD align="right">{formatHours(row.avgTimeInStatusHours.IN_REVIEW)}</TD>
+                <TD align="right">{row.avgReviewRoundTrips}</TD>
+              </tr>
+            ))}
+          </tbody>
+        </DataTable>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+// -----------------------------------------------------------------------------
+// @file: components/admin/sla-attainment-summary.tsx
+// @purpose: SLA attainment block for the admin dashboard — overall met vs.
+//           breached, open tickets already past their deadline, and per
+//           creative / per company tables (worst attainment first).
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { DataTable, TD, TH, THead } from "@/components/ui/data-table";
+
+type SlaAttainment = {
+  met: number;
+  breached: number;
+  attainmentPct: number | null;
+};
+
+export type SlaAttainmentAnalyticsData = {
+  since: string;
+  overall: SlaAttainment;
+  byCreative: (SlaAttainment & { creativeId: string | null; creativeName: string })[];
+  byCompany: (SlaAttainment & { companyId: string; companyName: string })[];
+  openBreached: number;
+};
+
+function formatPct(pct: number | null): string {
+  return pct === null ? "—" : `${pct}%`;
+}
+
+function AttainmentTable({
+  label,
+  rows,
+}: {
+  label: string;
+  rows: (SlaAttainment & { key: string; name: string })[];
+}) {
+  return (
+    <DataTable maxHeight="240px">
+      <THead>
+        <TH>{label}</TH>
+        <TH align="right">Met</TH>
+        <TH align="right">Breached</TH>
+        <TH align="right">Attainment</TH>
+      </THead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key} className="border-b border-[var(--bb-border-subtle)] last:border-b-0">
+            <TD>{row.name}</TD>
+            <TD align="right">{row.met}</TD>
+            <TD align="right">{row.breached}</TD>
+            <TD align="right">{formatPct(row.attainmentPct)}</TD>
+          </tr>
+        ))}
+      </tbody>
+    </DataTable>
+  );
+}
+
+export function SlaAttainmentSummary({ data }: { data: SlaAttainmentAnalyticsData }) {
+  const { overall } = data;
+  const sampleSize = overall.met + overall.breached;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <p className="text-[11px] font-semibold tracking-[0.15em] text-[var(--bb-text-muted)] uppercase">
+            Attainment
+          </p>
+          <p className="mt-1 text-2xl font-bold text-[var(--bb-secondary)]">
+            {formatPct(overall.attainmentPct)}
+          </p>
+          <p className="text-[11px] text-[var(--bb-text-tertiary)]">
+            {overall.met} met &middot; {overall.breached} breached
+          </p>
+        </div>
+        <div>
+          <p className="text-[11px] font-semibold tracking-[0.15em] text-[var(--bb-text-muted)] uppercase">
+            Overdue now
+          </p>
+          <p
+            className={`mt-1 text-2xl font-bold ${
+              data.openBreached > 0 ? "text-[var(--bb-danger-text)]" : "text-[var(--bb-secondary)]"
+            }`}
+          >
+            {data.openBreached}
+          </p>
+          <p className="text-[11px] text-[var(--bb-text-tertiary)]">
+            open tickets past their SLA deadline
+          </p>
+        </div>
+      </div>
+
+      {sampleSize === 0 ? (
+        <p className="text-xs text-[var(--bb-text-tertiary)]">
+          No SLA-tracked tickets completed in this window yet. Set targets per job type on the Job
+          types page.
+        </p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <AttainmentTable
+            label="Creative"
+            rows={data.byCreative.map((r) => ({
+              ...r,
+              key: r.creativeId ?? "unassigned",
+              name: r.creativeName,
+            }))}
+          />
+          <AttainmentTable
+            label="Company"
+            rows={data.byCompany.map((r) => ({ ...r, key: r.companyId, name: r.companyName }))}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,8 @@
 //           Board entry and the user switches views via this toggle.
 //
 //           Each role has its own pair of routes; the component takes a base
-//           role path and composes the two targets from it.
+//           role path and composes the two targets from it. Customers also
+//           get a third Archive tab (cancelled + long-completed tickets).
 // -----------------------------------------------------------------------------
 
 "use client";
@@ -17,14 +18,25 @@ import { usePathname } from "next/navigation";
 type BoardViewToggleProps = {
   /** One of "/customer", "/creative", "/admin". */
   rolePath: string;
+  /** Adds an Archive tab linking to `${rolePath}/archive`. */
+  showArchive?: boolean;
 };
 
-export function BoardViewToggle({ rolePath }: BoardViewToggleProps) {
+const tabClass = (active: boolean) =>
+  `rounded-full px-4 py-1.5 transition-colors ${
+    active
+      ? "bg-[var(--bb-secondary)] text-white"
+      : "text-[var(--bb-text-secondary)] hover:text-[var(--bb-secondary)]"
+  }`;
+
+export function BoardViewToggle({ rolePath, showArchive = false }: BoardViewToggleProps) {
   const pathname = usePathname() ?? "";
   const boardHref = `${rolePath}/board`;
   const tableHref = `${rolePath}/tickets`;
   const isBoard = pathname === boardHref || pathname.startsWith(`${boardHref}/`);
+  const archiveHref = `${rolePath}/archive`;
   const isTable = pathname === tableHref || pathname.startsWith(`${tableHref}/`);
+  const isArchive = pathname === archiveHref;
 
   return (
     <div
@@ -32,30 +44,22 @@ export function BoardViewToggle({ rolePath }: BoardViewToggleProps) {
       aria-label="Board view"
       className="inline-flex rounded-full border border-[var(--bb-border)] bg-[var(--bb-bg-page)] p-0.5 text-xs font-medium"
     >
-      <Link
-        role="tab"
-        aria-selected={isBoard}
-        href={boardHref}
-        className={`rounded-full px-4 py-1.5 transition-colors ${
-          isBoard
-            ? "bg-[var(--bb-secondary)] text-white"
-            : "text-[var(--bb-text-secondary)] hover:text-[var(--bb-secondary)]"
-        }`}
-      >
+      <Link role="tab" aria-selected={isBoard} href={boardHref} className={tabClass(isBoard)}>
         Kanban
       </Link>
-      <Link
-        role="tab"
-        aria-selected={isTable}
-        href={tableHref}
-        className={`rounded-full px-4 py-1.5 transition-colors ${
-          isTable
-            ? "bg-[var(--bb-secondary)] text-white"
-            : "text-[var(--bb-text-secondary)] hover:text-[var(--bb-secondary)]"
-        }`}
-      >
+      <Link role="tab" aria-selected={isTable} href={tableHref} className={tabClass(isTable)}>
         Table
       </Link>
+      {showArchive && (
+        <Link
+          role="tab"
+          aria-selected={isArchive}
+          href={archiveHref}
+          className={tabClass(isArchive)}
+        >
+          Archive
+        </Link>
+      )}
     </div>
   );
 }
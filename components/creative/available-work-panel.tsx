@@ -0,0 +1,165 @@
+// -----------------------------------------------------------------------------
+// @file: components/creative/available-work-panel.tsx
+// @purpose: "Available work" queue on the creative overview — unassigned
+//           tickets matching the creative's skills at companies that allow
+//           claiming, each with a Claim button. Data and claims go through
+//           /api/creative/available-work. Renders nothing when there is no
+//           claimable work, so creatives whose clients never opted in don't
+//           see an empty box.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/toast-provider";
+import {
+  formatDueDateShort,
+  formatPriorityLabel,
+  priorityBadgeVariant,
+  type TicketPriority,
+} from "@/lib/board";
+
+type AvailableTicket = {
+  id: string;
+  code: string;
+  title: string;
+  priority: TicketPriority;
+  dueDate: string | null;
+  createdAt: string;
+  companyName: string;
+  projectName: string | null;
+  jobTypeName: string | null;
+  payoutTokens: number;
+  companyAtCapacity: boolean;
+};
+
+type AvailableWorkResponse = {
+  eligibility: {
+    paused: boolean;
+    openTicketCount: number;
+    tasksPerWeekCap: number | null;
+    atCap: boolean;
+  };
+  tickets: AvailableTicket[];
+};
+
+export function AvailableWorkPanel({ onClaimed }: { onClaimed?: () => void }) {
+  const { showToast } = useToast();
+  const [data, setData] = useState<AvailableWorkResponse | null>(null);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/creative/available-work", { cache: "no-store" });
+      if (res.ok) setData(await res.json());
+    } catch {
+      // silent — the queue is optional, the rest of the overview still works
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleClaim = async (ticket: AvailableTicket) => {
+    setClaimingId(ticket.id);
+    try {
+      const res = await fetch(`/api/creative/available-work/${ticket.id}/claim`, {
+        method: "POST",
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new Error(json?.error || `Request failed with status ${res.status}`);
+      }
+      showToast({
+        type: "success",
+        title: "Ticket claimed",
+        description: `${ticket.code} is now on your board.`,
+      });
+      onClaimed?.();
+    } catch (err: unknown) {
+      showToast({
+        type: "error",
+        title: "Could not claim ticket",
+        description: err instanceof Error ? err.message : "Please try again.",
+      });
+    } finally {
+      setClaimingId(null);
+      await load();
+    }
+  };
+
+  if (!data || data.tickets.length === 0) return null;
+
+  const { eligibility } = data;
+  const blockedReason = eligibility.paused
+    ? "Resume your availability to claim work."
+    : eligibility.atCap
+      ? `You're at your weekly cap (${eligibility.openTicketCount}/${eligibility.tasksPerWeekCap} open tickets).`
+      : null;
+
+  return (
+    <section className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-5 py-5 shadow-sm">
+      <h2 className="text-sm font-semibold tracking-tight text-[var(--bb-secondary)]">
+        Available work
+      </h2>
+      <p className="mt-0.5 text-[11px] text-[var(--bb-text-tertiary)]">
+        Unassigned tickets that match your skills. Claim one to add it to your board.
+      </p>
+      {blockedReason && (
+        <p className="mt-2 text-[11px] text-[var(--bb-warning-text)]">{blockedReason}</p>
+      )}
+
+      <div className="mt-4 divide-y divide-[var(--bb-border-subtle)]">
+        {data.tickets.map((t) => {
+          const due = formatDueDateShort(t.dueDate);
+          const disabled = !!blockedReason || t.companyAtCapacity || claimingId !== null;
+          return (
+            <div
+              key={t.id}
+              className="flex items-center justify-between gap-4 py-2.5 first:pt-0 last:pb-0"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-xs font-medium text-[var(--bb-secondary)]">
+                  <span className="mr-1.5 text-[var(--bb-text-tertiary)]">{t.code}</span>
+                  {t.title}
+                </p>
+                <p className="mt-0.5 truncate text-[10px] text-[var(--bb-text-tertiary)]">
+                  {[t.companyName, t.projectName, t.jobTypeName, due ? `Due ${due}` : null]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              </div>
+              <Badge variant={priorityBadgeVariant(t.priority)}>
+                {formatPriorityLabel(t.priority)}
+              </Badge>
+              <span className="shrink-0 text-[11px] font-semibold text-[var(--bb-secondary)]">
+                {t.payoutTokens} tokens
+              </span>
+              <Button
+                size="sm"
+                variant="secondary"
+                disabled={disabled}
+                loading={claimingId === t.id}
+                loadingText="Claiming…"
+                title={
+                  t.companyAtCapacity
+                    ? "This client has as much work in progress as their plan allows."
+                    : undefined
+                }
+                onClick={() => handleClaim(t)}
+              >
+                Claim
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -3,9 +3,9 @@
 // @purpose: Role-specific sidebar nav definitions. Kept separate from the
 //           sidebar component so reordering / renaming / adding items is a
 //           data-only change.
-// @version: v1.0.0
+// @version: v1.0.1
 // @status: active
-// @lastUpdate: 2026-04-20
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import type { ComponentType, SVGProps } from "react";
@@ -27,6 +27,7 @@ import {
   IconOverview,
   IconPeople,
   IconPortfolio,
+  IconRecurring,
   IconServices,
   IconSettings,
   IconTokens,
@@ -178,8 +179,9 @@ export const CUSTOMER_NAV: NavConfig = {
           href: "/customer/board",
           label: "Board",
           icon: IconBoard,
-          highlightOnPaths: ["/customer/tickets"],
+          highlightOnPaths: ["/customer/tickets", "/customer/archive"],
         },
+        { href: "/customer/recurring-tickets", label: "Recurring", icon: IconRecurring },
         { href: "/customer/moodboards", label: "Moodboards", icon: IconMoodboards },
         { href: "/customer/ai-tools", label: "AI Tools", icon: IconAiTools },
       ],
@@ -175,6 +175,17 @@ export function IconAiTools(p: Props) {
   );
 }
 
+export function IconRecurring(p: Props) {
+  return (
+    <svg {...base} {...p}>
+      <path d="M4 12a8 8 0 0 1 13.7-5.6L20 8.7" />
+      <path d="M20 4v4.7h-4.7" />
+      <path d="M20 12a8 8 0 0 1-13.7 5.6L4 15.3" />
+      <path d="M4 20v-4.7h4.7" />
+    </svg>
+  );
+}
+
 export function IconConsultation(p: Props) {
   return (
     <svg {...base} {...p}>
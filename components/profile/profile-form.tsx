@@ -82,7 +82,14 @@ type NotificationType =
   | "TICKET_COMPLETED"
   | "TICKET_ASSIGNED"
   | "TICKET_STATUS_CHANGED"
-  | "PIN_RESOLVED";
+  | "PIN_RESOLVED"
+  | "TICKET_UNBLOCKED"
+  | "RECURRING_TICKET_SKIPPED"
+  | "SLA_AT_RISK"
+  | "SLA_BREACHED"
+  | "MENTIONED"
+  | "TICKET_COMMENTED"
+  | "APPROVAL_REQUESTED";
 
 type NotificationPreference = {
   type: NotificationType;
@@ -138,6 +145,34 @@ const NOTIFICATION_LABELS: Record<NotificationType, { title: string; description
     title: "Pin resolved",
     description: "A creative resolved a pin you placed on an asset.",
   },
+  TICKET_UNBLOCKED: {
+    title: "Ticket unblocked",
+    description: "Every ticket blocking one of yours is done, so work can start.",
+  },
+  RECURRING_TICKET_SKIPPED: {
+    title: "Scheduled ticket skipped",
+    description: "A recurring schedule couldn't create its ticket, e.g. for lack of tokens.",
+  },
+  SLA_AT_RISK: {
+    title: "SLA at risk",
+    description: "A ticket has a quarter or less of its SLA target left.",
+  },
+  SLA_BREACHED: {
+    title: "SLA breached",
+    description: "A ticket passed its SLA target before it was delivered.",
+  },
+  MENTIONED: {
+    title: "Mentioned in a comment",
+    description: "Someone @mentioned you in a ticket comment.",
+  },
+  TICKET_COMMENTED: {
+    title: "Comments on watched tickets",
+    description: "Someone commented on a ticket you're watching.",
+  },
+  APPROVAL_REQUESTED: {
+    title: "Approval requested",
+    description: "It's your turn to sign off a revision in your company's approval chain.",
+  },
 };
 
 // Stable order for rendering the toggle list. Matches the order of the
@@ -145,11 +180,18 @@ const NOTIFICATION_LABELS: Record<NotificationType, { title: string; description
 // pins resolved → completed.
 const NOTIFICATION_ORDER: NotificationType[] = [
   "TICKET_ASSIGNED",
+  "TICKET_UNBLOCKED",
   "TICKET_STATUS_CHANGED",
   "REVISION_SUBMITTED",
   "FEEDBACK_SUBMITTED",
+  "APPROVAL_REQUESTED",
+  "MENTIONED",
+  "TICKET_COMMENTED",
   "PIN_RESOLVED",
   "TICKET_COMPLETED",
+  "SLA_AT_RISK",
+  "SLA_BREACHED",
+  "RECURRING_TICKET_SKIPPED",
 ];
 
 // ---------------------------------------------------------------------------
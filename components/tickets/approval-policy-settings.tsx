@@ -0,0 +1,361 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/approval-policy-settings.tsx
+// @purpose: "Approval chain" card for /customer/settings (OWNER + PM). Sets
+//           who must sign off a revision before a ticket can be marked done —
+//           for the whole company or overridden per project — via
+//           /api/customer/approval-policy. Edits are drafted, then saved.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FormInput, FormSelect } from "@/components/ui/form-field";
+import { useToast } from "@/components/ui/toast-provider";
+
+type ApprovalMode = "SEQUENTIAL" | "PARALLEL";
+
+type Policy = {
+  projectId: string | null;
+  mode: ApprovalMode;
+  minApprovals: number;
+  approvers: { userId: string; name: string | null; position: number; label: string | null }[];
+};
+
+type ApprovalSettings = {
+  policies: Policy[];
+  members: { id: string; name: string | null; email: string; roleInCompany: string }[];
+  projects: { id: string; name: string; code: string | null }[];
+};
+
+type Draft = {
+  mode: ApprovalMode;
+  minApprovals: number;
+  approvers: { userId: string; label: string }[];
+};
+
+const MODE_LABELS: Record<ApprovalMode, { label: string; description: string }> = {
+  SEQUENTIAL: {
+    label: "In order",
+    description: "Approvers sign off one after another; each is asked once the previous approves.",
+  },
+  PARALLEL: {
+    label: "Any order",
+    description: "Every approver is asked as soon as a revision is ready for review.",
+  },
+};
+
+/** "" in the scope picker stands for the company default. */
+const COMPANY_SCOPE = "";
+
+function toDraft(policy: Policy | undefined): Draft {
+  if (!policy) return { mode: "PARALLEL", minApprovals: 1, approvers: [] };
+  return {
+    mode: policy.mode,
+    minApprovals: policy.minApprovals,
+    approvers: policy.approvers.map((a) => ({ userId: a.userId, label: a.label ?? "" })),
+  };
+}
+
+export function ApprovalPolicySettings() {
+  const { showToast } = useToast();
+  const [settings, setSettings] = useState<ApprovalSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [scope, setScope] = useState(COMPANY_SCOPE);
+  const [draft, setDraft] = useState<Draft>(toDraft(undefined));
+
+  const policyFor = (s: ApprovalSettings | null, scopeId: string) =>
+    s?.policies.find((p) => (p.projectId ?? COMPANY_SCOPE) === scopeId);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/customer/approval-policy", { cache: "no-store" });
+        const json = await res.json().catch(() => null);
+        if (!cancelled && res.ok && json) {
+          setSettings(json as ApprovalSettings);
+          setDraft(toDraft(policyFor(json as ApprovalSettings, COMPANY_SCOPE)));
+        }
+      } catch {
+        // silent
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const memberName = useMemo(() => {
+    const byId = new Map(settings?.members.map((m) => [m.id, m.name || m.email]) ?? []);
+    return (id: string) => byId.get(id) ?? "Former member";
+  }, [settings]);
+
+  const changeScope = (next: string) => {
+    setScope(next);
+    setDraft(toDraft(policyFor(settings, next)));
+  };
+
+  const save = async (approvers: Draft["approvers"]) => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/customer/approval-policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          projectId: scope || null,
+          mode: draft.mode,
+          minApprovals: Math.min(draft.minApprovals, Math.max(1, approvers.length)),
+          approvers: approvers.map((a) => ({ userId: a.userId, label: a.label.trim() || null })),
+        }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        showToast({ type: "error", title: json?.error || "Failed to update approval chain" });
+        return;
+      }
+      const next = json as ApprovalSettings;
+      setSettings(next);
+      setDraft(toDraft(policyFor(next, scope)));
+      showToast({
+        type: "success",
+        title: approvers.length > 0 ? "Approval chain saved" : "Approval chain removed",
+      });
+    } catch {
+      showToast({ type: "error", title: "Failed to update approval chain" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const moveApprover = (index: number, delta: number) => {
+    const approvers = [...draft.approvers];
+    const [moved] = approvers.splice(index, 1);
+    approvers.splice(index + delta, 0, moved);
+    setDraft({ ...draft, approvers });
+  };
+
+  const current = policyFor(settings, scope);
+  const companyPolicy = policyFor(settings, COMPANY_SCOPE);
+  const available = settings?.members.filter(
+    (m) => !draft.approvers.some((a) => a.userId === m.id),
+  );
+
+  return (
+    <div className="mt-6 rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-5 py-5 shadow-sm">
+      <h2 className="text-sm font-semibold text-[var(--bb-secondary)]">Approval chain</h2>
+      <p className="mt-0.5 text-[11px] text-[var(--bb-text-tertiary)]">
+        Require sign-off from specific people (brand, legal, marketing…) before a ticket can be
+        marked done. Each new revision goes through the chain again.
+      </p>
+
+      {loading ? (
+        <p className="mt-4 text-xs text-[var(--bb-text-tertiary)]">Loading approval chain…</p>
+      ) : !settings ? (
+        <p className="mt-4 text-xs text-[var(--bb-text-tertiary)]">
+          Approval settings are unavailable right now.
+        </p>
+      ) : (
+        <>
+          <div className="mt-4">
+            <label
+              htmlFor="approval-scope"
+              className="text-[11px] font-medium text-[var(--bb-text-secondary)]"
+            >
+              Applies to
+            </label>
+            <FormSelect
+              id="approval-scope"
+              size="sm"
+              className="mt-1 !w-64"
+              value={scope}
+              disabled={saving}
+              onChange={(e) => changeScope(e.target.value)}
+            >
+              <option value={COMPANY_SCOPE}>
+                All tickets (company default){companyPolicy ? " ✓" : ""}
+              </option>
+              {settings.projects.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.code ? `${p.code} · ` : ""}
+                  {p.name}
+                  {policyFor(settings, p.id) ? " ✓" : ""}
+                </option>
+              ))}
+            </FormSelect>
+            <p className="mt-1 text-[11px] text-[var(--bb-text-tertiary)]">
+              {scope === COMPANY_SCOPE
+                ? "Used by every project without its own chain."
+                : current
+                  ? "This project uses its own chain instead of the company default."
+                  : companyPolicy
+                    ? "This project follows the company default until you save a chain for it."
+                    : "No chain yet — tickets in this project can be marked done directly."}
+            </p>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-end gap-4">
+            <div>
+              <label
+                htmlFor="approval-mode"
+                className="text-[11px] font-medium text-[var(--bb-text-secondary)]"
+              >
+                Sign-off order
+              </label>
+              <FormSelect
+                id="approval-mode"
+                size="sm"
+                className="mt-1 !w-40"
+                value={draft.mode}
+                disabled={saving}
+                onChange={(e) => setDraft({ ...draft, mode: e.target.value as ApprovalMode })}
+              >
+                {(Object.keys(MODE_LABELS) as ApprovalMode[]).map((m) => (
+                  <option key={m} value={m}>
+                    {MODE_LABELS[m].label}
+                  </option>
+                ))}
+              </FormSelect>
+            </div>
+            <div>
+              <label
+                htmlFor="approval-min"
+                className="text-[11px] font-medium text-[var(--bb-text-secondary)]"
+              >
+                Approvals needed
+              </label>
+              <FormInput
+                id="approval-min"
+                type="number"
+                size="sm"
+                className="mt-1 !w-24"
+                min={1}
+                max={Math.max(1, draft.approvers.length)}
+                value={draft.minApprovals}
+                disabled={saving}
+                onChange={(e) =>
+                  setDraft({ ...draft, minApprovals: Math.max(1, Number(e.target.value) || 1) })
+                }
+              />
+            </div>
+            <p className="pb-1 text-[11px] text-[var(--bb-text-tertiary)]">
+              {MODE_LABELS[draft.mode].description}
+              {draft.mode === "SEQUENTIAL" &&
+                draft.minApprovals < draft.approvers.length &&
+                ` Only the first ${draft.minApprovals} in the list are needed.`}
+            </p>
+          </div>
+
+          <div className="mt-4 space-y-1">
+            {draft.approvers.length === 0 && (
+              <p className="text-xs text-[var(--bb-text-tertiary)]">No approvers yet.</p>
+            )}
+            {draft.approvers.map((a, i) => (
+              <div
+                key={a.userId}
+                className="flex items-center gap-2 rounded-xl bg-[var(--bb-bg-warm)] px-3 py-2"
+              >
+                <span className="w-5 text-[11px] text-[var(--bb-text-tertiary)]">{i + 1}.</span>
+                <span className="min-w-0 flex-1 truncate text-xs text-[var(--bb-secondary)]">
+                  {memberName(a.userId)}
+                </span>
+                <FormInput
+                  size="sm"
+                  className="!w-36"
+                  placeholder="Role, e.g. Legal"
+                  aria-label={`Sign-off role for ${memberName(a.userId)}`}
+                  maxLength={40}
+                  value={a.label}
+                  disabled={saving}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      approvers: draft.approvers.map((x, j) =>
+                        j === i ? { ...x, label: e.target.value } : x,
+                      ),
+                    })
+                  }
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label="Move up"
+                  disabled={saving || i === 0}
+                  onClick={() => moveApprover(i, -1)}
+                >
+                  &#8593;
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label="Move down"
+                  disabled={saving || i === draft.approvers.length - 1}
+                  onClick={() => moveApprover(i, 1)}
+                >
+                  &#8595;
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Remove ${memberName(a.userId)}`}
+                  disabled={saving}
+                  onClick={() =>
+                    setDraft({ ...draft, approvers: draft.approvers.filter((_, j) => j !== i) })
+                  }
+                >
+                  &#10005;
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {available && available.length > 0 && draft.approvers.length < 10 && (
+            <FormSelect
+              size="sm"
+              className="mt-2 !w-64"
+              aria-label="Add approver"
+              value=""
+              disabled={saving}
+              onChange={(e) =>
+                e.target.value &&
+                setDraft({
+                  ...draft,
+                  approvers: [...draft.approvers, { userId: e.target.value, label: "" }],
+                })
+              }
+            >
+              <option value="">+ Add approver…</option>
+              {available.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name || m.email}
+                </option>
+              ))}
+            </FormSelect>
+          )}
+
+          <div className="mt-4 flex items-center gap-2">
+            <Button
+              size="sm"
+              loading={saving}
+              disabled={draft.approvers.length === 0}
+              onClick={() => save(draft.approvers)}
+            >
+              Save chain
+            </Button>
+            {current && (
+              <Button variant="secondary" size="sm" disabled={saving} onClick={() => save([])}>
+                {scope === COMPANY_SCOPE ? "Remove chain" : "Use company default"}
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
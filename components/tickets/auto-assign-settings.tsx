@@ -0,0 +1,236 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/auto-assign-settings.tsx
+// @purpose: "Auto-assign" card for /customer/settings (OWNER + PM). Picks the
+//           company's assignment strategy, nominates preferred creatives and
+//           sets per-project strategy overrides via /api/customer/auto-assign.
+//           Every change is saved straight away.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { FormSelect } from "@/components/ui/form-field";
+import { useToast } from "@/components/ui/toast-provider";
+
+type StrategyKey = "LOAD_BALANCED" | "PROJECT_CONTINUITY" | "PREFERRED_CREATIVES" | "ROUND_ROBIN";
+
+type AutoAssignSettings = {
+  autoAssignEnabled: boolean;
+  strategy: StrategyKey;
+  strategies: { key: StrategyKey; label: string; description: string }[];
+  preferredCreativeIds: string[];
+  creatives: { id: string; name: string | null; ticketCount: number }[];
+  projects: { id: string; name: string; code: string | null; strategy: StrategyKey | null }[];
+};
+
+type AutoAssignPatch = {
+  strategy?: StrategyKey;
+  preferredCreativeIds?: string[];
+  projects?: { projectId: string; strategy: StrategyKey | null }[];
+};
+
+export function AutoAssignSettings() {
+  const { showToast } = useToast();
+  const [settings, setSettings] = useState<AutoAssignSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/customer/auto-assign", { cache: "no-store" });
+        const json = await res.json().catch(() => null);
+        if (!cancelled && res.ok && json) setSettings(json as AutoAssignSettings);
+      } catch {
+        // silent
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = async (patch: AutoAssignPatch) => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/customer/auto-assign", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        showToast({ type: "error", title: json?.error || "Failed to update auto-assign" });
+        return;
+      }
+      setSettings(json as AutoAssignSettings);
+      showToast({ type: "success", title: "Auto-assign updated" });
+    } catch {
+      showToast({ type: "error", title: "Failed to update auto-assign" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePreferred = (creativeId: string, checked: boolean) => {
+    if (!settings) return;
+    const current = settings.preferredCreativeIds;
+    save({
+      preferredCreativeIds: checked
+        ? [...current, creativeId]
+        : current.filter((id) => id !== creativeId),
+    });
+  };
+
+  const labelFor = (key: StrategyKey) =>
+    settings?.strategies.find((s) => s.key === key)?.label ?? key;
+  const selected = settings?.strategies.find((s) => s.key === settings.strategy);
+
+  return (
+    <div className="mt-6 rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-5 py-5 shadow-sm">
+      <h2 className="text-sm font-semibold text-[var(--bb-secondary)]">Auto-assign</h2>
+      <p className="mt-0.5 text-[11px] text-[var(--bb-text-tertiary)]">
+        How a creative is picked for new tickets. Whatever you choose, only creatives with the right
+        skills and free capacity are considered.
+      </p>
+
+      {loading ? (
+        <p className="mt-4 text-xs text-[var(--bb-text-tertiary)]">Loading auto-assign…</p>
+      ) : !settings ? (
+        <p className="mt-4 text-xs text-[var(--bb-text-tertiary)]">
+          Auto-assign settings are unavailable right now.
+        </p>
+      ) : (
+        <>
+          {!settings.autoAssignEnabled && (
+            <p className="mt-3 text-[11px] text-[var(--bb-warning-text)]">
+              Auto-assign is currently off for your company, so these settings only apply to
+              projects that turn it on.
+            </p>
+          )}
+
+          <div className="mt-4">
+            <label
+              htmlFor="auto-assign-strategy"
+              className="text-[11px] font-medium text-[var(--bb-text-secondary)]"
+            >
+              Company strategy
+            </label>
+            <FormSelect
+              id="auto-assign-strategy"
+              size="sm"
+              className="mt-1 !w-64"
+              value={settings.strategy}
+              disabled={saving}
+              onChange={(e) => save({ strategy: e.target.value as StrategyKey })}
+            >
+              {settings.strategies.map((s) => (
+                <option key={s.key} value={s.key}>
+                  {s.label}
+                </option>
+              ))}
+            </FormSelect>
+            {selected && (
+              <p className="mt-1 text-[11px] text-[var(--bb-text-tertiary)]">
+                {selected.description}
+              </p>
+            )}
+          </div>
+
+          <div className="mt-5">
+            <h3 className="text-xs font-semibold text-[var(--bb-secondary)]">
+              Preferred creatives
+            </h3>
+            <p className="mt-0.5 text-[11px] text-[var(--bb-text-tertiary)]">
+              Used by the “{labelFor("PREFERRED_CREATIVES")}” strategy. You can pick from creatives
+              who have worked on your tickets.
+            </p>
+            {settings.creatives.length === 0 ? (
+              <p className="mt-2 text-xs text-[var(--bb-text-tertiary)]">
+                No creatives have worked on your tickets yet.
+              </p>
+            ) : (
+              <div className="mt-2 space-y-1">
+                {settings.creatives.map((c) => (
+                  <label
+                    key={c.id}
+                    className="flex items-center justify-between gap-2 rounded-xl bg-[var(--bb-bg-warm)] px-3 py-2 text-xs text-[var(--bb-secondary)]"
+                  >
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={settings.preferredCreativeIds.includes(c.id)}
+                        disabled={saving}
+                        onChange={(e) => togglePreferred(c.id, e.target.checked)}
+                      />
+                      {c.name || "Unnamed creative"}
+                    </span>
+                    <span className="text-[10px] text-[var(--bb-text-tertiary)]">
+                      {c.ticketCount} {c.ticketCount === 1 ? "ticket" : "tickets"}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {settings.projects.length > 0 && (
+            <div className="mt-5">
+              <h3 className="text-xs font-semibold text-[var(--bb-secondary)]">
+                Project overrides
+              </h3>
+              <p className="mt-0.5 text-[11px] text-[var(--bb-text-tertiary)]">
+                Give a project its own strategy, e.g. project continuity for brand work.
+              </p>
+              <div className="mt-2 space-y-1">
+                {settings.projects.map((p) => (
+                  <div
+                    key={p.id}
+                    className="flex items-center justify-between gap-2 rounded-xl bg-[var(--bb-bg-warm)] px-3 py-2"
+                  >
+                    <span className="truncate text-xs text-[var(--bb-secondary)]">
+                      {p.code && (
+                        <span className="mr-1.5 text-[var(--bb-text-tertiary)]">{p.code}</span>
+                      )}
+                      {p.name}
+                    </span>
+                    <FormSelect
+                      size="sm"
+                      className="!w-56"
+                      aria-label={`Strategy for ${p.name}`}
+                      value={p.strategy ?? ""}
+                      disabled={saving}
+                      onChange={(e) =>
+                        save({
+                          projects: [
+                            {
+                              projectId: p.id,
+                              strategy: (e.target.value || null) as StrategyKey | null,
+                            },
+                          ],
+                        })
+                      }
+                    >
+                      <option value="">Company default ({labelFor(settings.strategy)})</option>
+                      {settings.strategies.map((s) => (
+                        <option key={s.key} value={s.key}>
+                          {s.label}
+                        </option>
+                      ))}
+                    </FormSelect>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
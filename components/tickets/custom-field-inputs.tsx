@@ -0,0 +1,164 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/custom-field-inputs.tsx
+// @purpose: Company custom fields on tickets — editable inputs shared by the
+//           new-ticket form and the customer ticket page, plus the read-only
+//           list shown to customers and creatives. Values are kept as a
+//           `{ [fieldId]: string | string[] }` map, the shape the API takes.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { FormInput, FormSelect } from "@/components/ui/form-field";
+import { type CustomFieldTypeKey, formatCustomFieldValue } from "@/lib/tickets/custom-field-values";
+
+/** A company field definition as returned by /api/customer/custom-fields. */
+export type CustomFieldDefinitionOption = {
+  id: string;
+  label: string;
+  type: CustomFieldTypeKey;
+  options: string[];
+  required: boolean;
+};
+
+/** A definition with one ticket's stored value (ticket detail APIs). */
+export type TicketCustomFieldEntry = CustomFieldDefinitionOption & {
+  value: string | null;
+  values: string[];
+};
+
+export type CustomFieldFormValues = Record<string, string | string[]>;
+
+/** Form state for a ticket's stored values. */
+export function toCustomFieldFormValues(entries: TicketCustomFieldEntry[]): CustomFieldFormValues {
+  return Object.fromEntries(
+    entries.map((f) => [f.id, f.type === "MULTI_SELECT" ? f.values : (f.value ?? "")]),
+  );
+}
+
+const INPUT_TYPES: Partial<Record<CustomFieldTypeKey, string>> = {
+  NUMBER: "number",
+  DATE: "date",
+  URL: "url",
+};
+
+export function CustomFieldInputs({
+  fields,
+  values,
+  onChange,
+  disabled,
+}: {
+  fields: CustomFieldDefinitionOption[];
+  values: CustomFieldFormValues;
+  onChange: (next: CustomFieldFormValues) => void;
+  disabled?: boolean;
+}) {
+  if (fields.length === 0) return null;
+
+  const set = (fieldId: string, value: string | string[]) =>
+    onChange({ ...values, [fieldId]: value });
+
+  return (
+    <div className="grid gap-3 md:grid-cols-2">
+      {fields.map((field) => {
+        const raw = values[field.id];
+        const inputId = `custom-field-${field.id}`;
+        return (
+          <div key={field.id} className="space-y-1">
+            <label htmlFor={inputId} className="text-xs font-medium text-[var(--bb-secondary)]">
+              {field.label}
+              {field.required && <span className="ml-0.5 text-[var(--bb-danger-text)]">*</span>}
+            </label>
+
+            {field.type === "MULTI_SELECT" ? (
+              <div id={inputId} className="flex flex-wrap gap-1.5">
+                {field.options.map((option) => {
+                  const selected = Array.isArray(raw) && raw.includes(option);
+                  return (
+                    <button
+                      key={option}
+                      type="button"
+                      disabled={disabled}
+                      aria-pressed={selected}
+                      onClick={() => {
+                        const current = Array.isArray(raw) ? raw : [];
+                        set(
+                          field.id,
+                          selected ? current.filter((v) => v !== option) : [...current, option],
+                        );
+                      }}
+                      className={`rounded-full border px-2.5 py-0.5 text-[11px] transition-colors disabled:opacity-50 ${
+                        selected
+                          ? "border-[var(--bb-primary)] bg-[var(--bb-primary-light)] text-[var(--bb-primary)]"
+                          : "border-[var(--bb-border-input)] text-[var(--bb-text-secondary)] hover:border-[var(--bb-primary)]"
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  );
+                })}
+              </div>
+            ) : field.type === "SELECT" ? (
+              <FormSelect
+                id={inputId}
+                size="sm"
+                value={typeof raw === "string" ? raw : ""}
+                onChange={(e) => set(field.id, e.target.value)}
+                disabled={disabled}
+              >
+                <option value="">—</option>
+                {field.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </FormSelect>
+            ) : (
+              <FormInput
+                id={inputId}
+                size="sm"
+                type={INPUT_TYPES[field.type] ?? "text"}
+                value={typeof raw === "string" ? raw : ""}
+                onChange={(e) => set(field.id, e.target.value)}
+                placeholder={field.type === "URL" ? "https://" : undefined}
+                disabled={disabled}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Read-only list of the fields that have a value. Renders nothing when none do. */
+export function CustomFieldList({ fields }: { fields: TicketCustomFieldEntry[] }) {
+  const filled = fields.filter((f) => f.value !== null || f.values.length > 0);
+  if (filled.length === 0) return null;
+
+  return (
+    <dl className="space-y-1 text-xs text-[var(--bb-text-secondary)]">
+      {filled.map((f) => (
+        <div key={f.id} className="flex flex-wrap gap-1">
+          <dt>{f.label}:</dt>
+          <dd className="font-semibold break-all text-[var(--bb-secondary)]">
+            {f.type === "URL" && f.value ? (
+              <a
+                href={f.value}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-[var(--bb-primary)] hover:underline"
+              >
+                {f.value}
+              </a>
+            ) : (
+              formatCustomFieldValue(f.type, f)
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
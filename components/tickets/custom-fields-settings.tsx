@@ -0,0 +1,386 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/custom-fields-settings.tsx
+// @purpose: "Custom fields" card for /customer/settings (OWNER + PM). Lists
+//           the company's ticket custom fields and creates, edits, reorders
+//           and deletes them via /api/customer/custom-fields.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { FormInput, FormSelect } from "@/components/ui/form-field";
+import { useToast } from "@/components/ui/toast-provider";
+import type { CustomFieldDefinitionOption } from "@/components/tickets/custom-field-inputs";
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  type CustomFieldTypeKey,
+} from "@/lib/tickets/custom-field-values";
+
+type SettingsField = CustomFieldDefinitionOption & { position: number };
+
+const isSelectType = (type: CustomFieldTypeKey) => type === "SELECT" || type === "MULTI_SELECT";
+
+/** "Email, Social ,  Print" → ["Email", "Social", "Print"] */
+const parseOptions = (raw: string) =>
+  raw
+    .split(",")
+    .map((o) => o.trim())
+    .filter(Boolean);
+
+export function CustomFieldsSettings() {
+  const { showToast } = useToast();
+  const [fields, setFields] = useState<SettingsField[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [newLabel, setNewLabel] = useState("");
+  const [newType, setNewType] = useState<CustomFieldTypeKey>("TEXT");
+  const [newOptions, setNewOptions] = useState("");
+  const [newRequired, setNewRequired] = useState(false);
+  const [adding, setAdding] = useState(false);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editLabel, setEditLabel] = useState("");
+  const [editOptions, setEditOptions] = useState("");
+  const [editRequired, setEditRequired] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [fieldToDelete, setFieldToDelete] = useState<SettingsField | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/customer/custom-fields", { cache: "no-store" });
+        const json = await res.json().catch(() => null);
+        if (!cancelled && Array.isArray(json?.fields)) setFields(json.fields as SettingsField[]);
+      } catch {
+        // silent
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const patchField = async (id: string, body: Record<string, unknown>) => {
+    const res = await fetch(`/api/customer/custom-fields/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok) {
+      showToast({ type: "error", title: json?.error || "Failed to update field" });
+      return null;
+    }
+    return json.field as SettingsField;
+  };
+
+  const handleAdd = async () => {
+    const label = newLabel.trim();
+    if (!label) return;
+    setAdding(true);
+    try {
+      const res = await fetch("/api/customer/custom-fields", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          label,
+          type: newType,
+          options: isSelectType(newType) ? parseOptions(newOptions) : [],
+          required: newRequired,
+        }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        showToast({ type: "error", title: json?.error || "Failed to create field" });
+        return;
+      }
+      setFields((prev) => [...prev, json.field as SettingsField]);
+      setNewLabel("");
+      setNewType("TEXT");
+      setNewOptions("");
+      setNewRequired(false);
+      showToast({ type: "success", title: `Field "${label}" created` });
+    } catch {
+      showToast({ type: "error", title: "Failed to create field" });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const startEditing = (field: SettingsField) => {
+    setEditingId(field.id);
+    setEditLabel(field.label);
+    setEditOptions(field.options.join(", "));
+    setEditRequired(field.required);
+  };
+
+  const handleSave = async (field: SettingsField) => {
+    const label = editLabel.trim();
+    if (!label) return;
+    setSaving(true);
+    try {
+      const updated = await patchField(field.id, {
+        label,
+        required: editRequired,
+        ...(isSelectType(field.type) ? { options: parseOptions(editOptions) } : {}),
+      });
+      if (!updated) return;
+      setFields((prev) => prev.map((f) => (f.id === field.id ? updated : f)));
+      setEditingId(null);
+      showToast({ type: "success", title: "Field updated" });
+    } catch {
+      showToast({ type: "error", title: "Failed to update field" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Swap positions with the neighbour; the list is re-sorted from the
+  // server's answer so a failed second PATCH can't leave a bogus order.
+  const move = async (index: number, direction: -1 | 1) => {
+    const a = fields[index];
+    const b = fields[index + direction];
+    if (!a || !b) return;
+    setSaving(true);
+    try {
+      const [first, second] = await Promise.all([
+        patchField(a.id, { position: b.position }),
+        patchField(b.id, { position: a.position }),
+      ]);
+      setFields((prev) =>
+        prev
+          .map((f) => (f.id === a.id && first ? first : f.id === b.id && second ? second : f))
+          .sort((x, y) => x.position - y.position),
+      );
+    } catch {
+      showToast({ type: "error", title: "Failed to reorder fields" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!fieldToDelete) return;
+    setDeleting(true);
+    try {
+      const res = await fetch(`/api/customer/custom-fields/${fieldToDelete.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        showToast({ type: "error", title: json?.error || "Failed to delete field" });
+        return;
+      }
+      setFields((prev) => prev.filter((f) => f.id !== fieldToDelete.id));
+      showToast({ type: "success", title: "Field deleted" });
+      setFieldToDelete(null);
+    } catch {
+      showToast({ type: "error", title: "Failed to delete field" });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-5 py-5 shadow-sm">
+      <h2 className="text-sm font-semibold text-[var(--bb-secondary)]">Custom fields</h2>
+      <p className="mt-0.5 text-[11px] text-[var(--bb-text-tertiary)]">
+        Extra details your team fills in on every ticket — campaign code, cost center, channel,
+        launch date. Creatives see them on the ticket page.
+      </p>
+
+      {loading ? (
+        <p className="mt-4 text-xs text-[var(--bb-text-tertiary)]">Loading custom fields…</p>
+      ) : (
+        <>
+          {fields.length === 0 ? (
+            <p className="mt-4 text-xs text-[var(--bb-text-tertiary)]">
+              No custom fields yet. Create your first field below.
+            </p>
+          ) : (
+            <div className="mt-4 space-y-2">
+              {fields.map((field, index) => (
+                <div
+                  key={field.id}
+                  className="flex items-center justify-between gap-2 rounded-xl bg-[var(--bb-bg-warm)] px-3 py-2"
+                >
+                  {editingId === field.id ? (
+                    <div className="flex flex-1 flex-wrap items-center gap-2">
+                      <FormInput
+                        size="sm"
+                        value={editLabel}
+                        onChange={(e) => setEditLabel(e.target.value)}
+                        maxLength={60}
+                        aria-label={`Edit field ${field.label}`}
+                        className="!w-40"
+                        autoFocus
+                      />
+                      {isSelectType(field.type) && (
+                        <FormInput
+                          size="sm"
+                          value={editOptions}
+                          onChange={(e) => setEditOptions(e.target.value)}
+                          placeholder="Options, comma-separated"
+                          aria-label="Options"
+                          className="!w-56"
+                        />
+                      )}
+                      <label className="flex items-center gap-1 text-[11px] text-[var(--bb-text-secondary)]">
+                        <input
+                          type="checkbox"
+                          checked={editRequired}
+                          onChange={(e) => setEditRequired(e.target.checked)}
+                        />
+                        Required
+                      </label>
+                      <Button
+                        size="sm"
+                        onClick={() => handleSave(field)}
+                        loading={saving}
+                        loadingText="…"
+                        disabled={!editLabel.trim()}
+                      >
+                        Save
+                      </Button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="text-[11px] text-[var(--bb-text-tertiary)] hover:text-[var(--bb-secondary)]"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="min-w-0">
+                        <p className="text-xs font-semibold text-[var(--bb-secondary)]">
+                          {field.label}
+                          {field.required && (
+                            <span className="ml-1 text-[10px] font-normal text-[var(--bb-danger-text)]">
+                              required
+                            </span>
+                          )}
+                        </p>
+                        <p className="truncate text-[11px] text-[var(--bb-text-tertiary)]">
+                          {CUSTOM_FIELD_TYPE_LABELS[field.type]}
+                          {field.options.length > 0 && ` · ${field.options.join(", ")}`}
+                        </p>
+                      </div>
+                      <div className="flex shrink-0 items-center gap-1">
+                        <button
+                          type="button"
+                          onClick={() => move(index, -1)}
+                          disabled={index === 0 || saving}
+                          className="rounded px-1 text-[var(--bb-text-tertiary)] hover:text-[var(--bb-secondary)] disabled:opacity-30"
+                          title="Move up"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => move(index, 1)}
+                          disabled={index === fields.length - 1 || saving}
+                          className="rounded px-1 text-[var(--bb-text-tertiary)] hover:text-[var(--bb-secondary)] disabled:opacity-30"
+                          title="Move down"
+                        >
+                          ↓
+                        </button>
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(field)}>
+                          Edit
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setFieldToDelete(field)}>
+                          Delete
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Add new field */}
+          <div className="mt-4 rounded-xl border border-dashed border-[var(--bb-border-input)] bg-[var(--bb-bg-page)] px-3 py-3">
+            <p className="mb-2 text-[11px] font-medium text-[var(--bb-text-tertiary)]">
+              Add a new field
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <FormInput
+                size="sm"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                placeholder="Field label"
+                maxLength={60}
+                aria-label="New field label"
+                className="!w-44"
+              />
+              <FormSelect
+                size="sm"
+                value={newType}
+                onChange={(e) => setNewType(e.target.value as CustomFieldTypeKey)}
+                aria-label="New field type"
+                className="!w-36"
+              >
+                {CUSTOM_FIELD_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {CUSTOM_FIELD_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </FormSelect>
+              {isSelectType(newType) && (
+                <FormInput
+                  size="sm"
+                  value={newOptions}
+                  onChange={(e) => setNewOptions(e.target.value)}
+                  placeholder="Options, comma-separated"
+                  aria-label="New field options"
+                  className="!w-56"
+                />
+              )}
+              <label className="flex items-center gap-1 text-[11px] text-[var(--bb-text-secondary)]">
+                <input
+                  type="checkbox"
+                  checked={newRequired}
+                  onChange={(e) => setNewRequired(e.target.checked)}
+                />
+                Required
+              </label>
+              <Button
+                size="sm"
+                onClick={handleAdd}
+                loading={adding}
+                loadingText="Adding…"
+                disabled={
+                  !newLabel.trim() || (isSelectType(newType) && !parseOptions(newOptions).length)
+                }
+              >
+                Add field
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+
+      <ConfirmDialog
+        open={fieldToDelete !== null}
+        onClose={() => !deleting && setFieldToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete custom field"
+        description="The field and its values on every ticket will be removed. This can't be undone."
+        confirmLabel="Delete"
+        loading={deleting}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/customer-bulk-bar.tsx
+// @purpose: Bulk action bar for the customer tickets list and board — move
+//           project, change priority, add/remove tags, set due date and
+//           cancel-with-refund across the selected tickets via
+//           POST /api/customer/tickets/bulk. Renders nothing until at least
+//           one ticket is selected.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import {
+  type CompanyRole,
+  canEditTickets,
+  isCompanyAdminRole,
+} from "@/lib/permissions/companyRoles";
+
+type TicketPriority = "LOW" | "MEDIUM" | "HIGH" | "URGENT";
+
+type BulkPayload =
+  | { op: "project"; projectId: string | null }
+  | { op: "priority"; priority: TicketPriority }
+  | { op: "addTags"; tagIds: string[] }
+  | { op: "removeTags"; tagIds: string[] }
+  | { op: "dueDate"; dueDate: string | null }
+  | { op: "cancel" };
+
+const SELECT_CLASS =
+  "rounded-md border border-[var(--bb-border-input)] bg-white px-2 py-1 text-xs text-[var(--bb-secondary)]";
+
+export function CustomerBulkBar({
+  selectedIds,
+  companyRole,
+  onClear,
+  onApplied,
+}: {
+  selectedIds: string[];
+  companyRole: CompanyRole | null;
+  onClear: () => void;
+  /** Called after every request that changed at least one ticket. */
+  onApplied: () => void | Promise<void>;
+}) {
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [tags, setTags] = useState<{ id: string; name: string }[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [projectId, setProjectId] = useState(""); // "" = placeholder, "__none__" = no project
+  const [priority, setPriority] = useState<TicketPriority | "">("");
+  const [tagId, setTagId] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [cancelOpen, setCancelOpen] = useState(false);
+
+  const canEdit = canEditTickets(companyRole);
+  const canCancel = isCompanyAdminRole(companyRole);
+
+  // Move targets + tag options. /api/customer/tags returns [] when the tag
+  // feature is off, which hides the tag controls.
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/customer/projects", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((json) => {
+        if (!cancelled && Array.isArray(json?.projects)) setProjects(json.projects);
+      })
+      .catch(() => {});
+    fetch("/api/customer/tags", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((json) => {
+        if (!cancelled && Array.isArray(json?.tags)) setTags(json.tags);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (selectedIds.length === 0 || (!canEdit && !canCancel)) return null;
+
+  const runBulk = async (payload: BulkPayload) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/customer/tickets/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ticketIds: selectedIds, ...payload }),
+      });
+      const json = (await res.json().catch(() => null)) as {
+        succeeded?: string[];
+        failed?: { id: string; error: string }[];
+        refundedTokens?: number;
+        error?: string;
+      } | null;
+      if (!res.ok) {
+        setMessage(json?.error || `Request failed with status ${res.status}`);
+        return;
+      }
+
+      const ok = json?.succeeded?.length ?? 0;
+      const bad = json?.failed?.length ?? 0;
+      const verb = payload.op === "cancel" ? "Cancelled" : "Updated";
+      const refund =
+        payload.op === "cancel" && json?.refundedTokens
+          ? ` ${json.refundedTokens} tokens refunded.`
+          : "";
+      setMessage(
+        bad === 0
+          ? `${verb} ${ok} ticket${ok === 1 ? "" : "s"}.${refund}`
+          : `${verb} ${ok}, failed ${bad}. First error: ${json?.failed?.[0]?.error ?? "unknown"}${refund}`,
+      );
+
+      if (ok > 0) {
+        setProjectId("");
+        setPriority("");
+        setTagId("");
+        setDueDate("");
+        await onApplied();
+      }
+    } catch (err) {
+      console.error("[CustomerBulkBar] bulk op error", err);
+      setMessage(err instanceof Error ? err.message : "Bulk update failed.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 rounded-xl border border-[var(--bb-primary)] bg-[var(--bb-primary-light)] p-2">
+      <span className="text-xs font-semibold text-[var(--bb-secondary)]">
+        {selectedIds.length} selected
+      </span>
+      <button
+        type="button"
+        className="rounded-full px-2 py-0.5 text-[11px] text-[var(--bb-text-secondary)] hover:text-[var(--bb-secondary)] hover:underline"
+        onClick={() => {
+          setMessage(null);
+          onClear();
+        }}
+        disabled={saving}
+      >
+        Clear
+      </button>
+
+      {canEdit && (
+        <>
+          <span className="mx-1 h-4 w-px bg-[var(--bb-border)]" />
+
+          {/* Project */}
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            disabled={saving}
+            className={SELECT_CLASS}
+          >
+            <option value="">Move to project…</option>
+            <option value="__none__">No project</option>
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={projectId === "" || saving}
+            onClick={() =>
+              runBulk({ op: "project", projectId: projectId === "__none__" ? null : projectId })
+            }
+          >
+            Move
+          </Button>
+
+          <span className="mx-1 h-4 w-px bg-[var(--bb-border)]" />
+
+          {/* Priority */}
+          <select
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as TicketPriority | "")}
+            disabled={saving}
+            className={SELECT_CLASS}
+          >
+            <option value="">Set priority…</option>
+            <option value="LOW">Low</option>
+            <option value="MEDIUM">Medium</option>
+            <option value="HIGH">High</option>
+            <option value="URGENT">Urgent</option>
+          </select>
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={priority === "" || saving}
+            onClick={() => {
+              if (priority === "") return;
+              runBulk({ op: "priority", priority });
+            }}
+          >
+            Apply
+          </Button>
+
+          {/* Tags */}
+          {tags.length > 0 && (
+            <>
+              <span className="mx-1 h-4 w-px bg-[var(--bb-border)]" />
+              <select
+                value={tagId}
+                onChange={(e) => setTagId(e.target.value)}
+                disabled={saving}
+                className={SELECT_CLASS}
+              >
+                <option value="">Tag…</option>
+                {tags.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+              <Button
+                size="sm"
+                variant="secondary"
+                disabled={tagId === "" || saving}
+                onClick={() => runBulk({ op: "addTags", tagIds: [tagId] })}
+              >
+                Add
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={tagId === "" || saving}
+                onClick={() => runBulk({ op: "removeTags", tagIds: [tagId] })}
+              >
+                Remove
+              </Button>
+            </>
+          )}
+
+          <span className="mx-1 h-4 w-px bg-[var(--bb-border)]" />
+
+          {/* Due date */}
+          <input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            disabled={saving}
+            aria-label="Due date"
+            className={SELECT_CLASS}
+          />
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={dueDate === "" || saving}
+            onClick={() => runBulk({ op: "dueDate", dueDate })}
+          >
+            Set due
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={saving}
+            onClick={() => runBulk({ op: "dueDate", dueDate: null })}
+          >
+            Clear due
+          </Button>
+        </>
+      )}
+
+      {canCancel && (
+        <>
+          <span className="mx-1 h-4 w-px bg-[var(--bb-border)]" />
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={saving}
+            onClick={() => setCancelOpen(true)}
+            className="!border-red-200 !text-red-600 hover:!border-red-400 hover:!bg-red-50"
+          >
+            Cancel & refund
+          </Button>
+        </>
+      )}
+
+      {message && (
+        <span className="ml-2 text-[11px] text-[var(--bb-text-secondary)]">{message}</span>
+      )}
+
+      <ConfirmDialog
+        open={cancelOpen}
+        onClose={() => !saving && setCancelOpen(false)}
+        onConfirm={async () => {
+          await runBulk({ op: "cancel" });
+          setCancelOpen(false);
+        }}
+        title={`Cancel ${selectedIds.length} ticket${selectedIds.length === 1 ? "" : "s"}?`}
+        description="Only unassigned tickets still in To do are cancelled; their full token cost is refunded to your company. Other selected tickets are skipped. This can't be undone."
+        confirmLabel="Cancel & refund"
+        loading={saving}
+      />
+    </div>
+  );
+}
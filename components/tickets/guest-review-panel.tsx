@@ -0,0 +1,479 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/guest-review-panel.tsx
+// @purpose: "Guest reviews" card for the customer ticket detail page. Shares
+//           a revision with people outside the company through an expiring,
+//           optionally password-protected link; lists the links with their
+//           audit log; and puts guest feedback up for acceptance (it becomes
+//           a pin or comment) or dismissal. All state is fetched from
+//           /api/customer/tickets/[ticketId]/guest-reviews.
+// @version: v1.1.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FormInput, FormSelect } from "@/components/ui/form-field";
+import { InlineAlert } from "@/components/ui/inline-alert";
+import { useClipboard } from "@/components/hooks/use-clipboard";
+import {
+  GUEST_REVIEW_DEFAULT_DAYS,
+  GUEST_REVIEW_MAX_DAYS,
+} from "@/lib/schemas/guest-review.schemas";
+
+type LinkState = "ACTIVE" | "EXPIRED" | "REVOKED";
+
+type GuestReviewAction =
+  | "LINK_CREATED"
+  | "LINK_REVOKED"
+  | "VIEWED"
+  | "UNLOCKED"
+  | "PASSWORD_FAILED"
+  | "FEEDBACK_ADDED"
+  | "FEEDBACK_ACCEPTED"
+  | "FEEDBACK_DISMISSED";
+
+type GuestLink = {
+  id: string;
+  label: string | null;
+  revisionVersion: number;
+  /** Null unless the viewer may share the ticket. */
+  url: string | null;
+  hasPassword: boolean;
+  state: LinkState;
+  expiresAt: string;
+  revokedAt: string | null;
+  lastViewedAt: string | null;
+  createdAt: string;
+  createdBy: string;
+  events: {
+    id: string;
+    action: GuestReviewAction;
+    guestName: string | null;
+    actorName: string | null;
+    ipAddress: string | null;
+    createdAt: string;
+  }[];
+};
+
+type GuestFeedback = {
+  id: string;
+  linkId: string;
+  linkLabel: string | null;
+  revisionVersion: number;
+  guestName: string;
+  message: string;
+  asset: { id: string; originalName: string | null } | null;
+  page: number;
+  status: "PENDING" | "ACCEPTED" | "DISMISSED";
+  reviewedBy: string | null;
+  createdAt: string;
+};
+
+type GuestReviews = { links: GuestLink[]; feedback: GuestFeedback[]; canManage: boolean };
+
+const EXPIRY_OPTIONS = [1, 3, 7, 14, GUEST_REVIEW_MAX_DAYS];
+
+const EMPTY_FORM = {
+  version: "",
+  label: "",
+  days: String(GUEST_REVIEW_DEFAULT_DAYS),
+  password: "",
+};
+
+const ACTION_TEXT: Record<GuestReviewAction, string> = {
+  LINK_CREATED: "created the link",
+  LINK_REVOKED: "revoked the link",
+  VIEWED: "opened the review",
+  UNLOCKED: "entered the password",
+  PASSWORD_FAILED: "entered a wrong password",
+  FEEDBACK_ADDED: "left feedback",
+  FEEDBACK_ACCEPTED: "accepted feedback",
+  FEEDBACK_DISMISSED: "dismissed feedback",
+};
+
+const STATE_CLASS: Record<LinkState, string> = {
+  ACTIVE: "text-[var(--bb-success-text)]",
+  EXPIRED: "text-[var(--bb-text-tertiary)]",
+  REVOKED: "text-[var(--bb-danger-text)]",
+};
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function GuestReviewPanel({
+  ticketId,
+  revisionVersions,
+  onFeedbackAccepted,
+}: {
+  ticketId: string;
+  /** Versions that can be shared, newest first. */
+  revisionVersions: number[];
+  /** Called after feedback became a pin or comment, so the page can reload them. */
+  onFeedbackAccepted?: () => void;
+}) {
+  const { copy, isCopied } = useClipboard();
+  const [reviews, setReviews] = useState<GuestReviews | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [showReviewed, setShowReviewed] = useState(false);
+
+  const [sharing, setSharing] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [createdLinkId, setCreatedLinkId] = useState<string | null>(null);
+
+  const apiBase = `/api/customer/tickets/${ticketId}/guest-reviews`;
+
+  // ---- Load ----
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(apiBase, { cache: "no-store" });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(json?.error ?? "Failed to load guest reviews.");
+        return;
+      }
+      setReviews(json as GuestReviews);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load guest reviews.");
+    } finally {
+      setLoading(false);
+    }
+  }, [apiBase]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // ---- Actions ----
+  const run = async (key: string, url: string, init: RequestInit, fallback: string) => {
+    setError(null);
+    setPending(key);
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(json?.error ?? fallback);
+        return null;
+      }
+      setReviews(json as GuestReviews);
+      return json as GuestReviews & { createdLinkId?: string };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return null;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const createLink = async () => {
+    const result = await run(
+      "create",
+      apiBase,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          revisionVersion: form.version ? Number(form.version) : undefined,
+          label: form.label.trim() || null,
+          expiresInDays: Number(form.days),
+          password: form.password || null,
+        }),
+      },
+      "Failed to create the link.",
+    );
+    if (!result) return;
+    setSharing(false);
+    setForm(EMPTY_FORM);
+    setCreatedLinkId(result.createdLinkId ?? null);
+    const created = result.links.find((l) => l.id === result.createdLinkId);
+    if (created?.url) void copy(created.url, created.id);
+  };
+
+  const revokeLink = (linkId: string) =>
+    run(`revoke:${linkId}`, `${apiBase}/${linkId}`, { method: "DELETE" }, "Failed to revoke.");
+
+  const reviewFeedback = async (feedbackId: string, action: "ACCEPT" | "DISMISS") => {
+    const result = await run(
+      `${action}:${feedbackId}`,
+      `${apiBase}/feedback`,
+      { method: "PATCH", body: JSON.stringify({ feedbackId, action }) },
+      "Failed to update the feedback.",
+    );
+    if (result && action === "ACCEPT") onFeedbackAccepted?.();
+  };
+
+  // ---- Render ----
+  const canManage = reviews?.canManage ?? false;
+  const pendingFeedback = reviews?.feedback.filter((f) => f.status === "PENDING") ?? [];
+  const reviewedFeedback = reviews?.feedback.filter((f) => f.status !== "PENDING") ?? [];
+
+  const renderFeedback = (f: GuestFeedback) => (
+    <li
+      key={f.id}
+      className="rounded-md border border-[var(--bb-border-subtle)] bg-[var(--bb-bg-warm)] px-2.5 py-1.5 text-xs"
+    >
+      <div className="flex items-center gap-2">
+        <span className="rounded-full bg-[var(--bb-primary-light)] px-1.5 py-0.5 text-[10px] font-medium text-[var(--bb-primary)]">
+          Guest
+        </span>
+        <span className="min-w-0 flex-1 truncate font-medium text-[var(--bb-secondary)]">
+          {f.guestName}
+        </span>
+        <span className="shrink-0 text-[10px] text-[var(--bb-text-tertiary)]">
+          v{f.revisionVersion}
+          {f.asset
+            ? ` · pin on ${f.asset.originalName ?? "file"}${f.page > 1 ? ` p.${f.page}` : ""}`
+            : " · comment"}
+        </span>
+      </div>
+      <p className="mt-1 whitespace-pre-wrap text-[var(--bb-text-secondary)]">{f.message}</p>
+      {f.status === "PENDING" ? (
+        canManage && (
+          <div className="mt-1.5 flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => reviewFeedback(f.id, "DISMISS")}
+              loading={pending === `DISMISS:${f.id}`}
+              disabled={pending !== null}
+            >
+              Dismiss
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => reviewFeedback(f.id, "ACCEPT")}
+              loading={pending === `ACCEPT:${f.id}`}
+              disabled={pending !== null}
+            >
+              Accept
+            </Button>
+          </div>
+        )
+      ) : (
+        <p className="mt-1 text-[10px] text-[var(--bb-text-tertiary)]">
+          {f.status === "ACCEPTED" ? "Accepted" : "Dismissed"}
+          {f.reviewedBy ? ` by ${f.reviewedBy}` : ""}
+        </p>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-4 py-4 shadow-sm">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-xs font-semibold tracking-[0.18em] text-[var(--bb-text-muted)] uppercase">
+          Guest reviews
+        </h3>
+        {canManage && !sharing && revisionVersions.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setSharing(true)}>
+            + Share
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <InlineAlert variant="error" size="sm" className="mb-2">
+          {error}
+        </InlineAlert>
+      )}
+
+      {sharing && (
+        <div className="mb-3 space-y-2 rounded-md border border-[var(--bb-border-subtle)] p-3">
+          <div className="grid grid-cols-2 gap-2">
+            <FormSelect
+              size="sm"
+              value={form.version}
+              onChange={(e) => setForm({ ...form, version: e.target.value })}
+              aria-label="Revision to share"
+            >
+              <option value="">Latest revision</option>
+              {revisionVersions.map((v) => (
+                <option key={v} value={v}>
+                  v{v}
+                </option>
+              ))}
+            </FormSelect>
+            <FormSelect
+              size="sm"
+              value={form.days}
+              onChange={(e) => setForm({ ...form, days: e.target.value })}
+              aria-label="Link expiry"
+            >
+              {EXPIRY_OPTIONS.map((d) => (
+                <option key={d} value={d}>
+                  Expires in {d} day{d === 1 ? "" : "s"}
+                </option>
+              ))}
+            </FormSelect>
+          </div>
+          <FormInput
+            size="sm"
+            value={form.label}
+            maxLength={60}
+            placeholder="Who is it for? e.g. CEO"
+            aria-label="Link label"
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+          />
+          <FormInput
+            size="sm"
+            type="password"
+            autoComplete="new-password"
+            value={form.password}
+            placeholder="Password (optional)"
+            aria-label="Link password"
+            onChange={(e) => setForm({ ...form, password: e.target.value })}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setSharing(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={createLink}
+              loading={pending === "create"}
+              loadingText="Creating…"
+            >
+              Create link
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-[11px] text-[var(--bb-text-tertiary)]">Loading guest reviews…</p>
+      ) : (
+        reviews && (
+          <div className="space-y-3">
+            {reviews.links.length === 0 ? (
+              <p className="text-[11px] text-[var(--bb-text-tertiary)]">
+                {revisionVersions.length > 0
+                  ? "Share a revision with someone outside your team — they can pin feedback without an account."
+                  : "Once a revision is delivered you can share it with guest reviewers."}
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {reviews.links.map((l) => (
+                  <li
+                    key={l.id}
+                    className="rounded-md border border-[var(--bb-border-subtle)] px-2.5 py-1.5 text-xs"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="min-w-0 flex-1 truncate text-[var(--bb-secondary)]">
+                        {l.label || "Guest link"} · v{l.revisionVersion}
+                        {l.hasPassword && (
+                          <span className="text-[var(--bb-text-tertiary)]"> · password</span>
+                        )}
+                      </span>
+                      <span className={`shrink-0 text-[10px] font-medium ${STATE_CLASS[l.state]}`}>
+                        {l.state === "ACTIVE"
+                          ? `Until ${formatDateTime(l.expiresAt)}`
+                          : l.state === "EXPIRED"
+                            ? "Expired"
+                            : "Revoked"}
+                      </span>
+                    </div>
+                    <div className="mt-1 flex items-center gap-2 text-[10px] text-[var(--bb-text-tertiary)]">
+                      <span className="flex-1">
+                        By {l.createdBy}
+                        {l.lastViewedAt
+                          ? ` · last opened ${formatDateTime(l.lastViewedAt)}`
+                          : " · not opened yet"}
+                      </span>
+                      <button
+                        type="button"
+                        className="hover:text-[var(--bb-primary)]"
+                        onClick={() => setOpenLogId(openLogId === l.id ? null : l.id)}
+                      >
+                        {openLogId === l.id ? "Hide activity" : "Activity"}
+                      </button>
+                      {l.state === "ACTIVE" && l.url && (
+                        <button
+                          type="button"
+                          className="hover:text-[var(--bb-primary)]"
+                          onClick={() => copy(l.url!, l.id)}
+                        >
+                          {isCopied(l.id)
+                            ? "Copied!"
+                            : createdLinkId === l.id
+                              ? "Copy link again"
+                              : "Copy link"}
+                        </button>
+                      )}
+                      {l.state === "ACTIVE" && canManage && (
+                        <button
+                          type="button"
+                          className="hover:text-[var(--bb-danger-text)] disabled:opacity-50"
+                          disabled={pending === `revoke:${l.id}`}
+                          onClick={() => revokeLink(l.id)}
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </div>
+                    {openLogId === l.id && (
+                      <ul className="mt-2 space-y-0.5 border-t border-[var(--bb-border-subtle)] pt-2 text-[10px] text-[var(--bb-text-secondary)]">
+                        {l.events.map((e) => (
+                          <li key={e.id} className="flex gap-2">
+                            <span className="shrink-0 text-[var(--bb-text-tertiary)]">
+                              {formatDateTime(e.createdAt)}
+                            </span>
+                            <span className="min-w-0 flex-1 truncate">
+                              {e.actorName ?? e.guestName ?? "A guest"} {ACTION_TEXT[e.action]}
+                              {e.ipAddress && !e.actorName ? ` (${e.ipAddress})` : ""}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {pendingFeedback.length > 0 && (
+              <div>
+                <p className="mb-1 text-[11px] text-[var(--bb-text-tertiary)]">
+                  Waiting for review ({pendingFeedback.length})
+                </p>
+                <ul className="space-y-1">{pendingFeedback.map(renderFeedback)}</ul>
+              </div>
+            )}
+
+            {reviewedFeedback.length > 0 && (
+              <div>
+                <button
+                  type="button"
+                  className="text-[11px] text-[var(--bb-text-tertiary)] hover:text-[var(--bb-primary)]"
+                  onClick={() => setShowReviewed((v) => !v)}
+                >
+                  {showReviewed ? "Hide" : "Show"} reviewed guest feedback (
+                  {reviewedFeedback.length})
+                </button>
+                {showReviewed && (
+                  <ul className="mt-1 space-y-1">{reviewedFeedback.map(renderFeedback)}</ul>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
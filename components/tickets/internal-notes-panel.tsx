@@ -0,0 +1,142 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/internal-notes-panel.tsx
+// @purpose: Internal notes thread for the creative and admin ticket pages —
+//           the creative ↔ Brandbite channel the customer never sees. Kept
+//           visually distinct (warning palette + "Hidden from customer" badge) from the
+//           customer-visible comments so nobody posts in the wrong thread.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { InlineAlert } from "@/components/ui/inline-alert";
+import { CommentBody, MentionTextarea } from "@/components/tickets/mention-textarea";
+import { formatDateTime } from "@/lib/board";
+import type { MentionCandidate, MentionTarget } from "@/lib/tickets/comment-mentions";
+
+export type InternalNote = {
+  id: string;
+  body: string;
+  createdAt: string;
+  author: { id: string; name: string | null; email: string };
+  mentions?: MentionTarget[];
+};
+
+export function InternalNotesPanel({
+  notes,
+  candidates,
+  postUrl,
+  onAdded,
+}: {
+  notes: InternalNote[];
+  candidates: MentionCandidate[];
+  /** Endpoint that accepts `{ body, isInternal: true }` and echoes `{ comment }`. */
+  postUrl: string;
+  onAdded: (note: InternalNote) => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    const body = draft.trim();
+    if (!body) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(postUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body, isInternal: true }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(json?.error ?? `Request failed with status ${res.status}`);
+        return;
+      }
+      if (json?.comment) {
+        onAdded(json.comment as InternalNote);
+        setDraft("");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add note. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-dashed border-[var(--bb-warning-border)] bg-[var(--bb-warning-bg)] px-4 py-3 shadow-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold tracking-[0.18em] text-[var(--bb-warning-text)] uppercase">
+          Internal notes
+        </h3>
+        <span className="rounded-full border border-[var(--bb-warning-border)] px-2 py-0.5 text-[10px] font-semibold text-[var(--bb-warning-text)]">
+          Hidden from customer
+        </span>
+      </div>
+
+      {error && (
+        <InlineAlert variant="error" size="sm" className="mt-2">
+          {error}
+        </InlineAlert>
+      )}
+
+      <div className="mt-2 max-h-60 space-y-2 overflow-y-auto pr-1">
+        {notes.length === 0 ? (
+          <p className="text-xs text-[var(--bb-text-tertiary)]">
+            No internal notes yet. Use this thread for anything the customer shouldn&apos;t see.
+          </p>
+        ) : (
+          notes.map((n) => (
+            <div key={n.id} className="rounded-lg bg-[var(--bb-bg-page)] px-3 py-2 text-xs">
+              <div className="mb-1 flex items-center justify-between">
+                <span className="font-semibold text-[var(--bb-secondary)]">
+                  {n.author.name || n.author.email}
+                </span>
+                <span className="text-xs text-[var(--bb-text-tertiary)]">
+                  {formatDateTime(n.createdAt)}
+                </span>
+              </div>
+              <CommentBody
+                body={n.body}
+                mentions={n.mentions ?? []}
+                className="text-[var(--bb-secondary)]"
+              />
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="mt-3 border-t border-[var(--bb-warning-border)] pt-3">
+        <MentionTextarea
+          value={draft}
+          onChange={setDraft}
+          candidates={candidates}
+          rows={3}
+          placeholder="Note for the creative / Brandbite team. Type @ to mention someone."
+          className="w-full rounded-md border border-[var(--bb-warning-border)] bg-[var(--bb-bg-page)] px-3 py-2 text-sm text-[var(--bb-secondary)] outline-none focus:border-[var(--bb-primary)] focus:ring-1 focus:ring-[var(--bb-primary)]"
+        />
+        <div className="mt-2 flex items-center justify-between">
+          <p className="text-xs text-[var(--bb-text-tertiary)]">
+            Only the creative and Brandbite admins see internal notes.
+          </p>
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={!draft.trim()}
+            loading={saving}
+            loadingText="Sending…"
+            onClick={submit}
+          >
+            Add note
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/mention-textarea.tsx
+// @purpose: Ticket comment composer with @mention autocomplete, plus the
+//           matching comment body renderer that highlights mentions. Shared
+//           by the customer and creative ticket detail pages; candidates come
+//           from the comments GET endpoint (mentionCandidates).
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  activeMentionQuery,
+  filterMentionCandidates,
+  insertMention,
+  splitMentionSegments,
+  type MentionCandidate,
+  type MentionTarget,
+} from "@/lib/tickets/comment-mentions";
+
+/** Suggestions shown at once in the dropdown. */
+const MAX_SUGGESTIONS = 6;
+
+type MentionTextareaProps = {
+  value: string;
+  onChange: (value: string) => void;
+  candidates: MentionCandidate[];
+  rows?: number;
+  placeholder?: string;
+  className?: string;
+};
+
+export function MentionTextarea({
+  value,
+  onChange,
+  candidates,
+  rows = 3,
+  placeholder,
+  className = "",
+}: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [highlight, setHighlight] = useState(0);
+
+  const suggestions = mention
+    ? filterMentionCandidates(candidates, mention.query).slice(0, MAX_SUGGESTIONS)
+    : [];
+  const open = suggestions.length > 0;
+
+  const syncMention = (text: string, caret: number) => {
+    setMention(activeMentionQuery(text, caret));
+    setHighlight(0);
+  };
+
+  const pick = (candidate: MentionCandidate) => {
+    const el = textareaRef.current;
+    if (!el || !mention) return;
+    const next = insertMention(value, mention.start, el.selectionStart, candidate.label);
+    onChange(next.text);
+    setMention(null);
+    // Restore the caret after React re-renders the new value.
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!open) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlight((h) => (h + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlight((h) => (h - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      pick(suggestions[highlight] ?? suggestions[0]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setMention(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          syncMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => syncMention(value, e.currentTarget.selectionStart)}
+        onBlur={() => setMention(null)}
+        rows={rows}
+        placeholder={placeholder}
+        role="combobox"
+        aria-expanded={open}
+        aria-autocomplete="list"
+        className={className}
+      />
+      {open && (
+        <ul
+          role="listbox"
+          className="absolute right-0 left-0 z-20 mt-1 max-h-48 overflow-y-auto rounded-lg border border-[var(--bb-border)] bg-[var(--bb-bg-page)] py-1 shadow-lg"
+        >
+          {suggestions.map((c, i) => (
+            <li
+              key={c.id}
+              role="option"
+              aria-selected={i === highlight}
+              // mousedown (not click) so the textarea doesn't blur first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(c);
+              }}
+              onMouseEnter={() => setHighlight(i)}
+              className={`flex cursor-pointer items-center justify-between px-3 py-1.5 text-xs ${
+                i === highlight ? "bg-[var(--bb-bg-card)]" : ""
+              }`}
+            >
+              <span className="font-medium text-[var(--bb-secondary)]">@{c.label}</span>
+              <span className="text-[10px] text-[var(--bb-text-tertiary)]">{c.kind}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/** Comment text with @mentions of `mentions` highlighted. */
+export function CommentBody({
+  body,
+  mentions,
+  className = "",
+}: {
+  body: string;
+  mentions: MentionTarget[];
+  className?: string;
+}) {
+  return (
+    <p className={`whitespace-pre-wrap ${className}`}>
+      {splitMentionSegments(body, mentions).map((segment, i) =>
+        segment.userId ? (
+          <span key={i} className="font-semibold text-[var(--bb-primary)]">
+            {segment.text}
+          </span>
+        ) : (
+          segment.text
+        ),
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,379 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/saved-views-bar.tsx
+// @purpose: Saved view picker for the customer tickets list and board — pick,
+//           save, update, share, set-default and delete views via
+//           /api/customer/saved-views. Also owns the page URL: on mount it
+//           applies the filters in the query string (or the user's default
+//           view when there are none) and afterwards mirrors the current
+//           config back into the query string so the link reproduces it.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { FormInput, FormSelect } from "@/components/ui/form-field";
+import { useToast } from "@/components/ui/toast-provider";
+import {
+  DEFAULT_VIEW_CONFIG,
+  type SavedViewConfig,
+  type SavedViewPageKey,
+  VIEW_ID_PARAM,
+  hasViewParams,
+  viewConfigFromSearchParams,
+  viewConfigToSearchParams,
+  viewConfigsEqual,
+} from "@/lib/tickets/saved-view-config";
+
+/** A view as returned by /api/customer/saved-views. */
+export type SavedViewOption = {
+  id: string;
+  name: string;
+  shared: boolean;
+  config: SavedViewConfig;
+  ownerName: string;
+  isOwn: boolean;
+  canEdit: boolean;
+};
+
+export function SavedViewsBar({
+  page,
+  config,
+  onApply,
+  showCopyLink = true,
+}: {
+  page: SavedViewPageKey;
+  /** The page's current filters / sort / grouping / columns. */
+  config: SavedViewConfig;
+  /** Replace the page's state with a view's config. */
+  onApply: (config: SavedViewConfig) => void;
+  /** The board has its own Share button that copies the same URL. */
+  showCopyLink?: boolean;
+}) {
+  const { showToast } = useToast();
+
+  const [views, setViews] = useState<SavedViewOption[]>([]);
+  const [defaultViewId, setDefaultViewId] = useState<string | null>(null);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newShared, setNewShared] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  // onApply is usually an inline closure; keep the mount effect stable.
+  const onApplyRef = useRef(onApply);
+  useEffect(() => {
+    onApplyRef.current = onApply;
+  });
+
+  const activeView = views.find((v) => v.id === activeViewId) ?? null;
+  const isModified = activeView ? !viewConfigsEqual(activeView.config, config) : false;
+
+  // ---- Initial state: URL params win, then the default view ----
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams(window.location.search);
+    const fromUrl = hasViewParams(params);
+    if (fromUrl) onApplyRef.current(viewConfigFromSearchParams(params, page));
+
+    fetch(`/api/customer/saved-views?page=${page}`, { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : null))
+      .then((json) => {
+        if (cancelled || !json) return;
+        const list: SavedViewOption[] = json.views ?? [];
+        setViews(list);
+        setDefaultViewId(json.defaultViewId ?? null);
+
+        const urlViewId = params.get(VIEW_ID_PARAM);
+        if (fromUrl) {
+          if (urlViewId && list.some((v) => v.id === urlViewId)) setActiveViewId(urlViewId);
+        } else {
+          const initial =
+            list.find((v) => v.id === urlViewId) ?? list.find((v) => v.id === json.defaultViewId);
+          if (initial) {
+            onApplyRef.current(initial.config);
+            setActiveViewId(initial.id);
+          }
+        }
+      })
+      .catch((err) => console.error("[SavedViewsBar] load error", err))
+      .finally(() => {
+        if (!cancelled) setReady(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [page]);
+
+  // ---- Mirror the current config into the URL ----
+  const queryString = useMemo(() => {
+    const params = viewConfigToSearchParams(config);
+    if (activeViewId) params.set(VIEW_ID_PARAM, activeViewId);
+    return params.toString();
+  }, [config, activeViewId]);
+
+  useEffect(() => {
+    if (!ready) return;
+    const { pathname, hash } = window.location;
+    const next = `${pathname}${queryString ? `?${queryString}` : ""}${hash}`;
+    if (next !== `${pathname}${window.location.search}${hash}`) {
+      window.history.replaceState(window.history.state, "", next);
+    }
+  }, [ready, queryString]);
+
+  // ---- Actions ----
+  const request = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        showToast({ type: "error", title: json?.error || "Something went wrong." });
+        return null;
+      }
+      return json ?? {};
+    } catch (err) {
+      console.error("[SavedViewsBar] request error", err);
+      showToast({ type: "error", title: "Something went wrong." });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const replaceView = (view: SavedViewOption) =>
+    setViews((prev) => prev.map((v) => (v.id === view.id ? view : v)));
+
+  const selectView = (id: string) => {
+    if (!id) {
+      setActiveViewId(null);
+      onApply(DEFAULT_VIEW_CONFIG);
+      return;
+    }
+    const view = views.find((v) => v.id === id);
+    if (!view) return;
+    setActiveViewId(view.id);
+    onApply(view.config);
+  };
+
+  const createView = async () => {
+    const json = await request("/api/customer/saved-views", "POST", {
+      name: newName,
+      page,
+      shared: newShared,
+      config,
+    });
+    if (!json?.view) return;
+    setViews((prev) => [...prev, json.view].sort((a, b) => a.name.localeCompare(b.name)));
+    setActiveViewId(json.view.id);
+    setSaveOpen(false);
+    setNewName("");
+    setNewShared(false);
+    showToast({ type: "success", title: `Saved view "${json.view.name}"` });
+  };
+
+  const updateView = async (patch: { config?: SavedViewConfig; shared?: boolean }) => {
+    if (!activeView) return;
+    const json = await request(`/api/customer/saved-views/${activeView.id}`, "PATCH", patch);
+    if (!json?.view) return;
+    replaceView(json.view);
+    showToast({
+      type: "success",
+      title:
+        patch.shared === undefined
+          ? "View updated"
+          : patch.shared
+            ? "View shared with your company"
+            : "View is now personal",
+    });
+  };
+
+  const toggleDefault = async () => {
+    if (!activeView) return;
+    const viewId = defaultViewId === activeView.id ? null : activeView.id;
+    const json = await request("/api/customer/saved-views/default", "PUT", { page, viewId });
+    if (!json) return;
+    setDefaultViewId(json.defaultViewId ?? null);
+  };
+
+  const deleteView = async () => {
+    if (!activeView) return;
+    const json = await request(`/api/customer/saved-views/${activeView.id}`, "DELETE");
+    setDeleteOpen(false);
+    if (!json) return;
+    setViews((prev) => prev.filter((v) => v.id !== activeView.id));
+    if (defaultViewId === activeView.id) setDefaultViewId(null);
+    setActiveViewId(null);
+    showToast({ type: "success", title: "View deleted" });
+  };
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href).then(() => {
+      showToast({ type: "success", title: "Link copied to clipboard" });
+    });
+  };
+
+  const ownViews = views.filter((v) => v.isOwn);
+  const sharedViews = views.filter((v) => !v.isOwn);
+  const optionLabel = (v: SavedViewOption) =>
+    `${v.id === defaultViewId ? "★ " : ""}${v.name}${v.isOwn && v.shared ? " (shared)" : ""}`;
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 text-[11px]">
+      <label htmlFor={`saved-view-${page}`} className="font-medium text-[var(--bb-secondary)]">
+        View
+      </label>
+      <FormSelect
+        id={`saved-view-${page}`}
+        size="sm"
+        className="w-auto"
+        value={activeViewId ?? ""}
+        onChange={(e) => selectView(e.target.value)}
+        disabled={busy}
+      >
+        <option value="">All tickets</option>
+        {ownViews.length > 0 && (
+          <optgroup label="My views">
+            {ownViews.map((v) => (
+              <option key={v.id} value={v.id}>
+                {optionLabel(v)}
+              </option>
+            ))}
+          </optgroup>
+        )}
+        {sharedViews.length > 0 && (
+          <optgroup label="Shared with company">
+            {sharedViews.map((v) => (
+              <option key={v.id} value={v.id}>
+                {optionLabel(v)} · {v.ownerName}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </FormSelect>
+
+      {isModified && (
+        <span className="rounded-full bg-[var(--bb-warning-bg)] px-2 py-0.5 text-[10px] font-medium text-[var(--bb-warning-text)]">
+          Edited
+        </span>
+      )}
+      {activeView && isModified && activeView.canEdit && (
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => updateView({ config })}
+          disabled={busy}
+        >
+          Update view
+        </Button>
+      )}
+      {activeView && isModified && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onApply(activeView.config)}
+          disabled={busy}
+        >
+          Reset
+        </Button>
+      )}
+
+      {activeView && (
+        <>
+          <Button size="sm" variant="ghost" onClick={toggleDefault} disabled={busy}>
+            {defaultViewId === activeView.id ? "★ Default" : "Set as default"}
+          </Button>
+          {activeView.canEdit && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => updateView({ shared: !activeView.shared })}
+              disabled={busy}
+            >
+              {activeView.shared ? "Make personal" : "Share with company"}
+            </Button>
+          )}
+          {activeView.canEdit && (
+            <Button size="sm" variant="ghost" onClick={() => setDeleteOpen(true)} disabled={busy}>
+              Delete
+            </Button>
+          )}
+        </>
+      )}
+
+      {saveOpen ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <FormInput
+            size="sm"
+            className="w-44"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && newName.trim()) void createView();
+            }}
+            placeholder="View name"
+            maxLength={60}
+            autoFocus
+          />
+          <label className="flex items-center gap-1 text-[var(--bb-text-secondary)]">
+            <input
+              type="checkbox"
+              checked={newShared}
+              onChange={(e) => setNewShared(e.target.checked)}
+              className="h-3 w-3 rounded border-[var(--bb-border-input)] text-[var(--bb-primary)] focus:ring-[var(--bb-primary)]"
+            />
+            Share with company
+          </label>
+          <Button
+            size="sm"
+            onClick={createView}
+            disabled={!newName.trim()}
+            loading={busy}
+            loadingText="Saving…"
+          >
+            Save
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setSaveOpen(false)} disabled={busy}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Button size="sm" variant="ghost" onClick={() => setSaveOpen(true)} disabled={busy}>
+          + Save view
+        </Button>
+      )}
+
+      {showCopyLink && (
+        <Button size="sm" variant="ghost" onClick={copyLink}>
+          ↗ Copy link
+        </Button>
+      )}
+
+      <ConfirmDialog
+        open={deleteOpen}
+        onClose={() => setDeleteOpen(false)}
+        onConfirm={deleteView}
+        title={`Delete "${activeView?.name ?? ""}"?`}
+        description={
+          activeView?.shared
+            ? "This view is shared — it will disappear for everyone in your company."
+            : "This only removes the saved view; no tickets are changed."
+        }
+        confirmLabel="Delete view"
+        loading={busy}
+      />
+    </div>
+  );
+}
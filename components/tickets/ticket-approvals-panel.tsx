@@ -0,0 +1,273 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/ticket-approvals-panel.tsx
+// @purpose: "Approvals" card for the customer ticket detail page. Shows each
+//           approver's sign-off on the latest revision and lets the approver
+//           being asked approve or request changes. All state is fetched
+//           from /api/customer/tickets/[ticketId]/approvals.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { InlineAlert } from "@/components/ui/inline-alert";
+
+type ApprovalDecision = "APPROVED" | "CHANGES_REQUESTED";
+
+type ApprovalStep = {
+  userId: string;
+  name: string | null;
+  position: number;
+  label: string | null;
+  decision: ApprovalDecision | null;
+  message: string | null;
+  decidedAt: string | null;
+  awaiting: boolean;
+};
+
+export type TicketApprovalsView = {
+  policy: { mode: "SEQUENTIAL" | "PARALLEL"; minApprovals: number; isProjectPolicy: boolean };
+  revision: { id: string; version: number } | null;
+  state: {
+    required: number;
+    approved: number;
+    satisfied: boolean;
+    changesRequested: boolean;
+    steps: ApprovalStep[];
+  };
+  canDecide: boolean;
+};
+
+function stepStatus(step: ApprovalStep): { text: string; className: string } {
+  if (step.decision === "APPROVED") {
+    return { text: "Approved", className: "text-[var(--bb-success-text)]" };
+  }
+  if (step.decision === "CHANGES_REQUESTED") {
+    return { text: "Changes requested", className: "text-[var(--bb-danger-text)]" };
+  }
+  if (step.awaiting) {
+    return { text: "Waiting", className: "text-[var(--bb-primary)]" };
+  }
+  return { text: "Not yet asked", className: "text-[var(--bb-text-tertiary)]" };
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function TicketApprovalsPanel({
+  ticketId,
+  refreshKey,
+  onLoaded,
+  onDecided,
+}: {
+  ticketId: string;
+  /** Bumped by the page whenever the ticket reloads (new revision, status change). */
+  refreshKey: number;
+  /** The chain as last loaded; null when the ticket has no approval policy. */
+  onLoaded?: (approvals: TicketApprovalsView | null) => void;
+  /** Called after a decision is recorded, so the page can reload the ticket. */
+  onDecided?: () => void;
+}) {
+  const [approvals, setApprovals] = useState<TicketApprovalsView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<ApprovalDecision | null>(null);
+  const [requesting, setRequesting] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const apply = useCallback(
+    (json: Partial<TicketApprovalsView> | null) => {
+      const next = json?.policy ? (json as TicketApprovalsView) : null;
+      setApprovals(next);
+      onLoaded?.(next);
+    },
+    [onLoaded],
+  );
+
+  // ---- Load chain ----
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setError(null);
+      try {
+        const res = await fetch(`/api/customer/tickets/${ticketId}/approvals`, {
+          cache: "no-store",
+        });
+        const json = await res.json().catch(() => null);
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(json?.error ?? "Failed to load approvals.");
+          return;
+        }
+        apply(json);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load approvals.");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [ticketId, refreshKey, apply]);
+
+  // ---- Actions ----
+  const decide = async (decision: ApprovalDecision) => {
+    setError(null);
+    setPending(decision);
+    try {
+      const res = await fetch(`/api/customer/tickets/${ticketId}/approvals`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          decision === "CHANGES_REQUESTED" ? { decision, message: message.trim() } : { decision },
+        ),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(json?.error ?? "Failed to record your decision.");
+        return;
+      }
+      apply(json);
+      setRequesting(false);
+      setMessage("");
+      onDecided?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to record your decision.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (loading || (!approvals && !error)) return null;
+
+  return (
+    <div className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-4 py-4 shadow-sm">
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <h3 className="text-xs font-semibold tracking-[0.18em] text-[var(--bb-text-muted)] uppercase">
+          Approvals
+        </h3>
+        {approvals && (
+          <span className="text-[11px] text-[var(--bb-text-tertiary)]">
+            {approvals.revision ? `v${approvals.revision.version} · ` : ""}
+            {approvals.state.approved}/{approvals.state.required} approved
+            {approvals.policy.mode === "SEQUENTIAL" ? " · in order" : ""}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <InlineAlert variant="error" size="sm" className="mb-2">
+          {error}
+        </InlineAlert>
+      )}
+
+      {approvals && (
+        <>
+          {!approvals.revision ? (
+            <p className="text-[11px] text-[var(--bb-text-tertiary)]">
+              Approvers are asked once the creative submits a revision.
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {approvals.state.steps.map((step) => {
+                const status = stepStatus(step);
+                return (
+                  <li
+                    key={step.userId}
+                    className="rounded-md border border-[var(--bb-border-subtle)] bg-[var(--bb-bg-warm)] px-2.5 py-1.5 text-xs"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="min-w-0 flex-1 truncate text-[var(--bb-secondary)]">
+                        {step.name || "Former member"}
+                        {step.label && (
+                          <span className="text-[var(--bb-text-tertiary)]"> · {step.label}</span>
+                        )}
+                      </span>
+                      <span className={`shrink-0 text-[10px] font-medium ${status.className}`}>
+                        {status.text}
+                      </span>
+                    </div>
+                    {step.message && (
+                      <p className="mt-1 text-[11px] whitespace-pre-wrap text-[var(--bb-text-secondary)]">
+                        {step.message}
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {approvals.state.satisfied && (
+            <p className="mt-2 text-[11px] text-[var(--bb-success-text)]">
+              All required sign-offs are in — this request can be marked as done.
+            </p>
+          )}
+
+          {approvals.canDecide && !requesting && (
+            <div className="mt-3 flex justify-end gap-2">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setRequesting(true)}
+                disabled={pending !== null}
+              >
+                Request changes
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => decide("APPROVED")}
+                loading={pending === "APPROVED"}
+                loadingText="Approving…"
+              >
+                Approve v{approvals.revision?.version}
+              </Button>
+            </div>
+          )}
+
+          {approvals.canDecide && requesting && (
+            <div className="mt-3 space-y-2 border-t border-[var(--bb-border-subtle)] pt-3">
+              <textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={3}
+                placeholder="What needs to change? This goes to the creative."
+                aria-label="Requested changes"
+                className="w-full rounded-md border border-[var(--bb-border-input)] bg-[var(--bb-bg-page)] px-3 py-2 text-xs text-[var(--bb-secondary)] outline-none focus:border-[var(--bb-primary)]"
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setRequesting(false);
+                    setMessage("");
+                  }}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="danger"
+                  size="sm"
+                  onClick={() => decide("CHANGES_REQUESTED")}
+                  disabled={!message.trim()}
+                  loading={pending === "CHANGES_REQUESTED"}
+                  loadingText="Sending…"
+                >
+                  Send back
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/ticket-custom-fields-panel.tsx
+// @purpose: "Details" card for the customer ticket detail page — shows the
+//           company's custom field values and, for users who can edit the
+//           ticket, edits them via PUT /api/customer/tickets/[id]/custom-fields.
+//           Unlike the brief fields this stays editable after TODO.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { InlineAlert } from "@/components/ui/inline-alert";
+import {
+  CustomFieldInputs,
+  CustomFieldList,
+  type CustomFieldFormValues,
+  type TicketCustomFieldEntry,
+  toCustomFieldFormValues,
+} from "@/components/tickets/custom-field-inputs";
+
+export function TicketCustomFieldsPanel({
+  ticketId,
+  fields,
+  canEdit,
+  onSaved,
+}: {
+  ticketId: string;
+  fields: TicketCustomFieldEntry[];
+  canEdit: boolean;
+  /** Called after a successful save so the page can reload the ticket. */
+  onSaved: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [values, setValues] = useState<CustomFieldFormValues>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Company has no custom fields — nothing to show or edit.
+  if (fields.length === 0) return null;
+
+  const hasValues = fields.some((f) => f.value !== null || f.values.length > 0);
+
+  const startEditing = () => {
+    setValues(toCustomFieldFormValues(fields));
+    setError(null);
+    setEditing(true);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/customer/tickets/${ticketId}/custom-fields`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ values }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(json?.error || "Failed to save details.");
+        return;
+      }
+      onSaved();
+      setEditing(false);
+    } catch (err) {
+      console.error("[TicketCustomFieldsPanel] save error", err);
+      setError("Failed to save details.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-4 py-4 shadow-sm">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-xs font-semibold tracking-[0.18em] text-[var(--bb-text-muted)] uppercase">
+          Details
+        </h3>
+        {canEdit && !editing && (
+          <Button variant="ghost" size="sm" onClick={startEditing}>
+            Edit
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <InlineAlert variant="error" size="sm" className="mb-2">
+          {error}
+        </InlineAlert>
+      )}
+
+      {editing ? (
+        <>
+          <CustomFieldInputs
+            fields={fields}
+            values={values}
+            onChange={setValues}
+            disabled={saving}
+          />
+          <div className="mt-3 flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setEditing(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={save} loading={saving} loadingText="Saving…">
+              Save
+            </Button>
+          </div>
+        </>
+      ) : hasValues ? (
+        <CustomFieldList fields={fields} />
+      ) : (
+        <p className="text-[11px] text-[var(--bb-text-tertiary)]">No details filled in yet.</p>
+      )}
+    </div>
+  );
+}
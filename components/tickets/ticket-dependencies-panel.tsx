@@ -0,0 +1,339 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/ticket-dependencies-panel.tsx
+// @purpose: "Blocked by / Blocks" card for the customer ticket detail page.
+//           Lists both directions and, for users who can edit the ticket,
+//           links or unlinks other company tickets. Links into projects the
+//           viewer can't see show as a count only. All state is fetched
+//           from /api/customer/tickets/[ticketId]/dependencies.
+// @version: v1.1.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FormSelect } from "@/components/ui/form-field";
+import { InlineAlert } from "@/components/ui/inline-alert";
+import { STATUS_LABELS, type TicketStatus } from "@/lib/board";
+
+type LinkedTicket = {
+  id: string;
+  code: string;
+  title: string;
+  status: TicketStatus;
+};
+
+type Dependencies = {
+  blockedBy: LinkedTicket[];
+  blocking: LinkedTicket[];
+  hiddenBlockedBy: number;
+  hiddenOpenBlockers: number;
+  hiddenBlocking: number;
+};
+
+type Direction = "BLOCKED_BY" | "BLOCKS";
+
+type CandidateTicket = { id: string; code: string | null; title: string };
+
+function isResolved(status: LinkedTicket["status"]) {
+  return status === "DONE" || status === "CANCELED";
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function TicketDependenciesPanel({
+  ticketId,
+  canEdit,
+}: {
+  ticketId: string;
+  /** Whether the viewer may add / remove links (company + project role). */
+  canEdit: boolean;
+}) {
+  const [deps, setDeps] = useState<Dependencies | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+
+  const [adding, setAdding] = useState(false);
+  const [candidates, setCandidates] = useState<CandidateTicket[] | null>(null);
+  const [selectedId, setSelectedId] = useState("");
+  const [direction, setDirection] = useState<Direction>("BLOCKED_BY");
+
+  // ---- Load links ----
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/customer/tickets/${ticketId}/dependencies`, {
+        cache: "no-store",
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(json?.error ?? "Failed to load dependencies.");
+        return;
+      }
+      setDeps(json as Dependencies);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load dependencies.");
+    } finally {
+      setLoading(false);
+    }
+  }, [ticketId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // ---- Candidate tickets for the picker (loaded on first open) ----
+  useEffect(() => {
+    if (!adding || candidates) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/customer/tickets?limit=200&sortBy=createdAt", {
+          cache: "no-store",
+        });
+        const json = await res.json().catch(() => null);
+        if (!res.ok) {
+          if (!cancelled) setActionError(json?.error ?? "Failed to load tickets.");
+          return;
+        }
+        if (!cancelled) {
+          setCandidates(
+            ((json?.tickets ?? []) as CandidateTicket[]).map((t) => ({
+              id: t.id,
+              code: t.code,
+              title: t.title,
+            })),
+          );
+        }
+      } catch {
+        if (!cancelled) setActionError("Failed to load tickets.");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [adding, candidates]);
+
+  // ---- Actions ----
+  const addLink = async () => {
+    if (!selectedId) return;
+    setActionError(null);
+    setPending("add");
+    try {
+      const res = await fetch(`/api/customer/tickets/${ticketId}/dependencies`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ticketId: selectedId, direction }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setActionError(json?.error ?? "Failed to link tickets.");
+        return;
+      }
+      setDeps(json as Dependencies);
+      setSelectedId("");
+      setAdding(false);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Failed to link tickets.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const removeLink = async (otherId: string, dir: Direction) => {
+    setActionError(null);
+    setPending(`${dir}:${otherId}`);
+    try {
+      const params = new URLSearchParams({ ticketId: otherId, direction: dir });
+      const res = await fetch(`/api/customer/tickets/${ticketId}/dependencies?${params}`, {
+        method: "DELETE",
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setActionError(json?.error ?? "Failed to unlink tickets.");
+        return;
+      }
+      setDeps(json as Dependencies);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Failed to unlink tickets.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  // ---- Render helpers ----
+  const linkedIds = new Set([
+    ticketId,
+    ...(deps?.blockedBy ?? []).map((t) => t.id),
+    ...(deps?.blocking ?? []).map((t) => t.id),
+  ]);
+  const openBlockers =
+    (deps?.blockedBy ?? []).filter((t) => !isResolved(t.status)).length +
+    (deps?.hiddenOpenBlockers ?? 0);
+
+  const renderList = (
+    items: LinkedTicket[],
+    hidden: number,
+    dir: Direction,
+    emptyLabel: string,
+  ) => {
+    if (items.length === 0 && hidden === 0) {
+      return <p className="text-[11px] text-[var(--bb-text-tertiary)]">{emptyLabel}</p>;
+    }
+    return (
+      <ul className="space-y-1">
+        {items.map((t) => (
+          <li
+            key={t.id}
+            className="flex items-center gap-2 rounded-md border border-[var(--bb-border-subtle)] bg-[var(--bb-bg-warm)] px-2.5 py-1.5 text-xs"
+          >
+            <a
+              href={`/customer/tickets/${t.id}`}
+              className={`min-w-0 flex-1 truncate text-[var(--bb-secondary)] hover:text-[var(--bb-primary)] ${
+                isResolved(t.status) ? "line-through opacity-60" : ""
+              }`}
+              title={t.title}
+            >
+              <span className="font-semibold">{t.code}</span> {t.title}
+            </a>
+            <span className="shrink-0 text-[10px] text-[var(--bb-text-tertiary)]">
+              {STATUS_LABELS[t.status]}
+            </span>
+            {canEdit && (
+              <button
+                type="button"
+                onClick={() => removeLink(t.id, dir)}
+                disabled={pending === `${dir}:${t.id}`}
+                className="shrink-0 text-[var(--bb-text-tertiary)] hover:text-[var(--bb-danger-text)] disabled:opacity-50"
+                aria-label={`Remove link to ${t.code}`}
+              >
+                ×
+              </button>
+            )}
+          </li>
+        ))}
+        {hidden > 0 && (
+          <li className="px-2.5 text-[11px] text-[var(--bb-text-tertiary)]">
+            +{hidden} ticket{hidden === 1 ? "" : "s"} in projects you don&apos;t have access to
+          </li>
+        )}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="rounded-2xl border border-[var(--bb-border)] bg-[var(--bb-bg-page)] px-4 py-4 shadow-sm">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-xs font-semibold tracking-[0.18em] text-[var(--bb-text-muted)] uppercase">
+          Dependencies
+        </h3>
+        {canEdit && !adding && (
+          <Button variant="ghost" size="sm" onClick={() => setAdding(true)}>
+            + Link
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <InlineAlert variant="error" size="sm" className="mb-2">
+          {error}
+        </InlineAlert>
+      )}
+      {actionError && (
+        <InlineAlert variant="error" size="sm" className="mb-2">
+          {actionError}
+        </InlineAlert>
+      )}
+
+      {loading ? (
+        <p className="text-[11px] text-[var(--bb-text-tertiary)]">Loading dependencies…</p>
+      ) : (
+        deps && (
+          <div className="space-y-3">
+            {openBlockers > 0 && (
+              <InlineAlert variant="warning" size="sm">
+                Blocked — waiting on {openBlockers} ticket{openBlockers === 1 ? "" : "s"}.
+              </InlineAlert>
+            )}
+            <div>
+              <p className="mb-1 text-[11px] text-[var(--bb-text-tertiary)]">Blocked by</p>
+              {renderList(
+                deps.blockedBy,
+                deps.hiddenBlockedBy,
+                "BLOCKED_BY",
+                "Nothing — this ticket can start.",
+              )}
+            </div>
+            <div>
+              <p className="mb-1 text-[11px] text-[var(--bb-text-tertiary)]">Blocks</p>
+              {renderList(
+                deps.blocking,
+                deps.hiddenBlocking,
+                "BLOCKS",
+                "No tickets are waiting on this one.",
+              )}
+            </div>
+          </div>
+        )
+      )}
+
+      {adding && (
+        <div className="mt-3 space-y-2 border-t border-[var(--bb-border-subtle)] pt-3">
+          <FormSelect
+            size="sm"
+            value={direction}
+            onChange={(e) => setDirection(e.target.value as Direction)}
+            aria-label="Link type"
+          >
+            <option value="BLOCKED_BY">This ticket is blocked by…</option>
+            <option value="BLOCKS">This ticket blocks…</option>
+          </FormSelect>
+          <FormSelect
+            size="sm"
+            value={selectedId}
+            onChange={(e) => setSelectedId(e.target.value)}
+            disabled={!candidates}
+            aria-label="Ticket"
+          >
+            <option value="">{candidates ? "Select a ticket" : "Loading tickets…"}</option>
+            {(candidates ?? [])
+              .filter((t) => !linkedIds.has(t.id))
+              .map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.code ? `${t.code} — ` : ""}
+                  {t.title}
+                </option>
+              ))}
+          </FormSelect>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setAdding(false);
+                setSelectedId("");
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={addLink}
+              disabled={!selectedId}
+              loading={pending === "add"}
+              loadingText="Linking…"
+            >
+              Link ticket
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+// -----------------------------------------------------------------------------
+// @file: components/tickets/watch-toggle.tsx
+// @purpose: "Watch / Watching" button for the customer and creative ticket
+//           detail pages. Watchers get the ticket's status changes,
+//           revisions, comments and pin resolutions. State is loaded from
+//           and saved to `${apiBase}/watch`.
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+
+type WatchState = { watching: boolean; watcherCount: number };
+
+export function WatchToggle({
+  apiBase,
+}: {
+  /** Ticket API root, e.g. `/api/customer/tickets/${ticketId}`. */
+  apiBase: string;
+}) {
+  const [state, setState] = useState<WatchState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`${apiBase}/watch`, { cache: "no-store" });
+        const json = await res.json().catch(() => null);
+        if (!cancelled && res.ok) setState(json as WatchState);
+      } catch {
+        // Non-critical — the button just stays hidden.
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [apiBase]);
+
+  if (!state) return null;
+
+  const toggle = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`${apiBase}/watch`, {
+        method: state.watching ? "DELETE" : "POST",
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(json?.error ?? "Failed to update watch status.");
+        return;
+      }
+      setState(json as WatchState);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update watch status.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const others = state.watcherCount - (state.watching ? 1 : 0);
+  const title = state.watching
+    ? "You get notified about status changes, revisions, comments and resolved pins. Click to stop watching."
+    : "Get notified about status changes, revisions, comments and resolved pins.";
+
+  return (
+    <Button
+      variant={state.watching ? "secondary" : "ghost"}
+      size="sm"
+      onClick={toggle}
+      disabled={saving}
+      aria-pressed={state.watching}
+      title={error ?? title}
+    >
+      {state.watching ? "Watching" : "Watch"}
+      {others > 0 && (
+        <span className="ml-1 text-[10px] text-[var(--bb-text-tertiary)]">+{others}</span>
+      )}
+    </Button>
+  );
+}
@@ -46,6 +46,13 @@ const TYPE_ICONS: Record<string, string> = {
   TICKET_ASSIGNED: "\u{1F4CB}",
   TICKET_STATUS_CHANGED: "\u{1F504}",
   PIN_RESOLVED: "\u{1F4CC}",
+  TICKET_UNBLOCKED: "\u{1F513}",
+  RECURRING_TICKET_SKIPPED: "\u{1F501}",
+  SLA_AT_RISK: "\u23F3",
+  SLA_BREACHED: "\u{1F6A8}",
+  MENTIONED: "\u{1F4E3}",
+  TICKET_COMMENTED: "\u{1F5E8}",
+  APPROVAL_REQUESTED: "\u{1F58B}",
 };
 
 // ---------------------------------------------------------------------------
@@ -181,6 +188,9 @@ export function NotificationBell({
         } else {
           router.push(`/customer/tickets/${notif.ticketId}`);
         }
+      } else if (notif.type === "RECURRING_TICKET_SKIPPED" && role === "customer") {
+        setOpen(false);
+        router.push("/customer/recurring-tickets");
       }
     },
     [role, router],
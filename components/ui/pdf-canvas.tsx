@@ -21,11 +21,18 @@ export function PdfCanvas({
   assetId,
   page,
   onNumPages,
+  onRendered,
+  src,
   className,
 }: {
   assetId: string;
   page: number;
   onNumPages?: (n: number) => void;
+  /** Called with the canvas each time a page finishes rendering. */
+  onRendered?: (canvas: HTMLCanvasElement) => void;
+  /** Where to fetch the bytes; defaults to /api/assets/:id/raw. The guest
+   *  review page passes its token-scoped route instead. */
+  src?: string;
   className?: string;
 }) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -44,7 +51,7 @@ export function PdfCanvas({
       try {
         const pdfjs: any = await import("pdfjs-dist");
         pdfjs.GlobalWorkerOptions.workerSrc = "/pdf.worker.min.mjs";
-        const loadingTask = pdfjs.getDocument({ url: `/api/assets/${assetId}/raw` });
+        const loadingTask = pdfjs.getDocument({ url: src ?? `/api/assets/${assetId}/raw` });
         const loaded = (await loadingTask.promise) as PdfDoc;
         if (cancelled) {
           loaded.destroy();
@@ -66,7 +73,7 @@ export function PdfCanvas({
     // onNumPages intentionally omitted — parent passes a stable callback and we
     // only want to reload when the asset changes.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [assetId]);
+  }, [assetId, src]);
 
   // Render the requested page whenever the doc or page changes.
   useEffect(() => {
@@ -103,7 +110,10 @@ export function PdfCanvas({
         const task = pdfPage.render({ canvasContext: ctx, viewport });
         renderTaskRef.current = task;
         await task.promise;
-        if (!cancelled) setStatus("ready");
+        if (!cancelled) {
+          setStatus("ready");
+          onRendered?.(canvas);
+        }
       } catch (err: any) {
         if (err?.name === "RenderingCancelledException") return;
         console.error("[PdfCanvas] render error:", err);
@@ -114,6 +124,8 @@ export function PdfCanvas({
     return () => {
       cancelled = true;
     };
+    // onRendered omitted for the same reason as onNumPages above.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [doc, page]);
 
   if (status === "error") {
@@ -1,11 +1,23 @@
 // -----------------------------------------------------------------------------
 // @file: components/ui/pin-overlay.tsx
-// @purpose: Renders numbered pin markers on top of an image (edit, readonly, resolve)
+// @purpose: Renders numbered pin markers and region annotations (rectangles,
+//           ellipses, arrows, freehand strokes) on top of an image, and lets
+//           customers draw new ones in edit mode (edit, readonly, resolve)
 // -----------------------------------------------------------------------------
 
 "use client";
 
-import React, { useCallback, useRef, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import type { AssetPinShape } from "@prisma/client";
+import {
+  type ArrowGeometry,
+  type BoxGeometry,
+  type FreehandGeometry,
+  type PinGeometry,
+  MIN_REGION_SIZE,
+  boxFromDrag,
+  simplifyStroke,
+} from "@/lib/pin-geometry";
 
 // ---------------------------------------------------------------------------
 // Shared types (exported for use in sidebar + lightbox)
@@ -18,11 +30,114 @@ export type PinData = {
   /** 1-based page the pin sits on. Images are always page 1; PDFs pin per
    *  rendered page. Optional for back-compat; treat undefined as 1. */
   page?: number;
+  /** Undefined = POINT. Region shapes carry their outline in `geometry` and
+   *  use x/y as the anchor for the number badge. */
+  shape?: AssetPinShape;
+  geometry?: PinGeometry | null;
   order: number;
   label: string;
   status?: "OPEN" | "RESOLVED";
+  /** Copied forward from an OPEN pin on the previous revision; the customer
+   *  confirms it as FIXED or STILL_OPEN (PENDING until they do). */
+  carriedOver?: boolean;
+  carryOverReview?: "PENDING" | "FIXED" | "STILL_OPEN" | null;
 };
 
+const RESOLVED_COLOR = "#32b37b";
+const OPEN_COLOR = "var(--bb-primary)";
+
+// ---------------------------------------------------------------------------
+// Region shapes (SVG, drawn in container pixels so ellipses and arrowheads
+// keep their proportions on non-square assets)
+// ---------------------------------------------------------------------------
+
+function ShapePath({
+  shape,
+  geometry,
+  width,
+  height,
+  color,
+  active,
+  onClick,
+}: {
+  shape: AssetPinShape;
+  geometry: PinGeometry;
+  width: number;
+  height: number;
+  color: string;
+  active?: boolean;
+  onClick?: (e: React.MouseEvent) => void;
+}) {
+  const common = {
+    "data-pin": true,
+    stroke: color,
+    strokeWidth: active ? 3 : 2,
+    strokeLinecap: "round" as const,
+    strokeLinejoin: "round" as const,
+    style: { pointerEvents: onClick ? ("visiblePainted" as const) : ("none" as const) },
+    className: onClick ? "cursor-pointer" : undefined,
+    onClick,
+  };
+
+  switch (shape) {
+    case "RECT": {
+      const g = geometry as BoxGeometry;
+      return (
+        <rect
+          {...common}
+          x={g.x * width}
+          y={g.y * height}
+          width={g.w * width}
+          height={g.h * height}
+          rx={3}
+          fill={color}
+          fillOpacity={active ? 0.16 : 0.08}
+        />
+      );
+    }
+    case "ELLIPSE": {
+      const g = geometry as BoxGeometry;
+      return (
+        <ellipse
+          {...common}
+          cx={(g.x + g.w / 2) * width}
+          cy={(g.y + g.h / 2) * height}
+          rx={(g.w / 2) * width}
+          ry={(g.h / 2) * height}
+          fill={color}
+          fillOpacity={active ? 0.16 : 0.08}
+        />
+      );
+    }
+    case "ARROW": {
+      const g = geometry as ArrowGeometry;
+      const [x1, y1, x2, y2] = [g.x1 * width, g.y1 * height, g.x2 * width, g.y2 * height];
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const head = 12;
+      const wing = (offset: number) =>
+        `${x2 - head * Math.cos(angle + offset)},${y2 - head * Math.sin(angle + offset)}`;
+      return (
+        <g {...common} fill="none">
+          <line x1={x1} y1={y1} x2={x2} y2={y2} />
+          <polyline points={`${wing(0.45)} ${x2},${y2} ${wing(-0.45)}`} />
+        </g>
+      );
+    }
+    case "FREEHAND": {
+      const g = geometry as FreehandGeometry;
+      return (
+        <polyline
+          {...common}
+          points={g.points.map(([x, y]) => `${x * width},${y * height}`).join(" ")}
+          fill="none"
+        />
+      );
+    }
+    default:
+      return null;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Props
 // ---------------------------------------------------------------------------
@@ -38,8 +153,15 @@ type PinOverlayProps = {
   onImageClick?: (x: number, y: number) => void;
   /** When true, OPEN pins show a green hover ring to indicate they can be resolved */
   resolveMode?: boolean;
+  /** Edit-mode drawing tool. POINT (default) places pins on click; the other
+   *  shapes are drawn by dragging across the image. */
+  tool?: AssetPinShape;
+  /** Fired when the user finishes drawing a region with a non-POINT tool */
+  onShapeDraw?: (shape: AssetPinShape, geometry: PinGeometry) => void;
 };
 
+type Point = { x: number; y: number };
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
@@ -52,14 +174,77 @@ export function PinOverlay({
   onPinClick,
   onImageClick,
   resolveMode,
+  tool = "POINT",
+  onShapeDraw,
 }: PinOverlayProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [longPressPin, setLongPressPin] = useState<number | null>(null);
   const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [drawPoints, setDrawPoints] = useState<Point[] | null>(null);
+
+  const isDrawing = mode === "edit" && tool !== "POINT" && !!onShapeDraw;
+
+  // Track the rendered size; region shapes are laid out in container pixels.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const toNormalized = useCallback((clientX: number, clientY: number): Point | null => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (clientY - rect.top) / rect.height)),
+    };
+  }, []);
+
+  // -------------------------------------------------------------------------
+  // Drawing (pointer events cover mouse, pen and touch)
+  // -------------------------------------------------------------------------
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!isDrawing) return;
+      if ((e.target as Element).closest("[data-pin]")) return;
+      const point = toNormalized(e.clientX, e.clientY);
+      if (!point) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrawPoints([point]);
+    },
+    [isDrawing, toNormalized],
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!drawPoints) return;
+      const point = toNormalized(e.clientX, e.clientY);
+      if (!point) return;
+      // Only freehand needs the full path; the other tools track the drag end.
+      setDrawPoints((prev) =>
+        prev ? (tool === "FREEHAND" ? [...prev, point] : [prev[0], point]) : prev,
+      );
+    },
+    [drawPoints, tool, toNormalized],
+  );
+
+  const handlePointerUp = useCallback(() => {
+    if (!drawPoints) return;
+    const points = drawPoints;
+    setDrawPoints(null);
+    const geometry = draftGeometry(tool, points);
+    if (geometry) onShapeDraw?.(tool, geometry);
+  }, [drawPoints, tool, onShapeDraw]);
 
   const handleContainerClick = useCallback(
     (e: React.MouseEvent<HTMLDivElement>) => {
-      if (mode !== "edit" || !onImageClick) return;
+      if (mode !== "edit" || !onImageClick || isDrawing) return;
 
       // Only fire if clicking the container/image, not a pin
       const target = e.target as HTMLElement;
@@ -73,13 +258,13 @@ export function PinOverlay({
 
       onImageClick(x, y);
     },
-    [mode, onImageClick],
+    [mode, onImageClick, isDrawing],
   );
 
   // Touch support for mobile
   const handleTouchEnd = useCallback(
     (e: React.TouchEvent<HTMLDivElement>) => {
-      if (mode !== "edit" || !onImageClick) return;
+      if (mode !== "edit" || !onImageClick || isDrawing) return;
 
       const target = e.target as HTMLElement;
       if (target.closest("[data-pin]")) return;
@@ -101,7 +286,7 @@ export function PinOverlay({
 
       onImageClick(x, y);
     },
-    [mode, onImageClick],
+    [mode, onImageClick, isDrawing],
   );
 
   // Long-press on pin for mobile tooltip
@@ -120,16 +305,62 @@ export function PinOverlay({
     setTimeout(() => setLongPressPin(null), 2000);
   }, []);
 
+  const regionPins = pins.filter((p) => p.shape && p.shape !== "POINT" && p.geometry);
+  const draft = drawPoints ? draftGeometry(tool, drawPoints, 0) : null;
+
   return (
     <div
       ref={containerRef}
       className={`relative select-none ${mode === "edit" ? "cursor-crosshair" : ""}`}
-      style={{ touchAction: "pinch-zoom" }}
+      // While a drawing tool is active a touch drag draws instead of scrolling.
+      style={{ touchAction: isDrawing ? "none" : "pinch-zoom" }}
       onClick={handleContainerClick}
       onTouchEnd={handleTouchEnd}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrawPoints(null)}
     >
       {children}
 
+      {/* Region annotations + the shape being drawn */}
+      {(regionPins.length > 0 || draft) && size.width > 0 && (
+        <svg
+          className="pointer-events-none absolute inset-0 z-[5] h-full w-full overflow-visible"
+          viewBox={`0 0 ${size.width} ${size.height}`}
+        >
+          {regionPins.map((pin) => (
+            <ShapePath
+              key={`shape-${pin.order}`}
+              shape={pin.shape!}
+              geometry={pin.geometry!}
+              width={size.width}
+              height={size.height}
+              color={pin.status === "RESOLVED" ? RESOLVED_COLOR : OPEN_COLOR}
+              active={activePinOrder === pin.order}
+              onClick={
+                isDrawing
+                  ? undefined
+                  : (e) => {
+                      e.stopPropagation();
+                      onPinClick?.(pin);
+                    }
+              }
+            />
+          ))}
+          {draft && (
+            <ShapePath
+              shape={tool}
+              geometry={draft}
+              width={size.width}
+              height={size.height}
+              color={OPEN_COLOR}
+              active
+            />
+          )}
+        </svg>
+      )}
+
       {/* Pin markers */}
       {pins.map((pin) => {
         const isActive = activePinOrder === pin.order;
@@ -182,3 +413,37 @@ export function PinOverlay({
     </div>
   );
 }
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Geometry for an in-progress drag. Returns null when the drag is too small
+ * to be a deliberate region (pass minSize 0 to preview every drag).
+ */
+function draftGeometry(
+  tool: AssetPinShape,
+  points: Point[],
+  minSize = MIN_REGION_SIZE,
+): PinGeometry | null {
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last) return null;
+
+  switch (tool) {
+    case "RECT":
+    case "ELLIPSE": {
+      const box = boxFromDrag(first, last);
+      return box.w >= minSize && box.h >= minSize && box.w > 0 && box.h > 0 ? box : null;
+    }
+    case "ARROW":
+      return Math.hypot(last.x - first.x, last.y - first.y) >= Math.max(minSize, 1e-4)
+        ? { x1: first.x, y1: first.y, x2: last.x, y2: last.y }
+        : null;
+    case "FREEHAND":
+      return points.length >= 2 ? { points: simplifyStroke(points.map((p) => [p.x, p.y])) } : null;
+    default:
+      return null;
+  }
+}
@@ -1,13 +1,17 @@
 // -----------------------------------------------------------------------------
 // @file: components/ui/pin-sidebar.tsx
 // @purpose: Pin list sidebar + mobile bottom sheet for lightbox pin annotations
-//           Supports edit (customer), resolve (creative), and readonly modes
+//           Supports edit (customer), resolve (creative), and readonly modes.
+//           Region annotations list alongside point pins, tagged with their shape.
+//           Pins carried over from the previous revision ask the customer to
+//           confirm them as fixed or still open.
 // -----------------------------------------------------------------------------
 
 "use client";
 
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import type { PinData } from "./pin-overlay";
+import { PIN_SHAPE_LABELS } from "@/lib/pin-geometry";
 
 // ---------------------------------------------------------------------------
 // Props
@@ -23,6 +27,9 @@ type PinSidebarProps = {
   onSubmitRevision?: () => void;
   onResolvePin?: (pin: PinData) => void;
   resolvingPinId?: string | null;
+  /** Customer check on a carried-over pin (edit mode) */
+  onConfirmCarriedPin?: (pin: PinData, outcome: "FIXED" | "STILL_OPEN") => void;
+  confirmingPinId?: string | null;
   onUploadWork?: () => void;
   submitting?: boolean;
   validationErrors?: Set<number>; // pin orders with empty labels
@@ -41,6 +48,8 @@ function PinList({
   onPinDelete,
   onResolvePin,
   resolvingPinId,
+  onConfirmCarriedPin,
+  confirmingPinId,
   validationErrors,
 }: Omit<PinSidebarProps, "onSubmitRevision" | "submitting" | "onUploadWork">) {
   const listRef = useRef<HTMLDivElement>(null);
@@ -68,7 +77,7 @@ function PinList({
           {mode === "edit" ? (
             <>
               <p className="text-xs font-medium text-[var(--bb-secondary)]">
-                Click on the image to add pins
+                Click on the image to add pins, or draw a region
               </p>
               <p className="mt-1 text-[10px] text-[var(--bb-text-tertiary)]">
                 Mark areas that need changes and describe what you want different
@@ -98,7 +107,8 @@ function PinList({
         <div className="rounded-lg bg-[var(--bb-primary)]/[0.06] px-3 py-2">
           <p className="text-[10px] leading-relaxed text-[var(--bb-text-tertiary)]">
             <span className="font-semibold text-[var(--bb-primary)]">How it works:</span> Click on
-            the image to place all your pins, add a note to each one, then press{" "}
+            the image to place all your pins (or pick a shape below the image to draw a region), add
+            a note to each one, then press{" "}
             <span className="font-semibold">&quot;Send all notes&quot;</span> when you&apos;re done.
           </p>
         </div>
@@ -128,6 +138,11 @@ function PinList({
         const hasError = validationErrors?.has(pin.order);
         const isResolved = pin.status === "RESOLVED";
         const isResolving = resolvingPinId === pin.id;
+        const shapeLabel = PIN_SHAPE_LABELS[pin.shape ?? "POINT"];
+        const isRegion = (pin.shape ?? "POINT") !== "POINT";
+        // Saved pins (already sent, or carried over) show their note read-only.
+        const isSaved = !!pin.id;
+        const isConfirming = confirmingPinId === pin.id;
 
         return (
           <div
@@ -153,18 +168,23 @@ function PinList({
               </div>
 
               {/* Label display (readonly and resolve modes) */}
-              {mode === "readonly" || mode === "resolve" ? (
+              {mode === "readonly" || mode === "resolve" || isSaved ? (
                 <p className="flex-1 text-[11px] leading-snug text-[var(--bb-secondary)]">
+                  {isRegion && (
+                    <span className="mr-1.5 rounded bg-[var(--bb-bg-card)] px-1 py-0.5 text-[9px] font-semibold tracking-wide text-[var(--bb-text-tertiary)] uppercase">
+                      {shapeLabel}
+                    </span>
+                  )}
                   {pin.label || "No note"}
                 </p>
               ) : (
                 <span className="flex-1 text-[10px] font-medium text-[var(--bb-text-tertiary)]">
-                  Pin {pin.order}
+                  {shapeLabel} {pin.order}
                 </span>
               )}
 
               {/* Delete button (edit mode only) */}
-              {mode === "edit" && onPinDelete && (
+              {mode === "edit" && onPinDelete && !isSaved && (
                 <button
                   type="button"
                   onClick={(e) => {
@@ -179,8 +199,8 @@ function PinList({
               )}
             </div>
 
-            {/* Textarea for note (edit mode) */}
-            {mode === "edit" && (
+            {/* Textarea for note (edit mode, unsaved pins) */}
+            {mode === "edit" && !isSaved && (
               <textarea
                 value={pin.label}
                 onChange={(e) => onPinLabelChange?.(pin.order, e.target.value)}
@@ -207,6 +227,48 @@ function PinList({
               </button>
             )}
 
+            {/* Carried over from the previous revision */}
+            {pin.carriedOver && (
+              <div className="mt-1.5">
+                <p className="text-[9px] font-medium text-[var(--bb-text-tertiary)]">
+                  ↪ Carried over from the previous version
+                  {!onConfirmCarriedPin &&
+                    (pin.carryOverReview === "PENDING"
+                      ? " · awaiting customer check"
+                      : pin.carryOverReview === "STILL_OPEN"
+                        ? " · customer says still open"
+                        : "")}
+                </p>
+                {onConfirmCarriedPin && (
+                  <div className="mt-1.5 flex gap-1.5">
+                    {(["FIXED", "STILL_OPEN"] as const).map((outcome) => {
+                      const selected = pin.carryOverReview === outcome;
+                      return (
+                        <button
+                          key={outcome}
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onConfirmCarriedPin(pin, outcome);
+                          }}
+                          disabled={isConfirming}
+                          className={`flex-1 rounded-lg border px-2 py-1 text-[10px] font-semibold transition-colors disabled:opacity-50 ${
+                            selected
+                              ? outcome === "FIXED"
+                                ? "border-[#32b37b] bg-[#32b37b] text-white"
+                                : "border-[var(--bb-primary)] bg-[var(--bb-primary)] text-white"
+                              : "border-[var(--bb-border)] text-[var(--bb-text-secondary)] hover:border-[var(--bb-border-input)]"
+                          }`}
+                        >
+                          {outcome === "FIXED" ? "Fixed" : "Still open"}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Resolved status indicator */}
             {isResolved && (
               <div className="mt-1 text-[9px] font-medium text-[#32b37b]">✓ Resolved</div>
@@ -234,6 +296,8 @@ export function PinBottomSheet({
   onSubmitRevision,
   onResolvePin,
   resolvingPinId,
+  onConfirmCarriedPin,
+  confirmingPinId,
   onUploadWork,
   submitting,
   validationErrors,
@@ -291,6 +355,8 @@ export function PinBottomSheet({
 
   const openCount = pins.filter((p) => p.status !== "RESOLVED").length;
   const resolvedCount = pins.filter((p) => p.status === "RESOLVED").length;
+  // Only pins placed in this session are sent; saved ones are already stored.
+  const unsentCount = pins.filter((p) => !p.id).length;
 
   return (
     <div
@@ -327,8 +393,8 @@ export function PinBottomSheet({
                 e.stopPropagation();
                 onSubmitRevision();
               }}
-              disabled={pins.length === 0 || submitting}
-              className={`rounded-lg px-3 py-1.5 text-[11px] font-semibold text-white transition-colors ${pins.length > 0 && !submitting ? "bg-[var(--bb-primary)] hover:bg-[var(--bb-primary-hover)]" : "cursor-not-allowed bg-[var(--bb-border-input)]"} `}
+              disabled={unsentCount === 0 || submitting}
+              className={`rounded-lg px-3 py-1.5 text-[11px] font-semibold text-white transition-colors ${unsentCount > 0 && !submitting ? "bg-[var(--bb-primary)] hover:bg-[var(--bb-primary-hover)]" : "cursor-not-allowed bg-[var(--bb-border-input)]"} `}
             >
               {submitting ? "Sending..." : "Send all notes"}
             </button>
@@ -361,6 +427,8 @@ export function PinBottomSheet({
             onPinDelete={onPinDelete}
             onResolvePin={onResolvePin}
             resolvingPinId={resolvingPinId}
+            onConfirmCarriedPin={onConfirmCarriedPin}
+            confirmingPinId={confirmingPinId}
             validationErrors={validationErrors}
           />
         </div>
@@ -383,12 +451,15 @@ export function PinSidebar({
   onSubmitRevision,
   onResolvePin,
   resolvingPinId,
+  onConfirmCarriedPin,
+  confirmingPinId,
   onUploadWork,
   submitting,
   validationErrors,
 }: PinSidebarProps) {
   const openCount = pins.filter((p) => p.status !== "RESOLVED").length;
   const resolvedCount = pins.filter((p) => p.status === "RESOLVED").length;
+  const unsentCount = pins.filter((p) => !p.id).length;
 
   return (
     <div className="hidden md:flex md:w-80 md:shrink-0 md:flex-col md:rounded-xl md:border md:border-[var(--bb-border)] md:bg-[var(--bb-bg-page)]">
@@ -430,6 +501,8 @@ export function PinSidebar({
         onPinDelete={onPinDelete}
         onResolvePin={onResolvePin}
         resolvingPinId={resolvingPinId}
+        onConfirmCarriedPin={onConfirmCarriedPin}
+        confirmingPinId={confirmingPinId}
         validationErrors={validationErrors}
       />
 
@@ -461,16 +534,16 @@ export function PinSidebar({
           <button
             type="button"
             onClick={onSubmitRevision}
-            disabled={pins.length === 0 || submitting}
-            className={`w-full rounded-xl px-4 py-2.5 text-xs font-semibold text-white transition-all ${pins.length > 0 && !submitting ? "bg-[var(--bb-primary)] shadow-sm hover:bg-[var(--bb-primary-hover)]" : "cursor-not-allowed bg-[var(--bb-border-input)]"} `}
+            disabled={unsentCount === 0 || submitting}
+            className={`w-full rounded-xl px-4 py-2.5 text-xs font-semibold text-white transition-all ${unsentCount > 0 && !submitting ? "bg-[var(--bb-primary)] shadow-sm hover:bg-[var(--bb-primary-hover)]" : "cursor-not-allowed bg-[var(--bb-border-input)]"} `}
           >
             {submitting
               ? "Sending all notes..."
-              : pins.length > 0
-                ? `Send all notes (${pins.length})`
+              : unsentCount > 0
+                ? `Send all notes (${unsentCount})`
                 : "Send all notes"}
           </button>
-          {pins.length > 0 && !submitting && (
+          {unsentCount > 0 && !submitting && (
             <p className="mt-1.5 text-center text-[9px] text-[var(--bb-text-muted)]">
               Done pinning? This will send all your notes to the creative
             </p>
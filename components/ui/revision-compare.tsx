@@ -1,16 +1,21 @@
 // -----------------------------------------------------------------------------
 // @file: components/ui/revision-compare.tsx
-// @purpose: Side-by-side revision comparison modal for creative review workflows
-// @version: v1.0.0
+// @purpose: Revision comparison modal for creative review workflows — side by
+//           side, swipe, onion skin and pixel difference, with zoom/pan kept
+//           in sync across both versions
+// @version: v1.1.0
 // @status: active
-// @lastUpdate: 2026-02-21
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 "use client";
 
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { RevisionImage } from "./revision-image";
 import type { AssetEntry } from "./revision-image";
+import { PdfCanvas } from "./pdf-canvas";
+import { isImageAsset } from "@/lib/upload-helpers";
+import { canDiff, computeDiffHeatmap } from "@/lib/image-diff";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -29,6 +34,29 @@ type RevisionCompareProps = {
   onClose: () => void;
 };
 
+type CompareMode = "side" | "swipe" | "onion" | "diff";
+
+const COMPARE_MODES: { value: CompareMode; label: string }[] = [
+  { value: "side", label: "Side by side" },
+  { value: "swipe", label: "Swipe" },
+  { value: "onion", label: "Onion skin" },
+  { value: "diff", label: "Difference" },
+];
+
+/** Zoom/pan of a compare viewport, in viewport pixels. */
+type View = { scale: number; x: number; y: number };
+
+const IDENTITY_VIEW: View = { scale: 1, x: 0, y: 0 };
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+
+/** Captured pixels of one side: null while loading, "error" if it failed. */
+type Frame = ImageData | "error" | null;
+
+const isPdf = (asset: AssetEntry) => !isImageAsset({ name: asset.originalName, url: asset.url });
+
+const isFrame = (frame: Frame): frame is ImageData => frame !== null && frame !== "error";
+
 // ---------------------------------------------------------------------------
 // useResolvedSrc — same as revision-image.tsx (resolve presigned URL fallback)
 // ---------------------------------------------------------------------------
@@ -119,6 +147,530 @@ function EmptySlot() {
   );
 }
 
+// ---------------------------------------------------------------------------
+// Zoom / pan
+// ---------------------------------------------------------------------------
+
+/** Keep the zoomed stage covering the viewport — no panning past its edges. */
+function clampView(view: View, width: number, height: number): View {
+  const scale = Math.min(MAX_ZOOM, Math.max(1, view.scale));
+  if (scale === 1) return IDENTITY_VIEW;
+  return {
+    scale,
+    x: Math.min(0, Math.max(width * (1 - scale), view.x)),
+    y: Math.min(0, Math.max(height * (1 - scale), view.y)),
+  };
+}
+
+/** Zoom by `factor` around the point (cx, cy) so it stays under the cursor. */
+function zoomAt(view: View, factor: number, cx: number, cy: number): View {
+  const scale = Math.min(MAX_ZOOM, Math.max(1, view.scale * factor));
+  const ratio = scale / view.scale;
+  return { scale, x: cx - (cx - view.x) * ratio, y: cy - (cy - view.y) * ratio };
+}
+
+/**
+ * A clipped box whose children zoom with the wheel and pan by dragging. The
+ * view is owned by the caller, so two viewports given the same view and
+ * setter stay in lockstep.
+ */
+function ZoomPanViewport({
+  view,
+  onViewChange,
+  boxRef,
+  className,
+  children,
+}: {
+  view: View;
+  onViewChange: React.Dispatch<React.SetStateAction<View>>;
+  /** Optional ref to the viewport element, for callers that need its size. */
+  boxRef?: React.RefObject<HTMLDivElement | null>;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  const ownRef = useRef<HTMLDivElement>(null);
+  const ref = boxRef ?? ownRef;
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  // React's onWheel is passive, so the listener is attached by hand to be
+  // able to stop the page from scrolling while zooming.
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const factor = e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      onViewChange((v) =>
+        clampView(
+          zoomAt(v, factor, e.clientX - rect.left, e.clientY - rect.top),
+          rect.width,
+          rect.height,
+        ),
+      );
+    };
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, [ref, onViewChange]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (view.scale <= 1) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragRef.current;
+    if (!start) return;
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    const rect = e.currentTarget.getBoundingClientRect();
+    onViewChange((v) => clampView({ ...v, x: v.x + dx, y: v.y + dy }, rect.width, rect.height));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div
+      ref={ref}
+      className={`relative touch-none overflow-hidden rounded-lg border border-[var(--bb-border)] bg-[var(--bb-bg-card)] select-none ${
+        view.scale > 1 ? "cursor-grab active:cursor-grabbing" : ""
+      } ${className ?? ""}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => onViewChange(IDENTITY_VIEW)}
+    >
+      <div
+        className="absolute inset-0 origin-top-left"
+        style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// AssetLayer — one version of an asset, fitted inside a viewport
+// ---------------------------------------------------------------------------
+
+function AssetLayer({
+  asset,
+  page,
+  pageCount,
+  label,
+  style,
+  onNumPages,
+}: {
+  asset: AssetEntry;
+  page: number;
+  /** Known page count for PDFs (0 until loaded). */
+  pageCount: number;
+  label: string;
+  style?: React.CSSProperties;
+  onNumPages?: (n: number) => void;
+}) {
+  let content: React.ReactNode;
+  if (!isPdf(asset)) {
+    content = <LayerImage asset={asset} label={label} />;
+  } else if (pageCount > 0 && page > pageCount) {
+    content = (
+      <span className="text-xs text-[var(--bb-text-muted)]">
+        {label} has no page {page}
+      </span>
+    );
+  } else {
+    content = (
+      <PdfCanvas
+        assetId={asset.id}
+        page={page}
+        onNumPages={onNumPages}
+        className="block h-auto max-h-[60vh] w-auto max-w-full bg-white"
+      />
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center" style={style}>
+      {content}
+    </div>
+  );
+}
+
+function LayerImage({ asset, label }: { asset: AssetEntry; label: string }) {
+  const { src, loading, error } = useResolvedSrc(asset.id, asset.url);
+
+  if (loading) {
+    return (
+      <div className="h-5 w-5 animate-spin rounded-full border-2 border-[var(--bb-border)] border-t-[var(--bb-text-tertiary)]" />
+    );
+  }
+  if (error || !src) {
+    return <span className="text-xs text-[var(--bb-text-muted)]">Could not load image</span>;
+  }
+  return <img src={src} alt={label} draggable={false} className="h-full w-full object-contain" />;
+}
+
+// ---------------------------------------------------------------------------
+// Pixel difference
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode an image into pixels. Loaded through the same-origin raw proxy —
+ * pixels of an image from the R2 public domain can't be read back from a
+ * canvas without CORS headers.
+ */
+async function loadImageFrame(assetId: string): Promise<ImageData> {
+  const img = new Image();
+  img.src = `/api/assets/${assetId}/raw`;
+  await img.decode();
+
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Capture the pixels of one side for the heatmap: images are decoded
+ * directly, PDF pages are rendered by an off-screen PdfCanvas.
+ */
+function FrameCapture({
+  asset,
+  page,
+  onFrame,
+  onNumPages,
+}: {
+  asset: AssetEntry;
+  page: number;
+  onFrame: (frame: Frame) => void;
+  onNumPages: (n: number) => void;
+}) {
+  const pdf = isPdf(asset);
+
+  useEffect(() => {
+    if (pdf) return;
+    let cancelled = false;
+    loadImageFrame(asset.id)
+      .then((frame) => {
+        if (!cancelled) onFrame(frame);
+      })
+      .catch((err) => {
+        console.error("[RevisionCompare] image decode error:", err);
+        if (!cancelled) onFrame("error");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [asset.id, pdf, onFrame]);
+
+  const handleRendered = useCallback(
+    (canvas: HTMLCanvasElement) => {
+      const ctx = canvas.getContext("2d");
+      onFrame(ctx ? ctx.getImageData(0, 0, canvas.width, canvas.height) : "error");
+    },
+    [onFrame],
+  );
+
+  if (!pdf) return null;
+  return (
+    <div className="hidden" aria-hidden>
+      <PdfCanvas
+        assetId={asset.id}
+        page={page}
+        onNumPages={onNumPages}
+        onRendered={handleRendered}
+      />
+    </div>
+  );
+}
+
+/** Draws a heatmap already computed by computeDiffHeatmap. */
+function DiffCanvas({
+  data,
+  width,
+  height,
+}: {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    canvas.width = width;
+    canvas.height = height;
+    const image = ctx.createImageData(width, height);
+    image.data.set(data);
+    ctx.putImageData(image, 0, 0);
+  }, [data, width, height]);
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black">
+      <canvas ref={canvasRef} className="block max-h-full max-w-full" />
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// ComparePair — one left/right asset pair in the chosen mode
+// ---------------------------------------------------------------------------
+
+function ComparePair({
+  index,
+  leftAsset,
+  rightAsset,
+  leftVersion,
+  rightVersion,
+  mode,
+}: {
+  index: number;
+  leftAsset: AssetEntry | null;
+  rightAsset: AssetEntry | null;
+  leftVersion: number;
+  rightVersion: number;
+  mode: CompareMode;
+}) {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<View>(IDENTITY_VIEW);
+  const [page, setPage] = useState(1);
+  const [leftPages, setLeftPages] = useState(0);
+  const [rightPages, setRightPages] = useState(0);
+  const [swipe, setSwipe] = useState(50);
+  const [opacity, setOpacity] = useState(50);
+  const [leftFrame, setLeftFrame] = useState<Frame>(null);
+  const [rightFrame, setRightFrame] = useState<Frame>(null);
+
+  const pageCount = Math.max(leftPages, rightPages);
+  const overlay = mode !== "side" && leftAsset !== null && rightAsset !== null;
+
+  const changePage = (next: number) => {
+    setPage(next);
+    setLeftFrame(null);
+    setRightFrame(null);
+  };
+
+  const heatmap = useMemo(() => {
+    if (!isFrame(leftFrame) || !isFrame(rightFrame) || !canDiff(leftFrame, rightFrame)) {
+      return null;
+    }
+    return computeDiffHeatmap(leftFrame.data, rightFrame.data, leftFrame.width, leftFrame.height);
+  }, [leftFrame, rightFrame]);
+
+  // The buttons zoom around the centre of the viewport.
+  const zoomBy = (factor: number) => {
+    const w = boxRef.current?.clientWidth ?? 0;
+    const h = boxRef.current?.clientHeight ?? 0;
+    setView((v) => clampView(zoomAt(v, factor, w / 2, h / 2), w, h));
+  };
+
+  const layer = (side: "left" | "right", style?: React.CSSProperties) => {
+    const asset = side === "left" ? leftAsset : rightAsset;
+    if (!asset) return null;
+    return (
+      <AssetLayer
+        asset={asset}
+        page={page}
+        pageCount={side === "left" ? leftPages : rightPages}
+        label={`v${side === "left" ? leftVersion : rightVersion}`}
+        style={style}
+        onNumPages={side === "left" ? setLeftPages : setRightPages}
+      />
+    );
+  };
+
+  let diffStatus: React.ReactNode = null;
+  if (mode === "diff" && overlay) {
+    const missingPage =
+      (leftPages > 0 && page > leftPages && leftVersion) ||
+      (rightPages > 0 && page > rightPages && rightVersion);
+    if (missingPage) {
+      diffStatus = `v${missingPage} has no page ${page}.`;
+    } else if (leftFrame === "error" || rightFrame === "error") {
+      diffStatus = "Could not read the files to compare.";
+    } else if (isFrame(leftFrame) && isFrame(rightFrame) && !heatmap) {
+      diffStatus = `Difference needs the same size on both sides (${leftFrame.width}×${leftFrame.height} vs ${rightFrame.width}×${rightFrame.height}).`;
+    } else if (!heatmap) {
+      diffStatus = "Computing difference…";
+    }
+  }
+
+  const btn =
+    "rounded-md border border-[var(--bb-border-input)] bg-[var(--bb-bg-page)] px-2 py-0.5 text-xs text-[var(--bb-secondary)] transition-colors hover:bg-[var(--bb-bg-card)] disabled:opacity-40";
+
+  return (
+    <div className="space-y-2">
+      {/* Pair toolbar */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-[11px] text-[var(--bb-text-tertiary)]">
+        <span className="truncate font-medium text-[var(--bb-secondary)]">
+          {rightAsset?.originalName ?? leftAsset?.originalName ?? `File ${index + 1}`}
+        </span>
+
+        {pageCount > 1 && (
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              className={btn}
+              disabled={page <= 1}
+              onClick={() => changePage(page - 1)}
+            >
+              &#8249;
+            </button>
+            <span>
+              Page {page} of {pageCount}
+            </span>
+            <button
+              type="button"
+              className={btn}
+              disabled={page >= pageCount}
+              onClick={() => changePage(page + 1)}
+            >
+              &#8250;
+            </button>
+          </div>
+        )}
+
+        {overlay && mode === "swipe" && (
+          <label className="flex items-center gap-2">
+            v{leftVersion}
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={swipe}
+              onChange={(e) => setSwipe(Number(e.target.value))}
+              aria-label="Swipe position"
+            />
+            v{rightVersion}
+          </label>
+        )}
+
+        {overlay && mode === "onion" && (
+          <label className="flex items-center gap-2">
+            v{leftVersion}
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={opacity}
+              onChange={(e) => setOpacity(Number(e.target.value))}
+              aria-label={`v${rightVersion} opacity`}
+            />
+            v{rightVersion}
+          </label>
+        )}
+
+        {mode === "diff" && overlay && heatmap && !diffStatus && (
+          <span>
+            <span className="mr-1 inline-block h-2 w-2 rounded-full bg-[#ff3b30] align-middle" />
+            {(heatmap.changedRatio * 100).toFixed(heatmap.changedRatio < 0.01 ? 2 : 1)}% of pixels
+            changed
+          </span>
+        )}
+
+        {mode !== "side" && !overlay && <span>Both versions need this file to overlay them.</span>}
+
+        <div className="ml-auto flex items-center gap-1">
+          <button type="button" className={btn} onClick={() => zoomBy(1 / ZOOM_STEP)}>
+            &minus;
+          </button>
+          <span className="w-10 text-center">{Math.round(view.scale * 100)}%</span>
+          <button type="button" className={btn} onClick={() => zoomBy(ZOOM_STEP)}>
+            +
+          </button>
+          <button
+            type="button"
+            className={btn}
+            disabled={view.scale === 1}
+            onClick={() => setView(IDENTITY_VIEW)}
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {!overlay ? (
+        <div className="grid grid-cols-2 gap-4">
+          {(["left", "right"] as const).map((side) =>
+            (side === "left" ? leftAsset : rightAsset) ? (
+              <ZoomPanViewport
+                key={side}
+                view={view}
+                onViewChange={setView}
+                boxRef={side === "left" || !leftAsset ? boxRef : undefined}
+                className="h-[60vh]"
+              >
+                {layer(side)}
+              </ZoomPanViewport>
+            ) : (
+              <EmptySlot key={side} />
+            ),
+          )}
+        </div>
+      ) : (
+        <div>
+          <ZoomPanViewport view={view} onViewChange={setView} boxRef={boxRef} className="h-[60vh]">
+            {mode === "swipe" && (
+              <>
+                {layer("left")}
+                {layer("right", { clipPath: `inset(0 0 0 ${swipe}%)` })}
+                <div
+                  className="pointer-events-none absolute inset-y-0 w-0.5 -translate-x-1/2 bg-white shadow-[0_0_4px_rgba(0,0,0,0.5)]"
+                  style={{ left: `${swipe}%` }}
+                />
+              </>
+            )}
+            {mode === "onion" && (
+              <>
+                {layer("left")}
+                {layer("right", { opacity: opacity / 100 })}
+              </>
+            )}
+            {mode === "diff" &&
+              (heatmap && isFrame(leftFrame) && !diffStatus ? (
+                <DiffCanvas data={heatmap.data} width={leftFrame.width} height={leftFrame.height} />
+              ) : (
+                <div className="absolute inset-0 flex items-center justify-center px-6 text-center text-xs text-[var(--bb-text-muted)]">
+                  {diffStatus}
+                </div>
+              ))}
+          </ZoomPanViewport>
+
+          {mode === "diff" && (
+            <>
+              <FrameCapture
+                key={`left-${page}`}
+                asset={leftAsset}
+                page={page}
+                onFrame={setLeftFrame}
+                onNumPages={setLeftPages}
+              />
+              <FrameCapture
+                key={`right-${page}`}
+                asset={rightAsset}
+                page={page}
+                onFrame={setRightFrame}
+                onNumPages={setRightPages}
+              />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // RevisionCompare — full modal overlay
 // ---------------------------------------------------------------------------
@@ -137,6 +689,8 @@ export function RevisionCompare({
   const [leftVersion, setLeftVersion] = useState(initialLeftVersion ?? defaultLeft);
   const [rightVersion, setRightVersion] = useState(initialRightVersion ?? defaultRight);
 
+  const [mode, setMode] = useState<CompareMode>("side");
+
   // Mobile tab state
   const [activeTab, setActiveTab] = useState<"left" | "right">("left");
 
@@ -173,6 +727,26 @@ export function RevisionCompare({
         <h2 className="text-sm font-semibold text-[var(--bb-secondary)]">Compare revisions</h2>
 
         <div className="flex items-center gap-3">
+          {/* Desktop mode switch */}
+          <div className="hidden items-center gap-1 md:flex" role="tablist">
+            {COMPARE_MODES.map((m) => (
+              <button
+                key={m.value}
+                type="button"
+                role="tab"
+                aria-selected={mode === m.value}
+                className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                  mode === m.value
+                    ? "bg-[var(--bb-primary)] text-white"
+                    : "border border-[var(--bb-border-input)] bg-[var(--bb-bg-page)] text-[var(--bb-secondary)]"
+                }`}
+                onClick={() => setMode(m.value)}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+
           {/* Desktop dropdowns */}
           <div className="hidden items-center gap-2 md:flex">
             <label className="text-[11px] text-[var(--bb-text-tertiary)]">Left:</label>
@@ -271,7 +845,7 @@ export function RevisionCompare({
 
         {maxAssets > 0 && (
           <>
-            {/* Desktop: side-by-side grid */}
+            {/* Desktop: asset pairs in the chosen mode */}
             <div className="hidden md:block">
               {/* Column headers */}
               <div className="mb-3 grid grid-cols-2 gap-4">
@@ -293,31 +867,29 @@ export function RevisionCompare({
                 </p>
               </div>
 
-              {/* Asset pairs */}
-              <div className="space-y-4">
+              {/* Asset pairs — keyed by both assets so switching versions starts fresh */}
+              <div className="space-y-6">
                 {Array.from({ length: maxAssets }).map((_, i) => {
                   const leftAsset = leftRev?.assets[i] ?? null;
                   const rightAsset = rightRev?.assets[i] ?? null;
 
                   return (
-                    <div key={i} className="grid grid-cols-2 gap-4">
-                      {leftAsset ? (
-                        <CompareImage asset={leftAsset} label={`v${leftVersion} asset ${i + 1}`} />
-                      ) : (
-                        <EmptySlot />
-                      )}
-                      {rightAsset ? (
-                        <CompareImage
-                          asset={rightAsset}
-                          label={`v${rightVersion} asset ${i + 1}`}
-                        />
-                      ) : (
-                        <EmptySlot />
-                      )}
-                    </div>
+                    <ComparePair
+                      key={`${leftAsset?.id ?? "none"}:${rightAsset?.id ?? "none"}`}
+                      index={i}
+                      leftAsset={leftAsset}
+                      rightAsset={rightAsset}
+                      leftVersion={leftVersion}
+                      rightVersion={rightVersion}
+                      mode={mode}
+                    />
                   );
                 })}
               </div>
+
+              <p className="mt-4 text-[11px] text-[var(--bb-text-muted)]">
+                Scroll to zoom, drag to pan and double-click to reset. Both versions move together.
+              </p>
             </div>
 
             {/* Mobile: single column, tab-switched */}
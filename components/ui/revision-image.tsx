@@ -2,15 +2,18 @@
 // @file: components/ui/revision-image.tsx
 // @purpose: Revision asset thumbnail grid with presigned URL fallback, lightbox,
 //           pin annotation support (edit for customers, resolve for creatives, readonly)
+//           including drawn regions (rectangle, ellipse, arrow, freehand)
 // -----------------------------------------------------------------------------
 
 "use client";
 
 import React, { useCallback, useEffect, useState } from "react";
+import type { AssetPinShape } from "@prisma/client";
 import { PinOverlay, type PinData } from "./pin-overlay";
 import { PinSidebar, PinBottomSheet } from "./pin-sidebar";
 import { PdfCanvas } from "./pdf-canvas";
 import { downloadSingleAsset, downloadAssetsAsZip } from "@/lib/download-helpers";
+import { PIN_SHAPES, PIN_SHAPE_LABELS, type PinGeometry, pinAnchor } from "@/lib/pin-geometry";
 import { isImageAsset } from "@/lib/upload-helpers";
 
 /** Uppercase extension label for a non-image file chip (e.g. "PDF"). */
@@ -372,6 +375,62 @@ function PdfPager({
   );
 }
 
+// ---------------------------------------------------------------------------
+// AnnotationToolbar — pick between point pins and the drawn region shapes
+// ---------------------------------------------------------------------------
+
+function ShapeToolIcon({ shape }: { shape: AssetPinShape }) {
+  const stroke = {
+    stroke: "currentColor",
+    strokeWidth: 1.6,
+    fill: "none",
+    strokeLinecap: "round" as const,
+    strokeLinejoin: "round" as const,
+  };
+  return (
+    <svg width="16" height="16" viewBox="0 0 16 16" aria-hidden="true">
+      {shape === "POINT" && <circle cx="8" cy="8" r="4" fill="currentColor" />}
+      {shape === "RECT" && <rect x="2.5" y="3.5" width="11" height="9" rx="1.5" {...stroke} />}
+      {shape === "ELLIPSE" && <ellipse cx="8" cy="8" rx="5.5" ry="4.5" {...stroke} />}
+      {shape === "ARROW" && <path d="M3 13 13 3M7.5 3H13v5.5" {...stroke} />}
+      {shape === "FREEHAND" && <path d="M2.5 11c2-4 3.5-6 5-4s2.5 3 5.5-3" {...stroke} />}
+    </svg>
+  );
+}
+
+function AnnotationToolbar({
+  tool,
+  onChange,
+}: {
+  tool: AssetPinShape;
+  onChange: (next: AssetPinShape) => void;
+}) {
+  return (
+    <div className="flex items-center gap-1 rounded-full bg-[var(--bb-bg-page)]/10 px-1.5 py-1">
+      {PIN_SHAPES.map((shape) => (
+        <button
+          key={shape}
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onChange(shape);
+          }}
+          className={`flex h-7 w-7 items-center justify-center rounded-full transition-colors ${
+            tool === shape
+              ? "bg-white text-[var(--bb-secondary)]"
+              : "text-white/80 hover:bg-[var(--bb-bg-page)]/20 hover:text-white"
+          }`}
+          aria-label={PIN_SHAPE_LABELS[shape]}
+          aria-pressed={tool === shape}
+          title={PIN_SHAPE_LABELS[shape]}
+        >
+          <ShapeToolIcon shape={shape} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // ImageLightbox — fullscreen overlay with pin support
 // ---------------------------------------------------------------------------
@@ -410,7 +469,9 @@ function ImageLightbox({
   const [showDiscardConfirm, setShowDiscardConfirm] = useState(false);
   const [mobileAutoExpand, setMobileAutoExpand] = useState(false);
   const [resolvingPinId, setResolvingPinId] = useState<string | null>(null);
+  const [confirmingPinId, setConfirmingPinId] = useState<string | null>(null);
   const [lightboxDownloading, setLightboxDownloading] = useState(false);
+  const [tool, setTool] = useState<AssetPinShape>("POINT");
 
   // PDF paging. Images are single-page; PDFs render one page at a time and pins
   // are scoped to the page they were placed on.
@@ -449,9 +510,13 @@ function ImageLightbox({
             x: p.x,
             y: p.y,
             page: p.page ?? 1,
+            shape: p.shape ?? "POINT",
+            geometry: p.geometry ?? null,
             order: p.order,
             label: p.label ?? "",
             status: p.status,
+            carriedOver: p.carriedOver ?? false,
+            carryOverReview: p.carryOverReview ?? null,
           }));
           setPinsPerAsset((prev) => ({
             ...prev,
@@ -528,15 +593,15 @@ function ImageLightbox({
     };
   }, []);
 
-  // Pin placement
-  const handleImageClick = useCallback(
-    (x: number, y: number) => {
+  // Pin placement — point pins from a click, regions from a finished drag
+  const addPin = useCallback(
+    (placed: Pick<PinData, "x" | "y" | "shape" | "geometry">) => {
       if (!isEditMode) return;
       const existing = pinsPerAsset[asset.id] ?? [];
       // Pin numbering stays global per asset (continues across PDF pages); the
       // page field records which page the pin was placed on.
       const nextOrder = existing.length > 0 ? Math.max(...existing.map((p) => p.order)) + 1 : 1;
-      const newPin: PinData = { x, y, page: currentPage, order: nextOrder, label: "" };
+      const newPin: PinData = { ...placed, page: currentPage, order: nextOrder, label: "" };
 
       setPinsPerAsset((prev) => ({
         ...prev,
@@ -554,6 +619,19 @@ function ImageLightbox({
     [isEditMode, asset.id, pinsPerAsset, currentPage],
   );
 
+  const handleImageClick = useCallback(
+    (x: number, y: number) => addPin({ x, y, shape: "POINT", geometry: null }),
+    [addPin],
+  );
+
+  const handleShapeDraw = useCallback(
+    (shape: AssetPinShape, geometry: PinGeometry) => {
+      const anchor = pinAnchor(shape, geometry);
+      if (anchor) addPin({ ...anchor, shape, geometry });
+    },
+    [addPin],
+  );
+
   const handlePinClick = useCallback((pin: PinData) => {
     setActivePinOrder(pin.order);
   }, []);
@@ -583,10 +661,17 @@ function ImageLightbox({
   const handlePinDelete = useCallback(
     (order: number) => {
       setPinsPerAsset((prev) => {
-        const filtered = (prev[asset.id] ?? []).filter((p) => p.order !== order);
-        // Re-order remaining pins sequentially
-        const reordered = filtered.map((p, i) => ({ ...p, order: i + 1 }));
-        return { ...prev, [asset.id]: reordered };
+        const current = prev[asset.id] ?? [];
+        // Saved pins (e.g. ones carried over from the previous revision)
+        // can't be deleted here and keep their numbers.
+        if (current.some((p) => p.order === order && p.id)) return prev;
+        const saved = current.filter((p) => p.id);
+        const savedMax = saved.length > 0 ? Math.max(...saved.map((p) => p.order)) : 0;
+        // Re-order remaining unsaved pins sequentially after the saved ones
+        const reordered = current
+          .filter((p) => !p.id && p.order !== order)
+          .map((p, i) => ({ ...p, order: savedMax + i + 1 }));
+        return { ...prev, [asset.id]: [...saved, ...reordered] };
       });
       setActivePinOrder(null);
     },
@@ -621,6 +706,37 @@ function ImageLightbox({
     [asset.id, resolvingPinId],
   );
 
+  // Confirm a pin carried over from the previous revision (customer mode)
+  const handleConfirmCarriedPin = useCallback(
+    async (pin: PinData, outcome: "FIXED" | "STILL_OPEN") => {
+      if (!pin.id || confirmingPinId) return;
+      setConfirmingPinId(pin.id);
+      try {
+        const res = await fetch(`/api/assets/${asset.id}/pins/carry-over`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ pinId: pin.id, outcome }),
+        });
+        const json = await res.json().catch(() => null);
+        if (res.ok && json?.pin) {
+          setPinsPerAsset((prev) => ({
+            ...prev,
+            [asset.id]: (prev[asset.id] ?? []).map((p) =>
+              p.id === pin.id
+                ? { ...p, status: json.pin.status, carryOverReview: json.pin.carryOverReview }
+                : p,
+            ),
+          }));
+        }
+      } catch (err) {
+        console.error("[Lightbox] confirm carried pin error:", err);
+      } finally {
+        setConfirmingPinId(null);
+      }
+    },
+    [asset.id, confirmingPinId],
+  );
+
   // Submit revision
   const handleSubmitRevision = useCallback(async () => {
     // Collect all pins across all assets
@@ -661,6 +777,8 @@ function ImageLightbox({
               x: p.x,
               y: p.y,
               page: p.page ?? 1,
+              shape: p.shape ?? "POINT",
+              geometry: p.geometry ?? undefined,
               order: p.order,
               label: p.label.trim(),
             })),
@@ -701,6 +819,8 @@ function ImageLightbox({
     onSubmitRevision: isEditMode ? handleSubmitRevision : undefined,
     onResolvePin: isResolveMode ? handleResolvePin : undefined,
     resolvingPinId: isResolveMode ? resolvingPinId : undefined,
+    onConfirmCarriedPin: isEditMode ? handleConfirmCarriedPin : undefined,
+    confirmingPinId: isEditMode ? confirmingPinId : undefined,
     onUploadWork:
       isResolveMode && onUploadWork
         ? () => {
@@ -838,6 +958,8 @@ function ImageLightbox({
                 onPinClick={handlePinClick}
                 onImageClick={isEditMode ? handleImageClick : undefined}
                 resolveMode={isResolveMode}
+                tool={isEditMode ? tool : "POINT"}
+                onShapeDraw={isEditMode ? handleShapeDraw : undefined}
               >
                 {isPdfAsset ? (
                   <PdfCanvas
@@ -857,8 +979,13 @@ function ImageLightbox({
                   />
                 )}
               </PinOverlay>
-              {isPdfAsset && numPages > 1 && (
-                <PdfPager page={currentPage} numPages={numPages} onChange={handlePageChange} />
+              {(isEditMode || (isPdfAsset && numPages > 1)) && (
+                <div className="flex items-center gap-2">
+                  {isEditMode && <AnnotationToolbar tool={tool} onChange={setTool} />}
+                  {isPdfAsset && numPages > 1 && (
+                    <PdfPager page={currentPage} numPages={numPages} onChange={handlePageChange} />
+                  )}
+                </div>
               )}
             </div>
           ) : isPdfAsset ? (
@@ -0,0 +1,89 @@
+// -----------------------------------------------------------------------------
+// @file: lib/__tests__/cron-rule.test.ts
+// @purpose: Unit tests for cron rule parsing and next-occurrence calculation
+// -----------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import { nextCronOccurrence, parseCronRule } from "../cron-rule";
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+describe("parseCronRule", () => {
+  it("parses wildcards, lists, ranges and steps", () => {
+    const result = parseCronRule("*/15 9-17 1,15 * 1-5");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect([...result.fields.minutes]).toEqual([0, 15, 30, 45]);
+    expect(result.fields.hours.size).toBe(9);
+    expect([...result.fields.daysOfMonth]).toEqual([1, 15]);
+    expect(result.fields.months.size).toBe(12);
+    expect(result.fields.domRestricted).toBe(true);
+    expect(result.fields.dowRestricted).toBe(true);
+  });
+
+  it("treats weekday 7 as Sunday", () => {
+    const result = parseCronRule("0 9 * * 7");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.fields.daysOfWeek.has(0)).toBe(true);
+  });
+
+  it("rejects the wrong number of fields", () => {
+    expect(parseCronRule("0 9 * *").ok).toBe(false);
+    expect(parseCronRule("0 9 * * * *").ok).toBe(false);
+  });
+
+  it("rejects out-of-range values and malformed parts", () => {
+    expect(parseCronRule("60 9 * * *").ok).toBe(false);
+    expect(parseCronRule("0 24 * * *").ok).toBe(false);
+    expect(parseCronRule("0 9 0 * *").ok).toBe(false);
+    expect(parseCronRule("0 9 * 13 *").ok).toBe(false);
+    expect(parseCronRule("0 9 * * MON").ok).toBe(false);
+    expect(parseCronRule("0 9 5-1 * *").ok).toBe(false);
+    expect(parseCronRule("*/0 9 * * *").ok).toBe(false);
+  });
+});
+
+describe("nextCronOccurrence", () => {
+  it("returns the next matching minute strictly after the given time", () => {
+    const after = utc("2026-10-19T09:00:00");
+    expect(nextCronOccurrence("0 9 * * *", after)).toEqual(utc("2026-10-20T09:00:00"));
+    expect(nextCronOccurrence("0 10 * * *", after)).toEqual(utc("2026-10-19T10:00:00"));
+  });
+
+  it("finds the next weekly occurrence (2026-10-19 is a Monday)", () => {
+    const after = utc("2026-10-19T12:00:00");
+    expect(nextCronOccurrence("0 9 * * 1", after)).toEqual(utc("2026-10-26T09:00:00"));
+    expect(nextCronOccurrence("30 8 * * 5", after)).toEqual(utc("2026-10-23T08:30:00"));
+  });
+
+  it("rolls over month and year boundaries", () => {
+    expect(nextCronOccurrence("0 9 1 * *", utc("2026-10-19T00:00:00"))).toEqual(
+      utc("2026-11-01T09:00:00"),
+    );
+    expect(nextCronOccurrence("0 0 1 1 *", utc("2026-10-19T00:00:00"))).toEqual(
+      utc("2027-01-01T00:00:00"),
+    );
+  });
+
+  it("matches either day-of-month or day-of-week when both are restricted", () => {
+    // The 1st of the month OR any Friday — Friday 2026-10-23 comes first.
+    expect(nextCronOccurrence("0 9 1 * 5", utc("2026-10-19T00:00:00"))).toEqual(
+      utc("2026-10-23T09:00:00"),
+    );
+  });
+
+  it("skips months that don't have the requested day", () => {
+    expect(nextCronOccurrence("0 9 31 * *", utc("2026-10-31T10:00:00"))).toEqual(
+      utc("2026-12-31T09:00:00"),
+    );
+  });
+
+  it("returns null for rules that never fire", () => {
+    expect(nextCronOccurrence("0 0 31 2 *", utc("2026-10-19T00:00:00"))).toBeNull();
+  });
+
+  it("returns null for invalid rules", () => {
+    expect(nextCronOccurrence("not a rule", utc("2026-10-19T00:00:00"))).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+// -----------------------------------------------------------------------------
+// @file: lib/__tests__/image-diff.test.ts
+// @purpose: Unit tests for the revision compare pixel-difference heatmap
+// -----------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import { canDiff, computeDiffHeatmap, heatColor } from "../image-diff";
+
+function pixels(...rgba: number[][]): Uint8ClampedArray {
+  return new Uint8ClampedArray(rgba.flat());
+}
+
+describe("canDiff", () => {
+  it("requires identical, non-empty sizes", () => {
+    expect(canDiff({ width: 1080, height: 1080 }, { width: 1080, height: 1080 })).toBe(true);
+    expect(canDiff({ width: 1080, height: 1080 }, { width: 1200, height: 628 })).toBe(false);
+    expect(canDiff({ width: 0, height: 0 }, { width: 0, height: 0 })).toBe(false);
+  });
+});
+
+describe("heatColor", () => {
+  it("runs from yellow to red and clamps its input", () => {
+    expect(heatColor(0)).toEqual([255, 220, 0]);
+    expect(heatColor(1)).toEqual([255, 0, 0]);
+    expect(heatColor(5)).toEqual([255, 0, 0]);
+  });
+});
+
+describe("computeDiffHeatmap", () => {
+  it("reports no change for identical frames", () => {
+    const frame = pixels([10, 20, 30, 255], [200, 200, 200, 255]);
+    const result = computeDiffHeatmap(frame, frame, 2, 1);
+    expect(result.changedPixels).toBe(0);
+    expect(result.changedRatio).toBe(0);
+  });
+
+  it("paints changed pixels and fades the unchanged ones", () => {
+    const before = pixels([0, 0, 0, 255], [100, 100, 100, 255]);
+    const after = pixels([255, 255, 255, 255], [105, 100, 100, 255]);
+    const result = computeDiffHeatmap(before, after, 2, 1);
+
+    expect(result.changedPixels).toBe(1);
+    expect(result.changedRatio).toBe(0.5);
+    expect(Array.from(result.data.slice(0, 4))).toEqual([255, 0, 0, 255]);
+    // Below the threshold: greyscale of "after" at reduced opacity.
+    expect(result.data[7]).toBeLessThan(255);
+    expect(result.data[4]).toBe(result.data[5]);
+  });
+
+  it("honours a custom threshold", () => {
+    const before = pixels([100, 100, 100, 255]);
+    const after = pixels([120, 100, 100, 255]);
+    expect(computeDiffHeatmap(before, after, 1, 1, 0.05).changedPixels).toBe(1);
+    expect(computeDiffHeatmap(before, after, 1, 1, 0.1).changedPixels).toBe(0);
+  });
+
+  it("rejects buffers that don't match the size", () => {
+    expect(() => computeDiffHeatmap(pixels([0, 0, 0, 0]), pixels([0, 0, 0, 0]), 2, 1)).toThrow();
+  });
+});
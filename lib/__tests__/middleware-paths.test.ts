@@ -14,6 +14,8 @@ import { describe, it, expect } from "vitest";
 //     without a session cookie.
 //   - /api/cron: Vercel Cron invocations have no session cookie; the
 //     route handlers enforce their own CRON_SECRET Bearer auth.
+//   - /review and /api/review: guest review links; the token in the URL is
+//     checked inside each route, and guests have no session cookie.
 const PUBLIC_PATHS = [
   "/",
   "/login",
@@ -44,6 +46,8 @@ const PUBLIC_PATHS = [
   "/terms",
   "/cookies",
   "/accessibility",
+  "/review",
+  "/api/review",
 ];
 
 const DEMO_ONLY_PATHS = ["/api/debug", "/debug"];
@@ -232,6 +236,29 @@ describe("isPublicPath", () => {
       expect(isPublicPath(publicApi)).toBe(true);
     });
   }
+
+  // -------------------------------------------------------------------------
+  // Guest review links — guests open them without an account, so both the
+  // page and its API must be public. The prefix must not leak to lookalike
+  // paths.
+  // -------------------------------------------------------------------------
+  const reviewToken = "a".repeat(43);
+  for (const reviewPath of [
+    `/review/${reviewToken}`,
+    `/api/review/${reviewToken}`,
+    `/api/review/${reviewToken}/unlock`,
+    `/api/review/${reviewToken}/feedback`,
+  ]) {
+    it(`marks ${reviewPath} as public`, () => {
+      expect(isPublicPath(reviewPath)).toBe(true);
+    });
+  }
+
+  for (const lookalike of ["/reviews", "/reviewer/x", "/api/reviewer", "/api/reviews/1"]) {
+    it(`keeps ${lookalike} protected`, () => {
+      expect(isPublicPath(lookalike)).toBe(false);
+    });
+  }
 });
 
 // ---------------------------------------------------------------------------
@@ -24,6 +24,9 @@ const { mockPrisma, mockSendEmail, mockBuildHtml, mockGetSubject } = vi.hoisted(
     userAccount: {
       findUnique: vi.fn().mockResolvedValue(null),
     },
+    ticketWatcher: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
   },
   mockSendEmail: vi.fn().mockResolvedValue(undefined),
   mockBuildHtml: vi.fn().mockReturnValue("<html>test</html>"),
@@ -51,6 +54,8 @@ import {
   markAllAsRead,
   getUserPreferences,
   setUserPreference,
+  mergeTicketRecipients,
+  notifyTicketWatchers,
 } from "@/lib/notifications";
 
 // ---------------------------------------------------------------------------
@@ -127,6 +132,63 @@ describe("createNotification", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Ticket watcher fan-out
+// ---------------------------------------------------------------------------
+
+describe("mergeTicketRecipients", () => {
+  it("puts direct recipients first and lists each user once", () => {
+    expect(mergeTicketRecipients(["creator", null], ["pm", "creator", "lead"], [])).toEqual([
+      "creator",
+      "pm",
+      "lead",
+    ]);
+  });
+
+  it("drops excluded users even when they are direct recipients", () => {
+    expect(mergeTicketRecipients(["creator"], ["pm", "actor"], ["actor", "creator"])).toEqual([
+      "pm",
+    ]);
+  });
+});
+
+describe("notifyTicketWatchers", () => {
+  it("notifies recipients and watchers, but not the actor", async () => {
+    mockPrisma.ticketWatcher.findMany.mockResolvedValueOnce([
+      { userId: "pm-1" },
+      { userId: "actor-1" },
+      { userId: "creator-1" },
+    ]);
+
+    await notifyTicketWatchers({
+      ticketId: "ticket-1",
+      recipientIds: ["creator-1"],
+      type: "TICKET_STATUS_CHANGED",
+      title: "Ticket status updated",
+      message: "moved",
+      actorId: "actor-1",
+    });
+
+    const notified = mockPrisma.notification.create.mock.calls.map(
+      (call: any[]) => call[0].data.userId,
+    );
+    expect(notified).toEqual(["creator-1", "pm-1"]);
+  });
+
+  it("swallows errors gracefully (fire-and-forget)", async () => {
+    mockPrisma.ticketWatcher.findMany.mockRejectedValueOnce(new Error("DB error"));
+
+    await expect(
+      notifyTicketWatchers({
+        ticketId: "ticket-1",
+        type: "TICKET_COMMENTED",
+        title: "New comment",
+        message: "hi",
+      }),
+    ).resolves.toBeUndefined();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // getUnreadCount
 // ---------------------------------------------------------------------------
@@ -194,7 +256,7 @@ describe("getUserPreferences", () => {
 
     const prefs = await getUserPreferences("user-1");
 
-    expect(prefs).toHaveLength(6); // All 6 notification types
+    expect(prefs).toHaveLength(13); // All 13 notification types
     prefs.forEach((p) => {
       expect(p.enabled).toBe(true);
       expect(p.emailEnabled).toBe(true);
@@ -0,0 +1,138 @@
+// -----------------------------------------------------------------------------
+// @file: lib/__tests__/pin-geometry.test.ts
+// @purpose: Unit tests for asset pin shapes — geometry validation and
+//           normalization, badge anchors, drag boxes and stroke thinning
+// -----------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_FREEHAND_POINTS,
+  boxFromDrag,
+  parsePinGeometry,
+  pinAnchor,
+  simplifyStroke,
+} from "../pin-geometry";
+
+describe("boxFromDrag", () => {
+  it("normalizes a drag in any direction to top-left + size", () => {
+    expect(boxFromDrag({ x: 0.6, y: 0.5 }, { x: 0.2, y: 0.1 })).toEqual({
+      x: 0.2,
+      y: 0.1,
+      w: 0.4,
+      h: 0.4,
+    });
+  });
+
+  it("clamps drags that leave the asset", () => {
+    expect(boxFromDrag({ x: 0.8, y: 0.8 }, { x: 1.3, y: -0.2 })).toEqual({
+      x: 0.8,
+      y: 0,
+      w: 0.2,
+      h: 0.8,
+    });
+  });
+});
+
+describe("simplifyStroke", () => {
+  it("drops points closer than the minimum distance but keeps both ends", () => {
+    const stroke: [number, number][] = [
+      [0.1, 0.1],
+      [0.1001, 0.1],
+      [0.2, 0.2],
+      [0.2001, 0.2],
+    ];
+    expect(simplifyStroke(stroke)).toEqual([
+      [0.1, 0.1],
+      [0.2, 0.2],
+      [0.2001, 0.2],
+    ]);
+  });
+
+  it("samples long strokes down to the point cap", () => {
+    const stroke = Array.from({ length: 2000 }, (_, i) => [i / 2000, 0.5] as [number, number]);
+    const out = simplifyStroke(stroke, 0);
+    expect(out).toHaveLength(MAX_FREEHAND_POINTS);
+    expect(out[0]).toEqual([0, 0.5]);
+    expect(out[out.length - 1]).toEqual([0.9995, 0.5]);
+  });
+});
+
+describe("parsePinGeometry", () => {
+  it("accepts point pins without geometry", () => {
+    expect(parsePinGeometry("POINT", undefined)).toEqual({ ok: true, geometry: null });
+    expect(parsePinGeometry("POINT", { x: 0, y: 0, w: 1, h: 1 }).ok).toBe(false);
+  });
+
+  it("requires a geometry for region shapes", () => {
+    expect(parsePinGeometry("RECT", null).ok).toBe(false);
+  });
+
+  it("validates and rounds rectangle bounds", () => {
+    expect(parsePinGeometry("ELLIPSE", { x: 0.123456, y: 0.2, w: 0.3, h: 0.4 })).toEqual({
+      ok: true,
+      geometry: { x: 0.1235, y: 0.2, w: 0.3, h: 0.4 },
+    });
+    expect(parsePinGeometry("RECT", { x: 0.5, y: 0.5, w: 0, h: 0.2 }).ok).toBe(false);
+    expect(parsePinGeometry("RECT", { x: 0.5, y: 0.5, w: 2, h: 0.2 }).ok).toBe(false);
+  });
+
+  it("clips a region that runs past the asset edge", () => {
+    expect(parsePinGeometry("RECT", { x: 0.8, y: 0.1, w: 0.5, h: 0.2 })).toEqual({
+      ok: true,
+      geometry: { x: 0.8, y: 0.1, w: 0.2, h: 0.2 },
+    });
+  });
+
+  it("rejects arrows with a single endpoint", () => {
+    expect(parsePinGeometry("ARROW", { x1: 0.3, y1: 0.3, x2: 0.3, y2: 0.3 }).ok).toBe(false);
+    expect(parsePinGeometry("ARROW", { x1: 0.1, y1: 0.2, x2: 0.3, y2: 0.4 }).ok).toBe(true);
+  });
+
+  it("validates freehand point pairs", () => {
+    expect(parsePinGeometry("FREEHAND", { points: [[0.1, 0.1]] }).ok).toBe(false);
+    expect(parsePinGeometry("FREEHAND", { points: [[0.1, 0.1], [0.2]] }).ok).toBe(false);
+    expect(
+      parsePinGeometry("FREEHAND", {
+        points: [
+          [0.1, 0.1],
+          [0.5, 1.5],
+        ],
+      }).ok,
+    ).toBe(false);
+    expect(
+      parsePinGeometry("FREEHAND", {
+        points: [
+          [0.1, 0.1],
+          [0.5, 0.5],
+        ],
+      }),
+    ).toEqual({
+      ok: true,
+      geometry: {
+        points: [
+          [0.1, 0.1],
+          [0.5, 0.5],
+        ],
+      },
+    });
+  });
+});
+
+describe("pinAnchor", () => {
+  it("anchors each shape's badge", () => {
+    expect(pinAnchor("RECT", { x: 0.2, y: 0.3, w: 0.1, h: 0.1 })).toEqual({ x: 0.2, y: 0.3 });
+    expect(pinAnchor("ARROW", { x1: 0.1, y1: 0.2, x2: 0.8, y2: 0.9 })).toEqual({
+      x: 0.1,
+      y: 0.2,
+    });
+    expect(
+      pinAnchor("FREEHAND", {
+        points: [
+          [0.4, 0.6],
+          [0.5, 0.5],
+        ],
+      }),
+    ).toEqual({ x: 0.4, y: 0.6 });
+    expect(pinAnchor("POINT", null)).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+// -----------------------------------------------------------------------------
+// @file: lib/__tests__/project-roles.test.ts
+// @purpose: Unit tests for project-level permission helpers
+// -----------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import {
+  normalizeProjectRole,
+  projectRoleFromCompanyRole,
+  resolveProjectRole,
+  canViewProject,
+  canCreateTicketsInProject,
+  canCommentInProject,
+  canManageProjectMembers,
+} from "@/lib/permissions/projectRoles";
+
+// ---------------------------------------------------------------------------
+// normalizeProjectRole
+// ---------------------------------------------------------------------------
+
+describe("normalizeProjectRole", () => {
+  it("returns valid roles unchanged", () => {
+    expect(normalizeProjectRole("OWNER")).toBe("OWNER");
+    expect(normalizeProjectRole("PM")).toBe("PM");
+    expect(normalizeProjectRole("CONTRIBUTOR")).toBe("CONTRIBUTOR");
+    expect(normalizeProjectRole("VIEWER")).toBe("VIEWER");
+  });
+
+  it("returns null for invalid values", () => {
+    expect(normalizeProjectRole("MEMBER")).toBeNull();
+    expect(normalizeProjectRole(null)).toBeNull();
+    expect(normalizeProjectRole(undefined)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// projectRoleFromCompanyRole
+// ---------------------------------------------------------------------------
+
+describe("projectRoleFromCompanyRole", () => {
+  it("maps company roles to their implied project role", () => {
+    expect(projectRoleFromCompanyRole("OWNER")).toBe("OWNER");
+    expect(projectRoleFromCompanyRole("PM")).toBe("PM");
+    expect(projectRoleFromCompanyRole("MEMBER")).toBe("CONTRIBUTOR");
+    expect(projectRoleFromCompanyRole("BILLING")).toBe("VIEWER");
+    expect(projectRoleFromCompanyRole(null)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveProjectRole
+// ---------------------------------------------------------------------------
+
+describe("resolveProjectRole", () => {
+  it("gives company OWNER / PM access to every project", () => {
+    expect(
+      resolveProjectRole({ companyRole: "OWNER", membershipRole: null, projectHasMembers: true }),
+    ).toBe("OWNER");
+    expect(
+      resolveProjectRole({ companyRole: "PM", membershipRole: "VIEWER", projectHasMembers: true }),
+    ).toBe("PM");
+  });
+
+  it("treats projects without members as open to the company", () => {
+    expect(
+      resolveProjectRole({ companyRole: "MEMBER", membershipRole: null, projectHasMembers: false }),
+    ).toBe("CONTRIBUTOR");
+    expect(
+      resolveProjectRole({
+        companyRole: "BILLING",
+        membershipRole: null,
+        projectHasMembers: false,
+      }),
+    ).toBe("VIEWER");
+  });
+
+  it("hides restricted projects from non-members", () => {
+    expect(
+      resolveProjectRole({ companyRole: "MEMBER", membershipRole: null, projectHasMembers: true }),
+    ).toBeNull();
+  });
+
+  it("uses the membership role on restricted projects", () => {
+    expect(
+      resolveProjectRole({
+        companyRole: "MEMBER",
+        membershipRole: "VIEWER",
+        projectHasMembers: true,
+      }),
+    ).toBe("VIEWER");
+    expect(
+      resolveProjectRole({ companyRole: "MEMBER", membershipRole: "PM", projectHasMembers: true }),
+    ).toBe("PM");
+  });
+
+  it("caps BILLING at VIEWER even when listed with a higher role", () => {
+    expect(
+      resolveProjectRole({
+        companyRole: "BILLING",
+        membershipRole: "CONTRIBUTOR",
+        projectHasMembers: true,
+      }),
+    ).toBe("VIEWER");
+  });
+
+  it("returns null without a company role", () => {
+    expect(
+      resolveProjectRole({ companyRole: null, membershipRole: "OWNER", projectHasMembers: true }),
+    ).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Capability helpers
+// ---------------------------------------------------------------------------
+
+describe("project capability helpers", () => {
+  it("lets VIEWER read but not create or comment", () => {
+    expect(canViewProject("VIEWER")).toBe(true);
+    expect(canCreateTicketsInProject("VIEWER")).toBe(false);
+    expect(canCommentInProject("VIEWER")).toBe(false);
+  });
+
+  it("lets CONTRIBUTOR create and comment but not manage members", () => {
+    expect(canCreateTicketsInProject("CONTRIBUTOR")).toBe(true);
+    expect(canCommentInProject("CONTRIBUTOR")).toBe(true);
+    expect(canManageProjectMembers("CONTRIBUTOR")).toBe(false);
+  });
+
+  it("lets project OWNER / PM manage members", () => {
+    expect(canManageProjectMembers("OWNER")).toBe(true);
+    expect(canManageProjectMembers("PM")).toBe(true);
+  });
+
+  it("denies everything without a role", () => {
+    expect(canViewProject(null)).toBe(false);
+    expect(canCreateTicketsInProject(undefined)).toBe(false);
+    expect(canManageProjectMembers(null)).toBe(false);
+  });
+});
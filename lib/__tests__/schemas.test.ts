@@ -4,6 +4,7 @@
 // -----------------------------------------------------------------------------
 
 import { describe, it, expect } from "vitest";
+import { customerBulkTicketsSchema } from "@/lib/schemas/bulk-tickets.schemas";
 import { createInviteSchema } from "@/lib/schemas/member.schemas";
 import { createTicketSchema } from "@/lib/schemas/ticket.schemas";
 
@@ -93,3 +94,61 @@ describe("createInviteSchema", () => {
     expect(result.success).toBe(false);
   });
 });
+
+// ---------------------------------------------------------------------------
+// customerBulkTicketsSchema
+// ---------------------------------------------------------------------------
+
+describe("customerBulkTicketsSchema", () => {
+  const ticketIds = ["t_1", "t_2"];
+
+  it("accepts each op with its payload", () => {
+    const payloads = [
+      { op: "project", projectId: "p_1" },
+      { op: "project", projectId: null },
+      { op: "priority", priority: "HIGH" },
+      { op: "addTags", tagIds: ["tag_1"] },
+      { op: "removeTags", tagIds: ["tag_1"] },
+      { op: "dueDate", dueDate: "2026-11-01" },
+      { op: "cancel" },
+    ];
+    for (const payload of payloads) {
+      expect(customerBulkTicketsSchema.safeParse({ ticketIds, ...payload }).success).toBe(true);
+    }
+  });
+
+  it("parses the due date and treats an empty value as clearing it", () => {
+    const set = customerBulkTicketsSchema.safeParse({
+      ticketIds,
+      op: "dueDate",
+      dueDate: "2026-11-01",
+    });
+    expect(set.success && set.data.op === "dueDate" && set.data.dueDate instanceof Date).toBe(true);
+
+    const cleared = customerBulkTicketsSchema.safeParse({ ticketIds, op: "dueDate", dueDate: "" });
+    expect(cleared.success && cleared.data.op === "dueDate" && cleared.data.dueDate).toBe(null);
+  });
+
+  it("rejects an invalid due date", () => {
+    const result = customerBulkTicketsSchema.safeParse({
+      ticketIds,
+      op: "dueDate",
+      dueDate: "soon",
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects admin-only ops and empty selections", () => {
+    expect(
+      customerBulkTicketsSchema.safeParse({ ticketIds, op: "status", status: "DONE" }).success,
+    ).toBe(false);
+    expect(customerBulkTicketsSchema.safeParse({ ticketIds: [], op: "cancel" }).success).toBe(
+      false,
+    );
+  });
+
+  it("requires at least one tag for tag ops", () => {
+    const result = customerBulkTicketsSchema.safeParse({ ticketIds, op: "addTags", tagIds: [] });
+    expect(result.success).toBe(false);
+  });
+});
@@ -45,6 +45,7 @@ const ACTION_SUBJECT_FRAGMENT: Record<AdminActionType, string> = {
   CONSULTATION_PRICING_EDIT: "changed consultation pricing",
   GOOGLE_OAUTH_CONFIG_EDIT: "changed the Google Calendar connection",
   COMPANY_AUTO_ASSIGN_EDIT: "changed a company's auto-assign setting",
+  COMPANY_CREATIVE_CLAIMS_EDIT: "changed whether creatives can claim a company's tickets",
   TALENT_APPLICATION_ACCEPTED: "accepted a talent application",
   TALENT_APPLICATION_DECLINED: "declined a talent application",
   TALENT_INTERVIEW_HELD: "marked a talent interview as held",
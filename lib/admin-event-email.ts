@@ -2,7 +2,8 @@
 // @file: lib/admin-event-email.ts
 // @purpose: Fan-out helper that emails every SITE_OWNER when meaningful
 //           system events happen — new feedback, new ticket, new company,
-//           new payment, new talent application, new withdrawal request.
+//           new payment, new talent application, new withdrawal request,
+//           a declined ticket no creative is left to take.
 //
 //           Distinct from lib/admin-action-email.ts which fires ON
 //           privileged ADMIN actions (the actor receives a receipt-style
@@ -98,6 +99,17 @@ export type AdminEvent =
       errorDetail: string | null;
       /** Where the failure was noticed — live request vs health-check cron. */
       detectedBy: string;
+    }
+  | {
+      kind: "TICKET_DECLINED_UNASSIGNED";
+      ticketId: string;
+      ticketCode: string;
+      title: string;
+      companyName: string;
+      declinedByEmail: string;
+      reason: string;
+      /** Why auto-assign couldn't re-route it, e.g. "no other eligible creative". */
+      unassignedBecause: string;
     };
 
 // ---------------------------------------------------------------------------
@@ -273,6 +285,17 @@ function render(event: AdminEvent): Rendered {
       ].join("");
       return { subject, html: shell("Google Calendar disconnected", body) };
     }
+
+    case "TICKET_DECLINED_UNASSIGNED": {
+      const subject = `[Brandbite] Declined ticket needs a creative: ${event.ticketCode}`;
+      const body = [
+        `<p style="font-size:13px;color:#424143;margin:0 0 6px;">${escapeHtml(event.declinedByEmail)} declined a <strong>${escapeHtml(event.companyName)}</strong> ticket and it could not be re-assigned (${escapeHtml(event.unassignedBecause)}).</p>`,
+        `<p style="font-size:14px;color:#1f2126;margin:8px 0 4px;font-weight:600;">${escapeHtml(event.ticketCode)} · ${escapeHtml(event.title)}</p>`,
+        `<p style="font-size:13px;color:#424143;white-space:pre-wrap;margin:6px 0;">${escapeHtml(event.reason)}</p>`,
+        ctaButton(`${ADMIN_BASE}/admin/board?ticket=${event.ticketId}`, "Assign in admin board"),
+      ].join("");
+      return { subject, html: shell("Declined ticket unassigned", body) };
+    }
   }
 }
 
@@ -1,8 +1,9 @@
 // -----------------------------------------------------------------------------
 // @file: lib/app-settings.ts
 // @purpose: Read/write admin-configurable app settings (key-value store)
-// @version: v1.0.0
+// @version: v1.2.0
 // @status: active
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { prisma } from "@/lib/prisma";
@@ -15,6 +16,12 @@ const DEFAULTS: Record<string, string> = {
   AUTO_PAYOUT_ENABLED: "true",
   /** Minimum creative balance required for the cron to auto-create a request. */
   AUTO_PAYOUT_THRESHOLD_TOKENS: "100",
+  /** Hours after completion during which a company OWNER/PM can reopen a DONE
+   *  ticket for a free correction (lib/tickets/reopen.ts). 0 disables reopen. */
+  TICKET_REOPEN_WINDOW_HOURS: "48",
+  /** Days after completion before a DONE ticket shows in the customer
+   *  archive (lib/tickets/archive.ts). CANCELED tickets are always there. */
+  TICKET_ARCHIVE_AFTER_DAYS: "90",
 };
 
 /**
@@ -53,6 +53,30 @@ export const PRIORITY_LABELS: Record<TicketPriority, string> = {
 export const formatPriorityLabel = (priority: TicketPriority): string =>
   PRIORITY_LABELS[priority] ?? priority;
 
+// ---------------------------------------------------------------------------
+// Backlog order (TODO column)
+// ---------------------------------------------------------------------------
+
+export type BacklogSortable = {
+  backlogRank?: number | null;
+  priority: TicketPriority;
+  createdAt: string | Date;
+};
+
+/**
+ * Order of the TODO backlog: ranked tickets first (rank 1 on top), then
+ * unranked ones by priority and age. Mirrors BACKLOG_ORDER_BY in
+ * lib/tickets/backlog.ts so the boards and the server agree.
+ */
+export const compareBacklog = (a: BacklogSortable, b: BacklogSortable): number => {
+  const rankA = a.backlogRank ?? Number.POSITIVE_INFINITY;
+  const rankB = b.backlogRank ?? Number.POSITIVE_INFINITY;
+  if (rankA !== rankB) return rankA < rankB ? -1 : 1;
+  const priorityDiff = PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority);
+  if (priorityDiff !== 0) return priorityDiff;
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+};
+
 // ---------------------------------------------------------------------------
 // Badge variant helpers (maps enum → shared Badge component variant)
 // ---------------------------------------------------------------------------
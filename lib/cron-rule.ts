@@ -0,0 +1,174 @@
+// -----------------------------------------------------------------------------
+// @file: lib/cron-rule.ts
+// @purpose: Minimal 5-field cron expression parser + "next occurrence"
+//           calculator (pure, UTC). Used by recurring ticket schedules.
+//
+// Supported syntax per field: `*`, numbers, ranges (`1-5`), lists (`1,15`)
+// and steps (`*/2`, `1-10/3`). Month and weekday names are not supported;
+// weekday 7 is accepted as an alias for Sunday (0). Like standard cron, when
+// both day-of-month and day-of-week are restricted a day matches if EITHER
+// does.
+// -----------------------------------------------------------------------------
+
+export type CronFields = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** False when the field was `*` — drives the day-of-month / day-of-week OR rule. */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+};
+
+export type ParseCronResult = { ok: true; fields: CronFields } | { ok: false; error: string };
+
+type FieldSpec = { name: string; min: number; max: number };
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+function parseField(raw: string, spec: FieldSpec): Set<number> | string {
+  const values = new Set<number>();
+
+  for (const part of raw.split(",")) {
+    const [rangePart, stepPart, extra] = part.split("/");
+    if (extra !== undefined || rangePart === "") {
+      return `Invalid ${spec.name} "${part}".`;
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || Number(stepPart) < 1) {
+        return `Invalid step "${stepPart}" in ${spec.name}.`;
+      }
+      step = Number(stepPart);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (/^\d+-\d+$/.test(rangePart)) {
+      [start, end] = rangePart.split("-").map(Number);
+    } else if (/^\d+$/.test(rangePart)) {
+      start = Number(rangePart);
+      // "5/15" means "from 5 every 15", same as "5-max/15".
+      end = stepPart !== undefined ? spec.max : start;
+    } else {
+      return `Invalid ${spec.name} "${part}".`;
+    }
+
+    if (start < spec.min || end > spec.max || start > end) {
+      return `${spec.name[0].toUpperCase()}${spec.name.slice(1)} must be between ${spec.min} and ${spec.max}.`;
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/** Parse a 5-field cron expression ("minute hour day-of-month month day-of-week"). */
+export function parseCronRule(rule: string): ParseCronResult {
+  const parts = rule.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    return {
+      ok: false,
+      error: "Schedule must have 5 fields: minute hour day-of-month month day-of-week.",
+    };
+  }
+
+  const sets: Set<number>[] = [];
+  for (let i = 0; i < 5; i++) {
+    const parsed = parseField(parts[i], FIELD_SPECS[i]);
+    if (typeof parsed === "string") return { ok: false, error: parsed };
+    sets.push(parsed);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = sets;
+  // Normalize Sunday: 7 → 0.
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    ok: true,
+    fields: {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      domRestricted: parts[2] !== "*",
+      dowRestricted: parts[4] !== "*",
+    },
+  };
+}
+
+function dayMatches(fields: CronFields, d: Date): boolean {
+  const domMatch = fields.daysOfMonth.has(d.getUTCDate());
+  const dowMatch = fields.daysOfWeek.has(d.getUTCDay());
+  if (fields.domRestricted && fields.dowRestricted) return domMatch || dowMatch;
+  if (fields.domRestricted) return domMatch;
+  if (fields.dowRestricted) return dowMatch;
+  return true;
+}
+
+/** Give up after this many years without a match (e.g. "0 0 31 2 *"). */
+const SEARCH_HORIZON_YEARS = 5;
+
+/**
+ * First instant strictly after `after` matching the rule, in UTC, at minute
+ * precision. Returns null when the rule is invalid or never matches within
+ * the search horizon.
+ */
+export function nextCronOccurrence(rule: string | CronFields, after: Date): Date | null {
+  let fields: CronFields;
+  if (typeof rule === "string") {
+    const parsed = parseCronRule(rule);
+    if (!parsed.ok) return null;
+    fields = parsed.fields;
+  } else {
+    fields = rule;
+  }
+
+  const d = new Date(after.getTime());
+  d.setUTCSeconds(0, 0);
+  d.setUTCMinutes(d.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + SEARCH_HORIZON_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  // Coarse-to-fine skipping keeps this to a few hundred iterations even for
+  // sparse rules like "0 9 1 1 *".
+  while (d.getTime() <= limit) {
+    if (!fields.months.has(d.getUTCMonth() + 1)) {
+      d.setUTCMonth(d.getUTCMonth() + 1, 1);
+      d.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(fields, d)) {
+      d.setUTCDate(d.getUTCDate() + 1);
+      d.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!fields.hours.has(d.getUTCHours())) {
+      d.setUTCHours(d.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!fields.minutes.has(d.getUTCMinutes())) {
+      d.setUTCMinutes(d.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d;
+  }
+
+  return null;
+}
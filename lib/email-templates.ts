@@ -31,6 +31,13 @@ const SUBJECT_MAP: Record<NotificationType, string> = {
   TICKET_ASSIGNED: "New ticket assigned to you",
   TICKET_STATUS_CHANGED: "Ticket status updated",
   PIN_RESOLVED: "Feedback note resolved",
+  TICKET_UNBLOCKED: "Ticket unblocked",
+  RECURRING_TICKET_SKIPPED: "Scheduled ticket skipped",
+  SLA_AT_RISK: "Ticket at risk of missing its SLA",
+  SLA_BREACHED: "Ticket missed its SLA",
+  MENTIONED: "You were mentioned in a comment",
+  TICKET_COMMENTED: "New comment on a ticket you watch",
+  APPROVAL_REQUESTED: "Your approval is needed",
 };
 
 export function getSubjectForType(type: NotificationType, title: string): string {
@@ -48,6 +55,11 @@ function getCTAUrl(
   ticketId: string | null,
   recipientRole: "customer" | "creative" | "admin",
 ): string {
+  // Skipped recurring runs have no ticket — link to the schedule list
+  if (type === "RECURRING_TICKET_SKIPPED" && recipientRole === "customer") {
+    return `${baseUrl}/customer/recurring-tickets`;
+  }
+
   // Customer-facing notifications link to the ticket detail
   if (ticketId && recipientRole === "customer") {
     return `${baseUrl}/customer/tickets/${ticketId}`;
@@ -74,6 +86,13 @@ const CTA_LABELS: Record<NotificationType, string> = {
   TICKET_ASSIGNED: "View Ticket",
   TICKET_STATUS_CHANGED: "View Ticket",
   PIN_RESOLVED: "View Ticket",
+  TICKET_UNBLOCKED: "View Ticket",
+  RECURRING_TICKET_SKIPPED: "View Schedules",
+  SLA_AT_RISK: "View Ticket",
+  SLA_BREACHED: "View Ticket",
+  MENTIONED: "View Comment",
+  TICKET_COMMENTED: "View Comment",
+  APPROVAL_REQUESTED: "Review & Approve",
 };
 
 // ---------------------------------------------------------------------------
@@ -87,6 +106,13 @@ const TYPE_EMOJI: Record<NotificationType, string> = {
   TICKET_ASSIGNED: "\u{1F4CB}",
   TICKET_STATUS_CHANGED: "\u{1F504}",
   PIN_RESOLVED: "\u{1F4CC}",
+  TICKET_UNBLOCKED: "\u{1F513}",
+  RECURRING_TICKET_SKIPPED: "\u{1F501}",
+  SLA_AT_RISK: "\u23F3",
+  SLA_BREACHED: "\u{1F6A8}",
+  MENTIONED: "\u{1F4E3}",
+  TICKET_COMMENTED: "\u{1F5E8}",
+  APPROVAL_REQUESTED: "\u{1F58B}",
 };
 
 // ---------------------------------------------------------------------------
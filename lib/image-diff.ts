@@ -0,0 +1,86 @@
+// -----------------------------------------------------------------------------
+// @file: lib/image-diff.ts
+// @purpose: Pixel-difference heatmap for the revision compare view. Works on
+//           raw RGBA buffers (canvas ImageData) so it stays pure and testable;
+//           the component owns loading images / PDF pages into canvases.
+// -----------------------------------------------------------------------------
+
+/** Channel delta (0..1) at or below which a pixel counts as unchanged. */
+export const DEFAULT_DIFF_THRESHOLD = 0.1;
+
+/** Opacity of the faded "after" image shown behind the heatmap. */
+const CONTEXT_ALPHA = 0.25;
+
+export type DiffHeatmap = {
+  /** RGBA pixels, same size as the inputs, ready for `new ImageData(...)`. */
+  data: Uint8ClampedArray;
+  changedPixels: number;
+  /** changedPixels / total pixels, 0..1. */
+  changedRatio: number;
+};
+
+/** Two frames can be diffed only when their pixel sizes match exactly. */
+export function canDiff(
+  a: { width: number; height: number },
+  b: { width: number; height: number },
+): boolean {
+  return a.width > 0 && a.height > 0 && a.width === b.width && a.height === b.height;
+}
+
+/**
+ * Heat colour for a change intensity in 0..1 — yellow for small changes
+ * through orange to red for the largest.
+ */
+export function heatColor(t: number): [number, number, number] {
+  const k = Math.max(0, Math.min(1, t));
+  return [255, Math.round(220 * (1 - k)), 0];
+}
+
+/**
+ * Compare two same-size RGBA buffers. Each pixel's delta is its largest
+ * channel difference; pixels above `threshold` are painted with heatColor,
+ * the rest show a faded greyscale of `after` so the change has context.
+ */
+export function computeDiffHeatmap(
+  before: Uint8ClampedArray,
+  after: Uint8ClampedArray,
+  width: number,
+  height: number,
+  threshold = DEFAULT_DIFF_THRESHOLD,
+): DiffHeatmap {
+  const length = width * height * 4;
+  if (before.length !== length || after.length !== length) {
+    throw new Error("computeDiffHeatmap: buffers do not match the given size");
+  }
+
+  const data = new Uint8ClampedArray(length);
+  let changedPixels = 0;
+
+  for (let i = 0; i < length; i += 4) {
+    const delta =
+      Math.max(
+        Math.abs(before[i] - after[i]),
+        Math.abs(before[i + 1] - after[i + 1]),
+        Math.abs(before[i + 2] - after[i + 2]),
+        Math.abs(before[i + 3] - after[i + 3]),
+      ) / 255;
+
+    if (delta > threshold) {
+      changedPixels++;
+      const [r, g, b] = heatColor((delta - threshold) / (1 - threshold || 1));
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      data[i + 3] = 255;
+    } else {
+      const grey = Math.round(0.299 * after[i] + 0.587 * after[i + 1] + 0.114 * after[i + 2]);
+      data[i] = grey;
+      data[i + 1] = grey;
+      data[i + 2] = grey;
+      data[i + 3] = Math.round(after[i + 3] * CONTEXT_ALPHA);
+    }
+  }
+
+  const total = width * height;
+  return { data, changedPixels, changedRatio: total === 0 ? 0 : changedPixels / total };
+}
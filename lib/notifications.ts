@@ -1,7 +1,8 @@
 // -----------------------------------------------------------------------------
 // @file: lib/notifications.ts
 // @purpose: Helper functions for creating, querying, and managing in-app
-//           notifications with user preference support + email notifications
+//           notifications with user preference support + email notifications,
+//           plus the per-ticket fan-out to watchers
 // -----------------------------------------------------------------------------
 
 import { prisma } from "@/lib/prisma";
@@ -20,6 +21,13 @@ const ALL_TYPES: NotificationType[] = [
   "TICKET_ASSIGNED",
   "TICKET_STATUS_CHANGED",
   "PIN_RESOLVED",
+  "TICKET_UNBLOCKED",
+  "RECURRING_TICKET_SKIPPED",
+  "SLA_AT_RISK",
+  "SLA_BREACHED",
+  "MENTIONED",
+  "TICKET_COMMENTED",
+  "APPROVAL_REQUESTED",
 ];
 
 // ---------------------------------------------------------------------------
@@ -82,6 +90,76 @@ export async function createNotification(input: CreateNotificationInput): Promis
   }
 }
 
+// ---------------------------------------------------------------------------
+// Ticket fan-out (direct recipients + watchers)
+// ---------------------------------------------------------------------------
+
+type TicketNotificationInput = Omit<CreateNotificationInput, "userId" | "ticketId"> & {
+  ticketId: string;
+  /** Notified whether or not they watch (creator, assigned creative, …). */
+  recipientIds?: (string | null | undefined)[];
+  /** Left out even if they watch — e.g. users already sent a MENTIONED. */
+  excludeUserIds?: string[];
+  /** Skip customer watchers — for internal notes. */
+  staffOnly?: boolean;
+};
+
+/**
+ * Who a ticket notification goes to: the direct recipients followed by the
+ * watchers, each user once, never the excluded users.
+ */
+export function mergeTicketRecipients(
+  recipientIds: (string | null | undefined)[],
+  watcherIds: string[],
+  excludeUserIds: string[],
+): string[] {
+  const excluded = new Set(excludeUserIds);
+  const result = new Set<string>();
+  for (const id of [...recipientIds, ...watcherIds]) {
+    if (id && !excluded.has(id)) result.add(id);
+  }
+  return [...result];
+}
+
+/**
+ * Sends a ticket notification to its direct recipients plus everyone
+ * watching the ticket. The actor never hears about their own action.
+ * Each recipient goes through createNotification(), so preferences apply.
+ * Fire-and-forget like createNotification() — errors are swallowed.
+ */
+export async function notifyTicketWatchers(input: TicketNotificationInput): Promise<void> {
+  try {
+    const watchers = await prisma.ticketWatcher.findMany({
+      where: {
+        ticketId: input.ticketId,
+        user: { deletedAt: null, ...(input.staffOnly ? { role: { not: "CUSTOMER" } } : {}) },
+      },
+      select: { userId: true },
+    });
+
+    const userIds = mergeTicketRecipients(
+      input.recipientIds ?? [],
+      watchers.map((w) => w.userId),
+      [...(input.excludeUserIds ?? []), ...(input.actorId ? [input.actorId] : [])],
+    );
+
+    await Promise.all(
+      userIds.map((userId) =>
+        createNotification({
+          userId,
+          type: input.type,
+          title: input.title,
+          message: input.message,
+          ticketId: input.ticketId,
+          actorId: input.actorId,
+        }),
+      ),
+    );
+  } catch (err) {
+    console.error("[notifications] failed to notify ticket watchers", err);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Email sending helper (private)
 // ---------------------------------------------------------------------------
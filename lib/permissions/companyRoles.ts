@@ -1,9 +1,9 @@
 // -----------------------------------------------------------------------------
 // @file: lib/permissions/companyRoles.ts
 // @purpose: Permission helpers for company-level roles (OWNER / PM / BILLING / MEMBER)
-// @version: v1.3.0
+// @version: v1.4.0
 // @status: active
-// @lastUpdate: 2025-11-17
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import type { CompanyRole as PrismaCompanyRole } from "@prisma/client";
@@ -75,6 +75,14 @@ export function canManageTags(role: CompanyRole | null | undefined): boolean {
   return isCompanyAdminRole(role); // OWNER + PM
 }
 
+/**
+ * Who can manage custom field definitions for a company.
+ * OWNER + PM define fields; everyone who can edit tickets fills them in.
+ */
+export function canManageCustomFields(role: CompanyRole | null | undefined): boolean {
+  return isCompanyAdminRole(role); // OWNER + PM
+}
+
 /**
  * Who can manage projects (create/rename/delete) for a company.
  * OWNER + PM can manage projects.
@@ -0,0 +1,115 @@
+// -----------------------------------------------------------------------------
+// @file: lib/permissions/projectAccess.ts
+// @purpose: Server-side project access resolver — loads the current user's
+//           ProjectMember rows for their active company once per request and
+//           answers "what role do I have on this project / ticket?"
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import { prisma } from "@/lib/prisma";
+import type { SessionUser } from "@/lib/roles";
+
+import { normalizeCompanyRole, type CompanyRole } from "./companyRoles";
+import { projectRoleFromCompanyRole, resolveProjectRole, type ProjectRole } from "./projectRoles";
+
+export type ProjectAccess = {
+  companyId: string;
+  companyRole: CompanyRole | null;
+  /** True when the user sees every project (company OWNER / PM). */
+  seesAllProjects: boolean;
+  /** Effective role per visible project. Hidden projects are absent. */
+  rolesByProject: Map<string, ProjectRole>;
+  /**
+   * Effective role for a project id, or for tickets / moodboards without a
+   * project when `projectId` is null. Null means "no access".
+   */
+  roleFor: (projectId: string | null | undefined) => ProjectRole | null;
+  /**
+   * Prisma where-fragment restricting rows with a `projectId` column to the
+   * projects this user can see. Empty for users who see everything. Combine
+   * with AND — it uses OR internally.
+   */
+  projectScopeWhere: () => { OR?: { projectId: string | null | { in: string[] } }[] };
+};
+
+/**
+ * Build the project access map for `user` in their active company.
+ *
+ * One query per call: every project in the company, with the user's own
+ * membership row and a member count (to tell open projects from restricted
+ * ones). Call it once per request and reuse the result.
+ */
+export async function getProjectAccess(
+  user: Pick<SessionUser, "id" | "activeCompanyId" | "companyRole">,
+): Promise<ProjectAccess> {
+  const companyId = user.activeCompanyId ?? "";
+  const companyRole = normalizeCompanyRole(user.companyRole ?? null);
+  const seesAllProjects = companyRole === "OWNER" || companyRole === "PM";
+
+  const projects = companyId
+    ? await prisma.project.findMany({
+        where: { companyId },
+        select: {
+          id: true,
+          _count: { select: { members: true } },
+          members: { where: { userId: user.id }, select: { role: true }, take: 1 },
+        },
+      })
+    : [];
+
+  const rolesByProject = new Map<string, ProjectRole>();
+  for (const p of projects) {
+    const role = resolveProjectRole({
+      companyRole,
+      membershipRole: p.members[0]?.role ?? null,
+      projectHasMembers: p._count.members > 0,
+    });
+    if (role) rolesByProject.set(p.id, role);
+  }
+
+  const noProjectRole = projectRoleFromCompanyRole(companyRole);
+
+  return {
+    companyId,
+    companyRole,
+    seesAllProjects,
+    rolesByProject,
+    roleFor: (projectId) => (projectId ? (rolesByProject.get(projectId) ?? null) : noProjectRole),
+    projectScopeWhere: () => {
+      if (seesAllProjects) return {};
+      return {
+        OR: [{ projectId: null }, { projectId: { in: [...rolesByProject.keys()] } }],
+      };
+    },
+  };
+}
+
+/**
+ * Single-row variant for routes that act on one ticket / moodboard: the
+ * user's effective role on `projectId` (or the company-derived role when the
+ * row has no project). Cheaper than getProjectAccess() for one lookup.
+ */
+export async function getProjectRole(
+  user: Pick<SessionUser, "id" | "activeCompanyId" | "companyRole">,
+  projectId: string | null | undefined,
+): Promise<ProjectRole | null> {
+  const companyRole = normalizeCompanyRole(user.companyRole ?? null);
+  if (!projectId) return projectRoleFromCompanyRole(companyRole);
+
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, companyId: user.activeCompanyId ?? "" },
+    select: {
+      _count: { select: { members: true } },
+      members: { where: { userId: user.id }, select: { role: true }, take: 1 },
+    },
+  });
+  if (!project) return null;
+
+  return resolveProjectRole({
+    companyRole,
+    membershipRole: project.members[0]?.role ?? null,
+    projectHasMembers: project._count.members > 0,
+  });
+}
@@ -0,0 +1,142 @@
+// -----------------------------------------------------------------------------
+// @file: lib/permissions/projectRoles.ts
+// @purpose: Permission helpers for project-level roles
+//           (OWNER / PM / CONTRIBUTOR / VIEWER) layered on top of CompanyRole
+// @version: v1.0.0
+// @status: active
+// @lastUpdate: 2026-10-19
+// -----------------------------------------------------------------------------
+
+import type { ProjectRole as PrismaProjectRole } from "@prisma/client";
+
+import type { CompanyRole } from "./companyRoles";
+
+/**
+ * Re-export Prisma ProjectRole as our canonical type for UI + API helpers.
+ *
+ * Values: "OWNER" | "PM" | "CONTRIBUTOR" | "VIEWER"
+ */
+export type ProjectRole = PrismaProjectRole;
+
+/**
+ * Best-effort normalization from any unknown value to a ProjectRole (or null).
+ */
+export function normalizeProjectRole(role: unknown): ProjectRole | null {
+  if (role === "OWNER" || role === "PM" || role === "CONTRIBUTOR" || role === "VIEWER") {
+    return role;
+  }
+  return null;
+}
+
+/**
+ * Project role a company role implies when no explicit ProjectMember row
+ * applies (tickets without a project, or "open" projects with no members).
+ *
+ * - OWNER → OWNER, PM → PM
+ * - MEMBER → CONTRIBUTOR
+ * - BILLING → VIEWER (billing stays read-only for tickets)
+ */
+export function projectRoleFromCompanyRole(
+  companyRole: CompanyRole | null | undefined,
+): ProjectRole | null {
+  switch (companyRole) {
+    case "OWNER":
+      return "OWNER";
+    case "PM":
+      return "PM";
+    case "MEMBER":
+      return "CONTRIBUTOR";
+    case "BILLING":
+      return "VIEWER";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolve the effective role a user has on one project.
+ *
+ * - Company OWNER / PM see and manage every project in the company.
+ * - A project with no ProjectMember rows is "open": every company member
+ *   gets the role their company role implies. This keeps projects created
+ *   before membership existed working unchanged.
+ * - Once a project has members it is restricted: only listed members get
+ *   in, with their ProjectMember.role. BILLING is capped at VIEWER even when
+ *   listed with a higher role.
+ *
+ * Returns null when the user has no access to the project at all.
+ */
+export function resolveProjectRole(input: {
+  companyRole: CompanyRole | null | undefined;
+  membershipRole: ProjectRole | null | undefined;
+  projectHasMembers: boolean;
+}): ProjectRole | null {
+  const { companyRole, membershipRole, projectHasMembers } = input;
+  if (!companyRole) return null;
+
+  if (companyRole === "OWNER" || companyRole === "PM") {
+    return projectRoleFromCompanyRole(companyRole);
+  }
+
+  if (!projectHasMembers) {
+    return projectRoleFromCompanyRole(companyRole);
+  }
+
+  if (!membershipRole) return null;
+
+  if (companyRole === "BILLING") return "VIEWER";
+  return membershipRole;
+}
+
+/**
+ * Project visibility: anyone with any role on the project.
+ */
+export function canViewProject(role: ProjectRole | null | undefined): boolean {
+  return !!role;
+}
+
+/**
+ * Who can create tickets inside a project: everyone except VIEWER.
+ */
+export function canCreateTicketsInProject(role: ProjectRole | null | undefined): boolean {
+  if (!role) return false;
+  return role === "OWNER" || role === "PM" || role === "CONTRIBUTOR";
+}
+
+/**
+ * Who can move a project's tickets on the board. Mirrors ticket creation.
+ */
+export function canMoveTicketsInProject(role: ProjectRole | null | undefined): boolean {
+  return canCreateTicketsInProject(role);
+}
+
+/**
+ * Who can edit a project's ticket fields. Mirrors ticket creation.
+ *
+ * NOTE: The API also enforces a status guard — only TODO tickets are editable.
+ */
+export function canEditTicketsInProject(role: ProjectRole | null | undefined): boolean {
+  return canCreateTicketsInProject(role);
+}
+
+/**
+ * Who can comment on a project's tickets. VIEWER is strictly read-only.
+ */
+export function canCommentInProject(role: ProjectRole | null | undefined): boolean {
+  return canCreateTicketsInProject(role);
+}
+
+/**
+ * Who can create and edit moodboards attached to a project.
+ */
+export function canManageMoodboardsInProject(role: ProjectRole | null | undefined): boolean {
+  return canCreateTicketsInProject(role);
+}
+
+/**
+ * Who can manage a project's member list: project OWNER + PM.
+ */
+export function canManageProjectMembers(role: ProjectRole | null | undefined): boolean {
+  if (!role) return false;
+  return role === "OWNER" || role === "PM";
+}
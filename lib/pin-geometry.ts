@@ -0,0 +1,187 @@
+// -----------------------------------------------------------------------------
+// @file: lib/pin-geometry.ts
+// @purpose: Shapes and normalized geometry for asset pin annotations — point
+//           pins, rectangles, ellipses, arrows and freehand strokes. Shared by
+//           the pins API (validation) and the lightbox overlay (drawing).
+// -----------------------------------------------------------------------------
+
+import type { AssetPinShape } from "@prisma/client";
+
+// ---------------------------------------------------------------------------
+// Geometry shapes (stored as JSON in AssetPin.geometry, all values 0..1)
+// ---------------------------------------------------------------------------
+
+/** RECT and ELLIPSE: the bounding box, top-left corner plus size. */
+export type BoxGeometry = { x: number; y: number; w: number; h: number };
+
+/** ARROW: from the tail (x1, y1) to the head (x2, y2). */
+export type ArrowGeometry = { x1: number; y1: number; x2: number; y2: number };
+
+/** FREEHAND: the stroke as an ordered list of [x, y] points. */
+export type FreehandGeometry = { points: [number, number][] };
+
+export type PinGeometry = BoxGeometry | ArrowGeometry | FreehandGeometry;
+
+export const PIN_SHAPES: AssetPinShape[] = ["POINT", "RECT", "ELLIPSE", "ARROW", "FREEHAND"];
+
+export const PIN_SHAPE_LABELS: Record<AssetPinShape, string> = {
+  POINT: "Pin",
+  RECT: "Rectangle",
+  ELLIPSE: "Ellipse",
+  ARROW: "Arrow",
+  FREEHAND: "Freehand",
+};
+
+/** Strokes longer than this are thinned before they are stored. */
+export const MAX_FREEHAND_POINTS = 500;
+
+/** Drags smaller than this (in either direction) count as a click. */
+export const MIN_REGION_SIZE = 0.01;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+
+/** Four decimals is well under a pixel on any realistic asset. */
+const round = (n: number) => Math.round(n * 10000) / 10000;
+
+const isUnit = (n: unknown): n is number =>
+  typeof n === "number" && Number.isFinite(n) && n >= 0 && n <= 1;
+
+/** Bounding box of a drag between two normalized points, in any direction. */
+export function boxFromDrag(
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+): BoxGeometry {
+  const x1 = clamp01(Math.min(from.x, to.x));
+  const y1 = clamp01(Math.min(from.y, to.y));
+  const x2 = clamp01(Math.max(from.x, to.x));
+  const y2 = clamp01(Math.max(from.y, to.y));
+  return { x: round(x1), y: round(y1), w: round(x2 - x1), h: round(y2 - y1) };
+}
+
+/**
+ * Thin a freehand stroke: drop points closer than `minDistance` to the last
+ * kept one (always keeping the final point), then evenly sample down to
+ * MAX_FREEHAND_POINTS.
+ */
+export function simplifyStroke(
+  points: [number, number][],
+  minDistance = 0.002,
+): [number, number][] {
+  if (points.length <= 2) return points.map(([x, y]) => [round(x), round(y)]);
+
+  const kept: [number, number][] = [points[0]];
+  for (let i = 1; i < points.length - 1; i++) {
+    const [px, py] = kept[kept.length - 1];
+    const [x, y] = points[i];
+    if (Math.hypot(x - px, y - py) >= minDistance) kept.push(points[i]);
+  }
+  kept.push(points[points.length - 1]);
+
+  let sampled = kept;
+  if (kept.length > MAX_FREEHAND_POINTS) {
+    const step = (kept.length - 1) / (MAX_FREEHAND_POINTS - 1);
+    sampled = Array.from({ length: MAX_FREEHAND_POINTS }, (_, i) => kept[Math.round(i * step)]);
+  }
+
+  return sampled.map(([x, y]) => [round(x), round(y)]);
+}
+
+/**
+ * Where a shape's number badge sits: the box's top-left corner, the arrow's
+ * tail (so the badge never hides what the arrow points at), or the stroke's
+ * first point.
+ */
+export function pinAnchor(
+  shape: AssetPinShape,
+  geometry: PinGeometry | null,
+): { x: number; y: number } | null {
+  if (!geometry) return null;
+  switch (shape) {
+    case "RECT":
+    case "ELLIPSE": {
+      const g = geometry as BoxGeometry;
+      return { x: g.x, y: g.y };
+    }
+    case "ARROW": {
+      const g = geometry as ArrowGeometry;
+      return { x: g.x1, y: g.y1 };
+    }
+    case "FREEHAND": {
+      const [first] = (geometry as FreehandGeometry).points;
+      return first ? { x: first[0], y: first[1] } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export type ParsePinGeometryResult =
+  | { ok: true; geometry: PinGeometry | null }
+  | { ok: false; error: string };
+
+/**
+ * Validate untrusted geometry for `shape` and return a normalized copy.
+ * POINT pins carry no geometry; every other shape requires it.
+ */
+export function parsePinGeometry(shape: AssetPinShape, raw: unknown): ParsePinGeometryResult {
+  if (shape === "POINT") {
+    return raw == null
+      ? { ok: true, geometry: null }
+      : { ok: false, error: "Point pins do not take a geometry." };
+  }
+
+  if (!raw || typeof raw !== "object") {
+    return { ok: false, error: `${PIN_SHAPE_LABELS[shape]} annotations need a geometry.` };
+  }
+  const g = raw as Record<string, unknown>;
+
+  switch (shape) {
+    case "RECT":
+    case "ELLIPSE": {
+      if (!isUnit(g.x) || !isUnit(g.y) || !isUnit(g.w) || !isUnit(g.h)) {
+        return { ok: false, error: "Region bounds must be between 0 and 1." };
+      }
+      if (g.w === 0 || g.h === 0) {
+        return { ok: false, error: "Regions must have a width and a height." };
+      }
+      return {
+        ok: true,
+        geometry: boxFromDrag({ x: g.x, y: g.y }, { x: g.x + g.w, y: g.y + g.h }),
+      };
+    }
+    case "ARROW": {
+      if (!isUnit(g.x1) || !isUnit(g.y1) || !isUnit(g.x2) || !isUnit(g.y2)) {
+        return { ok: false, error: "Arrow endpoints must be between 0 and 1." };
+      }
+      if (g.x1 === g.x2 && g.y1 === g.y2) {
+        return { ok: false, error: "Arrows need two distinct endpoints." };
+      }
+      return {
+        ok: true,
+        geometry: { x1: round(g.x1), y1: round(g.y1), x2: round(g.x2), y2: round(g.y2) },
+      };
+    }
+    case "FREEHAND": {
+      const points = g.points;
+      if (!Array.isArray(points) || points.length < 2) {
+        return { ok: false, error: "Freehand strokes need at least two points." };
+      }
+      if (
+        !points.every((p) => Array.isArray(p) && p.length === 2 && isUnit(p[0]) && isUnit(p[1]))
+      ) {
+        return { ok: false, error: "Freehand points must be [x, y] pairs between 0 and 1." };
+      }
+      return { ok: true, geometry: { points: simplifyStroke(points as [number, number][]) } };
+    }
+    default:
+      return { ok: false, error: "Unknown annotation shape." };
+  }
+}
@@ -15,6 +15,10 @@ export const ADMIN_SETTING_KEYS = [
   // AI ticket mode: "off" | "test" | "on". Default off — there's no working
   // AI generation API yet. "test" exposes the mode to site admins only.
   "AI_TICKETS_MODE",
+  // Hours a DONE ticket stays reopenable for a free correction (0 = off).
+  "TICKET_REOPEN_WINDOW_HOURS",
+  // Days before a completed ticket moves to the customer archive view.
+  "TICKET_ARCHIVE_AFTER_DAYS",
 ] as const;
 
 export type AdminSettingKey = (typeof ADMIN_SETTING_KEYS)[number];
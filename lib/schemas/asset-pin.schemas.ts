@@ -0,0 +1,16 @@
+// -----------------------------------------------------------------------------
+// @file: lib/schemas/asset-pin.schemas.ts
+// @purpose: Zod schemas for asset pin actions — the customer's check on a pin
+//           carried forward from the previous revision
+//           (/api/assets/[assetId]/pins/carry-over).
+// -----------------------------------------------------------------------------
+
+import { z } from "zod";
+
+/** FIXED resolves the carried pin; STILL_OPEN keeps it open on the new revision. */
+export const confirmCarriedPinSchema = z.object({
+  pinId: z.string().trim().min(1, "pinId is required."),
+  outcome: z.enum(["FIXED", "STILL_OPEN"]),
+});
+
+export type ConfirmCarriedPinInput = z.infer<typeof confirmCarriedPinSchema>;
@@ -1,9 +1,12 @@
 // -----------------------------------------------------------------------------
 // @file: lib/schemas/bulk-tickets.schemas.ts
-// @purpose: Zod schemas for POST /api/admin/tickets/bulk — multi-ticket
-//           admin operations (reassign creative, change status, change
-//           priority). A discriminated union on `op` keeps the payload
-//           tight at the edge and the handler branch-dense.
+// @purpose: Zod schemas for the bulk ticket endpoints:
+//             - POST /api/admin/tickets/bulk — reassign creative, change
+//               status, change priority
+//             - POST /api/customer/tickets/bulk — move project, change
+//               priority, add/remove tags, set due date, cancel
+//           A discriminated union on `op` keeps the payload tight at the
+//           edge and the handler branch-dense.
 // -----------------------------------------------------------------------------
 
 import { z } from "zod";
@@ -40,3 +43,68 @@ export const bulkTicketsSchema = z.discriminatedUnion("op", [
 ]);
 
 export type BulkTicketsInput = z.infer<typeof bulkTicketsSchema>;
+
+// ---------------------------------------------------------------------------
+// Customer bulk ops
+// ---------------------------------------------------------------------------
+
+const tagIdsSchema = z
+  .array(z.string().min(1))
+  .min(1, "Pick at least one tag.")
+  .max(5, "Pick up to 5 tags.");
+
+export const customerBulkProjectSchema = z.object({
+  op: z.literal("project"),
+  ticketIds: ticketIdsSchema,
+  /** null moves the tickets out of any project. */
+  projectId: z.string().min(1).nullable(),
+});
+
+export const customerBulkPrioritySchema = z.object({
+  op: z.literal("priority"),
+  ticketIds: ticketIdsSchema,
+  priority: z.nativeEnum(TicketPriority),
+});
+
+export const customerBulkAddTagsSchema = z.object({
+  op: z.literal("addTags"),
+  ticketIds: ticketIdsSchema,
+  tagIds: tagIdsSchema,
+});
+
+export const customerBulkRemoveTagsSchema = z.object({
+  op: z.literal("removeTags"),
+  ticketIds: ticketIdsSchema,
+  tagIds: tagIdsSchema,
+});
+
+export const customerBulkDueDateSchema = z.object({
+  op: z.literal("dueDate"),
+  ticketIds: ticketIdsSchema,
+  /** ISO date string; null / "" clears the due date. */
+  dueDate: z.preprocess(
+    (val) => {
+      if (val === null || val === undefined || val === "") return null;
+      if (typeof val !== "string") return "INVALID";
+      const d = new Date(val.trim());
+      return Number.isNaN(d.getTime()) ? "INVALID" : d;
+    },
+    z.date({ error: "Invalid due date" }).nullable(),
+  ),
+});
+
+export const customerBulkCancelSchema = z.object({
+  op: z.literal("cancel"),
+  ticketIds: ticketIdsSchema,
+});
+
+export const customerBulkTicketsSchema = z.discriminatedUnion("op", [
+  customerBulkProjectSchema,
+  customerBulkPrioritySchema,
+  customerBulkAddTagsSchema,
+  customerBulkRemoveTagsSchema,
+  customerBulkDueDateSchema,
+  customerBulkCancelSchema,
+]);
+
+export type CustomerBulkTicketsInput = z.infer<typeof customerBulkTicketsSchema>;
@@ -1,5 +1,9 @@
 import { z } from "zod";
 
+/**
+ * Ticket comment body. "@Name" mentions stay plain text here and are resolved
+ * server-side against the ticket's mentionable users (lib/tickets/mentions.ts).
+ */
 export const createCommentSchema = z.object({
   body: z
     .string()
@@ -9,3 +13,13 @@ export const createCommentSchema = z.object({
 });
 
 export type CreateCommentInput = z.infer<typeof createCommentSchema>;
+
+/**
+ * Comment posted by the creative. `isInternal` makes it an internal note,
+ * hidden from the customer.
+ */
+export const createStaffCommentSchema = createCommentSchema.extend({
+  isInternal: z.boolean().default(false),
+});
+
+export type CreateStaffCommentInput = z.infer<typeof createStaffCommentSchema>;
@@ -0,0 +1,65 @@
+// -----------------------------------------------------------------------------
+// @file: lib/schemas/custom-field.schemas.ts
+// @purpose: Zod schemas for company custom field definitions
+//           (/api/customer/custom-fields) and the per-ticket value map sent
+//           by the new-ticket form and the ticket page. Type-specific value
+//           rules are checked against the definitions in
+//           lib/tickets/custom-field-values.ts.
+// -----------------------------------------------------------------------------
+
+import { z } from "zod";
+import { CustomFieldType } from "@prisma/client";
+
+import { MAX_CUSTOM_FIELD_TEXT } from "@/lib/tickets/custom-field-values";
+
+const fieldLabelSchema = z
+  .string()
+  .trim()
+  .min(1, "Field label must be 1-60 characters.")
+  .max(60, "Field label must be 1-60 characters.");
+
+const fieldOptionsSchema = z
+  .array(z.string().trim().min(1).max(60))
+  .max(50, "A field can have at most 50 options.")
+  .transform((opts) => [...new Set(opts)]);
+
+const SELECT_TYPES: CustomFieldType[] = [CustomFieldType.SELECT, CustomFieldType.MULTI_SELECT];
+
+export const createCustomFieldSchema = z
+  .object({
+    label: fieldLabelSchema,
+    type: z.nativeEnum(CustomFieldType),
+    options: fieldOptionsSchema.optional().default([]),
+    required: z.boolean().optional().default(false),
+  })
+  .refine((d) => !SELECT_TYPES.includes(d.type) || d.options.length > 0, {
+    message: "Select fields need at least one option.",
+    path: ["options"],
+  })
+  .transform((d) => (SELECT_TYPES.includes(d.type) ? d : { ...d, options: [] }));
+
+// The type can't change after creation — existing values wouldn't fit it.
+export const updateCustomFieldSchema = z
+  .object({
+    label: fieldLabelSchema.optional(),
+    options: fieldOptionsSchema.optional(),
+    required: z.boolean().optional(),
+    position: z.number().int().min(0).max(1000).optional(),
+  })
+  .refine((d) => Object.values(d).some((v) => v !== undefined), {
+    message: "No fields to update.",
+  });
+
+/** `{ [fieldId]: value }` — a string, a list for multi-select, or null to clear. */
+export const customFieldValuesSchema = z.record(
+  z.string().min(1),
+  z.union([z.string().max(MAX_CUSTOM_FIELD_TEXT), z.array(z.string().max(60)).max(50), z.null()]),
+);
+
+export const ticketCustomFieldsUpdateSchema = z.object({
+  values: customFieldValuesSchema,
+});
+
+export type CreateCustomFieldInput = z.infer<typeof createCustomFieldSchema>;
+export type UpdateCustomFieldInput = z.infer<typeof updateCustomFieldSchema>;
+export type CustomFieldValuesInput = z.infer<typeof customFieldValuesSchema>;
@@ -0,0 +1,82 @@
+// -----------------------------------------------------------------------------
+// @file: lib/schemas/guest-review.schemas.ts
+// @purpose: Zod schemas for guest review links — sharing a revision
+//           (/api/customer/tickets/[ticketId]/guest-reviews), the guest's
+//           unlock and feedback posts (/api/review/[token]) and the company
+//           accepting or dismissing that feedback.
+// -----------------------------------------------------------------------------
+
+import { z } from "zod";
+
+/** Default validity when the sharer doesn't pick one. */
+export const GUEST_REVIEW_DEFAULT_DAYS = 7;
+
+/** Longest a link may stay open; a longer review needs a fresh link. */
+export const GUEST_REVIEW_MAX_DAYS = 30;
+
+/**
+ * Share a revision with a guest reviewer. Without `revisionVersion` the
+ * ticket's latest revision is shared; an empty password means no password.
+ */
+export const createGuestReviewLinkSchema = z.object({
+  revisionVersion: z.number().int().min(1).optional(),
+  label: z
+    .string()
+    .trim()
+    .max(60, "Label is too long (max 60 characters)")
+    .nullish()
+    .transform((v) => v || null),
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1, "Links must stay open for at least a day")
+    .max(GUEST_REVIEW_MAX_DAYS, `Links can stay open for at most ${GUEST_REVIEW_MAX_DAYS} days`)
+    .default(GUEST_REVIEW_DEFAULT_DAYS),
+  password: z
+    .string()
+    .max(100, "Password is too long")
+    .nullish()
+    .transform((v) => v || null)
+    .refine((v) => v === null || v.length >= 6, "Password must be at least 6 characters"),
+});
+
+export type CreateGuestReviewLinkInput = z.infer<typeof createGuestReviewLinkSchema>;
+
+/** Password entered on a protected review page. */
+export const unlockGuestReviewSchema = z.object({
+  password: z.string().min(1, "Password is required").max(100),
+});
+
+/**
+ * A guest's pin (assetId + x/y) or general comment (no assetId). Coordinates
+ * are normalized 0..1 like AssetPin.
+ */
+export const createGuestFeedbackSchema = z
+  .object({
+    guestName: z
+      .string()
+      .trim()
+      .min(1, "Please tell us your name")
+      .max(80, "Name is too long (max 80 characters)"),
+    message: z
+      .string()
+      .trim()
+      .min(1, "Feedback is required")
+      .max(2000, "Feedback is too long (max 2000 characters)"),
+    assetId: z.string().min(1).optional(),
+    x: z.number().min(0).max(1).optional(),
+    y: z.number().min(0).max(1).optional(),
+    page: z.number().int().min(1).default(1),
+  })
+  .refine((v) => !v.assetId || (v.x !== undefined && v.y !== undefined), {
+    message: "Pins need a position on the asset",
+    path: ["x"],
+  });
+
+export type CreateGuestFeedbackInput = z.infer<typeof createGuestFeedbackSchema>;
+
+/** Company member accepting or dismissing a piece of guest feedback. */
+export const reviewGuestFeedbackSchema = z.object({
+  feedbackId: z.string().min(1),
+  action: z.enum(["ACCEPT", "DISMISS"]),
+});
@@ -16,3 +16,9 @@ export * from "./payout-rule.schemas";
 export * from "./job-type-category.schemas";
 export * from "./talent-application.schemas";
 export * from "./ticket-update.schemas";
+export * from "./recurring-ticket.schemas";
+export * from "./ticket-template.schemas";
+export * from "./custom-field.schemas";
+export * from "./saved-view.schemas";
+export * from "./guest-review.schemas";
+export * from "./asset-pin.schemas";
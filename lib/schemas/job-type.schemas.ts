@@ -1,5 +1,27 @@
 import { z } from "zod";
 
+/** SLA target in business hours; null clears it. */
+const slaTargetHoursSchema = z.coerce
+  .number()
+  .int()
+  .positive("SLA targets must be a positive number of hours")
+  .max(2000, "SLA target is too long (max 2000 business hours).")
+  .nullable()
+  .optional()
+  .default(null);
+
+/**
+ * SLA targets for a job type: `default` applies to every priority without
+ * its own target. Saving replaces the job type's whole policy set.
+ */
+export const slaTargetsSchema = z.object({
+  default: slaTargetHoursSchema,
+  LOW: slaTargetHoursSchema,
+  MEDIUM: slaTargetHoursSchema,
+  HIGH: slaTargetHoursSchema,
+  URGENT: slaTargetHoursSchema,
+});
+
 export const createJobTypeSchema = z.object({
   name: z.string().trim().min(1, "Job type name is required"),
   category: z
@@ -40,6 +62,7 @@ export const createJobTypeSchema = z.object({
     .nullable()
     .optional()
     .default(null),
+  slaTargets: slaTargetsSchema.optional(),
 });
 
 export const updateJobTypeSchema = z.object({
@@ -80,7 +103,9 @@ export const updateJobTypeSchema = z.object({
     .transform((v) => (v === "" ? null : v))
     .nullable()
     .optional(),
+  slaTargets: slaTargetsSchema.optional(),
 });
 
+export type SlaTargetsInput = z.infer<typeof slaTargetsSchema>;
 export type CreateJobTypeInput = z.infer<typeof createJobTypeSchema>;
 export type UpdateJobTypeInput = z.infer<typeof updateJobTypeSchema>;
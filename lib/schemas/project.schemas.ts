@@ -36,3 +36,10 @@ export const updateProjectSchema = z.object({
 
 export type CreateProjectInput = z.infer<typeof createProjectSchema>;
 export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
+
+export const upsertProjectMemberSchema = z.object({
+  userId: z.string().trim().min(1, "userId is required."),
+  role: z.enum(["OWNER", "PM", "CONTRIBUTOR", "VIEWER"]).optional().default("CONTRIBUTOR"),
+});
+
+export type UpsertProjectMemberInput = z.infer<typeof upsertProjectMemberSchema>;
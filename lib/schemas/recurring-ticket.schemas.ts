@@ -0,0 +1,75 @@
+// -----------------------------------------------------------------------------
+// @file: lib/schemas/recurring-ticket.schemas.ts
+// @purpose: Zod schemas for customer recurring ticket schedules
+//           (/api/customer/recurring-tickets). The cron rule is validated
+//           with the same parser the scheduler uses.
+// -----------------------------------------------------------------------------
+
+import { z } from "zod";
+import { TicketPriority } from "@prisma/client";
+
+import { parseCronRule } from "@/lib/cron-rule";
+import { outputSpecEntrySchema } from "@/lib/schemas/ticket.schemas";
+
+const cronRuleSchema = z
+  .string()
+  .trim()
+  .min(1, "Schedule is required.")
+  .superRefine((rule, ctx) => {
+    const parsed = parseCronRule(rule);
+    if (!parsed.ok) ctx.addIssue({ code: "custom", message: parsed.error });
+  });
+
+export const createRecurringScheduleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required.").max(120),
+  cronRule: cronRuleSchema,
+  title: z.string().trim().min(1, "Ticket title is required.").max(200),
+  description: z
+    .string()
+    .trim()
+    .max(10000)
+    .optional()
+    .transform((v) => v || null),
+  projectId: z
+    .string()
+    .min(1)
+    .nullable()
+    .optional()
+    .transform((v) => v || null),
+  jobTypeId: z.string().trim().min(1, "Please select a job type."),
+  quantity: z.coerce.number().int().min(1).max(10).optional().default(1),
+  priority: z.nativeEnum(TicketPriority).optional().default(TicketPriority.MEDIUM),
+  dueInDays: z.coerce.number().int().min(1).max(365).nullable().optional().default(null),
+  tagIds: z.array(z.string().min(1)).max(5).optional().default([]),
+  outputSpecs: z.array(outputSpecEntrySchema).max(20).optional().default([]),
+  isActive: z.boolean().optional().default(true),
+});
+
+export const updateRecurringScheduleSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  cronRule: cronRuleSchema.optional(),
+  title: z.string().trim().min(1).max(200).optional(),
+  description: z
+    .string()
+    .trim()
+    .max(10000)
+    .nullable()
+    .optional()
+    .transform((v) => (v === undefined ? undefined : v || null)),
+  projectId: z
+    .string()
+    .min(1)
+    .nullable()
+    .optional()
+    .transform((v) => (v === undefined ? undefined : v || null)),
+  jobTypeId: z.string().trim().min(1).optional(),
+  quantity: z.coerce.number().int().min(1).max(10).optional(),
+  priority: z.nativeEnum(TicketPriority).optional(),
+  dueInDays: z.coerce.number().int().min(1).max(365).nullable().optional(),
+  tagIds: z.array(z.string().min(1)).max(5).optional(),
+  outputSpecs: z.array(outputSpecEntrySchema).max(20).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type CreateRecurringScheduleInput = z.infer<typeof createRecurringScheduleSchema>;
+export type UpdateRecurringScheduleInput = z.infer<typeof updateRecurringScheduleSchema>;
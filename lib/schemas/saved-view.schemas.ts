@@ -0,0 +1,69 @@
+// -----------------------------------------------------------------------------
+// @file: lib/schemas/saved-view.schemas.ts
+// @purpose: Zod schemas for saved ticket views (/api/customer/saved-views).
+//           The config is shape-checked here and then normalized per page by
+//           normalizeViewConfig in lib/tickets/saved-view-config.ts.
+// -----------------------------------------------------------------------------
+
+import { z } from "zod";
+import { SavedViewPage } from "@prisma/client";
+
+import {
+  MAX_VIEW_SEARCH,
+  VIEW_PRIORITIES,
+  VIEW_SORT_FIELDS,
+  VIEW_STATUSES,
+} from "@/lib/tickets/saved-view-config";
+
+const viewNameSchema = z
+  .string()
+  .trim()
+  .min(1, "View name must be 1-60 characters.")
+  .max(60, "View name must be 1-60 characters.");
+
+const idSchema = z.string().min(1).max(64);
+
+export const savedViewConfigSchema = z.object({
+  search: z.string().max(MAX_VIEW_SEARCH).optional(),
+  status: z.enum(VIEW_STATUSES).nullable().optional(),
+  projectId: idSchema.nullable().optional(),
+  priority: z.enum(VIEW_PRIORITIES).nullable().optional(),
+  tagId: idSchema.nullable().optional(),
+  customFields: z
+    .record(idSchema, z.string().max(MAX_VIEW_SEARCH))
+    .refine((m) => Object.keys(m).length <= 30, "Too many custom field filters.")
+    .optional(),
+  sortBy: z.enum(VIEW_SORT_FIELDS).optional(),
+  sortDir: z.enum(["asc", "desc"]).optional(),
+  groupBy: z.enum(["none", "status", "project", "priority"]).optional(),
+  hiddenColumns: z.array(z.string().max(40)).max(20).optional(),
+});
+
+export const createSavedViewSchema = z.object({
+  name: viewNameSchema,
+  page: z.nativeEnum(SavedViewPage),
+  shared: z.boolean().optional().default(false),
+  config: savedViewConfigSchema,
+});
+
+// The page can't change — a board view's columns don't fit the list.
+export const updateSavedViewSchema = z
+  .object({
+    name: viewNameSchema.optional(),
+    shared: z.boolean().optional(),
+    config: savedViewConfigSchema.optional(),
+  })
+  .refine((d) => Object.values(d).some((v) => v !== undefined), {
+    message: "No fields to update.",
+  });
+
+/** `viewId: null` clears the default so the page opens unfiltered. */
+export const setDefaultSavedViewSchema = z.object({
+  page: z.nativeEnum(SavedViewPage),
+  viewId: idSchema.nullable(),
+});
+
+export type SavedViewConfigInput = z.infer<typeof savedViewConfigSchema>;
+export type CreateSavedViewInput = z.infer<typeof createSavedViewSchema>;
+export type UpdateSavedViewInput = z.infer<typeof updateSavedViewSchema>;
+export type SetDefaultSavedViewInput = z.infer<typeof setDefaultSavedViewSchema>;
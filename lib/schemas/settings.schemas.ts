@@ -1,3 +1,4 @@
+import { ApprovalMode, AutoAssignStrategy } from "@prisma/client";
 import { z } from "zod";
 
 export const updateCustomerSettingsSchema = z.object({
@@ -20,3 +21,54 @@ export const updateCustomerSettingsSchema = z.object({
 });
 
 export type UpdateCustomerSettingsInput = z.infer<typeof updateCustomerSettingsSchema>;
+
+/** Auto-assign strategy, preferred creatives and per-project overrides
+ *  (/customer/settings). A null project strategy inherits the company's. */
+export const updateAutoAssignSettingsSchema = z.object({
+  strategy: z.nativeEnum(AutoAssignStrategy, { error: "Invalid strategy" }).optional(),
+  preferredCreativeIds: z
+    .array(z.string().trim().min(1))
+    .max(20, "You can nominate up to 20 preferred creatives.")
+    .optional(),
+  projects: z
+    .array(
+      z.object({
+        projectId: z.string().trim().min(1),
+        strategy: z.nativeEnum(AutoAssignStrategy, { error: "Invalid strategy" }).nullable(),
+      }),
+    )
+    .max(200)
+    .optional(),
+});
+
+export type UpdateAutoAssignSettingsInput = z.infer<typeof updateAutoAssignSettingsSchema>;
+
+/** Approval chain for the company (projectId null) or one project. An empty
+ *  approver list removes the policy. */
+export const updateApprovalPolicySchema = z
+  .object({
+    projectId: z.string().trim().min(1).nullable(),
+    mode: z.nativeEnum(ApprovalMode, { error: "Invalid approval mode" }),
+    minApprovals: z.coerce.number().int().min(1, "At least one approval is required."),
+    approvers: z
+      .array(
+        z.object({
+          userId: z.string().trim().min(1),
+          label: z
+            .string()
+            .trim()
+            .max(40, "Labels can be at most 40 characters.")
+            .nullish()
+            .transform((v) => v || null),
+        }),
+      )
+      .max(10, "An approval chain can have up to 10 approvers."),
+  })
+  .refine((d) => new Set(d.approvers.map((a) => a.userId)).size === d.approvers.length, {
+    message: "Each approver can only appear once.",
+  })
+  .refine((d) => d.approvers.length === 0 || d.minApprovals <= d.approvers.length, {
+    message: "Minimum approvals can't exceed the number of approvers.",
+  });
+
+export type UpdateApprovalPolicyInput = z.infer<typeof updateApprovalPolicySchema>;
@@ -0,0 +1,83 @@
+// -----------------------------------------------------------------------------
+// @file: lib/schemas/ticket-template.schemas.ts
+// @purpose: Zod schemas for company ticket templates
+//           (/api/customer/ticket-templates) and "save ticket as template".
+// -----------------------------------------------------------------------------
+
+import { z } from "zod";
+import { TicketPriority } from "@prisma/client";
+
+import { outputSpecEntrySchema } from "@/lib/schemas/ticket.schemas";
+
+const templateNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Template name must be 1-80 characters.")
+  .max(80, "Template name must be 1-80 characters.");
+
+export const createTicketTemplateSchema = z.object({
+  name: templateNameSchema,
+  titlePattern: z.string().trim().min(1, "Title is required.").max(200),
+  description: z
+    .string()
+    .trim()
+    .max(20000)
+    .optional()
+    .transform((v) => v || null),
+  projectId: z
+    .string()
+    .min(1)
+    .nullable()
+    .optional()
+    .transform((v) => v || null),
+  jobTypeId: z
+    .string()
+    .min(1)
+    .nullable()
+    .optional()
+    .transform((v) => v || null),
+  quantity: z.coerce.number().int().min(1).max(10).optional().default(1),
+  priority: z.nativeEnum(TicketPriority).optional().default(TicketPriority.MEDIUM),
+  tagIds: z.array(z.string().min(1)).max(5).optional().default([]),
+  outputSpecs: z.array(outputSpecEntrySchema).max(20).optional().default([]),
+});
+
+export const updateTicketTemplateSchema = z
+  .object({
+    name: templateNameSchema.optional(),
+    titlePattern: z.string().trim().min(1).max(200).optional(),
+    description: z
+      .string()
+      .trim()
+      .max(20000)
+      .nullable()
+      .optional()
+      .transform((v) => (v === undefined ? undefined : v || null)),
+    projectId: z
+      .string()
+      .min(1)
+      .nullable()
+      .optional()
+      .transform((v) => (v === undefined ? undefined : v || null)),
+    jobTypeId: z
+      .string()
+      .min(1)
+      .nullable()
+      .optional()
+      .transform((v) => (v === undefined ? undefined : v || null)),
+    quantity: z.coerce.number().int().min(1).max(10).optional(),
+    priority: z.nativeEnum(TicketPriority).optional(),
+    tagIds: z.array(z.string().min(1)).max(5).optional(),
+    outputSpecs: z.array(outputSpecEntrySchema).max(20).optional(),
+  })
+  .refine((d) => Object.values(d).some((v) => v !== undefined), {
+    message: "No fields to update.",
+  });
+
+export const saveTicketAsTemplateSchema = z.object({
+  name: templateNameSchema,
+});
+
+export type CreateTicketTemplateInput = z.infer<typeof createTicketTemplateSchema>;
+export type UpdateTicketTemplateInput = z.infer<typeof updateTicketTemplateSchema>;
+export type SaveTicketAsTemplateInput = z.infer<typeof saveTicketAsTemplateSchema>;
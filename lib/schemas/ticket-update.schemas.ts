@@ -62,5 +62,33 @@ export const updateTicketFieldsSchema = z
     { message: "No valid fields to update" },
   );
 
+// Correction reopen of a DONE ticket (POST /api/customer/tickets/[ticketId]/reopen)
+export const reopenTicketSchema = z.object({
+  message: z
+    .string()
+    .trim()
+    .min(1, "Please describe what needs correcting.")
+    .max(2000, "Correction note must be 2000 characters or fewer."),
+});
+
+// Backlog reorder (PATCH /api/customer/tickets/backlog). afterTicketId null
+// moves the ticket to the top of the company's To do backlog.
+export const reorderBacklogSchema = z.object({
+  ticketId: z.string().trim().min(1, "ticketId is required"),
+  afterTicketId: z.string().trim().min(1).nullable(),
+});
+
+// Creative hands back a TODO assignment (POST /api/creative/tickets/[ticketId]/decline)
+export const declineTicketSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, "Please tell us why you're declining this ticket.")
+    .max(1000, "Reason must be 1000 characters or fewer."),
+});
+
 export type UpdateTicketStatusInput = z.infer<typeof updateTicketStatusSchema>;
 export type UpdateTicketFieldsInput = z.infer<typeof updateTicketFieldsSchema>;
+export type ReopenTicketInput = z.infer<typeof reopenTicketSchema>;
+export type ReorderBacklogInput = z.infer<typeof reorderBacklogSchema>;
+export type DeclineTicketInput = z.infer<typeof declineTicketSchema>;
@@ -1,6 +1,14 @@
 import { z } from "zod";
 import { TicketPriority, TicketCreativeMode } from "@prisma/client";
 
+import { customFieldValuesSchema } from "@/lib/schemas/custom-field.schemas";
+
+/** One requested output size: a job type's OutputSizePreset and how many of it. */
+export const outputSpecEntrySchema = z.object({
+  presetId: z.string().trim().min(1),
+  quantity: z.coerce.number().int().min(1).max(50),
+});
+
 export const createTicketSchema = z.object({
   title: z.string().trim().min(1, "Title is required"),
   creativeMode: z.nativeEnum(TicketCreativeMode).optional().default("DESIGNER"),
@@ -59,6 +67,38 @@ export const createTicketSchema = z.object({
     .nullable()
     .optional()
     .transform((v) => v || null),
+  blockedByTicketIds: z.array(z.string().min(1)).max(20).optional().default([]),
+  outputSpecs: z.array(outputSpecEntrySchema).max(20).optional().default([]),
+  /** Company custom field values, keyed by field id. */
+  customFields: customFieldValuesSchema.optional().default({}),
+});
+
+export const ticketDependencySchema = z.object({
+  /** The other ticket in the link. */
+  ticketId: z.string().trim().min(1, "ticketId is required."),
+  /** BLOCKED_BY: the other ticket blocks this one. BLOCKS: this one blocks it. */
+  direction: z.enum(["BLOCKED_BY", "BLOCKS"]),
 });
 
+export type TicketDependencyInput = z.infer<typeof ticketDependencySchema>;
+
+/** An approver's decision on the ticket's latest revision. */
+export const approvalDecisionSchema = z
+  .object({
+    decision: z.enum(["APPROVED", "CHANGES_REQUESTED"]),
+    message: z
+      .string()
+      .trim()
+      .max(2000, "Message can be at most 2000 characters.")
+      .optional()
+      .transform((v) => v || null),
+  })
+  .refine((d) => d.decision === "APPROVED" || !!d.message, {
+    message: "Please tell the creative what needs to change.",
+    path: ["message"],
+  });
+
+export type ApprovalDecisionInput = z.infer<typeof approvalDecisionSchema>;
+
 export type CreateTicketInput = z.infer<typeof createTicketSchema>;
+export type OutputSpecEntry = z.infer<typeof outputSpecEntrySchema>;
@@ -0,0 +1,77 @@
+// -----------------------------------------------------------------------------
+// @file: lib/search/__tests__/query.test.ts
+// @purpose: Unit tests for search term parsing, tsquery building and
+//           highlighted snippets
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+
+import {
+  MAX_SEARCH_TERMS,
+  SEARCH_KINDS,
+  buildSnippet,
+  firstMatchingText,
+  parseSearchKinds,
+  parseSearchTerms,
+  toPlainText,
+  toPrefixTsQuery,
+} from "../query";
+
+describe("parseSearchTerms / toPrefixTsQuery", () => {
+  it("keeps only lowercase letter and digit runs, deduped", () => {
+    expect(parseSearchTerms("  Logo REV logo  ")).toEqual(["logo", "rev"]);
+    expect(parseSearchTerms("Çağrı café 2026")).toEqual(["çağrı", "café", "2026"]);
+  });
+
+  it("strips tsquery operators so input can't change the query", () => {
+    const terms = parseSearchTerms("banner & !(draft | old):*");
+    expect(terms).toEqual(["banner", "draft", "old"]);
+    expect(toPrefixTsQuery(terms)).toBe("banner:* & draft:* & old:*");
+  });
+
+  it("caps the number of terms and returns null for nothing searchable", () => {
+    expect(parseSearchTerms("a b c d e f g h i j")).toHaveLength(MAX_SEARCH_TERMS);
+    expect(toPrefixTsQuery(parseSearchTerms(" -- !! "))).toBeNull();
+  });
+});
+
+describe("parseSearchKinds", () => {
+  it("parses a comma list case-insensitively and ignores unknown kinds", () => {
+    expect(parseSearchKinds("comment, asset,bogus,comment")).toEqual(["COMMENT", "ASSET"]);
+  });
+
+  it("falls back to every kind", () => {
+    expect(parseSearchKinds(null)).toEqual([...SEARCH_KINDS]);
+    expect(parseSearchKinds("nope")).toEqual([...SEARCH_KINDS]);
+  });
+});
+
+describe("snippets", () => {
+  it("turns rich text into plain text", () => {
+    expect(toPlainText("<p>Hero &amp; <b>banner</b></p>\n<p>v2</p>")).toBe("Hero & banner v2");
+  });
+
+  it("marks every word that starts with a term", () => {
+    expect(buildSnippet("New logo for the Logotype refresh", ["logo"])).toEqual([
+      { text: "New ", match: false },
+      { text: "logo", match: true },
+      { text: " for the ", match: false },
+      { text: "Logotype", match: true },
+      { text: " refresh", match: false },
+    ]);
+  });
+
+  it("windows long text around the first hit with ellipses", () => {
+    const text = `${"intro ".repeat(60)}the banner copy ${"outro ".repeat(60)}`;
+    const segments = buildSnippet(text, ["banner"], 80);
+    expect(segments[0].text.startsWith("…")).toBe(true);
+    expect(segments.at(-1)?.text.endsWith("…")).toBe(true);
+    expect(segments.filter((s) => s.match).map((s) => s.text)).toEqual(["banner"]);
+    expect(segments.map((s) => s.text).join("").length).toBeLessThanOrEqual(82);
+  });
+
+  it("picks the first candidate text that contains a hit", () => {
+    expect(firstMatchingText(["<p>Brief about colors</p>", "Banner"], ["bann"])).toBe("Banner");
+    expect(firstMatchingText([null, "", "Title only"], ["zzz"])).toBe("Title only");
+  });
+});
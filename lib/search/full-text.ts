@@ -0,0 +1,300 @@
+// -----------------------------------------------------------------------------
+// @file: lib/search/full-text.ts
+// @purpose: Postgres full-text search over tickets, comments, revision
+//           messages, pin comments and asset file names. Queries the
+//           generated `searchVector` columns (full_text_search migration)
+//           with raw SQL, scoped per caller: a customer's company (minus
+//           restricted projects and internal notes), a creative's assigned
+//           tickets, or everything for site admins. Results are ranked and
+//           carry highlighted snippets built by ./query.ts.
+// -----------------------------------------------------------------------------
+
+import { Prisma, type TicketStatus } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { isSiteAdminRole, type SessionUser } from "@/lib/roles";
+import { getProjectAccess } from "@/lib/permissions/projectAccess";
+import { buildTicketCode } from "@/lib/ticket-code";
+import {
+  type SearchKind,
+  type SnippetSegment,
+  buildSnippet,
+  firstMatchingText,
+  toPrefixTsQuery,
+} from "@/lib/search/query";
+
+// ---------------------------------------------------------------------------
+// Scope
+// ---------------------------------------------------------------------------
+
+export type SearchScope =
+  | { kind: "ADMIN" }
+  /** `projectIds` null = every project (OWNER / PM). */
+  | { kind: "CUSTOMER"; companyId: string; projectIds: string[] | null }
+  | { kind: "CREATIVE"; creativeId: string };
+
+/** The caller's search scope, or null when they can't search at all. */
+export async function resolveSearchScope(user: SessionUser): Promise<SearchScope | null> {
+  if (isSiteAdminRole(user.role)) return { kind: "ADMIN" };
+  if (user.role === "DESIGNER") return { kind: "CREATIVE", creativeId: user.id };
+  if (user.role === "CUSTOMER" && user.activeCompanyId) {
+    const access = await getProjectAccess(user);
+    return {
+      kind: "CUSTOMER",
+      companyId: user.activeCompanyId,
+      projectIds: access.seesAllProjects ? null : [...access.rolesByProject.keys()],
+    };
+  }
+  return null;
+}
+
+/** Where-fragment on the joined ticket (alias `t`) for a scope. */
+function ticketScopeSql(scope: SearchScope): Prisma.Sql {
+  switch (scope.kind) {
+    case "ADMIN":
+      return Prisma.sql`TRUE`;
+    case "CREATIVE":
+      return Prisma.sql`t."designerId" = ${scope.creativeId}`;
+    case "CUSTOMER":
+      // Same rule as getProjectAccess().projectScopeWhere(): tickets without
+      // a project are visible, restricted projects only to their members.
+      return scope.projectIds === null
+        ? Prisma.sql`t."companyId" = ${scope.companyId}`
+        : Prisma.sql`t."companyId" = ${scope.companyId}
+            AND (t."projectId" IS NULL OR t."projectId" = ANY(${scope.projectIds}::text[]))`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Rank multipliers per kind — a hit in the ticket itself beats the same
+ * words in a comment, which beat a file name.
+ */
+const KIND_WEIGHT: Record<SearchKind, number> = {
+  TICKET: 1,
+  COMMENT: 0.8,
+  REVISION: 0.8,
+  PIN_COMMENT: 0.7,
+  ASSET: 0.6,
+};
+
+type HitRow = { kind: SearchKind; id: string; ticketId: string; rank: number; createdAt: Date };
+
+function kindQuery(kind: SearchKind, scope: SearchScope): Prisma.Sql {
+  const where = ticketScopeSql(scope);
+  const weight = KIND_WEIGHT[kind];
+  switch (kind) {
+    case "TICKET":
+      return Prisma.sql`
+        SELECT 'TICKET' AS kind, t.id, t.id AS "ticketId",
+               ts_rank(t."searchVector", q.query) * ${weight} AS rank, t."createdAt"
+        FROM "Ticket" t, q
+        WHERE t."searchVector" @@ q.query AND ${where}`;
+    case "COMMENT":
+      return Prisma.sql`
+        SELECT 'COMMENT' AS kind, c.id, c."ticketId",
+               ts_rank(c."searchVector", q.query) * ${weight} AS rank, c."createdAt"
+        FROM "TicketComment" c JOIN "Ticket" t ON t.id = c."ticketId", q
+        WHERE c."searchVector" @@ q.query AND ${where}
+          ${scope.kind === "CUSTOMER" ? Prisma.sql`AND c."isInternal" = false` : Prisma.empty}`;
+    case "REVISION":
+      return Prisma.sql`
+        SELECT 'REVISION' AS kind, r.id, r."ticketId",
+               ts_rank(r."searchVector", q.query) * ${weight} AS rank, r."createdAt"
+        FROM "TicketRevision" r JOIN "Ticket" t ON t.id = r."ticketId", q
+        WHERE r."searchVector" @@ q.query AND ${where}`;
+    case "PIN_COMMENT":
+      return Prisma.sql`
+        SELECT 'PIN_COMMENT' AS kind, pc.id, a."ticketId",
+               ts_rank(pc."searchVector", q.query) * ${weight} AS rank, pc."createdAt"
+        FROM "AssetPinComment" pc
+          JOIN "AssetPin" p ON p.id = pc."pinId"
+          JOIN "Asset" a ON a.id = p."assetId"
+          JOIN "Ticket" t ON t.id = a."ticketId", q
+        WHERE pc."searchVector" @@ q.query AND a."deletedAt" IS NULL AND ${where}`;
+    case "ASSET":
+      return Prisma.sql`
+        SELECT 'ASSET' AS kind, a.id, a."ticketId",
+               ts_rank(a."searchVector", q.query) * ${weight} AS rank, a."createdAt"
+        FROM "Asset" a JOIN "Ticket" t ON t.id = a."ticketId", q
+        WHERE a."searchVector" @@ q.query AND a."deletedAt" IS NULL AND ${where}`;
+  }
+}
+
+export type SearchResult = {
+  kind: SearchKind;
+  id: string;
+  rank: number;
+  createdAt: Date;
+  snippet: SnippetSegment[];
+  ticket: {
+    id: string;
+    code: string;
+    title: string;
+    status: TicketStatus;
+    companyName: string;
+  };
+  /** Revision number for REVISION hits and revision files. */
+  revisionVersion: number | null;
+  /** Asset to open for ASSET and PIN_COMMENT hits. */
+  assetId: string | null;
+};
+
+/**
+ * Ranked hits across `kinds` for the parsed `terms`. Fetches one row past
+ * `limit` to report `hasMore`, then loads the matched text for snippets.
+ */
+export async function searchAll(
+  scope: SearchScope,
+  terms: string[],
+  opts: { kinds: SearchKind[]; limit: number; offset: number },
+): Promise<{ results: SearchResult[]; hasMore: boolean }> {
+  const tsQuery = toPrefixTsQuery(terms);
+  if (!tsQuery || opts.kinds.length === 0) return { results: [], hasMore: false };
+
+  const rows = await prisma.$queryRaw<HitRow[]>`
+    WITH q AS (SELECT to_tsquery('simple', ${tsQuery}) AS query)
+    SELECT kind, id, "ticketId", rank, "createdAt" FROM (
+      ${Prisma.join(
+        opts.kinds.map((kind) => kindQuery(kind, scope)),
+        " UNION ALL ",
+      )}
+    ) hits
+    ORDER BY rank DESC, "createdAt" DESC
+    LIMIT ${opts.limit + 1} OFFSET ${opts.offset}`;
+
+  const hasMore = rows.length > opts.limit;
+  const hits = rows.slice(0, opts.limit);
+  if (hits.length === 0) return { results: [], hasMore };
+
+  const idsOf = (kind: SearchKind) => hits.filter((h) => h.kind === kind).map((h) => h.id);
+
+  const [tickets, comments, revisions, pinComments, assets] = await Promise.all([
+    prisma.ticket.findMany({
+      where: { id: { in: [...new Set(hits.map((h) => h.ticketId))] } },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        status: true,
+        companyTicketNumber: true,
+        project: { select: { code: true } },
+        company: { select: { name: true } },
+      },
+    }),
+    prisma.ticketComment.findMany({
+      where: { id: { in: idsOf("COMMENT") } },
+      select: { id: true, body: true },
+    }),
+    prisma.ticketRevision.findMany({
+      where: { id: { in: idsOf("REVISION") } },
+      select: { id: true, version: true, creativeMessage: true, feedbackMessage: true },
+    }),
+    prisma.assetPinComment.findMany({
+      where: { id: { in: idsOf("PIN_COMMENT") } },
+      select: {
+        id: true,
+        message: true,
+        pin: {
+          select: { assetId: true, asset: { select: { revision: { select: { version: true } } } } },
+        },
+      },
+    }),
+    prisma.asset.findMany({
+      where: { id: { in: idsOf("ASSET") } },
+      select: { id: true, originalName: true, revision: { select: { version: true } } },
+    }),
+  ]);
+
+  const ticketById = new Map(tickets.map((t) => [t.id, t]));
+  const commentById = new Map(comments.map((c) => [c.id, c]));
+  const revisionById = new Map(revisions.map((r) => [r.id, r]));
+  const pinCommentById = new Map(pinComments.map((c) => [c.id, c]));
+  const assetById = new Map(assets.map((a) => [a.id, a]));
+
+  const results: SearchResult[] = [];
+  for (const hit of hits) {
+    const ticket = ticketById.get(hit.ticketId);
+    if (!ticket) continue;
+
+    let text = "";
+    let revisionVersion: number | null = null;
+    let assetId: string | null = null;
+    switch (hit.kind) {
+      case "TICKET":
+        text = firstMatchingText([ticket.description, ticket.title], terms);
+        break;
+      case "COMMENT":
+        text = commentById.get(hit.id)?.body ?? "";
+        break;
+      case "REVISION": {
+        const revision = revisionById.get(hit.id);
+        text = firstMatchingText([revision?.creativeMessage, revision?.feedbackMessage], terms);
+        revisionVersion = revision?.version ?? null;
+        break;
+      }
+      case "PIN_COMMENT": {
+        const comment = pinCommentById.get(hit.id);
+        text = comment?.message ?? "";
+        assetId = comment?.pin.assetId ?? null;
+        revisionVersion = comment?.pin.asset.revision?.version ?? null;
+        break;
+      }
+      case "ASSET": {
+        const asset = assetById.get(hit.id);
+        text = asset?.originalName ?? "";
+        assetId = hit.id;
+        revisionVersion = asset?.revision?.version ?? null;
+        break;
+      }
+    }
+
+    results.push({
+      kind: hit.kind,
+      id: hit.id,
+      rank: Number(hit.rank),
+      createdAt: hit.createdAt,
+      snippet: buildSnippet(text, terms),
+      ticket: {
+        id: ticket.id,
+        code: buildTicketCode({
+          projectCode: ticket.project?.code,
+          companyTicketNumber: ticket.companyTicketNumber,
+          ticketId: ticket.id,
+        }),
+        title: ticket.title,
+        status: ticket.status,
+        companyName: ticket.company.name,
+      },
+      revisionVersion,
+      assetId,
+    });
+  }
+
+  return { results, hasMore };
+}
+
+/**
+ * Ids of tickets whose own title / description match, best first. Lets the
+ * ticket list routes widen their `search` param beyond a title substring.
+ */
+export async function searchTicketIds(
+  scope: SearchScope,
+  terms: string[],
+  limit = 500,
+): Promise<string[]> {
+  const tsQuery = toPrefixTsQuery(terms);
+  if (!tsQuery) return [];
+
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    WITH q AS (SELECT to_tsquery('simple', ${tsQuery}) AS query)
+    SELECT t.id FROM "Ticket" t, q
+    WHERE t."searchVector" @@ q.query AND ${ticketScopeSql(scope)}
+    ORDER BY ts_rank(t."searchVector", q.query) DESC
+    LIMIT ${limit}`;
+
+  return rows.map((r) => r.id);
+}
@@ -0,0 +1,156 @@
+// -----------------------------------------------------------------------------
+// @file: lib/search/query.ts
+// @purpose: Full-text search helpers that don't touch the database — turning
+//           user input into a safe prefix tsquery, parsing the `types`
+//           filter, and cutting highlighted snippets out of matched text.
+//           The SQL side lives in ./full-text.ts.
+// -----------------------------------------------------------------------------
+
+/** Every kind of row the search covers, in the order results are labelled. */
+export const SEARCH_KINDS = ["TICKET", "COMMENT", "REVISION", "PIN_COMMENT", "ASSET"] as const;
+export type SearchKind = (typeof SEARCH_KINDS)[number];
+
+export const SEARCH_KIND_LABELS: Record<SearchKind, string> = {
+  TICKET: "Ticket",
+  COMMENT: "Comment",
+  REVISION: "Revision",
+  PIN_COMMENT: "Pin comment",
+  ASSET: "File",
+};
+
+/** Extra terms beyond this are ignored — each one is another index probe. */
+export const MAX_SEARCH_TERMS = 8;
+const MAX_TERM_LENGTH = 64;
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Split user input into lowercase search terms. Only letters and digits
+ * survive, so nothing the user types can reach tsquery syntax (`&`, `|`,
+ * `!`, `:`, parentheses).
+ */
+export function parseSearchTerms(input: string): string[] {
+  const terms: string[] = [];
+  for (const [word] of input.toLowerCase().matchAll(WORD_RE)) {
+    const term = word.slice(0, MAX_TERM_LENGTH);
+    if (!terms.includes(term)) terms.push(term);
+    if (terms.length === MAX_SEARCH_TERMS) break;
+  }
+  return terms;
+}
+
+/**
+ * `to_tsquery('simple', …)` input matching every term as a word prefix, so
+ * "logo rev" finds "Logo revisions". Null when there is nothing to search.
+ */
+export function toPrefixTsQuery(terms: string[]): string | null {
+  if (terms.length === 0) return null;
+  return terms.map((t) => `${t}:*`).join(" & ");
+}
+
+/** `?types=ticket,comment` → kinds; empty / unknown-only input means all. */
+export function parseSearchKinds(param: string | null | undefined): SearchKind[] {
+  const wanted = (param ?? "")
+    .split(",")
+    .map((s) => s.trim().toUpperCase())
+    .filter((s): s is SearchKind => (SEARCH_KINDS as readonly string[]).includes(s));
+  return wanted.length > 0 ? [...new Set(wanted)] : [...SEARCH_KINDS];
+}
+
+// ---------------------------------------------------------------------------
+// Snippets
+// ---------------------------------------------------------------------------
+
+export type SnippetSegment = { text: string; match: boolean };
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&nbsp;": " ",
+};
+
+/** Rich-text descriptions are HTML; snippets are plain text. */
+export function toPlainText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (m) => ENTITIES[m] ?? m)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * The first candidate containing a word that starts with one of `terms`,
+ * else the first non-empty one — e.g. a ticket's description when the hit
+ * is there, its title otherwise.
+ */
+export function firstMatchingText(
+  candidates: (string | null | undefined)[],
+  terms: string[],
+): string {
+  const texts = candidates.filter((c): c is string => !!c && c.trim() !== "");
+  const hit = texts.find((text) =>
+    [...toPlainText(text).toLowerCase().matchAll(WORD_RE)].some(([word]) =>
+      terms.some((t) => word.startsWith(t)),
+    ),
+  );
+  return hit ?? texts[0] ?? "";
+}
+
+/**
+ * Cut a window of about `maxLength` characters around the first word that
+ * starts with one of `terms` and mark every such word. Returned as segments
+ * rather than HTML so the client can render highlights without
+ * dangerouslySetInnerHTML. Text without a match yields its opening window.
+ */
+export function buildSnippet(text: string, terms: string[], maxLength = 160): SnippetSegment[] {
+  const plain = toPlainText(text);
+  if (!plain) return [];
+
+  const isMatch = (word: string) => {
+    const lower = word.toLowerCase();
+    return terms.some((t) => lower.startsWith(t));
+  };
+
+  const words = [...plain.matchAll(WORD_RE)].map((m) => ({
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+    match: isMatch(m[0]),
+  }));
+
+  // Start a little before the first hit, on a word boundary.
+  const firstHit = words.find((w) => w.match);
+  let start = 0;
+  if (firstHit && firstHit.end > maxLength) {
+    const lead = Math.floor(maxLength / 4);
+    start = words.find((w) => w.start >= firstHit.start - lead)?.start ?? firstHit.start;
+  }
+  let end = Math.min(plain.length, start + maxLength);
+  if (end < plain.length) {
+    const lastWhole = words.filter((w) => w.end <= end && w.start >= start).pop();
+    if (lastWhole) end = lastWhole.end;
+  }
+
+  const segments: SnippetSegment[] = [];
+  const push = (segment: string, match: boolean) => {
+    if (!segment) return;
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) last.text += segment;
+    else segments.push({ text: segment, match });
+  };
+
+  if (start > 0) push("…", false);
+  let cursor = start;
+  for (const w of words) {
+    if (!w.match || w.start < start || w.end > end) continue;
+    push(plain.slice(cursor, w.start), false);
+    push(plain.slice(w.start, w.end), true);
+    cursor = w.end;
+  }
+  push(plain.slice(cursor, end), false);
+  if (end < plain.length) push("…", false);
+
+  return segments;
+}
@@ -0,0 +1,102 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/approvals.test.ts
+// @purpose: Unit tests for approval chains — sequential vs parallel sign-off,
+//           minimum approvals and the DONE gate message
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+import type { ApprovalDecision, ApprovalMode } from "@prisma/client";
+
+import {
+  type ApprovalRecord,
+  describeApprovalState,
+  evaluateApprovals,
+  requiredApprovals,
+} from "../approvals";
+
+const approvers = [
+  { userId: "brand", name: "Bea", position: 0, label: "Brand" },
+  { userId: "legal", name: "Lou", position: 1, label: "Legal" },
+  { userId: "marketing", name: "Max", position: 2, label: null },
+];
+
+function policy(mode: ApprovalMode, minApprovals = 3) {
+  return { mode, minApprovals, approvers };
+}
+
+function record(approverId: string, decision: ApprovalDecision = "APPROVED"): ApprovalRecord {
+  return { approverId, decision, message: null, createdAt: new Date("2026-10-19T10:00:00Z") };
+}
+
+describe("requiredApprovals", () => {
+  it("keeps the minimum between one and the approver count", () => {
+    expect(requiredApprovals({ minApprovals: 2, approvers })).toBe(2);
+    expect(requiredApprovals({ minApprovals: 9, approvers })).toBe(3);
+    expect(requiredApprovals({ minApprovals: 0, approvers })).toBe(1);
+  });
+});
+
+describe("evaluateApprovals — SEQUENTIAL", () => {
+  it("asks only the first approver who hasn't approved", () => {
+    const state = evaluateApprovals(policy("SEQUENTIAL"), [record("brand")]);
+    expect(state.approved).toBe(1);
+    expect(state.awaitingUserIds).toEqual(["legal"]);
+    expect(state.steps.map((s) => s.awaiting)).toEqual([false, true, false]);
+  });
+
+  it("does not count approvals given out of order", () => {
+    const state = evaluateApprovals(policy("SEQUENTIAL"), [record("legal")]);
+    expect(state.approved).toBe(0);
+    expect(state.awaitingUserIds).toEqual(["brand"]);
+  });
+
+  it("is satisfied by the first N approvers when the minimum is lower", () => {
+    const state = evaluateApprovals(policy("SEQUENTIAL", 2), [record("brand"), record("legal")]);
+    expect(state.satisfied).toBe(true);
+    expect(state.awaitingUserIds).toEqual([]);
+  });
+});
+
+describe("evaluateApprovals — PARALLEL", () => {
+  it("asks everyone who hasn't decided", () => {
+    const state = evaluateApprovals(policy("PARALLEL"), [record("legal")]);
+    expect(state.approved).toBe(1);
+    expect(state.awaitingUserIds).toEqual(["brand", "marketing"]);
+  });
+
+  it("is satisfied once the minimum is reached in any order", () => {
+    const state = evaluateApprovals(policy("PARALLEL", 2), [record("marketing"), record("brand")]);
+    expect(state.satisfied).toBe(true);
+    expect(state.awaitingUserIds).toEqual([]);
+  });
+
+  it("stops asking once someone requests changes", () => {
+    const state = evaluateApprovals(policy("PARALLEL"), [
+      record("brand"),
+      record("legal", "CHANGES_REQUESTED"),
+    ]);
+    expect(state.changesRequested).toBe(true);
+    expect(state.satisfied).toBe(false);
+    expect(state.awaitingUserIds).toEqual([]);
+  });
+
+  it("ignores decisions from people no longer on the chain", () => {
+    const state = evaluateApprovals(policy("PARALLEL", 1), [record("former-approver")]);
+    expect(state.approved).toBe(0);
+    expect(state.satisfied).toBe(false);
+  });
+});
+
+describe("describeApprovalState", () => {
+  it("names who the chain is waiting on", () => {
+    const state = evaluateApprovals(policy("PARALLEL"), [record("brand")]);
+    expect(describeApprovalState(state)).toBe(
+      "This ticket has 1 of 3 required approvals. Waiting on Legal, Max.",
+    );
+  });
+
+  it("explains a change request", () => {
+    const state = evaluateApprovals(policy("SEQUENTIAL"), [record("brand", "CHANGES_REQUESTED")]);
+    expect(describeApprovalState(state)).toBe("An approver requested changes on this revision.");
+  });
+});
@@ -0,0 +1,49 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/archive.test.ts
+// @purpose: Unit tests for the archive cutoff and where-clause builders
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+import { TicketStatus } from "@prisma/client";
+
+import { archiveCutoff, archivedTicketsWhere } from "../archive";
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date(Date.UTC(2026, 9, 19, 12));
+
+describe("archiveCutoff", () => {
+  it("subtracts whole days from now", () => {
+    expect(archiveCutoff(90, now)).toEqual(new Date(now.getTime() - 90 * DAY));
+  });
+
+  it("treats negative days as zero", () => {
+    expect(archiveCutoff(-5, now)).toEqual(now);
+  });
+});
+
+describe("archivedTicketsWhere", () => {
+  const cutoff = archiveCutoff(30, now);
+
+  it("includes cancelled tickets and old completions by default", () => {
+    expect(archivedTicketsWhere("co_1", cutoff)).toEqual({
+      companyId: "co_1",
+      OR: [
+        { status: TicketStatus.CANCELED },
+        { status: TicketStatus.DONE, completedAt: { lt: cutoff } },
+        { status: TicketStatus.DONE, completedAt: null, updatedAt: { lt: cutoff } },
+      ],
+    });
+  });
+
+  it("narrows to cancelled tickets", () => {
+    expect(archivedTicketsWhere("co_1", cutoff, "canceled").OR).toEqual([
+      { status: TicketStatus.CANCELED },
+    ]);
+  });
+
+  it("narrows to completed tickets, falling back to updatedAt", () => {
+    const where = archivedTicketsWhere("co_1", cutoff, "completed");
+    expect(where.OR).toHaveLength(2);
+    expect(where.OR).not.toContainEqual({ status: TicketStatus.CANCELED });
+  });
+});
@@ -0,0 +1,88 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/assign-pipeline.test.ts
+// @purpose: Unit tests for the auto-assign candidate funnel — exclusion stage
+//           order (declined → deleted → paused → capped) and weighted load.
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+
+import { filterAssignCandidates, ticketLoad } from "../assign-pipeline";
+
+function state(
+  id: string,
+  overrides: Partial<{ isPaused: boolean; tasksPerWeekCap: number }> = {},
+) {
+  return {
+    id,
+    isPaused: overrides.isPaused ?? false,
+    pauseExpiresAt: null,
+    tasksPerWeekCap: overrides.tasksPerWeekCap ?? null,
+  };
+}
+
+describe("ticketLoad", () => {
+  it("multiplies priority weight, token cost and quantity", () => {
+    expect(ticketLoad({ priority: "URGENT", tokenCost: 3, quantity: 2 })).toBe(24);
+  });
+
+  it("treats a missing cost or quantity as 1", () => {
+    expect(ticketLoad({ priority: "LOW", tokenCost: null, quantity: undefined })).toBe(1);
+  });
+});
+
+describe("filterAssignCandidates", () => {
+  it("keeps live, unpaused, uncapped creatives eligible and sums their load", () => {
+    const [c] = filterAssignCandidates({
+      candidateIds: ["a"],
+      excludeCreativeIds: [],
+      states: [state("a")],
+      openTickets: [
+        { creativeId: "a", priority: "MEDIUM", quantity: 1, jobType: { tokenCost: 2 } },
+        { creativeId: "a", priority: "HIGH", quantity: 2, jobType: null },
+      ],
+    });
+    expect(c).toEqual({
+      creativeId: "a",
+      excludedBy: null,
+      openTicketCount: 2,
+      tasksPerWeekCap: null,
+      load: 10,
+    });
+  });
+
+  it("labels each creative with the first stage that dropped them", () => {
+    const funnel = filterAssignCandidates({
+      candidateIds: ["declined", "deleted", "paused", "capped", "ok"],
+      excludeCreativeIds: ["declined"],
+      states: [
+        // Declined wins even when the creative is also paused.
+        state("declined", { isPaused: true }),
+        state("paused", { isPaused: true, tasksPerWeekCap: 0 }),
+        state("capped", { tasksPerWeekCap: 1 }),
+        state("ok", { tasksPerWeekCap: 2 }),
+      ],
+      openTickets: [
+        { creativeId: "capped", priority: "LOW", quantity: 1, jobType: null },
+        { creativeId: "ok", priority: "LOW", quantity: 1, jobType: null },
+      ],
+    });
+    expect(funnel.map((c) => [c.creativeId, c.excludedBy])).toEqual([
+      ["declined", "DECLINED"],
+      ["deleted", "DELETED"],
+      ["paused", "PAUSED"],
+      ["capped", "CAPPED"],
+      ["ok", null],
+    ]);
+  });
+
+  it("ignores open tickets of creatives outside the candidate list", () => {
+    const [c] = filterAssignCandidates({
+      candidateIds: ["a"],
+      excludeCreativeIds: [],
+      states: [state("a")],
+      openTickets: [{ creativeId: "b", priority: "URGENT", quantity: 5, jobType: null }],
+    });
+    expect(c.load).toBe(0);
+    expect(c.openTicketCount).toBe(0);
+  });
+});
@@ -0,0 +1,141 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/assign-strategies.test.ts
+// @purpose: Unit tests for the pluggable auto-assign strategies — strategy
+//           resolution, each strategy's pick and scores, and the fallback to
+//           load-then-rating when a strategy has no signal.
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+
+import type { CreativeRatingSummary } from "@/lib/ratings/creative-ratings";
+import {
+  type AssignStrategyContext,
+  resolveAssignStrategy,
+  selectCreativeWithStrategy,
+} from "../assign-strategies";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+function context(overrides: Partial<AssignStrategyContext> = {}): AssignStrategyContext {
+  return {
+    candidateIds: ["a", "b", "c"],
+    // b is the least loaded creative.
+    loadByCreative: new Map([
+      ["a", 10],
+      ["b", 2],
+      ["c", 6],
+    ]),
+    ratingByCreative: new Map<string, CreativeRatingSummary>(),
+    projectDoneByCreative: new Map(),
+    preferredCreativeIds: new Set(),
+    lastAssignedAtByCreative: new Map(),
+    now: NOW,
+    ...overrides,
+  };
+}
+
+describe("resolveAssignStrategy", () => {
+  it("inherits the company strategy when the project has none", () => {
+    expect(resolveAssignStrategy("ROUND_ROBIN", null)).toBe("ROUND_ROBIN");
+    expect(resolveAssignStrategy("ROUND_ROBIN")).toBe("ROUND_ROBIN");
+  });
+
+  it("lets the project override the company", () => {
+    expect(resolveAssignStrategy("LOAD_BALANCED", "PROJECT_CONTINUITY")).toBe("PROJECT_CONTINUITY");
+  });
+});
+
+describe("selectCreativeWithStrategy", () => {
+  it("returns no pick for an empty pool", () => {
+    const pick = selectCreativeWithStrategy("LOAD_BALANCED", context({ candidateIds: [] }));
+    expect(pick).toEqual({ creativeId: null, scores: {}, fellBack: false });
+  });
+
+  it("LOAD_BALANCED picks the lowest load and scores by negated load", () => {
+    const pick = selectCreativeWithStrategy("LOAD_BALANCED", context());
+    expect(pick.creativeId).toBe("b");
+    expect(pick.scores).toEqual({ a: -10, b: -2, c: -6 });
+    expect(pick.fellBack).toBe(false);
+  });
+
+  it("PROJECT_CONTINUITY prefers the creative with the most DONE project tickets", () => {
+    const pick = selectCreativeWithStrategy(
+      "PROJECT_CONTINUITY",
+      context({
+        projectDoneByCreative: new Map([
+          ["a", 4],
+          ["c", 1],
+        ]),
+      }),
+    );
+    expect(pick.creativeId).toBe("a");
+    expect(pick.scores).toEqual({ a: 4, b: null, c: 1 });
+    expect(pick.fellBack).toBe(false);
+  });
+
+  it("PROJECT_CONTINUITY breaks ties on load", () => {
+    const pick = selectCreativeWithStrategy(
+      "PROJECT_CONTINUITY",
+      context({
+        projectDoneByCreative: new Map([
+          ["a", 3],
+          ["c", 3],
+        ]),
+      }),
+    );
+    expect(pick.creativeId).toBe("c");
+  });
+
+  it("PROJECT_CONTINUITY falls back to load balancing without history", () => {
+    const pick = selectCreativeWithStrategy("PROJECT_CONTINUITY", context());
+    expect(pick.creativeId).toBe("b");
+    expect(pick.fellBack).toBe(true);
+  });
+
+  it("PREFERRED_CREATIVES balances load among the preferred creatives", () => {
+    const pick = selectCreativeWithStrategy(
+      "PREFERRED_CREATIVES",
+      context({ preferredCreativeIds: new Set(["a", "c"]) }),
+    );
+    expect(pick.creativeId).toBe("c");
+    expect(pick.scores).toEqual({ a: 1, b: null, c: 1 });
+  });
+
+  it("PREFERRED_CREATIVES falls back when no preferred creative is eligible", () => {
+    const pick = selectCreativeWithStrategy(
+      "PREFERRED_CREATIVES",
+      context({ preferredCreativeIds: new Set(["someone-else"]) }),
+    );
+    expect(pick.creativeId).toBe("b");
+    expect(pick.fellBack).toBe(true);
+  });
+
+  it("ROUND_ROBIN picks the creative who waited longest", () => {
+    const pick = selectCreativeWithStrategy(
+      "ROUND_ROBIN",
+      context({
+        lastAssignedAtByCreative: new Map([
+          ["a", new Date("2026-10-10T12:00:00Z")],
+          ["b", new Date("2026-10-19T11:00:00Z")],
+          ["c", new Date("2026-10-18T12:00:00Z")],
+        ]),
+      }),
+    );
+    expect(pick.creativeId).toBe("a");
+    expect(pick.scores.b).toBe(60);
+  });
+
+  it("ROUND_ROBIN puts never-assigned creatives first", () => {
+    const pick = selectCreativeWithStrategy(
+      "ROUND_ROBIN",
+      context({
+        lastAssignedAtByCreative: new Map([
+          ["a", new Date("2026-10-10T12:00:00Z")],
+          ["b", new Date("2026-10-19T11:00:00Z")],
+        ]),
+      }),
+    );
+    expect(pick.creativeId).toBe("c");
+    expect(pick.fellBack).toBe(false);
+  });
+});
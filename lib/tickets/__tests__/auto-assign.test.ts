@@ -1,13 +1,14 @@
 // -----------------------------------------------------------------------------
 // @file: lib/tickets/__tests__/auto-assign.test.ts
 // @purpose: Unit tests for isAutoAssignEnabled — project override precedence
-//           and INHERIT fall-through to company default.
+//           and INHERIT fall-through to company default — and for the
+//           declined-creative exclusion list.
 // -----------------------------------------------------------------------------
 
 import { describe, expect, it } from "vitest";
 import { AutoAssignMode } from "@prisma/client";
 
-import { isAutoAssignEnabled } from "../auto-assign";
+import { declinedCreativeIds, isAutoAssignEnabled } from "../auto-assign";
 
 describe("isAutoAssignEnabled", () => {
   describe("no project mode / INHERIT", () => {
@@ -39,3 +40,20 @@ describe("isAutoAssignEnabled", () => {
     });
   });
 });
+
+describe("declinedCreativeIds", () => {
+  it("dedupes creatives and skips logs without one", () => {
+    expect(
+      declinedCreativeIds([
+        { creativeId: "c1" },
+        { creativeId: null },
+        { creativeId: "c2" },
+        { creativeId: "c1" },
+      ]),
+    ).toEqual(["c1", "c2"]);
+  });
+
+  it("returns an empty list when nobody declined", () => {
+    expect(declinedCreativeIds([])).toEqual([]);
+  });
+});
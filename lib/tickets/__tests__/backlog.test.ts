@@ -0,0 +1,66 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/backlog.test.ts
+// @purpose: Unit tests for backlog reordering and the shared backlog comparator
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+
+import { compareBacklog } from "@/lib/board";
+import { moveInBacklog, ticketsAhead } from "../backlog";
+
+describe("moveInBacklog", () => {
+  const order = ["a", "b", "c", "d"];
+
+  it("moves a ticket down after another", () => {
+    expect(moveInBacklog(order, "a", "c")).toEqual(["b", "c", "a", "d"]);
+  });
+
+  it("moves a ticket up after another", () => {
+    expect(moveInBacklog(order, "d", "a")).toEqual(["a", "d", "b", "c"]);
+  });
+
+  it("moves a ticket to the top when afterTicketId is null", () => {
+    expect(moveInBacklog(order, "c", null)).toEqual(["c", "a", "b", "d"]);
+  });
+
+  it("rejects ids outside the backlog and self-moves", () => {
+    expect(moveInBacklog(order, "x", null)).toBeNull();
+    expect(moveInBacklog(order, "a", "x")).toBeNull();
+    expect(moveInBacklog(order, "b", "b")).toBeNull();
+  });
+});
+
+describe("ticketsAhead", () => {
+  it("returns everything sorted before the ticket", () => {
+    const sorted = [{ id: "a" }, { id: "b" }, { id: "c" }];
+    expect(ticketsAhead(sorted, "c").map((t) => t.id)).toEqual(["a", "b"]);
+    expect(ticketsAhead(sorted, "a")).toEqual([]);
+    expect(ticketsAhead(sorted, "x")).toEqual([]);
+  });
+});
+
+describe("compareBacklog", () => {
+  const t = (id: string, backlogRank: number | null, priority: string, createdAt: string) => ({
+    id,
+    backlogRank,
+    priority: priority as "LOW" | "MEDIUM" | "HIGH" | "URGENT",
+    createdAt,
+  });
+
+  it("puts ranked tickets first, then priority, then age", () => {
+    const tickets = [
+      t("old-low", null, "LOW", "2026-01-01"),
+      t("new-urgent", null, "URGENT", "2026-03-01"),
+      t("ranked-2", 2, "LOW", "2026-02-01"),
+      t("old-urgent", null, "URGENT", "2026-02-01"),
+      t("ranked-1", 1, "LOW", "2026-04-01"),
+    ];
+    expect([...tickets].sort(compareBacklog).map((x) => x.id)).toEqual([
+      "ranked-1",
+      "ranked-2",
+      "old-urgent",
+      "new-urgent",
+      "old-low",
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/claim-ticket.test.ts
+// @purpose: Unit tests for the available-work where-clause and task-cap check,
+//           plus the in-transaction recheck of a claim (with Prisma mocked)
+// -----------------------------------------------------------------------------
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TicketStatus } from "@prisma/client";
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma = {
+    $queryRaw: vi.fn().mockResolvedValue([]),
+    $transaction: vi.fn(),
+    userAccount: { findFirst: vi.fn(), findUnique: vi.fn() },
+    ticket: { count: vi.fn(), findFirst: vi.fn(), updateMany: vi.fn() },
+    ticketAssignmentLog: { create: vi.fn() },
+    company: { findUnique: vi.fn() },
+  };
+  // The transaction client is the same mock.
+  mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(mockPrisma));
+  return { mockPrisma };
+});
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: mockPrisma,
+}));
+
+import { availableTicketsWhere, claimTicket, isAtTaskCap } from "../claim-ticket";
+
+describe("availableTicketsWhere", () => {
+  it("limits to unassigned non-AI TODO work the creative is skilled in", () => {
+    expect(availableTicketsWhere("cr_1", ["jt_1", "jt_2"])).toEqual({
+      status: TicketStatus.TODO,
+      creativeId: null,
+      creativeMode: { not: "AI" },
+      jobTypeId: { in: ["jt_1", "jt_2"] },
+      company: { creativeClaimsEnabled: true },
+      assignmentLogs: { none: { creativeId: "cr_1", reason: "DECLINED" } },
+    });
+  });
+});
+
+describe("isAtTaskCap", () => {
+  it("treats a null cap as unlimited", () => {
+    expect(isAtTaskCap(40, null)).toBe(false);
+  });
+
+  it("is at cap once open tickets reach the cap", () => {
+    expect(isAtTaskCap(2, 3)).toBe(false);
+    expect(isAtTaskCap(3, 3)).toBe(true);
+    expect(isAtTaskCap(4, 3)).toBe(true);
+  });
+});
+
+describe("claimTicket", () => {
+  const creative = { isPaused: false, pauseExpiresAt: null, tasksPerWeekCap: 3 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.userAccount.findFirst.mockResolvedValue({ ...creative, creativeSkills: [] });
+    mockPrisma.userAccount.findUnique.mockResolvedValue(creative);
+    mockPrisma.ticket.findFirst.mockResolvedValue({ id: "t1", companyId: "c1", jobTypeId: "j1" });
+    mockPrisma.company.findUnique.mockResolvedValue({ plan: null });
+    mockPrisma.ticket.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("claims when the recount inside the transaction is still under the cap", async () => {
+    mockPrisma.ticket.count.mockImplementation(({ where }: { where: { creativeId?: string } }) =>
+      Promise.resolve(where.creativeId ? 2 : 0),
+    );
+
+    const result = await claimTicket({ ticketId: "t1", creativeId: "cr1" });
+
+    expect(result).toEqual({ success: true, ticketId: "t1" });
+    expect(mockPrisma.$queryRaw).toHaveBeenCalled();
+    expect(mockPrisma.ticketAssignmentLog.create).toHaveBeenCalled();
+  });
+
+  it("refuses when a concurrent claim filled the cap after the up-front check", async () => {
+    mockPrisma.ticket.count
+      .mockResolvedValueOnce(2) // up-front: creative open load
+      .mockResolvedValueOnce(0) // up-front: company IN_PROGRESS
+      .mockResolvedValueOnce(3); // in transaction: creative open load
+
+    const result = await claimTicket({ ticketId: "t1", creativeId: "cr1" });
+
+    expect(result).toMatchObject({ success: false, code: "AT_CAP", openTicketCount: 3 });
+    expect(mockPrisma.ticket.updateMany).not.toHaveBeenCalled();
+  });
+});
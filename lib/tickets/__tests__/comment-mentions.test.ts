@@ -0,0 +1,104 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/comment-mentions.test.ts
+// @purpose: Unit tests for @mention parsing — resolution against candidates,
+//           highlighting segments, the composer autocomplete helpers and the
+//           internal-note / excerpt helpers.
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+
+import {
+  activeMentionQuery,
+  commentExcerpt,
+  filterMentionCandidates,
+  findMentionedUserIds,
+  insertMention,
+  mentionLabelFor,
+  splitMentionSegments,
+  staffMentionCandidates,
+  type MentionCandidate,
+} from "../comment-mentions";
+
+const candidates: MentionCandidate[] = [
+  { id: "u-jane", label: "Jane", kind: "Team" },
+  { id: "u-jane-doe", label: "Jane Doe", kind: "Team" },
+  { id: "u-max", label: "max.p", kind: "Creative" },
+];
+
+describe("mentionLabelFor", () => {
+  it("prefers the name and falls back to the email local part", () => {
+    expect(mentionLabelFor({ name: " Jane Doe ", email: "jane@acme.test" })).toBe("Jane Doe");
+    expect(mentionLabelFor({ name: null, email: "max.p@studio.test" })).toBe("max.p");
+  });
+});
+
+describe("findMentionedUserIds", () => {
+  it("resolves mentions case-insensitively, once per user", () => {
+    expect(findMentionedUserIds("@jane can you check? cc @Max.P and @Jane", candidates)).toEqual([
+      "u-jane",
+      "u-max",
+    ]);
+  });
+
+  it("lets the longest label win", () => {
+    expect(findMentionedUserIds("Thanks @Jane Doe!", candidates)).toEqual(["u-jane-doe"]);
+  });
+
+  it("ignores partial words and plain emails", () => {
+    expect(findMentionedUserIds("@Janet and jane@acme.test", candidates)).toEqual([]);
+  });
+});
+
+describe("splitMentionSegments", () => {
+  it("splits plain text and mentions", () => {
+    expect(splitMentionSegments("Hi @Jane Doe, see above", candidates)).toEqual([
+      { text: "Hi ", userId: null },
+      { text: "@Jane Doe", userId: "u-jane-doe" },
+      { text: ", see above", userId: null },
+    ]);
+  });
+});
+
+describe("composer helpers", () => {
+  it("detects the @query being typed", () => {
+    expect(activeMentionQuery("Hey @Ja", 7)).toEqual({ start: 4, query: "Ja" });
+    expect(activeMentionQuery("@", 1)).toEqual({ start: 0, query: "" });
+    expect(activeMentionQuery("mail jane@acme", 14)).toBeNull();
+    expect(activeMentionQuery("@Jane\nnext", 10)).toBeNull();
+  });
+
+  it("filters candidates with prefix matches first", () => {
+    expect(filterMentionCandidates(candidates, "p").map((c) => c.id)).toEqual(["u-max"]);
+    expect(filterMentionCandidates(candidates, "jane").map((c) => c.id)).toEqual([
+      "u-jane",
+      "u-jane-doe",
+    ]);
+  });
+
+  it("replaces the query with the picked label", () => {
+    expect(insertMention("Hey @Ja thanks", 4, 7, "Jane Doe")).toEqual({
+      text: "Hey @Jane Doe  thanks",
+      caret: 14,
+    });
+  });
+});
+
+describe("staffMentionCandidates", () => {
+  it("leaves the customer's team out of internal notes", () => {
+    expect(
+      staffMentionCandidates([...candidates, { id: "u-admin", label: "Ops", kind: "Brandbite" }]),
+    ).toEqual([
+      { id: "u-max", label: "max.p", kind: "Creative" },
+      { id: "u-admin", label: "Ops", kind: "Brandbite" },
+    ]);
+  });
+});
+
+describe("commentExcerpt", () => {
+  it("keeps short comments and truncates long ones with an ellipsis", () => {
+    expect(commentExcerpt("Looks good")).toBe("Looks good");
+    const excerpt = commentExcerpt("x".repeat(300));
+    expect(excerpt).toHaveLength(140);
+    expect(excerpt.endsWith("…")).toBe(true);
+  });
+});
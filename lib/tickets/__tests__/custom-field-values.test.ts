@@ -0,0 +1,121 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/custom-field-values.test.ts
+// @purpose: Unit tests for custom field value normalization and validation
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+
+import {
+  type CustomFieldDef,
+  formatCustomFieldValue,
+  normalizeCustomFieldValue,
+  validateCustomFieldValues,
+} from "../custom-field-values";
+
+const field = (type: CustomFieldDef["type"], extra: Partial<CustomFieldDef> = {}) =>
+  ({
+    id: `f-${type}`,
+    label: type,
+    type,
+    options: [],
+    required: false,
+    ...extra,
+  }) as CustomFieldDef;
+
+const channel = field("MULTI_SELECT", { options: ["Email", "Social", "Print"] });
+
+describe("normalizeCustomFieldValue", () => {
+  it("treats null, blank strings and empty lists as no value", () => {
+    expect(normalizeCustomFieldValue(field("TEXT"), null)).toEqual({ ok: true, value: null });
+    expect(normalizeCustomFieldValue(field("TEXT"), "   ")).toEqual({ ok: true, value: null });
+    expect(normalizeCustomFieldValue(channel, [])).toEqual({ ok: true, value: null });
+  });
+
+  it("normalizes numbers and rejects non-numeric input", () => {
+    expect(normalizeCustomFieldValue(field("NUMBER"), " 042.50 ")).toEqual({
+      ok: true,
+      value: { value: "42.5", values: [] },
+    });
+    expect(normalizeCustomFieldValue(field("NUMBER"), "12abc").ok).toBe(false);
+  });
+
+  it("accepts only real YYYY-MM-DD dates", () => {
+    expect(normalizeCustomFieldValue(field("DATE"), "2026-10-19").ok).toBe(true);
+    expect(normalizeCustomFieldValue(field("DATE"), "2026-02-30").ok).toBe(false);
+    expect(normalizeCustomFieldValue(field("DATE"), "19/10/2026").ok).toBe(false);
+  });
+
+  it("accepts only http(s) URLs", () => {
+    expect(normalizeCustomFieldValue(field("URL"), "https://example.com/brief").ok).toBe(true);
+    expect(normalizeCustomFieldValue(field("URL"), "javascript:alert(1)").ok).toBe(false);
+    expect(normalizeCustomFieldValue(field("URL"), "example.com").ok).toBe(false);
+  });
+
+  it("checks select values against the options", () => {
+    const select = field("SELECT", { options: ["Q1", "Q2"] });
+    expect(normalizeCustomFieldValue(select, "Q2")).toEqual({
+      ok: true,
+      value: { value: "Q2", values: [] },
+    });
+    expect(normalizeCustomFieldValue(select, "Q3").ok).toBe(false);
+    expect(normalizeCustomFieldValue(select, ["Q1"]).ok).toBe(false);
+  });
+
+  it("dedupes multi-select values into option order", () => {
+    expect(normalizeCustomFieldValue(channel, ["Print", "Email", "Print"])).toEqual({
+      ok: true,
+      value: { value: null, values: ["Email", "Print"] },
+    });
+    expect(normalizeCustomFieldValue(channel, ["Email", "Radio"]).ok).toBe(false);
+  });
+});
+
+describe("validateCustomFieldValues", () => {
+  const costCenter = field("TEXT", { id: "cc", label: "Cost center", required: true });
+  const launch = field("DATE", { id: "launch", label: "Launch date" });
+
+  it("requires required fields on a full validation", () => {
+    expect(validateCustomFieldValues([costCenter, launch], {})).toEqual({
+      ok: false,
+      fieldId: "cc",
+      message: "Cost center is required.",
+    });
+  });
+
+  it("returns entries only for filled or explicitly sent fields and drops unknown keys", () => {
+    const result = validateCustomFieldValues([costCenter, launch], {
+      cc: "CC-100",
+      launch: "",
+      gone: "x",
+    });
+    expect(result).toEqual({
+      ok: true,
+      entries: [
+        { fieldId: "cc", value: { value: "CC-100", values: [] } },
+        { fieldId: "launch", value: null },
+      ],
+    });
+  });
+
+  it("only touches sent fields in partial mode but still won't clear a required one", () => {
+    expect(
+      validateCustomFieldValues([costCenter, launch], { launch: "2026-11-01" }, { partial: true }),
+    ).toEqual({
+      ok: true,
+      entries: [{ fieldId: "launch", value: { value: "2026-11-01", values: [] } }],
+    });
+    expect(
+      validateCustomFieldValues([costCenter, launch], { cc: null }, { partial: true }),
+    ).toMatchObject({ ok: false, fieldId: "cc" });
+  });
+});
+
+describe("formatCustomFieldValue", () => {
+  it("joins multi-select values and leaves plain values as-is", () => {
+    expect(
+      formatCustomFieldValue("MULTI_SELECT", { value: null, values: ["Email", "Print"] }),
+    ).toBe("Email, Print");
+    expect(formatCustomFieldValue("TEXT", { value: "CMP-7", values: [] })).toBe("CMP-7");
+    expect(formatCustomFieldValue("NUMBER", { value: null, values: [] })).toBe("");
+  });
+});
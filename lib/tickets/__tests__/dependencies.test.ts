@@ -0,0 +1,120 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/dependencies.test.ts
+// @purpose: Unit tests for the pure ticket-dependency helpers — cycle
+//           detection and which blocker statuses count as resolved — plus
+//           the per-project visibility filter (with Prisma mocked).
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it, vi } from "vitest";
+import { TicketStatus } from "@prisma/client";
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    ticketDependency: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: mockPrisma,
+}));
+
+import {
+  describeOpenBlockers,
+  getTicketDependencies,
+  isBlockerResolved,
+  wouldCreateCycle,
+} from "../dependencies";
+
+describe("wouldCreateCycle", () => {
+  it("rejects a ticket blocking itself", () => {
+    expect(wouldCreateCycle([], "a", "a")).toBe(true);
+  });
+
+  it("allows a link between unrelated tickets", () => {
+    expect(wouldCreateCycle([{ blockerId: "a", blockedId: "b" }], "c", "d")).toBe(false);
+  });
+
+  it("detects a direct loop", () => {
+    // a blocks b; adding b blocks a closes the loop.
+    expect(wouldCreateCycle([{ blockerId: "a", blockedId: "b" }], "b", "a")).toBe(true);
+  });
+
+  it("detects a transitive loop", () => {
+    const edges = [
+      { blockerId: "a", blockedId: "b" },
+      { blockerId: "b", blockedId: "c" },
+    ];
+    expect(wouldCreateCycle(edges, "c", "a")).toBe(true);
+  });
+
+  it("allows diamonds that are not loops", () => {
+    const edges = [
+      { blockerId: "a", blockedId: "b" },
+      { blockerId: "a", blockedId: "c" },
+      { blockerId: "b", blockedId: "d" },
+    ];
+    expect(wouldCreateCycle(edges, "c", "d")).toBe(false);
+  });
+
+  it("terminates on graphs that already contain a loop", () => {
+    const edges = [
+      { blockerId: "x", blockedId: "y" },
+      { blockerId: "y", blockedId: "x" },
+    ];
+    expect(wouldCreateCycle(edges, "a", "x")).toBe(false);
+  });
+});
+
+describe("isBlockerResolved", () => {
+  it("treats DONE and CANCELED as resolved", () => {
+    expect(isBlockerResolved(TicketStatus.DONE)).toBe(true);
+    expect(isBlockerResolved(TicketStatus.CANCELED)).toBe(true);
+  });
+
+  it("treats open statuses as blocking", () => {
+    expect(isBlockerResolved(TicketStatus.TODO)).toBe(false);
+    expect(isBlockerResolved(TicketStatus.IN_PROGRESS)).toBe(false);
+    expect(isBlockerResolved(TicketStatus.IN_REVIEW)).toBe(false);
+  });
+});
+
+describe("describeOpenBlockers", () => {
+  it("lists blocker codes", () => {
+    const msg = describeOpenBlockers([
+      { id: "1", code: "WEB-1", title: "Logo", status: TicketStatus.TODO },
+      { id: "2", code: "WEB-2", title: "Banner", status: TicketStatus.IN_REVIEW },
+    ]);
+    expect(msg).toContain("WEB-1, WEB-2");
+    expect(msg).toContain("those tickets are");
+  });
+});
+
+describe("getTicketDependencies", () => {
+  const linked = (id: string, projectId: string, status: TicketStatus = TicketStatus.TODO) => ({
+    id,
+    title: `Ticket ${id}`,
+    status,
+    companyTicketNumber: 1,
+    projectId,
+    project: { code: projectId.toUpperCase() },
+  });
+
+  it("reduces links into hidden projects to counts", async () => {
+    mockPrisma.ticketDependency.findMany
+      .mockResolvedValueOnce([
+        { blocker: linked("a", "web") },
+        { blocker: linked("b", "secret") },
+        { blocker: linked("c", "secret", TicketStatus.DONE) },
+      ])
+      .mockResolvedValueOnce([{ blocked: linked("d", "secret") }]);
+
+    const deps = await getTicketDependencies("t", (projectId) => projectId === "web");
+
+    expect(deps.blockedBy.map((t) => t.id)).toEqual(["a"]);
+    expect(deps.blocking).toEqual([]);
+    expect(deps.hiddenBlockedBy).toBe(2);
+    expect(deps.hiddenOpenBlockers).toBe(1);
+    expect(deps.hiddenBlocking).toBe(1);
+    expect(JSON.stringify(deps)).not.toContain("Ticket b");
+  });
+});
@@ -0,0 +1,85 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/guest-review.test.ts
+// @purpose: Unit tests for guest review links — token shape, link state,
+//           password hashing and the unlock cookie
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+
+import {
+  generateGuestReviewToken,
+  guestAccessKey,
+  guestFeedbackText,
+  guestLinkState,
+  guestReviewExpiresAt,
+  hashGuestPassword,
+  hasGuestAccess,
+  isGuestReviewTokenShaped,
+  verifyGuestPassword,
+} from "../guest-review";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+describe("guest review tokens", () => {
+  it("generates tokens that pass the shape check", () => {
+    const token = generateGuestReviewToken();
+    expect(isGuestReviewTokenShaped(token)).toBe(true);
+    expect(generateGuestReviewToken()).not.toBe(token);
+  });
+
+  it("rejects short, long or non-url-safe tokens", () => {
+    expect(isGuestReviewTokenShaped(undefined)).toBe(false);
+    expect(isGuestReviewTokenShaped("abc")).toBe(false);
+    expect(isGuestReviewTokenShaped("a".repeat(81))).toBe(false);
+    expect(isGuestReviewTokenShaped(`${"a".repeat(40)}/../x`)).toBe(false);
+  });
+});
+
+describe("guestLinkState", () => {
+  it("is active until the expiry passes", () => {
+    const expiresAt = guestReviewExpiresAt(7, NOW);
+    expect(guestLinkState({ expiresAt, revokedAt: null }, NOW)).toBe("ACTIVE");
+    expect(guestLinkState({ expiresAt, revokedAt: null }, expiresAt)).toBe("EXPIRED");
+  });
+
+  it("reports revoked over expired", () => {
+    const expiresAt = guestReviewExpiresAt(1, NOW);
+    const later = guestReviewExpiresAt(2, NOW);
+    expect(guestLinkState({ expiresAt, revokedAt: NOW }, later)).toBe("REVOKED");
+  });
+});
+
+describe("guest passwords", () => {
+  it("verifies the password it hashed and nothing else", async () => {
+    const stored = await hashGuestPassword("open sesame");
+    expect(stored.startsWith("scrypt$")).toBe(true);
+    expect(await verifyGuestPassword("open sesame", stored)).toBe(true);
+    expect(await verifyGuestPassword("open sesame!", stored)).toBe(false);
+  });
+
+  it("rejects malformed hashes", async () => {
+    expect(await verifyGuestPassword("x", "plain")).toBe(false);
+  });
+});
+
+describe("hasGuestAccess", () => {
+  const link = { token: "t".repeat(43), passwordHash: "scrypt$salt$hash" };
+
+  it("lets everyone in when the link has no password", () => {
+    expect(hasGuestAccess({ ...link, passwordHash: null }, undefined)).toBe(true);
+  });
+
+  it("needs the cookie for the current password", () => {
+    expect(hasGuestAccess(link, undefined)).toBe(false);
+    expect(hasGuestAccess(link, guestAccessKey(link))).toBe(true);
+    const rotated = { ...link, passwordHash: "scrypt$salt$other" };
+    expect(hasGuestAccess(rotated, guestAccessKey(link))).toBe(false);
+  });
+});
+
+describe("guestFeedbackText", () => {
+  it("marks the text as coming from a guest", () => {
+    expect(guestFeedbackText("Ana", "Bigger logo", "pin")).toBe("Guest · Ana: Bigger logo");
+    expect(guestFeedbackText("Ana", "Love it", "comment")).toBe("Guest feedback from Ana: Love it");
+  });
+});
@@ -0,0 +1,115 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/pin-carry-over.test.ts
+// @purpose: Unit tests for carrying OPEN pins forward — asset name keys,
+//           previous → next asset matching and the per-revision summary
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+
+import {
+  type CarryOverAsset,
+  assetNameKey,
+  matchCarryOverAssets,
+  summarizeRevisionPins,
+} from "../pin-carry-over";
+
+function asset(
+  id: string,
+  originalName: string | null,
+  width: number | null = 1080,
+  height: number | null = 1080,
+): CarryOverAsset {
+  return { id, originalName, width, height };
+}
+
+describe("assetNameKey", () => {
+  it("drops case, extension and trailing version markers", () => {
+    expect(assetNameKey("Logo_v1.png")).toBe("logo");
+    expect(assetNameKey("logo-v2.jpg")).toBe("logo");
+    expect(assetNameKey("logo (2).png")).toBe("logo");
+    expect(assetNameKey("logo final.pdf")).toBe("logo");
+  });
+
+  it("returns null without a usable name", () => {
+    expect(assetNameKey(null)).toBeNull();
+    expect(assetNameKey("v2.png")).toBeNull();
+  });
+});
+
+describe("matchCarryOverAssets", () => {
+  it("pairs assets whose names match across versions", () => {
+    const matches = matchCarryOverAssets(
+      [asset("p1", "banner_v1.png"), asset("p2", "story_v1.png", 1080, 1920)],
+      [asset("n1", "story_v2.png", 1080, 1920), asset("n2", "banner_v2.png")],
+    );
+    expect(Object.fromEntries(matches)).toEqual({ p1: "n2", p2: "n1" });
+  });
+
+  it("prefers an identical name over a versioned one", () => {
+    const matches = matchCarryOverAssets(
+      [asset("p1", "icon1.png"), asset("p2", "icon2.png")],
+      [asset("n2", "icon2.png"), asset("n1", "icon1.png")],
+    );
+    expect(Object.fromEntries(matches)).toEqual({ p1: "n1", p2: "n2" });
+  });
+
+  it("refuses a name match with different dimensions", () => {
+    const matches = matchCarryOverAssets(
+      [asset("p1", "post.png", 1080, 1080)],
+      [asset("n1", "post.png", 1200, 628)],
+    );
+    expect(matches.size).toBe(0);
+  });
+
+  it("matches by name when dimensions are unknown (PDFs)", () => {
+    const matches = matchCarryOverAssets(
+      [asset("p1", "deck.pdf", null, null)],
+      [asset("n1", "deck_v2.pdf", null, null)],
+    );
+    expect(matches.get("p1")).toBe("n1");
+  });
+
+  it("falls back to dimensions for a single renamed asset", () => {
+    expect(
+      matchCarryOverAssets([asset("p1", "draft.png")], [asset("n1", "hero.png")]).get("p1"),
+    ).toBe("n1");
+    // …but not when more than one new asset has those dimensions.
+    expect(
+      matchCarryOverAssets(
+        [asset("p1", "draft.png")],
+        [asset("n1", "hero.png"), asset("n2", "alt.png")],
+      ).size,
+    ).toBe(0);
+  });
+
+  it("uses each new asset at most once", () => {
+    const matches = matchCarryOverAssets(
+      [asset("p1", "logo_v1.png"), asset("p2", "logo_v1 (2).png")],
+      [asset("n1", "logo_v2.png")],
+    );
+    expect(matches.size).toBe(1);
+  });
+});
+
+describe("summarizeRevisionPins", () => {
+  it("counts open, resolved, carried and confirmed pins", () => {
+    const base = { carriedFromPinId: null, carryOverReview: null, carriedTo: null };
+    const summary = summarizeRevisionPins([
+      { ...base, status: "OPEN" },
+      { ...base, status: "OPEN", carriedTo: { id: "next" } },
+      { ...base, status: "OPEN", carriedFromPinId: "a", carryOverReview: "PENDING" },
+      { ...base, status: "RESOLVED", carriedFromPinId: "b", carryOverReview: "FIXED" },
+      { ...base, status: "OPEN", carriedFromPinId: "c", carryOverReview: "STILL_OPEN" },
+    ]);
+    expect(summary).toEqual({
+      total: 5,
+      open: 4,
+      resolved: 1,
+      carriedIn: 3,
+      awaitingConfirmation: 1,
+      confirmedFixed: 1,
+      confirmedStillOpen: 1,
+      carriedForward: 1,
+    });
+  });
+});
@@ -0,0 +1,131 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/reopen.test.ts
+// @purpose: Unit tests for the correction-reopen window check and the plan
+//           concurrency gate (with Prisma mocked)
+// -----------------------------------------------------------------------------
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TicketStatus } from "@prisma/client";
+
+const { mockPrisma, mockConcurrency } = vi.hoisted(() => {
+  const mockPrisma = {
+    $transaction: vi.fn(),
+    ticket: { findFirst: vi.fn(), updateMany: vi.fn(), findUniqueOrThrow: vi.fn() },
+    ticketRevision: { findFirst: vi.fn(), update: vi.fn() },
+    tokenLedger: { findFirst: vi.fn(), update: vi.fn() },
+  };
+  mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(mockPrisma));
+  return { mockPrisma, mockConcurrency: vi.fn() };
+});
+
+vi.mock("@/lib/prisma", () => ({ prisma: mockPrisma }));
+vi.mock("@/lib/app-settings", () => ({ getAppSettingInt: vi.fn(async () => 48) }));
+vi.mock("@/lib/notifications", () => ({ notifyTicketWatchers: vi.fn() }));
+vi.mock("@/lib/tickets/status-history", () => ({ recordStatusEvent: vi.fn() }));
+vi.mock("@/lib/tickets/plan-concurrency", () => ({ getCompanyConcurrency: mockConcurrency }));
+
+import { checkReopenEligibility, reopenTicket } from "../reopen";
+
+const HOUR = 60 * 60 * 1000;
+const completedAt = new Date(Date.UTC(2026, 9, 19, 10));
+const done = { status: TicketStatus.DONE, reopenCount: 0, completedAt };
+const after = (hours: number) => new Date(completedAt.getTime() + hours * HOUR);
+
+describe("checkReopenEligibility", () => {
+  it("allows a reopen inside the window and reports the deadline", () => {
+    const result = checkReopenEligibility(done, 48, after(1));
+    expect(result).toEqual({ ok: true, deadline: after(48) });
+  });
+
+  it("still allows a reopen at the exact deadline", () => {
+    expect(checkReopenEligibility(done, 48, after(48)).ok).toBe(true);
+  });
+
+  it("rejects once the window has closed", () => {
+    expect(checkReopenEligibility(done, 48, after(49))).toEqual({
+      ok: false,
+      code: "WINDOW_CLOSED",
+      deadline: after(48),
+    });
+  });
+
+  it("rejects tickets that aren't DONE or have no completion time", () => {
+    expect(
+      checkReopenEligibility({ ...done, status: TicketStatus.IN_REVIEW }, 48, after(1)),
+    ).toMatchObject({ ok: false, code: "NOT_DONE" });
+    expect(checkReopenEligibility({ ...done, completedAt: null }, 48, after(1))).toMatchObject({
+      ok: false,
+      code: "NOT_DONE",
+    });
+  });
+
+  it("allows only one correction per ticket", () => {
+    expect(checkReopenEligibility({ ...done, reopenCount: 1 }, 48, after(1))).toMatchObject({
+      ok: false,
+      code: "ALREADY_REOPENED",
+    });
+  });
+
+  it("treats a zero or negative window as disabled", () => {
+    expect(checkReopenEligibility(done, 0, after(0))).toMatchObject({
+      ok: false,
+      code: "DISABLED",
+    });
+    expect(checkReopenEligibility(done, -5, after(0))).toMatchObject({
+      ok: false,
+      code: "DISABLED",
+    });
+  });
+});
+
+describe("reopenTicket", () => {
+  const input = { ticketId: "t1", companyId: "c1", actorId: "u1", message: "Fix the logo" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.ticket.findFirst.mockResolvedValue({
+      id: "t1",
+      title: "Banner",
+      status: TicketStatus.DONE,
+      reopenCount: 0,
+      completedAt: new Date(Date.now() - HOUR),
+      creativeId: "cr1",
+    });
+    mockPrisma.ticket.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.ticketRevision.findFirst.mockResolvedValue(null);
+    mockPrisma.tokenLedger.findFirst.mockResolvedValue(null);
+    mockPrisma.ticket.findUniqueOrThrow.mockResolvedValue({
+      id: "t1",
+      status: TicketStatus.IN_PROGRESS,
+      reopenCount: 1,
+      updatedAt: new Date(),
+    });
+  });
+
+  it("refuses when the company has no free in-progress slot", async () => {
+    const concurrency = { plan: "Starter", maxConcurrentInProgress: 1, currentInProgress: 1 };
+    mockConcurrency.mockResolvedValue(concurrency);
+
+    const result = await reopenTicket(input);
+
+    expect(result).toMatchObject({
+      success: false,
+      code: "CONCURRENCY_LIMIT",
+      details: concurrency,
+    });
+    expect(mockPrisma.ticket.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("reopens into IN_PROGRESS when a slot is free", async () => {
+    mockConcurrency.mockResolvedValue({
+      plan: "Starter",
+      maxConcurrentInProgress: 2,
+      currentInProgress: 1,
+    });
+
+    const result = await reopenTicket(input);
+
+    expect(result).toMatchObject({ success: true, ticket: { status: TicketStatus.IN_PROGRESS } });
+    expect(mockPrisma.ticket.updateMany).toHaveBeenCalledTimes(1);
+  });
+});
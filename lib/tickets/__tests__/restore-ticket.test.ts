@@ -0,0 +1,103 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/restore-ticket.test.ts
+// @purpose: Unit tests for restoring a cancelled ticket — the debit mirrors
+//           the cancel's REFUND ledger row (with Prisma mocked)
+// -----------------------------------------------------------------------------
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { LedgerDirection, TicketStatus } from "@prisma/client";
+
+const { mockPrisma } = vi.hoisted(() => {
+  const mockPrisma = {
+    $transaction: vi.fn(),
+    ticket: { findFirst: vi.fn(), updateMany: vi.fn() },
+    tokenLedger: { findMany: vi.fn(), create: vi.fn() },
+    company: { updateMany: vi.fn(), findUniqueOrThrow: vi.fn(), findUnique: vi.fn() },
+    ticketStatusEvent: { create: vi.fn() },
+  };
+  mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(mockPrisma));
+  return { mockPrisma };
+});
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: mockPrisma,
+}));
+
+vi.mock("@/lib/tickets/status-history", () => ({
+  recordStatusEvent: vi.fn(),
+}));
+
+import { pendingRefund, restoreCanceledTicket } from "../restore-ticket";
+
+const refundRow = (id: string, amount: number, day: string) => ({
+  id,
+  reason: "REFUND",
+  direction: LedgerDirection.CREDIT,
+  amount,
+  createdAt: new Date(`${day}T10:00:00Z`),
+});
+const restoredRow = (id: string, amount: number, day: string) => ({
+  ...refundRow(id, amount, day),
+  reason: "TICKET_RESTORED",
+  direction: LedgerDirection.DEBIT,
+});
+
+const input = { ticketId: "t1", companyId: "c1", actor: { id: "u1", email: "u1@example.com" } };
+
+describe("restoreCanceledTicket", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.ticket.findFirst.mockResolvedValue({
+      id: "t1",
+      title: "Banner",
+      status: TicketStatus.CANCELED,
+      companyTicketNumber: 7,
+      jobType: { id: "j1" },
+      company: { tokenBalance: 100 },
+    });
+    mockPrisma.ticket.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.company.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.company.findUniqueOrThrow.mockResolvedValue({ tokenBalance: 88 });
+    mockPrisma.tokenLedger.create.mockResolvedValue({ id: "ledger-debit" });
+  });
+
+  it("debits the refunded amount rather than today's job type price", async () => {
+    mockPrisma.tokenLedger.findMany.mockResolvedValue([
+      refundRow("ledger-refund", 12, "2026-10-02"),
+    ]);
+
+    const result = await restoreCanceledTicket(input);
+
+    expect(result).toEqual({ success: true, ticketId: "t1", debitedTokens: 12, balanceAfter: 88 });
+    const debit = mockPrisma.tokenLedger.create.mock.calls[0][0].data;
+    expect(debit).toMatchObject({ amount: 12, reason: "TICKET_RESTORED" });
+    expect(debit.metadata).toMatchObject({ refundLedgerId: "ledger-refund" });
+  });
+
+  it("charges nothing when the last refund was already restored", async () => {
+    mockPrisma.tokenLedger.findMany.mockResolvedValue([
+      refundRow("ledger-refund", 12, "2026-10-01"),
+      restoredRow("ledger-restore", 12, "2026-10-02"),
+    ]);
+
+    const result = await restoreCanceledTicket(input);
+
+    expect(result).toMatchObject({ success: true, debitedTokens: 0, balanceAfter: null });
+    expect(mockPrisma.tokenLedger.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("pendingRefund", () => {
+  it("picks the newest refund after the last restore, whatever the input order", () => {
+    const entries = [
+      restoredRow("r1", 10, "2026-10-02"),
+      refundRow("f2", 8, "2026-10-03"),
+      refundRow("f1", 10, "2026-10-01"),
+    ];
+    expect(pendingRefund(entries)?.id).toBe("f2");
+  });
+
+  it("is null without a refund", () => {
+    expect(pendingRefund([])).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/saved-view-config.test.ts
+// @purpose: Unit tests for saved view config normalization and the URL
+//           round-trip used by the customer tickets list and board
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_VIEW_CONFIG,
+  type SavedViewConfig,
+  hasViewParams,
+  normalizeViewConfig,
+  viewConfigFromSearchParams,
+  viewConfigToSearchParams,
+  viewConfigsEqual,
+} from "../saved-view-config";
+
+const config = (extra: Partial<SavedViewConfig>): SavedViewConfig => ({
+  ...DEFAULT_VIEW_CONFIG,
+  ...extra,
+});
+
+describe("normalizeViewConfig", () => {
+  it("falls back to defaults for missing or garbage input", () => {
+    expect(normalizeViewConfig(null, "TICKET_LIST")).toEqual(DEFAULT_VIEW_CONFIG);
+    expect(
+      normalizeViewConfig(
+        { status: "LOST", priority: 3, sortBy: "cost", sortDir: "up", groupBy: "owner" },
+        "TICKET_LIST",
+      ),
+    ).toEqual(DEFAULT_VIEW_CONFIG);
+  });
+
+  it("keeps only the grouping and columns the page offers", () => {
+    const normalized = normalizeViewConfig(
+      { groupBy: "status", status: "DONE", hiddenColumns: ["DONE", "due", "TODO"] },
+      "BOARD",
+    );
+    expect(normalized.groupBy).toBe("none");
+    expect(normalized.status).toBeNull();
+    expect(normalized.hiddenColumns).toEqual(["TODO", "DONE"]);
+  });
+
+  it("drops blank custom field filters and trims the search", () => {
+    const normalized = normalizeViewConfig(
+      { search: "  banner  ", customFields: { cc: " CC-1 ", launch: "  ", bad: 4 } },
+      "TICKET_LIST",
+    );
+    expect(normalized.search).toBe("banner");
+    expect(normalized.customFields).toEqual({ cc: "CC-1" });
+  });
+});
+
+describe("URL round-trip", () => {
+  it("leaves defaults out of the query string", () => {
+    expect(viewConfigToSearchParams(DEFAULT_VIEW_CONFIG).toString()).toBe("");
+  });
+
+  it("reproduces a list view from its query string", () => {
+    const view = config({
+      search: "launch",
+      status: "IN_REVIEW",
+      projectId: "p1",
+      priority: "HIGH",
+      tagId: "t1",
+      customFields: { cc: "CC-100" },
+      sortBy: "dueDate",
+      sortDir: "asc",
+      groupBy: "project",
+      hiddenColumns: ["assigned", "jobType"],
+    });
+    const params = viewConfigToSearchParams(view);
+    expect(params.get("cf_cc")).toBe("CC-100");
+    expect(params.get("hide")).toBe("assigned,jobType");
+    expect(viewConfigFromSearchParams(params, "TICKET_LIST")).toEqual(view);
+  });
+
+  it("detects whether a URL carries view state", () => {
+    expect(hasViewParams(new URLSearchParams(""))).toBe(false);
+    expect(hasViewParams(new URLSearchParams("view=abc"))).toBe(false);
+    expect(hasViewParams(new URLSearchParams("group=priority"))).toBe(true);
+    expect(hasViewParams(new URLSearchParams("cf_cc=1"))).toBe(true);
+  });
+});
+
+describe("viewConfigsEqual", () => {
+  it("ignores custom field key order", () => {
+    expect(
+      viewConfigsEqual(
+        config({ customFields: { a: "1", b: "2" } }),
+        config({ customFields: { b: "2", a: "1" } }),
+      ),
+    ).toBe(true);
+    expect(viewConfigsEqual(config({ groupBy: "priority" }), DEFAULT_VIEW_CONFIG)).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/sla.test.ts
+// @purpose: Unit tests for the pure SLA math — business-hour arithmetic and
+//           the per-ticket clock (pause in review, breach instant, met flag) —
+//           plus the attainment query (with Prisma mocked).
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it, vi } from "vitest";
+import { TicketStatus } from "@prisma/client";
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    ticket: {
+      findMany: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(0),
+    },
+  },
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: mockPrisma,
+}));
+
+import {
+  addBusinessMs,
+  businessMsBetween,
+  computeSlaClock,
+  getSlaAttainmentAnalytics,
+} from "../sla";
+import type { StatusEventLike } from "../status-history";
+
+const HOUR = 60 * 60 * 1000;
+
+// 2026-10-19 is a Monday; business hours are 09:00–17:00 UTC.
+const utc = (day: number, hour: number) => new Date(Date.UTC(2026, 9, day, hour));
+const MON = 19;
+const TUE = 20;
+const FRI = 23;
+const SAT = 24;
+
+function ev(from: TicketStatus, to: TicketStatus, createdAt: Date): StatusEventLike {
+  return { fromStatus: from, toStatus: to, createdAt };
+}
+
+describe("businessMsBetween", () => {
+  it("counts time inside the business day only", () => {
+    expect(businessMsBetween(utc(MON, 10), utc(MON, 12))).toBe(2 * HOUR);
+    expect(businessMsBetween(utc(MON, 6), utc(MON, 20))).toBe(8 * HOUR);
+  });
+
+  it("skips nights and weekends", () => {
+    expect(businessMsBetween(utc(FRI, 16), utc(MON + 7, 10))).toBe(2 * HOUR);
+    expect(businessMsBetween(utc(SAT, 9), utc(SAT + 1, 17))).toBe(0);
+  });
+
+  it("is zero for empty or reversed ranges", () => {
+    expect(businessMsBetween(utc(MON, 12), utc(MON, 10))).toBe(0);
+  });
+});
+
+describe("addBusinessMs", () => {
+  it("rolls over to the next business day", () => {
+    expect(addBusinessMs(utc(MON, 17), 8 * HOUR)).toEqual(utc(TUE, 17));
+    expect(addBusinessMs(utc(FRI, 15), 4 * HOUR)).toEqual(utc(MON + 7, 11));
+  });
+
+  it("starts counting at the next opening outside business hours", () => {
+    expect(addBusinessMs(utc(SAT, 12), HOUR)).toEqual(utc(MON + 7, 10));
+    expect(addBusinessMs(utc(MON, 7), HOUR)).toEqual(utc(MON, 10));
+  });
+});
+
+describe("computeSlaClock", () => {
+  it("runs from creation while the ticket is open", () => {
+    const clock = computeSlaClock(
+      { startAt: utc(MON, 9), targetHours: 8, status: TicketStatus.TODO, events: [] },
+      utc(MON, 13),
+    );
+    expect(clock.consumedMs).toBe(4 * HOUR);
+    expect(clock.dueAt).toEqual(utc(MON, 17));
+    expect(clock.breachedAt).toBeNull();
+    expect(clock.running).toBe(true);
+    expect(clock.met).toBeNull();
+  });
+
+  it("pauses in review and resumes with the remaining time", () => {
+    const events = [
+      ev(TicketStatus.TODO, TicketStatus.IN_PROGRESS, utc(MON, 10)),
+      ev(TicketStatus.IN_PROGRESS, TicketStatus.IN_REVIEW, utc(MON, 13)),
+    ];
+
+    const paused = computeSlaClock(
+      { startAt: utc(MON, 9), targetHours: 8, status: TicketStatus.IN_REVIEW, events },
+      utc(TUE, 15),
+    );
+    expect(paused.consumedMs).toBe(4 * HOUR);
+    expect(paused.pausedAt).toEqual(utc(MON, 13));
+    expect(paused.dueAt).toBeNull();
+    expect(paused.running).toBe(false);
+
+    const resumed = computeSlaClock(
+      {
+        startAt: utc(MON, 9),
+        targetHours: 8,
+        status: TicketStatus.IN_PROGRESS,
+        events: [...events, ev(TicketStatus.IN_REVIEW, TicketStatus.IN_PROGRESS, utc(TUE, 10))],
+      },
+      utc(TUE, 11),
+    );
+    expect(resumed.consumedMs).toBe(5 * HOUR);
+    expect(resumed.pausedAt).toBeNull();
+    expect(resumed.dueAt).toEqual(utc(TUE, 14));
+  });
+
+  it("reports the exact breach instant", () => {
+    const clock = computeSlaClock(
+      { startAt: utc(MON, 9), targetHours: 2, status: TicketStatus.TODO, events: [] },
+      utc(MON, 12),
+    );
+    expect(clock.breachedAt).toEqual(utc(MON, 11));
+    expect(clock.dueAt).toEqual(utc(MON, 11));
+  });
+
+  it("settles met / missed when the ticket is done", () => {
+    const events = [
+      ev(TicketStatus.TODO, TicketStatus.IN_PROGRESS, utc(MON, 10)),
+      ev(TicketStatus.IN_PROGRESS, TicketStatus.DONE, utc(MON, 16)),
+    ];
+    const input = { startAt: utc(MON, 9), status: TicketStatus.DONE, events };
+
+    expect(computeSlaClock({ ...input, targetHours: 8 }, utc(TUE, 12)).met).toBe(true);
+
+    const missed = computeSlaClock({ ...input, targetHours: 4 }, utc(TUE, 12));
+    expect(missed.met).toBe(false);
+    expect(missed.breachedAt).toEqual(utc(MON, 13));
+    // The clock stopped at DONE — time after delivery isn't counted.
+    expect(missed.consumedMs).toBe(7 * HOUR);
+  });
+});
+
+describe("getSlaAttainmentAnalytics", () => {
+  it("counts tickets completed through the token engine (no completedAt)", async () => {
+    const since = utc(MON, 0);
+    mockPrisma.ticket.findMany.mockResolvedValueOnce([
+      {
+        slaMet: false,
+        creative: { id: "cr-1", name: "Cara", email: "cara@example.com" },
+        company: { id: "co-1", name: "Acme" },
+      },
+    ]);
+
+    const result = await getSlaAttainmentAnalytics({ since });
+
+    const where = mockPrisma.ticket.findMany.mock.calls[0][0].where;
+    expect(where.OR).toEqual([
+      { completedAt: { gte: since } },
+      { completedAt: null, updatedAt: { gte: since } },
+    ]);
+    expect(result.overall).toEqual({ met: 0, breached: 1, attainmentPct: 0 });
+    expect(result.byCreative[0]).toMatchObject({ creativeId: "cr-1", breached: 1 });
+    expect(result.byCompany[0]).toMatchObject({ companyId: "co-1", breached: 1 });
+  });
+});
@@ -0,0 +1,147 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/status-history.test.ts
+// @purpose: Unit tests for the pure status-history metrics — per-ticket
+//           lead / cycle / time-in-status math and the summary roll-up.
+// -----------------------------------------------------------------------------
+
+import { describe, expect, it } from "vitest";
+import { TicketStatus } from "@prisma/client";
+
+import {
+  computeTicketCycleMetrics,
+  summarizeCycleMetrics,
+  summarizeDurations,
+  type StatusEventLike,
+} from "../status-history";
+
+const HOUR = 60 * 60 * 1000;
+const T0 = new Date("2026-01-01T00:00:00Z");
+
+function at(hours: number): Date {
+  return new Date(T0.getTime() + hours * HOUR);
+}
+
+function ev(from: TicketStatus, to: TicketStatus, hours: number): StatusEventLike {
+  return { fromStatus: from, toStatus: to, createdAt: at(hours) };
+}
+
+describe("computeTicketCycleMetrics", () => {
+  it("falls back to completedAt for legacy tickets without history", () => {
+    const m = computeTicketCycleMetrics(
+      { createdAt: T0, status: TicketStatus.DONE, completedAt: at(10) },
+      [],
+      at(100),
+    );
+    expect(m.hasHistory).toBe(false);
+    expect(m.leadTimeMs).toBe(10 * HOUR);
+    expect(m.cycleTimeMs).toBeNull();
+    expect(m.timeInStatusMs).toEqual({ TODO: 0, IN_PROGRESS: 0, IN_REVIEW: 0 });
+  });
+
+  it("returns null lead time for an open legacy ticket", () => {
+    const m = computeTicketCycleMetrics({ createdAt: T0, status: TicketStatus.TODO }, [], at(5));
+    expect(m.leadTimeMs).toBeNull();
+  });
+
+  it("splits time across columns for a straight-through ticket", () => {
+    const m = computeTicketCycleMetrics({ createdAt: T0, status: TicketStatus.DONE }, [
+      ev(TicketStatus.TODO, TicketStatus.IN_PROGRESS, 2),
+      ev(TicketStatus.IN_PROGRESS, TicketStatus.IN_REVIEW, 8),
+      ev(TicketStatus.IN_REVIEW, TicketStatus.DONE, 11),
+    ]);
+    expect(m.hasHistory).toBe(true);
+    expect(m.leadTimeMs).toBe(11 * HOUR);
+    expect(m.cycleTimeMs).toBe(9 * HOUR);
+    expect(m.timeInStatusMs).toEqual({
+      TODO: 2 * HOUR,
+      IN_PROGRESS: 6 * HOUR,
+      IN_REVIEW: 3 * HOUR,
+    });
+    expect(m.reviewRoundTrips).toBe(0);
+  });
+
+  it("counts review round-trips and measures cycle time from the first start", () => {
+    const m = computeTicketCycleMetrics({ createdAt: T0, status: TicketStatus.DONE }, [
+      ev(TicketStatus.TODO, TicketStatus.IN_PROGRESS, 1),
+      ev(TicketStatus.IN_PROGRESS, TicketStatus.IN_REVIEW, 3),
+      ev(TicketStatus.IN_REVIEW, TicketStatus.IN_PROGRESS, 4),
+      ev(TicketStatus.IN_PROGRESS, TicketStatus.IN_REVIEW, 6),
+      ev(TicketStatus.IN_REVIEW, TicketStatus.IN_PROGRESS, 7),
+      ev(TicketStatus.IN_PROGRESS, TicketStatus.IN_REVIEW, 9),
+      ev(TicketStatus.IN_REVIEW, TicketStatus.DONE, 10),
+    ]);
+    expect(m.reviewRoundTrips).toBe(2);
+    expect(m.cycleTimeMs).toBe(9 * HOUR);
+    expect(m.timeInStatusMs.IN_PROGRESS).toBe(6 * HOUR);
+    expect(m.timeInStatusMs.IN_REVIEW).toBe(3 * HOUR);
+  });
+
+  it("starts AI tickets in IN_PROGRESS at createdAt", () => {
+    const m = computeTicketCycleMetrics({ createdAt: T0, status: TicketStatus.DONE }, [
+      ev(TicketStatus.IN_PROGRESS, TicketStatus.IN_REVIEW, 1),
+      ev(TicketStatus.IN_REVIEW, TicketStatus.DONE, 3),
+    ]);
+    expect(m.cycleTimeMs).toBe(3 * HOUR);
+    expect(m.timeInStatusMs.TODO).toBe(0);
+  });
+
+  it("runs the open segment until now and reports no lead time", () => {
+    const m = computeTicketCycleMetrics(
+      { createdAt: T0, status: TicketStatus.IN_PROGRESS },
+      [ev(TicketStatus.TODO, TicketStatus.IN_PROGRESS, 2)],
+      at(5),
+    );
+    expect(m.leadTimeMs).toBeNull();
+    expect(m.cycleTimeMs).toBeNull();
+    expect(m.timeInStatusMs.IN_PROGRESS).toBe(3 * HOUR);
+  });
+
+  it("uses the last DONE when a ticket was completed more than once", () => {
+    const m = computeTicketCycleMetrics({ createdAt: T0, status: TicketStatus.DONE }, [
+      ev(TicketStatus.TODO, TicketStatus.IN_PROGRESS, 1),
+      ev(TicketStatus.IN_PROGRESS, TicketStatus.DONE, 2),
+      ev(TicketStatus.DONE, TicketStatus.IN_PROGRESS, 5),
+      ev(TicketStatus.IN_PROGRESS, TicketStatus.DONE, 8),
+    ]);
+    expect(m.leadTimeMs).toBe(8 * HOUR);
+    expect(m.timeInStatusMs.IN_PROGRESS).toBe(4 * HOUR);
+  });
+});
+
+describe("summarizeDurations", () => {
+  it("returns null for an empty list", () => {
+    expect(summarizeDurations([])).toBeNull();
+  });
+
+  it("computes avg / median / p90 in hours", () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((h) => h * HOUR);
+    expect(summarizeDurations(values)).toEqual({
+      avgHours: 5.5,
+      medianHours: 5,
+      p90Hours: 9,
+    });
+  });
+});
+
+describe("summarizeCycleMetrics", () => {
+  it("averages time-in-status and round-trips over history-backed tickets only", () => {
+    const withHistory = computeTicketCycleMetrics({ createdAt: T0, status: TicketStatus.DONE }, [
+      ev(TicketStatus.TODO, TicketStatus.IN_PROGRESS, 2),
+      ev(TicketStatus.IN_PROGRESS, TicketStatus.IN_REVIEW, 4),
+      ev(TicketStatus.IN_REVIEW, TicketStatus.IN_PROGRESS, 5),
+      ev(TicketStatus.IN_PROGRESS, TicketStatus.DONE, 6),
+    ]);
+    const legacy = computeTicketCycleMetrics(
+      { createdAt: T0, status: TicketStatus.DONE, completedAt: at(20) },
+      [],
+    );
+
+    const summary = summarizeCycleMetrics([withHistory, legacy]);
+    expect(summary.sampleSize).toBe(2);
+    expect(summary.withHistory).toBe(1);
+    expect(summary.leadTime?.avgHours).toBe(13);
+    expect(summary.cycleTime?.avgHours).toBe(4);
+    expect(summary.avgTimeInStatusHours).toEqual({ TODO: 2, IN_PROGRESS: 3, IN_REVIEW: 1 });
+    expect(summary.avgReviewRoundTrips).toBe(1);
+  });
+});
@@ -0,0 +1,34 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/__tests__/template-title.test.ts
+// @purpose: Unit tests for ticket template title pattern expansion
+// -----------------------------------------------------------------------------
+
+import { describe, it, expect } from "vitest";
+import { renderTitlePattern } from "../template-title";
+
+// Local-time dates — the pattern is expanded in the customer's browser.
+const oct19 = new Date(2026, 9, 19, 10, 30);
+
+describe("renderTitlePattern", () => {
+  it("leaves plain titles untouched", () => {
+    expect(renderTitlePattern("Homepage hero refresh", oct19)).toBe("Homepage hero refresh");
+  });
+
+  it("expands date, month and year tokens", () => {
+    expect(renderTitlePattern("Newsletter header — {month} {year}", oct19)).toBe(
+      "Newsletter header — October 2026",
+    );
+    expect(renderTitlePattern("Daily recap {date}", oct19)).toBe("Daily recap 2026-10-19");
+  });
+
+  it("expands the ISO week number", () => {
+    expect(renderTitlePattern("Social pack W{week}", oct19)).toBe("Social pack W43");
+    // Jan 1st 2027 is a Friday, so it still belongs to week 53 of 2026.
+    expect(renderTitlePattern("W{week}", new Date(2027, 0, 1))).toBe("W53");
+    expect(renderTitlePattern("W{week}", new Date(2027, 0, 4))).toBe("W1");
+  });
+
+  it("is case-insensitive and keeps unknown tokens", () => {
+    expect(renderTitlePattern("{MONTH} / {client}", oct19)).toBe("October / {client}");
+  });
+});
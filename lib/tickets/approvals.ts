@@ -0,0 +1,522 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/approvals.ts
+// @purpose: Multi-stakeholder approval chains. A company (or one of its
+//           projects) can require sign-off from several people before a
+//           ticket may be marked DONE — in a fixed order (SEQUENTIAL) or in
+//           any order (PARALLEL), with a minimum number of approvals.
+//
+// Sign-offs are TicketRevisionApproval rows on the ticket's latest revision,
+// so a new revision starts the chain over. Any approver requesting changes
+// sends the ticket back to IN_PROGRESS, the same as the board's "Request
+// changes". The DONE paths (/api/customer/tickets/status,
+// /api/tickets/[id]/complete and the admin bulk status change) call
+// checkApprovalGate() before completing.
+//
+// evaluateApprovals() is pure so the chain rules are unit-testable; the rest
+// are thin loaders / writers around it. Like ./transition-status.ts, the
+// writer returns who to notify and leaves sending to the route.
+// -----------------------------------------------------------------------------
+
+import { ApprovalDecision, ApprovalMode, Prisma, TicketStatus } from "@prisma/client";
+
+import { createNotification } from "@/lib/notifications";
+import { prisma } from "@/lib/prisma";
+import { getCompanyConcurrency } from "@/lib/tickets/plan-concurrency";
+import { recordStatusEvent } from "@/lib/tickets/status-history";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export type ApprovalApprover = {
+  userId: string;
+  name: string | null;
+  position: number;
+  label: string | null;
+};
+
+export type ApprovalPolicy = {
+  id: string;
+  projectId: string | null;
+  mode: ApprovalMode;
+  minApprovals: number;
+  approvers: ApprovalApprover[];
+};
+
+export type ApprovalRecord = {
+  approverId: string;
+  decision: ApprovalDecision;
+  message: string | null;
+  createdAt: Date;
+};
+
+export type ApprovalStep = ApprovalApprover & {
+  decision: ApprovalDecision | null;
+  message: string | null;
+  decidedAt: Date | null;
+  /** This approver is being asked to decide right now. */
+  awaiting: boolean;
+};
+
+export type ApprovalState = {
+  mode: ApprovalMode;
+  required: number;
+  approved: number;
+  satisfied: boolean;
+  /** Someone on the chain asked for changes on this revision. */
+  changesRequested: boolean;
+  steps: ApprovalStep[];
+  awaitingUserIds: string[];
+};
+
+// ---------------------------------------------------------------------------
+// Chain rules (pure)
+// ---------------------------------------------------------------------------
+
+/** minApprovals, kept between 1 and the number of approvers. */
+export function requiredApprovals(policy: Pick<ApprovalPolicy, "minApprovals" | "approvers">) {
+  return Math.max(1, Math.min(policy.minApprovals, policy.approvers.length));
+}
+
+/**
+ * Where a revision stands against a policy. PARALLEL counts every approval;
+ * SEQUENTIAL only counts the unbroken run of approvals from the top of the
+ * list, and asks one approver at a time. Decisions from people no longer on
+ * the chain are ignored. Nobody is asked once the chain is satisfied or
+ * someone requested changes.
+ */
+export function evaluateApprovals(
+  policy: Pick<ApprovalPolicy, "mode" | "minApprovals" | "approvers">,
+  records: ApprovalRecord[],
+): ApprovalState {
+  const byApprover = new Map(records.map((r) => [r.approverId, r]));
+  const ordered = [...policy.approvers].sort((a, b) => a.position - b.position);
+  const required = requiredApprovals(policy);
+
+  const isApproved = (userId: string) =>
+    byApprover.get(userId)?.decision === ApprovalDecision.APPROVED;
+
+  let approved: number;
+  if (policy.mode === ApprovalMode.SEQUENTIAL) {
+    const firstOpen = ordered.findIndex((a) => !isApproved(a.userId));
+    approved = firstOpen === -1 ? ordered.length : firstOpen;
+  } else {
+    approved = ordered.filter((a) => isApproved(a.userId)).length;
+  }
+
+  const changesRequested = ordered.some(
+    (a) => byApprover.get(a.userId)?.decision === ApprovalDecision.CHANGES_REQUESTED,
+  );
+  const satisfied = ordered.length > 0 && approved >= required;
+  const open = !satisfied && !changesRequested;
+
+  const awaitingUserIds = !open
+    ? []
+    : policy.mode === ApprovalMode.SEQUENTIAL
+      ? [ordered[approved].userId]
+      : ordered.filter((a) => !byApprover.has(a.userId)).map((a) => a.userId);
+
+  return {
+    mode: policy.mode,
+    required,
+    approved,
+    satisfied,
+    changesRequested,
+    awaitingUserIds,
+    steps: ordered.map((a) => {
+      const record = byApprover.get(a.userId);
+      return {
+        ...a,
+        decision: record?.decision ?? null,
+        message: record?.message ?? null,
+        decidedAt: record?.createdAt ?? null,
+        awaiting: awaitingUserIds.includes(a.userId),
+      };
+    }),
+  };
+}
+
+/** One-line summary of an unsatisfied chain, for gate errors. */
+export function describeApprovalState(state: ApprovalState): string {
+  if (state.changesRequested) {
+    return "An approver requested changes on this revision.";
+  }
+  const waiting = state.steps
+    .filter((s) => s.awaiting)
+    .map((s) => s.label || s.name || "an approver");
+  const progress = `${state.approved} of ${state.required} required approval${state.required === 1 ? "" : "s"}`;
+  return waiting.length > 0
+    ? `This ticket has ${progress}. Waiting on ${waiting.join(", ")}.`
+    : `This ticket has ${progress}.`;
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+export const APPROVAL_POLICY_SELECT = {
+  id: true,
+  projectId: true,
+  mode: true,
+  minApprovals: true,
+  approvers: {
+    orderBy: { position: "asc" },
+    select: { userId: true, position: true, label: true, user: { select: { name: true } } },
+  },
+} satisfies Prisma.TicketApprovalPolicySelect;
+
+type PolicyRow = Prisma.TicketApprovalPolicyGetPayload<{ select: typeof APPROVAL_POLICY_SELECT }>;
+
+export function toApprovalPolicy(row: PolicyRow): ApprovalPolicy {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    mode: row.mode,
+    minApprovals: row.minApprovals,
+    approvers: row.approvers.map((a) => ({
+      userId: a.userId,
+      name: a.user.name,
+      position: a.position,
+      label: a.label,
+    })),
+  };
+}
+
+/**
+ * The policy that applies to a ticket: its project's own policy, else the
+ * company default. Null when neither exists (no approval chain).
+ */
+export async function resolveApprovalPolicy(
+  db: Db,
+  input: { companyId: string; projectId: string | null },
+): Promise<ApprovalPolicy | null> {
+  const row =
+    (input.projectId
+      ? await db.ticketApprovalPolicy.findUnique({
+          where: { projectId: input.projectId },
+          select: APPROVAL_POLICY_SELECT,
+        })
+      : null) ??
+    (await db.ticketApprovalPolicy.findFirst({
+      where: { companyId: input.companyId, projectId: null },
+      select: APPROVAL_POLICY_SELECT,
+    }));
+
+  if (!row || row.approvers.length === 0) return null;
+  return toApprovalPolicy(row);
+}
+
+export type TicketApprovals = {
+  policy: ApprovalPolicy;
+  revision: { id: string; version: number } | null;
+  state: ApprovalState;
+};
+
+/** The ticket's policy and where its latest revision stands. Null without a policy. */
+export async function getTicketApprovals(
+  ticket: { id: string; companyId: string; projectId: string | null },
+  db: Db = prisma,
+): Promise<TicketApprovals | null> {
+  const policy = await resolveApprovalPolicy(db, ticket);
+  if (!policy) return null;
+
+  const revision = await db.ticketRevision.findFirst({
+    where: { ticketId: ticket.id },
+    orderBy: { version: "desc" },
+    select: {
+      id: true,
+      version: true,
+      approvals: { select: { approverId: true, decision: true, message: true, createdAt: true } },
+    },
+  });
+
+  return {
+    policy,
+    revision: revision ? { id: revision.id, version: revision.version } : null,
+    state: evaluateApprovals(policy, revision?.approvals ?? []),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// DONE gate
+// ---------------------------------------------------------------------------
+
+export type ApprovalGateResult =
+  | { ok: true }
+  | { ok: false; message: string; approvals: TicketApprovals };
+
+/** Whether the ticket's approval chain (if any) allows marking it DONE. */
+export async function checkApprovalGate(ticket: {
+  id: string;
+  companyId: string;
+  projectId: string | null;
+}): Promise<ApprovalGateResult> {
+  const approvals = await getTicketApprovals(ticket);
+  if (!approvals) return { ok: true };
+
+  if (!approvals.revision) {
+    return {
+      ok: false,
+      message: "This ticket needs an approved revision before it can be marked as done.",
+      approvals,
+    };
+  }
+  if (!approvals.state.satisfied) {
+    return { ok: false, message: describeApprovalState(approvals.state), approvals };
+  }
+  return { ok: true };
+}
+
+// ---------------------------------------------------------------------------
+// Notifying approvers
+// ---------------------------------------------------------------------------
+
+/** Ask each of `userIds` (never the actor) to sign off the revision. */
+export function requestApprovals(input: {
+  ticketId: string;
+  title: string;
+  revisionVersion: number;
+  userIds: string[];
+  actorId?: string | null;
+}): void {
+  for (const userId of input.userIds) {
+    if (userId === input.actorId) continue;
+    void createNotification({
+      userId,
+      type: "APPROVAL_REQUESTED",
+      title: "Your approval is needed",
+      message: `"${input.title}" v${input.revisionVersion} is waiting for your sign-off`,
+      ticketId: input.ticketId,
+      actorId: input.actorId ?? undefined,
+    });
+  }
+}
+
+/**
+ * Ask whoever the ticket's approval chain is waiting on. Called when a
+ * creative submits a revision for review; a no-op without a policy.
+ * Fire-and-forget — errors are logged and swallowed.
+ */
+export async function notifyAwaitingApprovers(
+  ticketId: string,
+  actorId?: string | null,
+): Promise<void> {
+  try {
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      select: { id: true, title: true, companyId: true, projectId: true },
+    });
+    if (!ticket) return;
+
+    const approvals = await getTicketApprovals(ticket);
+    if (!approvals?.revision) return;
+
+    requestApprovals({
+      ticketId: ticket.id,
+      title: ticket.title,
+      revisionVersion: approvals.revision.version,
+      userIds: approvals.state.awaitingUserIds,
+      actorId,
+    });
+  } catch (err) {
+    console.error("[approvals] notifyAwaitingApprovers failed", err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Deciding
+// ---------------------------------------------------------------------------
+
+export type DecideApprovalInput = {
+  ticketId: string;
+  companyId: string;
+  approverUserId: string;
+  decision: ApprovalDecision;
+  message: string | null;
+};
+
+type DecidedTicket = {
+  id: string;
+  title: string;
+  createdById: string;
+  creativeId: string | null;
+};
+
+export type DecideApprovalResult =
+  | {
+      success: true;
+      ticket: DecidedTicket;
+      revisionVersion: number;
+      state: ApprovalState;
+      /** Approvers asked for the first time by this decision. */
+      nextApproverIds: string[];
+      /** CHANGES_REQUESTED moved the ticket back to IN_PROGRESS. */
+      sentBack: boolean;
+    }
+  | {
+      success: false;
+      code:
+        | "NOT_FOUND"
+        | "NO_POLICY"
+        | "NOT_IN_REVIEW"
+        | "NOT_APPROVER"
+        | "NOT_YOUR_TURN"
+        | "ALREADY_DECIDED"
+        | "CONCURRENCY_LIMIT";
+      message: string;
+    };
+
+/**
+ * Record an approver's decision on the ticket's latest revision. Only
+ * approvers currently being asked may decide, once per revision.
+ */
+export async function decideRevisionApproval(
+  input: DecideApprovalInput,
+): Promise<DecideApprovalResult> {
+  const ticket = await prisma.ticket.findFirst({
+    where: { id: input.ticketId, companyId: input.companyId },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      companyId: true,
+      projectId: true,
+      createdById: true,
+      creativeId: true,
+    },
+  });
+  if (!ticket) {
+    return { success: false, code: "NOT_FOUND", message: "Ticket not found." };
+  }
+
+  const approvals = await getTicketApprovals(ticket);
+  if (!approvals) {
+    return {
+      success: false,
+      code: "NO_POLICY",
+      message: "This ticket has no approval chain.",
+    };
+  }
+  if (ticket.status !== TicketStatus.IN_REVIEW || !approvals.revision) {
+    return {
+      success: false,
+      code: "NOT_IN_REVIEW",
+      message: "Only a revision that is in review can be approved.",
+    };
+  }
+
+  const { state, revision } = approvals;
+  const step = state.steps.find((s) => s.userId === input.approverUserId);
+  if (!step) {
+    return {
+      success: false,
+      code: "NOT_APPROVER",
+      message: "You're not an approver on this ticket.",
+    };
+  }
+  if (step.decision) {
+    return {
+      success: false,
+      code: "ALREADY_DECIDED",
+      message: "You've already decided on this revision.",
+    };
+  }
+  if (!step.awaiting) {
+    return {
+      success: false,
+      code: "NOT_YOUR_TURN",
+      message: state.satisfied
+        ? "This revision already has every approval it needs."
+        : state.changesRequested
+          ? "Changes were already requested on this revision."
+          : "It's not your turn to approve yet.",
+    };
+  }
+
+  const sendBack = input.decision === ApprovalDecision.CHANGES_REQUESTED;
+
+  if (sendBack) {
+    const concurrency = await getCompanyConcurrency(ticket.companyId);
+    if (
+      concurrency.maxConcurrentInProgress > 0 &&
+      concurrency.currentInProgress >= concurrency.maxConcurrentInProgress
+    ) {
+      return {
+        success: false,
+        code: "CONCURRENCY_LIMIT",
+        message: "This company has reached its limit for active tickets in progress.",
+      };
+    }
+  }
+
+  const now = new Date();
+  let records: ApprovalRecord[];
+  try {
+    records = await prisma.$transaction(async (tx) => {
+      await tx.ticketRevisionApproval.create({
+        data: {
+          revisionId: revision.id,
+          approverId: input.approverUserId,
+          decision: input.decision,
+          message: input.message,
+        },
+      });
+
+      if (sendBack) {
+        await tx.ticketRevision.update({
+          where: { id: revision.id },
+          data: {
+            feedbackByCustomerId: input.approverUserId,
+            feedbackAt: now,
+            feedbackMessage: input.message,
+          },
+        });
+        await tx.ticket.update({
+          where: { id: ticket.id },
+          data: { status: TicketStatus.IN_PROGRESS },
+        });
+        await recordStatusEvent(
+          {
+            ticketId: ticket.id,
+            fromStatus: ticket.status,
+            toStatus: TicketStatus.IN_PROGRESS,
+            actorId: input.approverUserId,
+            source: "CUSTOMER_APPROVAL",
+            metadata: { revisionVersion: revision.version },
+          },
+          tx,
+        );
+      }
+
+      return tx.ticketRevisionApproval.findMany({
+        where: { revisionId: revision.id },
+        select: { approverId: true, decision: true, message: true, createdAt: true },
+      });
+    });
+  } catch (err) {
+    // Unique (revisionId, approverId): a double submit raced past the check.
+    if ((err as { code?: string })?.code === "P2002") {
+      return {
+        success: false,
+        code: "ALREADY_DECIDED",
+        message: "You've already decided on this revision.",
+      };
+    }
+    throw err;
+  }
+
+  const next = evaluateApprovals(approvals.policy, records);
+  const alreadyAsked = new Set(state.awaitingUserIds);
+
+  return {
+    success: true,
+    ticket: {
+      id: ticket.id,
+      title: ticket.title,
+      createdById: ticket.createdById,
+      creativeId: ticket.creativeId,
+    },
+    revisionVersion: revision.version,
+    state: next,
+    nextApproverIds: next.awaitingUserIds.filter((id) => !alreadyAsked.has(id)),
+    sentBack: sendBack,
+  };
+}
@@ -0,0 +1,231 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/archive.ts
+// @purpose: Customer ticket archive — CANCELED tickets plus DONE tickets
+//           completed more than TICKET_ARCHIVE_AFTER_DAYS ago, with their
+//           REFUND / restore ledger rows and remaining assets. Backs
+//           /api/customer/tickets/archive; restoring a cancelled ticket lives
+//           in ./restore-ticket.ts.
+//
+// The archive is a view, not a state: nothing is moved or flagged, so the
+// board and list queries are unaffected. The cutoff / where-clause builders
+// are pure so they are unit-testable without a database.
+// -----------------------------------------------------------------------------
+
+import { AssetKind, LedgerDirection, Prisma, TicketStatus } from "@prisma/client";
+
+import { getAppSettingInt } from "@/lib/app-settings";
+import { prisma } from "@/lib/prisma";
+import { resolveAssetUrl } from "@/lib/r2";
+import { searchTicketIds } from "@/lib/search/full-text";
+import { parseSearchTerms } from "@/lib/search/query";
+import { buildTicketCode } from "@/lib/ticket-code";
+import { pendingRefund } from "@/lib/tickets/restore-ticket";
+
+/** AppSetting key — days after completion before a DONE ticket is archived. */
+export const ARCHIVE_AFTER_DAYS_SETTING = "TICKET_ARCHIVE_AFTER_DAYS";
+const DEFAULT_ARCHIVE_AFTER_DAYS = 90;
+
+export const ARCHIVE_FILTERS = ["all", "canceled", "completed"] as const;
+export type ArchiveFilter = (typeof ARCHIVE_FILTERS)[number];
+
+/** Ledger reasons shown next to an archived ticket. */
+const ARCHIVE_LEDGER_REASONS = ["REFUND", "TICKET_RESTORED"];
+
+const MAX_ASSETS_PER_TICKET = 20;
+
+// ---------------------------------------------------------------------------
+// Where-clause (pure)
+// ---------------------------------------------------------------------------
+
+/** Completed before this instant → archived. */
+export function archiveCutoff(days: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - Math.max(days, 0) * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Archived tickets of one company. Not every completion path stamps
+ * completedAt, so a DONE ticket without one falls back to updatedAt.
+ */
+export function archivedTicketsWhere(
+  companyId: string,
+  cutoff: Date,
+  filter: ArchiveFilter = "all",
+): Prisma.TicketWhereInput {
+  const canceled: Prisma.TicketWhereInput = { status: TicketStatus.CANCELED };
+  const completed: Prisma.TicketWhereInput[] = [
+    { status: TicketStatus.DONE, completedAt: { lt: cutoff } },
+    { status: TicketStatus.DONE, completedAt: null, updatedAt: { lt: cutoff } },
+  ];
+
+  const branches =
+    filter === "canceled"
+      ? [canceled]
+      : filter === "completed"
+        ? completed
+        : [canceled, ...completed];
+
+  return { companyId, OR: branches };
+}
+
+// ---------------------------------------------------------------------------
+// Listing
+// ---------------------------------------------------------------------------
+
+export async function getArchiveAfterDays(): Promise<number> {
+  return getAppSettingInt(ARCHIVE_AFTER_DAYS_SETTING, DEFAULT_ARCHIVE_AFTER_DAYS);
+}
+
+export type ArchivedTicketDto = {
+  id: string;
+  code: string;
+  title: string;
+  status: TicketStatus;
+  projectName: string | null;
+  jobTypeName: string | null;
+  createdAt: Date;
+  /** When it was cancelled or completed. */
+  archivedAt: Date;
+  /** Tokens a restore would debit again; 0 for DONE tickets. */
+  restoreCost: number;
+  ledgerEntries: {
+    id: string;
+    reason: string | null;
+    direction: LedgerDirection;
+    amount: number;
+    notes: string | null;
+    createdAt: Date;
+  }[];
+  assets: {
+    id: string;
+    kind: AssetKind;
+    originalName: string | null;
+    mimeType: string;
+    bytes: number;
+    url: string | null;
+  }[];
+};
+
+export type ListArchivedTicketsInput = {
+  companyId: string;
+  /** Extra scoping, e.g. getProjectAccess().projectScopeWhere(). */
+  scopeWhere?: Prisma.TicketWhereInput;
+  search?: string;
+  filter?: ArchiveFilter;
+  limit: number;
+  offset: number;
+};
+
+/** One page of archived tickets, most recently created first. */
+export async function listArchivedTickets(input: ListArchivedTicketsInput): Promise<{
+  tickets: ArchivedTicketDto[];
+  total: number;
+  archiveAfterDays: number;
+}> {
+  const archiveAfterDays = await getArchiveAfterDays();
+  const and: Prisma.TicketWhereInput[] = [
+    archivedTicketsWhere(input.companyId, archiveCutoff(archiveAfterDays), input.filter),
+  ];
+  if (input.scopeWhere) and.push(input.scopeWhere);
+
+  const search = input.search?.trim();
+  if (search) {
+    // Project scoping is applied by scopeWhere, so search the whole company.
+    const fullTextIds = await searchTicketIds(
+      { kind: "CUSTOMER", companyId: input.companyId, projectIds: null },
+      parseSearchTerms(search),
+    );
+    and.push({
+      OR: [
+        { title: { contains: search, mode: "insensitive" } },
+        ...(fullTextIds.length > 0 ? [{ id: { in: fullTextIds } }] : []),
+      ],
+    });
+  }
+
+  const where: Prisma.TicketWhereInput = { AND: and };
+
+  const [rows, total] = await Promise.all([
+    prisma.ticket.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: input.limit,
+      skip: input.offset,
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        createdAt: true,
+        updatedAt: true,
+        completedAt: true,
+        companyTicketNumber: true,
+        project: { select: { name: true, code: true } },
+        jobType: { select: { name: true } },
+        statusEvents: {
+          where: { toStatus: TicketStatus.CANCELED },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { createdAt: true },
+        },
+        ledgerEntries: {
+          where: { userId: null, reason: { in: ARCHIVE_LEDGER_REASONS } },
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            reason: true,
+            direction: true,
+            amount: true,
+            notes: true,
+            createdAt: true,
+          },
+        },
+        assets: {
+          where: { deletedAt: null },
+          orderBy: { createdAt: "asc" },
+          take: MAX_ASSETS_PER_TICKET,
+          select: {
+            id: true,
+            kind: true,
+            originalName: true,
+            mimeType: true,
+            bytes: true,
+            storageKey: true,
+            url: true,
+          },
+        },
+      },
+    }),
+    prisma.ticket.count({ where }),
+  ]);
+
+  const tickets = await Promise.all(
+    rows.map(async (t): Promise<ArchivedTicketDto> => {
+      const isCanceled = t.status === TicketStatus.CANCELED;
+      return {
+        id: t.id,
+        code: buildTicketCode({
+          projectCode: t.project?.code,
+          companyTicketNumber: t.companyTicketNumber,
+          ticketId: t.id,
+        }),
+        title: t.title,
+        status: t.status,
+        projectName: t.project?.name ?? null,
+        jobTypeName: t.jobType?.name ?? null,
+        createdAt: t.createdAt,
+        archivedAt: isCanceled
+          ? (t.statusEvents[0]?.createdAt ?? t.updatedAt)
+          : (t.completedAt ?? t.updatedAt),
+        restoreCost: isCanceled ? (pendingRefund(t.ledgerEntries)?.amount ?? 0) : 0,
+        ledgerEntries: t.ledgerEntries,
+        assets: await Promise.all(
+          t.assets.map(async ({ storageKey, url, ...asset }) => ({
+            ...asset,
+            url: await resolveAssetUrl(storageKey, url),
+          })),
+        ),
+      };
+    }),
+  );
+
+  return { tickets, total, archiveAfterDays };
+}
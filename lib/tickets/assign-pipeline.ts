@@ -0,0 +1,254 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/assign-pipeline.ts
+// @purpose: The auto-assign candidate funnel — skill filter → declined →
+//           deleted → paused → tasksPerWeekCap → strategy pick — shared by
+//           ticket create (./create-ticket.ts), the admin backfill and
+//           decline re-routing (./backfill-assign.ts) and the read-only
+//           simulator (/api/debug/auto-assign/simulate).
+//
+// runAssignPipeline only reads, so it can run inside the create transaction
+// or on its own for a dry run. It returns every creative it looked at with
+// the stage that dropped them, so callers log counts and the simulator can
+// show the whole funnel from the same code path.
+// -----------------------------------------------------------------------------
+
+import { AutoAssignStrategy, Prisma, TicketPriority, TicketStatus, UserRole } from "@prisma/client";
+
+import { isCreativePaused } from "@/lib/creative-availability";
+import { prisma } from "@/lib/prisma";
+import {
+  type CreativeRatingSummary,
+  getCreativeRatingSummaries,
+} from "@/lib/ratings/creative-ratings";
+import {
+  type AssignStrategyPick,
+  loadAssignStrategySignals,
+  selectCreativeWithStrategy,
+} from "@/lib/tickets/assign-strategies";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/** Load weight per priority; an open ticket adds weight × tokenCost × quantity. */
+export const PRIORITY_WEIGHTS: Record<TicketPriority, number> = {
+  LOW: 1,
+  MEDIUM: 2,
+  HIGH: 3,
+  URGENT: 4,
+};
+
+const OPEN_STATUSES = [TicketStatus.TODO, TicketStatus.IN_PROGRESS, TicketStatus.IN_REVIEW];
+
+export function ticketLoad(input: {
+  priority: TicketPriority;
+  tokenCost: number | null | undefined;
+  quantity: number | null | undefined;
+}): number {
+  return PRIORITY_WEIGHTS[input.priority] * (input.tokenCost ?? 1) * (input.quantity ?? 1);
+}
+
+export type AssignExclusion = "DECLINED" | "DELETED" | "PAUSED" | "CAPPED";
+
+export type AssignFunnelCandidate = {
+  creativeId: string;
+  /** The first stage that dropped this creative; null = eligible. */
+  excludedBy: AssignExclusion | null;
+  openTicketCount: number;
+  tasksPerWeekCap: number | null;
+  load: number;
+};
+
+export type AssignFallbackMode = "no_creatives" | "no_skilled_creatives" | "all_skilled_at_cap";
+
+// ---------------------------------------------------------------------------
+// Filtering (pure)
+// ---------------------------------------------------------------------------
+
+/**
+ * Run the exclusion stages over `candidateIds` in order. `states` holds the
+ * live (non-deleted) creatives; an id missing from it was deleted. Open
+ * tickets drive both the cap filter (count) and the weighted load.
+ */
+export function filterAssignCandidates(input: {
+  candidateIds: string[];
+  excludeCreativeIds: string[];
+  states: {
+    id: string;
+    isPaused: boolean;
+    pauseExpiresAt: Date | null;
+    tasksPerWeekCap: number | null;
+  }[];
+  openTickets: {
+    creativeId: string | null;
+    priority: TicketPriority;
+    quantity: number | null;
+    jobType: { tokenCost: number } | null;
+  }[];
+}): AssignFunnelCandidate[] {
+  const excluded = new Set(input.excludeCreativeIds);
+  const stateById = new Map(input.states.map((s) => [s.id, s]));
+
+  const loadByCreative = new Map<string, number>();
+  const openCountByCreative = new Map<string, number>();
+  for (const t of input.openTickets) {
+    if (!t.creativeId) continue;
+    loadByCreative.set(
+      t.creativeId,
+      (loadByCreative.get(t.creativeId) ?? 0) +
+        ticketLoad({ priority: t.priority, tokenCost: t.jobType?.tokenCost, quantity: t.quantity }),
+    );
+    openCountByCreative.set(t.creativeId, (openCountByCreative.get(t.creativeId) ?? 0) + 1);
+  }
+
+  return input.candidateIds.map((creativeId) => {
+    const state = stateById.get(creativeId);
+    const openTicketCount = openCountByCreative.get(creativeId) ?? 0;
+    const tasksPerWeekCap = state?.tasksPerWeekCap ?? null;
+
+    let excludedBy: AssignExclusion | null = null;
+    if (excluded.has(creativeId)) excludedBy = "DECLINED";
+    else if (!state) excludedBy = "DELETED";
+    else if (isCreativePaused(state)) excludedBy = "PAUSED";
+    else if (tasksPerWeekCap != null && openTicketCount >= tasksPerWeekCap) excludedBy = "CAPPED";
+
+    return {
+      creativeId,
+      excludedBy,
+      openTicketCount,
+      tasksPerWeekCap,
+      load: loadByCreative.get(creativeId) ?? 0,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Pipeline
+// ---------------------------------------------------------------------------
+
+export type AssignPipelineResult = {
+  skillFiltered: boolean;
+  strategy: AutoAssignStrategy;
+  candidates: (AssignFunnelCandidate & {
+    /** Overall rating; only fetched for eligible creatives. */
+    rating: number | null;
+    /** The strategy's score; null when excluded or without a signal. */
+    score: number | null;
+  })[];
+  counts: {
+    skilled: number;
+    declined: number;
+    deleted: number;
+    paused: number;
+    capped: number;
+    eligible: number;
+  };
+  pick: AssignStrategyPick | null;
+  creativeId: string | null;
+  fallbackMode: AssignFallbackMode | null;
+};
+
+/**
+ * Find the creative auto-assign would pick for a ticket of `jobTypeId` (any
+ * creative when null) in `companyId`/`projectId`. Reads only.
+ */
+export async function runAssignPipeline(
+  db: Db,
+  input: {
+    jobTypeId: string | null;
+    companyId: string;
+    projectId: string | null;
+    strategy: AutoAssignStrategy;
+    excludeCreativeIds?: string[];
+  },
+): Promise<AssignPipelineResult> {
+  const { jobTypeId, companyId, projectId, strategy, excludeCreativeIds = [] } = input;
+  const skillFiltered = jobTypeId !== null;
+
+  const candidateIds = jobTypeId
+    ? (
+        await db.creativeSkill.findMany({
+          where: { jobTypeId },
+          select: { creativeId: true },
+        })
+      ).map((s) => s.creativeId)
+    : (
+        await db.userAccount.findMany({
+          where: { role: UserRole.DESIGNER, deletedAt: null },
+          select: { id: true },
+        })
+      ).map((u) => u.id);
+
+  // deletedAt: null — a skilled candidate may have been soft-deleted
+  // (anonymized) while keeping its CreativeSkill rows; it shows up as DELETED.
+  const states =
+    candidateIds.length === 0
+      ? []
+      : await db.userAccount.findMany({
+          where: { id: { in: candidateIds }, role: UserRole.DESIGNER, deletedAt: null },
+          select: { id: true, isPaused: true, pauseExpiresAt: true, tasksPerWeekCap: true },
+        });
+
+  const openTickets =
+    candidateIds.length === 0
+      ? []
+      : await db.ticket.findMany({
+          where: { creativeId: { in: candidateIds }, status: { in: OPEN_STATUSES } },
+          select: {
+            creativeId: true,
+            priority: true,
+            quantity: true,
+            jobType: { select: { tokenCost: true } },
+          },
+        });
+
+  const funnel = filterAssignCandidates({ candidateIds, excludeCreativeIds, states, openTickets });
+  const countOf = (stage: AssignExclusion) => funnel.filter((c) => c.excludedBy === stage).length;
+  const eligibleIds = funnel.filter((c) => c.excludedBy === null).map((c) => c.creativeId);
+
+  const counts = {
+    skilled: skillFiltered ? candidateIds.length : 0,
+    declined: countOf("DECLINED"),
+    deleted: countOf("DELETED"),
+    paused: countOf("PAUSED"),
+    capped: countOf("CAPPED"),
+    eligible: eligibleIds.length,
+  };
+
+  let fallbackMode: AssignFallbackMode | null = null;
+  let pick: AssignStrategyPick | null = null;
+  let ratingByCreative = new Map<string, CreativeRatingSummary>();
+
+  if (skillFiltered && candidateIds.length === 0) {
+    fallbackMode = "no_skilled_creatives";
+  } else if (eligibleIds.length === 0) {
+    fallbackMode = counts.capped > 0 ? "all_skilled_at_cap" : "no_creatives";
+  } else {
+    ratingByCreative = await getCreativeRatingSummaries(eligibleIds);
+    const signals = await loadAssignStrategySignals(db, {
+      strategy,
+      companyId,
+      projectId,
+      candidateIds: eligibleIds,
+    });
+    pick = selectCreativeWithStrategy(strategy, {
+      candidateIds: eligibleIds,
+      loadByCreative: new Map(funnel.map((c) => [c.creativeId, c.load])),
+      ratingByCreative,
+      ...signals,
+      now: new Date(),
+    });
+  }
+
+  return {
+    skillFiltered,
+    strategy,
+    candidates: funnel.map((c) => ({
+      ...c,
+      rating: ratingByCreative.get(c.creativeId)?.overall ?? null,
+      score: pick?.scores[c.creativeId] ?? null,
+    })),
+    counts,
+    pick,
+    creativeId: pick?.creativeId ?? null,
+    fallbackMode,
+  };
+}
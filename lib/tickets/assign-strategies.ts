@@ -0,0 +1,230 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/assign-strategies.ts
+// @purpose: Pluggable auto-assign strategies — the last step of the
+//           skill → pause → cap → pick pipeline in create-ticket.ts and
+//           backfill-assign.ts. Each strategy scores the eligible creatives
+//           from one signal and hands ties (or a pool with no signal at all)
+//           to selectCreativeByLoadThenRating, so every strategy degrades to
+//           the original load-balanced behaviour.
+//
+// The company picks a strategy (Company.autoAssignStrategy) and a project may
+// override it (Project.autoAssignStrategy, null = inherit). The chosen
+// strategy, per-creative scores and whether it fell back are written to
+// TicketAssignmentLog.metadata by the callers.
+// -----------------------------------------------------------------------------
+
+import { AutoAssignStrategy, Prisma, TicketStatus } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import type { CreativeRatingSummary } from "@/lib/ratings/creative-ratings";
+import { selectCreativeByLoadThenRating } from "@/lib/tickets/auto-assign";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export type AssignStrategyContext = {
+  /** Eligible creatives, already skill/pause/cap filtered. */
+  candidateIds: string[];
+  loadByCreative: Map<string, number>;
+  ratingByCreative: Map<string, CreativeRatingSummary>;
+  /** DONE tickets per creative in the ticket's project (empty without a project). */
+  projectDoneByCreative: Map<string, number>;
+  /** Creatives the company nominated as preferred. */
+  preferredCreativeIds: Set<string>;
+  /** When each creative last got an auto-assigned ticket from this company. */
+  lastAssignedAtByCreative: Map<string, Date>;
+  now: Date;
+};
+
+export type AssignStrategyPick = {
+  creativeId: string | null;
+  /** The strategy's score per candidate; higher is better, null = no signal. */
+  scores: Record<string, number | null>;
+  /** True when no candidate had a signal and load/rating decided alone. */
+  fellBack: boolean;
+};
+
+export interface AssignStrategy {
+  key: AutoAssignStrategy;
+  label: string;
+  description: string;
+  select(ctx: AssignStrategyContext): AssignStrategyPick;
+}
+
+// ---------------------------------------------------------------------------
+// Strategies (pure)
+// ---------------------------------------------------------------------------
+
+/**
+ * Keep the candidates with the highest non-null score and let load/rating
+ * choose among them. With no scored candidate the whole pool goes to
+ * load/rating and the pick is flagged as a fallback.
+ */
+function pickTopScored(
+  ctx: AssignStrategyContext,
+  scores: Record<string, number | null>,
+): AssignStrategyPick {
+  let top: number | null = null;
+  for (const id of ctx.candidateIds) {
+    const score = scores[id];
+    if (score != null && (top === null || score > top)) top = score;
+  }
+
+  const pool =
+    top === null ? ctx.candidateIds : ctx.candidateIds.filter((id) => scores[id] === top);
+  const creativeId = selectCreativeByLoadThenRating({
+    candidateIds: pool,
+    loadByCreative: ctx.loadByCreative,
+    ratingByCreative: ctx.ratingByCreative,
+  });
+  return { creativeId, scores, fellBack: top === null && ctx.candidateIds.length > 0 };
+}
+
+function scoreEach(
+  candidateIds: string[],
+  score: (id: string) => number | null,
+): Record<string, number | null> {
+  return Object.fromEntries(candidateIds.map((id) => [id, score(id)]));
+}
+
+const MINUTE_MS = 60_000;
+
+export const ASSIGN_STRATEGIES: Record<AutoAssignStrategy, AssignStrategy> = {
+  LOAD_BALANCED: {
+    key: AutoAssignStrategy.LOAD_BALANCED,
+    label: "Load balanced",
+    description: "The creative with the lightest open workload; higher rating breaks ties.",
+    select(ctx) {
+      // Lower load is better, so the score is the negated load.
+      const scores = scoreEach(ctx.candidateIds, (id) => -(ctx.loadByCreative.get(id) ?? 0));
+      return pickTopScored(ctx, scores);
+    },
+  },
+  PROJECT_CONTINUITY: {
+    key: AutoAssignStrategy.PROJECT_CONTINUITY,
+    label: "Project continuity",
+    description: "The creative who has completed the most tickets in the same project.",
+    select(ctx) {
+      const scores = scoreEach(ctx.candidateIds, (id) => {
+        const done = ctx.projectDoneByCreative.get(id) ?? 0;
+        return done > 0 ? done : null;
+      });
+      return pickTopScored(ctx, scores);
+    },
+  },
+  PREFERRED_CREATIVES: {
+    key: AutoAssignStrategy.PREFERRED_CREATIVES,
+    label: "Preferred creatives",
+    description: "One of your preferred creatives when one is available, balanced by workload.",
+    select(ctx) {
+      const scores = scoreEach(ctx.candidateIds, (id) =>
+        ctx.preferredCreativeIds.has(id) ? 1 : null,
+      );
+      return pickTopScored(ctx, scores);
+    },
+  },
+  ROUND_ROBIN: {
+    key: AutoAssignStrategy.ROUND_ROBIN,
+    label: "Round robin",
+    description: "Takes turns: the creative who has waited longest for one of your tickets.",
+    select(ctx) {
+      // Minutes since the creative's last ticket from this company. Never
+      // assigned ranks above everyone (Infinity isn't JSON, so MAX_SAFE).
+      const scores = scoreEach(ctx.candidateIds, (id) => {
+        const last = ctx.lastAssignedAtByCreative.get(id);
+        if (!last) return Number.MAX_SAFE_INTEGER;
+        return Math.floor((ctx.now.getTime() - last.getTime()) / MINUTE_MS);
+      });
+      return pickTopScored(ctx, scores);
+    },
+  },
+};
+
+/** Project override wins; null/undefined inherits the company strategy. */
+export function resolveAssignStrategy(
+  companyStrategy: AutoAssignStrategy,
+  projectStrategy?: AutoAssignStrategy | null,
+): AutoAssignStrategy {
+  return projectStrategy ?? companyStrategy;
+}
+
+export function selectCreativeWithStrategy(
+  strategy: AutoAssignStrategy,
+  ctx: AssignStrategyContext,
+): AssignStrategyPick {
+  if (ctx.candidateIds.length === 0) return { creativeId: null, scores: {}, fellBack: false };
+  return ASSIGN_STRATEGIES[strategy].select(ctx);
+}
+
+// ---------------------------------------------------------------------------
+// Signals
+// ---------------------------------------------------------------------------
+
+export type AssignStrategySignals = Pick<
+  AssignStrategyContext,
+  "projectDoneByCreative" | "preferredCreativeIds" | "lastAssignedAtByCreative"
+>;
+
+/**
+ * Load only the signal `strategy` reads; the others stay empty so the hot
+ * create-ticket path pays for one extra query at most.
+ */
+export async function loadAssignStrategySignals(
+  db: Db,
+  input: {
+    strategy: AutoAssignStrategy;
+    companyId: string;
+    projectId: string | null;
+    candidateIds: string[];
+  },
+): Promise<AssignStrategySignals> {
+  const { strategy, companyId, projectId, candidateIds } = input;
+  const signals: AssignStrategySignals = {
+    projectDoneByCreative: new Map(),
+    preferredCreativeIds: new Set(),
+    lastAssignedAtByCreative: new Map(),
+  };
+  if (candidateIds.length === 0) return signals;
+
+  if (strategy === AutoAssignStrategy.PROJECT_CONTINUITY && projectId) {
+    const rows = await db.ticket.groupBy({
+      by: ["creativeId"],
+      where: { projectId, status: TicketStatus.DONE, creativeId: { in: candidateIds } },
+      _count: { _all: true },
+    });
+    for (const r of rows) {
+      if (r.creativeId) signals.projectDoneByCreative.set(r.creativeId, r._count._all);
+    }
+  }
+
+  if (strategy === AutoAssignStrategy.PREFERRED_CREATIVES) {
+    const rows = await db.companyPreferredCreative.findMany({
+      where: { companyId, creativeId: { in: candidateIds } },
+      select: { creativeId: true },
+    });
+    for (const r of rows) signals.preferredCreativeIds.add(r.creativeId);
+  }
+
+  if (strategy === AutoAssignStrategy.ROUND_ROBIN) {
+    const rows = await db.ticketAssignmentLog.groupBy({
+      by: ["creativeId"],
+      where: { reason: "AUTO_ASSIGN", creativeId: { in: candidateIds }, ticket: { companyId } },
+      _max: { createdAt: true },
+    });
+    for (const r of rows) {
+      if (r.creativeId && r._max.createdAt) {
+        signals.lastAssignedAtByCreative.set(r.creativeId, r._max.createdAt);
+      }
+    }
+  }
+
+  return signals;
+}
+
+/** TicketAssignmentLog.metadata fields describing a strategy pick. */
+export function strategyLogMetadata(strategy: AutoAssignStrategy, pick: AssignStrategyPick) {
+  return {
+    strategy,
+    strategyScores: pick.scores,
+    strategyFellBack: pick.fellBack,
+  };
+}
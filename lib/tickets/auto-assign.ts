@@ -51,6 +51,9 @@ export function isAutoAssignEnabled(
  * `EMPTY_RATING_SUMMARY` (overall = null). Keeping this pure + data-in
  * makes it trivially unit-testable without touching the DB.
  *
+ * This is the LOAD_BALANCED strategy and the tie-break every other strategy
+ * in ./assign-strategies.ts hands its best-scored candidates to.
+ *
  * Returns `null` when `candidateIds` is empty.
  */
 export function selectCreativeByLoadThenRating(input: {
@@ -91,3 +94,22 @@ export function selectCreativeByLoadThenRating(input: {
   }
   return best;
 }
+
+// ---------------------------------------------------------------------------
+// Declines
+// ---------------------------------------------------------------------------
+
+/** TicketAssignmentLog reason written when a creative hands a ticket back. */
+export const DECLINED_ASSIGNMENT_REASON = "DECLINED";
+
+/**
+ * Creatives who declined a ticket, from its DECLINED assignment logs. They
+ * are left out of every later auto-assign pick for that ticket.
+ */
+export function declinedCreativeIds(logs: { creativeId: string | null }[]): string[] {
+  const ids = new Set<string>();
+  for (const log of logs) {
+    if (log.creativeId) ids.add(log.creativeId);
+  }
+  return [...ids];
+}
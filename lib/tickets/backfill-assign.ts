@@ -3,11 +3,9 @@
 // @purpose: Admin-triggered re-run of auto-assign across tickets that were left
 //           unassigned (e.g. created before a company turned auto-assign on).
 //
-// This mirrors the assignment pipeline inside lib/tickets/create-ticket.ts
-// (skill filter → pause filter → tasksPerWeekCap filter → lowest-load →
-// rating tie-break). It intentionally reuses the SAME pure helpers so the two
-// paths can't silently diverge. If you change the selection rules in
-// create-ticket.ts, mirror them here.
+// Selection goes through runAssignPipeline (./assign-pipeline.ts) — the same
+// skill → pause → tasksPerWeekCap → strategy funnel create-ticket.ts runs — so
+// the two paths can't silently diverge.
 //
 // Scope guardrails:
 //   - Only TODO, currently-unassigned, non-AI tickets are candidates.
@@ -16,16 +14,29 @@
 //     never overrides an intentional "auto-assign off" project.
 //   - Status is left at TODO and only creativeId is set, exactly like the
 //     create path does for a freshly auto-assigned non-AI ticket.
+//   - Candidates are visited in ranked backlog order (./backlog.ts), so the
+//     tickets a company put at the top get first pick of creative capacity.
+//   - Creatives who declined a ticket (./decline-ticket.ts) are never picked
+//     for it again.
 // -----------------------------------------------------------------------------
 
-import { AutoAssignMode, TicketPriority, TicketStatus, UserRole } from "@prisma/client";
+import { AutoAssignMode, AutoAssignStrategy, TicketStatus } from "@prisma/client";
 
 import { prisma } from "@/lib/prisma";
-import { isCreativePaused } from "@/lib/creative-availability";
-import { getCreativeRatingSummaries } from "@/lib/ratings/creative-ratings";
-import { isAutoAssignEnabled, selectCreativeByLoadThenRating } from "@/lib/tickets/auto-assign";
+import { runAssignPipeline } from "@/lib/tickets/assign-pipeline";
+import {
+  type AssignStrategyPick,
+  resolveAssignStrategy,
+  strategyLogMetadata,
+} from "@/lib/tickets/assign-strategies";
+import {
+  DECLINED_ASSIGNMENT_REASON,
+  declinedCreativeIds,
+  isAutoAssignEnabled,
+} from "@/lib/tickets/auto-assign";
 import { createNotification } from "@/lib/notifications";
 import { buildTicketCode } from "@/lib/ticket-code";
+import { BACKLOG_ORDER_BY } from "@/lib/tickets/backlog";
 
 const MAX_TICKETS_PER_RUN = 500;
 
@@ -43,13 +54,6 @@ export type BackfillResult = {
   hasMore: boolean;
 };
 
-const PRIORITY_WEIGHTS: Record<TicketPriority, number> = {
-  LOW: 1,
-  MEDIUM: 2,
-  HIGH: 3,
-  URGENT: 4,
-};
-
 /**
  * Count the tickets a backfill would scan for a company (TODO, unassigned,
  * non-AI). Used to show "assign N tickets?" before running the sweep. This is
@@ -88,7 +92,7 @@ export async function backfillAutoAssign(companyId?: string): Promise<BackfillRe
       creativeMode: { not: "AI" },
       ...(companyId ? { companyId } : {}),
     },
-    orderBy: { createdAt: "asc" },
+    orderBy: BACKLOG_ORDER_BY,
     take: MAX_TICKETS_PER_RUN + 1,
     select: {
       id: true,
@@ -96,8 +100,13 @@ export async function backfillAutoAssign(companyId?: string): Promise<BackfillRe
       companyTicketNumber: true,
       companyId: true,
       jobTypeId: true,
-      company: { select: { autoAssignDefaultEnabled: true } },
-      project: { select: { autoAssignMode: true, code: true } },
+      projectId: true,
+      company: { select: { autoAssignDefaultEnabled: true, autoAssignStrategy: true } },
+      project: { select: { autoAssignMode: true, autoAssignStrategy: true, code: true } },
+      assignmentLogs: {
+        where: { reason: DECLINED_ASSIGNMENT_REASON },
+        select: { creativeId: true },
+      },
     },
   });
 
@@ -124,8 +133,17 @@ export async function backfillAutoAssign(companyId?: string): Promise<BackfillRe
       continue;
     }
 
-    const creativeId = await resolveCreative(ticket.jobTypeId);
-    if (!creativeId) {
+    const pick = await resolveAutoAssignCreative({
+      jobTypeId: ticket.jobTypeId,
+      companyId: ticket.companyId,
+      projectId: ticket.projectId,
+      strategy: resolveAssignStrategy(
+        ticket.company.autoAssignStrategy,
+        ticket.project?.autoAssignStrategy,
+      ),
+      excludeCreativeIds: declinedCreativeIds(ticket.assignmentLogs),
+    });
+    if (!pick) {
       skipped++;
       // Distinguish "nobody has this skill" from "everyone's paused/at cap".
       const skilledExists =
@@ -135,6 +153,8 @@ export async function backfillAutoAssign(companyId?: string): Promise<BackfillRe
       continue;
     }
 
+    const { creativeId } = pick;
+
     // Assign + log atomically. Status stays TODO (matches create-ticket).
     const didAssign = await prisma.$transaction(async (tx) => {
       // Guard against a concurrent claim: only assign if still unassigned.
@@ -150,9 +170,10 @@ export async function backfillAutoAssign(companyId?: string): Promise<BackfillRe
           creativeId,
           reason: "AUTO_ASSIGN",
           metadata: {
-            algorithm: "v4-skill-weighted-cap-aware",
+            algorithm: "v5-skill-cap-aware-strategy",
             source: "admin-backfill",
             jobTypeId: ticket.jobTypeId,
+            ...strategyLogMetadata(pick.strategy, pick),
           },
         },
       });
@@ -191,68 +212,24 @@ export async function backfillAutoAssign(companyId?: string): Promise<BackfillRe
   };
 }
 
+export type ResolvedAutoAssignPick = AssignStrategyPick & {
+  creativeId: string;
+  strategy: AutoAssignStrategy;
+};
+
 /**
- * Pick a creative for a single job type using the same pipeline as
- * create-ticket.ts. Returns null when no eligible creative exists.
+ * Pick a creative for a ticket using the same pipeline as create-ticket.ts,
+ * skipping `excludeCreativeIds` (creatives who declined the ticket). Returns
+ * null when no eligible creative exists.
  */
-async function resolveCreative(jobTypeId: string): Promise<string | null> {
-  const skilled = await prisma.creativeSkill.findMany({
-    where: { jobTypeId },
-    select: { creativeId: true },
-  });
-  let candidateIds = skilled.map((s) => s.creativeId);
-  if (candidateIds.length === 0) return null;
-
-  // Pause + soft-delete filter. deletedAt: null drops anonymized accounts
-  // that may still hold CreativeSkill rows (ids absent from stateById are
-  // filtered out below, so a deleted candidate never gets assigned).
-  const states = await prisma.userAccount.findMany({
-    where: { id: { in: candidateIds }, role: UserRole.DESIGNER, deletedAt: null },
-    select: { id: true, isPaused: true, pauseExpiresAt: true, tasksPerWeekCap: true },
-  });
-  const stateById = new Map(states.map((s) => [s.id, s]));
-  candidateIds = candidateIds.filter((id) => {
-    const s = stateById.get(id);
-    return s ? !isCreativePaused(s) : false;
-  });
-  if (candidateIds.length === 0) return null;
-
-  // Load + open-count per creative (drives cap filter + lowest-load pick).
-  const openTickets = await prisma.ticket.findMany({
-    where: {
-      creativeId: { in: candidateIds },
-      status: { in: [TicketStatus.TODO, TicketStatus.IN_PROGRESS, TicketStatus.IN_REVIEW] },
-    },
-    select: {
-      creativeId: true,
-      priority: true,
-      quantity: true,
-      jobType: { select: { tokenCost: true } },
-    },
-  });
-
-  const loadByCreative = new Map<string, number>();
-  const openCountByCreative = new Map<string, number>();
-  for (const id of candidateIds) {
-    loadByCreative.set(id, 0);
-    openCountByCreative.set(id, 0);
-  }
-  for (const t of openTickets) {
-    if (!t.creativeId || !loadByCreative.has(t.creativeId)) continue;
-    const weight = PRIORITY_WEIGHTS[t.priority as TicketPriority];
-    const cost = (t.jobType?.tokenCost ?? 1) * (t.quantity ?? 1);
-    loadByCreative.set(t.creativeId, (loadByCreative.get(t.creativeId) ?? 0) + weight * cost);
-    openCountByCreative.set(t.creativeId, (openCountByCreative.get(t.creativeId) ?? 0) + 1);
-  }
-
-  // tasksPerWeekCap filter (null cap = unlimited).
-  candidateIds = candidateIds.filter((id) => {
-    const cap = stateById.get(id)?.tasksPerWeekCap;
-    if (cap == null) return true;
-    return (openCountByCreative.get(id) ?? 0) < cap;
-  });
-  if (candidateIds.length === 0) return null;
-
-  const ratingByCreative = await getCreativeRatingSummaries(candidateIds);
-  return selectCreativeByLoadThenRating({ candidateIds, loadByCreative, ratingByCreative });
+export async function resolveAutoAssignCreative(input: {
+  jobTypeId: string;
+  companyId: string;
+  projectId: string | null;
+  strategy: AutoAssignStrategy;
+  excludeCreativeIds?: string[];
+}): Promise<ResolvedAutoAssignPick | null> {
+  const funnel = await runAssignPipeline(prisma, input);
+  if (!funnel.creativeId || !funnel.pick) return null;
+  return { ...funnel.pick, creativeId: funnel.creativeId, strategy: input.strategy };
 }
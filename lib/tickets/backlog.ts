@@ -0,0 +1,157 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/backlog.ts
+// @purpose: Ranked backlog — per-company order of TODO tickets. Company
+//           OWNER/PMs drag-reorder it on the customer board; the creative
+//           board, the auto-assign backfill (./backfill-assign.ts) and the
+//           start-work concurrency gate (./transition-status.ts) read it.
+//
+// Ranks are dense 1..n integers rewritten on every move, so there is no gap
+// bookkeeping. Tickets that were never ranked (e.g. created after the last
+// reorder) sort after ranked ones by priority, then age — see compareBacklog
+// in lib/board.ts for the client-side twin of BACKLOG_ORDER_BY.
+// -----------------------------------------------------------------------------
+
+import { Prisma, TicketStatus } from "@prisma/client";
+
+import { compareBacklog } from "@/lib/board";
+import { prisma } from "@/lib/prisma";
+import { buildTicketCode } from "@/lib/ticket-code";
+import { OPEN_BLOCKER_WHERE } from "@/lib/tickets/dependencies";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/** Database order of a backlog — ranked first, then priority, then age. */
+export const BACKLOG_ORDER_BY = [
+  { backlogRank: { sort: "asc", nulls: "last" } },
+  // Enum order is LOW..URGENT, so desc puts URGENT first.
+  { priority: "desc" },
+  { createdAt: "asc" },
+] satisfies Prisma.TicketOrderByWithRelationInput[];
+
+// ---------------------------------------------------------------------------
+// Reordering (pure)
+// ---------------------------------------------------------------------------
+
+/**
+ * `orderedIds` with `ticketId` moved directly after `afterTicketId` (or to
+ * the top when null). Null when either id is not in the backlog.
+ */
+export function moveInBacklog(
+  orderedIds: string[],
+  ticketId: string,
+  afterTicketId: string | null,
+): string[] | null {
+  if (!orderedIds.includes(ticketId) || ticketId === afterTicketId) return null;
+  const rest = orderedIds.filter((id) => id !== ticketId);
+  if (afterTicketId === null) return [ticketId, ...rest];
+  const index = rest.indexOf(afterTicketId);
+  if (index === -1) return null;
+  return [...rest.slice(0, index + 1), ticketId, ...rest.slice(index + 1)];
+}
+
+/** Tickets that sort strictly before `ticketId` in an already-sorted list. */
+export function ticketsAhead<T extends { id: string }>(sorted: T[], ticketId: string): T[] {
+  const index = sorted.findIndex((t) => t.id === ticketId);
+  return index === -1 ? [] : sorted.slice(0, index);
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+async function loadBacklogIds(db: Db, companyId: string): Promise<string[]> {
+  const rows = await db.ticket.findMany({
+    where: { companyId, status: TicketStatus.TODO },
+    orderBy: BACKLOG_ORDER_BY,
+    select: { id: true },
+  });
+  return rows.map((r) => r.id);
+}
+
+export type MoveBacklogResult =
+  | { success: true; order: string[] }
+  | { success: false; code: "NOT_IN_BACKLOG"; message: string };
+
+/**
+ * Move one TODO ticket after another (or to the top) and rewrite the ranks
+ * of the whole company backlog. Restricted-project tickets the caller can't
+ * see keep their relative place, so the route only has to check that the
+ * two tickets it was given are visible.
+ */
+export async function moveBacklogTicket(input: {
+  companyId: string;
+  ticketId: string;
+  afterTicketId: string | null;
+}): Promise<MoveBacklogResult> {
+  return prisma.$transaction(async (tx) => {
+    const current = await loadBacklogIds(tx, input.companyId);
+    const order = moveInBacklog(current, input.ticketId, input.afterTicketId);
+    if (!order) {
+      return {
+        success: false,
+        code: "NOT_IN_BACKLOG",
+        message: "Only To do tickets can be reordered. Please refresh the board.",
+      } as const;
+    }
+
+    const ranks = await tx.ticket.findMany({
+      where: { id: { in: order } },
+      select: { id: true, backlogRank: true },
+    });
+    const rankById = new Map(ranks.map((r) => [r.id, r.backlogRank]));
+
+    for (const [index, id] of order.entries()) {
+      if (rankById.get(id) === index + 1) continue;
+      await tx.ticket.update({ where: { id }, data: { backlogRank: index + 1 } });
+    }
+
+    return { success: true, order } as const;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Concurrency gate
+// ---------------------------------------------------------------------------
+
+export type RankedAheadTicket = { id: string; code: string; title: string };
+
+/**
+ * The creative's other unblocked TODO tickets for the same company that rank
+ * ahead of `ticketId`. The creative transition uses this to hand the
+ * company's last free IN_PROGRESS slots to the top of the backlog.
+ */
+export async function findStartableTicketsAhead(input: {
+  ticketId: string;
+  companyId: string;
+  creativeId: string;
+}): Promise<RankedAheadTicket[]> {
+  const rows = await prisma.ticket.findMany({
+    where: {
+      companyId: input.companyId,
+      creativeId: input.creativeId,
+      status: TicketStatus.TODO,
+    },
+    select: {
+      id: true,
+      title: true,
+      priority: true,
+      createdAt: true,
+      backlogRank: true,
+      companyTicketNumber: true,
+      project: { select: { code: true } },
+      _count: { select: { blockedBy: { where: OPEN_BLOCKER_WHERE } } },
+    },
+  });
+
+  return ticketsAhead([...rows].sort(compareBacklog), input.ticketId)
+    .filter((t) => t._count.blockedBy === 0)
+    .map((t) => ({
+      id: t.id,
+      code: buildTicketCode({
+        projectCode: t.project?.code,
+        companyTicketNumber: t.companyTicketNumber,
+        ticketId: t.id,
+      }),
+      title: t.title,
+    }));
+}
@@ -0,0 +1,162 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/cancel-ticket.ts
+// @purpose: Domain service — customer soft-cancel of a TODO ticket with a
+//           full token refund. Shared by the single-ticket cancel route and
+//           the customer bulk endpoint so both write the same status event,
+//           REFUND ledger row and company balance change.
+//
+// Extracted from app/api/customer/tickets/[ticketId]/cancel/route.ts. The
+// OWNER/PM gate stays in the callers; failures are a tagged union so each
+// caller can map them to its own response shape.
+// -----------------------------------------------------------------------------
+
+import { LedgerDirection, TicketStatus } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { getEffectiveTokenValues } from "@/lib/token-engine";
+import { notifyUnblockedDependents } from "@/lib/tickets/dependencies";
+import { recordStatusEvent } from "@/lib/tickets/status-history";
+
+export type CancelTicketInput = {
+  ticketId: string;
+  companyId: string;
+  actor: { id: string; email: string };
+};
+
+export type CancelTicketResult =
+  | { success: true; ticketId: string; refundedTokens: number }
+  | { success: false; code: "NOT_FOUND"; message: string }
+  | { success: false; code: "NOT_TODO"; message: string; status: TicketStatus }
+  | { success: false; code: "ASSIGNED"; message: string }
+  | { success: false; code: "LOST_RACE"; message: string };
+
+export async function cancelCustomerTicket(input: CancelTicketInput): Promise<CancelTicketResult> {
+  const { ticketId, companyId, actor } = input;
+
+  // Fetch + assert the ticket is cancellable. We re-check inside the
+  // transaction below as well, but a pre-check gives the client a friendlier
+  // error before we open the write transaction.
+  const ticket = await prisma.ticket.findFirst({
+    where: { id: ticketId, companyId },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      creativeId: true,
+      quantity: true,
+      tokenCostOverride: true,
+      creativePayoutOverride: true,
+      companyTicketNumber: true,
+      jobType: { select: { id: true, tokenCost: true, creativePayoutTokens: true } },
+    },
+  });
+
+  if (!ticket) {
+    return { success: false, code: "NOT_FOUND", message: "Ticket not found." };
+  }
+
+  if (ticket.status !== TicketStatus.TODO) {
+    return {
+      success: false,
+      code: "NOT_TODO",
+      message:
+        "Only tickets still in TODO can be cancelled. Once a creative has started work, please contact support.",
+      status: ticket.status,
+    };
+  }
+
+  // Belt-and-braces: TODO + assigned shouldn't be possible (assignment
+  // moves to IN_PROGRESS) but if it ever happens we refuse the refund
+  // — the assigned creative may already have spent prep time.
+  if (ticket.creativeId) {
+    return {
+      success: false,
+      code: "ASSIGNED",
+      message: "This ticket has already been assigned to a creative. Please contact support.",
+    };
+  }
+
+  const { effectiveCost } = getEffectiveTokenValues(ticket);
+
+  // Single transaction: flip status, write REFUND ledger, update company
+  // balance. If any step throws, all three are rolled back together.
+  const refundedTokens = await prisma.$transaction(async (tx) => {
+    // Conditional update — race safety against a second concurrent
+    // cancel call (or a status PATCH landing in between). updateMany
+    // with the status guard returns count=0 if it lost the race.
+    const flipped = await tx.ticket.updateMany({
+      where: { id: ticket.id, status: TicketStatus.TODO, creativeId: null },
+      data: { status: TicketStatus.CANCELED },
+    });
+
+    if (flipped.count === 0) return null;
+
+    await recordStatusEvent(
+      {
+        ticketId: ticket.id,
+        fromStatus: TicketStatus.TODO,
+        toStatus: TicketStatus.CANCELED,
+        actorId: actor.id,
+        source: "CUSTOMER_CANCEL",
+      },
+      tx,
+    );
+
+    // Refund only when there was a cost to begin with. AI tickets and
+    // edge cases without a jobType have effectiveCost=0 — we still flip
+    // the status (so the row leaves the board) but skip the no-op
+    // ledger entry. Symmetric with create-ticket.ts, which also skips
+    // the spend when jobType is null.
+    if (effectiveCost <= 0) return 0;
+
+    // Atomic increment (not read-then-absolute-set) so a concurrent
+    // debit/credit on the same company isn't clobbered. The status flip
+    // above already guards against a double refund; this guards the
+    // balance value itself against lost updates.
+    const company = await tx.company.update({
+      where: { id: companyId },
+      data: { tokenBalance: { increment: effectiveCost } },
+      select: { tokenBalance: true },
+    });
+
+    const balanceAfter = company.tokenBalance;
+    const balanceBefore = balanceAfter - effectiveCost;
+
+    await tx.tokenLedger.create({
+      data: {
+        companyId,
+        ticketId: ticket.id,
+        direction: LedgerDirection.CREDIT,
+        amount: effectiveCost,
+        reason: "REFUND",
+        notes: `Customer cancelled ticket: ${ticket.title}`,
+        metadata: {
+          cancelledByUserId: actor.id,
+          cancelledByEmail: actor.email,
+          companyTicketNumber: ticket.companyTicketNumber,
+          originalJobTypeId: ticket.jobType?.id ?? null,
+          effectiveCost,
+        },
+        balanceBefore,
+        balanceAfter,
+      },
+    });
+
+    return effectiveCost;
+  });
+
+  if (refundedTokens === null) {
+    // Another request already moved the ticket out of TODO between the
+    // pre-check and the transactional flip.
+    return {
+      success: false,
+      code: "LOST_RACE",
+      message: "This ticket was just updated by someone else. Please refresh and try again.",
+    };
+  }
+
+  // A cancelled blocker no longer holds anything up — tell its dependents.
+  void notifyUnblockedDependents(ticket.id, actor.id);
+
+  return { success: true, ticketId: ticket.id, refundedTokens };
+}
@@ -0,0 +1,319 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/claim-ticket.ts
+// @purpose: Available-work marketplace — unassigned TODO tickets a creative
+//           may claim (companies that allow claiming, job types the creative
+//           has a CreativeSkill for) and the atomic claim itself.
+//
+// A claim goes through the same gates auto-assign applies to the creative
+// (pause state, tasksPerWeekCap) plus the company's plan concurrency, so
+// claimed work can start straight away. The gates are checked up front for a
+// friendly error and again inside the claim transaction, after a row lock on
+// the creative, so two claims by the same creative can't both slip under the
+// cap. The ticket is taken with a guarded updateMany — a concurrent claim,
+// admin assignment or auto-assign wins cleanly — and logged as a CLAIMED
+// TicketAssignmentLog row.
+// -----------------------------------------------------------------------------
+
+import { Prisma, TicketPriority, TicketStatus, UserRole } from "@prisma/client";
+
+import { isCreativePaused } from "@/lib/creative-availability";
+import { prisma } from "@/lib/prisma";
+import { buildTicketCode } from "@/lib/ticket-code";
+import { getEffectiveTokenValues } from "@/lib/token-engine";
+import { DECLINED_ASSIGNMENT_REASON } from "@/lib/tickets/auto-assign";
+import { getCompanyConcurrency, type CompanyConcurrency } from "@/lib/tickets/plan-concurrency";
+
+/** TicketAssignmentLog reason for a ticket taken from the available-work queue. */
+export const CLAIMED_ASSIGNMENT_REASON = "CLAIMED";
+
+const MAX_AVAILABLE_TICKETS = 50;
+
+const OPEN_STATUSES = [TicketStatus.TODO, TicketStatus.IN_PROGRESS, TicketStatus.IN_REVIEW];
+
+// ---------------------------------------------------------------------------
+// Eligibility (pure)
+// ---------------------------------------------------------------------------
+
+/**
+ * Tickets `creativeId` could claim: unassigned, non-AI TODO work of a job
+ * type they are skilled in, at a company that allows claiming, and not
+ * something they already declined.
+ */
+export function availableTicketsWhere(
+  creativeId: string,
+  skillJobTypeIds: string[],
+): Prisma.TicketWhereInput {
+  return {
+    status: TicketStatus.TODO,
+    creativeId: null,
+    creativeMode: { not: "AI" },
+    jobTypeId: { in: skillJobTypeIds },
+    company: { creativeClaimsEnabled: true },
+    assignmentLogs: { none: { creativeId, reason: DECLINED_ASSIGNMENT_REASON } },
+  };
+}
+
+/** Same rule as the auto-assign cap filter; a null cap is unlimited. */
+export function isAtTaskCap(openTicketCount: number, tasksPerWeekCap: number | null): boolean {
+  return tasksPerWeekCap != null && openTicketCount >= tasksPerWeekCap;
+}
+
+// ---------------------------------------------------------------------------
+// Creative state
+// ---------------------------------------------------------------------------
+
+export type ClaimEligibility = {
+  paused: boolean;
+  openTicketCount: number;
+  tasksPerWeekCap: number | null;
+  atCap: boolean;
+};
+
+async function loadCreativeState(creativeId: string) {
+  const creative = await prisma.userAccount.findFirst({
+    where: { id: creativeId, role: UserRole.DESIGNER, deletedAt: null },
+    select: {
+      isPaused: true,
+      pauseExpiresAt: true,
+      tasksPerWeekCap: true,
+      creativeSkills: { select: { jobTypeId: true } },
+    },
+  });
+  if (!creative) return null;
+
+  const openTicketCount = await prisma.ticket.count({
+    where: { creativeId, status: { in: OPEN_STATUSES } },
+  });
+
+  const eligibility: ClaimEligibility = {
+    paused: isCreativePaused(creative),
+    openTicketCount,
+    tasksPerWeekCap: creative.tasksPerWeekCap,
+    atCap: isAtTaskCap(openTicketCount, creative.tasksPerWeekCap),
+  };
+
+  return { eligibility, skillJobTypeIds: creative.creativeSkills.map((s) => s.jobTypeId) };
+}
+
+// ---------------------------------------------------------------------------
+// Listing
+// ---------------------------------------------------------------------------
+
+export type AvailableTicketDto = {
+  id: string;
+  code: string;
+  title: string;
+  priority: TicketPriority;
+  dueDate: Date | null;
+  createdAt: Date;
+  companyName: string;
+  projectName: string | null;
+  jobTypeName: string | null;
+  payoutTokens: number;
+  /** The company has no free IN_PROGRESS slot on its plan right now. */
+  companyAtCapacity: boolean;
+};
+
+export async function listAvailableTickets(creativeId: string): Promise<{
+  eligibility: ClaimEligibility;
+  tickets: AvailableTicketDto[];
+} | null> {
+  const state = await loadCreativeState(creativeId);
+  if (!state) return null;
+
+  const rows = await prisma.ticket.findMany({
+    where: availableTicketsWhere(creativeId, state.skillJobTypeIds),
+    orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+    take: MAX_AVAILABLE_TICKETS,
+    select: {
+      id: true,
+      title: true,
+      priority: true,
+      dueDate: true,
+      createdAt: true,
+      companyId: true,
+      companyTicketNumber: true,
+      quantity: true,
+      tokenCostOverride: true,
+      creativePayoutOverride: true,
+      company: { select: { name: true } },
+      project: { select: { name: true, code: true } },
+      jobType: { select: { name: true, tokenCost: true, creativePayoutTokens: true } },
+    },
+  });
+
+  const companyIds = [...new Set(rows.map((r) => r.companyId))];
+  const concurrency = new Map(
+    await Promise.all(companyIds.map(async (id) => [id, await getCompanyConcurrency(id)] as const)),
+  );
+
+  const tickets = rows.map((t): AvailableTicketDto => {
+    const c = concurrency.get(t.companyId);
+    return {
+      id: t.id,
+      code: buildTicketCode({
+        projectCode: t.project?.code,
+        companyTicketNumber: t.companyTicketNumber,
+        ticketId: t.id,
+      }),
+      title: t.title,
+      priority: t.priority,
+      dueDate: t.dueDate,
+      createdAt: t.createdAt,
+      companyName: t.company.name,
+      projectName: t.project?.name ?? null,
+      jobTypeName: t.jobType?.name ?? null,
+      payoutTokens: getEffectiveTokenValues(t).effectivePayout,
+      companyAtCapacity: c ? c.currentInProgress >= c.maxConcurrentInProgress : false,
+    };
+  });
+
+  return { eligibility: state.eligibility, tickets };
+}
+
+// ---------------------------------------------------------------------------
+// Claim
+// ---------------------------------------------------------------------------
+
+export type ClaimTicketResult =
+  | { success: true; ticketId: string }
+  | { success: false; code: "CREATIVE_NOT_FOUND"; message: string }
+  | { success: false; code: "PAUSED"; message: string }
+  | {
+      success: false;
+      code: "AT_CAP";
+      message: string;
+      openTicketCount: number;
+      tasksPerWeekCap: number;
+    }
+  | { success: false; code: "NOT_AVAILABLE"; message: string }
+  | { success: false; code: "COMPANY_AT_CAPACITY"; message: string; details: CompanyConcurrency }
+  | { success: false; code: "LOST_RACE"; message: string };
+
+export async function claimTicket(input: {
+  ticketId: string;
+  creativeId: string;
+}): Promise<ClaimTicketResult> {
+  const { ticketId, creativeId } = input;
+
+  const state = await loadCreativeState(creativeId);
+  if (!state) {
+    return { success: false, code: "CREATIVE_NOT_FOUND", message: "Creative not found." };
+  }
+
+  const { eligibility } = state;
+  if (eligibility.paused) {
+    return {
+      success: false,
+      code: "PAUSED",
+      message: "You're paused. Resume your availability to claim new work.",
+    };
+  }
+  if (eligibility.atCap && eligibility.tasksPerWeekCap != null) {
+    return {
+      success: false,
+      code: "AT_CAP",
+      message: "You've reached your weekly task cap. Finish some work before claiming more.",
+      openTicketCount: eligibility.openTicketCount,
+      tasksPerWeekCap: eligibility.tasksPerWeekCap,
+    };
+  }
+
+  const ticket = await prisma.ticket.findFirst({
+    where: { id: ticketId, ...availableTicketsWhere(creativeId, state.skillJobTypeIds) },
+    select: { id: true, companyId: true, jobTypeId: true },
+  });
+  if (!ticket) {
+    return {
+      success: false,
+      code: "NOT_AVAILABLE",
+      message: "This ticket is no longer available to claim.",
+    };
+  }
+
+  const concurrency = await getCompanyConcurrency(ticket.companyId);
+  if (concurrency.currentInProgress >= concurrency.maxConcurrentInProgress) {
+    return {
+      success: false,
+      code: "COMPANY_AT_CAPACITY",
+      message: "This client already has as much work in progress as their plan allows.",
+      details: concurrency,
+    };
+  }
+
+  return prisma.$transaction(async (tx): Promise<ClaimTicketResult> => {
+    // Serialize claims per creative: a second claim waits here until this one
+    // commits, so its recount below already includes this ticket.
+    await tx.$queryRaw`SELECT id FROM "UserAccount" WHERE id = ${creativeId} FOR UPDATE`;
+
+    const creative = await tx.userAccount.findUnique({
+      where: { id: creativeId },
+      select: { isPaused: true, pauseExpiresAt: true, tasksPerWeekCap: true },
+    });
+    if (!creative) {
+      return { success: false, code: "CREATIVE_NOT_FOUND", message: "Creative not found." };
+    }
+    if (isCreativePaused(creative)) {
+      return {
+        success: false,
+        code: "PAUSED",
+        message: "You're paused. Resume your availability to claim new work.",
+      };
+    }
+
+    const openTicketCount = await tx.ticket.count({
+      where: { creativeId, status: { in: OPEN_STATUSES } },
+    });
+    if (
+      creative.tasksPerWeekCap != null &&
+      isAtTaskCap(openTicketCount, creative.tasksPerWeekCap)
+    ) {
+      return {
+        success: false,
+        code: "AT_CAP",
+        message: "You've reached your weekly task cap. Finish some work before claiming more.",
+        openTicketCount,
+        tasksPerWeekCap: creative.tasksPerWeekCap,
+      };
+    }
+
+    const currentInProgress = await tx.ticket.count({
+      where: { companyId: ticket.companyId, status: TicketStatus.IN_PROGRESS },
+    });
+    if (currentInProgress >= concurrency.maxConcurrentInProgress) {
+      return {
+        success: false,
+        code: "COMPANY_AT_CAPACITY",
+        message: "This client already has as much work in progress as their plan allows.",
+        details: { ...concurrency, currentInProgress },
+      };
+    }
+
+    const updated = await tx.ticket.updateMany({
+      where: { id: ticket.id, creativeId: null, status: TicketStatus.TODO },
+      data: { creativeId },
+    });
+    if (updated.count === 0) {
+      return {
+        success: false,
+        code: "LOST_RACE",
+        message: "Someone else just picked up this ticket.",
+      };
+    }
+
+    await tx.ticketAssignmentLog.create({
+      data: {
+        ticketId: ticket.id,
+        creativeId,
+        reason: CLAIMED_ASSIGNMENT_REASON,
+        metadata: {
+          source: "available-work",
+          jobTypeId: ticket.jobTypeId,
+          openTicketCount,
+          tasksPerWeekCap: creative.tasksPerWeekCap,
+        },
+      },
+    });
+    return { success: true, ticketId: ticket.id };
+  });
+}
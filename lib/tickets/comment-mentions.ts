@@ -0,0 +1,149 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/comment-mentions.ts
+// @purpose: @mention parsing for ticket comments — shared by the comment
+//           routes (server-side resolution) and the comment composer
+//           (autocomplete + highlighting). Pure; no Prisma, so client
+//           components can import it. DB lookups live in ./mentions.ts.
+// -----------------------------------------------------------------------------
+
+/** A user who can be @mentioned on a ticket. */
+export type MentionCandidate = {
+  id: string;
+  /** Display text inserted after "@" — the user's name, else their email's local part. */
+  label: string;
+  /** Short context shown in the autocomplete ("Team", "Creative", "Brandbite"). */
+  kind: string;
+};
+
+/** `kind` of company members — the only candidates who can't see internal notes. */
+export const CUSTOMER_TEAM_KIND = "Team";
+
+/** A mentioned user as echoed on a stored comment. */
+export type MentionTarget = Pick<MentionCandidate, "id" | "label">;
+
+/** A run of comment text; `userId` is set when the run is an @mention. */
+export type MentionSegment = { text: string; userId: string | null };
+
+/** The label a user is mentioned by. */
+export function mentionLabelFor(user: { name: string | null; email: string }): string {
+  const name = user.name?.trim();
+  return name || user.email.split("@")[0];
+}
+
+/** Longest comment excerpt quoted in comment notifications. */
+const EXCERPT_LENGTH = 140;
+
+/** `body` cut to a notification-sized excerpt. */
+export function commentExcerpt(body: string): string {
+  return body.length > EXCERPT_LENGTH ? `${body.slice(0, EXCERPT_LENGTH - 1)}…` : body;
+}
+
+/** Candidates who may be mentioned in an internal note (creative + Brandbite). */
+export function staffMentionCandidates(candidates: MentionCandidate[]): MentionCandidate[] {
+  return candidates.filter((c) => c.kind !== CUSTOMER_TEAM_KIND);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+type MentionMatch = { start: number; end: number; userId: string };
+
+/**
+ * Every "@label" occurrence in `body`. Longer labels win, so "@Jane Doe"
+ * mentions Jane Doe and not also a teammate called "Jane". A label must end
+ * at a word boundary ("@Janet" doesn't mention Jane).
+ */
+function findMentionMatches(body: string, candidates: MentionTarget[]): MentionMatch[] {
+  const byLength = [...candidates]
+    .filter((c) => c.label.length > 0)
+    .sort((a, b) => b.label.length - a.label.length);
+
+  const matches: MentionMatch[] = [];
+  const overlaps = (start: number, end: number) =>
+    matches.some((m) => start < m.end && end > m.start);
+
+  for (const candidate of byLength) {
+    const pattern = new RegExp(`@${escapeRegExp(candidate.label)}(?![\\w.-])`, "gi");
+    for (const match of body.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (!overlaps(start, end)) matches.push({ start, end, userId: candidate.id });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/** Ids of the candidates mentioned in `body`, in order of first mention. */
+export function findMentionedUserIds(body: string, candidates: MentionTarget[]): string[] {
+  return [...new Set(findMentionMatches(body, candidates).map((m) => m.userId))];
+}
+
+/** Split `body` into plain and mention runs for highlighting. */
+export function splitMentionSegments(body: string, candidates: MentionTarget[]): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let cursor = 0;
+  for (const m of findMentionMatches(body, candidates)) {
+    if (m.start > cursor) segments.push({ text: body.slice(cursor, m.start), userId: null });
+    segments.push({ text: body.slice(m.start, m.end), userId: m.userId });
+    cursor = m.end;
+  }
+  if (cursor < body.length) segments.push({ text: body.slice(cursor), userId: null });
+  return segments;
+}
+
+// ---------------------------------------------------------------------------
+// Composer helpers
+// ---------------------------------------------------------------------------
+
+/** Longest query the autocomplete keeps open for (covers "First Last"). */
+const MAX_QUERY_LENGTH = 40;
+
+/**
+ * The "@query" being typed at `caret`, if any. The "@" must start the text or
+ * follow whitespace (so emails don't trigger it) and the query can't span a
+ * line break.
+ */
+export function activeMentionQuery(
+  text: string,
+  caret: number,
+): { start: number; query: string } | null {
+  const before = text.slice(0, caret);
+  const at = before.lastIndexOf("@");
+  if (at === -1) return null;
+  if (at > 0 && !/\s/.test(before[at - 1])) return null;
+
+  const query = before.slice(at + 1);
+  if (query.length > MAX_QUERY_LENGTH || /[\n@]/.test(query)) return null;
+  return { start: at, query };
+}
+
+/** Candidates whose label contains `query` (case-insensitive), prefix matches first. */
+export function filterMentionCandidates(
+  candidates: MentionCandidate[],
+  query: string,
+): MentionCandidate[] {
+  const q = query.trim().toLowerCase();
+  return candidates
+    .filter((c) => c.label.toLowerCase().includes(q))
+    .sort(
+      (a, b) =>
+        Number(!a.label.toLowerCase().startsWith(q)) -
+          Number(!b.label.toLowerCase().startsWith(q)) || a.label.localeCompare(b.label),
+    );
+}
+
+/** Replace the "@query" between `start` and `caret` with "@label ". */
+export function insertMention(
+  text: string,
+  start: number,
+  caret: number,
+  label: string,
+): { text: string; caret: number } {
+  const inserted = `@${label} `;
+  return {
+    text: text.slice(0, start) + inserted + text.slice(caret),
+    caret: start + inserted.length,
+  };
+}
@@ -0,0 +1,110 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/comments.ts
+// @purpose: Ticket comments shared by the customer, creative and admin
+//           routes — listing (internal notes only for staff audiences) and
+//           posting (mentions, auto-watch, watcher fan-out). Routes keep
+//           auth + ticket scoping; this module assumes access was checked.
+//
+// Internal notes (isInternal) are the creative ↔ Brandbite channel: the
+// customer routes must list with includeInternal: false, only creative and
+// admin users are mentionable in them and customer watchers aren't notified.
+// -----------------------------------------------------------------------------
+
+import { Prisma } from "@prisma/client";
+
+import { notifyTicketWatchers } from "@/lib/notifications";
+import { prisma } from "@/lib/prisma";
+import {
+  commentExcerpt,
+  mentionLabelFor,
+  type MentionTarget,
+} from "@/lib/tickets/comment-mentions";
+import { recordCommentMentions } from "@/lib/tickets/mentions";
+import { watchTicket } from "@/lib/tickets/watchers";
+
+export type TicketCommentDto = {
+  id: string;
+  body: string;
+  createdAt: string;
+  isInternal: boolean;
+  author: { id: string; name: string | null; email: string; role: string };
+  mentions: MentionTarget[];
+};
+
+const COMMENT_SELECT = {
+  id: true,
+  body: true,
+  createdAt: true,
+  isInternal: true,
+  author: { select: { id: true, name: true, email: true, role: true } },
+  mentions: { select: { user: { select: { id: true, name: true, email: true } } } },
+} satisfies Prisma.TicketCommentSelect;
+
+type CommentRow = Prisma.TicketCommentGetPayload<{ select: typeof COMMENT_SELECT }>;
+
+function toDto(c: CommentRow): TicketCommentDto {
+  return {
+    id: c.id,
+    body: c.body,
+    createdAt: c.createdAt.toISOString(),
+    isInternal: c.isInternal,
+    author: c.author,
+    mentions: c.mentions.map((m) => ({ id: m.user.id, label: mentionLabelFor(m.user) })),
+  };
+}
+
+/** A ticket's comments, oldest first. Internal notes only when `includeInternal`. */
+export async function listTicketComments(
+  ticketId: string,
+  opts: { includeInternal: boolean },
+): Promise<TicketCommentDto[]> {
+  const rows = await prisma.ticketComment.findMany({
+    where: { ticketId, ...(opts.includeInternal ? {} : { isInternal: false }) },
+    orderBy: { createdAt: "asc" },
+    select: COMMENT_SELECT,
+  });
+  return rows.map(toDto);
+}
+
+/**
+ * Store a comment (or internal note), resolve its @mentions, make the author
+ * a watcher and notify the other watchers. Mentioned users get MENTIONED
+ * instead of TICKET_COMMENTED.
+ */
+export async function postTicketComment(input: {
+  ticket: { id: string; title: string };
+  authorId: string;
+  body: string;
+  isInternal?: boolean;
+}): Promise<TicketCommentDto> {
+  const isInternal = input.isInternal ?? false;
+  const created = await prisma.ticketComment.create({
+    data: { ticketId: input.ticket.id, authorId: input.authorId, body: input.body, isInternal },
+    select: COMMENT_SELECT,
+  });
+
+  const mentions = await recordCommentMentions({
+    commentId: created.id,
+    ticketId: input.ticket.id,
+    authorId: input.authorId,
+    body: input.body,
+    isInternal,
+  });
+
+  await watchTicket(prisma, input.ticket.id, [input.authorId]);
+  const authorName = mentionLabelFor(created.author);
+  void notifyTicketWatchers({
+    type: "TICKET_COMMENTED",
+    title: isInternal ? `${authorName} added an internal note` : `${authorName} commented`,
+    message: `On "${input.ticket.title}": ${commentExcerpt(input.body)}`,
+    ticketId: input.ticket.id,
+    actorId: input.authorId,
+    excludeUserIds: mentions.map((m) => m.id),
+    staffOnly: isInternal,
+  });
+
+  return {
+    ...toDto(created),
+    mentions: mentions.map((m) => ({ id: m.id, label: m.label })),
+  };
+}
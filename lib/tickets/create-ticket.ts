@@ -1,10 +1,11 @@
 // -----------------------------------------------------------------------------
 // @file: lib/tickets/create-ticket.ts
 // @purpose: Domain service for "customer creates a ticket". Owns the
-//           whole transaction: companyTicketNumber allocation, skill +
-//           load-based auto-assign with rating tie-breaker, ticket create,
-//           token debit + ledger, TicketAssignmentLog, tag attach, moodboard
-//           link.
+//           whole transaction: companyTicketNumber allocation, auto-assign
+//           through the shared candidate funnel (./assign-pipeline.ts),
+//           ticket create, token debit + ledger, TicketAssignmentLog, tag
+//           attach, moodboard link, "blocked by" dependency links, watchers,
+//           output specs, custom field values.
 //
 // Extracted from app/api/customer/tickets/route.ts (B3). The route now
 // does auth + zod parse + this call + response mapping only.
@@ -16,18 +17,33 @@
 
 import {
   AutoAssignMode,
+  AutoAssignStrategy,
   CompanyRole,
   LedgerDirection,
   TicketPriority,
   TicketStatus,
   TicketCreativeMode,
-  UserRole,
 } from "@prisma/client";
 
-import { isCreativePaused } from "@/lib/creative-availability";
 import { prisma } from "@/lib/prisma";
-import { getCreativeRatingSummaries } from "@/lib/ratings/creative-ratings";
-import { isAutoAssignEnabled, selectCreativeByLoadThenRating } from "@/lib/tickets/auto-assign";
+import { type AssignFallbackMode, runAssignPipeline } from "@/lib/tickets/assign-pipeline";
+import {
+  type AssignStrategyPick,
+  resolveAssignStrategy,
+  strategyLogMetadata,
+} from "@/lib/tickets/assign-strategies";
+import { isAutoAssignEnabled } from "@/lib/tickets/auto-assign";
+import {
+  type CustomFieldRawValue,
+  type CustomFieldValueEntry,
+  validateCustomFieldValues,
+} from "@/lib/tickets/custom-field-values";
+import { listCustomFields, saveTicketCustomFieldValues } from "@/lib/tickets/custom-fields";
+import { getProjectAccess } from "@/lib/permissions/projectAccess";
+import { canViewProject } from "@/lib/permissions/projectRoles";
+import { isBlockerResolved, MAX_BLOCKERS_PER_TICKET } from "@/lib/tickets/dependencies";
+import { initialSlaFields } from "@/lib/tickets/sla";
+import { watchTicket } from "@/lib/tickets/watchers";
 
 export type CreateTicketInput = {
   /** The authenticated user making the request (for audit attribution). */
@@ -44,7 +60,22 @@ export type CreateTicketInput = {
     tagIds: string[];
     creativeMode: TicketCreativeMode;
     moodboardId: string | null | undefined;
+    /** Existing company tickets this one waits on. */
+    blockedByTicketIds?: string[];
+    /** Output size presets for the job type (TicketOutputSpec rows). */
+    outputSpecs?: { presetId: string; quantity: number }[];
+    /**
+     * Company custom field values keyed by field id. Omitted by callers
+     * that don't collect them (recurring schedules), which also skips the
+     * required-field check.
+     */
+    customFields?: Record<string, CustomFieldRawValue>;
   };
+  /**
+   * Where the create came from, stamped on the TicketAssignmentLog metadata.
+   * Defaults to the customer form ("customer-ticket-create").
+   */
+  origin?: { source: string; recurringScheduleId?: string };
 };
 
 export type CreatedTicket = {
@@ -69,6 +100,9 @@ export type CreateTicketFailure =
   | { success: false; code: "NO_REQUESTER"; message: string }
   | { success: false; code: "PROJECT_NOT_FOUND"; message: string }
   | { success: false; code: "JOB_TYPE_NOT_FOUND"; message: string }
+  | { success: false; code: "BLOCKER_NOT_FOUND"; message: string }
+  | { success: false; code: "BLOCKED"; message: string }
+  | { success: false; code: "INVALID_CUSTOM_FIELDS"; message: string; fieldId: string }
   | {
       success: false;
       code: "INSUFFICIENT_TOKENS";
@@ -102,6 +136,12 @@ class InsufficientTokensAtCommitError extends Error {
  */
 export async function createCustomerTicket(input: CreateTicketInput): Promise<CreateTicketResult> {
   const { actorUserId, companyId, data } = input;
+  const originMetadata = {
+    source: input.origin?.source ?? "customer-ticket-create",
+    ...(input.origin?.recurringScheduleId
+      ? { recurringScheduleId: input.origin.recurringScheduleId }
+      : {}),
+  };
 
   const company = await prisma.company.findUnique({ where: { id: companyId } });
   if (!company) {
@@ -124,12 +164,17 @@ export async function createCustomerTicket(input: CreateTicketInput): Promise<Cr
     };
   }
 
-  // Optional project validation (+ autoAssignMode for the decision below).
-  let project: { id: string; autoAssignMode: AutoAssignMode } | null = null;
+  // Optional project validation (+ auto-assign mode/strategy for the
+  // decision below).
+  let project: {
+    id: string;
+    autoAssignMode: AutoAssignMode;
+    autoAssignStrategy: AutoAssignStrategy | null;
+  } | null = null;
   if (data.projectId) {
     project = await prisma.project.findFirst({
       where: { id: data.projectId, companyId: company.id },
-      select: { id: true, autoAssignMode: true },
+      select: { id: true, autoAssignMode: true, autoAssignStrategy: true },
     });
     if (!project) {
       return {
@@ -152,6 +197,67 @@ export async function createCustomerTicket(input: CreateTicketInput): Promise<Cr
     }
   }
 
+  // Optional "blocked by" links. Every blocker must be a ticket of the same
+  // company in a project the actor can see — the same rule as linking from
+  // the dependencies route. Hidden blockers read as not found. AI tickets
+  // start IN_PROGRESS immediately, so they can't be created behind an open
+  // blocker.
+  const blockerIds = [...new Set(data.blockedByTicketIds ?? [])].slice(0, MAX_BLOCKERS_PER_TICKET);
+  if (blockerIds.length > 0) {
+    const [blockers, actorMember] = await Promise.all([
+      prisma.ticket.findMany({
+        where: { id: { in: blockerIds }, companyId: company.id },
+        select: { id: true, status: true, projectId: true },
+      }),
+      prisma.companyMember.findUnique({
+        where: { companyId_userId: { companyId: company.id, userId: actorUserId } },
+        select: { roleInCompany: true },
+      }),
+    ]);
+    const access = await getProjectAccess({
+      id: actorUserId,
+      activeCompanyId: company.id,
+      companyRole: actorMember?.roleInCompany ?? null,
+    });
+    if (
+      blockers.length !== blockerIds.length ||
+      blockers.some((b) => !canViewProject(access.roleFor(b.projectId)))
+    ) {
+      return {
+        success: false,
+        code: "BLOCKER_NOT_FOUND",
+        message: "One or more blocking tickets were not found for this company.",
+      };
+    }
+    if (data.creativeMode === "AI" && blockers.some((b) => !isBlockerResolved(b.status))) {
+      return {
+        success: false,
+        code: "BLOCKED",
+        message:
+          "AI tickets start right away, so they can't wait on open tickets. Remove the blockers or use a creative.",
+      };
+    }
+  }
+
+  // Company custom fields — validated up front so a bad value never
+  // reaches the debit below.
+  let customFieldEntries: CustomFieldValueEntry[] = [];
+  if (data.customFields) {
+    const checked = validateCustomFieldValues(
+      await listCustomFields(company.id),
+      data.customFields,
+    );
+    if (!checked.ok) {
+      return {
+        success: false,
+        code: "INVALID_CUSTOM_FIELDS",
+        message: checked.message,
+        fieldId: checked.fieldId,
+      };
+    }
+    customFieldEntries = checked.entries;
+  }
+
   const effectiveCost = jobType ? jobType.tokenCost * data.quantity : 0;
   if (jobType && company.tokenBalance < effectiveCost) {
     return {
@@ -167,6 +273,10 @@ export async function createCustomerTicket(input: CreateTicketInput): Promise<Cr
   const companyAutoAssignDefault = company.autoAssignDefaultEnabled ?? false;
   const projectAutoAssignMode = project?.autoAssignMode ?? null;
   const autoAssignEffective = isAutoAssignEnabled(companyAutoAssignDefault, projectAutoAssignMode);
+  const assignStrategy = resolveAssignStrategy(
+    company.autoAssignStrategy,
+    project?.autoAssignStrategy,
+  );
 
   const created = await prisma
     .$transaction(async (tx) => {
@@ -178,170 +288,42 @@ export async function createCustomerTicket(input: CreateTicketInput): Promise<Cr
       });
       const nextCompanyTicketNumber = (lastTicket?.companyTicketNumber ?? 100) + 1;
 
-      // 2) Creative assignment (AI mode skips, auto-assign obeys skill filter
-      //    + load + rating tie-breaker, otherwise FALLBACK unassigned).
+      // 2) Creative assignment (AI mode skips, auto-assign runs the shared
+      //    candidate funnel in ./assign-pipeline.ts, otherwise FALLBACK
+      //    unassigned).
       let assignedCreativeId: string | null = null;
       let assignmentReason: "AUTO_ASSIGN" | "FALLBACK" | null = null;
-      let fallbackMode:
-        | "settings_disabled"
-        | "no_creatives"
-        | "no_skilled_creatives"
-        // PR11 — every skill-matching creative is at-or-above their
-        // tasksPerWeekCap. Distinct from "no_skilled_creatives" so admin
-        // dashboards can spot the "we ARE hiring but everyone's full"
-        // pattern as a hiring-bandwidth signal rather than a category-coverage
-        // gap.
-        | "all_skilled_at_cap"
-        | null = null;
+      let strategyPick: AssignStrategyPick | null = null;
+      // PR11 — "all_skilled_at_cap" (every skill-matching creative is at their
+      // tasksPerWeekCap) stays distinct from "no_skilled_creatives" so admin
+      // dashboards can tell a hiring-bandwidth gap from a category-coverage one.
+      let fallbackMode: "settings_disabled" | AssignFallbackMode | null = null;
       let skillFiltered = false;
       let skilledCreativeCount = 0;
       let pausedCreativeCount = 0;
-      // PR11 — count of skill-matching creatives skipped because their open
-      // ticket count was at-or-above their tasksPerWeekCap. Surfaced in the
-      // assignment log metadata for forensic debuggability.
       let cappedCreativeCount = 0;
 
       if (isAiMode) {
         assignedCreativeId = null;
       } else if (autoAssignEffective) {
-        let creatives: { id: string }[];
-        if (jobType) {
-          const skilled = await tx.creativeSkill.findMany({
-            where: { jobTypeId: jobType.id },
-            select: { creativeId: true },
-          });
-          creatives = skilled.map((s) => ({ id: s.creativeId }));
-          skilledCreativeCount = creatives.length;
-          skillFiltered = true;
-          if (creatives.length === 0) fallbackMode = "no_skilled_creatives";
-        } else {
-          creatives = await tx.userAccount.findMany({
-            where: { role: UserRole.DESIGNER, deletedAt: null },
-            select: { id: true },
-          });
-        }
-
-        // Build a single per-creative metadata map covering pause + cap
-        // state. Pulled in one query rather than two so the auto-assign
-        // hot path adds at most one DB roundtrip per ticket-create even
-        // as we layer more candidate filters.
-        const creativeMeta = new Map<
-          string,
-          { isPaused: boolean; pauseExpiresAt: Date | null; tasksPerWeekCap: number | null }
-        >();
-
-        if (creatives.length > 0) {
-          const states = await tx.userAccount.findMany({
-            // deletedAt: null — a skilled candidate may have been soft-deleted
-            // (anonymized) while keeping its CreativeSkill rows. Exclude it
-            // here so auto-assign never routes live work to a dead account.
-            where: { id: { in: creatives.map((d) => d.id) }, deletedAt: null },
-            select: {
-              id: true,
-              isPaused: true,
-              pauseExpiresAt: true,
-              tasksPerWeekCap: true,
-            },
-          });
-          for (const s of states) {
-            creativeMeta.set(s.id, {
-              isPaused: s.isPaused,
-              pauseExpiresAt: s.pauseExpiresAt,
-              tasksPerWeekCap: s.tasksPerWeekCap,
-            });
-          }
-          // `states` now contains only alive candidates; drop any deleted ones
-          // (absent from states) as well as paused ones.
-          const aliveIds = new Set(states.map((s) => s.id));
-          const pausedIds = new Set(states.filter((d) => isCreativePaused(d)).map((d) => d.id));
-          pausedCreativeCount = pausedIds.size;
-          creatives = creatives.filter((d) => aliveIds.has(d.id) && !pausedIds.has(d.id));
-        }
-
-        if (creatives.length > 0) {
-          const creativeIds = creatives.map((d) => d.id);
-
-          const openTickets = await tx.ticket.findMany({
-            where: {
-              creativeId: { in: creativeIds },
-              status: { in: [TicketStatus.TODO, TicketStatus.IN_PROGRESS, TicketStatus.IN_REVIEW] },
-            },
-            select: {
-              id: true,
-              creativeId: true,
-              priority: true,
-              quantity: true,
-              jobType: { select: { tokenCost: true } },
-            },
-          });
-
-          const priorityWeights: Record<TicketPriority, number> = {
-            LOW: 1,
-            MEDIUM: 2,
-            HIGH: 3,
-            URGENT: 4,
-          };
-
-          const loadByCreative = new Map<string, number>();
-          // PR11 — open ticket COUNT (not weighted load) per creative.
-          // Used by the tasksPerWeekCap filter below: cap is "max number
-          // of concurrently open tasks", not "max weighted load". The
-          // weighted load still drives the lowest-load tie-breaker.
-          const openCountByCreative = new Map<string, number>();
-          for (const id of creativeIds) {
-            loadByCreative.set(id, 0);
-            openCountByCreative.set(id, 0);
-          }
-          for (const t of openTickets) {
-            if (!t.creativeId) continue;
-            if (!loadByCreative.has(t.creativeId)) continue;
-            const weight = priorityWeights[t.priority as TicketPriority];
-            const cost = (t.jobType?.tokenCost ?? 1) * (t.quantity ?? 1);
-            loadByCreative.set(
-              t.creativeId,
-              (loadByCreative.get(t.creativeId) ?? 0) + weight * cost,
-            );
-            openCountByCreative.set(t.creativeId, (openCountByCreative.get(t.creativeId) ?? 0) + 1);
-          }
-
-          // PR11 — drop creatives at-or-above their tasksPerWeekCap. Null
-          // cap means no limit (legacy behavior, preserves every existing
-          // creative). Done AFTER the load calc so we don't waste a rating
-          // fetch on excluded candidates, and AFTER the pause filter so
-          // the "capped" count reflects real candidates not zombie ones.
-          const cappedIds: string[] = [];
-          creatives = creatives.filter((d) => {
-            const cap = creativeMeta.get(d.id)?.tasksPerWeekCap;
-            if (cap == null) return true; // no cap → keep
-            const open = openCountByCreative.get(d.id) ?? 0;
-            if (open >= cap) {
-              cappedIds.push(d.id);
-              return false;
-            }
-            return true;
-          });
-          cappedCreativeCount = cappedIds.length;
-
-          if (creatives.length === 0) {
-            // Every skill-matching creative is at cap. Fall through to the
-            // unassigned FALLBACK path with a distinct mode so admin
-            // dashboards can spot it as a hiring-bandwidth signal.
-            assignmentReason = "FALLBACK";
-            fallbackMode = "all_skilled_at_cap";
-          } else {
-            const remainingIds = creatives.map((d) => d.id);
-            const ratingByCreative = await getCreativeRatingSummaries(remainingIds);
-
-            assignedCreativeId = selectCreativeByLoadThenRating({
-              candidateIds: remainingIds,
-              loadByCreative,
-              ratingByCreative,
-            });
-            assignmentReason = "AUTO_ASSIGN";
-          }
+        const funnel = await runAssignPipeline(tx, {
+          jobTypeId: jobType?.id ?? null,
+          companyId: company.id,
+          projectId: project?.id ?? null,
+          strategy: assignStrategy,
+        });
+        skillFiltered = funnel.skillFiltered;
+        skilledCreativeCount = funnel.counts.skilled;
+        pausedCreativeCount = funnel.counts.paused;
+        cappedCreativeCount = funnel.counts.capped;
+
+        if (funnel.creativeId && funnel.pick) {
+          assignedCreativeId = funnel.creativeId;
+          strategyPick = funnel.pick;
+          assignmentReason = "AUTO_ASSIGN";
         } else {
           assignmentReason = "FALLBACK";
-          if (!fallbackMode) fallbackMode = "no_creatives";
+          fallbackMode = funnel.fallbackMode ?? "no_creatives";
         }
       } else {
         assignmentReason = "FALLBACK";
@@ -364,6 +346,11 @@ export async function createCustomerTicket(input: CreateTicketInput): Promise<Cr
           companyTicketNumber: nextCompanyTicketNumber,
           creativeId: assignedCreativeId,
           creativeMode: data.creativeMode,
+          ...(await initialSlaFields(tx, {
+            jobTypeId: jobType?.id ?? null,
+            priority: data.priority,
+            creativeMode: data.creativeMode,
+          })),
         },
         include: {
           project: { select: { id: true, name: true, code: true } },
@@ -423,8 +410,8 @@ export async function createCustomerTicket(input: CreateTicketInput): Promise<Cr
             creativeId: createdTicket.creativeId,
             reason: "AUTO_ASSIGN",
             metadata: {
-              algorithm: "v4-skill-weighted-cap-aware",
-              source: "customer-ticket-create",
+              algorithm: "v5-skill-cap-aware-strategy",
+              ...originMetadata,
               autoAssignEffective: true,
               companyAutoAssignDefault,
               projectAutoAssignMode: projectAutoAssignMode ?? "INHERIT",
@@ -437,6 +424,7 @@ export async function createCustomerTicket(input: CreateTicketInput): Promise<Cr
               // experienced ones were full.
               cappedCreativeCount,
               jobTypeId: jobType?.id ?? null,
+              ...(strategyPick ? strategyLogMetadata(assignStrategy, strategyPick) : {}),
             },
           },
         });
@@ -447,7 +435,7 @@ export async function createCustomerTicket(input: CreateTicketInput): Promise<Cr
             creativeId: createdTicket.creativeId ?? null,
             reason: "FALLBACK",
             metadata: {
-              source: "customer-ticket-create",
+              ...originMetadata,
               autoAssignEffective,
               companyAutoAssignDefault,
               projectAutoAssignMode: projectAutoAssignMode ?? "INHERIT",
@@ -491,8 +479,50 @@ export async function createCustomerTicket(input: CreateTicketInput): Promise<Cr
         });
       }
 
-      // silence unused — kept named for future audit
-      void actorUserId;
+      // 8) "Blocked by" links
+      if (blockerIds.length > 0) {
+        await tx.ticketDependency.createMany({
+          data: blockerIds.map((blockerId) => ({
+            blockerId,
+            blockedId: createdTicket.id,
+            createdById: actorUserId,
+          })),
+        });
+      }
+
+      // 9) The requester (and whoever filed it for them) watch the ticket
+      await watchTicket(tx, createdTicket.id, [requesterMember.userId, actorUserId]);
+
+      // 10) Output specs — only active presets for this job type (global or
+      //    this company's overrides).
+      if (jobType && data.outputSpecs && data.outputSpecs.length > 0) {
+        const validPresets = await tx.outputSizePreset.findMany({
+          where: {
+            id: { in: data.outputSpecs.map((o) => o.presetId) },
+            jobTypeId: jobType.id,
+            isActive: true,
+            OR: [{ companyId: null }, { companyId: company.id }],
+          },
+          select: { id: true },
+        });
+        const validIds = new Set(validPresets.map((p) => p.id));
+        const specs = data.outputSpecs.filter((o) => validIds.has(o.presetId));
+        if (specs.length > 0) {
+          await tx.ticketOutputSpec.createMany({
+            data: specs.map((o) => ({
+              ticketId: createdTicket.id,
+              presetId: o.presetId,
+              quantity: o.quantity,
+            })),
+            skipDuplicates: true,
+          });
+        }
+      }
+
+      // 11) Custom field values
+      if (customFieldEntries.length > 0) {
+        await saveTicketCustomFieldValues(tx, createdTicket.id, customFieldEntries);
+      }
 
       return createdTicket;
     })
@@ -0,0 +1,191 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/custom-field-values.ts
+// @purpose: Company custom fields on tickets — value normalization,
+//           validation and display formatting (pure, client-safe). The
+//           new-ticket form and ticket page validate with the same rules the
+//           API enforces; the DB side lives in ./custom-fields.ts.
+// -----------------------------------------------------------------------------
+
+export const CUSTOM_FIELD_TYPES = [
+  "TEXT",
+  "NUMBER",
+  "DATE",
+  "SELECT",
+  "MULTI_SELECT",
+  "URL",
+] as const;
+
+export type CustomFieldTypeKey = (typeof CUSTOM_FIELD_TYPES)[number];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldTypeKey, string> = {
+  TEXT: "Text",
+  NUMBER: "Number",
+  DATE: "Date",
+  SELECT: "Single select",
+  MULTI_SELECT: "Multi select",
+  URL: "URL",
+};
+
+/** Query-string prefix for custom field filters: `?cf_<fieldId>=value`. */
+export const CUSTOM_FIELD_FILTER_PREFIX = "cf_";
+
+/** Longest TEXT / URL value we store. */
+export const MAX_CUSTOM_FIELD_TEXT = 500;
+
+/** The parts of a field definition the value rules need. */
+export type CustomFieldDef = {
+  id: string;
+  label: string;
+  type: CustomFieldTypeKey;
+  options: string[];
+  required: boolean;
+};
+
+/** What a client sends per field: a string, a list (MULTI_SELECT) or null to clear. */
+export type CustomFieldRawValue = string | string[] | null | undefined;
+
+/** Stored shape — `value` for scalar types, `values` for MULTI_SELECT. */
+export type CustomFieldStoredValue = { value: string | null; values: string[] };
+
+export type NormalizeResult =
+  | { ok: true; value: CustomFieldStoredValue | null } // null = empty / cleared
+  | { ok: false; message: string };
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDateOnly(s: string): boolean {
+  if (!DATE_RE.test(s)) return false;
+  const d = new Date(`${s}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === s;
+}
+
+function isHttpUrl(s: string): boolean {
+  try {
+    const url = new URL(s);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize one raw value against its definition. Empty strings, empty lists
+ * and null all mean "no value"; whether that's allowed is decided by
+ * {@link validateCustomFieldValues}.
+ */
+export function normalizeCustomFieldValue(
+  def: CustomFieldDef,
+  raw: CustomFieldRawValue,
+): NormalizeResult {
+  if (raw === null || raw === undefined) return { ok: true, value: null };
+
+  if (def.type === "MULTI_SELECT") {
+    const list = (Array.isArray(raw) ? raw : [raw]).map((v) => v.trim()).filter(Boolean);
+    const unique = [...new Set(list)];
+    if (unique.length === 0) return { ok: true, value: null };
+    const unknown = unique.find((v) => !def.options.includes(v));
+    if (unknown !== undefined) {
+      return { ok: false, message: `"${unknown}" is not an option for ${def.label}.` };
+    }
+    // Keep the definition's option order so values read the same everywhere.
+    return {
+      ok: true,
+      value: { value: null, values: def.options.filter((o) => unique.includes(o)) },
+    };
+  }
+
+  if (Array.isArray(raw)) {
+    return { ok: false, message: `${def.label} takes a single value.` };
+  }
+  const s = raw.trim();
+  if (s === "") return { ok: true, value: null };
+
+  switch (def.type) {
+    case "TEXT":
+      if (s.length > MAX_CUSTOM_FIELD_TEXT) {
+        return {
+          ok: false,
+          message: `${def.label} must be at most ${MAX_CUSTOM_FIELD_TEXT} characters.`,
+        };
+      }
+      break;
+    case "NUMBER": {
+      const n = Number(s);
+      if (!Number.isFinite(n)) {
+        return { ok: false, message: `${def.label} must be a number.` };
+      }
+      return { ok: true, value: { value: String(n), values: [] } };
+    }
+    case "DATE":
+      if (!isValidDateOnly(s)) {
+        return { ok: false, message: `${def.label} must be a date (YYYY-MM-DD).` };
+      }
+      break;
+    case "SELECT":
+      if (!def.options.includes(s)) {
+        return { ok: false, message: `"${s}" is not an option for ${def.label}.` };
+      }
+      break;
+    case "URL":
+      if (s.length > MAX_CUSTOM_FIELD_TEXT || !isHttpUrl(s)) {
+        return { ok: false, message: `${def.label} must be an http(s) link.` };
+      }
+      break;
+  }
+  return { ok: true, value: { value: s, values: [] } };
+}
+
+export type CustomFieldValueEntry = { fieldId: string; value: CustomFieldStoredValue | null };
+
+export type ValidateCustomFieldsResult =
+  | { ok: true; entries: CustomFieldValueEntry[] }
+  | { ok: false; fieldId: string; message: string };
+
+/**
+ * Validate a `{ [fieldId]: raw }` map against the company's definitions.
+ *
+ * Keys that don't match a definition (deleted since the form loaded) are
+ * dropped. With `partial` unset every definition is checked, so a missing
+ * required field fails — that's the create path. With `partial` only the
+ * fields present in the input are touched, but a required field still can't
+ * be cleared.
+ */
+export function validateCustomFieldValues(
+  defs: CustomFieldDef[],
+  input: Record<string, CustomFieldRawValue>,
+  opts: { partial?: boolean } = {},
+): ValidateCustomFieldsResult {
+  const entries: CustomFieldValueEntry[] = [];
+  for (const def of defs) {
+    const present = Object.prototype.hasOwnProperty.call(input, def.id);
+    if (opts.partial && !present) continue;
+
+    const normalized = normalizeCustomFieldValue(def, input[def.id]);
+    if (!normalized.ok) return { ok: false, fieldId: def.id, message: normalized.message };
+    if (normalized.value === null && def.required) {
+      return { ok: false, fieldId: def.id, message: `${def.label} is required.` };
+    }
+    if (present || normalized.value !== null) {
+      entries.push({ fieldId: def.id, value: normalized.value });
+    }
+  }
+  return { ok: true, entries };
+}
+
+/** Human-readable value for lists and the read-only ticket views. */
+export function formatCustomFieldValue(
+  type: CustomFieldTypeKey,
+  stored: CustomFieldStoredValue,
+): string {
+  if (type === "MULTI_SELECT") return stored.values.join(", ");
+  if (!stored.value) return "";
+  if (type === "DATE" && isValidDateOnly(stored.value)) {
+    return new Date(`${stored.value}T00:00:00Z`).toLocaleDateString(undefined, {
+      timeZone: "UTC",
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  }
+  return stored.value;
+}
@@ -0,0 +1,141 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/custom-fields.ts
+// @purpose: Company custom fields on tickets — definition select / DTO,
+//           per-ticket value reads and writes, and the list filter for
+//           /api/customer/tickets. Value rules live in
+//           ./custom-field-values.ts so the forms can share them.
+// -----------------------------------------------------------------------------
+
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import {
+  CUSTOM_FIELD_FILTER_PREFIX,
+  type CustomFieldDef,
+  type CustomFieldStoredValue,
+  type CustomFieldValueEntry,
+} from "@/lib/tickets/custom-field-values";
+
+export { CUSTOM_FIELD_FILTER_PREFIX };
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// ---------------------------------------------------------------------------
+// Definitions
+// ---------------------------------------------------------------------------
+
+export const CUSTOM_FIELD_SELECT = {
+  id: true,
+  label: true,
+  type: true,
+  options: true,
+  required: true,
+  position: true,
+} satisfies Prisma.CustomFieldDefinitionSelect;
+
+export type CustomFieldDto = Prisma.CustomFieldDefinitionGetPayload<{
+  select: typeof CUSTOM_FIELD_SELECT;
+}>;
+
+/** The company's field definitions in form order. */
+export async function listCustomFields(companyId: string, db: Db = prisma) {
+  return db.customFieldDefinition.findMany({
+    where: { companyId },
+    select: CUSTOM_FIELD_SELECT,
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Values
+// ---------------------------------------------------------------------------
+
+export type TicketCustomFieldDto = CustomFieldDto & CustomFieldStoredValue;
+
+/**
+ * Every company field with this ticket's value (null / [] when unset), in
+ * form order. Editors need the empty fields too; read-only views skip them.
+ */
+export async function getTicketCustomFields(
+  ticketId: string,
+  companyId: string,
+): Promise<TicketCustomFieldDto[]> {
+  const [defs, values] = await Promise.all([
+    listCustomFields(companyId),
+    prisma.ticketCustomFieldValue.findMany({
+      where: { ticketId },
+      select: { fieldId: true, value: true, values: true },
+    }),
+  ]);
+  const byField = new Map(values.map((v) => [v.fieldId, v]));
+  return defs.map((def) => ({
+    ...def,
+    value: byField.get(def.id)?.value ?? null,
+    values: byField.get(def.id)?.values ?? [],
+  }));
+}
+
+/**
+ * Write validated entries for one ticket: set values are upserted, cleared
+ * ones (value null) are deleted so "unset" never lingers as an empty row.
+ */
+export async function saveTicketCustomFieldValues(
+  db: Db,
+  ticketId: string,
+  entries: CustomFieldValueEntry[],
+): Promise<void> {
+  const cleared = entries.filter((e) => e.value === null).map((e) => e.fieldId);
+  if (cleared.length > 0) {
+    await db.ticketCustomFieldValue.deleteMany({
+      where: { ticketId, fieldId: { in: cleared } },
+    });
+  }
+
+  for (const entry of entries) {
+    if (!entry.value) continue;
+    await db.ticketCustomFieldValue.upsert({
+      where: { ticketId_fieldId: { ticketId, fieldId: entry.fieldId } },
+      create: { ticketId, fieldId: entry.fieldId, ...entry.value },
+      update: entry.value,
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// List filter
+// ---------------------------------------------------------------------------
+
+/**
+ * Ticket where-clauses for `cf_<fieldId>=value` query params. TEXT and URL
+ * match case-insensitively on a substring, MULTI_SELECT matches tickets that
+ * carry the option, every other type matches the stored value exactly.
+ * Params for fields the company doesn't have are ignored.
+ */
+export function customFieldFilterWhere(
+  defs: Pick<CustomFieldDef, "id" | "type">[],
+  params: URLSearchParams,
+): Prisma.TicketWhereInput[] {
+  const byId = new Map(defs.map((d) => [d.id, d]));
+  const clauses: Prisma.TicketWhereInput[] = [];
+
+  for (const [key, raw] of params) {
+    if (!key.startsWith(CUSTOM_FIELD_FILTER_PREFIX)) continue;
+    const def = byId.get(key.slice(CUSTOM_FIELD_FILTER_PREFIX.length));
+    const value = raw.trim();
+    if (!def || !value) continue;
+
+    let match: Prisma.TicketCustomFieldValueWhereInput;
+    if (def.type === "TEXT" || def.type === "URL") {
+      match = { value: { contains: value, mode: "insensitive" } };
+    } else if (def.type === "MULTI_SELECT") {
+      match = { values: { has: value } };
+    } else if (def.type === "NUMBER" && Number.isFinite(Number(value))) {
+      match = { value: String(Number(value)) };
+    } else {
+      match = { value };
+    }
+    clauses.push({ customFieldValues: { some: { fieldId: def.id, ...match } } });
+  }
+
+  return clauses;
+}
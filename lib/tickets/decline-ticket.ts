@@ -0,0 +1,234 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/decline-ticket.ts
+// @purpose: Domain service — a creative hands back a TODO ticket they were
+//           assigned. The ticket is unassigned, the decline is logged as a
+//           DECLINED TicketAssignmentLog row, and auto-assign re-runs without
+//           anyone who has declined it. When nobody is left (or auto-assign is
+//           off for the ticket) site owners get an admin event email.
+//
+// Re-selection reuses resolveAutoAssignCreative from ./backfill-assign.ts, so
+// a re-routed ticket goes through the same skill → pause → cap → strategy
+// pipeline as a new one.
+// -----------------------------------------------------------------------------
+
+import { AutoAssignMode, AutoAssignStrategy, TicketStatus } from "@prisma/client";
+
+import { notifySiteOwnersOfEvent } from "@/lib/admin-event-email";
+import { createNotification } from "@/lib/notifications";
+import { prisma } from "@/lib/prisma";
+import { buildTicketCode } from "@/lib/ticket-code";
+import {
+  DECLINED_ASSIGNMENT_REASON,
+  declinedCreativeIds,
+  isAutoAssignEnabled,
+} from "@/lib/tickets/auto-assign";
+import { resolveAssignStrategy, strategyLogMetadata } from "@/lib/tickets/assign-strategies";
+import { resolveAutoAssignCreative } from "@/lib/tickets/backfill-assign";
+
+export type DeclineTicketAssignmentInput = {
+  ticketId: string;
+  creative: { id: string; email: string };
+  reason: string;
+};
+
+export type DeclineTicketAssignmentResult =
+  | {
+      success: true;
+      ticketId: string;
+      /** The creative auto-assign picked next; null when admins were alerted. */
+      reassignedTo: { id: string; name: string | null } | null;
+    }
+  | { success: false; code: "NOT_FOUND"; message: string }
+  | { success: false; code: "NOT_TODO"; message: string; status: TicketStatus }
+  | { success: false; code: "LOST_RACE"; message: string };
+
+export async function declineTicketAssignment(
+  input: DeclineTicketAssignmentInput,
+): Promise<DeclineTicketAssignmentResult> {
+  const { ticketId, creative, reason } = input;
+
+  const ticket = await prisma.ticket.findFirst({
+    where: { id: ticketId, creativeId: creative.id },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      jobTypeId: true,
+      companyId: true,
+      projectId: true,
+      companyTicketNumber: true,
+      company: {
+        select: { name: true, autoAssignDefaultEnabled: true, autoAssignStrategy: true },
+      },
+      project: { select: { code: true, autoAssignMode: true, autoAssignStrategy: true } },
+    },
+  });
+
+  if (!ticket) {
+    return { success: false, code: "NOT_FOUND", message: "Ticket not found." };
+  }
+
+  if (ticket.status !== TicketStatus.TODO) {
+    return {
+      success: false,
+      code: "NOT_TODO",
+      message: "Only tickets you haven't started yet can be declined.",
+      status: ticket.status,
+    };
+  }
+
+  const declined = await prisma.$transaction(async (tx) => {
+    const released = await tx.ticket.updateMany({
+      where: { id: ticket.id, creativeId: creative.id, status: TicketStatus.TODO },
+      data: { creativeId: null },
+    });
+    if (released.count === 0) return false;
+
+    await tx.ticketAssignmentLog.create({
+      data: {
+        ticketId: ticket.id,
+        creativeId: creative.id,
+        reason: DECLINED_ASSIGNMENT_REASON,
+        notes: reason,
+        metadata: { source: "creative-decline" },
+      },
+    });
+    return true;
+  });
+
+  if (!declined) {
+    return {
+      success: false,
+      code: "LOST_RACE",
+      message: "This ticket was just updated by someone else. Please refresh and try again.",
+    };
+  }
+
+  const code = buildTicketCode({
+    projectCode: ticket.project?.code,
+    companyTicketNumber: ticket.companyTicketNumber,
+    ticketId: ticket.id,
+  });
+
+  const reassignedTo = await reassignDeclinedTicket(ticket);
+
+  if (!reassignedTo.creative) {
+    void notifySiteOwnersOfEvent({
+      kind: "TICKET_DECLINED_UNASSIGNED",
+      ticketId: ticket.id,
+      ticketCode: code,
+      title: ticket.title,
+      companyName: ticket.company.name,
+      declinedByEmail: creative.email,
+      reason,
+      unassignedBecause: reassignedTo.unassignedBecause,
+    });
+    return { success: true, ticketId: ticket.id, reassignedTo: null };
+  }
+
+  if (reassignedTo.claimedHere) {
+    void createNotification({
+      userId: reassignedTo.creative.id,
+      type: "TICKET_ASSIGNED",
+      title: "New ticket assigned",
+      message: `${code} "${ticket.title}" was assigned to you`,
+      ticketId: ticket.id,
+    });
+  }
+
+  return { success: true, ticketId: ticket.id, reassignedTo: reassignedTo.creative };
+}
+
+/**
+ * Auto-assign the released ticket to the next eligible creative, skipping
+ * everyone who has declined it. Claims with the same guarded update as the
+ * backfill, so an admin assigning it in the meantime wins.
+ */
+async function reassignDeclinedTicket(ticket: {
+  id: string;
+  jobTypeId: string | null;
+  companyId: string;
+  projectId: string | null;
+  company: { autoAssignDefaultEnabled: boolean; autoAssignStrategy: AutoAssignStrategy };
+  project: {
+    autoAssignMode: AutoAssignMode | null;
+    autoAssignStrategy: AutoAssignStrategy | null;
+  } | null;
+}): Promise<
+  | { creative: { id: string; name: string | null }; claimedHere: boolean }
+  | { creative: null; unassignedBecause: string }
+> {
+  const enabled = isAutoAssignEnabled(
+    ticket.company.autoAssignDefaultEnabled,
+    ticket.project?.autoAssignMode ?? null,
+  );
+  if (!enabled) {
+    return { creative: null, unassignedBecause: "auto-assign is off for this project" };
+  }
+  if (!ticket.jobTypeId) {
+    return { creative: null, unassignedBecause: "the ticket has no job type" };
+  }
+
+  const logs = await prisma.ticketAssignmentLog.findMany({
+    where: { ticketId: ticket.id, reason: DECLINED_ASSIGNMENT_REASON },
+    select: { creativeId: true },
+  });
+  const excluded = declinedCreativeIds(logs);
+
+  const pick = await resolveAutoAssignCreative({
+    jobTypeId: ticket.jobTypeId,
+    companyId: ticket.companyId,
+    projectId: ticket.projectId,
+    strategy: resolveAssignStrategy(
+      ticket.company.autoAssignStrategy,
+      ticket.project?.autoAssignStrategy,
+    ),
+    excludeCreativeIds: excluded,
+  });
+  if (!pick) {
+    return { creative: null, unassignedBecause: "no other eligible creative" };
+  }
+  const { creativeId } = pick;
+
+  const claimed = await prisma.$transaction(async (tx) => {
+    const updated = await tx.ticket.updateMany({
+      where: { id: ticket.id, creativeId: null, status: TicketStatus.TODO },
+      data: { creativeId },
+    });
+    if (updated.count === 0) return false;
+
+    await tx.ticketAssignmentLog.create({
+      data: {
+        ticketId: ticket.id,
+        creativeId,
+        reason: "AUTO_ASSIGN",
+        metadata: {
+          algorithm: "v5-skill-cap-aware-strategy",
+          source: "creative-decline",
+          jobTypeId: ticket.jobTypeId,
+          excludedCreativeIds: excluded,
+          ...strategyLogMetadata(pick.strategy, pick),
+        },
+      },
+    });
+    return true;
+  });
+
+  if (!claimed) {
+    // Someone else assigned it first — they notified their creative, and
+    // there is nothing left for admins to do.
+    const current = await prisma.ticket.findUnique({
+      where: { id: ticket.id },
+      select: { creative: { select: { id: true, name: true } } },
+    });
+    return current?.creative
+      ? { creative: current.creative, claimedHere: false }
+      : { creative: null, unassignedBecause: "the ticket changed while re-assigning" };
+  }
+
+  const chosen = await prisma.userAccount.findUnique({
+    where: { id: creativeId },
+    select: { id: true, name: true },
+  });
+  return { creative: chosen ?? { id: creativeId, name: null }, claimedHere: true };
+}
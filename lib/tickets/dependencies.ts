@@ -0,0 +1,321 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/dependencies.ts
+// @purpose: Domain service — "blocks / blocked by" links between tickets of
+//           the same company. Add / remove links (with cycle detection),
+//           look up a ticket's open blockers for the IN_PROGRESS gate, and
+//           notify dependents once their last blocker is resolved.
+//
+// A blocker counts as resolved once it is DONE or CANCELED — a cancelled
+// blocker will never finish, so keeping its dependents stuck would deadlock
+// them. Structured failures are returned as a tagged union, same as the
+// other ticket services.
+// -----------------------------------------------------------------------------
+
+import { Prisma, TicketStatus } from "@prisma/client";
+
+import { createNotification } from "@/lib/notifications";
+import { prisma } from "@/lib/prisma";
+import { buildTicketCode } from "@/lib/ticket-code";
+
+/** Max blockers a single ticket can carry. Keeps the board query bounded. */
+export const MAX_BLOCKERS_PER_TICKET = 20;
+
+const RESOLVED_BLOCKER_STATUSES: TicketStatus[] = [TicketStatus.DONE, TicketStatus.CANCELED];
+
+/** True when a blocker in `status` no longer holds up its dependents. */
+export function isBlockerResolved(status: TicketStatus): boolean {
+  return RESOLVED_BLOCKER_STATUSES.includes(status);
+}
+
+/** Prisma filter for blockers that are still open. */
+export const OPEN_BLOCKER_WHERE = {
+  blocker: { status: { notIn: RESOLVED_BLOCKER_STATUSES } },
+} satisfies Prisma.TicketDependencyWhereInput;
+
+// ---------------------------------------------------------------------------
+// Cycle detection (pure)
+// ---------------------------------------------------------------------------
+
+export type DependencyEdge = { blockerId: string; blockedId: string };
+
+/**
+ * Would adding `blockerId → blockedId` close a loop? True when `blockedId`
+ * already (transitively) blocks `blockerId`, or when both are the same
+ * ticket.
+ */
+export function wouldCreateCycle(
+  edges: DependencyEdge[],
+  blockerId: string,
+  blockedId: string,
+): boolean {
+  if (blockerId === blockedId) return true;
+
+  const blocks = new Map<string, string[]>();
+  for (const e of edges) {
+    const list = blocks.get(e.blockerId) ?? [];
+    list.push(e.blockedId);
+    blocks.set(e.blockerId, list);
+  }
+
+  const seen = new Set<string>();
+  const stack = [blockedId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === blockerId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    stack.push(...(blocks.get(current) ?? []));
+  }
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+export type LinkedTicket = {
+  id: string;
+  code: string;
+  title: string;
+  status: TicketStatus;
+};
+
+function toLinkedTicket(t: {
+  id: string;
+  title: string;
+  status: TicketStatus;
+  companyTicketNumber: number | null;
+  project: { code: string | null } | null;
+}): LinkedTicket {
+  return {
+    id: t.id,
+    code: buildTicketCode({
+      projectCode: t.project?.code,
+      companyTicketNumber: t.companyTicketNumber,
+      ticketId: t.id,
+    }),
+    title: t.title,
+    status: t.status,
+  };
+}
+
+const LINKED_TICKET_SELECT = {
+  id: true,
+  title: true,
+  status: true,
+  companyTicketNumber: true,
+  projectId: true,
+  project: { select: { code: true } },
+} satisfies Prisma.TicketSelect;
+
+export type TicketDependencies = {
+  blockedBy: LinkedTicket[];
+  blocking: LinkedTicket[];
+  /** Links to tickets in projects the viewer can't see — counted, not shown. */
+  hiddenBlockedBy: number;
+  /** How many of the hidden blockers are still open (they still gate the ticket). */
+  hiddenOpenBlockers: number;
+  hiddenBlocking: number;
+};
+
+/**
+ * Both directions for one ticket: what it waits on and what waits on it.
+ * Links can cross projects, so each linked ticket goes through
+ * `canSeeProject`; ones the viewer can't see only add to the hidden counts.
+ */
+export async function getTicketDependencies(
+  ticketId: string,
+  canSeeProject: (projectId: string | null) => boolean,
+): Promise<TicketDependencies> {
+  const [blockedByRows, blockingRows] = await Promise.all([
+    prisma.ticketDependency.findMany({
+      where: { blockedId: ticketId },
+      orderBy: { createdAt: "asc" },
+      select: { blocker: { select: LINKED_TICKET_SELECT } },
+    }),
+    prisma.ticketDependency.findMany({
+      where: { blockerId: ticketId },
+      orderBy: { createdAt: "asc" },
+      select: { blocked: { select: LINKED_TICKET_SELECT } },
+    }),
+  ]);
+
+  const blockers = blockedByRows.map((d) => d.blocker);
+  const dependents = blockingRows.map((d) => d.blocked);
+  const hiddenBlockers = blockers.filter((t) => !canSeeProject(t.projectId));
+
+  return {
+    blockedBy: blockers.filter((t) => canSeeProject(t.projectId)).map(toLinkedTicket),
+    blocking: dependents.filter((t) => canSeeProject(t.projectId)).map(toLinkedTicket),
+    hiddenBlockedBy: hiddenBlockers.length,
+    hiddenOpenBlockers: hiddenBlockers.filter((t) => !isBlockerResolved(t.status)).length,
+    hiddenBlocking: dependents.filter((t) => !canSeeProject(t.projectId)).length,
+  };
+}
+
+/**
+ * Blockers of `ticketId` that are not yet resolved. Empty means the ticket
+ * is free to move to IN_PROGRESS.
+ */
+export async function getOpenBlockers(
+  ticketId: string,
+  db: Prisma.TransactionClient = prisma,
+): Promise<LinkedTicket[]> {
+  const rows = await db.ticketDependency.findMany({
+    where: { blockedId: ticketId, ...OPEN_BLOCKER_WHERE },
+    orderBy: { createdAt: "asc" },
+    select: { blocker: { select: LINKED_TICKET_SELECT } },
+  });
+  return rows.map((r) => toLinkedTicket(r.blocker));
+}
+
+/** Human-readable "blocked by X, Y" message for API errors. */
+export function describeOpenBlockers(blockers: LinkedTicket[]): string {
+  const codes = blockers.map((b) => b.code).join(", ");
+  return `This ticket is blocked by ${codes}. It can start once ${
+    blockers.length === 1 ? "that ticket is" : "those tickets are"
+  } done.`;
+}
+
+// ---------------------------------------------------------------------------
+// Mutations
+// ---------------------------------------------------------------------------
+
+export type AddDependencyInput = {
+  companyId: string;
+  blockerId: string;
+  blockedId: string;
+  actorId: string | null;
+};
+
+export type AddDependencyResult =
+  | { success: true; dependencyId: string }
+  | { success: false; code: "SAME_TICKET"; message: string }
+  | { success: false; code: "TICKET_NOT_FOUND"; message: string }
+  | { success: false; code: "ALREADY_LINKED"; message: string }
+  | { success: false; code: "TOO_MANY_BLOCKERS"; message: string }
+  | { success: false; code: "CYCLE"; message: string };
+
+export async function addTicketDependency(input: AddDependencyInput): Promise<AddDependencyResult> {
+  const { companyId, blockerId, blockedId, actorId } = input;
+
+  if (blockerId === blockedId) {
+    return { success: false, code: "SAME_TICKET", message: "A ticket can't block itself." };
+  }
+
+  const tickets = await prisma.ticket.findMany({
+    where: { id: { in: [blockerId, blockedId] }, companyId },
+    select: { id: true },
+  });
+  if (tickets.length !== 2) {
+    return {
+      success: false,
+      code: "TICKET_NOT_FOUND",
+      message: "Both tickets must belong to your company.",
+    };
+  }
+
+  const edges = await prisma.ticketDependency.findMany({
+    where: { blocker: { companyId } },
+    select: { blockerId: true, blockedId: true },
+  });
+
+  if (edges.some((e) => e.blockerId === blockerId && e.blockedId === blockedId)) {
+    return { success: false, code: "ALREADY_LINKED", message: "These tickets are already linked." };
+  }
+  if (edges.filter((e) => e.blockedId === blockedId).length >= MAX_BLOCKERS_PER_TICKET) {
+    return {
+      success: false,
+      code: "TOO_MANY_BLOCKERS",
+      message: `A ticket can be blocked by at most ${MAX_BLOCKERS_PER_TICKET} tickets.`,
+    };
+  }
+  if (wouldCreateCycle(edges, blockerId, blockedId)) {
+    return {
+      success: false,
+      code: "CYCLE",
+      message: "That link would create a loop — the other ticket already waits on this one.",
+    };
+  }
+
+  const created = await prisma.ticketDependency.create({
+    data: { blockerId, blockedId, createdById: actorId },
+    select: { id: true },
+  });
+  return { success: true, dependencyId: created.id };
+}
+
+export async function removeTicketDependency(input: {
+  companyId: string;
+  blockerId: string;
+  blockedId: string;
+}): Promise<{ success: true } | { success: false; code: "NOT_FOUND"; message: string }> {
+  const { count } = await prisma.ticketDependency.deleteMany({
+    where: {
+      blockerId: input.blockerId,
+      blockedId: input.blockedId,
+      blocker: { companyId: input.companyId },
+    },
+  });
+  if (count === 0) {
+    return { success: false, code: "NOT_FOUND", message: "Dependency not found." };
+  }
+  return { success: true };
+}
+
+// ---------------------------------------------------------------------------
+// Unblock notifications
+// ---------------------------------------------------------------------------
+
+/**
+ * Called after `resolvedTicketId` reaches DONE or CANCELED. Finds the tickets
+ * it was blocking that now have no open blockers left and notifies their
+ * requester and assigned creative.
+ *
+ * Fire-and-forget like createNotification — errors are logged, never thrown,
+ * so a notification hiccup can't fail the completion that triggered it.
+ */
+export async function notifyUnblockedDependents(
+  resolvedTicketId: string,
+  actorId?: string | null,
+): Promise<void> {
+  try {
+    const dependents = await prisma.ticketDependency.findMany({
+      where: { blockerId: resolvedTicketId },
+      select: {
+        blocked: {
+          select: {
+            ...LINKED_TICKET_SELECT,
+            createdById: true,
+            creativeId: true,
+            _count: { select: { blockedBy: { where: OPEN_BLOCKER_WHERE } } },
+          },
+        },
+      },
+    });
+
+    for (const { blocked } of dependents) {
+      if (blocked._count.blockedBy > 0) continue;
+      if (isBlockerResolved(blocked.status)) continue;
+
+      const { code } = toLinkedTicket(blocked);
+      const recipients = new Set(
+        [blocked.createdById, blocked.creativeId].filter(
+          (id): id is string => !!id && id !== actorId,
+        ),
+      );
+      for (const userId of recipients) {
+        void createNotification({
+          userId,
+          type: "TICKET_UNBLOCKED",
+          title: "Ticket unblocked",
+          message: `${code} "${blocked.title}" is no longer blocked and can be started`,
+          ticketId: blocked.id,
+          actorId: actorId ?? undefined,
+        });
+      }
+    }
+  } catch (err) {
+    console.error("[dependencies] notifyUnblockedDependents failed", err);
+  }
+}
@@ -0,0 +1,482 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/guest-review.ts
+// @purpose: Guest review links — expiring, revocable share links that let
+//           someone without an account (a CEO, an agency partner) view one
+//           revision and leave pins and comments on it.
+//
+// Tokens follow the CompanyInvite / talent booking pattern: a plain random
+// string in the URL, looked up by equality. A link may also carry a
+// password; it is stored as an scrypt hash, and a correct guess sets an
+// httpOnly cookie holding guestAccessKey() — derived from the token and the
+// hash, so changing or removing the password invalidates old cookies.
+//
+// Guest feedback never reaches the creative directly: it waits as PENDING
+// until a company member accepts it (it becomes a pin or a comment, labelled
+// as guest feedback) or dismisses it. Every guest and company action on a
+// link is written to GuestReviewEvent via logGuestReviewEvent(), which never
+// throws — like lib/admin-audit.ts, a failed log write must not block the
+// action itself.
+// -----------------------------------------------------------------------------
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import type { NextRequest } from "next/server";
+import { GuestFeedbackStatus, type GuestReviewAction, Prisma } from "@prisma/client";
+
+import { type AdminAuditContext, extractAuditContext } from "@/lib/admin-audit";
+import { prisma } from "@/lib/prisma";
+import { postTicketComment } from "@/lib/tickets/comments";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Tokens & expiry
+// ---------------------------------------------------------------------------
+
+/** 32 random bytes as base64url — drops into a path segment unescaped. */
+export function generateGuestReviewToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Cheap shape check before any DB lookup, so a bot scraping random tokens
+ * can't generate query load.
+ */
+export function isGuestReviewTokenShaped(token: string | undefined | null): token is string {
+  return !!token && token.length >= 32 && token.length <= 80 && /^[A-Za-z0-9_-]+$/.test(token);
+}
+
+/** Absolute URL of the public review page. */
+export function buildGuestReviewUrl(token: string): string {
+  const base = process.env.NEXT_PUBLIC_APP_URL?.replace(/\/+$/, "") || "http://localhost:3000";
+  return `${base}/review/${token}`;
+}
+
+export function guestReviewExpiresAt(days: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() + days * DAY_MS);
+}
+
+export type GuestLinkState = "ACTIVE" | "EXPIRED" | "REVOKED";
+
+/** Revocation wins over expiry so the sharer sees what they did. */
+export function guestLinkState(
+  link: { expiresAt: Date; revokedAt: Date | null },
+  now: Date = new Date(),
+): GuestLinkState {
+  if (link.revokedAt) return "REVOKED";
+  if (link.expiresAt.getTime() <= now.getTime()) return "EXPIRED";
+  return "ACTIVE";
+}
+
+// ---------------------------------------------------------------------------
+// Passwords
+// ---------------------------------------------------------------------------
+
+/** "scrypt$<salt>$<hash>", both base64url. */
+export async function hashGuestPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 32);
+  return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+export async function verifyGuestPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64url"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/** Name of the cookie that remembers a guest unlocked this link. */
+export function guestAccessCookieName(linkId: string): string {
+  return `bb_review_${linkId}`;
+}
+
+/** Cookie value proving the guest knew the current password. */
+export function guestAccessKey(link: { token: string; passwordHash: string | null }): string {
+  return createHash("sha256")
+    .update(`${link.token}:${link.passwordHash ?? ""}`)
+    .digest("base64url");
+}
+
+export function hasGuestAccess(
+  link: { token: string; passwordHash: string | null },
+  cookieValue: string | undefined,
+): boolean {
+  if (!link.passwordHash) return true;
+  if (!cookieValue) return false;
+  const expected = Buffer.from(guestAccessKey(link));
+  const actual = Buffer.from(cookieValue);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// ---------------------------------------------------------------------------
+// Loading a link from the public routes
+// ---------------------------------------------------------------------------
+
+const GUEST_LINK_SELECT = {
+  id: true,
+  token: true,
+  ticketId: true,
+  revisionId: true,
+  passwordHash: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdById: true,
+  ticket: { select: { id: true, title: true, companyId: true, createdById: true } },
+} satisfies Prisma.GuestReviewLinkSelect;
+
+export type GuestLink = Prisma.GuestReviewLinkGetPayload<{ select: typeof GUEST_LINK_SELECT }>;
+
+export type GuestLinkLookup =
+  | { ok: true; link: GuestLink; unlocked: boolean }
+  | { ok: false; state: "INVALID" | "EXPIRED" | "REVOKED" };
+
+/** HTTP status the public routes answer with for each unusable link state. */
+export const GUEST_LINK_HTTP_STATUS = {
+  INVALID: 404,
+  EXPIRED: 410,
+  REVOKED: 410,
+  LOCKED: 401,
+} as const;
+
+/**
+ * Resolve a token for the public /api/review routes. `unlocked` is false
+ * while a password-protected link hasn't been unlocked by this browser.
+ */
+export async function loadGuestLink(req: NextRequest, token: string): Promise<GuestLinkLookup> {
+  if (!isGuestReviewTokenShaped(token)) return { ok: false, state: "INVALID" };
+
+  const link = await prisma.guestReviewLink.findUnique({
+    where: { token },
+    select: GUEST_LINK_SELECT,
+  });
+  if (!link) return { ok: false, state: "INVALID" };
+
+  const state = guestLinkState(link);
+  if (state !== "ACTIVE") return { ok: false, state };
+
+  const cookie = req.cookies.get(guestAccessCookieName(link.id))?.value;
+  return { ok: true, link, unlocked: hasGuestAccess(link, cookie) };
+}
+
+// ---------------------------------------------------------------------------
+// Audit log
+// ---------------------------------------------------------------------------
+
+/**
+ * Append a GuestReviewEvent. Never throws. Pass the request so the guest's
+ * IP and user agent are recorded alongside the action.
+ */
+export async function logGuestReviewEvent(input: {
+  linkId: string;
+  action: GuestReviewAction;
+  actorId?: string | null;
+  guestName?: string | null;
+  feedbackId?: string | null;
+  req?: NextRequest | Request;
+}): Promise<void> {
+  const context: AdminAuditContext = input.req
+    ? extractAuditContext(input.req)
+    : { ipAddress: null, userAgent: null };
+  try {
+    await prisma.guestReviewEvent.create({
+      data: {
+        linkId: input.linkId,
+        action: input.action,
+        actorId: input.actorId ?? null,
+        guestName: input.guestName ?? null,
+        feedbackId: input.feedbackId ?? null,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent?.slice(0, 300) ?? null,
+      },
+    });
+  } catch (err) {
+    console.warn("[guest-review] failed to write audit event:", {
+      action: input.action,
+      linkId: input.linkId,
+      err: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Accepting / dismissing guest feedback
+// ---------------------------------------------------------------------------
+
+/** How accepted guest feedback reads on the ticket, so it stays recognisable. */
+export function guestFeedbackText(guestName: string, message: string, kind: "pin" | "comment") {
+  return kind === "pin"
+    ? `Guest · ${guestName}: ${message}`
+    : `Guest feedback from ${guestName}: ${message}`;
+}
+
+export type ReviewGuestFeedbackResult =
+  | { success: true; status: GuestFeedbackStatus; pinId: string | null; commentId: string | null }
+  | { success: false; code: "NOT_FOUND" | "ALREADY_REVIEWED"; message: string };
+
+/**
+ * Accept or dismiss one PENDING item of guest feedback on a ticket. Accepting
+ * a pinned item creates an AssetPin at the same spot; an unpinned one becomes
+ * a ticket comment (which notifies the watchers, creative included).
+ */
+export async function reviewGuestFeedback(input: {
+  feedbackId: string;
+  ticket: { id: string; title: string };
+  actorId: string;
+  accept: boolean;
+}): Promise<ReviewGuestFeedbackResult> {
+  const feedback = await prisma.guestReviewFeedback.findFirst({
+    where: { id: input.feedbackId, link: { ticketId: input.ticket.id } },
+    select: {
+      id: true,
+      linkId: true,
+      guestName: true,
+      message: true,
+      assetId: true,
+      x: true,
+      y: true,
+      page: true,
+      asset: { select: { deletedAt: true } },
+    },
+  });
+  if (!feedback) {
+    return { success: false, code: "NOT_FOUND", message: "Guest feedback not found." };
+  }
+
+  const status = input.accept ? GuestFeedbackStatus.ACCEPTED : GuestFeedbackStatus.DISMISSED;
+
+  // Claim the row first so two reviewers can't both accept it.
+  const claimed = await prisma.guestReviewFeedback.updateMany({
+    where: { id: feedback.id, status: GuestFeedbackStatus.PENDING },
+    data: { status, reviewedById: input.actorId, reviewedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    return {
+      success: false,
+      code: "ALREADY_REVIEWED",
+      message: "This feedback was already accepted or dismissed.",
+    };
+  }
+
+  let pinId: string | null = null;
+  let commentId: string | null = null;
+
+  if (input.accept) {
+    try {
+      const pinnable =
+        feedback.assetId &&
+        !feedback.asset?.deletedAt &&
+        feedback.x !== null &&
+        feedback.y !== null;
+
+      if (pinnable) {
+        pinId = await prisma.$transaction(async (tx) => {
+          const last = await tx.assetPin.findFirst({
+            where: { assetId: feedback.assetId! },
+            orderBy: { order: "desc" },
+            select: { order: true },
+          });
+          const pin = await tx.assetPin.create({
+            data: {
+              assetId: feedback.assetId!,
+              createdById: input.actorId,
+              x: feedback.x!,
+              y: feedback.y!,
+              page: feedback.page,
+              order: (last?.order ?? 0) + 1,
+              label: guestFeedbackText(feedback.guestName, feedback.message, "pin"),
+            },
+            select: { id: true },
+          });
+          await tx.guestReviewFeedback.update({
+            where: { id: feedback.id },
+            data: { acceptedPinId: pin.id },
+          });
+          return pin.id;
+        });
+      } else {
+        const comment = await postTicketComment({
+          ticket: input.ticket,
+          authorId: input.actorId,
+          body: guestFeedbackText(feedback.guestName, feedback.message, "comment"),
+        });
+        commentId = comment.id;
+        await prisma.guestReviewFeedback.update({
+          where: { id: feedback.id },
+          data: { acceptedCommentId: comment.id },
+        });
+      }
+    } catch (err) {
+      // Hand the item back so it can be accepted again.
+      await prisma.guestReviewFeedback.update({
+        where: { id: feedback.id },
+        data: { status: GuestFeedbackStatus.PENDING, reviewedById: null, reviewedAt: null },
+      });
+      throw err;
+    }
+  }
+
+  await logGuestReviewEvent({
+    linkId: feedback.linkId,
+    action: input.accept ? "FEEDBACK_ACCEPTED" : "FEEDBACK_DISMISSED",
+    actorId: input.actorId,
+    guestName: feedback.guestName,
+    feedbackId: feedback.id,
+  });
+
+  return { success: true, status, pinId, commentId };
+}
+
+// ---------------------------------------------------------------------------
+// Company view of a ticket's guest reviews
+// ---------------------------------------------------------------------------
+
+export type GuestReviewLinkDto = {
+  id: string;
+  label: string | null;
+  revisionVersion: number;
+  /** The shareable URL — a bearer credential, so null for read-only viewers. */
+  url: string | null;
+  hasPassword: boolean;
+  state: GuestLinkState;
+  expiresAt: string;
+  revokedAt: string | null;
+  lastViewedAt: string | null;
+  createdAt: string;
+  createdBy: string;
+  events: {
+    id: string;
+    action: GuestReviewAction;
+    guestName: string | null;
+    actorName: string | null;
+    ipAddress: string | null;
+    createdAt: string;
+  }[];
+};
+
+export type GuestFeedbackDto = {
+  id: string;
+  linkId: string;
+  linkLabel: string | null;
+  revisionVersion: number;
+  guestName: string;
+  message: string;
+  asset: { id: string; originalName: string | null } | null;
+  x: number | null;
+  y: number | null;
+  page: number;
+  status: GuestFeedbackStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+};
+
+/** Audit entries returned per link; the full log stays in the table. */
+const LINK_EVENT_LIMIT = 50;
+
+/**
+ * Every guest link on a ticket (newest first) and the feedback left through
+ * them. `includeUrls` should be true only for users who may share the ticket;
+ * anyone else would otherwise get a working link to pass around.
+ */
+export async function getTicketGuestReviews(
+  ticketId: string,
+  opts: { includeUrls: boolean },
+): Promise<{ links: GuestReviewLinkDto[]; feedback: GuestFeedbackDto[] }> {
+  const [links, feedback] = await Promise.all([
+    prisma.guestReviewLink.findMany({
+      where: { ticketId },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        token: true,
+        label: true,
+        passwordHash: true,
+        expiresAt: true,
+        revokedAt: true,
+        lastViewedAt: true,
+        createdAt: true,
+        revision: { select: { version: true } },
+        createdBy: { select: { name: true, email: true } },
+        events: {
+          orderBy: { createdAt: "desc" },
+          take: LINK_EVENT_LIMIT,
+          select: {
+            id: true,
+            action: true,
+            guestName: true,
+            ipAddress: true,
+            createdAt: true,
+            actor: { select: { name: true, email: true } },
+          },
+        },
+      },
+    }),
+    prisma.guestReviewFeedback.findMany({
+      where: { link: { ticketId } },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        linkId: true,
+        guestName: true,
+        message: true,
+        x: true,
+        y: true,
+        page: true,
+        status: true,
+        reviewedAt: true,
+        createdAt: true,
+        link: { select: { label: true, revision: { select: { version: true } } } },
+        asset: { select: { id: true, originalName: true } },
+        reviewedBy: { select: { name: true, email: true } },
+      },
+    }),
+  ]);
+
+  return {
+    links: links.map((l) => ({
+      id: l.id,
+      label: l.label,
+      revisionVersion: l.revision.version,
+      url: opts.includeUrls ? buildGuestReviewUrl(l.token) : null,
+      hasPassword: l.passwordHash !== null,
+      state: guestLinkState(l),
+      expiresAt: l.expiresAt.toISOString(),
+      revokedAt: l.revokedAt?.toISOString() ?? null,
+      lastViewedAt: l.lastViewedAt?.toISOString() ?? null,
+      createdAt: l.createdAt.toISOString(),
+      createdBy: l.createdBy.name || l.createdBy.email,
+      events: l.events.map((e) => ({
+        id: e.id,
+        action: e.action,
+        guestName: e.guestName,
+        actorName: e.actor ? e.actor.name || e.actor.email : null,
+        ipAddress: e.ipAddress,
+        createdAt: e.createdAt.toISOString(),
+      })),
+    })),
+    feedback: feedback.map((f) => ({
+      id: f.id,
+      linkId: f.linkId,
+      linkLabel: f.link.label,
+      revisionVersion: f.link.revision.version,
+      guestName: f.guestName,
+      message: f.message,
+      asset: f.asset,
+      x: f.x,
+      y: f.y,
+      page: f.page,
+      status: f.status,
+      reviewedBy: f.reviewedBy ? f.reviewedBy.name || f.reviewedBy.email : null,
+      reviewedAt: f.reviewedAt?.toISOString() ?? null,
+      createdAt: f.createdAt.toISOString(),
+    })),
+  };
+}
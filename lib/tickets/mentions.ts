@@ -0,0 +1,147 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/mentions.ts
+// @purpose: Server side of ticket comment @mentions — who can be mentioned on
+//           a ticket, and recording + notifying the users a new comment
+//           mentions. Parsing lives in ./comment-mentions.ts (client-safe).
+// -----------------------------------------------------------------------------
+
+import { normalizeCompanyRole } from "@/lib/permissions/companyRoles";
+import {
+  canViewProject,
+  projectRoleFromCompanyRole,
+  resolveProjectRole,
+} from "@/lib/permissions/projectRoles";
+import { createNotification } from "@/lib/notifications";
+import { prisma } from "@/lib/prisma";
+import { SITE_ADMIN_ROLES } from "@/lib/roles";
+import { watchTicket } from "@/lib/tickets/watchers";
+import {
+  commentExcerpt,
+  CUSTOMER_TEAM_KIND,
+  findMentionedUserIds,
+  mentionLabelFor,
+  staffMentionCandidates,
+  type MentionCandidate,
+} from "@/lib/tickets/comment-mentions";
+
+/**
+ * Users who can be @mentioned on a ticket: company members who can see the
+ * ticket's project, the assigned creative and the site admins. The viewer
+ * (`excludeUserId`) is left out — you can't mention yourself.
+ */
+export async function getMentionCandidates(
+  ticketId: string,
+  excludeUserId?: string,
+): Promise<MentionCandidate[]> {
+  const ticket = await prisma.ticket.findUnique({
+    where: { id: ticketId },
+    select: {
+      companyId: true,
+      creative: { select: { id: true, name: true, email: true, deletedAt: true } },
+      project: {
+        select: {
+          _count: { select: { members: true } },
+          members: { select: { userId: true, role: true } },
+        },
+      },
+    },
+  });
+  if (!ticket) return [];
+
+  const [members, admins] = await Promise.all([
+    prisma.companyMember.findMany({
+      where: { companyId: ticket.companyId, user: { deletedAt: null } },
+      select: {
+        roleInCompany: true,
+        user: { select: { id: true, name: true, email: true } },
+      },
+    }),
+    prisma.userAccount.findMany({
+      where: { role: { in: SITE_ADMIN_ROLES }, deletedAt: null },
+      select: { id: true, name: true, email: true },
+    }),
+  ]);
+
+  const candidates = new Map<string, MentionCandidate>();
+  const add = (user: { id: string; name: string | null; email: string }, kind: string) => {
+    if (user.id === excludeUserId || candidates.has(user.id)) return;
+    candidates.set(user.id, { id: user.id, label: mentionLabelFor(user), kind });
+  };
+
+  // Same visibility rules as getProjectRole(), evaluated per member.
+  const projectRoles = new Map(ticket.project?.members.map((m) => [m.userId, m.role]) ?? []);
+  for (const m of members) {
+    const companyRole = normalizeCompanyRole(m.roleInCompany);
+    const role = ticket.project
+      ? resolveProjectRole({
+          companyRole,
+          membershipRole: projectRoles.get(m.user.id) ?? null,
+          projectHasMembers: ticket.project._count.members > 0,
+        })
+      : projectRoleFromCompanyRole(companyRole);
+    if (canViewProject(role)) add(m.user, CUSTOMER_TEAM_KIND);
+  }
+
+  if (ticket.creative && !ticket.creative.deletedAt) add(ticket.creative, "Creative");
+  for (const admin of admins) add(admin, "Brandbite");
+
+  return [...candidates.values()].sort((a, b) => a.label.localeCompare(b.label));
+}
+
+/**
+ * Resolve the @mentions in a freshly posted comment, store one
+ * TicketCommentMention per mentioned user, make them watchers and send each
+ * a MENTIONED notification (subject to their preferences). Returns the mentioned
+ * candidates so the route can echo them back. In internal notes only the
+ * creative and site admins can be mentioned.
+ */
+export async function recordCommentMentions(input: {
+  commentId: string;
+  ticketId: string;
+  authorId: string;
+  body: string;
+  isInternal?: boolean;
+}): Promise<MentionCandidate[]> {
+  if (!input.body.includes("@")) return [];
+
+  const allCandidates = await getMentionCandidates(input.ticketId, input.authorId);
+  const candidates = input.isInternal ? staffMentionCandidates(allCandidates) : allCandidates;
+  const mentionedIds = findMentionedUserIds(input.body, candidates);
+  if (mentionedIds.length === 0) return [];
+
+  await prisma.ticketCommentMention.createMany({
+    data: mentionedIds.map((userId) => ({ commentId: input.commentId, userId })),
+    skipDuplicates: true,
+  });
+  // Being pulled into the conversation makes you a watcher.
+  await watchTicket(prisma, input.ticketId, mentionedIds);
+
+  const [ticket, author] = await Promise.all([
+    prisma.ticket.findUnique({ where: { id: input.ticketId }, select: { title: true } }),
+    prisma.userAccount.findUnique({
+      where: { id: input.authorId },
+      select: { name: true, email: true },
+    }),
+  ]);
+  const authorName = author ? mentionLabelFor(author) : "Someone";
+  const excerpt = commentExcerpt(input.body);
+
+  for (const userId of mentionedIds) {
+    void createNotification({
+      userId,
+      type: "MENTIONED",
+      title: input.isInternal
+        ? `${authorName} mentioned you in an internal note`
+        : `${authorName} mentioned you`,
+      message: `On "${ticket?.title ?? "a ticket"}": ${excerpt}`,
+      ticketId: input.ticketId,
+      actorId: input.authorId,
+    });
+  }
+
+  const byId = new Map(candidates.map((c) => [c.id, c]));
+  return mentionedIds.flatMap((id) => {
+    const c = byId.get(id);
+    return c ? [c] : [];
+  });
+}
@@ -0,0 +1,52 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/output-specs.ts
+// @purpose: Helpers for the [{ presetId, quantity }] output spec lists that
+//           recurring schedules and ticket templates store as JSON and copy
+//           to TicketOutputSpec rows when a ticket is created.
+// -----------------------------------------------------------------------------
+
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import type { OutputSpecEntry } from "@/lib/schemas/ticket.schemas";
+
+/** Read a stored JSON column back into spec entries, dropping junk. */
+export function readOutputSpecs(value: Prisma.JsonValue | null): OutputSpecEntry[] {
+  if (!Array.isArray(value)) return [];
+  const specs: OutputSpecEntry[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) continue;
+    const { presetId, quantity } = entry as Record<string, unknown>;
+    if (typeof presetId === "string" && typeof quantity === "number" && quantity > 0) {
+      specs.push({ presetId, quantity });
+    }
+  }
+  return specs;
+}
+
+export type OutputSpecPreset = {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  unit: string;
+};
+
+/**
+ * Display data for the given preset ids, keyed by id. Only presets visible to
+ * the company (global or its own overrides) are returned.
+ */
+export async function loadOutputSpecPresets(
+  companyId: string,
+  presetIds: string[],
+): Promise<Map<string, OutputSpecPreset>> {
+  if (presetIds.length === 0) return new Map();
+  const presets = await prisma.outputSizePreset.findMany({
+    where: {
+      id: { in: [...new Set(presetIds)] },
+      OR: [{ companyId: null }, { companyId }],
+    },
+    select: { id: true, label: true, width: true, height: true, unit: true },
+  });
+  return new Map(presets.map((p) => [p.id, p]));
+}
@@ -0,0 +1,302 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/pin-carry-over.ts
+// @purpose: Carry OPEN pins forward to the next revision. When a creative
+//           submits v2, unresolved pins on v1's assets are copied onto the
+//           matching v2 assets (same name, same dimensions, same page) and
+//           wait for the customer to confirm them as fixed or still open.
+//
+// Revision assets are uploaded after the IN_PROGRESS → IN_REVIEW transition
+// creates the revision, so carryOverOpenPins runs both inside that
+// transition (./transition-status.ts) and again whenever an output asset is
+// attached to a revision. It is idempotent — AssetPin.carriedFromPinId is
+// unique, so each pin is carried once no matter how often it runs.
+// -----------------------------------------------------------------------------
+
+import { PinCarryOverReview, PinStatus, Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export type CarryOverAsset = {
+  id: string;
+  originalName: string | null;
+  width: number | null;
+  height: number | null;
+};
+
+// ---------------------------------------------------------------------------
+// Asset matching (pure)
+// ---------------------------------------------------------------------------
+
+/**
+ * Name key for matching across revisions: lowercased, extension dropped and
+ * a trailing version / copy marker removed, so "Logo_v1.png", "logo-v2.jpg"
+ * and "logo (2).png" all compare as "logo".
+ */
+export function assetNameKey(name: string | null): string | null {
+  if (!name) return null;
+  const key = name
+    .toLowerCase()
+    .replace(/\.[a-z0-9]+$/, "")
+    .replace(/\s*\(\d+\)$/, "")
+    .replace(/[\s._-]*(v|rev|r)?\d+$/, "")
+    .replace(/[\s._-]*(final|copy)$/, "")
+    .trim();
+  return key || null;
+}
+
+function sameDimensions(a: CarryOverAsset, b: CarryOverAsset): boolean {
+  return a.width === b.width && a.height === b.height && a.width !== null && a.height !== null;
+}
+
+function dimensionsCompatible(a: CarryOverAsset, b: CarryOverAsset): boolean {
+  if (a.width === null || a.height === null || b.width === null || b.height === null) return true;
+  return sameDimensions(a, b);
+}
+
+const exactName = (name: string | null) => name?.toLowerCase().replace(/\.[a-z0-9]+$/, "") || null;
+
+/**
+ * Pair previous-revision assets with new ones, one-to-one. A pair needs no
+ * conflicting dimensions and the same name — identical names pair first,
+ * then names that only differ by a version marker. When the previous
+ * revision had a single asset that found no name match, a single new asset
+ * with the exact same dimensions is taken instead (the file was renamed).
+ */
+export function matchCarryOverAssets(
+  previous: CarryOverAsset[],
+  next: CarryOverAsset[],
+): Map<string, string> {
+  const matches = new Map<string, string>();
+  const taken = new Set<string>();
+
+  for (const nameOf of [exactName, assetNameKey]) {
+    for (const prev of previous) {
+      const name = nameOf(prev.originalName);
+      if (!name || matches.has(prev.id)) continue;
+      const target = next.find(
+        (n) => !taken.has(n.id) && nameOf(n.originalName) === name && dimensionsCompatible(prev, n),
+      );
+      if (target) {
+        matches.set(prev.id, target.id);
+        taken.add(target.id);
+      }
+    }
+  }
+
+  if (previous.length === 1 && matches.size === 0) {
+    const sameSize = next.filter((n) => !taken.has(n.id) && sameDimensions(previous[0], n));
+    if (sameSize.length === 1) matches.set(previous[0].id, sameSize[0].id);
+  }
+
+  return matches;
+}
+
+// ---------------------------------------------------------------------------
+// Per-revision summary (pure)
+// ---------------------------------------------------------------------------
+
+export type RevisionPinSummary = {
+  total: number;
+  open: number;
+  resolved: number;
+  /** Pins on this revision that were carried in from the previous one. */
+  carriedIn: number;
+  /** Carried-in pins the customer hasn't checked yet. */
+  awaitingConfirmation: number;
+  confirmedFixed: number;
+  confirmedStillOpen: number;
+  /** Pins on this revision that moved on to the next revision. */
+  carriedForward: number;
+};
+
+export function summarizeRevisionPins(
+  pins: {
+    status: PinStatus;
+    carriedFromPinId: string | null;
+    carryOverReview: PinCarryOverReview | null;
+    carriedTo: { id: string } | null;
+  }[],
+): RevisionPinSummary {
+  const carriedIn = pins.filter((p) => p.carriedFromPinId !== null);
+  return {
+    total: pins.length,
+    open: pins.filter((p) => p.status === PinStatus.OPEN).length,
+    resolved: pins.filter((p) => p.status === PinStatus.RESOLVED).length,
+    carriedIn: carriedIn.length,
+    awaitingConfirmation: carriedIn.filter((p) => p.carryOverReview === PinCarryOverReview.PENDING)
+      .length,
+    confirmedFixed: carriedIn.filter((p) => p.carryOverReview === PinCarryOverReview.FIXED).length,
+    confirmedStillOpen: carriedIn.filter((p) => p.carryOverReview === PinCarryOverReview.STILL_OPEN)
+      .length,
+    carriedForward: pins.filter((p) => p.carriedTo !== null).length,
+  };
+}
+
+/** Pin fields the revision routes select to build a RevisionPinSummary. */
+export const REVISION_PIN_SUMMARY_SELECT = {
+  status: true,
+  carriedFromPinId: true,
+  carryOverReview: true,
+  carriedTo: { select: { id: true } },
+} satisfies Prisma.AssetPinSelect;
+
+// ---------------------------------------------------------------------------
+// Carry-over
+// ---------------------------------------------------------------------------
+
+/**
+ * Copy the previous revision's uncarried OPEN pins onto the matching assets
+ * of `revisionId`. Pins keep their page, shape, geometry, label and author,
+ * and are numbered after the target asset's existing pins.
+ */
+export async function carryOverOpenPins(
+  db: Db,
+  input: { ticketId: string; revisionId: string },
+): Promise<{ carried: number }> {
+  const revision = await db.ticketRevision.findFirst({
+    where: { id: input.revisionId, ticketId: input.ticketId },
+    select: { version: true },
+  });
+  if (!revision || revision.version <= 1) return { carried: 0 };
+
+  const assetSelect = {
+    id: true,
+    originalName: true,
+    width: true,
+    height: true,
+  } satisfies Prisma.AssetSelect;
+
+  const previous = await db.ticketRevision.findFirst({
+    where: { ticketId: input.ticketId, version: revision.version - 1 },
+    select: {
+      assets: {
+        where: { deletedAt: null },
+        orderBy: { createdAt: "asc" },
+        select: {
+          ...assetSelect,
+          pins: {
+            where: { status: PinStatus.OPEN, carriedTo: null },
+            orderBy: { order: "asc" },
+          },
+        },
+      },
+    },
+  });
+  const previousAssets = previous?.assets ?? [];
+  if (!previousAssets.some((a) => a.pins.length > 0)) return { carried: 0 };
+
+  const nextAssets = await db.asset.findMany({
+    where: { revisionId: input.revisionId, deletedAt: null },
+    orderBy: { createdAt: "asc" },
+    select: assetSelect,
+  });
+  if (nextAssets.length === 0) return { carried: 0 };
+
+  const matches = matchCarryOverAssets(previousAssets, nextAssets);
+  let carried = 0;
+
+  for (const prev of previousAssets) {
+    const targetId = matches.get(prev.id);
+    if (!targetId || prev.pins.length === 0) continue;
+
+    const last = await db.assetPin.findFirst({
+      where: { assetId: targetId },
+      orderBy: { order: "desc" },
+      select: { order: true },
+    });
+    let order = last?.order ?? 0;
+
+    const created = await db.assetPin.createMany({
+      data: prev.pins.map((pin) => ({
+        assetId: targetId,
+        createdById: pin.createdById,
+        x: pin.x,
+        y: pin.y,
+        page: pin.page,
+        shape: pin.shape,
+        geometry: pin.geometry ?? undefined,
+        order: ++order,
+        label: pin.label,
+        carriedFromPinId: pin.id,
+        carryOverReview: PinCarryOverReview.PENDING,
+      })),
+      skipDuplicates: true,
+    });
+    carried += created.count;
+  }
+
+  return { carried };
+}
+
+// ---------------------------------------------------------------------------
+// Customer confirmation
+// ---------------------------------------------------------------------------
+
+export type CarryOverOutcome = "FIXED" | "STILL_OPEN";
+
+export type ConfirmCarriedPinResult =
+  | {
+      success: true;
+      pin: {
+        id: string;
+        status: PinStatus;
+        carryOverReview: PinCarryOverReview | null;
+        carryOverReviewedAt: Date | null;
+      };
+    }
+  | { success: false; code: "NOT_FOUND" | "NOT_CARRIED"; message: string };
+
+/**
+ * Record the customer's check on a carried pin. FIXED resolves the carried
+ * pin and the original it came from; STILL_OPEN keeps (or puts) it OPEN for
+ * the creative. The customer may change their answer later.
+ */
+export async function confirmCarriedPin(input: {
+  assetId: string;
+  pinId: string;
+  customerUserId: string;
+  outcome: CarryOverOutcome;
+}): Promise<ConfirmCarriedPinResult> {
+  const pin = await prisma.assetPin.findUnique({
+    where: { id: input.pinId },
+    select: { id: true, assetId: true, carriedFromPinId: true },
+  });
+  if (!pin || pin.assetId !== input.assetId) {
+    return { success: false, code: "NOT_FOUND", message: "Pin not found on this asset." };
+  }
+  if (!pin.carriedFromPinId) {
+    return {
+      success: false,
+      code: "NOT_CARRIED",
+      message: "Only pins carried over from the previous revision need confirming.",
+    };
+  }
+
+  const now = new Date();
+  const fixed = input.outcome === "FIXED";
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (fixed) {
+      await tx.assetPin.updateMany({
+        where: { id: pin.carriedFromPinId!, status: PinStatus.OPEN },
+        data: { status: PinStatus.RESOLVED, resolvedAt: now, resolvedById: input.customerUserId },
+      });
+    }
+
+    return tx.assetPin.update({
+      where: { id: pin.id },
+      data: {
+        status: fixed ? PinStatus.RESOLVED : PinStatus.OPEN,
+        resolvedAt: fixed ? now : null,
+        resolvedById: fixed ? input.customerUserId : null,
+        carryOverReview: fixed ? PinCarryOverReview.FIXED : PinCarryOverReview.STILL_OPEN,
+        carryOverReviewedAt: now,
+      },
+      select: { id: true, status: true, carryOverReview: true, carryOverReviewedAt: true },
+    });
+  });
+
+  return { success: true, pin: updated };
+}
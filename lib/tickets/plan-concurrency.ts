@@ -0,0 +1,47 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/plan-concurrency.ts
+// @purpose: A company's plan concurrency — how many of its tickets may be
+//           IN_PROGRESS at once and how many are right now. Read by the
+//           creative start-work gate (./transition-status.ts) and the
+//           available-work claim (./claim-ticket.ts).
+// -----------------------------------------------------------------------------
+
+import { TicketStatus } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+
+/** Plans without an explicit limit run one ticket at a time. */
+const DEFAULT_MAX_CONCURRENT_IN_PROGRESS = 1;
+
+export type CompanyConcurrency = {
+  plan: string;
+  maxConcurrentInProgress: number;
+  currentInProgress: number;
+};
+
+export async function getCompanyConcurrency(companyId: string): Promise<CompanyConcurrency> {
+  const companyWithPlan = await prisma.company.findUnique({
+    where: { id: companyId },
+    select: { plan: true },
+  });
+
+  const planData = companyWithPlan?.plan as
+    | { name?: string | null; maxConcurrentInProgressTickets?: number | null }
+    | null
+    | undefined;
+
+  const maxConcurrentInProgress =
+    typeof planData?.maxConcurrentInProgressTickets === "number"
+      ? planData.maxConcurrentInProgressTickets
+      : DEFAULT_MAX_CONCURRENT_IN_PROGRESS;
+
+  const currentInProgress = await prisma.ticket.count({
+    where: { companyId, status: TicketStatus.IN_PROGRESS },
+  });
+
+  return {
+    plan: typeof planData?.name === "string" ? planData.name : "current plan",
+    maxConcurrentInProgress,
+    currentInProgress,
+  };
+}
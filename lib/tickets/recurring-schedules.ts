@@ -0,0 +1,230 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/recurring-schedules.ts
+// @purpose: Domain service — materialize due RecurringTicketSchedule rows
+//           into real tickets through createCustomerTicket, so token debit,
+//           auto-assign and TicketAssignmentLog behave exactly like a
+//           hand-filed ticket (the log row carries source
+//           "recurring-schedule" + the schedule id).
+//
+// Each due schedule is claimed with a conditional update on nextRunAt before
+// anything is created, so overlapping cron invocations can't create the same
+// occurrence twice. A run that can't create its ticket (insufficient tokens,
+// deleted job type, ...) is skipped — it is not retried on the next tick —
+// and the company OWNERs get a RECURRING_TICKET_SKIPPED notification.
+// -----------------------------------------------------------------------------
+
+import { CompanyRole, Prisma, TicketCreativeMode } from "@prisma/client";
+
+import { nextCronOccurrence } from "@/lib/cron-rule";
+import { isTagsEnabled } from "@/lib/feature-flags";
+import { createNotification } from "@/lib/notifications";
+import { prisma } from "@/lib/prisma";
+import { buildTicketCode } from "@/lib/ticket-code";
+import { createCustomerTicket } from "@/lib/tickets/create-ticket";
+import { readOutputSpecs } from "@/lib/tickets/output-specs";
+
+/** Outcome of a single run, stored on RecurringTicketSchedule.lastRunStatus. */
+export type RecurringRunStatus = "CREATED" | "INSUFFICIENT_TOKENS" | "FAILED";
+
+/** Upper bound on schedules handled per cron tick. The rest wait for the next one. */
+export const MAX_SCHEDULES_PER_RUN = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RecurringRunSummary = {
+  due: number;
+  created: { scheduleId: string; ticketId: string }[];
+  skipped: { scheduleId: string; status: RecurringRunStatus; error: string }[];
+  /** Claimed by a concurrent run between our read and claim. */
+  raced: string[];
+};
+
+/**
+ * Next run for a rule, strictly after `after`. Null when the rule never
+ * fires again — the caller deactivates the schedule in that case.
+ */
+export function computeNextRunAt(cronRule: string, after: Date = new Date()): Date | null {
+  return nextCronOccurrence(cronRule, after);
+}
+
+/** Fields the customer schedule API returns. */
+export const SCHEDULE_SELECT = {
+  id: true,
+  name: true,
+  cronRule: true,
+  title: true,
+  description: true,
+  priority: true,
+  quantity: true,
+  dueInDays: true,
+  tagIds: true,
+  outputSpecs: true,
+  isActive: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  lastRunStatus: true,
+  lastRunError: true,
+  lastTicketId: true,
+  createdAt: true,
+  project: { select: { id: true, name: true, code: true } },
+  jobType: { select: { id: true, name: true, tokenCost: true } },
+} satisfies Prisma.RecurringTicketScheduleSelect;
+
+export type RecurringScheduleRow = Prisma.RecurringTicketScheduleGetPayload<{
+  select: typeof SCHEDULE_SELECT;
+}>;
+
+/** JSON shape for the customer schedule API. */
+export function toScheduleDto(s: RecurringScheduleRow) {
+  return {
+    id: s.id,
+    name: s.name,
+    cronRule: s.cronRule,
+    title: s.title,
+    description: s.description,
+    priority: s.priority,
+    quantity: s.quantity,
+    dueInDays: s.dueInDays,
+    tagIds: s.tagIds,
+    outputSpecs: readOutputSpecs(s.outputSpecs),
+    isActive: s.isActive,
+    nextRunAt: s.nextRunAt?.toISOString() ?? null,
+    lastRunAt: s.lastRunAt?.toISOString() ?? null,
+    lastRunStatus: s.lastRunStatus,
+    lastRunError: s.lastRunError,
+    lastTicketId: s.lastTicketId,
+    createdAt: s.createdAt.toISOString(),
+    project: s.project,
+    jobType: s.jobType,
+    /** Tokens debited per run. */
+    tokenCostPerRun: s.jobType.tokenCost * s.quantity,
+  };
+}
+
+async function notifyOwnersOfSkippedRun(
+  schedule: { companyId: string; name: string },
+  reason: string,
+): Promise<void> {
+  const owners = await prisma.companyMember.findMany({
+    where: { companyId: schedule.companyId, roleInCompany: CompanyRole.OWNER },
+    select: { userId: true },
+  });
+  for (const owner of owners) {
+    void createNotification({
+      userId: owner.userId,
+      type: "RECURRING_TICKET_SKIPPED",
+      title: "Scheduled ticket skipped",
+      message: `"${schedule.name}" couldn't create its ticket: ${reason}`,
+    });
+  }
+}
+
+/**
+ * Materialize every active schedule whose nextRunAt has passed. Errors on a
+ * single schedule are recorded on that row and never abort the batch.
+ */
+export async function runDueRecurringSchedules(
+  now: Date = new Date(),
+): Promise<RecurringRunSummary> {
+  const summary: RecurringRunSummary = { due: 0, created: [], skipped: [], raced: [] };
+
+  const due = await prisma.recurringTicketSchedule.findMany({
+    where: { isActive: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: "asc" },
+    take: MAX_SCHEDULES_PER_RUN,
+  });
+  summary.due = due.length;
+  if (due.length === 0) return summary;
+
+  const tagsEnabled = await isTagsEnabled();
+
+  for (const schedule of due) {
+    // Claim this occurrence. Missed occurrences (cron downtime) collapse into
+    // one ticket: the next run is computed from `now`, not from the old
+    // nextRunAt.
+    const nextRunAt = computeNextRunAt(schedule.cronRule, now);
+    const claimed = await prisma.recurringTicketSchedule.updateMany({
+      where: { id: schedule.id, isActive: true, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt, lastRunAt: now, ...(nextRunAt ? {} : { isActive: false }) },
+    });
+    if (claimed.count === 0) {
+      summary.raced.push(schedule.id);
+      continue;
+    }
+
+    let status: RecurringRunStatus;
+    let error: string | null = null;
+    let ticketId: string | null = null;
+
+    try {
+      const outcome = await createCustomerTicket({
+        actorUserId: schedule.createdById,
+        companyId: schedule.companyId,
+        data: {
+          title: schedule.title,
+          description: schedule.description,
+          projectId: schedule.projectId,
+          jobTypeId: schedule.jobTypeId,
+          quantity: schedule.quantity,
+          priority: schedule.priority,
+          dueDate: schedule.dueInDays
+            ? new Date(now.getTime() + schedule.dueInDays * DAY_MS)
+            : null,
+          tagIds: tagsEnabled ? schedule.tagIds : [],
+          creativeMode: TicketCreativeMode.DESIGNER,
+          moodboardId: null,
+          outputSpecs: readOutputSpecs(schedule.outputSpecs),
+        },
+        origin: { source: "recurring-schedule", recurringScheduleId: schedule.id },
+      });
+
+      if (outcome.success) {
+        status = "CREATED";
+        ticketId = outcome.ticket.id;
+
+        if (outcome.ticket.creativeId) {
+          const code = buildTicketCode({
+            projectCode: outcome.ticket.project?.code,
+            companyTicketNumber: outcome.ticket.companyTicketNumber,
+            ticketId: outcome.ticket.id,
+          });
+          void createNotification({
+            userId: outcome.ticket.creativeId,
+            type: "TICKET_ASSIGNED",
+            title: "New ticket assigned",
+            message: `${code} "${outcome.ticket.title}" was assigned to you`,
+            ticketId: outcome.ticket.id,
+          });
+        }
+      } else if (outcome.code === "INSUFFICIENT_TOKENS") {
+        status = "INSUFFICIENT_TOKENS";
+        error = `needs ${outcome.required} tokens but the balance is ${outcome.balance}.`;
+      } else {
+        status = "FAILED";
+        error = outcome.message;
+      }
+    } catch (err) {
+      console.error("[recurring-schedules] run failed", { scheduleId: schedule.id, err });
+      status = "FAILED";
+      error = err instanceof Error ? err.message : "Unexpected error";
+    }
+
+    await prisma.recurringTicketSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        lastRunStatus: status,
+        lastRunError: error,
+        ...(ticketId ? { lastTicketId: ticketId } : {}),
+      },
+    });
+
+    if (status === "CREATED" && ticketId) {
+      summary.created.push({ scheduleId: schedule.id, ticketId });
+    } else {
+      summary.skipped.push({ scheduleId: schedule.id, status, error: error ?? "" });
+      await notifyOwnersOfSkippedRun(schedule, error ?? "unknown error");
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,292 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/reopen.ts
+// @purpose: Domain service — correction reopen of a DONE ticket. Within
+//           TICKET_REOPEN_WINDOW_HOURS of completion a company OWNER/PM can
+//           send the ticket back to IN_PROGRESS with a correction note, free
+//           of charge. The creative is notified and the reopen is appended to
+//           the JOB_PAYMENT ledger entry's metadata; the completion engine
+//           (lib/token-engine.ts) skips the creative credit when the ticket is
+//           completed again. Going back to IN_PROGRESS takes one of the
+//           company's plan concurrency slots, so a full plan blocks the
+//           reopen the same way it blocks a creative starting work.
+//
+// Role + company scoping stay in the route; failures are a tagged union so
+// the route maps them to HTTP responses. The window math is pure so it is
+// unit-testable without a database.
+// -----------------------------------------------------------------------------
+
+import { Prisma, TicketStatus } from "@prisma/client";
+
+import { getAppSettingInt } from "@/lib/app-settings";
+import { notifyTicketWatchers } from "@/lib/notifications";
+import { prisma } from "@/lib/prisma";
+import { commentExcerpt } from "@/lib/tickets/comment-mentions";
+import { getCompanyConcurrency, type CompanyConcurrency } from "@/lib/tickets/plan-concurrency";
+import { recordStatusEvent } from "@/lib/tickets/status-history";
+
+/** AppSetting key for the reopen window, in hours. 0 disables reopening. */
+export const REOPEN_WINDOW_SETTING = "TICKET_REOPEN_WINDOW_HOURS";
+const DEFAULT_REOPEN_WINDOW_HOURS = 48;
+
+/** A ticket gets one free correction — further changes are a new ticket. */
+export const MAX_TICKET_REOPENS = 1;
+
+// ---------------------------------------------------------------------------
+// Window math (pure)
+// ---------------------------------------------------------------------------
+
+export type ReopenBlockCode = "NOT_DONE" | "ALREADY_REOPENED" | "DISABLED" | "WINDOW_CLOSED";
+
+export type ReopenEligibility =
+  | { ok: true; deadline: Date }
+  | { ok: false; code: ReopenBlockCode; deadline: Date | null };
+
+/**
+ * Whether a ticket can be reopened at `now`. `completedAt` is when it reached
+ * DONE; a null value (no completion timestamp on record) is never reopenable.
+ */
+export function checkReopenEligibility(
+  ticket: { status: TicketStatus; reopenCount: number; completedAt: Date | null },
+  windowHours: number,
+  now: Date = new Date(),
+): ReopenEligibility {
+  if (ticket.status !== TicketStatus.DONE || !ticket.completedAt) {
+    return { ok: false, code: "NOT_DONE", deadline: null };
+  }
+  if (ticket.reopenCount >= MAX_TICKET_REOPENS) {
+    return { ok: false, code: "ALREADY_REOPENED", deadline: null };
+  }
+  if (!(windowHours > 0)) {
+    return { ok: false, code: "DISABLED", deadline: null };
+  }
+  const deadline = new Date(ticket.completedAt.getTime() + windowHours * 60 * 60 * 1000);
+  if (now.getTime() > deadline.getTime()) {
+    return { ok: false, code: "WINDOW_CLOSED", deadline };
+  }
+  return { ok: true, deadline };
+}
+
+// ---------------------------------------------------------------------------
+// Loaders
+// ---------------------------------------------------------------------------
+
+async function getReopenWindowHours(): Promise<number> {
+  return getAppSettingInt(REOPEN_WINDOW_SETTING, DEFAULT_REOPEN_WINDOW_HOURS);
+}
+
+/**
+ * When the ticket reached DONE. Not every completion path stamps completedAt
+ * (the /complete endpoint doesn't), so fall back to the latest DONE status
+ * event.
+ */
+async function resolveCompletedAt(ticket: {
+  id: string;
+  completedAt: Date | null;
+}): Promise<Date | null> {
+  if (ticket.completedAt) return ticket.completedAt;
+  const event = await prisma.ticketStatusEvent.findFirst({
+    where: { ticketId: ticket.id, toStatus: TicketStatus.DONE },
+    orderBy: { createdAt: "desc" },
+    select: { createdAt: true },
+  });
+  return event?.createdAt ?? null;
+}
+
+/**
+ * Deadline for reopening this ticket, or null when it can't be reopened now.
+ * Drives the "Reopen for correction" button on the customer detail page.
+ */
+export async function getReopenableUntil(ticket: {
+  id: string;
+  status: TicketStatus;
+  reopenCount: number;
+  completedAt: Date | null;
+}): Promise<Date | null> {
+  if (ticket.status !== TicketStatus.DONE || ticket.reopenCount >= MAX_TICKET_REOPENS) {
+    return null;
+  }
+  const eligibility = checkReopenEligibility(
+    { ...ticket, completedAt: await resolveCompletedAt(ticket) },
+    await getReopenWindowHours(),
+  );
+  return eligibility.ok ? eligibility.deadline : null;
+}
+
+// ---------------------------------------------------------------------------
+// Reopen
+// ---------------------------------------------------------------------------
+
+export type ReopenTicketParams = {
+  ticketId: string;
+  companyId: string;
+  actorId: string;
+  /** What needs correcting — stored as feedback on the latest revision. */
+  message: string;
+};
+
+export type ReopenTicketResult =
+  | {
+      success: true;
+      ticket: { id: string; status: TicketStatus; reopenCount: number; updatedAt: Date };
+    }
+  | { success: false; code: "NOT_FOUND"; message: string }
+  | { success: false; code: ReopenBlockCode; message: string; deadline: Date | null }
+  | {
+      success: false;
+      code: "CONCURRENCY_LIMIT";
+      message: string;
+      details: CompanyConcurrency;
+    }
+  | { success: false; code: "LOST_RACE"; message: string };
+
+const BLOCK_MESSAGES: Record<ReopenBlockCode, string> = {
+  NOT_DONE: "Only completed tickets can be reopened.",
+  ALREADY_REOPENED:
+    "This ticket has already been reopened for a correction. Please create a new ticket for further changes.",
+  DISABLED: "Reopening completed tickets is turned off.",
+  WINDOW_CLOSED:
+    "The correction window for this ticket has closed. Please create a new ticket for further changes.",
+};
+
+/**
+ * Move a DONE ticket back to IN_PROGRESS for a free correction. Clears the
+ * completion stamp, bumps reopenCount, writes the correction note onto the
+ * latest revision and records the reopen on the creative's JOB_PAYMENT
+ * ledger entry (metadata only — amounts are never edited).
+ */
+export async function reopenTicket(input: ReopenTicketParams): Promise<ReopenTicketResult> {
+  const ticket = await prisma.ticket.findFirst({
+    where: { id: input.ticketId, companyId: input.companyId },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      reopenCount: true,
+      completedAt: true,
+      creativeId: true,
+    },
+  });
+
+  if (!ticket) {
+    return { success: false, code: "NOT_FOUND", message: "Ticket not found." };
+  }
+
+  const eligibility = checkReopenEligibility(
+    { ...ticket, completedAt: await resolveCompletedAt(ticket) },
+    await getReopenWindowHours(),
+  );
+  if (!eligibility.ok) {
+    return {
+      success: false,
+      code: eligibility.code,
+      message: BLOCK_MESSAGES[eligibility.code],
+      deadline: eligibility.deadline,
+    };
+  }
+
+  const concurrency = await getCompanyConcurrency(input.companyId);
+  if (concurrency.currentInProgress >= concurrency.maxConcurrentInProgress) {
+    return {
+      success: false,
+      code: "CONCURRENCY_LIMIT",
+      message:
+        "This company has reached its limit for active tickets in progress. Finish or move another ticket first, then reopen this one.",
+      details: concurrency,
+    };
+  }
+
+  const reopenCount = ticket.reopenCount + 1;
+  const now = new Date();
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // Conditional flip — a concurrent reopen (or any other status change)
+    // between the checks above and here leaves count = 0.
+    const flipped = await tx.ticket.updateMany({
+      where: { id: ticket.id, status: TicketStatus.DONE, reopenCount: ticket.reopenCount },
+      data: {
+        status: TicketStatus.IN_PROGRESS,
+        reopenCount,
+        lastReopenedAt: now,
+        completedAt: null,
+        completedById: null,
+      },
+    });
+    if (flipped.count === 0) return null;
+
+    await recordStatusEvent(
+      {
+        ticketId: ticket.id,
+        fromStatus: TicketStatus.DONE,
+        toStatus: TicketStatus.IN_PROGRESS,
+        actorId: input.actorId,
+        source: "CUSTOMER_REOPEN",
+        metadata: { reopenCount, message: input.message },
+      },
+      tx,
+    );
+
+    const lastRevision = await tx.ticketRevision.findFirst({
+      where: { ticketId: ticket.id },
+      orderBy: { version: "desc" },
+      select: { id: true },
+    });
+    if (lastRevision) {
+      await tx.ticketRevision.update({
+        where: { id: lastRevision.id },
+        data: {
+          feedbackByCustomerId: input.actorId,
+          feedbackAt: now,
+          feedbackMessage: input.message,
+        },
+      });
+    }
+
+    const payment = await tx.tokenLedger.findFirst({
+      where: { ticketId: ticket.id, reason: "JOB_PAYMENT" },
+      select: { id: true, metadata: true },
+    });
+    if (payment) {
+      const metadata =
+        payment.metadata && typeof payment.metadata === "object" && !Array.isArray(payment.metadata)
+          ? (payment.metadata as Prisma.JsonObject)
+          : {};
+      const reopens = Array.isArray(metadata.reopens) ? metadata.reopens : [];
+      await tx.tokenLedger.update({
+        where: { id: payment.id },
+        data: {
+          metadata: {
+            ...metadata,
+            reopens: [
+              ...reopens,
+              { reopenCount, reopenedAt: now.toISOString(), reopenedById: input.actorId },
+            ],
+          },
+        },
+      });
+    }
+
+    return tx.ticket.findUniqueOrThrow({
+      where: { id: ticket.id },
+      select: { id: true, status: true, reopenCount: true, updatedAt: true },
+    });
+  });
+
+  if (!updated) {
+    return {
+      success: false,
+      code: "LOST_RACE",
+      message: "This ticket was just updated by someone else. Please refresh and try again.",
+    };
+  }
+
+  void notifyTicketWatchers({
+    recipientIds: [ticket.creativeId],
+    type: "TICKET_STATUS_CHANGED",
+    title: "Ticket reopened for a correction",
+    message: `"${ticket.title}" was reopened: ${commentExcerpt(input.message)}`,
+    ticketId: ticket.id,
+    actorId: input.actorId,
+  });
+
+  return { success: true, ticket: updated };
+}
@@ -0,0 +1,195 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/restore-ticket.ts
+// @purpose: Domain service — restore a CANCELED ticket from the customer
+//           archive back to TODO. The inverse of ./cancel-ticket.ts: the
+//           tokens refunded on cancel are debited again through the token
+//           engine, and only when the company balance still covers them.
+//
+// The debit is the amount on the cancel's REFUND ledger row, not today's job
+// type price, so cancel + restore always nets to zero even if pricing changed
+// in between. Tickets cancelled without a refund (free / AI) cost nothing.
+//
+// The OWNER/PM gate stays in the route; failures are a tagged union like the
+// cancel service. The ticket comes back unassigned, so the admin auto-assign
+// backfill (./backfill-assign.ts) can pick it up like any new TODO ticket.
+// -----------------------------------------------------------------------------
+
+import { LedgerDirection, TicketStatus } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { debitCompanyIfCovered } from "@/lib/token-engine";
+import { recordStatusEvent } from "@/lib/tickets/status-history";
+
+export type RestoreTicketInput = {
+  ticketId: string;
+  companyId: string;
+  actor: { id: string; email: string };
+};
+
+export type RestoreTicketResult =
+  | { success: true; ticketId: string; debitedTokens: number; balanceAfter: number | null }
+  | { success: false; code: "NOT_FOUND"; message: string }
+  | { success: false; code: "NOT_CANCELED"; message: string; status: TicketStatus }
+  | {
+      success: false;
+      code: "INSUFFICIENT_TOKENS";
+      message: string;
+      required: number;
+      balance: number;
+    }
+  | { success: false; code: "LOST_RACE"; message: string };
+
+const RESTORE_LEDGER_REASONS = ["REFUND", "TICKET_RESTORED"];
+
+type RefundLedgerEntry = {
+  id: string;
+  reason: string | null;
+  direction: LedgerDirection;
+  amount: number;
+  createdAt: Date;
+};
+
+/**
+ * The REFUND a restore would take back: the newest refund credit, unless a
+ * later TICKET_RESTORED debit already reversed it. Null when nothing is owed.
+ */
+export function pendingRefund<T extends RefundLedgerEntry>(entries: T[]): T | null {
+  const newestFirst = [...entries].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  for (const entry of newestFirst) {
+    if (entry.reason === "TICKET_RESTORED") return null;
+    if (entry.reason === "REFUND" && entry.direction === LedgerDirection.CREDIT) return entry;
+  }
+  return null;
+}
+
+/** Thrown inside the restore transaction to roll back the status flip. */
+class InsufficientTokensAtRestoreError extends Error {
+  constructor() {
+    super("Insufficient token balance at restore time.");
+    this.name = "InsufficientTokensAtRestoreError";
+  }
+}
+
+export async function restoreCanceledTicket(
+  input: RestoreTicketInput,
+): Promise<RestoreTicketResult> {
+  const { ticketId, companyId, actor } = input;
+
+  const ticket = await prisma.ticket.findFirst({
+    where: { id: ticketId, companyId },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      companyTicketNumber: true,
+      jobType: { select: { id: true } },
+      company: { select: { tokenBalance: true } },
+    },
+  });
+
+  if (!ticket) {
+    return { success: false, code: "NOT_FOUND", message: "Ticket not found." };
+  }
+
+  if (ticket.status !== TicketStatus.CANCELED) {
+    return {
+      success: false,
+      code: "NOT_CANCELED",
+      message: "Only cancelled tickets can be restored.",
+      status: ticket.status,
+    };
+  }
+
+  const refund = pendingRefund(
+    await prisma.tokenLedger.findMany({
+      where: {
+        ticketId: ticket.id,
+        companyId,
+        userId: null,
+        reason: { in: RESTORE_LEDGER_REASONS },
+      },
+      select: { id: true, reason: true, direction: true, amount: true, createdAt: true },
+    }),
+  );
+  const effectiveCost = refund?.amount ?? 0;
+  const insufficient = (balance: number): RestoreTicketResult => ({
+    success: false,
+    code: "INSUFFICIENT_TOKENS",
+    message: "Your token balance doesn't cover restoring this ticket.",
+    required: effectiveCost,
+    balance,
+  });
+
+  // Friendly pre-check; the debit below re-asserts the balance atomically.
+  if (effectiveCost > 0 && ticket.company.tokenBalance < effectiveCost) {
+    return insufficient(ticket.company.tokenBalance);
+  }
+
+  let outcome: { balanceAfter: number | null } | null;
+  try {
+    outcome = await prisma.$transaction(async (tx) => {
+      const flipped = await tx.ticket.updateMany({
+        where: { id: ticket.id, status: TicketStatus.CANCELED },
+        data: { status: TicketStatus.TODO, creativeId: null },
+      });
+      if (flipped.count === 0) return null;
+
+      await recordStatusEvent(
+        {
+          ticketId: ticket.id,
+          fromStatus: TicketStatus.CANCELED,
+          toStatus: TicketStatus.TODO,
+          actorId: actor.id,
+          source: "CUSTOMER_RESTORE",
+        },
+        tx,
+      );
+
+      // Free tickets (AI / no job type) were never refunded, so there is
+      // nothing to take back — same skip as the cancel path.
+      if (!refund || effectiveCost <= 0) return { balanceAfter: null };
+
+      const debit = await debitCompanyIfCovered(tx, {
+        companyId,
+        ticketId: ticket.id,
+        amount: effectiveCost,
+        reason: "TICKET_RESTORED",
+        notes: `Customer restored cancelled ticket: ${ticket.title}`,
+        metadata: {
+          restoredByUserId: actor.id,
+          restoredByEmail: actor.email,
+          companyTicketNumber: ticket.companyTicketNumber,
+          originalJobTypeId: ticket.jobType?.id ?? null,
+          refundLedgerId: refund.id,
+          effectiveCost,
+        },
+      });
+      if (!debit) throw new InsufficientTokensAtRestoreError();
+
+      return { balanceAfter: debit.balanceAfter };
+    });
+  } catch (err) {
+    if (!(err instanceof InsufficientTokensAtRestoreError)) throw err;
+    // A concurrent spend took the tokens between the pre-check and the debit.
+    const fresh = await prisma.company.findUnique({
+      where: { id: companyId },
+      select: { tokenBalance: true },
+    });
+    return insufficient(fresh?.tokenBalance ?? 0);
+  }
+
+  if (!outcome) {
+    return {
+      success: false,
+      code: "LOST_RACE",
+      message: "This ticket was just updated by someone else. Please refresh and try again.",
+    };
+  }
+
+  return {
+    success: true,
+    ticketId: ticket.id,
+    debitedTokens: Math.max(effectiveCost, 0),
+    balanceAfter: outcome.balanceAfter,
+  };
+}
@@ -0,0 +1,214 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/saved-view-config.ts
+// @purpose: Saved ticket views — the filter / sort / grouping / column config
+//           shared by /customer/tickets and /customer/board, its query-string
+//           form (so a URL reproduces a view) and tolerant normalization of
+//           stored JSON (pure, client-safe). Persistence lives in
+//           ./saved-views.ts.
+// -----------------------------------------------------------------------------
+
+import { CUSTOM_FIELD_FILTER_PREFIX } from "@/lib/tickets/custom-field-values";
+
+export const SAVED_VIEW_PAGES = ["TICKET_LIST", "BOARD"] as const;
+export type SavedViewPageKey = (typeof SAVED_VIEW_PAGES)[number];
+
+export const VIEW_STATUSES = ["TODO", "IN_PROGRESS", "IN_REVIEW", "DONE"] as const;
+export type ViewStatus = (typeof VIEW_STATUSES)[number];
+
+export const VIEW_PRIORITIES = ["LOW", "MEDIUM", "HIGH", "URGENT"] as const;
+export type ViewPriority = (typeof VIEW_PRIORITIES)[number];
+
+/** Sort keys /api/customer/tickets understands. Only the list sorts. */
+export const VIEW_SORT_FIELDS = ["status", "priority", "createdAt", "dueDate", "title"] as const;
+export type ViewSortField = (typeof VIEW_SORT_FIELDS)[number];
+
+export type ViewGroupBy = "none" | "status" | "project" | "priority";
+
+/** Grouping each page offers — the board's columns already split by status. */
+export const VIEW_GROUP_BY: Record<SavedViewPageKey, readonly ViewGroupBy[]> = {
+  TICKET_LIST: ["none", "status", "project", "priority"],
+  BOARD: ["none", "project", "priority"],
+};
+
+export const VIEW_GROUP_BY_LABELS: Record<ViewGroupBy, string> = {
+  none: "No grouping",
+  status: "Status",
+  project: "Project",
+  priority: "Priority",
+};
+
+/**
+ * Columns a view can hide. The ticket column on the list is always shown;
+ * the board's columns are its status lanes.
+ */
+export const VIEW_COLUMNS: Record<SavedViewPageKey, readonly string[]> = {
+  TICKET_LIST: ["project", "status", "priority", "assigned", "jobType", "created", "due"],
+  BOARD: VIEW_STATUSES,
+};
+
+export type SavedViewConfig = {
+  search: string;
+  status: ViewStatus | null;
+  projectId: string | null;
+  priority: ViewPriority | null;
+  tagId: string | null;
+  /** `{ [fieldId]: filter value }` — sent to the API as `cf_<fieldId>`. */
+  customFields: Record<string, string>;
+  sortBy: ViewSortField;
+  sortDir: "asc" | "desc";
+  groupBy: ViewGroupBy;
+  /** Hidden rather than visible so columns added later show up by default. */
+  hiddenColumns: string[];
+};
+
+export const DEFAULT_VIEW_CONFIG: SavedViewConfig = {
+  search: "",
+  status: null,
+  projectId: null,
+  priority: null,
+  tagId: null,
+  customFields: {},
+  sortBy: "createdAt",
+  sortDir: "desc",
+  groupBy: "none",
+  hiddenColumns: [],
+};
+
+/** Longest search string a view stores. */
+export const MAX_VIEW_SEARCH = 200;
+
+// Query-string keys. `search`, `status`, `project`, `priority`, `tag` and
+// `cf_*` match /api/customer/tickets so the list can forward them as-is.
+const PARAM = {
+  search: "search",
+  status: "status",
+  project: "project",
+  priority: "priority",
+  tag: "tag",
+  sortBy: "sort",
+  sortDir: "dir",
+  groupBy: "group",
+  hidden: "hide",
+} as const;
+
+/** Marks which saved view a URL came from; the other params still win. */
+export const VIEW_ID_PARAM = "view";
+
+function pick<T extends string>(allowed: readonly T[], value: unknown): T | null {
+  return typeof value === "string" && (allowed as readonly string[]).includes(value)
+    ? (value as T)
+    : null;
+}
+
+function cleanId(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const s = value.trim();
+  return s && s.length <= 64 ? s : null;
+}
+
+/**
+ * Coerce anything (stored JSON from an older shape, a hand-edited URL) into a
+ * valid config for `page`. Unknown keys and values fall back to defaults
+ * rather than failing, so a stale view still opens.
+ */
+export function normalizeViewConfig(raw: unknown, page: SavedViewPageKey): SavedViewConfig {
+  const input = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+
+  const customFields: Record<string, string> = {};
+  if (input.customFields && typeof input.customFields === "object") {
+    for (const [fieldId, value] of Object.entries(input.customFields)) {
+      if (cleanId(fieldId) && typeof value === "string" && value.trim()) {
+        customFields[fieldId] = value.trim().slice(0, MAX_VIEW_SEARCH);
+      }
+    }
+  }
+
+  const columns = VIEW_COLUMNS[page];
+  const hiddenColumns = Array.isArray(input.hiddenColumns)
+    ? columns.filter((c) => (input.hiddenColumns as unknown[]).includes(c))
+    : [];
+
+  return {
+    search: typeof input.search === "string" ? input.search.trim().slice(0, MAX_VIEW_SEARCH) : "",
+    // The board shows every status as a lane; hiding lanes is its filter.
+    status: page === "BOARD" ? null : pick(VIEW_STATUSES, input.status),
+    projectId: cleanId(input.projectId),
+    priority: pick(VIEW_PRIORITIES, input.priority),
+    tagId: cleanId(input.tagId),
+    customFields,
+    sortBy: pick(VIEW_SORT_FIELDS, input.sortBy) ?? DEFAULT_VIEW_CONFIG.sortBy,
+    sortDir: input.sortDir === "asc" ? "asc" : "desc",
+    groupBy: pick(VIEW_GROUP_BY[page], input.groupBy) ?? "none",
+    hiddenColumns,
+  };
+}
+
+/** Query string for a config; defaults are left out to keep links short. */
+export function viewConfigToSearchParams(config: SavedViewConfig): URLSearchParams {
+  const params = new URLSearchParams();
+  if (config.search) params.set(PARAM.search, config.search);
+  if (config.status) params.set(PARAM.status, config.status);
+  if (config.projectId) params.set(PARAM.project, config.projectId);
+  if (config.priority) params.set(PARAM.priority, config.priority);
+  if (config.tagId) params.set(PARAM.tag, config.tagId);
+  for (const fieldId of Object.keys(config.customFields).sort()) {
+    const value = config.customFields[fieldId];
+    params.set(`${CUSTOM_FIELD_FILTER_PREFIX}${fieldId}`, value);
+  }
+  if (
+    config.sortBy !== DEFAULT_VIEW_CONFIG.sortBy ||
+    config.sortDir !== DEFAULT_VIEW_CONFIG.sortDir
+  ) {
+    params.set(PARAM.sortBy, config.sortBy);
+    params.set(PARAM.sortDir, config.sortDir);
+  }
+  if (config.groupBy !== "none") params.set(PARAM.groupBy, config.groupBy);
+  if (config.hiddenColumns.length > 0) params.set(PARAM.hidden, config.hiddenColumns.join(","));
+  return params;
+}
+
+/** Inverse of {@link viewConfigToSearchParams}, normalized for `page`. */
+export function viewConfigFromSearchParams(
+  params: URLSearchParams,
+  page: SavedViewPageKey,
+): SavedViewConfig {
+  const customFields: Record<string, string> = {};
+  for (const [key, value] of params) {
+    if (key.startsWith(CUSTOM_FIELD_FILTER_PREFIX)) {
+      customFields[key.slice(CUSTOM_FIELD_FILTER_PREFIX.length)] = value;
+    }
+  }
+  return normalizeViewConfig(
+    {
+      search: params.get(PARAM.search),
+      status: params.get(PARAM.status),
+      projectId: params.get(PARAM.project),
+      priority: params.get(PARAM.priority),
+      tagId: params.get(PARAM.tag),
+      customFields,
+      sortBy: params.get(PARAM.sortBy),
+      sortDir: params.get(PARAM.sortDir),
+      groupBy: params.get(PARAM.groupBy),
+      hiddenColumns: params.get(PARAM.hidden)?.split(",") ?? [],
+    },
+    page,
+  );
+}
+
+/** Whether a URL carries any view state (as opposed to a bare page link). */
+export function hasViewParams(params: URLSearchParams): boolean {
+  for (const key of params.keys()) {
+    if (
+      (Object.values(PARAM) as string[]).includes(key) ||
+      key.startsWith(CUSTOM_FIELD_FILTER_PREFIX)
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Same filters, sort, grouping and columns — used to flag unsaved changes. */
+export function viewConfigsEqual(a: SavedViewConfig, b: SavedViewConfig): boolean {
+  return viewConfigToSearchParams(a).toString() === viewConfigToSearchParams(b).toString();
+}
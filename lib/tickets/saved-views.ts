@@ -0,0 +1,121 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/saved-views.ts
+// @purpose: Saved ticket views — select / DTO, the per-user list (own views
+//           plus views shared with the company), edit rights and default
+//           view lookups for /api/customer/saved-views. The config shape
+//           lives in ./saved-view-config.ts so the pages can share it.
+// -----------------------------------------------------------------------------
+
+import { Prisma, SavedViewPage } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { type CompanyRole, isCompanyAdminRole } from "@/lib/permissions/companyRoles";
+import { type SavedViewConfig, normalizeViewConfig } from "@/lib/tickets/saved-view-config";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/** Personal + shared views one user can own per page. */
+export const MAX_SAVED_VIEWS_PER_USER = 50;
+
+export const SAVED_VIEW_SELECT = {
+  id: true,
+  name: true,
+  page: true,
+  shared: true,
+  config: true,
+  ownerId: true,
+  owner: { select: { name: true, email: true } },
+  updatedAt: true,
+} satisfies Prisma.SavedTicketViewSelect;
+
+type SavedViewRow = Prisma.SavedTicketViewGetPayload<{ select: typeof SAVED_VIEW_SELECT }>;
+
+export type SavedViewDto = {
+  id: string;
+  name: string;
+  page: SavedViewPage;
+  shared: boolean;
+  config: SavedViewConfig;
+  ownerName: string;
+  isOwn: boolean;
+  /** Caller may rename, re-share, overwrite or delete the view. */
+  canEdit: boolean;
+  updatedAt: Date;
+};
+
+type Viewer = { id: string; companyRole?: CompanyRole | null };
+
+/**
+ * The owner manages their own views; company owners / PMs can also tidy up
+ * views someone shared with the whole company.
+ */
+export function canManageSavedView(
+  view: { ownerId: string; shared: boolean },
+  viewer: Viewer,
+): boolean {
+  return view.ownerId === viewer.id || (view.shared && isCompanyAdminRole(viewer.companyRole));
+}
+
+export function toSavedViewDto(row: SavedViewRow, viewer: Viewer): SavedViewDto {
+  return {
+    id: row.id,
+    name: row.name,
+    page: row.page,
+    shared: row.shared,
+    config: normalizeViewConfig(row.config, row.page),
+    ownerName: row.owner.name || row.owner.email,
+    isOwn: row.ownerId === viewer.id,
+    canEdit: canManageSavedView(row, viewer),
+    updatedAt: row.updatedAt,
+  };
+}
+
+/** Where-clause for the views a user can see: their own plus shared ones. */
+export function visibleSavedViewsWhere(
+  companyId: string,
+  userId: string,
+  page?: SavedViewPage,
+): Prisma.SavedTicketViewWhereInput {
+  return {
+    companyId,
+    ...(page ? { page } : {}),
+    OR: [{ ownerId: userId }, { shared: true }],
+  };
+}
+
+/**
+ * Views for one page, own first then shared, each alphabetical, plus the
+ * user's default view id (null when none is set).
+ */
+export async function listSavedViews(
+  companyId: string,
+  viewer: Viewer,
+  page: SavedViewPage,
+): Promise<{ views: SavedViewDto[]; defaultViewId: string | null }> {
+  const [rows, defaultRow] = await Promise.all([
+    prisma.savedTicketView.findMany({
+      where: visibleSavedViewsWhere(companyId, viewer.id, page),
+      select: SAVED_VIEW_SELECT,
+      orderBy: { name: "asc" },
+    }),
+    prisma.savedTicketViewDefault.findUnique({
+      where: { userId_companyId_page: { userId: viewer.id, companyId, page } },
+      select: { viewId: true },
+    }),
+  ]);
+
+  const views = rows.map((row) => toSavedViewDto(row, viewer));
+  views.sort((a, b) => Number(b.isOwn) - Number(a.isOwn));
+
+  return { views, defaultViewId: defaultRow?.viewId ?? null };
+}
+
+/**
+ * Drop other users' defaults that point at a view that is no longer shared,
+ * so nobody keeps opening a view they can't see any more.
+ */
+export async function clearForeignDefaults(db: Db, viewId: string, ownerId: string): Promise<void> {
+  await db.savedTicketViewDefault.deleteMany({
+    where: { viewId, userId: { not: ownerId } },
+  });
+}
@@ -0,0 +1,561 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/sla.ts
+// @purpose: Per-job-type SLA engine — business-hour math, the per-ticket SLA
+//           clock, policy resolution, the hourly at-risk / breach sweep and
+//           attainment analytics.
+//
+// Targets are business hours (Mon–Fri 09:00–17:00 UTC). The clock runs while a
+// ticket is TODO or IN_PROGRESS, pauses while it waits on the customer in
+// IN_REVIEW and stops at DONE / CANCELED. Like the cycle-time metrics in
+// ./status-history.ts, the clock is derived from TicketStatusEvent rows by a
+// pure function; syncTicketSlaClock() persists the result onto the ticket and
+// runs on every status flip via recordStatusEvent().
+// -----------------------------------------------------------------------------
+
+import { Prisma, TicketCreativeMode, TicketPriority, TicketStatus } from "@prisma/client";
+
+import { createNotification } from "@/lib/notifications";
+import { prisma } from "@/lib/prisma";
+import { SITE_ADMIN_ROLES } from "@/lib/roles";
+import type { StatusEventLike } from "@/lib/tickets/status-history";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// ---------------------------------------------------------------------------
+// Business hours (pure)
+// ---------------------------------------------------------------------------
+
+/** Business day window in UTC hours. */
+export const BUSINESS_DAY_START_HOUR = 9;
+export const BUSINESS_DAY_END_HOUR = 17;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/** A ticket is "at risk" once at most this share of its target is left. */
+export const SLA_AT_RISK_RATIO = 0.25;
+
+function isBusinessDay(dayStartMs: number): boolean {
+  const weekday = new Date(dayStartMs).getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+}
+
+function utcDayStart(ms: number): number {
+  return Math.floor(ms / MS_PER_DAY) * MS_PER_DAY;
+}
+
+/** Business milliseconds between two instants (0 when `to` is not after `from`). */
+export function businessMsBetween(from: Date, to: Date): number {
+  const start = from.getTime();
+  const end = to.getTime();
+  if (end <= start) return 0;
+
+  let total = 0;
+  for (let day = utcDayStart(start); day < end; day += MS_PER_DAY) {
+    if (!isBusinessDay(day)) continue;
+    const open = Math.max(start, day + BUSINESS_DAY_START_HOUR * MS_PER_HOUR);
+    const close = Math.min(end, day + BUSINESS_DAY_END_HOUR * MS_PER_HOUR);
+    if (close > open) total += close - open;
+  }
+  return total;
+}
+
+/**
+ * The instant `ms` business milliseconds after `start`. A start outside
+ * business hours begins counting at the next opening.
+ */
+export function addBusinessMs(start: Date, ms: number): Date {
+  const startMs = start.getTime();
+  if (ms <= 0) return new Date(startMs);
+
+  let remaining = ms;
+  for (let day = utcDayStart(startMs); ; day += MS_PER_DAY) {
+    if (!isBusinessDay(day)) continue;
+    const open = Math.max(startMs, day + BUSINESS_DAY_START_HOUR * MS_PER_HOUR);
+    const close = day + BUSINESS_DAY_END_HOUR * MS_PER_HOUR;
+    if (close <= open) continue;
+    if (remaining <= close - open) return new Date(open + remaining);
+    remaining -= close - open;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Per-ticket clock (pure)
+// ---------------------------------------------------------------------------
+
+/** Statuses in which the SLA clock runs. */
+export const SLA_RUNNING_STATUSES: TicketStatus[] = [TicketStatus.TODO, TicketStatus.IN_PROGRESS];
+
+export type SlaClock = {
+  targetMs: number;
+  /** Business time spent in running statuses up to `now`. */
+  consumedMs: number;
+  /** Deadline while the clock runs; the breach instant once breached; else null. */
+  dueAt: Date | null;
+  /** When the current IN_REVIEW pause started. */
+  pausedAt: Date | null;
+  /** The instant the target was exceeded, if it has been. */
+  breachedAt: Date | null;
+  running: boolean;
+  /** Only set for DONE tickets: delivered within the target. */
+  met: boolean | null;
+};
+
+/**
+ * Walk a ticket's status events and work out where its SLA clock stands.
+ * Like computeTicketCycleMetrics, the first segment starts at `startAt` in
+ * the status the first event moved away from; an open ticket's last segment
+ * runs until `now`. A reopened ticket resumes its clock where it stopped.
+ *
+ * `events` must be sorted by createdAt ascending.
+ */
+export function computeSlaClock(
+  input: {
+    startAt: Date;
+    targetHours: number;
+    status: TicketStatus;
+    events: StatusEventLike[];
+  },
+  now: Date = new Date(),
+): SlaClock {
+  const targetMs = input.targetHours * MS_PER_HOUR;
+
+  let current: TicketStatus = input.events[0]?.fromStatus ?? input.status;
+  let cursor = input.startAt;
+  let consumedMs = 0;
+  let breachedAt: Date | null = null;
+
+  const runSegment = (from: Date, to: Date) => {
+    if (!SLA_RUNNING_STATUSES.includes(current)) return;
+    const ms = businessMsBetween(from, to);
+    if (breachedAt === null && consumedMs + ms > targetMs) {
+      breachedAt = addBusinessMs(from, targetMs - consumedMs);
+    }
+    consumedMs += ms;
+  };
+
+  for (const event of input.events) {
+    runSegment(cursor, event.createdAt);
+    current = event.toStatus;
+    cursor = event.createdAt;
+  }
+
+  // Deadline as of the start of the current segment, before `now` is counted.
+  const running = SLA_RUNNING_STATUSES.includes(current);
+  const dueFromCursor = running ? addBusinessMs(cursor, targetMs - consumedMs) : null;
+
+  runSegment(cursor, now);
+
+  return {
+    targetMs,
+    consumedMs,
+    dueAt: breachedAt ?? dueFromCursor,
+    pausedAt: current === TicketStatus.IN_REVIEW ? cursor : null,
+    breachedAt,
+    running,
+    met: current === TicketStatus.DONE ? breachedAt === null : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Policies
+// ---------------------------------------------------------------------------
+
+/**
+ * The policy for a job type + priority: the priority-specific row if there
+ * is one, else the job type's default (priority = null) row.
+ */
+export async function resolveSlaPolicy(
+  db: Db,
+  jobTypeId: string,
+  priority: TicketPriority,
+): Promise<{ id: string; targetHours: number } | null> {
+  const policies = await db.slaPolicy.findMany({
+    where: { jobTypeId, OR: [{ priority }, { priority: null }] },
+    select: { id: true, targetHours: true, priority: true },
+  });
+  const policy = policies.find((p) => p.priority === priority) ?? policies[0];
+  return policy ? { id: policy.id, targetHours: policy.targetHours } : null;
+}
+
+/** A job type's targets in business hours — `default` covers any priority without its own. */
+export type SlaTargets = { default: number | null } & Record<TicketPriority, number | null>;
+
+const EMPTY_SLA_TARGETS: SlaTargets = {
+  default: null,
+  LOW: null,
+  MEDIUM: null,
+  HIGH: null,
+  URGENT: null,
+};
+
+/** SLA targets per job type id (job types without policies get all-null targets). */
+export async function getSlaTargets(jobTypeIds: string[]): Promise<Map<string, SlaTargets>> {
+  const byJobType = new Map<string, SlaTargets>(
+    jobTypeIds.map((id) => [id, { ...EMPTY_SLA_TARGETS }]),
+  );
+  if (jobTypeIds.length === 0) return byJobType;
+
+  const policies = await prisma.slaPolicy.findMany({
+    where: { jobTypeId: { in: jobTypeIds } },
+    select: { jobTypeId: true, priority: true, targetHours: true },
+  });
+  for (const p of policies) {
+    const targets = byJobType.get(p.jobTypeId);
+    if (targets) targets[p.priority ?? "default"] = p.targetHours;
+  }
+  return byJobType;
+}
+
+/**
+ * Replace a job type's policy set with `targets`. Rows are updated in place
+ * where possible so tickets keep their slaPolicyId link; tickets already in
+ * flight keep their snapshotted target either way.
+ */
+export async function saveSlaTargets(
+  db: Db,
+  jobTypeId: string,
+  targets: SlaTargets,
+): Promise<void> {
+  const existing = await db.slaPolicy.findMany({
+    where: { jobTypeId },
+    select: { id: true, priority: true },
+  });
+
+  for (const key of Object.keys(EMPTY_SLA_TARGETS) as (keyof SlaTargets)[]) {
+    const priority = key === "default" ? null : key;
+    const row = existing.find((p) => p.priority === priority);
+    const targetHours = targets[key];
+
+    if (targetHours === null) {
+      if (row) await db.slaPolicy.delete({ where: { id: row.id } });
+    } else if (row) {
+      await db.slaPolicy.update({ where: { id: row.id }, data: { targetHours } });
+    } else {
+      await db.slaPolicy.create({ data: { jobTypeId, priority, targetHours } });
+    }
+  }
+}
+
+/**
+ * SLA columns for a ticket about to be created. AI-mode tickets have no
+ * creative turnaround, so they never carry an SLA.
+ */
+export async function initialSlaFields(
+  db: Db,
+  ticket: {
+    jobTypeId: string | null;
+    priority: TicketPriority;
+    creativeMode: TicketCreativeMode;
+  },
+  now: Date = new Date(),
+) {
+  if (!ticket.jobTypeId || ticket.creativeMode !== TicketCreativeMode.DESIGNER) return {};
+  const policy = await resolveSlaPolicy(db, ticket.jobTypeId, ticket.priority);
+  if (!policy) return {};
+  return {
+    slaPolicyId: policy.id,
+    slaTargetHours: policy.targetHours,
+    slaDueAt: addBusinessMs(now, policy.targetHours * MS_PER_HOUR),
+  };
+}
+
+/**
+ * Recompute a ticket's SLA columns from its status history. No-op for
+ * tickets without an SLA. Notification stamps are cleared when the ticket is
+ * no longer at risk / breached (reopened, or re-targeted), so the hourly
+ * sweep alerts again if it slips back.
+ */
+export async function syncTicketSlaClock(
+  db: Db,
+  ticketId: string,
+  now: Date = new Date(),
+): Promise<void> {
+  const ticket = await db.ticket.findUnique({
+    where: { id: ticketId },
+    select: {
+      createdAt: true,
+      status: true,
+      slaTargetHours: true,
+      statusEvents: {
+        orderBy: { createdAt: "asc" },
+        select: { fromStatus: true, toStatus: true, createdAt: true },
+      },
+    },
+  });
+  if (!ticket || ticket.slaTargetHours === null) return;
+
+  const clock = computeSlaClock(
+    {
+      startAt: ticket.createdAt,
+      targetHours: ticket.slaTargetHours,
+      status: ticket.status,
+      events: ticket.statusEvents,
+    },
+    now,
+  );
+  const remainingMs = clock.targetMs - clock.consumedMs;
+
+  await db.ticket.update({
+    where: { id: ticketId },
+    data: {
+      slaDueAt: clock.dueAt,
+      slaPausedAt: clock.pausedAt,
+      slaMet: clock.met,
+      ...(clock.breachedAt ? {} : { slaBreachNotifiedAt: null }),
+      ...(remainingMs > clock.targetMs * SLA_AT_RISK_RATIO ? { slaAtRiskNotifiedAt: null } : {}),
+    },
+  });
+}
+
+/**
+ * Re-resolve the policy after a ticket's priority or job type changed. The
+ * consumed business time is kept; only the target moves.
+ */
+export async function applySlaPolicy(db: Db, ticketId: string): Promise<void> {
+  const ticket = await db.ticket.findUnique({
+    where: { id: ticketId },
+    select: { jobTypeId: true, priority: true, creativeMode: true },
+  });
+  if (!ticket) return;
+
+  const policy =
+    ticket.jobTypeId && ticket.creativeMode === TicketCreativeMode.DESIGNER
+      ? await resolveSlaPolicy(db, ticket.jobTypeId, ticket.priority)
+      : null;
+
+  if (!policy) {
+    await db.ticket.update({
+      where: { id: ticketId },
+      data: {
+        slaPolicyId: null,
+        slaTargetHours: null,
+        slaDueAt: null,
+        slaPausedAt: null,
+        slaAtRiskNotifiedAt: null,
+        slaBreachNotifiedAt: null,
+        slaMet: null,
+      },
+    });
+    return;
+  }
+
+  await db.ticket.update({
+    where: { id: ticketId },
+    data: { slaPolicyId: policy.id, slaTargetHours: policy.targetHours },
+  });
+  await syncTicketSlaClock(db, ticketId);
+}
+
+// ---------------------------------------------------------------------------
+// Hourly sweep (cron)
+// ---------------------------------------------------------------------------
+
+/** Upper bound on tickets inspected per cron tick. */
+const MAX_TICKETS_PER_SWEEP = 500;
+
+export type SlaSweepSummary = {
+  checked: number;
+  atRisk: number;
+  breached: number;
+};
+
+function formatBusinessHours(ms: number): string {
+  const hours = Math.round((ms / MS_PER_HOUR) * 10) / 10;
+  return `${hours} business hour${hours === 1 ? "" : "s"}`;
+}
+
+/**
+ * Alert on running tickets that crossed their deadline (SLA_BREACHED) or have
+ * at most SLA_AT_RISK_RATIO of the target left (SLA_AT_RISK). The assigned
+ * creative and every site admin are notified, once per ticket and state —
+ * each alert is claimed with a conditional update on its stamp column so
+ * overlapping cron runs can't double-send.
+ */
+export async function runSlaChecks(now: Date = new Date()): Promise<SlaSweepSummary> {
+  const tickets = await prisma.ticket.findMany({
+    where: {
+      status: { in: SLA_RUNNING_STATUSES },
+      slaPausedAt: null,
+      slaTargetHours: { not: null },
+      OR: [
+        { slaBreachNotifiedAt: null, slaDueAt: { lte: now } },
+        { slaAtRiskNotifiedAt: null, slaDueAt: { gt: now } },
+      ],
+    },
+    orderBy: { slaDueAt: "asc" },
+    take: MAX_TICKETS_PER_SWEEP,
+    select: {
+      id: true,
+      title: true,
+      creativeId: true,
+      slaDueAt: true,
+      slaTargetHours: true,
+      company: { select: { name: true } },
+    },
+  });
+
+  const summary: SlaSweepSummary = { checked: tickets.length, atRisk: 0, breached: 0 };
+  if (tickets.length === 0) return summary;
+
+  const admins = await prisma.userAccount.findMany({
+    where: { role: { in: SITE_ADMIN_ROLES }, deletedAt: null },
+    select: { id: true },
+  });
+
+  for (const t of tickets) {
+    if (!t.slaDueAt || t.slaTargetHours === null) continue;
+    const breached = t.slaDueAt <= now;
+    const remainingMs = breached ? 0 : businessMsBetween(now, t.slaDueAt);
+
+    if (!breached && remainingMs > t.slaTargetHours * MS_PER_HOUR * SLA_AT_RISK_RATIO) {
+      continue;
+    }
+
+    const claimed = await prisma.ticket.updateMany({
+      where: breached
+        ? { id: t.id, slaBreachNotifiedAt: null }
+        : { id: t.id, slaAtRiskNotifiedAt: null },
+      data: breached
+        ? { slaBreachNotifiedAt: now, slaAtRiskNotifiedAt: now }
+        : { slaAtRiskNotifiedAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    if (breached) summary.breached++;
+    else summary.atRisk++;
+
+    const message = breached
+      ? `"${t.title}" (${t.company.name}) passed its ${t.slaTargetHours}h SLA target.`
+      : `"${t.title}" (${t.company.name}) has ${formatBusinessHours(remainingMs)} left on its ${t.slaTargetHours}h SLA target.`;
+    const recipients = new Set(admins.map((a) => a.id));
+    if (t.creativeId) recipients.add(t.creativeId);
+
+    for (const userId of recipients) {
+      void createNotification({
+        userId,
+        type: breached ? "SLA_BREACHED" : "SLA_AT_RISK",
+        title: breached ? "SLA breached" : "SLA at risk",
+        message,
+        ticketId: t.id,
+      });
+    }
+  }
+
+  return summary;
+}
+
+// ---------------------------------------------------------------------------
+// Attainment analytics
+// ---------------------------------------------------------------------------
+
+/** Upper bound on tickets pulled per analytics request. */
+const MAX_TICKETS_PER_QUERY = 2000;
+
+export type SlaAttainment = {
+  met: number;
+  breached: number;
+  /** met / (met + breached) as a whole percentage; null with no sample. */
+  attainmentPct: number | null;
+};
+
+export type SlaAttainmentAnalytics = {
+  since: string;
+  overall: SlaAttainment;
+  byCreative: (SlaAttainment & { creativeId: string | null; creativeName: string })[];
+  byCompany: (SlaAttainment & { companyId: string; companyName: string })[];
+  /** Open tickets whose running clock is already past its deadline. */
+  openBreached: number;
+};
+
+function attainment(met: number, breached: number): SlaAttainment {
+  const total = met + breached;
+  return {
+    met,
+    breached,
+    attainmentPct: total > 0 ? Math.round((met / total) * 100) : null,
+  };
+}
+
+/**
+ * SLA attainment over SLA-tracked tickets completed since `since`, overall
+ * and per creative / company (worst attainment first). Completions through
+ * the token engine don't stamp completedAt, so those fall back to updatedAt
+ * for the window (as in getCycleTimeAnalytics).
+ */
+export async function getSlaAttainmentAnalytics(opts: {
+  since: Date;
+}): Promise<SlaAttainmentAnalytics> {
+  const now = new Date();
+  const [tickets, openBreached] = await Promise.all([
+    prisma.ticket.findMany({
+      where: {
+        status: TicketStatus.DONE,
+        slaMet: { not: null },
+        OR: [
+          { completedAt: { gte: opts.since } },
+          { completedAt: null, updatedAt: { gte: opts.since } },
+        ],
+      },
+      orderBy: { updatedAt: "desc" },
+      take: MAX_TICKETS_PER_QUERY,
+      select: {
+        slaMet: true,
+        creative: { select: { id: true, name: true, email: true } },
+        company: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.ticket.count({
+      where: {
+        status: { in: SLA_RUNNING_STATUSES },
+        slaPausedAt: null,
+        slaDueAt: { lte: now },
+      },
+    }),
+  ]);
+
+  type Bucket = { name: string; met: number; breached: number };
+  const byCreative = new Map<string, Bucket>();
+  const byCompany = new Map<string, Bucket>();
+  let met = 0;
+  let breached = 0;
+
+  const tally = (map: Map<string, Bucket>, key: string, name: string, ok: boolean) => {
+    const bucket = map.get(key) ?? { name, met: 0, breached: 0 };
+    if (ok) bucket.met++;
+    else bucket.breached++;
+    map.set(key, bucket);
+  };
+
+  for (const t of tickets) {
+    const ok = t.slaMet === true;
+    if (ok) met++;
+    else breached++;
+    tally(
+      byCreative,
+      t.creative?.id ?? "",
+      t.creative ? (t.creative.name ?? t.creative.email) : "Unassigned",
+      ok,
+    );
+    tally(byCompany, t.company.id, t.company.name, ok);
+  }
+
+  const worstFirst = <T extends SlaAttainment>(a: T, b: T) =>
+    (a.attainmentPct ?? 100) - (b.attainmentPct ?? 100) || b.breached - a.breached;
+
+  return {
+    since: opts.since.toISOString(),
+    overall: attainment(met, breached),
+    byCreative: [...byCreative.entries()]
+      .map(([id, b]) => ({
+        creativeId: id || null,
+        creativeName: b.name,
+        ...attainment(b.met, b.breached),
+      }))
+      .sort(worstFirst),
+    byCompany: [...byCompany.entries()]
+      .map(([id, b]) => ({ companyId: id, companyName: b.name, ...attainment(b.met, b.breached) }))
+      .sort(worstFirst),
+    openBreached,
+  };
+}
@@ -0,0 +1,352 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/status-history.ts
+// @purpose: Ticket status history — write helper for TicketStatusEvent rows
+//           plus lead-time / cycle-time / time-in-status analytics built on
+//           top of them.
+//
+// Every path that flips Ticket.status calls recordStatusEvent() inside the
+// same transaction as the flip, so the log can never disagree with the row.
+// It also re-syncs the ticket's SLA clock (./sla.ts), which is derived from
+// the same events.
+// The metric math is pure (events in, numbers out) so it is unit-testable
+// without a database; getCycleTimeAnalytics() is the thin DB loader used by
+// the admin dashboard and the per-company analytics route.
+// -----------------------------------------------------------------------------
+
+import { Prisma, TicketStatus } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { syncTicketSlaClock } from "@/lib/tickets/sla";
+
+// ---------------------------------------------------------------------------
+// Writing events
+// ---------------------------------------------------------------------------
+
+/**
+ * Which code path wrote a status event. Stored as a plain string (like
+ * TicketAssignmentLog.reason) so adding a new writer never needs a migration.
+ */
+export type StatusEventSource =
+  | "CREATIVE_TRANSITION"
+  | "CREATIVE_BATCH"
+  | "CUSTOMER_BOARD"
+  | "CUSTOMER_FEEDBACK"
+  | "CUSTOMER_APPROVAL"
+  | "CUSTOMER_CANCEL"
+  | "CUSTOMER_REOPEN"
+  | "CUSTOMER_RESTORE"
+  | "COMPLETE_ENDPOINT"
+  | "ADMIN_BULK"
+  | "AI_GENERATION";
+
+export type RecordStatusEventInput = {
+  ticketId: string;
+  fromStatus: TicketStatus;
+  toStatus: TicketStatus;
+  actorId?: string | null;
+  source: StatusEventSource;
+  metadata?: Prisma.InputJsonValue;
+};
+
+/**
+ * Append a TicketStatusEvent row. No-op when the status did not actually
+ * change, so callers can pass through "already there" short-circuits without
+ * polluting the history.
+ *
+ * Pass the caller's transaction client whenever the status flip itself runs
+ * in a transaction — the event must commit (or roll back) with the flip.
+ * The SLA clock is re-synced in the same client: IN_REVIEW pauses it,
+ * leaving review resumes it and DONE settles slaMet.
+ */
+export async function recordStatusEvent(
+  input: RecordStatusEventInput,
+  tx?: Prisma.TransactionClient,
+): Promise<void> {
+  if (input.fromStatus === input.toStatus) return;
+
+  const db = tx ?? prisma;
+  await db.ticketStatusEvent.create({
+    data: {
+      ticketId: input.ticketId,
+      fromStatus: input.fromStatus,
+      toStatus: input.toStatus,
+      actorId: input.actorId ?? null,
+      source: input.source,
+      metadata: input.metadata ?? undefined,
+    },
+  });
+  await syncTicketSlaClock(db, input.ticketId);
+}
+
+// ---------------------------------------------------------------------------
+// Per-ticket metrics (pure)
+// ---------------------------------------------------------------------------
+
+/** Statuses a ticket can actively "sit" in. DONE / CANCELED are terminal. */
+export const TRACKED_STATUSES = [
+  TicketStatus.TODO,
+  TicketStatus.IN_PROGRESS,
+  TicketStatus.IN_REVIEW,
+] as const;
+
+export type TrackedStatus = (typeof TRACKED_STATUSES)[number];
+
+export type StatusEventLike = {
+  fromStatus: TicketStatus;
+  toStatus: TicketStatus;
+  createdAt: Date;
+};
+
+export type TicketCycleMetrics = {
+  /** createdAt → DONE. Null while the ticket is not done. */
+  leadTimeMs: number | null;
+  /** First IN_PROGRESS → DONE. Null when either end is unknown. */
+  cycleTimeMs: number | null;
+  /** Total time spent in each non-terminal status. */
+  timeInStatusMs: Record<TrackedStatus, number>;
+  /** Number of IN_REVIEW → IN_PROGRESS moves (customer asked for changes). */
+  reviewRoundTrips: number;
+  /** False for legacy tickets with no history rows (time-in-status unknown). */
+  hasHistory: boolean;
+};
+
+function isTracked(status: TicketStatus): status is TrackedStatus {
+  return (TRACKED_STATUSES as readonly TicketStatus[]).includes(status);
+}
+
+/**
+ * Walk a ticket's status events and derive its lead / cycle time and how long
+ * it sat in each column.
+ *
+ * The first segment starts at `ticket.createdAt` in the status the first event
+ * moved away from (TODO for normal tickets, IN_PROGRESS for AI tickets). An
+ * open ticket's final segment runs until `now`. When a ticket was completed
+ * more than once (reopened), the LAST DONE counts.
+ *
+ * `events` must be sorted by createdAt ascending.
+ */
+export function computeTicketCycleMetrics(
+  ticket: { createdAt: Date; status: TicketStatus; completedAt?: Date | null },
+  events: StatusEventLike[],
+  now: Date = new Date(),
+): TicketCycleMetrics {
+  const timeInStatusMs: Record<TrackedStatus, number> = {
+    TODO: 0,
+    IN_PROGRESS: 0,
+    IN_REVIEW: 0,
+  };
+
+  if (events.length === 0) {
+    // Legacy ticket: no history, only the row timestamps.
+    const doneAt =
+      ticket.status === TicketStatus.DONE && ticket.completedAt ? ticket.completedAt : null;
+    return {
+      leadTimeMs: doneAt ? Math.max(0, doneAt.getTime() - ticket.createdAt.getTime()) : null,
+      cycleTimeMs: null,
+      timeInStatusMs,
+      reviewRoundTrips: 0,
+      hasHistory: false,
+    };
+  }
+
+  let current: TicketStatus = events[0].fromStatus;
+  let cursor = ticket.createdAt.getTime();
+  let firstInProgressAt: number | null = current === TicketStatus.IN_PROGRESS ? cursor : null;
+  let doneAt: number | null = null;
+  let reviewRoundTrips = 0;
+
+  for (const event of events) {
+    const at = event.createdAt.getTime();
+    if (isTracked(current)) {
+      timeInStatusMs[current] += Math.max(0, at - cursor);
+    }
+    if (
+      event.fromStatus === TicketStatus.IN_REVIEW &&
+      event.toStatus === TicketStatus.IN_PROGRESS
+    ) {
+      reviewRoundTrips++;
+    }
+    if (event.toStatus === TicketStatus.IN_PROGRESS && firstInProgressAt === null) {
+      firstInProgressAt = at;
+    }
+    if (event.toStatus === TicketStatus.DONE) {
+      doneAt = at;
+    }
+    current = event.toStatus;
+    cursor = at;
+  }
+
+  // Still open → the current segment runs until now.
+  if (isTracked(current)) {
+    timeInStatusMs[current] += Math.max(0, now.getTime() - cursor);
+  }
+
+  const isDone = current === TicketStatus.DONE;
+  const finalDoneAt = isDone ? doneAt : null;
+
+  return {
+    leadTimeMs: finalDoneAt !== null ? Math.max(0, finalDoneAt - ticket.createdAt.getTime()) : null,
+    cycleTimeMs:
+      finalDoneAt !== null && firstInProgressAt !== null
+        ? Math.max(0, finalDoneAt - firstInProgressAt)
+        : null,
+    timeInStatusMs,
+    reviewRoundTrips,
+    hasHistory: true,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation (pure)
+// ---------------------------------------------------------------------------
+
+export type DurationStats = {
+  avgHours: number;
+  medianHours: number;
+  p90Hours: number;
+};
+
+export type CycleTimeSummary = {
+  /** Completed tickets the summary is built from. */
+  sampleSize: number;
+  /** Subset of sampleSize that carried status history. */
+  withHistory: number;
+  leadTime: DurationStats | null;
+  cycleTime: DurationStats | null;
+  /** Average hours per ticket in each column (history-backed tickets only). */
+  avgTimeInStatusHours: Record<TrackedStatus, number>;
+  avgReviewRoundTrips: number;
+};
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+function roundHours(ms: number): number {
+  return Math.round((ms / MS_PER_HOUR) * 10) / 10;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, idx)];
+}
+
+/** Average / median / p90 in hours for a list of millisecond durations. */
+export function summarizeDurations(values: number[]): DurationStats | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((acc, v) => acc + v, 0);
+  return {
+    avgHours: roundHours(sum / sorted.length),
+    medianHours: roundHours(percentile(sorted, 50)),
+    p90Hours: roundHours(percentile(sorted, 90)),
+  };
+}
+
+/** Roll a list of per-ticket metrics up into a single summary. */
+export function summarizeCycleMetrics(metrics: TicketCycleMetrics[]): CycleTimeSummary {
+  const withHistory = metrics.filter((m) => m.hasHistory);
+
+  const leadTimes = metrics.map((m) => m.leadTimeMs).filter((v): v is number => v !== null);
+  const cycleTimes = metrics.map((m) => m.cycleTimeMs).filter((v): v is number => v !== null);
+
+  const avgTimeInStatusHours: Record<TrackedStatus, number> = {
+    TODO: 0,
+    IN_PROGRESS: 0,
+    IN_REVIEW: 0,
+  };
+  for (const status of TRACKED_STATUSES) {
+    const total = withHistory.reduce((acc, m) => acc + m.timeInStatusMs[status], 0);
+    avgTimeInStatusHours[status] = withHistory.length ? roundHours(total / withHistory.length) : 0;
+  }
+
+  const totalRoundTrips = withHistory.reduce((acc, m) => acc + m.reviewRoundTrips, 0);
+
+  return {
+    sampleSize: metrics.length,
+    withHistory: withHistory.length,
+    leadTime: summarizeDurations(leadTimes),
+    cycleTime: summarizeDurations(cycleTimes),
+    avgTimeInStatusHours,
+    avgReviewRoundTrips: withHistory.length
+      ? Math.round((totalRoundTrips / withHistory.length) * 10) / 10
+      : 0,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// DB loader
+// ---------------------------------------------------------------------------
+
+/** Upper bound on tickets pulled per analytics request. */
+const MAX_TICKETS_PER_QUERY = 2000;
+
+export type JobTypeCycleTimeSummary = CycleTimeSummary & {
+  jobTypeId: string | null;
+  jobTypeName: string;
+};
+
+export type CycleTimeAnalytics = {
+  since: string;
+  overall: CycleTimeSummary;
+  byJobType: JobTypeCycleTimeSummary[];
+};
+
+/**
+ * Cycle-time analytics over tickets completed since `since`, optionally
+ * scoped to one company. Tickets completed before completedAt was stamped
+ * (legacy / engine-only completions) fall back to updatedAt for the window.
+ */
+export async function getCycleTimeAnalytics(opts: {
+  since: Date;
+  companyId?: string;
+}): Promise<CycleTimeAnalytics> {
+  const tickets = await prisma.ticket.findMany({
+    where: {
+      status: TicketStatus.DONE,
+      ...(opts.companyId ? { companyId: opts.companyId } : {}),
+      OR: [
+        { completedAt: { gte: opts.since } },
+        { completedAt: null, updatedAt: { gte: opts.since } },
+      ],
+    },
+    orderBy: { updatedAt: "desc" },
+    take: MAX_TICKETS_PER_QUERY,
+    select: {
+      id: true,
+      status: true,
+      createdAt: true,
+      completedAt: true,
+      jobType: { select: { id: true, name: true } },
+      statusEvents: {
+        orderBy: { createdAt: "asc" },
+        select: { fromStatus: true, toStatus: true, createdAt: true },
+      },
+    },
+  });
+
+  const now = new Date();
+  const all: TicketCycleMetrics[] = [];
+  const byJobType = new Map<string, { name: string; metrics: TicketCycleMetrics[] }>();
+
+  for (const t of tickets) {
+    const m = computeTicketCycleMetrics(t, t.statusEvents, now);
+    all.push(m);
+
+    const key = t.jobType?.id ?? "";
+    const bucket = byJobType.get(key) ?? { name: t.jobType?.name ?? "No job type", metrics: [] };
+    bucket.metrics.push(m);
+    byJobType.set(key, bucket);
+  }
+
+  return {
+    since: opts.since.toISOString(),
+    overall: summarizeCycleMetrics(all),
+    byJobType: [...byJobType.entries()]
+      .map(([key, bucket]) => ({
+        jobTypeId: key || null,
+        jobTypeName: bucket.name,
+        ...summarizeCycleMetrics(bucket.metrics),
+      }))
+      .sort((a, b) => b.sampleSize - a.sampleSize),
+  };
+}
@@ -0,0 +1,53 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/template-title.ts
+// @purpose: Ticket template title patterns (pure, client-safe). A template
+//           title like "Newsletter header — {month} {year}" is expanded when
+//           the template is applied in the new-ticket form.
+// -----------------------------------------------------------------------------
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+/** Tokens a template title may contain, with a short hint for the UI. */
+export const TITLE_PATTERN_TOKENS: { token: string; hint: string }[] = [
+  { token: "{date}", hint: "today, e.g. 2026-10-19" },
+  { token: "{month}", hint: "month name, e.g. October" },
+  { token: "{year}", hint: "four-digit year" },
+  { token: "{week}", hint: "ISO week number" },
+];
+
+/** ISO-8601 week number (weeks start Monday; week 1 contains Jan 4th). */
+function isoWeek(d: Date): number {
+  const date = new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()));
+  const day = date.getUTCDay() || 7;
+  date.setUTCDate(date.getUTCDate() + 4 - day);
+  const yearStart = new Date(Date.UTC(date.getUTCFullYear(), 0, 1));
+  return Math.ceil(((date.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+}
+
+/**
+ * Expand {date} / {month} / {year} / {week} in a template title using the
+ * caller's local date. Unknown tokens are left as typed.
+ */
+export function renderTitlePattern(pattern: string, now: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const values: Record<string, string> = {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    month: MONTH_NAMES[now.getMonth()],
+    year: String(now.getFullYear()),
+    week: String(isoWeek(now)),
+  };
+  return pattern.replace(/\{(\w+)\}/g, (match, key: string) => values[key.toLowerCase()] ?? match);
+}
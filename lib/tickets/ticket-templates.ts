@@ -0,0 +1,186 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/ticket-templates.ts
+// @purpose: Company ticket templates — shared select / DTO and reference
+//           checks for the customer template API, plus "save ticket as
+//           template". Title pattern tokens live in ./template-title.ts so the
+//           new-ticket form can import them client-side.
+// -----------------------------------------------------------------------------
+
+import { Prisma } from "@prisma/client";
+
+import { getProjectRole } from "@/lib/permissions/projectAccess";
+import { canCreateTicketsInProject } from "@/lib/permissions/projectRoles";
+import { prisma } from "@/lib/prisma";
+import type { SessionUser } from "@/lib/roles";
+import { loadOutputSpecPresets, readOutputSpecs } from "@/lib/tickets/output-specs";
+
+// ---------------------------------------------------------------------------
+// API shape
+// ---------------------------------------------------------------------------
+
+/** Fields the customer template API returns. */
+export const TEMPLATE_SELECT = {
+  id: true,
+  name: true,
+  titlePattern: true,
+  description: true,
+  priority: true,
+  quantity: true,
+  tagIds: true,
+  outputSpecs: true,
+  createdAt: true,
+  updatedAt: true,
+  project: { select: { id: true, name: true, code: true } },
+  jobType: { select: { id: true, name: true, tokenCost: true, isActive: true } },
+  createdBy: { select: { id: true, name: true } },
+} satisfies Prisma.TicketTemplateSelect;
+
+export type TicketTemplateRow = Prisma.TicketTemplateGetPayload<{
+  select: typeof TEMPLATE_SELECT;
+}>;
+
+/**
+ * JSON shape for the customer template API. Output specs are resolved to
+ * preset labels in one query for the whole list; presets that were removed
+ * since the template was saved are dropped.
+ */
+export async function toTemplateDtos(companyId: string, rows: TicketTemplateRow[]) {
+  const specsById = new Map(rows.map((r) => [r.id, readOutputSpecs(r.outputSpecs)]));
+  const presets = await loadOutputSpecPresets(
+    companyId,
+    [...specsById.values()].flat().map((s) => s.presetId),
+  );
+
+  return rows.map((t) => ({
+    id: t.id,
+    name: t.name,
+    titlePattern: t.titlePattern,
+    description: t.description,
+    priority: t.priority,
+    quantity: t.quantity,
+    tagIds: t.tagIds,
+    outputSpecs: (specsById.get(t.id) ?? []).flatMap((s) => {
+      const preset = presets.get(s.presetId);
+      return preset ? [{ ...s, preset }] : [];
+    }),
+    project: t.project,
+    // An inactive job type can't be used for new tickets — the form leaves
+    // the picker empty instead.
+    jobType: t.jobType?.isActive ? t.jobType : null,
+    createdBy: t.createdBy,
+    createdAt: t.createdAt.toISOString(),
+    updatedAt: t.updatedAt.toISOString(),
+  }));
+}
+
+export type TicketTemplateDto = Awaited<ReturnType<typeof toTemplateDtos>>[number];
+
+// ---------------------------------------------------------------------------
+// Reference checks
+// ---------------------------------------------------------------------------
+
+export type TemplateReferenceCheck =
+  | { ok: true; tagIds: string[] | undefined }
+  | {
+      ok: false;
+      code: "PROJECT_NOT_FOUND" | "PROJECT_FORBIDDEN" | "JOB_TYPE_NOT_FOUND";
+      message: string;
+    };
+
+/**
+ * Validate the project / job type / tags a template points at before saving
+ * it. The user needs create access to the template's project, the same as
+ * filing the ticket itself. Tags from other companies are silently dropped.
+ * Fields left undefined (partial update) aren't checked.
+ */
+export async function checkTemplateReferences(
+  user: Pick<SessionUser, "id" | "activeCompanyId" | "companyRole">,
+  refs: { projectId?: string | null; jobTypeId?: string | null; tagIds?: string[] },
+): Promise<TemplateReferenceCheck> {
+  const companyId = user.activeCompanyId ?? "";
+
+  if (refs.projectId !== undefined) {
+    if (refs.projectId) {
+      const project = await prisma.project.findFirst({
+        where: { id: refs.projectId, companyId },
+        select: { id: true },
+      });
+      if (!project) {
+        return {
+          ok: false,
+          code: "PROJECT_NOT_FOUND",
+          message: "Project not found for this company.",
+        };
+      }
+    }
+    if (!canCreateTicketsInProject(await getProjectRole(user, refs.projectId))) {
+      return {
+        ok: false,
+        code: "PROJECT_FORBIDDEN",
+        message: "You don't have permission to create tickets in this project.",
+      };
+    }
+  }
+
+  if (refs.jobTypeId) {
+    const jobType = await prisma.jobType.findFirst({
+      where: { id: refs.jobTypeId, isActive: true },
+      select: { id: true },
+    });
+    if (!jobType) {
+      return { ok: false, code: "JOB_TYPE_NOT_FOUND", message: "Job type not found." };
+    }
+  }
+
+  let tagIds: string[] | undefined;
+  if (refs.tagIds !== undefined) {
+    const validTags =
+      refs.tagIds.length > 0
+        ? await prisma.ticketTag.findMany({
+            where: { id: { in: refs.tagIds }, companyId },
+            select: { id: true },
+          })
+        : [];
+    const validIds = new Set(validTags.map((t) => t.id));
+    tagIds = refs.tagIds.filter((id) => validIds.has(id));
+  }
+
+  return { ok: true, tagIds };
+}
+
+// ---------------------------------------------------------------------------
+// Save an existing ticket as a template
+// ---------------------------------------------------------------------------
+
+/**
+ * Template fields copied from a ticket: title, brief, project, job type,
+ * quantity, priority, tags and output specs. Due date, assignee and
+ * attachments are per-ticket and aren't carried over.
+ */
+export async function templateDataFromTicket(ticketId: string) {
+  const ticket = await prisma.ticket.findUnique({
+    where: { id: ticketId },
+    select: {
+      title: true,
+      description: true,
+      projectId: true,
+      jobTypeId: true,
+      quantity: true,
+      priority: true,
+      tagAssignments: { select: { tagId: true } },
+      outputSpecs: { select: { presetId: true, quantity: true } },
+    },
+  });
+  if (!ticket) return null;
+
+  return {
+    titlePattern: ticket.title,
+    description: ticket.description,
+    projectId: ticket.projectId,
+    jobTypeId: ticket.jobTypeId,
+    quantity: ticket.quantity,
+    priority: ticket.priority,
+    tagIds: ticket.tagAssignments.map((a) => a.tagId).slice(0, 5),
+    outputSpecs: ticket.outputSpecs.map((o) => ({ presetId: o.presetId, quantity: o.quantity })),
+  };
+}
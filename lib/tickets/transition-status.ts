@@ -2,8 +2,12 @@
 // @file: lib/tickets/transition-status.ts
 // @purpose: Domain service — creative-side ticket status transition
 //           (IN_PROGRESS ↔ IN_REVIEW ↔ TODO, excluding DONE). Enforces
-//           ownership, plan concurrency limits, and creates a new
-//           TicketRevision row on IN_PROGRESS → IN_REVIEW.
+//           ownership, ticket dependencies (a blocked ticket can't
+//           start), plan concurrency limits (the last free slots go to the
+//           top of the ranked backlog), creates a new
+//           TicketRevision row on IN_PROGRESS → IN_REVIEW (carrying the
+//           previous revision's OPEN pins forward), and appends the
+//           TicketStatusEvent history row.
 //
 // Extracted from app/api/creative/tickets/route.ts to keep the route a
 // thin I/O shell. All structured failures are represented as a tagged
@@ -14,6 +18,15 @@
 import { TicketStatus } from "@prisma/client";
 
 import { prisma } from "@/lib/prisma";
+import { findStartableTicketsAhead, type RankedAheadTicket } from "@/lib/tickets/backlog";
+import {
+  describeOpenBlockers,
+  getOpenBlockers,
+  type LinkedTicket,
+} from "@/lib/tickets/dependencies";
+import { carryOverOpenPins } from "@/lib/tickets/pin-carry-over";
+import { getCompanyConcurrency, type CompanyConcurrency } from "@/lib/tickets/plan-concurrency";
+import { recordStatusEvent } from "@/lib/tickets/status-history";
 
 export type TransitionStatusInput = {
   creativeUserId: string;
@@ -49,16 +62,14 @@ export type TransitionStatusFailure =
   | { success: false; code: "CREATIVE_NOT_FOUND"; message: string }
   | { success: false; code: "NOT_FOUND"; message: string }
   | { success: false; code: "ALREADY_DONE"; message: string }
+  | { success: false; code: "BLOCKED"; message: string; blockers: LinkedTicket[] }
   | {
       success: false;
       code: "CONCURRENCY_LIMIT";
       message: string;
-      details: {
-        plan: string;
-        maxConcurrentInProgress: number;
-        currentInProgress: number;
-      };
-    };
+      details: CompanyConcurrency;
+    }
+  | { success: false; code: "RANKED_AHEAD"; message: string; ahead: RankedAheadTicket[] };
 
 export type TransitionStatusResult = TransitionStatusSuccess | TransitionStatusFailure;
 
@@ -105,40 +116,54 @@ export async function transitionCreativeTicketStatus(
     };
   }
 
+  // Dependency gate — a ticket can't be started while any ticket blocking
+  // it is still open.
+  if (nextStatus === TicketStatus.IN_PROGRESS && ticket.status === TicketStatus.TODO) {
+    const blockers = await getOpenBlockers(ticket.id);
+    if (blockers.length > 0) {
+      return {
+        success: false,
+        code: "BLOCKED",
+        message: describeOpenBlockers(blockers),
+        blockers,
+      };
+    }
+  }
+
   // Plan-based concurrency gate — only relevant when transitioning INTO
   // IN_PROGRESS from a non-IN_PROGRESS state.
   if (nextStatus === TicketStatus.IN_PROGRESS && ticket.status !== TicketStatus.IN_PROGRESS) {
-    const companyWithPlan = await prisma.company.findUnique({
-      where: { id: ticket.companyId },
-      select: { plan: true },
-    });
-
-    const planData = companyWithPlan?.plan as
-      | { name?: string | null; maxConcurrentInProgressTickets?: number | null }
-      | null
-      | undefined;
-
-    const maxConcurrent =
-      typeof planData?.maxConcurrentInProgressTickets === "number"
-        ? planData.maxConcurrentInProgressTickets
-        : 1;
-
-    const currentInProgressCount = await prisma.ticket.count({
-      where: { companyId: ticket.companyId, status: TicketStatus.IN_PROGRESS },
-    });
+    const concurrency = await getCompanyConcurrency(ticket.companyId);
+    const maxConcurrent = concurrency.maxConcurrentInProgress;
+    const currentInProgressCount = concurrency.currentInProgress;
 
     if (currentInProgressCount >= maxConcurrent) {
       return {
         success: false,
         code: "CONCURRENCY_LIMIT",
         message: "This company has reached its limit for active tickets in progress.",
-        details: {
-          plan: typeof planData?.name === "string" ? planData.name : "current plan",
-          maxConcurrentInProgress: maxConcurrent,
-          currentInProgress: currentInProgressCount,
-        },
+        details: concurrency,
       };
     }
+
+    // Backlog order — when the free slots don't cover every startable
+    // ticket this creative holds for the company, they go to the tickets
+    // the company ranked first. Rework (IN_REVIEW → IN_PROGRESS) is exempt.
+    if (ticket.status === TicketStatus.TODO) {
+      const ahead = await findStartableTicketsAhead({
+        ticketId: ticket.id,
+        companyId: ticket.companyId,
+        creativeId: creativeUserId,
+      });
+      if (ahead.length >= maxConcurrent - currentInProgressCount) {
+        return {
+          success: false,
+          code: "RANKED_AHEAD",
+          message: `The client ranked ${ahead[0].code} higher — please start it first.`,
+          ahead,
+        };
+      }
+    }
   }
 
   const isInProgressToInReview =
@@ -178,6 +203,29 @@ export async function transitionCreativeTicketStatus(
         select: { id: true },
       });
 
+      // Usually a no-op here — the board uploads the revision's files right
+      // after this call, and the upload routes run the carry-over again.
+      const { carried } = await carryOverOpenPins(tx, {
+        ticketId: ticket.id,
+        revisionId: revision.id,
+      });
+
+      await recordStatusEvent(
+        {
+          ticketId: ticket.id,
+          fromStatus: ticket.status,
+          toStatus: nextStatus,
+          actorId: creativeUserId,
+          source: "CREATIVE_TRANSITION",
+          metadata: {
+            revisionId: revision.id,
+            version: updatedTicket.revisionCount,
+            carriedPins: carried,
+          },
+        },
+        tx,
+      );
+
       return {
         id: updatedTicket.id,
         status: updatedTicket.status,
@@ -186,10 +234,25 @@ export async function transitionCreativeTicketStatus(
       };
     });
   } else {
-    updated = await prisma.ticket.update({
-      where: { id: ticket.id },
-      data: { status: nextStatus },
-      select: { id: true, status: true, updatedAt: true },
+    updated = await prisma.$transaction(async (tx) => {
+      const updatedTicket = await tx.ticket.update({
+        where: { id: ticket.id },
+        data: { status: nextStatus },
+        select: { id: true, status: true, updatedAt: true },
+      });
+
+      await recordStatusEvent(
+        {
+          ticketId: ticket.id,
+          fromStatus: ticket.status,
+          toStatus: nextStatus,
+          actorId: creativeUserId,
+          source: "CREATIVE_TRANSITION",
+        },
+        tx,
+      );
+
+      return updatedTicket;
     });
   }
 
@@ -0,0 +1,49 @@
+// -----------------------------------------------------------------------------
+// @file: lib/tickets/watchers.ts
+// @purpose: Ticket watchers — users following a ticket beyond its creator and
+//           assigned creative. Auto-watch on create / comment / mention,
+//           explicit watch / unwatch from the ticket detail pages. The
+//           notification fan-out itself is notifyTicketWatchers() in
+//           lib/notifications.ts.
+// -----------------------------------------------------------------------------
+
+import { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export type TicketWatchState = {
+  watching: boolean;
+  watcherCount: number;
+};
+
+/** Add `userIds` as watchers of a ticket. Already-watching users are ignored. */
+export async function watchTicket(db: Db, ticketId: string, userIds: string[]): Promise<void> {
+  const unique = [...new Set(userIds)];
+  if (unique.length === 0) return;
+  await db.ticketWatcher.createMany({
+    data: unique.map((userId) => ({ ticketId, userId })),
+    skipDuplicates: true,
+  });
+}
+
+/** Stop `userId` watching a ticket. No-op if they weren't. */
+export async function unwatchTicket(ticketId: string, userId: string): Promise<void> {
+  await prisma.ticketWatcher.deleteMany({ where: { ticketId, userId } });
+}
+
+/** Whether `userId` watches the ticket, plus how many users do in total. */
+export async function getTicketWatchState(
+  ticketId: string,
+  userId: string,
+): Promise<TicketWatchState> {
+  const [mine, watcherCount] = await Promise.all([
+    prisma.ticketWatcher.findUnique({
+      where: { ticketId_userId: { ticketId, userId } },
+      select: { id: true },
+    }),
+    prisma.ticketWatcher.count({ where: { ticketId, user: { deletedAt: null } } }),
+  ]);
+  return { watching: mine !== null, watcherCount };
+}
@@ -1,12 +1,13 @@
 // -----------------------------------------------------------------------------
 // @file: lib/token-engine.ts
 // @purpose: Token accounting helpers for Brandbite (companies, creatives, tickets)
-// @version: v2.0.0
-// @lastUpdate: 2026-02-20
+// @version: v2.2.0
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { LedgerDirection, Prisma, TicketStatus } from "@prisma/client";
 import { prisma } from "./prisma";
+import { recordStatusEvent, type StatusEventSource } from "./tickets/status-history";
 
 /**
  * Human-readable reason codes for token movements.
@@ -21,6 +22,7 @@ export type TokenReason =
   | "CONSULTATION_BOOKING"
   | "CONSULTATION_REFUND"
   | "TOKEN_TOPUP"
+  | "TICKET_RESTORED"
   | string;
 
 export type TokenMetadata = Prisma.InputJsonValue;
@@ -207,6 +209,48 @@ export async function applyCompanyLedgerEntry(input: ApplyCompanyLedgerInput) {
   });
 }
 
+/**
+ * Guarded company debit for use inside a caller's transaction: decrements
+ * only while the balance still covers `amount`, then writes the DEBIT ledger
+ * row. Returns null without writing anything when the balance falls short,
+ * so a concurrent spend can never drive the company negative.
+ */
+export async function debitCompanyIfCovered(
+  tx: Prisma.TransactionClient,
+  input: Omit<ApplyCompanyLedgerInput, "direction">,
+) {
+  const { companyId, ticketId, amount, reason, notes, metadata } = input;
+  const { rawAmount } = computeSignedAmount(amount, LedgerDirection.DEBIT);
+
+  const debited = await tx.company.updateMany({
+    where: { id: companyId, tokenBalance: { gte: rawAmount } },
+    data: { tokenBalance: { decrement: rawAmount } },
+  });
+  if (debited.count === 0) return null;
+
+  const company = await tx.company.findUniqueOrThrow({
+    where: { id: companyId },
+    select: { tokenBalance: true },
+  });
+  const balanceAfter = company.tokenBalance;
+
+  const ledger = await tx.tokenLedger.create({
+    data: {
+      companyId,
+      ticketId: ticketId ?? null,
+      direction: LedgerDirection.DEBIT,
+      amount: rawAmount,
+      reason: reason ?? null,
+      notes: notes ?? null,
+      metadata: metadata ?? undefined,
+      balanceBefore: balanceAfter + rawAmount,
+      balanceAfter,
+    },
+  });
+
+  return { ledger, balanceAfter };
+}
+
 /**
  * Safety / repair helper:
  * - Reads every ledger entry for the given company and computes the real balance.
@@ -360,6 +404,16 @@ export interface TicketCompletionResult {
   companyBalanceAfter: number | null;
   creativeBalanceAfter: number | null;
   alreadyCompleted: boolean;
+  /** True when this completed a ticket reopened for a correction — the
+   *  creative was paid the first time round, so no ledger entry was written. */
+  correction: boolean;
+}
+
+export interface TicketCompletionOptions {
+  /** Who approved the completion — recorded on the status history row. */
+  actorId?: string | null;
+  /** Which endpoint drove the completion (status history `source`). */
+  source?: StatusEventSource;
 }
 
 /**
@@ -367,14 +421,22 @@ export interface TicketCompletionResult {
  * - Ticket.status => DONE
  * - DEBIT jobType.tokenCost from the company
  * - CREDIT jobType.creativePayoutTokens to the creative
+ * - TicketStatusEvent row for the DONE transition (same transaction)
  *
  * Idempotent:
  * - If the ticket is already DONE, or a ledger entry with reason = "JOB_PAYMENT" already
  *   exists for this ticket, returns "alreadyCompleted = true" without creating new entries.
+ *
+ * Corrections:
+ * - A ticket reopened via lib/tickets/reopen.ts (reopenCount > 0) is moved back to
+ *   DONE without a second creative credit and returns "correction = true".
  */
 export async function completeTicketAndApplyTokens(
   ticketId: string,
+  options: TicketCompletionOptions = {},
 ): Promise<TicketCompletionResult> {
+  const statusEventSource = options.source ?? "COMPLETE_ENDPOINT";
+
   return prisma.$transaction(async (tx) => {
     const ticket = await tx.ticket.findUnique({
       where: { id: ticketId },
@@ -403,6 +465,44 @@ export async function completeTicketAndApplyTokens(
       },
     });
 
+    // Re-completion after a correction reopen: the creative was paid when the
+    // ticket first reached DONE, so only the status moves.
+    if (ticket.status !== TicketStatus.DONE && ticket.reopenCount > 0) {
+      const correctedTicket = await tx.ticket.update({
+        where: { id: ticket.id },
+        data: { status: TicketStatus.DONE },
+        select: {
+          id: true,
+          status: true,
+          companyId: true,
+          creativeId: true,
+          jobTypeId: true,
+        },
+      });
+
+      await recordStatusEvent(
+        {
+          ticketId: ticket.id,
+          fromStatus: ticket.status,
+          toStatus: TicketStatus.DONE,
+          actorId: options.actorId,
+          source: statusEventSource,
+          metadata: { correction: true, reopenCount: ticket.reopenCount },
+        },
+        tx,
+      );
+
+      return {
+        ticket: correctedTicket,
+        companyLedgerEntry: null,
+        creativeLedgerEntry: null,
+        companyBalanceAfter: null,
+        creativeBalanceAfter: null,
+        alreadyCompleted: false,
+        correction: true,
+      };
+    }
+
     if (ticket.status === TicketStatus.DONE || existingPayment) {
       const finalTicket =
         ticket.status === TicketStatus.DONE
@@ -412,6 +512,18 @@ export async function completeTicketAndApplyTokens(
               data: { status: TicketStatus.DONE },
             });
 
+      await recordStatusEvent(
+        {
+          ticketId: ticket.id,
+          fromStatus: ticket.status,
+          toStatus: finalTicket.status,
+          actorId: options.actorId,
+          source: statusEventSource,
+          metadata: { repairedFromExistingPayment: true },
+        },
+        tx,
+      );
+
       return {
         ticket: {
           id: finalTicket.id,
@@ -425,6 +537,7 @@ export async function completeTicketAndApplyTokens(
         companyBalanceAfter: null,
         creativeBalanceAfter: null,
         alreadyCompleted: true,
+        correction: false,
       };
     }
 
@@ -521,6 +634,17 @@ export async function completeTicketAndApplyTokens(
       },
     });
 
+    await recordStatusEvent(
+      {
+        ticketId: ticket.id,
+        fromStatus: ticket.status,
+        toStatus: TicketStatus.DONE,
+        actorId: options.actorId,
+        source: statusEventSource,
+      },
+      tx,
+    );
+
     return {
       ticket: updatedTicket,
       companyLedgerEntry,
@@ -528,6 +652,7 @@ export async function completeTicketAndApplyTokens(
       companyBalanceAfter,
       creativeBalanceAfter,
       alreadyCompleted: false,
+      correction: false,
     };
   });
 }
@@ -0,0 +1,30 @@
+-- TicketStatusEvent: append-only log of ticket status transitions.
+-- Written alongside every status flip so admin analytics can compute lead
+-- time, cycle time, time-in-status and review round-trips. Additive only;
+-- existing tickets simply have no history rows.
+
+-- CreateTable
+CREATE TABLE "TicketStatusEvent" (
+    "id" TEXT NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "fromStatus" "TicketStatus" NOT NULL,
+    "toStatus" "TicketStatus" NOT NULL,
+    "actorId" TEXT,
+    "source" TEXT NOT NULL,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TicketStatusEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TicketStatusEvent_ticketId_createdAt_idx" ON "TicketStatusEvent"("ticketId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TicketStatusEvent_toStatus_createdAt_idx" ON "TicketStatusEvent"("toStatus", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TicketStatusEvent" ADD CONSTRAINT "TicketStatusEvent_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketStatusEvent" ADD CONSTRAINT "TicketStatusEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "UserAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
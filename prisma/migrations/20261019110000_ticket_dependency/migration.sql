@@ -0,0 +1,33 @@
+-- TicketDependency: "blocks / blocked by" links between tickets of the same
+-- company. A blocked ticket cannot move to IN_PROGRESS until every blocker
+-- is DONE. NotificationType gains TICKET_UNBLOCKED for the "you can start
+-- now" ping. Additive only.
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'TICKET_UNBLOCKED';
+
+-- CreateTable
+CREATE TABLE "TicketDependency" (
+    "id" TEXT NOT NULL,
+    "blockerId" TEXT NOT NULL,
+    "blockedId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TicketDependency_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketDependency_blockerId_blockedId_key" ON "TicketDependency"("blockerId", "blockedId");
+
+-- CreateIndex
+CREATE INDEX "TicketDependency_blockedId_idx" ON "TicketDependency"("blockedId");
+
+-- AddForeignKey
+ALTER TABLE "TicketDependency" ADD CONSTRAINT "TicketDependency_blockerId_fkey" FOREIGN KEY ("blockerId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketDependency" ADD CONSTRAINT "TicketDependency_blockedId_fkey" FOREIGN KEY ("blockedId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketDependency" ADD CONSTRAINT "TicketDependency_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "UserAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- RecurringTicketSchedule: ticket templates materialized on a cron rule by
+-- /api/cron/recurring-tickets. NotificationType gains
+-- RECURRING_TICKET_SKIPPED so company owners hear about runs that couldn't
+-- create their ticket (e.g. insufficient tokens). Additive only.
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'RECURRING_TICKET_SKIPPED';
+
+-- CreateTable
+CREATE TABLE "RecurringTicketSchedule" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "jobTypeId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "cronRule" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "priority" "TicketPriority" NOT NULL DEFAULT 'MEDIUM',
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "dueInDays" INTEGER,
+    "tagIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "outputSpecs" JSONB,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "lastRunStatus" TEXT,
+    "lastRunError" TEXT,
+    "lastTicketId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringTicketSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringTicketSchedule_isActive_nextRunAt_idx" ON "RecurringTicketSchedule"("isActive", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "RecurringTicketSchedule_companyId_idx" ON "RecurringTicketSchedule"("companyId");
+
+-- AddForeignKey
+ALTER TABLE "RecurringTicketSchedule" ADD CONSTRAINT "RecurringTicketSchedule_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTicketSchedule" ADD CONSTRAINT "RecurringTicketSchedule_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTicketSchedule" ADD CONSTRAINT "RecurringTicketSchedule_jobTypeId_fkey" FOREIGN KEY ("jobTypeId") REFERENCES "JobType"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTicketSchedule" ADD CONSTRAINT "RecurringTicketSchedule_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "UserAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
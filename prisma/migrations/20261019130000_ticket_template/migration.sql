@@ -0,0 +1,38 @@
+-- TicketTemplate: company-scoped brief presets used by the new-ticket form's
+-- "Start from template" picker and "Save as template" on existing tickets.
+-- Additive only.
+
+-- CreateTable
+CREATE TABLE "TicketTemplate" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "jobTypeId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "titlePattern" TEXT NOT NULL,
+    "description" TEXT,
+    "priority" "TicketPriority" NOT NULL DEFAULT 'MEDIUM',
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "tagIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "outputSpecs" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TicketTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketTemplate_companyId_name_key" ON "TicketTemplate"("companyId", "name");
+
+-- AddForeignKey
+ALTER TABLE "TicketTemplate" ADD CONSTRAINT "TicketTemplate_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketTemplate" ADD CONSTRAINT "TicketTemplate_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketTemplate" ADD CONSTRAINT "TicketTemplate_jobTypeId_fkey" FOREIGN KEY ("jobTypeId") REFERENCES "JobType"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketTemplate" ADD CONSTRAINT "TicketTemplate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "UserAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
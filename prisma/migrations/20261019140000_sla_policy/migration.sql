@@ -0,0 +1,41 @@
+-- SlaPolicy: per-job-type turnaround targets in business hours, optionally
+-- per priority. Tickets snapshot the resolved target and carry a due date
+-- that pauses while the ticket waits in IN_REVIEW. Two new notification
+-- types for the hourly at-risk / breach sweep. Additive only.
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'SLA_AT_RISK';
+ALTER TYPE "NotificationType" ADD VALUE 'SLA_BREACHED';
+
+-- CreateTable
+CREATE TABLE "SlaPolicy" (
+    "id" TEXT NOT NULL,
+    "jobTypeId" TEXT NOT NULL,
+    "priority" "TicketPriority",
+    "targetHours" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SlaPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "slaPolicyId" TEXT,
+ADD COLUMN "slaTargetHours" INTEGER,
+ADD COLUMN "slaDueAt" TIMESTAMP(3),
+ADD COLUMN "slaPausedAt" TIMESTAMP(3),
+ADD COLUMN "slaAtRiskNotifiedAt" TIMESTAMP(3),
+ADD COLUMN "slaBreachNotifiedAt" TIMESTAMP(3),
+ADD COLUMN "slaMet" BOOLEAN;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SlaPolicy_jobTypeId_priority_key" ON "SlaPolicy"("jobTypeId", "priority");
+
+-- CreateIndex
+CREATE INDEX "Ticket_status_slaDueAt_idx" ON "Ticket"("status", "slaDueAt");
+
+-- AddForeignKey
+ALTER TABLE "SlaPolicy" ADD CONSTRAINT "SlaPolicy_jobTypeId_fkey" FOREIGN KEY ("jobTypeId") REFERENCES "JobType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Ticket" ADD CONSTRAINT "Ticket_slaPolicyId_fkey" FOREIGN KEY ("slaPolicyId") REFERENCES "SlaPolicy"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- TicketCommentMention: users @mentioned in ticket comments, resolved
+-- server-side when the comment is posted. New MENTIONED notification type.
+-- Additive only.
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'MENTIONED';
+
+-- CreateTable
+CREATE TABLE "TicketCommentMention" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TicketCommentMention_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketCommentMention_commentId_userId_key" ON "TicketCommentMention"("commentId", "userId");
+
+-- CreateIndex
+CREATE INDEX "TicketCommentMention_userId_idx" ON "TicketCommentMention"("userId");
+
+-- AddForeignKey
+ALTER TABLE "TicketCommentMention" ADD CONSTRAINT "TicketCommentMention_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "TicketComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketCommentMention" ADD CONSTRAINT "TicketCommentMention_userId_fkey" FOREIGN KEY ("userId") REFERENCES "UserAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- TicketWatcher: users following a ticket's activity (status changes,
+-- revisions, comments, pin resolutions). New TICKET_COMMENTED notification
+-- type for comment fan-out.
+-- Additive only.
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'TICKET_COMMENTED';
+
+-- CreateTable
+CREATE TABLE "TicketWatcher" (
+    "id" TEXT NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TicketWatcher_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketWatcher_ticketId_userId_key" ON "TicketWatcher"("ticketId", "userId");
+
+-- CreateIndex
+CREATE INDEX "TicketWatcher_userId_idx" ON "TicketWatcher"("userId");
+
+-- AddForeignKey
+ALTER TABLE "TicketWatcher" ADD CONSTRAINT "TicketWatcher_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketWatcher" ADD CONSTRAINT "TicketWatcher_userId_fkey" FOREIGN KEY ("userId") REFERENCES "UserAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- TicketComment.isInternal: internal notes between the creative and
+-- Brandbite admins, never shown to the customer. Existing comments stay
+-- customer-visible.
+-- Additive only.
+
+-- AlterTable
+ALTER TABLE "TicketComment" ADD COLUMN "isInternal" BOOLEAN NOT NULL DEFAULT false;
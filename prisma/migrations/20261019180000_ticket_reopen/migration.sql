@@ -0,0 +1,7 @@
+-- Ticket.reopenCount / lastReopenedAt: DONE tickets reopened for a free
+-- correction within the TICKET_REOPEN_WINDOW_HOURS app setting.
+-- Additive only.
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "reopenCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lastReopenedAt" TIMESTAMP(3);
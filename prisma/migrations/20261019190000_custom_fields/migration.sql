@@ -0,0 +1,56 @@
+-- CustomFieldDefinition / TicketCustomFieldValue: company-defined ticket
+-- metadata (campaign code, cost center, channel, launch date, ...) managed in
+-- /customer/settings and filled in on the new-ticket form and ticket page.
+-- Additive only.
+
+-- CreateEnum
+CREATE TYPE "CustomFieldType" AS ENUM ('TEXT', 'NUMBER', 'DATE', 'SELECT', 'MULTI_SELECT', 'URL');
+
+-- CreateTable
+CREATE TABLE "CustomFieldDefinition" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "type" "CustomFieldType" NOT NULL,
+    "options" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomFieldDefinition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TicketCustomFieldValue" (
+    "id" TEXT NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "fieldId" TEXT NOT NULL,
+    "value" TEXT,
+    "values" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TicketCustomFieldValue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CustomFieldDefinition_companyId_idx" ON "CustomFieldDefinition"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomFieldDefinition_companyId_label_key" ON "CustomFieldDefinition"("companyId", "label");
+
+-- CreateIndex
+CREATE INDEX "TicketCustomFieldValue_fieldId_idx" ON "TicketCustomFieldValue"("fieldId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketCustomFieldValue_ticketId_fieldId_key" ON "TicketCustomFieldValue"("ticketId", "fieldId");
+
+-- AddForeignKey
+ALTER TABLE "CustomFieldDefinition" ADD CONSTRAINT "CustomFieldDefinition_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketCustomFieldValue" ADD CONSTRAINT "TicketCustomFieldValue_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketCustomFieldValue" ADD CONSTRAINT "TicketCustomFieldValue_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "CustomFieldDefinition"("id") ON DELETE CASCADE ON UPDATE CASCADE;
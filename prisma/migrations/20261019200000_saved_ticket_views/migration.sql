@@ -0,0 +1,62 @@
+-- SavedTicketView / SavedTicketViewDefault: named filter, sort, grouping and
+-- column presets for /customer/tickets and /customer/board, personal or
+-- shared with the company, plus each user's default view per page.
+-- Additive only.
+
+-- CreateEnum
+CREATE TYPE "SavedViewPage" AS ENUM ('TICKET_LIST', 'BOARD');
+
+-- CreateTable
+CREATE TABLE "SavedTicketView" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "page" "SavedViewPage" NOT NULL,
+    "name" TEXT NOT NULL,
+    "shared" BOOLEAN NOT NULL DEFAULT false,
+    "config" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedTicketView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SavedTicketViewDefault" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "page" "SavedViewPage" NOT NULL,
+    "viewId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedTicketViewDefault_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SavedTicketView_companyId_page_idx" ON "SavedTicketView"("companyId", "page");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SavedTicketView_companyId_ownerId_page_name_key" ON "SavedTicketView"("companyId", "ownerId", "page", "name");
+
+-- CreateIndex
+CREATE INDEX "SavedTicketViewDefault_viewId_idx" ON "SavedTicketViewDefault"("viewId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SavedTicketViewDefault_userId_companyId_page_key" ON "SavedTicketViewDefault"("userId", "companyId", "page");
+
+-- AddForeignKey
+ALTER TABLE "SavedTicketView" ADD CONSTRAINT "SavedTicketView_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedTicketView" ADD CONSTRAINT "SavedTicketView_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "UserAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedTicketViewDefault" ADD CONSTRAINT "SavedTicketViewDefault_userId_fkey" FOREIGN KEY ("userId") REFERENCES "UserAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedTicketViewDefault" ADD CONSTRAINT "SavedTicketViewDefault_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedTicketViewDefault" ADD CONSTRAINT "SavedTicketViewDefault_viewId_fkey" FOREIGN KEY ("viewId") REFERENCES "SavedTicketView"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- Full-text search: STORED generated tsvector columns plus GIN indexes on
+-- tickets (title weighted A, description B), comments, revision messages,
+-- pin comments and asset file names. Queried by lib/search/full-text.ts.
+-- The 'simple' configuration is used on purpose — customers write briefs in
+-- many languages, so no stemming or stop words; prefix matching (`term:*`)
+-- covers plurals and partial words instead. HTML tags in descriptions and
+-- file-name separators are stripped before indexing.
+-- Additive only.
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce("title", '')), 'A') ||
+        setweight(to_tsvector('simple', regexp_replace(coalesce("description", ''), '<[^>]+>', ' ', 'g')), 'B')
+    ) STORED;
+
+-- AlterTable
+ALTER TABLE "TicketComment" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('simple', coalesce("body", ''))) STORED;
+
+-- AlterTable
+ALTER TABLE "TicketRevision" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        to_tsvector('simple', coalesce("designerMessage", '') || ' ' || coalesce("feedbackMessage", ''))
+    ) STORED;
+
+-- AlterTable
+ALTER TABLE "Asset" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        to_tsvector('simple', regexp_replace(coalesce("originalName", ''), '[._/-]+', ' ', 'g'))
+    ) STORED;
+
+-- AlterTable
+ALTER TABLE "AssetPinComment" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('simple', coalesce("message", ''))) STORED;
+
+-- CreateIndex
+CREATE INDEX "Ticket_searchVector_idx" ON "Ticket" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "TicketComment_searchVector_idx" ON "TicketComment" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "TicketRevision_searchVector_idx" ON "TicketRevision" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Asset_searchVector_idx" ON "Asset" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "AssetPinComment_searchVector_idx" ON "AssetPinComment" USING GIN ("searchVector");
@@ -0,0 +1,10 @@
+-- Ticket.backlogRank: per-company ordering of TODO tickets, set by company
+-- owners / PMs on the customer board. Read by the creative board, the
+-- auto-assign backfill and the start-work concurrency gate.
+-- Additive only.
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "backlogRank" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Ticket_companyId_status_backlogRank_idx" ON "Ticket"("companyId", "status", "backlogRank");
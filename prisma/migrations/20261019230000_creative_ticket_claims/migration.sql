@@ -0,0 +1,10 @@
+-- Company.creativeClaimsEnabled: admin switch letting creatives claim the
+-- company's unassigned TODO tickets from the available-work queue, plus the
+-- audit action for flipping it. Off by default.
+-- Additive only.
+
+-- AlterEnum
+ALTER TYPE "AdminActionType" ADD VALUE 'COMPANY_CREATIVE_CLAIMS_EDIT';
+
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN "creativeClaimsEnabled" BOOLEAN NOT NULL DEFAULT false;
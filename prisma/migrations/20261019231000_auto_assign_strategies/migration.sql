@@ -0,0 +1,35 @@
+-- Auto-assign strategies: Company.autoAssignStrategy (default LOAD_BALANCED,
+-- today's behaviour), an optional per-project override, and the company's
+-- preferred-creative list read by the PREFERRED_CREATIVES strategy.
+-- Additive only.
+
+-- CreateEnum
+CREATE TYPE "AutoAssignStrategy" AS ENUM ('LOAD_BALANCED', 'PROJECT_CONTINUITY', 'PREFERRED_CREATIVES', 'ROUND_ROBIN');
+
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN "autoAssignStrategy" "AutoAssignStrategy" NOT NULL DEFAULT 'LOAD_BALANCED';
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "autoAssignStrategy" "AutoAssignStrategy";
+
+-- CreateTable
+CREATE TABLE "CompanyPreferredCreative" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "creativeId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CompanyPreferredCreative_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CompanyPreferredCreative_creativeId_idx" ON "CompanyPreferredCreative"("creativeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanyPreferredCreative_companyId_creativeId_key" ON "CompanyPreferredCreative"("companyId", "creativeId");
+
+-- AddForeignKey
+ALTER TABLE "CompanyPreferredCreative" ADD CONSTRAINT "CompanyPreferredCreative_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompanyPreferredCreative" ADD CONSTRAINT "CompanyPreferredCreative_creativeId_fkey" FOREIGN KEY ("creativeId") REFERENCES "UserAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- Region and freehand annotations: AssetPin.shape (default POINT, so every
+-- existing pin keeps rendering as a numbered marker) and a nullable
+-- normalized geometry for rectangles, ellipses, arrows and strokes.
+-- Additive only.
+
+-- CreateEnum
+CREATE TYPE "AssetPinShape" AS ENUM ('POINT', 'RECT', 'ELLIPSE', 'ARROW', 'FREEHAND');
+
+-- AlterTable
+ALTER TABLE "AssetPin" ADD COLUMN "shape" "AssetPinShape" NOT NULL DEFAULT 'POINT',
+ADD COLUMN "geometry" JSONB;
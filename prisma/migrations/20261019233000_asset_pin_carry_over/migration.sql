@@ -0,0 +1,18 @@
+-- Carry open pins forward: when a creative submits a new revision, OPEN pins
+-- on the previous revision's assets are copied onto the matching new assets
+-- with a link back to the original and a PENDING customer check.
+-- Additive only.
+
+-- CreateEnum
+CREATE TYPE "PinCarryOverReview" AS ENUM ('PENDING', 'FIXED', 'STILL_OPEN');
+
+-- AlterTable
+ALTER TABLE "AssetPin" ADD COLUMN "carriedFromPinId" TEXT,
+ADD COLUMN "carryOverReview" "PinCarryOverReview",
+ADD COLUMN "carryOverReviewedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AssetPin_carriedFromPinId_key" ON "AssetPin"("carriedFromPinId");
+
+-- AddForeignKey
+ALTER TABLE "AssetPin" ADD CONSTRAINT "AssetPin_carriedFromPinId_fkey" FOREIGN KEY ("carriedFromPinId") REFERENCES "AssetPin"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,85 @@
+-- Approval chains: per-company / per-project sign-off policies (ordered or
+-- parallel approvers, minimum approvals) gating DONE, per-revision approval
+-- records, and the APPROVAL_REQUESTED notification type.
+-- Additive only.
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'APPROVAL_REQUESTED';
+
+-- CreateEnum
+CREATE TYPE "ApprovalMode" AS ENUM ('SEQUENTIAL', 'PARALLEL');
+
+-- CreateEnum
+CREATE TYPE "ApprovalDecision" AS ENUM ('APPROVED', 'CHANGES_REQUESTED');
+
+-- CreateTable
+CREATE TABLE "TicketApprovalPolicy" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "mode" "ApprovalMode" NOT NULL DEFAULT 'PARALLEL',
+    "minApprovals" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TicketApprovalPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TicketApprovalPolicyApprover" (
+    "id" TEXT NOT NULL,
+    "policyId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "label" TEXT,
+
+    CONSTRAINT "TicketApprovalPolicyApprover_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TicketRevisionApproval" (
+    "id" TEXT NOT NULL,
+    "revisionId" TEXT NOT NULL,
+    "approverId" TEXT NOT NULL,
+    "decision" "ApprovalDecision" NOT NULL,
+    "message" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TicketRevisionApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketApprovalPolicy_projectId_key" ON "TicketApprovalPolicy"("projectId");
+
+-- CreateIndex
+CREATE INDEX "TicketApprovalPolicy_companyId_idx" ON "TicketApprovalPolicy"("companyId");
+
+-- CreateIndex
+CREATE INDEX "TicketApprovalPolicyApprover_userId_idx" ON "TicketApprovalPolicyApprover"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketApprovalPolicyApprover_policyId_userId_key" ON "TicketApprovalPolicyApprover"("policyId", "userId");
+
+-- CreateIndex
+CREATE INDEX "TicketRevisionApproval_approverId_idx" ON "TicketRevisionApproval"("approverId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketRevisionApproval_revisionId_approverId_key" ON "TicketRevisionApproval"("revisionId", "approverId");
+
+-- AddForeignKey
+ALTER TABLE "TicketApprovalPolicy" ADD CONSTRAINT "TicketApprovalPolicy_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketApprovalPolicy" ADD CONSTRAINT "TicketApprovalPolicy_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketApprovalPolicyApprover" ADD CONSTRAINT "TicketApprovalPolicyApprover_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "TicketApprovalPolicy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketApprovalPolicyApprover" ADD CONSTRAINT "TicketApprovalPolicyApprover_userId_fkey" FOREIGN KEY ("userId") REFERENCES "UserAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketRevisionApproval" ADD CONSTRAINT "TicketRevisionApproval_revisionId_fkey" FOREIGN KEY ("revisionId") REFERENCES "TicketRevision"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TicketRevisionApproval" ADD CONSTRAINT "TicketRevisionApproval_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "UserAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
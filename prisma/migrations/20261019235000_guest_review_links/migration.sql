@@ -0,0 +1,121 @@
+-- Guest review links: expiring, revocable, optionally password-protected
+-- share links to one ticket revision for reviewers without an account, the
+-- pins / comments guests leave (pending company acceptance), and an
+-- append-only audit log of guest activity.
+-- Additive only.
+
+-- CreateEnum
+CREATE TYPE "GuestFeedbackStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DISMISSED');
+
+-- CreateEnum
+CREATE TYPE "GuestReviewAction" AS ENUM ('LINK_CREATED', 'LINK_REVOKED', 'VIEWED', 'UNLOCKED', 'PASSWORD_FAILED', 'FEEDBACK_ADDED', 'FEEDBACK_ACCEPTED', 'FEEDBACK_DISMISSED');
+
+-- CreateTable
+CREATE TABLE "GuestReviewLink" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "revisionId" TEXT NOT NULL,
+    "label" TEXT,
+    "passwordHash" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "revokedById" TEXT,
+    "createdById" TEXT NOT NULL,
+    "lastViewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GuestReviewLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GuestReviewFeedback" (
+    "id" TEXT NOT NULL,
+    "linkId" TEXT NOT NULL,
+    "guestName" TEXT NOT NULL,
+    "assetId" TEXT,
+    "x" DOUBLE PRECISION,
+    "y" DOUBLE PRECISION,
+    "page" INTEGER NOT NULL DEFAULT 1,
+    "message" TEXT NOT NULL,
+    "status" "GuestFeedbackStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedById" TEXT,
+    "acceptedPinId" TEXT,
+    "acceptedCommentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GuestReviewFeedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GuestReviewEvent" (
+    "id" TEXT NOT NULL,
+    "linkId" TEXT NOT NULL,
+    "action" "GuestReviewAction" NOT NULL,
+    "actorId" TEXT,
+    "guestName" TEXT,
+    "feedbackId" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GuestReviewEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GuestReviewLink_token_key" ON "GuestReviewLink"("token");
+
+-- CreateIndex
+CREATE INDEX "GuestReviewLink_ticketId_createdAt_idx" ON "GuestReviewLink"("ticketId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GuestReviewLink_revisionId_idx" ON "GuestReviewLink"("revisionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GuestReviewFeedback_acceptedPinId_key" ON "GuestReviewFeedback"("acceptedPinId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GuestReviewFeedback_acceptedCommentId_key" ON "GuestReviewFeedback"("acceptedCommentId");
+
+-- CreateIndex
+CREATE INDEX "GuestReviewFeedback_linkId_status_idx" ON "GuestReviewFeedback"("linkId", "status");
+
+-- CreateIndex
+CREATE INDEX "GuestReviewFeedback_assetId_idx" ON "GuestReviewFeedback"("assetId");
+
+-- CreateIndex
+CREATE INDEX "GuestReviewEvent_linkId_createdAt_idx" ON "GuestReviewEvent"("linkId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "GuestReviewLink" ADD CONSTRAINT "GuestReviewLink_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuestReviewLink" ADD CONSTRAINT "GuestReviewLink_revisionId_fkey" FOREIGN KEY ("revisionId") REFERENCES "TicketRevision"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuestReviewLink" ADD CONSTRAINT "GuestReviewLink_revokedById_fkey" FOREIGN KEY ("revokedById") REFERENCES "UserAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuestReviewLink" ADD CONSTRAINT "GuestReviewLink_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "UserAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuestReviewFeedback" ADD CONSTRAINT "GuestReviewFeedback_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "GuestReviewLink"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuestReviewFeedback" ADD CONSTRAINT "GuestReviewFeedback_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuestReviewFeedback" ADD CONSTRAINT "GuestReviewFeedback_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "UserAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuestReviewFeedback" ADD CONSTRAINT "GuestReviewFeedback_acceptedPinId_fkey" FOREIGN KEY ("acceptedPinId") REFERENCES "AssetPin"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuestReviewFeedback" ADD CONSTRAINT "GuestReviewFeedback_acceptedCommentId_fkey" FOREIGN KEY ("acceptedCommentId") REFERENCES "TicketComment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuestReviewEvent" ADD CONSTRAINT "GuestReviewEvent_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "GuestReviewLink"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuestReviewEvent" ADD CONSTRAINT "GuestReviewEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "UserAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -6,9 +6,9 @@
 //           session cookie does. The "real session also valid on demo"
 //           rule mirrors lib/auth.ts (PR #213) so signed-in users on the
 //           demo deploy can actually reach the protected APIs they own.
-// @version: v1.3.0
+// @version: v1.4.0
 // @status: active
-// @lastUpdate: 2026-05-01
+// @lastUpdate: 2026-10-19
 // -----------------------------------------------------------------------------
 
 import { NextRequest, NextResponse } from "next/server";
@@ -105,6 +105,11 @@ const PUBLIC_PATHS = [
   // reach the handler. Auth-gating here silently breaks every scheduled
   // job because Vercel Cron does not send a BetterAuth session cookie.
   "/api/cron",
+  // Guest review links (lib/tickets/guest-review.ts). Guests have no account;
+  // the token in the URL (plus an unlock cookie for password-protected links)
+  // is checked inside every /api/review route.
+  "/review",
+  "/api/review",
 ];
 
 // Debug routes are only accessible in demo mode